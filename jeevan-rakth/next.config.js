@@ -2,6 +2,13 @@
 const nextConfig = {
   reactStrictMode: true,
 
+  // PDFKit reads its font metrics from disk at runtime, ExcelJS's streaming
+  // writer relies on Node streams and bwip-js ships a Node-only build, so
+  // none of them are bundled into server routes
+  experimental: {
+    serverComponentsExternalPackages: ["pdfkit", "exceljs", "bwip-js"],
+  },
+
   // Security Headers Configuration
   async headers() {
     return [
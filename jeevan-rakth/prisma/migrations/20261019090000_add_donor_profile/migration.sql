@@ -0,0 +1,31 @@
+-- CreateEnum
+CREATE TYPE "BloodGroup" AS ENUM ('A_POS', 'A_NEG', 'B_POS', 'B_NEG', 'AB_POS', 'AB_NEG', 'O_POS', 'O_NEG');
+
+-- CreateTable
+CREATE TABLE "DonorProfile" (
+    "id" SERIAL NOT NULL,
+    "bloodGroup" "BloodGroup" NOT NULL,
+    "phone" TEXT NOT NULL,
+    "addressLine" TEXT NOT NULL,
+    "city" TEXT NOT NULL,
+    "state" TEXT NOT NULL,
+    "postalCode" TEXT NOT NULL,
+    "dateOfBirth" DATE NOT NULL,
+    "weightKg" DECIMAL(5,2) NOT NULL,
+    "totalDonations" INTEGER NOT NULL DEFAULT 0,
+    "lastDonationAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "userId" INTEGER NOT NULL,
+
+    CONSTRAINT "DonorProfile_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DonorProfile_userId_key" ON "DonorProfile"("userId");
+
+-- CreateIndex
+CREATE INDEX "DonorProfile_bloodGroup_idx" ON "DonorProfile"("bloodGroup");
+
+-- AddForeignKey
+ALTER TABLE "DonorProfile" ADD CONSTRAINT "DonorProfile_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
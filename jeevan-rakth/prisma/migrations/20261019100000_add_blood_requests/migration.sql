@@ -0,0 +1,45 @@
+-- CreateEnum
+CREATE TYPE "BloodComponent" AS ENUM ('WHOLE_BLOOD', 'RED_CELLS', 'PLASMA', 'PLATELETS');
+
+-- CreateEnum
+CREATE TYPE "UrgencyLevel" AS ENUM ('ROUTINE', 'URGENT', 'CRITICAL');
+
+-- CreateEnum
+CREATE TYPE "BloodRequestStatus" AS ENUM ('OPEN', 'MATCHING', 'PARTIALLY_FULFILLED', 'FULFILLED', 'CANCELLED', 'EXPIRED');
+
+-- CreateTable
+CREATE TABLE "BloodRequest" (
+    "id" SERIAL NOT NULL,
+    "patientName" TEXT NOT NULL,
+    "bloodGroup" "BloodGroup" NOT NULL,
+    "component" "BloodComponent" NOT NULL,
+    "unitsNeeded" INTEGER NOT NULL,
+    "unitsFulfilled" INTEGER NOT NULL DEFAULT 0,
+    "urgency" "UrgencyLevel" NOT NULL,
+    "hospitalName" TEXT NOT NULL,
+    "requiredBy" TIMESTAMP(3) NOT NULL,
+    "status" "BloodRequestStatus" NOT NULL DEFAULT 'OPEN',
+    "notes" TEXT,
+    "closureReason" TEXT,
+    "closedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "createdById" INTEGER NOT NULL,
+
+    CONSTRAINT "BloodRequest_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "BloodRequest_status_idx" ON "BloodRequest"("status");
+
+-- CreateIndex
+CREATE INDEX "BloodRequest_bloodGroup_component_idx" ON "BloodRequest"("bloodGroup", "component");
+
+-- CreateIndex
+CREATE INDEX "BloodRequest_urgency_requiredBy_idx" ON "BloodRequest"("urgency", "requiredBy");
+
+-- CreateIndex
+CREATE INDEX "BloodRequest_createdById_idx" ON "BloodRequest"("createdById");
+
+-- AddForeignKey
+ALTER TABLE "BloodRequest" ADD CONSTRAINT "BloodRequest_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
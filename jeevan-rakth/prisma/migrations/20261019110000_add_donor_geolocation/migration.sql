@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "DonorProfile" ADD COLUMN     "isAvailable" BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN     "latitude" DOUBLE PRECISION,
+ADD COLUMN     "longitude" DOUBLE PRECISION;
+
+-- AlterTable
+ALTER TABLE "BloodRequest" ADD COLUMN     "hospitalLatitude" DOUBLE PRECISION,
+ADD COLUMN     "hospitalLongitude" DOUBLE PRECISION;
+
+-- CreateIndex
+CREATE INDEX "DonorProfile_isAvailable_latitude_longitude_idx" ON "DonorProfile"("isAvailable", "latitude", "longitude");
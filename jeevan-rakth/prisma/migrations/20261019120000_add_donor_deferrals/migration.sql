@@ -0,0 +1,34 @@
+-- CreateEnum
+CREATE TYPE "DeferralType" AS ENUM ('TEMPORARY', 'PERMANENT');
+
+-- CreateEnum
+CREATE TYPE "DeferralReason" AS ENUM ('TATTOO', 'TRAVEL', 'MEDICATION', 'ILLNESS', 'SURGERY', 'PREGNANCY', 'LOW_HAEMOGLOBIN', 'OTHER');
+
+-- AlterTable
+ALTER TABLE "DonorProfile" ADD COLUMN     "haemoglobinGdl" DECIMAL(4,1),
+ADD COLUMN     "lastDonationComponent" "BloodComponent";
+
+-- CreateTable
+CREATE TABLE "DonorDeferral" (
+    "id" SERIAL NOT NULL,
+    "type" "DeferralType" NOT NULL,
+    "reasonCode" "DeferralReason" NOT NULL,
+    "notes" TEXT,
+    "startsAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expiresAt" TIMESTAMP(3),
+    "liftedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "donorProfileId" INTEGER NOT NULL,
+    "createdById" INTEGER,
+
+    CONSTRAINT "DonorDeferral_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "DonorDeferral_donorProfileId_expiresAt_idx" ON "DonorDeferral"("donorProfileId", "expiresAt");
+
+-- AddForeignKey
+ALTER TABLE "DonorDeferral" ADD CONSTRAINT "DonorDeferral_donorProfileId_fkey" FOREIGN KEY ("donorProfileId") REFERENCES "DonorProfile"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DonorDeferral" ADD CONSTRAINT "DonorDeferral_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,36 @@
+-- CreateEnum
+CREATE TYPE "BloodUnitStatus" AS ENUM ('QUARANTINE', 'AVAILABLE', 'RESERVED', 'ISSUED', 'DISCARDED');
+
+-- CreateTable
+CREATE TABLE "BloodUnit" (
+    "id" SERIAL NOT NULL,
+    "donationNumber" TEXT NOT NULL,
+    "component" "BloodComponent" NOT NULL,
+    "bloodGroup" "BloodGroup" NOT NULL,
+    "volumeMl" INTEGER,
+    "collectedAt" TIMESTAMP(3) NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "storageLocation" TEXT NOT NULL,
+    "status" "BloodUnitStatus" NOT NULL DEFAULT 'QUARANTINE',
+    "discardReason" TEXT,
+    "reservedAt" TIMESTAMP(3),
+    "issuedAt" TIMESTAMP(3),
+    "discardedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "reservedForId" INTEGER,
+
+    CONSTRAINT "BloodUnit_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BloodUnit_donationNumber_component_key" ON "BloodUnit"("donationNumber", "component");
+
+-- CreateIndex
+CREATE INDEX "BloodUnit_status_component_bloodGroup_expiresAt_idx" ON "BloodUnit"("status", "component", "bloodGroup", "expiresAt");
+
+-- CreateIndex
+CREATE INDEX "BloodUnit_reservedForId_idx" ON "BloodUnit"("reservedForId");
+
+-- AddForeignKey
+ALTER TABLE "BloodUnit" ADD CONSTRAINT "BloodUnit_reservedForId_fkey" FOREIGN KEY ("reservedForId") REFERENCES "BloodRequest"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,90 @@
+-- CreateEnum
+CREATE TYPE "OrganizationType" AS ENUM ('HOSPITAL', 'BLOOD_BANK', 'NGO');
+
+-- CreateEnum
+CREATE TYPE "OrganizationRole" AS ENUM ('ADMIN', 'STAFF', 'VIEWER');
+
+-- CreateTable
+CREATE TABLE "Organization" (
+    "id" SERIAL NOT NULL,
+    "name" TEXT NOT NULL,
+    "type" "OrganizationType" NOT NULL,
+    "registrationNumber" TEXT NOT NULL,
+    "phone" TEXT,
+    "email" TEXT,
+    "addressLine" TEXT NOT NULL,
+    "city" TEXT NOT NULL,
+    "state" TEXT NOT NULL,
+    "postalCode" TEXT NOT NULL,
+    "latitude" DOUBLE PRECISION,
+    "longitude" DOUBLE PRECISION,
+    "verified" BOOLEAN NOT NULL DEFAULT false,
+    "verifiedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Organization_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "OrganizationMember" (
+    "id" SERIAL NOT NULL,
+    "role" "OrganizationRole" NOT NULL DEFAULT 'STAFF',
+    "joinedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "organizationId" INTEGER NOT NULL,
+    "userId" INTEGER NOT NULL,
+
+    CONSTRAINT "OrganizationMember_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Organization_registrationNumber_key" ON "Organization"("registrationNumber");
+
+-- CreateIndex
+CREATE INDEX "Organization_type_verified_idx" ON "Organization"("type", "verified");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "OrganizationMember_organizationId_userId_key" ON "OrganizationMember"("organizationId", "userId");
+
+-- CreateIndex
+CREATE INDEX "OrganizationMember_userId_idx" ON "OrganizationMember"("userId");
+
+-- AddForeignKey
+ALTER TABLE "OrganizationMember" ADD CONSTRAINT "OrganizationMember_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OrganizationMember" ADD CONSTRAINT "OrganizationMember_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AlterTable (nullable first so existing rows can be backfilled)
+ALTER TABLE "BloodRequest" ADD COLUMN "organizationId" INTEGER;
+
+-- AlterTable
+ALTER TABLE "BloodUnit" ADD COLUMN "organizationId" INTEGER;
+
+-- Backfill: rows created before organizations existed are parked under an
+-- unverified placeholder organization that an admin can reassign later.
+INSERT INTO "Organization" ("name", "type", "registrationNumber", "addressLine", "city", "state", "postalCode", "updatedAt")
+SELECT 'Unassigned (pre-tenancy data)', 'HOSPITAL', 'LEGACY-UNASSIGNED', '-', '-', '-', '-', CURRENT_TIMESTAMP
+WHERE EXISTS (SELECT 1 FROM "BloodRequest") OR EXISTS (SELECT 1 FROM "BloodUnit");
+
+UPDATE "BloodRequest" SET "organizationId" = (SELECT "id" FROM "Organization" WHERE "registrationNumber" = 'LEGACY-UNASSIGNED');
+
+UPDATE "BloodUnit" SET "organizationId" = (SELECT "id" FROM "Organization" WHERE "registrationNumber" = 'LEGACY-UNASSIGNED');
+
+-- AlterTable
+ALTER TABLE "BloodRequest" ALTER COLUMN "organizationId" SET NOT NULL;
+
+-- AlterTable
+ALTER TABLE "BloodUnit" ALTER COLUMN "organizationId" SET NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "BloodRequest_organizationId_status_idx" ON "BloodRequest"("organizationId", "status");
+
+-- CreateIndex
+CREATE INDEX "BloodUnit_organizationId_status_idx" ON "BloodUnit"("organizationId", "status");
+
+-- AddForeignKey
+ALTER TABLE "BloodRequest" ADD CONSTRAINT "BloodRequest_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BloodUnit" ADD CONSTRAINT "BloodUnit_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,31 @@
+-- CreateEnum
+CREATE TYPE "DonorResponseStatus" AS ENUM ('ACCEPTED', 'DECLINED');
+
+-- AlterTable
+ALTER TABLE "BloodRequest" ADD COLUMN     "unitsPledged" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "DonorResponse" (
+    "id" SERIAL NOT NULL,
+    "status" "DonorResponseStatus" NOT NULL,
+    "etaMinutes" INTEGER,
+    "note" TEXT,
+    "respondedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "checkedInAt" TIMESTAMP(3),
+    "bloodRequestId" INTEGER NOT NULL,
+    "donorProfileId" INTEGER NOT NULL,
+
+    CONSTRAINT "DonorResponse_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "DonorResponse_bloodRequestId_status_idx" ON "DonorResponse"("bloodRequestId", "status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DonorResponse_bloodRequestId_donorProfileId_key" ON "DonorResponse"("bloodRequestId", "donorProfileId");
+
+-- AddForeignKey
+ALTER TABLE "DonorResponse" ADD CONSTRAINT "DonorResponse_bloodRequestId_fkey" FOREIGN KEY ("bloodRequestId") REFERENCES "BloodRequest"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DonorResponse" ADD CONSTRAINT "DonorResponse_donorProfileId_fkey" FOREIGN KEY ("donorProfileId") REFERENCES "DonorProfile"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,28 @@
+-- CreateEnum
+CREATE TYPE "BloodRequestEventType" AS ENUM ('STATUS_CHANGED', 'ALERTS_SENT', 'ESCALATED');
+
+-- AlterTable
+ALTER TABLE "BloodRequest" ADD COLUMN     "escalationLevel" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "lastEscalatedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "BloodRequestEvent" (
+    "id" SERIAL NOT NULL,
+    "type" "BloodRequestEventType" NOT NULL,
+    "message" TEXT NOT NULL,
+    "data" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "bloodRequestId" INTEGER NOT NULL,
+    "actorId" INTEGER,
+
+    CONSTRAINT "BloodRequestEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "BloodRequestEvent_bloodRequestId_createdAt_idx" ON "BloodRequestEvent"("bloodRequestId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "BloodRequestEvent" ADD CONSTRAINT "BloodRequestEvent_bloodRequestId_fkey" FOREIGN KEY ("bloodRequestId") REFERENCES "BloodRequest"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BloodRequestEvent" ADD CONSTRAINT "BloodRequestEvent_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
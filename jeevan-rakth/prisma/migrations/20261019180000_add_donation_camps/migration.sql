@@ -0,0 +1,98 @@
+-- CreateEnum
+CREATE TYPE "CampStatus" AS ENUM ('SCHEDULED', 'CANCELLED', 'COMPLETED');
+
+-- CreateEnum
+CREATE TYPE "AppointmentStatus" AS ENUM ('BOOKED', 'WAITLISTED', 'CANCELLED', 'CHECKED_IN');
+
+-- CreateTable
+CREATE TABLE "DonationCamp" (
+    "id" SERIAL NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "venueName" TEXT NOT NULL,
+    "addressLine" TEXT NOT NULL,
+    "city" TEXT NOT NULL,
+    "state" TEXT NOT NULL,
+    "postalCode" TEXT NOT NULL,
+    "latitude" DOUBLE PRECISION NOT NULL,
+    "longitude" DOUBLE PRECISION NOT NULL,
+    "timezone" TEXT NOT NULL DEFAULT 'Asia/Kolkata',
+    "startsAt" TIMESTAMP(3) NOT NULL,
+    "endsAt" TIMESTAMP(3) NOT NULL,
+    "slotMinutes" INTEGER NOT NULL,
+    "capacityPerSlot" INTEGER NOT NULL,
+    "status" "CampStatus" NOT NULL DEFAULT 'SCHEDULED',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "organizationId" INTEGER NOT NULL,
+    "createdById" INTEGER NOT NULL,
+
+    CONSTRAINT "DonationCamp_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "CampSlot" (
+    "id" SERIAL NOT NULL,
+    "startsAt" TIMESTAMP(3) NOT NULL,
+    "endsAt" TIMESTAMP(3) NOT NULL,
+    "capacity" INTEGER NOT NULL,
+    "booked" INTEGER NOT NULL DEFAULT 0,
+    "campId" INTEGER NOT NULL,
+
+    CONSTRAINT "CampSlot_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "CampAppointment" (
+    "id" SERIAL NOT NULL,
+    "status" "AppointmentStatus" NOT NULL,
+    "bookedAt" TIMESTAMP(3),
+    "cancelledAt" TIMESTAMP(3),
+    "checkedInAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "campId" INTEGER NOT NULL,
+    "slotId" INTEGER NOT NULL,
+    "donorProfileId" INTEGER NOT NULL,
+
+    CONSTRAINT "CampAppointment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "DonationCamp_status_startsAt_idx" ON "DonationCamp"("status", "startsAt");
+
+-- CreateIndex
+CREATE INDEX "DonationCamp_organizationId_idx" ON "DonationCamp"("organizationId");
+
+-- CreateIndex
+CREATE INDEX "DonationCamp_city_idx" ON "DonationCamp"("city");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CampSlot_campId_startsAt_key" ON "CampSlot"("campId", "startsAt");
+
+-- CreateIndex
+CREATE INDEX "CampAppointment_slotId_status_createdAt_idx" ON "CampAppointment"("slotId", "status", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "CampAppointment_campId_donorProfileId_idx" ON "CampAppointment"("campId", "donorProfileId");
+
+-- CreateIndex
+CREATE INDEX "CampAppointment_donorProfileId_status_idx" ON "CampAppointment"("donorProfileId", "status");
+
+-- AddForeignKey
+ALTER TABLE "DonationCamp" ADD CONSTRAINT "DonationCamp_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DonationCamp" ADD CONSTRAINT "DonationCamp_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CampSlot" ADD CONSTRAINT "CampSlot_campId_fkey" FOREIGN KEY ("campId") REFERENCES "DonationCamp"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CampAppointment" ADD CONSTRAINT "CampAppointment_campId_fkey" FOREIGN KEY ("campId") REFERENCES "DonationCamp"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CampAppointment" ADD CONSTRAINT "CampAppointment_slotId_fkey" FOREIGN KEY ("slotId") REFERENCES "CampSlot"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CampAppointment" ADD CONSTRAINT "CampAppointment_donorProfileId_fkey" FOREIGN KEY ("donorProfileId") REFERENCES "DonorProfile"("id") ON DELETE CASCADE ON UPDATE CASCADE;
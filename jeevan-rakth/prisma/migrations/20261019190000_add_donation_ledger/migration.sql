@@ -0,0 +1,77 @@
+-- CreateEnum
+CREATE TYPE "ScreeningResult" AS ENUM ('PENDING', 'NON_REACTIVE', 'REACTIVE');
+
+-- CreateEnum
+CREATE TYPE "AdverseReactionSeverity" AS ENUM ('MILD', 'MODERATE', 'SEVERE');
+
+-- AlterTable
+-- Donation counts now come from the ledger. lastDonationAt is kept as
+-- entered so donors who gave recently are not treated as eligible.
+ALTER TABLE "DonorProfile" DROP COLUMN "totalDonations";
+
+-- AlterTable
+ALTER TABLE "BloodUnit" ADD COLUMN     "donationId" INTEGER;
+
+-- CreateTable
+CREATE TABLE "Donation" (
+    "id" SERIAL NOT NULL,
+    "donationNumber" TEXT NOT NULL,
+    "collectedAt" TIMESTAMP(3) NOT NULL,
+    "component" "BloodComponent" NOT NULL,
+    "volumeMl" INTEGER NOT NULL,
+    "haemoglobinGdl" DECIMAL(4,1),
+    "hivResult" "ScreeningResult" NOT NULL DEFAULT 'PENDING',
+    "hbvResult" "ScreeningResult" NOT NULL DEFAULT 'PENDING',
+    "hcvResult" "ScreeningResult" NOT NULL DEFAULT 'PENDING',
+    "syphilisResult" "ScreeningResult" NOT NULL DEFAULT 'PENDING',
+    "malariaResult" "ScreeningResult" NOT NULL DEFAULT 'PENDING',
+    "screenedAt" TIMESTAMP(3),
+    "adverseReaction" "AdverseReactionSeverity",
+    "adverseReactionNotes" TEXT,
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "donorProfileId" INTEGER NOT NULL,
+    "organizationId" INTEGER NOT NULL,
+    "campId" INTEGER,
+    "appointmentId" INTEGER,
+    "phlebotomistId" INTEGER,
+
+    CONSTRAINT "Donation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Donation_donationNumber_key" ON "Donation"("donationNumber");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Donation_appointmentId_key" ON "Donation"("appointmentId");
+
+-- CreateIndex
+CREATE INDEX "Donation_donorProfileId_collectedAt_idx" ON "Donation"("donorProfileId", "collectedAt");
+
+-- CreateIndex
+CREATE INDEX "Donation_organizationId_collectedAt_idx" ON "Donation"("organizationId", "collectedAt");
+
+-- CreateIndex
+CREATE INDEX "Donation_campId_idx" ON "Donation"("campId");
+
+-- CreateIndex
+CREATE INDEX "BloodUnit_donationId_idx" ON "BloodUnit"("donationId");
+
+-- AddForeignKey
+ALTER TABLE "BloodUnit" ADD CONSTRAINT "BloodUnit_donationId_fkey" FOREIGN KEY ("donationId") REFERENCES "Donation"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Donation" ADD CONSTRAINT "Donation_donorProfileId_fkey" FOREIGN KEY ("donorProfileId") REFERENCES "DonorProfile"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Donation" ADD CONSTRAINT "Donation_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Donation" ADD CONSTRAINT "Donation_campId_fkey" FOREIGN KEY ("campId") REFERENCES "DonationCamp"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Donation" ADD CONSTRAINT "Donation_appointmentId_fkey" FOREIGN KEY ("appointmentId") REFERENCES "CampAppointment"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Donation" ADD CONSTRAINT "Donation_phlebotomistId_fkey" FOREIGN KEY ("phlebotomistId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
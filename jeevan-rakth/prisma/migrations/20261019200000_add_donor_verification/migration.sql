@@ -0,0 +1,60 @@
+-- CreateEnum
+CREATE TYPE "DonorVerificationStatus" AS ENUM ('UNVERIFIED', 'PENDING', 'INFO_REQUESTED', 'VERIFIED', 'REJECTED');
+
+-- CreateEnum
+CREATE TYPE "VerificationDocumentType" AS ENUM ('ID_PROOF', 'BLOOD_GROUP_REPORT');
+
+-- CreateEnum
+CREATE TYPE "VerificationDecision" AS ENUM ('APPROVED', 'REJECTED', 'INFO_REQUESTED');
+
+-- AlterTable
+ALTER TABLE "DonorProfile" ADD COLUMN     "verificationStatus" "DonorVerificationStatus" NOT NULL DEFAULT 'UNVERIFIED',
+ADD COLUMN     "verificationSubmittedAt" TIMESTAMP(3),
+ADD COLUMN     "verifiedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "VerificationDocument" (
+    "id" SERIAL NOT NULL,
+    "type" "VerificationDocumentType" NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "donorProfileId" INTEGER NOT NULL,
+    "fileId" INTEGER NOT NULL,
+
+    CONSTRAINT "VerificationDocument_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "DonorVerificationReview" (
+    "id" SERIAL NOT NULL,
+    "decision" "VerificationDecision" NOT NULL,
+    "reason" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "donorProfileId" INTEGER NOT NULL,
+    "reviewerId" INTEGER,
+
+    CONSTRAINT "DonorVerificationReview_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "DonorProfile_verificationStatus_verificationSubmittedAt_idx" ON "DonorProfile"("verificationStatus", "verificationSubmittedAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "VerificationDocument_fileId_key" ON "VerificationDocument"("fileId");
+
+-- CreateIndex
+CREATE INDEX "VerificationDocument_donorProfileId_idx" ON "VerificationDocument"("donorProfileId");
+
+-- CreateIndex
+CREATE INDEX "DonorVerificationReview_donorProfileId_createdAt_idx" ON "DonorVerificationReview"("donorProfileId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "VerificationDocument" ADD CONSTRAINT "VerificationDocument_donorProfileId_fkey" FOREIGN KEY ("donorProfileId") REFERENCES "DonorProfile"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "VerificationDocument" ADD CONSTRAINT "VerificationDocument_fileId_fkey" FOREIGN KEY ("fileId") REFERENCES "File"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DonorVerificationReview" ADD CONSTRAINT "DonorVerificationReview_donorProfileId_fkey" FOREIGN KEY ("donorProfileId") REFERENCES "DonorProfile"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DonorVerificationReview" ADD CONSTRAINT "DonorVerificationReview_reviewerId_fkey" FOREIGN KEY ("reviewerId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
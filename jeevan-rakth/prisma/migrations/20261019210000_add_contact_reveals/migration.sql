@@ -0,0 +1,61 @@
+-- CreateEnum
+CREATE TYPE "ContactRevealBasis" AS ENUM ('PLEDGE', 'CONSENT');
+
+-- CreateTable
+CREATE TABLE "ContactConsent" (
+    "id" SERIAL NOT NULL,
+    "grantedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "revokedAt" TIMESTAMP(3),
+    "donorProfileId" INTEGER NOT NULL,
+    "bloodRequestId" INTEGER NOT NULL,
+
+    CONSTRAINT "ContactConsent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ContactReveal" (
+    "id" SERIAL NOT NULL,
+    "basis" "ContactRevealBasis" NOT NULL,
+    "fields" TEXT[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "donorProfileId" INTEGER NOT NULL,
+    "viewerId" INTEGER NOT NULL,
+    "bloodRequestId" INTEGER NOT NULL,
+
+    CONSTRAINT "ContactReveal_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ContactConsent_donorProfileId_bloodRequestId_key" ON "ContactConsent"("donorProfileId", "bloodRequestId");
+
+-- CreateIndex
+CREATE INDEX "ContactReveal_donorProfileId_createdAt_idx" ON "ContactReveal"("donorProfileId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "ContactReveal_bloodRequestId_idx" ON "ContactReveal"("bloodRequestId");
+
+-- AddForeignKey
+ALTER TABLE "ContactConsent" ADD CONSTRAINT "ContactConsent_donorProfileId_fkey" FOREIGN KEY ("donorProfileId") REFERENCES "DonorProfile"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ContactConsent" ADD CONSTRAINT "ContactConsent_bloodRequestId_fkey" FOREIGN KEY ("bloodRequestId") REFERENCES "BloodRequest"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ContactReveal" ADD CONSTRAINT "ContactReveal_donorProfileId_fkey" FOREIGN KEY ("donorProfileId") REFERENCES "DonorProfile"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ContactReveal" ADD CONSTRAINT "ContactReveal_viewerId_fkey" FOREIGN KEY ("viewerId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ContactReveal" ADD CONSTRAINT "ContactReveal_bloodRequestId_fkey" FOREIGN KEY ("bloodRequestId") REFERENCES "BloodRequest"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- The reveal audit trail is append-only
+CREATE FUNCTION "contact_reveal_immutable"() RETURNS trigger AS $$
+BEGIN
+    RAISE EXCEPTION 'ContactReveal rows cannot be modified';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "ContactReveal_immutable"
+BEFORE UPDATE ON "ContactReveal"
+FOR EACH ROW EXECUTE FUNCTION "contact_reveal_immutable"();
@@ -0,0 +1,21 @@
+-- AlterTable
+ALTER TABLE "DonorProfile" ADD COLUMN     "contactHoursStart" TEXT,
+ADD COLUMN     "contactHoursEnd" TEXT;
+
+-- CreateTable
+CREATE TABLE "DonorUnavailability" (
+    "id" SERIAL NOT NULL,
+    "startsAt" TIMESTAMP(3) NOT NULL,
+    "endsAt" TIMESTAMP(3) NOT NULL,
+    "reason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "donorProfileId" INTEGER NOT NULL,
+
+    CONSTRAINT "DonorUnavailability_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "DonorUnavailability_donorProfileId_endsAt_idx" ON "DonorUnavailability"("donorProfileId", "endsAt");
+
+-- AddForeignKey
+ALTER TABLE "DonorUnavailability" ADD CONSTRAINT "DonorUnavailability_donorProfileId_fkey" FOREIGN KEY ("donorProfileId") REFERENCES "DonorProfile"("id") ON DELETE CASCADE ON UPDATE CASCADE;
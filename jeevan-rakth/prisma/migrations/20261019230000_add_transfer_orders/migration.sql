@@ -0,0 +1,90 @@
+-- CreateEnum
+CREATE TYPE "TransferOrderStatus" AS ENUM ('REQUESTED', 'PICKED', 'DISPATCHED', 'IN_TRANSIT', 'RECEIVED', 'CANCELLED');
+
+-- CreateEnum
+CREATE TYPE "TransferCheckpointStage" AS ENUM ('DISPATCH', 'IN_TRANSIT', 'RECEIPT');
+
+-- CreateTable
+CREATE TABLE "TransferOrder" (
+    "id" SERIAL NOT NULL,
+    "component" "BloodComponent" NOT NULL,
+    "bloodGroup" "BloodGroup" NOT NULL,
+    "unitsRequested" INTEGER NOT NULL,
+    "status" "TransferOrderStatus" NOT NULL DEFAULT 'REQUESTED',
+    "neededBy" TIMESTAMP(3),
+    "notes" TEXT,
+    "courier" TEXT,
+    "coldChainBreached" BOOLEAN NOT NULL DEFAULT false,
+    "cancellationReason" TEXT,
+    "pickedAt" TIMESTAMP(3),
+    "dispatchedAt" TIMESTAMP(3),
+    "receivedAt" TIMESTAMP(3),
+    "cancelledAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "requestingOrganizationId" INTEGER NOT NULL,
+    "supplyingOrganizationId" INTEGER NOT NULL,
+    "createdById" INTEGER NOT NULL,
+
+    CONSTRAINT "TransferOrder_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "TransferOrderItem" (
+    "id" SERIAL NOT NULL,
+    "transferOrderId" INTEGER NOT NULL,
+    "bloodUnitId" INTEGER NOT NULL,
+
+    CONSTRAINT "TransferOrderItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "TransferCheckpoint" (
+    "id" SERIAL NOT NULL,
+    "stage" "TransferCheckpointStage" NOT NULL,
+    "temperatureC" DECIMAL(4,1) NOT NULL,
+    "withinRange" BOOLEAN NOT NULL,
+    "location" TEXT,
+    "notes" TEXT,
+    "recordedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "transferOrderId" INTEGER NOT NULL,
+    "recordedById" INTEGER NOT NULL,
+
+    CONSTRAINT "TransferCheckpoint_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "TransferOrder_requestingOrganizationId_status_idx" ON "TransferOrder"("requestingOrganizationId", "status");
+
+-- CreateIndex
+CREATE INDEX "TransferOrder_supplyingOrganizationId_status_idx" ON "TransferOrder"("supplyingOrganizationId", "status");
+
+-- CreateIndex
+CREATE INDEX "TransferOrderItem_bloodUnitId_idx" ON "TransferOrderItem"("bloodUnitId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TransferOrderItem_transferOrderId_bloodUnitId_key" ON "TransferOrderItem"("transferOrderId", "bloodUnitId");
+
+-- CreateIndex
+CREATE INDEX "TransferCheckpoint_transferOrderId_recordedAt_idx" ON "TransferCheckpoint"("transferOrderId", "recordedAt");
+
+-- AddForeignKey
+ALTER TABLE "TransferOrder" ADD CONSTRAINT "TransferOrder_requestingOrganizationId_fkey" FOREIGN KEY ("requestingOrganizationId") REFERENCES "Organization"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TransferOrder" ADD CONSTRAINT "TransferOrder_supplyingOrganizationId_fkey" FOREIGN KEY ("supplyingOrganizationId") REFERENCES "Organization"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TransferOrder" ADD CONSTRAINT "TransferOrder_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TransferOrderItem" ADD CONSTRAINT "TransferOrderItem_transferOrderId_fkey" FOREIGN KEY ("transferOrderId") REFERENCES "TransferOrder"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TransferOrderItem" ADD CONSTRAINT "TransferOrderItem_bloodUnitId_fkey" FOREIGN KEY ("bloodUnitId") REFERENCES "BloodUnit"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TransferCheckpoint" ADD CONSTRAINT "TransferCheckpoint_transferOrderId_fkey" FOREIGN KEY ("transferOrderId") REFERENCES "TransferOrder"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TransferCheckpoint" ADD CONSTRAINT "TransferCheckpoint_recordedById_fkey" FOREIGN KEY ("recordedById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,17 @@
+-- AlterTable
+ALTER TABLE "Organization" ADD COLUMN     "facilityCode" TEXT;
+
+-- CreateTable
+CREATE TABLE "DonationNumberSequence" (
+    "year" INTEGER NOT NULL,
+    "lastValue" INTEGER NOT NULL DEFAULT 0,
+    "organizationId" INTEGER NOT NULL,
+
+    CONSTRAINT "DonationNumberSequence_pkey" PRIMARY KEY ("organizationId","year")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Organization_facilityCode_key" ON "Organization"("facilityCode");
+
+-- AddForeignKey
+ALTER TABLE "DonationNumberSequence" ADD CONSTRAINT "DonationNumberSequence_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,89 @@
+-- AlterEnum
+ALTER TYPE "BloodRequestEventType" ADD VALUE 'RESERVATION_RELEASED';
+
+-- CreateEnum
+CREATE TYPE "AntibodyScreenResult" AS ENUM ('NEGATIVE', 'POSITIVE');
+
+-- CreateEnum
+CREATE TYPE "CrossMatchResult" AS ENUM ('COMPATIBLE', 'INCOMPATIBLE');
+
+-- CreateEnum
+CREATE TYPE "CrossMatchStatus" AS ENUM ('PENDING', 'COMPATIBLE', 'INCOMPATIBLE');
+
+-- CreateTable
+CREATE TABLE "PatientSample" (
+    "id" SERIAL NOT NULL,
+    "sampleNumber" TEXT NOT NULL,
+    "patientName" TEXT NOT NULL,
+    "patientIdentifier" TEXT,
+    "collectedAt" TIMESTAMP(3) NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "antibodyScreen" "AntibodyScreenResult",
+    "antibodyScreenAt" TIMESTAMP(3),
+    "antibodyScreenById" INTEGER,
+    "requestId" INTEGER NOT NULL,
+    "organizationId" INTEGER NOT NULL,
+    "recordedById" INTEGER NOT NULL,
+
+    CONSTRAINT "PatientSample_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "CrossMatch" (
+    "id" SERIAL NOT NULL,
+    "status" "CrossMatchStatus" NOT NULL DEFAULT 'PENDING',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "immediateSpin" "CrossMatchResult",
+    "immediateSpinAt" TIMESTAMP(3),
+    "immediateSpinById" INTEGER,
+    "fullCrossMatch" "CrossMatchResult",
+    "fullCrossMatchAt" TIMESTAMP(3),
+    "fullCrossMatchById" INTEGER,
+    "sampleId" INTEGER NOT NULL,
+    "bloodUnitId" INTEGER NOT NULL,
+
+    CONSTRAINT "CrossMatch_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PatientSample_sampleNumber_key" ON "PatientSample"("sampleNumber");
+
+-- CreateIndex
+CREATE INDEX "PatientSample_requestId_idx" ON "PatientSample"("requestId");
+
+-- CreateIndex
+CREATE INDEX "PatientSample_organizationId_createdAt_idx" ON "PatientSample"("organizationId", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CrossMatch_sampleId_bloodUnitId_key" ON "CrossMatch"("sampleId", "bloodUnitId");
+
+-- CreateIndex
+CREATE INDEX "CrossMatch_bloodUnitId_status_idx" ON "CrossMatch"("bloodUnitId", "status");
+
+-- AddForeignKey
+ALTER TABLE "PatientSample" ADD CONSTRAINT "PatientSample_antibodyScreenById_fkey" FOREIGN KEY ("antibodyScreenById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PatientSample" ADD CONSTRAINT "PatientSample_requestId_fkey" FOREIGN KEY ("requestId") REFERENCES "BloodRequest"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PatientSample" ADD CONSTRAINT "PatientSample_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PatientSample" ADD CONSTRAINT "PatientSample_recordedById_fkey" FOREIGN KEY ("recordedById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CrossMatch" ADD CONSTRAINT "CrossMatch_immediateSpinById_fkey" FOREIGN KEY ("immediateSpinById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CrossMatch" ADD CONSTRAINT "CrossMatch_fullCrossMatchById_fkey" FOREIGN KEY ("fullCrossMatchById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CrossMatch" ADD CONSTRAINT "CrossMatch_sampleId_fkey" FOREIGN KEY ("sampleId") REFERENCES "PatientSample"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CrossMatch" ADD CONSTRAINT "CrossMatch_bloodUnitId_fkey" FOREIGN KEY ("bloodUnitId") REFERENCES "BloodUnit"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
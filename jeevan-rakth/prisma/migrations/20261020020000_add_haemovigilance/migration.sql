@@ -0,0 +1,111 @@
+-- AlterEnum
+ALTER TYPE "DeferralReason" ADD VALUE 'TRANSFUSION_REACTION' BEFORE 'OTHER';
+
+-- CreateEnum
+CREATE TYPE "TransfusionReactionType" AS ENUM ('FEBRILE_NON_HAEMOLYTIC', 'ALLERGIC', 'ANAPHYLACTIC', 'ACUTE_HAEMOLYTIC', 'DELAYED_HAEMOLYTIC', 'TRALI', 'TACO', 'TRANSFUSION_ASSOCIATED_DYSPNOEA', 'HYPOTENSIVE', 'TRANSFUSION_TRANSMITTED_INFECTION', 'OTHER');
+
+-- CreateEnum
+CREATE TYPE "TransfusionReactionSeverity" AS ENUM ('NON_SEVERE', 'SEVERE', 'LIFE_THREATENING', 'DEATH');
+
+-- CreateEnum
+CREATE TYPE "TransfusionReactionOutcome" AS ENUM ('RECOVERED', 'MINOR_SEQUELAE', 'SERIOUS_SEQUELAE', 'DEATH', 'UNKNOWN');
+
+-- CreateEnum
+CREATE TYPE "ReactionImputability" AS ENUM ('EXCLUDED', 'UNLIKELY', 'POSSIBLE', 'PROBABLE', 'CERTAIN');
+
+-- CreateEnum
+CREATE TYPE "LookbackStatus" AS ENUM ('OPEN', 'IN_PROGRESS', 'CLOSED');
+
+-- CreateEnum
+CREATE TYPE "LookbackConclusion" AS ENUM ('DONOR_IMPLICATED', 'DONOR_NOT_IMPLICATED', 'INCONCLUSIVE');
+
+-- CreateTable
+CREATE TABLE "TransfusionReaction" (
+    "id" SERIAL NOT NULL,
+    "type" "TransfusionReactionType" NOT NULL,
+    "severity" "TransfusionReactionSeverity" NOT NULL,
+    "outcome" "TransfusionReactionOutcome" NOT NULL DEFAULT 'UNKNOWN',
+    "imputability" "ReactionImputability",
+    "onsetAt" TIMESTAMP(3) NOT NULL,
+    "transfusionStartedAt" TIMESTAMP(3),
+    "patientName" TEXT NOT NULL,
+    "patientIdentifier" TEXT,
+    "description" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "bloodUnitId" INTEGER NOT NULL,
+    "requestId" INTEGER,
+    "donationId" INTEGER,
+    "donorProfileId" INTEGER,
+    "organizationId" INTEGER NOT NULL,
+    "reportedById" INTEGER NOT NULL,
+
+    CONSTRAINT "TransfusionReaction_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "LookbackInvestigation" (
+    "id" SERIAL NOT NULL,
+    "status" "LookbackStatus" NOT NULL DEFAULT 'OPEN',
+    "donationNumber" TEXT NOT NULL,
+    "conclusion" "LookbackConclusion",
+    "findings" TEXT,
+    "startedAt" TIMESTAMP(3),
+    "closedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "reactionId" INTEGER NOT NULL,
+    "organizationId" INTEGER NOT NULL,
+    "investigatorId" INTEGER,
+    "closedById" INTEGER,
+
+    CONSTRAINT "LookbackInvestigation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TransfusionReaction_bloodUnitId_key" ON "TransfusionReaction"("bloodUnitId");
+
+-- CreateIndex
+CREATE INDEX "TransfusionReaction_organizationId_onsetAt_idx" ON "TransfusionReaction"("organizationId", "onsetAt");
+
+-- CreateIndex
+CREATE INDEX "TransfusionReaction_donorProfileId_idx" ON "TransfusionReaction"("donorProfileId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LookbackInvestigation_reactionId_key" ON "LookbackInvestigation"("reactionId");
+
+-- CreateIndex
+CREATE INDEX "LookbackInvestigation_organizationId_status_idx" ON "LookbackInvestigation"("organizationId", "status");
+
+-- CreateIndex
+CREATE INDEX "LookbackInvestigation_donationNumber_status_idx" ON "LookbackInvestigation"("donationNumber", "status");
+
+-- AddForeignKey
+ALTER TABLE "TransfusionReaction" ADD CONSTRAINT "TransfusionReaction_bloodUnitId_fkey" FOREIGN KEY ("bloodUnitId") REFERENCES "BloodUnit"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TransfusionReaction" ADD CONSTRAINT "TransfusionReaction_requestId_fkey" FOREIGN KEY ("requestId") REFERENCES "BloodRequest"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TransfusionReaction" ADD CONSTRAINT "TransfusionReaction_donationId_fkey" FOREIGN KEY ("donationId") REFERENCES "Donation"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TransfusionReaction" ADD CONSTRAINT "TransfusionReaction_donorProfileId_fkey" FOREIGN KEY ("donorProfileId") REFERENCES "DonorProfile"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TransfusionReaction" ADD CONSTRAINT "TransfusionReaction_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TransfusionReaction" ADD CONSTRAINT "TransfusionReaction_reportedById_fkey" FOREIGN KEY ("reportedById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LookbackInvestigation" ADD CONSTRAINT "LookbackInvestigation_reactionId_fkey" FOREIGN KEY ("reactionId") REFERENCES "TransfusionReaction"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LookbackInvestigation" ADD CONSTRAINT "LookbackInvestigation_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LookbackInvestigation" ADD CONSTRAINT "LookbackInvestigation_investigatorId_fkey" FOREIGN KEY ("investigatorId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LookbackInvestigation" ADD CONSTRAINT "LookbackInvestigation_closedById_fkey" FOREIGN KEY ("closedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,11 @@
+-- AlterEnum
+ALTER TYPE "BloodUnitStatus" ADD VALUE 'PROCESSED';
+
+-- AlterTable
+ALTER TABLE "BloodUnit" ADD COLUMN     "parentUnitId" INTEGER;
+
+-- CreateIndex
+CREATE INDEX "BloodUnit_parentUnitId_idx" ON "BloodUnit"("parentUnitId");
+
+-- AddForeignKey
+ALTER TABLE "BloodUnit" ADD CONSTRAINT "BloodUnit_parentUnitId_fkey" FOREIGN KEY ("parentUnitId") REFERENCES "BloodUnit"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
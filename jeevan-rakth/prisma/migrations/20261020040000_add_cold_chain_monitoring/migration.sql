@@ -0,0 +1,105 @@
+-- CreateEnum
+CREATE TYPE "StorageEquipmentType" AS ENUM ('REFRIGERATOR', 'FREEZER', 'PLATELET_AGITATOR');
+
+-- CreateEnum
+CREATE TYPE "ExcursionUnitDecision" AS ENUM ('RELEASED', 'DISCARDED');
+
+-- AlterTable
+ALTER TABLE "OrganizationMember" ADD COLUMN     "onCall" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "BloodUnit" ADD COLUMN     "storageEquipmentId" INTEGER;
+
+-- CreateTable
+CREATE TABLE "StorageEquipment" (
+    "id" SERIAL NOT NULL,
+    "name" TEXT NOT NULL,
+    "type" "StorageEquipmentType" NOT NULL,
+    "location" TEXT,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "apiKeyHash" TEXT NOT NULL,
+    "lastReadingAt" TIMESTAMP(3),
+    "lastTemperatureC" DECIMAL(4,1),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "organizationId" INTEGER NOT NULL,
+
+    CONSTRAINT "StorageEquipment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "TemperatureReading" (
+    "id" SERIAL NOT NULL,
+    "recordedAt" TIMESTAMP(3) NOT NULL,
+    "temperatureC" DECIMAL(4,1) NOT NULL,
+    "withinRange" BOOLEAN NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "equipmentId" INTEGER NOT NULL,
+
+    CONSTRAINT "TemperatureReading_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "TemperatureExcursion" (
+    "id" SERIAL NOT NULL,
+    "startedAt" TIMESTAMP(3) NOT NULL,
+    "endedAt" TIMESTAMP(3),
+    "peakTemperatureC" DECIMAL(4,1) NOT NULL,
+    "reviewedAt" TIMESTAMP(3),
+    "reviewNotes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "equipmentId" INTEGER NOT NULL,
+    "reviewedById" INTEGER,
+
+    CONSTRAINT "TemperatureExcursion_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "TemperatureExcursionUnit" (
+    "decision" "ExcursionUnitDecision",
+    "reviewedAt" TIMESTAMP(3),
+    "excursionId" INTEGER NOT NULL,
+    "bloodUnitId" INTEGER NOT NULL,
+
+    CONSTRAINT "TemperatureExcursionUnit_pkey" PRIMARY KEY ("excursionId","bloodUnitId")
+);
+
+-- CreateIndex
+CREATE INDEX "BloodUnit_storageEquipmentId_status_idx" ON "BloodUnit"("storageEquipmentId", "status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "StorageEquipment_apiKeyHash_key" ON "StorageEquipment"("apiKeyHash");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "StorageEquipment_organizationId_name_key" ON "StorageEquipment"("organizationId", "name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TemperatureReading_equipmentId_recordedAt_key" ON "TemperatureReading"("equipmentId", "recordedAt");
+
+-- CreateIndex
+CREATE INDEX "TemperatureExcursion_equipmentId_startedAt_idx" ON "TemperatureExcursion"("equipmentId", "startedAt");
+
+-- CreateIndex
+CREATE INDEX "TemperatureExcursionUnit_bloodUnitId_decision_idx" ON "TemperatureExcursionUnit"("bloodUnitId", "decision");
+
+-- AddForeignKey
+ALTER TABLE "BloodUnit" ADD CONSTRAINT "BloodUnit_storageEquipmentId_fkey" FOREIGN KEY ("storageEquipmentId") REFERENCES "StorageEquipment"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StorageEquipment" ADD CONSTRAINT "StorageEquipment_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TemperatureReading" ADD CONSTRAINT "TemperatureReading_equipmentId_fkey" FOREIGN KEY ("equipmentId") REFERENCES "StorageEquipment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TemperatureExcursion" ADD CONSTRAINT "TemperatureExcursion_equipmentId_fkey" FOREIGN KEY ("equipmentId") REFERENCES "StorageEquipment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TemperatureExcursion" ADD CONSTRAINT "TemperatureExcursion_reviewedById_fkey" FOREIGN KEY ("reviewedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TemperatureExcursionUnit" ADD CONSTRAINT "TemperatureExcursionUnit_excursionId_fkey" FOREIGN KEY ("excursionId") REFERENCES "TemperatureExcursion"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TemperatureExcursionUnit" ADD CONSTRAINT "TemperatureExcursionUnit_bloodUnitId_fkey" FOREIGN KEY ("bloodUnitId") REFERENCES "BloodUnit"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,55 @@
+-- CreateEnum
+CREATE TYPE "BloodAntigen" AS ENUM ('RH_BIG_C', 'RH_SMALL_C', 'RH_BIG_E', 'RH_SMALL_E', 'KELL_BIG_K', 'KELL_SMALL_K', 'KELL_KPA', 'KELL_KPB', 'KELL_JSA', 'KELL_JSB', 'DUFFY_FYA', 'DUFFY_FYB', 'KIDD_JKA', 'KIDD_JKB', 'MNS_M', 'MNS_N', 'MNS_BIG_S', 'MNS_SMALL_S', 'MNS_U', 'LEWIS_LEA', 'LEWIS_LEB', 'LUTHERAN_LUA', 'LUTHERAN_LUB', 'P1', 'H', 'DIEGO_DIA', 'DIEGO_DIB', 'VEL');
+
+-- CreateEnum
+CREATE TYPE "RareContactStatus" AS ENUM ('PENDING', 'APPROVED', 'REJECTED');
+
+-- AlterEnum
+ALTER TYPE "ContactRevealBasis" ADD VALUE 'RARE_DONOR_APPROVAL';
+
+-- AlterTable
+ALTER TABLE "DonorProfile" ADD COLUMN     "antigensNegative" "BloodAntigen"[] DEFAULT ARRAY[]::"BloodAntigen"[],
+ADD COLUMN     "antigensPositive" "BloodAntigen"[] DEFAULT ARRAY[]::"BloodAntigen"[],
+ADD COLUMN     "phenotypedAt" TIMESTAMP(3),
+ADD COLUMN     "rareDonor" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "rarePhenotype" TEXT;
+
+-- AlterTable
+ALTER TABLE "BloodRequest" ADD COLUMN     "requiredAntigenNegative" "BloodAntigen"[] DEFAULT ARRAY[]::"BloodAntigen"[];
+
+-- CreateTable
+CREATE TABLE "RareDonorContactApproval" (
+    "id" SERIAL NOT NULL,
+    "status" "RareContactStatus" NOT NULL DEFAULT 'PENDING',
+    "reason" TEXT NOT NULL,
+    "decisionNote" TEXT,
+    "decidedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "donorProfileId" INTEGER NOT NULL,
+    "bloodRequestId" INTEGER NOT NULL,
+    "requestedById" INTEGER NOT NULL,
+    "decidedById" INTEGER,
+
+    CONSTRAINT "RareDonorContactApproval_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "DonorProfile_rareDonor_idx" ON "DonorProfile"("rareDonor");
+
+-- CreateIndex
+CREATE INDEX "RareDonorContactApproval_status_createdAt_idx" ON "RareDonorContactApproval"("status", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "RareDonorContactApproval_donorProfileId_status_idx" ON "RareDonorContactApproval"("donorProfileId", "status");
+
+-- AddForeignKey
+ALTER TABLE "RareDonorContactApproval" ADD CONSTRAINT "RareDonorContactApproval_donorProfileId_fkey" FOREIGN KEY ("donorProfileId") REFERENCES "DonorProfile"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RareDonorContactApproval" ADD CONSTRAINT "RareDonorContactApproval_bloodRequestId_fkey" FOREIGN KEY ("bloodRequestId") REFERENCES "BloodRequest"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RareDonorContactApproval" ADD CONSTRAINT "RareDonorContactApproval_requestedById_fkey" FOREIGN KEY ("requestedById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RareDonorContactApproval" ADD CONSTRAINT "RareDonorContactApproval_decidedById_fkey" FOREIGN KEY ("decidedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "BloodRequest" ADD COLUMN     "awaitingTriage" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,19 @@
+-- DropForeignKey
+ALTER TABLE "ContactReveal" DROP CONSTRAINT "ContactReveal_donorProfileId_fkey";
+
+-- AddForeignKey
+ALTER TABLE "ContactReveal" ADD CONSTRAINT "ContactReveal_donorProfileId_fkey" FOREIGN KEY ("donorProfileId") REFERENCES "DonorProfile"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- The reveal audit trail is append-only: rows can be neither changed nor
+-- removed, including by cascades from the donor profile
+CREATE OR REPLACE FUNCTION "contact_reveal_immutable"() RETURNS trigger AS $$
+BEGIN
+    RAISE EXCEPTION 'ContactReveal rows cannot be modified or deleted';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER "ContactReveal_immutable" ON "ContactReveal";
+
+CREATE TRIGGER "ContactReveal_immutable"
+BEFORE UPDATE OR DELETE ON "ContactReveal"
+FOR EACH ROW EXECUTE FUNCTION "contact_reveal_immutable"();
@@ -0,0 +1,32 @@
+-- AlterTable
+ALTER TABLE "ContactReveal" ADD COLUMN "revealedDonorId" INTEGER;
+
+-- Backfill past the append-only trigger, which is not yet relaxed
+ALTER TABLE "ContactReveal" DISABLE TRIGGER "ContactReveal_immutable";
+UPDATE "ContactReveal" SET "revealedDonorId" = "donorProfileId";
+ALTER TABLE "ContactReveal" ENABLE TRIGGER "ContactReveal_immutable";
+
+ALTER TABLE "ContactReveal" ALTER COLUMN "revealedDonorId" SET NOT NULL,
+ALTER COLUMN "donorProfileId" DROP NOT NULL;
+
+-- DropForeignKey
+ALTER TABLE "ContactReveal" DROP CONSTRAINT "ContactReveal_donorProfileId_fkey";
+
+-- AddForeignKey
+ALTER TABLE "ContactReveal" ADD CONSTRAINT "ContactReveal_donorProfileId_fkey" FOREIGN KEY ("donorProfileId") REFERENCES "DonorProfile"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- The reveal audit trail stays append-only. The one change allowed is the
+-- SET NULL from erasing the donor profile: it clears the link and nothing
+-- else, so the row still records who saw which donor's contact and why.
+CREATE OR REPLACE FUNCTION "contact_reveal_immutable"() RETURNS trigger AS $$
+BEGIN
+    IF TG_OP = 'UPDATE'
+        AND OLD."donorProfileId" IS NOT NULL
+        AND NEW."donorProfileId" IS NULL
+        AND to_jsonb(NEW) - 'donorProfileId' = to_jsonb(OLD) - 'donorProfileId'
+    THEN
+        RETURN NEW;
+    END IF;
+    RAISE EXCEPTION 'ContactReveal rows cannot be modified or deleted';
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "BloodRequest" ADD COLUMN     "triagedAt" TIMESTAMP(3);
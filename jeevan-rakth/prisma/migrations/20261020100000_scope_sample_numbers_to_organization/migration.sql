@@ -0,0 +1,5 @@
+-- DropIndex
+DROP INDEX "PatientSample_sampleNumber_key";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PatientSample_organizationId_sampleNumber_key" ON "PatientSample"("organizationId", "sampleNumber");
@@ -0,0 +1,150 @@
+/**
+ * Cold-chain Monitoring Test Suite
+ *
+ * Verifies how logged temperatures are judged and parsed:
+ * - Storage ranges per equipment type, bounds inclusive
+ * - Deviation from the range, which picks an excursion's peak
+ * - Readings CSV parsing, column order and header validation
+ *
+ * Run with: npm run test:cold-chain
+ */
+
+import { equipmentTemperatureRangeC } from "../src/config/coldChain";
+import { deviation, parseReadingsCsv } from "../src/lib/coldChain/readings";
+
+let passedTests = 0;
+let failedTests = 0;
+
+function test(name: string, condition: boolean, details?: string) {
+  if (condition) {
+    console.log(`✅ PASS: ${name}`);
+    passedTests++;
+  } else {
+    console.error(`❌ FAIL: ${name}`);
+    if (details) console.error(`   Details: ${details}`);
+    failedTests++;
+  }
+}
+
+// Fixed ranges so the suite does not depend on *_MIN_C / *_MAX_C overrides
+const FRIDGE = { min: 2, max: 6 };
+const FREEZER = { min: -45, max: -25 };
+
+function throwsInvalidCsv(text: string) {
+  try {
+    parseReadingsCsv(text);
+    return false;
+  } catch (error) {
+    return error instanceof Error && error.message === "INVALID_CSV";
+  }
+}
+
+console.log("\n🌡️  COLD-CHAIN MONITORING TEST SUITE\n");
+console.log("=".repeat(60));
+
+// ========================================
+// RANGES
+// ========================================
+console.log("\n📌 Equipment Ranges\n");
+
+test(
+  "Every equipment range has min below max",
+  Object.values(equipmentTemperatureRangeC).every(
+    (range) => range.min < range.max
+  )
+);
+test("Fridge at 4°C is within range", deviation(4, FRIDGE) === 0);
+test(
+  "Range bounds are inclusive",
+  deviation(2, FRIDGE) === 0 && deviation(6, FRIDGE) === 0
+);
+test("Fridge at 6.1°C is out of range", deviation(6.1, FRIDGE) > 0);
+test("Fridge at 1.9°C is out of range", deviation(1.9, FRIDGE) > 0);
+test("Freezer at -30°C is within range", deviation(-30, FREEZER) === 0);
+test("Freezer at -24°C is out of range", deviation(-24, FREEZER) > 0);
+
+// ========================================
+// DEVIATION
+// ========================================
+console.log("\n📌 Deviation\n");
+
+test(
+  "Too warm deviates by the excess over max",
+  deviation(9, FRIDGE) === 3,
+  `Got ${deviation(9, FRIDGE)}`
+);
+test(
+  "Too cold deviates by the shortfall under min",
+  deviation(-1, FRIDGE) === 3,
+  `Got ${deviation(-1, FRIDGE)}`
+);
+test(
+  "Deviation is never negative",
+  [-50, 0, 2, 4, 6, 40].every((t) => deviation(t, FRIDGE) >= 0)
+);
+test(
+  "A warmer freezer reading deviates further",
+  deviation(-20, FREEZER) < deviation(-10, FREEZER)
+);
+test(
+  "Peak compares across both sides of the range",
+  deviation(0, FRIDGE) > deviation(7, FRIDGE)
+);
+
+// ========================================
+// CSV PARSING
+// ========================================
+console.log("\n📌 Readings CSV\n");
+
+const rows = parseReadingsCsv(
+  "recordedAt,temperatureC\n2026-06-15T10:00:00Z,4.2\r\n2026-06-15T10:05:00Z,4.5\n"
+);
+test("Each data line becomes a row", rows.length === 2);
+test(
+  "Fields are kept as raw strings",
+  rows[0].recordedAt === "2026-06-15T10:00:00Z" &&
+    rows[0].temperatureC === "4.2"
+);
+
+const reordered = parseReadingsCsv(
+  'TemperatureC,logger,RecordedAt\n"3.8",F-1,"2026-06-15T10:00:00Z"'
+);
+test(
+  "Columns match by name in any order and case",
+  reordered[0]?.temperatureC === "3.8" &&
+    reordered[0]?.recordedAt === "2026-06-15T10:00:00Z"
+);
+test(
+  "Blank lines are skipped",
+  parseReadingsCsv("recordedAt,temperatureC\n\n  \n2026-06-15T10:00:00Z,4\n")
+    .length === 1
+);
+test(
+  "Header alone yields no rows",
+  parseReadingsCsv("recordedAt,temperatureC").length === 0
+);
+test(
+  "Missing temperature column is INVALID_CSV",
+  throwsInvalidCsv("recordedAt,temp\n2026-06-15T10:00:00Z,4")
+);
+test("Empty file is INVALID_CSV", throwsInvalidCsv(""));
+
+// ========================================
+// SUMMARY
+// ========================================
+console.log("\n" + "=".repeat(60));
+console.log("\n📊 TEST SUMMARY\n");
+console.log(`✅ Passed: ${passedTests}`);
+console.log(`❌ Failed: ${failedTests}`);
+console.log(`📈 Total: ${passedTests + failedTests}`);
+console.log(
+  `✨ Success Rate: ${((passedTests / (passedTests + failedTests)) * 100).toFixed(1)}%\n`
+);
+
+if (failedTests === 0) {
+  console.log("🎉 All cold-chain tests passed! ✅\n");
+  process.exit(0);
+} else {
+  console.error("⚠️  Some tests failed. Please review the failures above.\n");
+  process.exit(1);
+}
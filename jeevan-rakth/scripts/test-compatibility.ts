@@ -0,0 +1,214 @@
+/**
+ * Blood Compatibility Test Suite
+ *
+ * Verifies the ABO/Rh matching rules used for blood requests and donor search:
+ * - Red cell compatibility (O- universal donor, AB+ universal recipient)
+ * - Plasma reverse compatibility (AB universal plasma donor)
+ * - Platelet and whole blood rules
+ * - Donor ranking (exact type before compatible types)
+ *
+ * Run with: npm run test:compatibility
+ */
+
+import type { BloodComponent } from "@prisma/client";
+import { BLOOD_GROUPS, type BloodGroupCode } from "../src/lib/bloodGroups";
+import {
+  isCompatible,
+  compatibleDonorGroups,
+  rankCompatibleDonors,
+} from "../src/lib/matching/compatibility";
+
+let passedTests = 0;
+let failedTests = 0;
+
+function test(name: string, condition: boolean, details?: string) {
+  if (condition) {
+    console.log(`✅ PASS: ${name}`);
+    passedTests++;
+  } else {
+    console.error(`❌ FAIL: ${name}`);
+    if (details) console.error(`   Details: ${details}`);
+    failedTests++;
+  }
+}
+
+function sameGroups(actual: BloodGroupCode[], expected: BloodGroupCode[]) {
+  return (
+    actual.length === expected.length &&
+    expected.every((group) => actual.includes(group))
+  );
+}
+
+function checkTable(
+  component: BloodComponent,
+  table: Record<BloodGroupCode, BloodGroupCode[]>
+) {
+  for (const recipient of BLOOD_GROUPS) {
+    const donors = BLOOD_GROUPS.filter((donor) =>
+      isCompatible(donor, recipient, component)
+    );
+    test(
+      `${component}: ${recipient} recipient accepts ${table[recipient].join(", ")}`,
+      sameGroups(donors, table[recipient]),
+      `Got ${donors.join(", ")}`
+    );
+  }
+}
+
+console.log("\n🩸 BLOOD COMPATIBILITY TEST SUITE\n");
+console.log("=".repeat(60));
+
+// ========================================
+// RED CELLS
+// ========================================
+console.log("\n📌 Red Cell Compatibility\n");
+
+checkTable("RED_CELLS", {
+  O_NEG: ["O_NEG"],
+  O_POS: ["O_NEG", "O_POS"],
+  A_NEG: ["O_NEG", "A_NEG"],
+  A_POS: ["O_NEG", "O_POS", "A_NEG", "A_POS"],
+  B_NEG: ["O_NEG", "B_NEG"],
+  B_POS: ["O_NEG", "O_POS", "B_NEG", "B_POS"],
+  AB_NEG: ["O_NEG", "A_NEG", "B_NEG", "AB_NEG"],
+  AB_POS: [...BLOOD_GROUPS],
+});
+
+test(
+  "O- is the universal red cell donor",
+  BLOOD_GROUPS.every((recipient) =>
+    isCompatible("O_NEG", recipient, "RED_CELLS")
+  )
+);
+test(
+  "AB+ is the universal red cell recipient",
+  BLOOD_GROUPS.every((donor) => isCompatible(donor, "AB_POS", "RED_CELLS"))
+);
+
+// ========================================
+// PLASMA (REVERSE COMPATIBILITY)
+// ========================================
+console.log("\n📌 Plasma Compatibility\n");
+
+const ANY: BloodGroupCode[] = [...BLOOD_GROUPS];
+const A_OR_AB: BloodGroupCode[] = ["A_POS", "A_NEG", "AB_POS", "AB_NEG"];
+const B_OR_AB: BloodGroupCode[] = ["B_POS", "B_NEG", "AB_POS", "AB_NEG"];
+const AB_ONLY: BloodGroupCode[] = ["AB_POS", "AB_NEG"];
+
+checkTable("PLASMA", {
+  O_NEG: ANY,
+  O_POS: ANY,
+  A_NEG: A_OR_AB,
+  A_POS: A_OR_AB,
+  B_NEG: B_OR_AB,
+  B_POS: B_OR_AB,
+  AB_NEG: AB_ONLY,
+  AB_POS: AB_ONLY,
+});
+
+test(
+  "AB plasma can be given to every recipient",
+  BLOOD_GROUPS.every((recipient) => isCompatible("AB_POS", recipient, "PLASMA"))
+);
+test(
+  "O plasma cannot be given to A recipients",
+  !isCompatible("O_NEG", "A_POS", "PLASMA")
+);
+
+// ========================================
+// PLATELETS AND WHOLE BLOOD
+// ========================================
+console.log("\n📌 Platelet and Whole Blood Compatibility\n");
+
+test(
+  "Platelets: AB+ donor cannot serve Rh-negative recipient",
+  !isCompatible("AB_POS", "O_NEG", "PLATELETS")
+);
+test(
+  "Platelets: AB- donor can serve O- recipient",
+  isCompatible("AB_NEG", "O_NEG", "PLATELETS")
+);
+test(
+  "Platelets: O donor cannot serve A recipient",
+  !isCompatible("O_POS", "A_POS", "PLATELETS")
+);
+test(
+  "Whole blood: ABO must be identical",
+  !isCompatible("O_NEG", "A_POS", "WHOLE_BLOOD") &&
+    isCompatible("A_NEG", "A_POS", "WHOLE_BLOOD")
+);
+test(
+  "Whole blood: Rh+ donor cannot serve Rh- recipient",
+  !isCompatible("B_POS", "B_NEG", "WHOLE_BLOOD")
+);
+
+// ========================================
+// DONOR ORDERING AND RANKING
+// ========================================
+console.log("\n📌 Donor Ranking\n");
+
+const groupsForAPos = compatibleDonorGroups("A_POS", "RED_CELLS");
+test(
+  "Exact group is listed first",
+  groupsForAPos[0] === "A_POS",
+  `Got ${groupsForAPos.join(", ")}`
+);
+test(
+  "Universal donor O- is listed last",
+  groupsForAPos[groupsForAPos.length - 1] === "O_NEG",
+  `Got ${groupsForAPos.join(", ")}`
+);
+
+const donors = [
+  { id: 1, bloodGroup: "O_NEG" as BloodGroupCode },
+  { id: 2, bloodGroup: "B_POS" as BloodGroupCode },
+  { id: 3, bloodGroup: "A_POS" as BloodGroupCode },
+  { id: 4, bloodGroup: "A_NEG" as BloodGroupCode },
+  { id: 5, bloodGroup: "A_POS" as BloodGroupCode },
+];
+
+const ranked = rankCompatibleDonors(
+  { bloodGroup: "A_POS", component: "RED_CELLS" },
+  donors
+);
+
+test(
+  "Incompatible donors are excluded",
+  !ranked.some(({ donor }) => donor.bloodGroup === "B_POS")
+);
+test(
+  "Exact matches come first and keep input order",
+  ranked[0].donor.id === 3 &&
+    ranked[1].donor.id === 5 &&
+    ranked[0].matchType === "EXACT",
+  `Got ${ranked.map(({ donor }) => donor.id).join(", ")}`
+);
+test(
+  "Compatible matches follow exact matches",
+  ranked.slice(2).every(({ matchType }) => matchType === "COMPATIBLE") &&
+    ranked[ranked.length - 1].donor.id === 1
+);
+test(
+  "Ranks are sequential from 1",
+  ranked.every(({ rank }, index) => rank === index + 1)
+);
+
+// ========================================
+// SUMMARY
+// ========================================
+console.log("\n" + "=".repeat(60));
+console.log("\n📊 TEST SUMMARY\n");
+console.log(`✅ Passed: ${passedTests}`);
+console.log(`❌ Failed: ${failedTests}`);
+console.log(`📈 Total: ${passedTests + failedTests}`);
+console.log(
+  `✨ Success Rate: ${((passedTests / (passedTests + failedTests)) * 100).toFixed(1)}%\n`
+);
+
+if (failedTests === 0) {
+  console.log("🎉 All compatibility tests passed! ✅\n");
+  process.exit(0);
+} else {
+  console.error("⚠️  Some tests failed. Please review the failures above.\n");
+  process.exit(1);
+}
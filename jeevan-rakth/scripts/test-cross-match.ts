@@ -0,0 +1,126 @@
+/**
+ * Cross-match Test Suite
+ *
+ * Verifies how a cross-match status follows from its results:
+ * - Any incompatible test makes the unit incompatible
+ * - A compatible full (antiglobulin) cross-match stands on its own
+ * - Immediate spin is enough only with a negative antibody screen
+ * - Missing results leave the cross-match pending
+ *
+ * Run with: npm run test:cross-match
+ */
+
+import type { AntibodyScreenResult, CrossMatchResult } from "@prisma/client";
+import { crossMatchStatus } from "../src/lib/crossMatch/results";
+
+let passedTests = 0;
+let failedTests = 0;
+
+function test(name: string, condition: boolean, details?: string) {
+  if (condition) {
+    console.log(`✅ PASS: ${name}`);
+    passedTests++;
+  } else {
+    console.error(`❌ FAIL: ${name}`);
+    if (details) console.error(`   Details: ${details}`);
+    failedTests++;
+  }
+}
+
+const SCREENS: (AntibodyScreenResult | null)[] = [null, "NEGATIVE", "POSITIVE"];
+const RESULTS: (CrossMatchResult | null)[] = [
+  null,
+  "COMPATIBLE",
+  "INCOMPATIBLE",
+];
+
+console.log("\n🧪 CROSS-MATCH TEST SUITE\n");
+console.log("=".repeat(60));
+
+// ========================================
+// INCOMPATIBLE
+// ========================================
+console.log("\n📌 Incompatible Results\n");
+
+test(
+  "Incompatible immediate spin always wins",
+  SCREENS.every((screen) =>
+    RESULTS.every(
+      (full) =>
+        crossMatchStatus(screen, "INCOMPATIBLE", full) === "INCOMPATIBLE"
+    )
+  )
+);
+test(
+  "Incompatible full cross-match always wins",
+  SCREENS.every((screen) =>
+    RESULTS.every(
+      (spin) =>
+        crossMatchStatus(screen, spin, "INCOMPATIBLE") === "INCOMPATIBLE"
+    )
+  )
+);
+test(
+  "Incompatible spin overrides a compatible full cross-match",
+  crossMatchStatus("NEGATIVE", "INCOMPATIBLE", "COMPATIBLE") === "INCOMPATIBLE"
+);
+
+// ========================================
+// COMPATIBLE
+// ========================================
+console.log("\n📌 Compatible Results\n");
+
+test(
+  "Compatible full cross-match is enough with a positive screen",
+  crossMatchStatus("POSITIVE", null, "COMPATIBLE") === "COMPATIBLE"
+);
+test(
+  "Compatible full cross-match is enough without a screen",
+  crossMatchStatus(null, null, "COMPATIBLE") === "COMPATIBLE"
+);
+test(
+  "Immediate spin with a negative screen is compatible",
+  crossMatchStatus("NEGATIVE", "COMPATIBLE", null) === "COMPATIBLE"
+);
+test(
+  "Both tests compatible is compatible",
+  crossMatchStatus("POSITIVE", "COMPATIBLE", "COMPATIBLE") === "COMPATIBLE"
+);
+
+// ========================================
+// PENDING
+// ========================================
+console.log("\n📌 Pending Results\n");
+
+test(
+  "Immediate spin with a positive screen needs a full cross-match",
+  crossMatchStatus("POSITIVE", "COMPATIBLE", null) === "PENDING"
+);
+test(
+  "Immediate spin without a screen needs a full cross-match",
+  crossMatchStatus(null, "COMPATIBLE", null) === "PENDING"
+);
+test(
+  "No results is pending",
+  SCREENS.every((screen) => crossMatchStatus(screen, null, null) === "PENDING")
+);
+
+// ========================================
+// SUMMARY
+// ========================================
+console.log("\n" + "=".repeat(60));
+console.log("\n📊 TEST SUMMARY\n");
+console.log(`✅ Passed: ${passedTests}`);
+console.log(`❌ Failed: ${failedTests}`);
+console.log(`📈 Total: ${passedTests + failedTests}`);
+console.log(
+  `✨ Success Rate: ${((passedTests / (passedTests + failedTests)) * 100).toFixed(1)}%\n`
+);
+
+if (failedTests === 0) {
+  console.log("🎉 All cross-match tests passed! ✅\n");
+  process.exit(0);
+} else {
+  console.error("⚠️  Some tests failed. Please review the failures above.\n");
+  process.exit(1);
+}
@@ -0,0 +1,345 @@
+/**
+ * Donation Eligibility Test Suite
+ *
+ * Verifies the rules applied by the eligibility engine:
+ * - Age, weight and haemoglobin limits per component
+ * - Rest intervals keyed by the component last donated
+ * - Temporary, permanent, lifted and future deferrals
+ * - The earliest date a deferred donor becomes eligible again
+ *
+ * Run with: npm run test:eligibility
+ */
+
+import type { BloodComponent } from "@prisma/client";
+import {
+  evaluateEligibility,
+  isDeferralActive,
+  type DeferralInput,
+  type DonorEligibilityInput,
+  type EligibilityReasonCode,
+} from "../src/lib/eligibility/engine";
+import { eligibilityRules } from "../src/config/eligibility";
+
+let passedTests = 0;
+let failedTests = 0;
+
+function test(name: string, condition: boolean, details?: string) {
+  if (condition) {
+    console.log(`✅ PASS: ${name}`);
+    passedTests++;
+  } else {
+    console.error(`❌ FAIL: ${name}`);
+    if (details) console.error(`   Details: ${details}`);
+    failedTests++;
+  }
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = new Date("2026-06-15T10:00:00Z");
+
+function daysAgo(days: number) {
+  return new Date(NOW.getTime() - days * DAY_MS);
+}
+
+function yearsAgo(years: number) {
+  const date = new Date(NOW);
+  date.setFullYear(date.getFullYear() - years);
+  return date;
+}
+
+// A healthy 30-year-old who has never donated
+const HEALTHY: DonorEligibilityInput = {
+  dateOfBirth: yearsAgo(30),
+  weightKg: 70,
+  haemoglobinGdl: 14,
+};
+
+function evaluate(
+  overrides: Partial<DonorEligibilityInput>,
+  component: BloodComponent = "WHOLE_BLOOD"
+) {
+  return evaluateEligibility({ ...HEALTHY, ...overrides }, component, {
+    now: NOW,
+  });
+}
+
+function codes(
+  overrides: Partial<DonorEligibilityInput>,
+  component?: BloodComponent
+) {
+  return evaluate(overrides, component).reasons.map((reason) => reason.code);
+}
+
+function onlyReason(
+  overrides: Partial<DonorEligibilityInput>,
+  code: EligibilityReasonCode,
+  component?: BloodComponent
+) {
+  const actual = codes(overrides, component);
+  return actual.length === 1 && actual[0] === code;
+}
+
+function deferral(overrides: Partial<DeferralInput>): DeferralInput {
+  return {
+    type: "TEMPORARY",
+    reasonCode: "OTHER",
+    startsAt: daysAgo(10),
+    expiresAt: new Date(NOW.getTime() + 20 * DAY_MS),
+    liftedAt: null,
+    ...overrides,
+  };
+}
+
+console.log("\n🩺 DONATION ELIGIBILITY TEST SUITE\n");
+console.log("=".repeat(60));
+
+// ========================================
+// BASELINE
+// ========================================
+console.log("\n📌 Baseline\n");
+
+const healthy = evaluate({});
+test("Healthy first-time donor is eligible", healthy.eligible);
+test("Eligible verdict lists no reasons", healthy.reasons.length === 0);
+test(
+  "Eligible donor's next eligible date is now",
+  healthy.nextEligibleAt?.getTime() === NOW.getTime()
+);
+test(
+  "Verdict echoes the component",
+  evaluate({}, "PLATELETS").component === "PLATELETS"
+);
+
+// ========================================
+// AGE
+// ========================================
+console.log("\n📌 Age Limits\n");
+
+test(
+  "A donor who turned 18 today is eligible",
+  evaluate({ dateOfBirth: yearsAgo(eligibilityRules.minAgeYears) }).eligible
+);
+
+const minor = evaluate({
+  dateOfBirth: new Date(yearsAgo(18).getTime() + DAY_MS),
+});
+test(
+  "A donor one day short of 18 is UNDER_AGE",
+  minor.reasons.length === 1 && minor.reasons[0].code === "UNDER_AGE"
+);
+test(
+  "UNDER_AGE lapses on the 18th birthday",
+  minor.nextEligibleAt?.getTime() === NOW.getTime() + DAY_MS,
+  `Got ${minor.nextEligibleAt?.toISOString()}`
+);
+
+test(
+  "A 65-year-old is still eligible",
+  evaluate({ dateOfBirth: yearsAgo(eligibilityRules.maxAgeYears) }).eligible
+);
+const senior = evaluate({ dateOfBirth: yearsAgo(66) });
+test(
+  "A 66-year-old is OVER_AGE",
+  onlyReason({ dateOfBirth: yearsAgo(66) }, "OVER_AGE")
+);
+test(
+  "OVER_AGE never lapses",
+  senior.nextEligibleAt === null,
+  `Got ${senior.nextEligibleAt?.toISOString()}`
+);
+
+// ========================================
+// WEIGHT & HAEMOGLOBIN
+// ========================================
+console.log("\n📌 Weight and Haemoglobin\n");
+
+test(
+  "45 kg may give whole blood",
+  evaluate({ weightKg: 45 }, "WHOLE_BLOOD").eligible
+);
+test(
+  "45 kg may not give platelets",
+  onlyReason({ weightKg: 45 }, "UNDERWEIGHT", "PLATELETS")
+);
+test(
+  "44.9 kg is UNDERWEIGHT for whole blood",
+  onlyReason({ weightKg: 44.9 }, "UNDERWEIGHT")
+);
+test(
+  "Haemoglobin at the threshold is accepted",
+  evaluate({ haemoglobinGdl: 12.5 }).eligible
+);
+test(
+  "Haemoglobin below the threshold is LOW_HAEMOGLOBIN",
+  onlyReason({ haemoglobinGdl: 12.4 }, "LOW_HAEMOGLOBIN")
+);
+test(
+  "Unknown haemoglobin is not held against the donor",
+  evaluate({ haemoglobinGdl: null }).eligible &&
+    evaluate({ haemoglobinGdl: undefined }).eligible
+);
+
+// ========================================
+// DONATION INTERVALS
+// ========================================
+console.log("\n📌 Donation Intervals\n");
+
+test(
+  "Whole blood 89 days ago is too recent",
+  onlyReason(
+    { lastDonationAt: daysAgo(89), lastDonationComponent: "WHOLE_BLOOD" },
+    "DONATION_INTERVAL"
+  )
+);
+test(
+  "Whole blood 90 days ago is long enough",
+  evaluate({
+    lastDonationAt: daysAgo(90),
+    lastDonationComponent: "WHOLE_BLOOD",
+  }).eligible
+);
+test(
+  "Platelets 7 days ago is long enough",
+  evaluate({ lastDonationAt: daysAgo(7), lastDonationComponent: "PLATELETS" })
+    .eligible
+);
+test(
+  "Interval follows the component last given, not the one requested",
+  onlyReason(
+    { lastDonationAt: daysAgo(20), lastDonationComponent: "WHOLE_BLOOD" },
+    "DONATION_INTERVAL",
+    "PLATELETS"
+  )
+);
+
+const unknownComponent = evaluate({ lastDonationAt: daysAgo(100) });
+const longestInterval = Math.max(
+  ...Object.values(eligibilityRules.minIntervalDays)
+);
+test(
+  "Unknown last component assumes the longest interval",
+  unknownComponent.reasons[0]?.code === "DONATION_INTERVAL" &&
+    unknownComponent.nextEligibleAt?.getTime() ===
+      daysAgo(100).getTime() + longestInterval * DAY_MS,
+  `Got ${unknownComponent.nextEligibleAt?.toISOString()}`
+);
+
+const resting = evaluate({
+  lastDonationAt: daysAgo(60),
+  lastDonationComponent: "WHOLE_BLOOD",
+});
+test(
+  "Rest ends 90 days after a whole blood donation",
+  resting.nextEligibleAt?.getTime() === daysAgo(60).getTime() + 90 * DAY_MS
+);
+
+// ========================================
+// DEFERRALS
+// ========================================
+console.log("\n📌 Deferrals\n");
+
+test(
+  "Current temporary deferral is active",
+  isDeferralActive(deferral({}), NOW)
+);
+test(
+  "Expired temporary deferral is inactive",
+  !isDeferralActive(deferral({ expiresAt: daysAgo(1) }), NOW)
+);
+test(
+  "Deferral expiring exactly now is inactive",
+  !isDeferralActive(deferral({ expiresAt: NOW }), NOW)
+);
+test(
+  "Future deferral is not yet active",
+  !isDeferralActive(
+    deferral({ startsAt: new Date(NOW.getTime() + DAY_MS) }),
+    NOW
+  )
+);
+test(
+  "Lifted deferral is inactive",
+  !isDeferralActive(deferral({ liftedAt: daysAgo(1) }), NOW)
+);
+test(
+  "Deferral lifted in the future still applies now",
+  isDeferralActive(
+    deferral({ liftedAt: new Date(NOW.getTime() + DAY_MS) }),
+    NOW
+  )
+);
+test(
+  "Permanent deferral ignores its expiry",
+  isDeferralActive(deferral({ type: "PERMANENT", expiresAt: daysAgo(1) }), NOW)
+);
+
+const temporary = evaluate({ deferrals: [deferral({})] });
+test(
+  "Temporary deferral yields TEMPORARY_DEFERRAL until it expires",
+  temporary.reasons.length === 1 &&
+    temporary.reasons[0].code === "TEMPORARY_DEFERRAL" &&
+    temporary.nextEligibleAt?.getTime() === NOW.getTime() + 20 * DAY_MS
+);
+
+const permanent = evaluate({
+  deferrals: [deferral({ type: "PERMANENT", expiresAt: null })],
+});
+test(
+  "Permanent deferral yields PERMANENT_DEFERRAL with no end",
+  permanent.reasons[0]?.code === "PERMANENT_DEFERRAL" &&
+    permanent.nextEligibleAt === null
+);
+
+// ========================================
+// COMBINED REASONS
+// ========================================
+console.log("\n📌 Combined Reasons\n");
+
+const several = evaluate({
+  weightKg: 40,
+  haemoglobinGdl: 11,
+  lastDonationAt: daysAgo(10),
+  lastDonationComponent: "WHOLE_BLOOD",
+});
+test(
+  "Every failing rule is reported",
+  ["UNDERWEIGHT", "LOW_HAEMOGLOBIN", "DONATION_INTERVAL"].every((code) =>
+    several.reasons.some((reason) => reason.code === code)
+  ),
+  `Got ${several.reasons.map((reason) => reason.code).join(", ")}`
+);
+test(
+  "One open-ended reason makes the wait indefinite",
+  several.nextEligibleAt === null
+);
+
+const timeBound = evaluate({
+  lastDonationAt: daysAgo(80),
+  lastDonationComponent: "WHOLE_BLOOD",
+  deferrals: [deferral({ expiresAt: new Date(NOW.getTime() + 30 * DAY_MS) })],
+});
+test(
+  "Eligible again once the last time-bound reason lapses",
+  timeBound.nextEligibleAt?.getTime() === NOW.getTime() + 30 * DAY_MS,
+  `Got ${timeBound.nextEligibleAt?.toISOString()}`
+);
+
+// ========================================
+// SUMMARY
+// ========================================
+console.log("\n" + "=".repeat(60));
+console.log("\n📊 TEST SUMMARY\n");
+console.log(`✅ Passed: ${passedTests}`);
+console.log(`❌ Failed: ${failedTests}`);
+console.log(`📈 Total: ${passedTests + failedTests}`);
+console.log(
+  `✨ Success Rate: ${((passedTests / (passedTests + failedTests)) * 100).toFixed(1)}%\n`
+);
+
+if (failedTests === 0) {
+  console.log("🎉 All eligibility tests passed! ✅\n");
+  process.exit(0);
+} else {
+  console.error("⚠️  Some tests failed. Please review the failures above.\n");
+  process.exit(1);
+}
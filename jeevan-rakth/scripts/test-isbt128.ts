@@ -0,0 +1,232 @@
+/**
+ * ISBT 128 Test Suite
+ *
+ * Verifies the label data structures used for scanning units:
+ * - ISO/IEC 7064 Mod 37-2 check characters of donation numbers
+ * - DIN formatting and the flag characters carrying the check value
+ * - Decoding scanned and keyed DINs, including mistyped ones
+ * - Blood group, product code and expiry round trips
+ *
+ * Run with: npm run test:isbt128
+ */
+
+import type { BloodComponent } from "@prisma/client";
+import {
+  checkCharacter,
+  checkValue,
+  decodeBloodGroup,
+  decodeDonationNumber,
+  decodeExpiry,
+  decodeProductCode,
+  encodeBloodGroup,
+  encodeDonationNumber,
+  encodeExpiry,
+  encodeProductCode,
+  formatDonationIdentificationNumber,
+  formatEyeReadable,
+  isDonationIdentificationNumber,
+} from "../src/lib/isbt128/codes";
+import { BLOOD_GROUPS } from "../src/lib/bloodGroups";
+
+let passedTests = 0;
+let failedTests = 0;
+
+function test(name: string, condition: boolean, details?: string) {
+  if (condition) {
+    console.log(`✅ PASS: ${name}`);
+    passedTests++;
+  } else {
+    console.error(`❌ FAIL: ${name}`);
+    if (details) console.error(`   Details: ${details}`);
+    failedTests++;
+  }
+}
+
+const MOD37_ALPHABET = "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ*";
+
+// ISO/IEC 7064 validation: a DIN followed by its check character has a
+// weighted sum of 1 (mod 37), with weights 2^n … 2, 1 from the left
+function satisfiesMod37_2(value: string): boolean {
+  let sum = 0;
+  for (const char of value) {
+    sum = (sum * 2 + MOD37_ALPHABET.indexOf(char)) % 37;
+  }
+  return sum === 1;
+}
+
+const COMPONENTS: BloodComponent[] = [
+  "WHOLE_BLOOD",
+  "RED_CELLS",
+  "PLASMA",
+  "PLATELETS",
+];
+
+console.log("\n🏷️  ISBT 128 TEST SUITE\n");
+console.log("=".repeat(60));
+
+// ========================================
+// CHECK CHARACTERS
+// ========================================
+console.log("\n📌 Mod 37-2 Check Characters\n");
+
+const vectors: [string, string][] = [
+  ["G123498654321", "H"],
+  ["A999926123456", "T"],
+  ["W000007123456", "D"],
+  ["A999926000001", "8"],
+];
+for (const [din, expected] of vectors) {
+  test(
+    `${din} has check character ${expected}`,
+    checkCharacter(din) === expected,
+    `Got ${checkCharacter(din)}`
+  );
+}
+
+const sample = Array.from({ length: 200 }, (_, i) =>
+  formatDonationIdentificationNumber("B1234", new Date("2026-01-01"), i * 4999)
+);
+test(
+  "Every check character satisfies ISO/IEC 7064",
+  sample.every((din) => satisfiesMod37_2(din + checkCharacter(din)))
+);
+test(
+  "Check values stay within 0-36",
+  sample.every((din) => checkValue(din) >= 0 && checkValue(din) <= 36)
+);
+
+// ========================================
+// FORMATTING
+// ========================================
+console.log("\n📌 DIN Formatting\n");
+
+const din = formatDonationIdentificationNumber(
+  "A9999",
+  new Date("2026-07-01T00:00:00Z"),
+  123456
+);
+test("DIN joins facility, year and sequence", din === "A999926123456");
+test(
+  "Sequence is zero-padded",
+  formatDonationIdentificationNumber(
+    "A9999",
+    new Date("2026-07-01T00:00:00Z"),
+    42
+  ).endsWith("000042")
+);
+test("Formatted DIN is recognised", isDonationIdentificationNumber(din));
+test(
+  "Legacy donation numbers are not DINs",
+  !isDonationIdentificationNumber("DN-2026-0001")
+);
+test(
+  "Eye-readable form is spaced",
+  formatEyeReadable(din) === "A9999 26 123456"
+);
+test(
+  "Non-DINs are shown unchanged",
+  formatEyeReadable("DN-2026-0001") === "DN-2026-0001"
+);
+test(
+  "Barcode flags carry 60 + check value",
+  encodeDonationNumber(din) === `=${din}${60 + checkValue(din)}`
+);
+
+// ========================================
+// DECODING DINS
+// ========================================
+console.log("\n📌 Decoding Donation Numbers\n");
+
+const scanned = decodeDonationNumber(encodeDonationNumber(din));
+test(
+  "Scanned DIN decodes with a valid check",
+  scanned?.din === din && scanned.checkValid
+);
+
+const badFlags = decodeDonationNumber(
+  `=${din}${60 + ((checkValue(din) + 1) % 37)}`
+);
+test("Scan with a wrong check flag is flagged", badFlags?.checkValid === false);
+
+const plainFlags = decodeDonationNumber(`=${din}00`);
+test(
+  "Flags outside 60-96 carry no check",
+  plainFlags?.din === din && plainFlags.checkValid
+);
+
+const keyed = decodeDonationNumber(`a9999 26 123456 ${checkCharacter(din)}`);
+test(
+  "Keyed eye-readable DIN with spaces decodes",
+  keyed?.din === din && keyed.checkValid
+);
+
+const typo = decodeDonationNumber(`A999926123465${checkCharacter(din)}`);
+test("Transposed digits fail the check", typo !== null && !typo.checkValid);
+test("Garbage is not a DIN", decodeDonationNumber("hello") === null);
+
+// ========================================
+// OTHER DATA STRUCTURES
+// ========================================
+console.log("\n📌 Blood Groups, Products and Expiry\n");
+
+test(
+  "Every blood group round-trips",
+  BLOOD_GROUPS.every(
+    (group) => decodeBloodGroup(encodeBloodGroup(group)) === group
+  )
+);
+test(
+  "Unknown blood group code is rejected",
+  decodeBloodGroup("=%0000") === null
+);
+test(
+  "Every component round-trips",
+  COMPONENTS.every(
+    (component) => decodeProductCode(encodeProductCode(component)) === component
+  )
+);
+test(
+  "Divided products resolve to the same component",
+  decodeProductCode("=<E0224VA0") === "RED_CELLS"
+);
+
+const expiry = new Date("2026-12-31T23:59:00Z");
+test(
+  "Expiry encodes year, day of year and time",
+  encodeExpiry(expiry) === "&>0263652359"
+);
+test(
+  "Expiry round-trips to the minute",
+  decodeExpiry(encodeExpiry(expiry))?.getTime() === expiry.getTime()
+);
+test(
+  "Leap day round-trips",
+  decodeExpiry(
+    encodeExpiry(new Date("2028-02-29T06:30:00Z"))
+  )?.toISOString() === "2028-02-29T06:30:00.000Z"
+);
+test(
+  "Day 366 of a common year is rejected",
+  decodeExpiry("&>0263661200") === null
+);
+test("Hour 24 is rejected", decodeExpiry("&>0260012400") === null);
+
+// ========================================
+// SUMMARY
+// ========================================
+console.log("\n" + "=".repeat(60));
+console.log("\n📊 TEST SUMMARY\n");
+console.log(`✅ Passed: ${passedTests}`);
+console.log(`❌ Failed: ${failedTests}`);
+console.log(`📈 Total: ${passedTests + failedTests}`);
+console.log(
+  `✨ Success Rate: ${((passedTests / (passedTests + failedTests)) * 100).toFixed(1)}%\n`
+);
+
+if (failedTests === 0) {
+  console.log("🎉 All ISBT 128 tests passed! ✅\n");
+  process.exit(0);
+} else {
+  console.error("⚠️  Some tests failed. Please review the failures above.\n");
+  process.exit(1);
+}
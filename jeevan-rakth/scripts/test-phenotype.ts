@@ -0,0 +1,217 @@
+/**
+ * Extended Phenotype Test Suite
+ *
+ * Verifies how red cell antigens are read and recorded:
+ * - ISBT symbols and stored identifiers, case-sensitive ("K" is Kell,
+ *   "k" is Cellano)
+ * - Antigen lists, including comma-separated query strings
+ * - The antigen-negative donor search filter
+ * - Phenotype schema rules for conflicting antigens and rare donors
+ *
+ * Run with: npm run test:phenotype
+ */
+
+import {
+  BLOOD_ANTIGENS,
+  BLOOD_ANTIGEN_LABELS,
+  formatBloodAntigen,
+  isBloodAntigen,
+  parseBloodAntigen,
+} from "../src/lib/bloodAntigens";
+import {
+  bloodAntigenListSchema,
+  donorPhenotypeSchema,
+} from "../src/lib/schemas/phenotypeSchema";
+import { donorSearchQuerySchema } from "../src/lib/schemas/donorSearchSchema";
+
+let passedTests = 0;
+let failedTests = 0;
+
+function test(name: string, condition: boolean, details?: string) {
+  if (condition) {
+    console.log(`✅ PASS: ${name}`);
+    passedTests++;
+  } else {
+    console.error(`❌ FAIL: ${name}`);
+    if (details) console.error(`   Details: ${details}`);
+    failedTests++;
+  }
+}
+
+function parseList(value: unknown) {
+  const result = bloodAntigenListSchema.safeParse(value);
+  return result.success ? result.data : null;
+}
+
+console.log("\n🔬 EXTENDED PHENOTYPE TEST SUITE\n");
+console.log("=".repeat(60));
+
+// ========================================
+// SYMBOLS
+// ========================================
+console.log("\n📌 Antigen Symbols\n");
+
+test("K is Kell", parseBloodAntigen("K") === "KELL_BIG_K");
+test("k is Cellano", parseBloodAntigen("k") === "KELL_SMALL_K");
+test(
+  "C and c are different Rh antigens",
+  parseBloodAntigen("C") === "RH_BIG_C" &&
+    parseBloodAntigen("c") === "RH_SMALL_C"
+);
+test(
+  "S and s are different MNS antigens",
+  parseBloodAntigen("S") === "MNS_BIG_S" &&
+    parseBloodAntigen("s") === "MNS_SMALL_S"
+);
+test(
+  "Symbols are not matched case-insensitively",
+  parseBloodAntigen("FYA") === null && parseBloodAntigen("jkb") === null
+);
+test(
+  "Stored identifiers are accepted",
+  parseBloodAntigen("DUFFY_FYA") === "DUFFY_FYA"
+);
+test("Whitespace is trimmed", parseBloodAntigen("  Jkb ") === "KIDD_JKB");
+test(
+  "ABO and RhD are not extended antigens",
+  ["A", "B", "D", "RhD"].every((value) => parseBloodAntigen(value) === null)
+);
+test(
+  "Every antigen has a distinct symbol",
+  new Set(Object.values(BLOOD_ANTIGEN_LABELS)).size === BLOOD_ANTIGENS.length
+);
+test(
+  "Every symbol parses back to its antigen",
+  BLOOD_ANTIGENS.every(
+    (antigen) => parseBloodAntigen(formatBloodAntigen(antigen)) === antigen
+  )
+);
+test(
+  "Unknown values are shown unchanged",
+  formatBloodAntigen("XYZ") === "XYZ" && !isBloodAntigen("XYZ")
+);
+
+// ========================================
+// LISTS
+// ========================================
+console.log("\n📌 Antigen Lists\n");
+
+const fromQuery = parseList("K, Fya,Jkb");
+test(
+  "Comma-separated symbols are parsed to identifiers",
+  JSON.stringify(fromQuery) ===
+    JSON.stringify(["KELL_BIG_K", "DUFFY_FYA", "KIDD_JKB"]),
+  `Got ${JSON.stringify(fromQuery)}`
+);
+test(
+  "Arrays may mix symbols and identifiers",
+  JSON.stringify(parseList(["k", "RH_SMALL_E"])) ===
+    JSON.stringify(["KELL_SMALL_K", "RH_SMALL_E"])
+);
+test("Empty entries are ignored", parseList("K,,")?.length === 1);
+test("Unknown antigens are rejected", parseList("K,Xga") === null);
+test(
+  "An antigen listed twice is rejected, even as symbol and identifier",
+  parseList(["K", "KELL_BIG_K"]) === null
+);
+test("K and k are not duplicates", parseList("K,k")?.length === 2);
+
+// ========================================
+// DONOR SEARCH
+// ========================================
+console.log("\n📌 Antigen-negative Search\n");
+
+const search = donorSearchQuerySchema.safeParse({
+  lat: "12.97",
+  lng: "77.59",
+  antigenNegative: "K,Fya",
+});
+test(
+  "Search filter receives stored identifiers",
+  search.success &&
+    JSON.stringify(search.data.antigenNegative) ===
+      JSON.stringify(["KELL_BIG_K", "DUFFY_FYA"])
+);
+const noFilter = donorSearchQuerySchema.safeParse({
+  lat: "12.97",
+  lng: "77.59",
+});
+test(
+  "Search without the filter leaves it unset",
+  noFilter.success && noFilter.data.antigenNegative === undefined
+);
+test(
+  "Search rejects unknown antigens",
+  !donorSearchQuerySchema.safeParse({
+    lat: "12.97",
+    lng: "77.59",
+    antigenNegative: "Kell",
+  }).success
+);
+
+// ========================================
+// PHENOTYPE SCHEMA
+// ========================================
+console.log("\n📌 Phenotype Schema\n");
+
+const typed = donorPhenotypeSchema.safeParse({
+  antigensNegative: ["K", "Fya", "Jkb"],
+  antigensPositive: ["k"],
+});
+test(
+  "Typing results are accepted",
+  typed.success &&
+    typed.data.antigensNegative.includes("KELL_BIG_K") &&
+    typed.data.antigensPositive.includes("KELL_SMALL_K")
+);
+test(
+  "Omitted lists default to untyped",
+  (() => {
+    const result = donorPhenotypeSchema.safeParse({});
+    return (
+      result.success &&
+      result.data.antigensPositive.length === 0 &&
+      result.data.antigensNegative.length === 0 &&
+      result.data.rareDonor === false
+    );
+  })()
+);
+test(
+  "An antigen cannot be both positive and negative",
+  !donorPhenotypeSchema.safeParse({
+    antigensPositive: ["Fya"],
+    antigensNegative: ["DUFFY_FYA"],
+  }).success
+);
+test(
+  "Rare donors may record their rare phenotype",
+  donorPhenotypeSchema.safeParse({
+    antigensNegative: ["Fya", "Fyb"],
+    rareDonor: true,
+    rarePhenotype: "Fy(a-b-)",
+  }).success
+);
+test(
+  "A rare phenotype needs a rare donor",
+  !donorPhenotypeSchema.safeParse({ rarePhenotype: "Rh-null" }).success
+);
+
+// ========================================
+// SUMMARY
+// ========================================
+console.log("\n" + "=".repeat(60));
+console.log("\n📊 TEST SUMMARY\n");
+console.log(`✅ Passed: ${passedTests}`);
+console.log(`❌ Failed: ${failedTests}`);
+console.log(`📈 Total: ${passedTests + failedTests}`);
+console.log(
+  `✨ Success Rate: ${((passedTests / (passedTests + failedTests)) * 100).toFixed(1)}%\n`
+);
+
+if (failedTests === 0) {
+  console.log("🎉 All phenotype tests passed! ✅\n");
+  process.exit(0);
+} else {
+  console.error("⚠️  Some tests failed. Please review the failures above.\n");
+  process.exit(1);
+}
@@ -0,0 +1,174 @@
+/**
+ * Quiet Hours Test Suite
+ *
+ * Verifies the daily time windows that hold back intrusive donor alerts:
+ * - Time-of-day and timezone validation
+ * - Same-day and past-midnight quiet hours
+ * - Evaluation in the donor's timezone
+ * - Contact hours, and missing or malformed settings
+ *
+ * Run with: npm run test:quiet-hours
+ */
+
+import {
+  isOutsideContactHours,
+  isValidTimeOfDay,
+  isValidTimezone,
+  isWithinQuietHours,
+} from "../src/lib/notifications/quietHours";
+
+let passedTests = 0;
+let failedTests = 0;
+
+function test(name: string, condition: boolean, details?: string) {
+  if (condition) {
+    console.log(`✅ PASS: ${name}`);
+    passedTests++;
+  } else {
+    console.error(`❌ FAIL: ${name}`);
+    if (details) console.error(`   Details: ${details}`);
+    failedTests++;
+  }
+}
+
+// A UTC instant at the given "HH:MM" on a fixed day
+function at(time: string) {
+  return new Date(`2026-06-15T${time}:00Z`);
+}
+
+console.log("\n🌙 QUIET HOURS TEST SUITE\n");
+console.log("=".repeat(60));
+
+// ========================================
+// VALIDATION
+// ========================================
+console.log("\n📌 Validation\n");
+
+test(
+  "Accepts HH:MM times",
+  ["00:00", "07:30", "23:59"].every(isValidTimeOfDay)
+);
+test(
+  "Rejects malformed times",
+  ["24:00", "7:30", "12:60", "noon", ""].every((v) => !isValidTimeOfDay(v))
+);
+test("Accepts IANA timezones", isValidTimezone("Asia/Kolkata"));
+test("Rejects unknown timezones", !isValidTimezone("Mars/Olympus"));
+
+// ========================================
+// QUIET HOURS
+// ========================================
+console.log("\n📌 Quiet Hours\n");
+
+test(
+  "Inside a same-day window",
+  isWithinQuietHours("13:00", "15:00", "UTC", at("14:00"))
+);
+test(
+  "Start is inclusive",
+  isWithinQuietHours("13:00", "15:00", "UTC", at("13:00"))
+);
+test(
+  "End is exclusive",
+  !isWithinQuietHours("13:00", "15:00", "UTC", at("15:00"))
+);
+test(
+  "Late evening is inside 22:00-07:00",
+  isWithinQuietHours("22:00", "07:00", "UTC", at("23:30"))
+);
+test(
+  "Early morning is inside 22:00-07:00",
+  isWithinQuietHours("22:00", "07:00", "UTC", at("03:00"))
+);
+test(
+  "Midday is outside 22:00-07:00",
+  !isWithinQuietHours("22:00", "07:00", "UTC", at("12:00"))
+);
+test(
+  "Equal start and end mean no quiet hours",
+  !isWithinQuietHours("22:00", "22:00", "UTC", at("22:00"))
+);
+
+// ========================================
+// TIMEZONES
+// ========================================
+console.log("\n📌 Timezones\n");
+
+// 17:00 UTC is 22:30 in India (UTC+5:30)
+test(
+  "Window is read in the donor's timezone",
+  isWithinQuietHours("22:00", "07:00", "Asia/Kolkata", at("17:00"))
+);
+test(
+  "The same instant is outside the window in UTC",
+  !isWithinQuietHours("22:00", "07:00", "UTC", at("17:00"))
+);
+test(
+  "Unknown timezones fall back to UTC",
+  isWithinQuietHours("22:00", "07:00", "Mars/Olympus", at("23:00"))
+);
+
+// ========================================
+// MISSING SETTINGS
+// ========================================
+console.log("\n📌 Missing or Malformed Settings\n");
+
+test(
+  "No quiet hours without a start",
+  !isWithinQuietHours(null, "07:00", "UTC", at("03:00"))
+);
+test(
+  "No quiet hours without an end",
+  !isWithinQuietHours("22:00", undefined, "UTC", at("23:00"))
+);
+test(
+  "No quiet hours with malformed bounds",
+  !isWithinQuietHours("10pm", "07:00", "UTC", at("23:00"))
+);
+
+// ========================================
+// CONTACT HOURS
+// ========================================
+console.log("\n📌 Contact Hours\n");
+
+test(
+  "Inside 09:00-18:00 is reachable",
+  !isOutsideContactHours("09:00", "18:00", "UTC", at("12:00"))
+);
+test(
+  "After 18:00 is outside 09:00-18:00",
+  isOutsideContactHours("09:00", "18:00", "UTC", at("18:00"))
+);
+test(
+  "Contact hours may wrap past midnight",
+  !isOutsideContactHours("20:00", "02:00", "UTC", at("01:00")) &&
+    isOutsideContactHours("20:00", "02:00", "UTC", at("12:00"))
+);
+test(
+  "Donors without contact hours are always reachable",
+  !isOutsideContactHours(null, null, "UTC", at("03:00"))
+);
+test(
+  "Equal start and end mean always reachable",
+  !isOutsideContactHours("09:00", "09:00", "UTC", at("03:00"))
+);
+
+// ========================================
+// SUMMARY
+// ========================================
+console.log("\n" + "=".repeat(60));
+console.log("\n📊 TEST SUMMARY\n");
+console.log(`✅ Passed: ${passedTests}`);
+console.log(`❌ Failed: ${failedTests}`);
+console.log(`📈 Total: ${passedTests + failedTests}`);
+console.log(
+  `✨ Success Rate: ${((passedTests / (passedTests + failedTests)) * 100).toFixed(1)}%\n`
+);
+
+if (failedTests === 0) {
+  console.log("🎉 All quiet hours tests passed! ✅\n");
+  process.exit(0);
+} else {
+  console.error("⚠️  Some tests failed. Please review the failures above.\n");
+  process.exit(1);
+}
@@ -0,0 +1,264 @@
+/**
+ * Component Separation Test Suite
+ *
+ * Verifies the units a whole-blood separation creates:
+ * - Shelf life of each component counted from collection
+ * - Typical-yield volume defaults and the parent volume limit
+ * - What children inherit from the whole-blood unit
+ * - Re-runs planning the same units, which the donation number and
+ *   component uniqueness then skip
+ * - Which units can be separated, and the request schema
+ *
+ * Run with: npm run test:separation
+ */
+
+import type { BloodUnitStatus } from "@prisma/client";
+import { separatedUnits } from "../src/lib/inventory/separation";
+import { canTransitionUnit } from "../src/lib/inventory/lifecycle";
+import { componentSeparationSchema } from "../src/lib/schemas/bloodUnitSchema";
+import { separatedComponentVolumeMl } from "../src/config/inventory";
+
+let passedTests = 0;
+let failedTests = 0;
+
+function test(name: string, condition: boolean, details?: string) {
+  if (condition) {
+    console.log(`✅ PASS: ${name}`);
+    passedTests++;
+  } else {
+    console.error(`❌ FAIL: ${name}`);
+    if (details) console.error(`   Details: ${details}`);
+    failedTests++;
+  }
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const COLLECTED_AT = new Date("2026-03-01T08:00:00Z");
+
+// A 450 ml whole-blood unit still awaiting screening
+const PARENT = {
+  id: 7,
+  donationNumber: "A999926000001",
+  bloodGroup: "O_NEG",
+  volumeMl: 450,
+  collectedAt: COLLECTED_AT,
+  status: "QUARANTINE",
+  organizationId: 1,
+  donationId: 3,
+} as const;
+
+const ALL_COMPONENTS = [
+  { component: "RED_CELLS", storageLocation: "Fridge 1" },
+  { component: "PLASMA", storageLocation: "Freezer 2" },
+  { component: "PLATELETS", storageLocation: "Agitator 1" },
+] as const;
+
+function throwsVolumeExceeded(run: () => unknown) {
+  try {
+    run();
+    return false;
+  } catch (error) {
+    return error instanceof Error && error.message === "VOLUME_EXCEEDS_PARENT";
+  }
+}
+
+console.log("\n🧬 COMPONENT SEPARATION TEST SUITE\n");
+console.log("=".repeat(60));
+
+const units = separatedUnits(PARENT, [...ALL_COMPONENTS]);
+const unitOf = (component: string) =>
+  units.find((unit) => unit.component === component);
+
+// ========================================
+// EXPIRY
+// ========================================
+console.log("\n📌 Component Expiry\n");
+
+const shelfLife = { RED_CELLS: 42, PLASMA: 365, PLATELETS: 5 } as const;
+for (const [component, days] of Object.entries(shelfLife)) {
+  const expiresAt = unitOf(component)?.expiresAt as Date | undefined;
+  test(
+    `${component} expires ${days} days after collection`,
+    expiresAt?.getTime() === COLLECTED_AT.getTime() + days * DAY_MS,
+    `Got ${expiresAt?.toISOString()}`
+  );
+}
+test(
+  "Children keep the collection time, not the separation time",
+  units.every((unit) => unit.collectedAt === COLLECTED_AT)
+);
+
+// ========================================
+// VOLUMES
+// ========================================
+console.log("\n📌 Volumes\n");
+
+test(
+  "Volumes default to each component's typical yield",
+  units.every(
+    (unit) =>
+      unit.volumeMl ===
+      separatedComponentVolumeMl[
+        unit.component as keyof typeof separatedComponentVolumeMl
+      ]
+  )
+);
+test(
+  "Recorded volumes are kept",
+  separatedUnits(PARENT, [
+    { component: "RED_CELLS", storageLocation: "Fridge 1", volumeMl: 300 },
+  ])[0].volumeMl === 300
+);
+test(
+  "Typical yields are not held against the parent's volume",
+  !throwsVolumeExceeded(() => separatedUnits(PARENT, [...ALL_COMPONENTS]))
+);
+test(
+  "Recorded volumes may not add up to more than the parent",
+  throwsVolumeExceeded(() =>
+    separatedUnits(PARENT, [
+      { component: "RED_CELLS", storageLocation: "Fridge 1", volumeMl: 300 },
+      { component: "PLASMA", storageLocation: "Freezer 2", volumeMl: 200 },
+    ])
+  )
+);
+test(
+  "Recorded volumes may use the parent's whole volume",
+  !throwsVolumeExceeded(() =>
+    separatedUnits(PARENT, [
+      { component: "RED_CELLS", storageLocation: "Fridge 1", volumeMl: 250 },
+      { component: "PLASMA", storageLocation: "Freezer 2", volumeMl: 200 },
+    ])
+  )
+);
+test(
+  "A parent of unknown volume is not limited",
+  !throwsVolumeExceeded(() =>
+    separatedUnits({ ...PARENT, volumeMl: null }, [
+      { component: "PLASMA", storageLocation: "Freezer 2", volumeMl: 600 },
+    ])
+  )
+);
+
+// ========================================
+// LINEAGE
+// ========================================
+console.log("\n📌 Lineage\n");
+
+test("One unit per requested component", units.length === 3);
+test(
+  "Children keep the donation number and blood group",
+  units.every(
+    (unit) =>
+      unit.donationNumber === PARENT.donationNumber &&
+      unit.bloodGroup === PARENT.bloodGroup
+  )
+);
+test(
+  "Children point back to the whole-blood unit and its donation",
+  units.every(
+    (unit) =>
+      unit.parentUnitId === PARENT.id && unit.donationId === PARENT.donationId
+  )
+);
+test(
+  "Children start in the parent's status",
+  units.every((unit) => unit.status === "QUARANTINE") &&
+    separatedUnits({ ...PARENT, status: "AVAILABLE" }, [ALL_COMPONENTS[0]])[0]
+      .status === "AVAILABLE"
+);
+test(
+  "Children stay with the parent's organization",
+  units.every((unit) => unit.organizationId === PARENT.organizationId)
+);
+
+// ========================================
+// IDEMPOTENCY
+// ========================================
+console.log("\n📌 Idempotency\n");
+
+const rerun = separatedUnits(PARENT, [...ALL_COMPONENTS]);
+test(
+  "A re-run plans the same donation number and component pairs",
+  JSON.stringify(rerun.map((u) => [u.donationNumber, u.component])) ===
+    JSON.stringify(units.map((u) => [u.donationNumber, u.component]))
+);
+test(
+  "A re-run plans identical units",
+  JSON.stringify(rerun) === JSON.stringify(units)
+);
+
+// ========================================
+// ELIGIBILITY
+// ========================================
+console.log("\n📌 Separable Units\n");
+
+for (const status of ["QUARANTINE", "AVAILABLE"] as BloodUnitStatus[]) {
+  test(
+    `${status} units can be separated`,
+    canTransitionUnit(status, "PROCESSED")
+  );
+}
+for (const status of [
+  "RESERVED",
+  "ISSUED",
+  "DISCARDED",
+  "PROCESSED",
+] as BloodUnitStatus[]) {
+  test(
+    `${status} units cannot be separated`,
+    !canTransitionUnit(status, "PROCESSED")
+  );
+}
+
+// ========================================
+// REQUEST SCHEMA
+// ========================================
+console.log("\n📌 Request Schema\n");
+
+test(
+  "All three components are accepted",
+  componentSeparationSchema.safeParse({ components: ALL_COMPONENTS }).success
+);
+test(
+  "Whole blood is not a separated component",
+  !componentSeparationSchema.safeParse({
+    components: [{ component: "WHOLE_BLOOD", storageLocation: "Fridge 1" }],
+  }).success
+);
+test(
+  "A component cannot be requested twice",
+  !componentSeparationSchema.safeParse({
+    components: [ALL_COMPONENTS[0], ALL_COMPONENTS[0]],
+  }).success
+);
+test(
+  "At least one component is required",
+  !componentSeparationSchema.safeParse({ components: [] }).success
+);
+test(
+  "Volumes must be positive",
+  !componentSeparationSchema.safeParse({
+    components: [{ ...ALL_COMPONENTS[0], volumeMl: 0 }],
+  }).success
+);
+
+// ========================================
+// SUMMARY
+// ========================================
+console.log("\n" + "=".repeat(60));
+console.log("\n📊 TEST SUMMARY\n");
+console.log(`✅ Passed: ${passedTests}`);
+console.log(`❌ Failed: ${failedTests}`);
+console.log(`📈 Total: ${passedTests + failedTests}`);
+console.log(
+  `✨ Success Rate: ${((passedTests / (passedTests + failedTests)) * 100).toFixed(1)}%\n`
+);
+
+if (failedTests === 0) {
+  console.log("🎉 All separation tests passed! ✅\n");
+  process.exit(0);
+} else {
+  console.error("⚠️  Some tests failed. Please review the failures above.\n");
+  process.exit(1);
+}
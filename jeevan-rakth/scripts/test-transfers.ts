@@ -0,0 +1,157 @@
+/**
+ * Transfer Order Lifecycle Test Suite
+ *
+ * Verifies the rules for moving units between organizations:
+ * - Allowed and forbidden transfer order transitions
+ * - No cancellation once units are on the road
+ * - Which statuses hold picked units
+ * - Transport temperature ranges per component, bounds inclusive
+ *
+ * Run with: npm run test:transfers
+ */
+
+import type { TransferOrderStatus } from "@prisma/client";
+import {
+  ACTIVE_TRANSFER_STATUSES,
+  TRANSFER_ORDER_TRANSITIONS,
+  canTransitionTransfer,
+  isWithinTransportRange,
+} from "../src/lib/transfers/lifecycle";
+
+let passedTests = 0;
+let failedTests = 0;
+
+function test(name: string, condition: boolean, details?: string) {
+  if (condition) {
+    console.log(`✅ PASS: ${name}`);
+    passedTests++;
+  } else {
+    console.error(`❌ FAIL: ${name}`);
+    if (details) console.error(`   Details: ${details}`);
+    failedTests++;
+  }
+}
+
+const STATUSES = Object.keys(
+  TRANSFER_ORDER_TRANSITIONS
+) as TransferOrderStatus[];
+
+console.log("\n🚚 TRANSFER ORDER LIFECYCLE TEST SUITE\n");
+console.log("=".repeat(60));
+
+// ========================================
+// TRANSITIONS
+// ========================================
+console.log("\n📌 Status Transitions\n");
+
+const allowed: [TransferOrderStatus, TransferOrderStatus][] = [
+  ["REQUESTED", "PICKED"],
+  ["REQUESTED", "CANCELLED"],
+  ["PICKED", "DISPATCHED"],
+  ["PICKED", "CANCELLED"],
+  ["DISPATCHED", "IN_TRANSIT"],
+  ["DISPATCHED", "RECEIVED"],
+  ["IN_TRANSIT", "RECEIVED"],
+];
+for (const [from, to] of allowed) {
+  test(`${from} → ${to} is allowed`, canTransitionTransfer(from, to));
+}
+
+const forbidden: [TransferOrderStatus, TransferOrderStatus][] = [
+  ["REQUESTED", "DISPATCHED"],
+  ["REQUESTED", "RECEIVED"],
+  ["PICKED", "REQUESTED"],
+  ["IN_TRANSIT", "DISPATCHED"],
+];
+for (const [from, to] of forbidden) {
+  test(`${from} → ${to} is forbidden`, !canTransitionTransfer(from, to));
+}
+
+test(
+  "Dispatched orders cannot be cancelled",
+  !canTransitionTransfer("DISPATCHED", "CANCELLED") &&
+    !canTransitionTransfer("IN_TRANSIT", "CANCELLED")
+);
+test(
+  "No status transitions to itself",
+  STATUSES.every((status) => !canTransitionTransfer(status, status))
+);
+
+for (const terminal of ["RECEIVED", "CANCELLED"] as const) {
+  test(
+    `${terminal} is terminal`,
+    STATUSES.every((to) => !canTransitionTransfer(terminal, to))
+  );
+}
+
+// ========================================
+// ACTIVE ORDERS
+// ========================================
+console.log("\n📌 Active Statuses\n");
+
+test(
+  "Picked, dispatched and in-transit orders hold units",
+  ["PICKED", "DISPATCHED", "IN_TRANSIT"].every((status) =>
+    ACTIVE_TRANSFER_STATUSES.includes(status as TransferOrderStatus)
+  )
+);
+test(
+  "Requested and finished orders hold no units",
+  ["REQUESTED", "RECEIVED", "CANCELLED"].every(
+    (status) =>
+      !ACTIVE_TRANSFER_STATUSES.includes(status as TransferOrderStatus)
+  )
+);
+
+// ========================================
+// TRANSPORT TEMPERATURE
+// ========================================
+console.log("\n📌 Transport Temperature\n");
+
+test("Red cells at 4°C are in range", isWithinTransportRange("RED_CELLS", 4));
+test(
+  "Red cell bounds are inclusive",
+  isWithinTransportRange("RED_CELLS", 1) &&
+    isWithinTransportRange("RED_CELLS", 10)
+);
+test(
+  "Red cells at 10.1°C are out of range",
+  !isWithinTransportRange("RED_CELLS", 10.1)
+);
+test(
+  "Whole blood below 1°C is out of range",
+  !isWithinTransportRange("WHOLE_BLOOD", 0.9)
+);
+test(
+  "Frozen plasma at -25°C is in range",
+  isWithinTransportRange("PLASMA", -25)
+);
+test(
+  "Plasma warmer than -18°C is out of range",
+  !isWithinTransportRange("PLASMA", -17.9)
+);
+test("Platelets at 22°C are in range", isWithinTransportRange("PLATELETS", 22));
+test(
+  "Refrigerated platelets are out of range",
+  !isWithinTransportRange("PLATELETS", 4)
+);
+
+// ========================================
+// SUMMARY
+// ========================================
+console.log("\n" + "=".repeat(60));
+console.log("\n📊 TEST SUMMARY\n");
+console.log(`✅ Passed: ${passedTests}`);
+console.log(`❌ Failed: ${failedTests}`);
+console.log(`📈 Total: ${passedTests + failedTests}`);
+console.log(
+  `✨ Success Rate: ${((passedTests / (passedTests + failedTests)) * 100).toFixed(1)}%\n`
+);
+
+if (failedTests === 0) {
+  console.log("🎉 All transfer tests passed! ✅\n");
+  process.exit(0);
+} else {
+  console.error("⚠️  Some tests failed. Please review the failures above.\n");
+  process.exit(1);
+}
@@ -0,0 +1,143 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+  ERROR_CODES,
+  errorResponse,
+  successResponse,
+} from "@/lib/responseHandler";
+import { appointmentRescheduleSchema } from "@/lib/schemas/campSchema";
+import { handleError } from "@/lib/errorHandler";
+import { getUserId } from "@/lib/rbac";
+import {
+  cancelAppointment,
+  rescheduleAppointment,
+} from "@/lib/camps/appointments";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+function notFound() {
+  return errorResponse("Appointment not found", {
+    status: 404,
+    code: ERROR_CODES.APPOINTMENT_NOT_FOUND,
+  });
+}
+
+async function callerDonorProfileId(req: NextRequest) {
+  const userId = Number(getUserId(req));
+  if (!userId) return null;
+  const profile = await prisma.donorProfile.findUnique({
+    where: { userId },
+    select: { id: true },
+  });
+  return profile?.id ?? null;
+}
+
+// PATCH /api/appointments/:id → move the caller's appointment to another
+// slot of the same camp. Body: { slotId }
+export async function PATCH(req: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  try {
+    if (!getUserId(req)) {
+      return errorResponse("Not authenticated", {
+        status: 401,
+        code: ERROR_CODES.NOT_AUTHENTICATED,
+      });
+    }
+
+    const body = await req.json();
+    const parsed = appointmentRescheduleSchema.safeParse(body);
+    if (!parsed.success) {
+      return errorResponse("Validation Error", {
+        status: 400,
+        code: ERROR_CODES.VALIDATION_ERROR,
+        details: parsed.error.issues.map((issue) => ({
+          field: issue.path.join("."),
+          message: issue.message,
+        })),
+      });
+    }
+
+    const donorProfileId = await callerDonorProfileId(req);
+    if (!donorProfileId) return notFound();
+
+    const appointment = await rescheduleAppointment({
+      appointmentId: Number(id),
+      donorProfileId,
+      slotId: parsed.data.slotId,
+    });
+
+    return successResponse("Appointment rescheduled", appointment);
+  } catch (error: unknown) {
+    if (error instanceof Error && error.message === "APPOINTMENT_NOT_FOUND") {
+      return notFound();
+    }
+    if (error instanceof Error && error.message === "SLOT_NOT_FOUND") {
+      return errorResponse("Slot not found at this camp", {
+        status: 404,
+        code: ERROR_CODES.SLOT_NOT_FOUND,
+      });
+    }
+    if (error instanceof Error && error.message === "SLOT_UNAVAILABLE") {
+      return errorResponse("This slot is no longer open for booking", {
+        status: 409,
+        code: ERROR_CODES.SLOT_UNAVAILABLE,
+      });
+    }
+    if (error instanceof Error && error.message === "DONOR_NOT_ELIGIBLE") {
+      return errorResponse("You are not eligible to donate on this date", {
+        status: 409,
+        code: ERROR_CODES.DONOR_NOT_ELIGIBLE,
+      });
+    }
+    if (error instanceof Error && error.message === "SLOT_FULL") {
+      return errorResponse("This slot is full", {
+        status: 409,
+        code: ERROR_CODES.SLOT_FULL,
+      });
+    }
+    if (error instanceof Error && error.message === "CONCURRENT_MODIFICATION") {
+      return errorResponse("Appointment was modified concurrently, retry", {
+        status: 409,
+        code: ERROR_CODES.APPOINTMENT_UPDATE_FAILED,
+      });
+    }
+
+    return handleError(error, "PATCH /api/appointments/[id]", {
+      status: 500,
+      code: ERROR_CODES.APPOINTMENT_UPDATE_FAILED,
+    });
+  }
+}
+
+// DELETE /api/appointments/:id → cancel the caller's appointment; a freed
+// seat goes to the first eligible donor on the slot's waitlist
+export async function DELETE(req: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  try {
+    if (!getUserId(req)) {
+      return errorResponse("Not authenticated", {
+        status: 401,
+        code: ERROR_CODES.NOT_AUTHENTICATED,
+      });
+    }
+
+    const donorProfileId = await callerDonorProfileId(req);
+    if (!donorProfileId) return notFound();
+
+    const appointment = await cancelAppointment({
+      appointmentId: Number(id),
+      donorProfileId,
+    });
+
+    return successResponse("Appointment cancelled", appointment);
+  } catch (error: unknown) {
+    if (error instanceof Error && error.message === "APPOINTMENT_NOT_FOUND") {
+      return notFound();
+    }
+
+    return handleError(error, "DELETE /api/appointments/[id]", {
+      status: 500,
+      code: ERROR_CODES.APPOINTMENT_UPDATE_FAILED,
+    });
+  }
+}
@@ -0,0 +1,60 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+  ERROR_CODES,
+  errorResponse,
+  successResponse,
+} from "@/lib/responseHandler";
+import { handleError } from "@/lib/errorHandler";
+import { getUserId } from "@/lib/rbac";
+
+// GET /api/appointments?includePast=false → the caller's camp appointments,
+// soonest first
+export async function GET(req: NextRequest) {
+  try {
+    const userId = Number(getUserId(req));
+    if (!userId) {
+      return errorResponse("Not authenticated", {
+        status: 401,
+        code: ERROR_CODES.NOT_AUTHENTICATED,
+      });
+    }
+    const { searchParams } = new URL(req.url);
+    const includePast = searchParams.get("includePast") === "true";
+
+    const appointments = await prisma.campAppointment.findMany({
+      where: {
+        donorProfile: { userId },
+        ...(includePast
+          ? {}
+          : {
+              status: { not: "CANCELLED" },
+              slot: { endsAt: { gt: new Date() } },
+            }),
+      },
+      orderBy: { slot: { startsAt: includePast ? "desc" : "asc" } },
+      include: {
+        slot: { select: { id: true, startsAt: true, endsAt: true } },
+        camp: {
+          select: {
+            id: true,
+            name: true,
+            venueName: true,
+            addressLine: true,
+            city: true,
+            status: true,
+          },
+        },
+      },
+    });
+
+    return successResponse("Appointments fetched successfully", {
+      appointments,
+    });
+  } catch (error: unknown) {
+    return handleError(error, "GET /api/appointments", {
+      status: 500,
+      code: ERROR_CODES.CAMPS_FETCH_FAILED,
+    });
+  }
+}
@@ -0,0 +1,114 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+  ERROR_CODES,
+  errorResponse,
+  successResponse,
+} from "@/lib/responseHandler";
+import { handleError } from "@/lib/errorHandler";
+import {
+  organizationScope,
+  requireOrganizationPermission,
+} from "@/lib/organizations/tenancy";
+import { fanOutRequestAlerts } from "@/lib/notifications/donorAlerts";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+function notFound() {
+  return errorResponse("Blood request not found", {
+    status: 404,
+    code: ERROR_CODES.BLOOD_REQUEST_NOT_FOUND,
+  });
+}
+
+// GET /api/blood-requests/:id/alerts → donors alerted and per-channel delivery
+// status, so coordinators can see who was reached.
+// RBAC: Requires 'update' permission on 'bloodRequests' (coordinators only)
+export const GET = requireOrganizationPermission(
+  "update",
+  "bloodRequests"
+)(async (_req: NextRequest, tenant, ...args: unknown[]) => {
+  const { id } = await (args[0] as RouteContext).params;
+  try {
+    const request = await prisma.bloodRequest.findFirst({
+      where: { id: Number(id), ...organizationScope(tenant) },
+      select: { id: true },
+    });
+    if (!request) return notFound();
+
+    const alerts = await prisma.donorAlert.findMany({
+      where: { bloodRequestId: request.id },
+      orderBy: { createdAt: "asc" },
+      include: {
+        donorProfile: {
+          select: {
+            id: true,
+            bloodGroup: true,
+            city: true,
+            user: { select: { id: true, name: true } },
+          },
+        },
+        deliveries: {
+          orderBy: { attemptedAt: "asc" },
+          select: {
+            channel: true,
+            status: true,
+            error: true,
+            attemptedAt: true,
+          },
+        },
+      },
+    });
+
+    const reached = alerts.filter((alert) =>
+      alert.deliveries.some((d) => d.status === "SENT")
+    ).length;
+
+    return successResponse(
+      "Donor alerts fetched successfully",
+      { alerts },
+      { meta: { requestId: request.id, total: alerts.length, reached } }
+    );
+  } catch (error: unknown) {
+    return handleError(error, "GET /api/blood-requests/[id]/alerts", {
+      status: 500,
+      code: ERROR_CODES.NOTIFICATIONS_FETCH_FAILED,
+    });
+  }
+});
+
+// POST /api/blood-requests/:id/alerts → alert nearby donors now
+// Donors already alerted for this request are not contacted again.
+// RBAC: Requires 'update' permission on 'bloodRequests' (coordinators only)
+export const POST = requireOrganizationPermission(
+  "update",
+  "bloodRequests"
+)(async (_req: NextRequest, tenant, ...args: unknown[]) => {
+  const { id } = await (args[0] as RouteContext).params;
+  try {
+    const request = await prisma.bloodRequest.findFirst({
+      where: { id: Number(id), ...organizationScope(tenant) },
+      select: { id: true },
+    });
+    if (!request) return notFound();
+
+    const summary = await fanOutRequestAlerts(request.id);
+
+    return successResponse("Donor alerts sent", summary);
+  } catch (error: unknown) {
+    if (
+      error instanceof Error &&
+      error.message === "REQUEST_LOCATION_UNKNOWN"
+    ) {
+      return errorResponse(
+        "Request has no location; set hospital or organization coordinates",
+        { status: 409, code: ERROR_CODES.REQUEST_LOCATION_UNKNOWN }
+      );
+    }
+
+    return handleError(error, "POST /api/blood-requests/[id]/alerts", {
+      status: 500,
+      code: ERROR_CODES.ALERT_FANOUT_FAILED,
+    });
+  }
+});
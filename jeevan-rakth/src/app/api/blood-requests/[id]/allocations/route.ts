@@ -0,0 +1,96 @@
+import { Prisma } from "@prisma/client";
+import { NextRequest } from "next/server";
+import {
+  ERROR_CODES,
+  errorResponse,
+  successResponse,
+} from "@/lib/responseHandler";
+import { bloodUnitAllocationSchema } from "@/lib/schemas/bloodUnitSchema";
+import { handleError } from "@/lib/errorHandler";
+import {
+  organizationScope,
+  requireOrganizationPermission,
+} from "@/lib/organizations/tenancy";
+import { allocateBloodUnitsTransaction } from "@/prisma/transactions";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// POST /api/blood-requests/:id/allocations → reserve units from inventory
+// Body: { units? } (defaults to the outstanding units). Compatible AVAILABLE
+// units of the request's organization are reserved first-expired-first-out.
+// RBAC: Requires 'update' permission on 'bloodUnits' resource
+export const POST = requireOrganizationPermission(
+  "update",
+  "bloodUnits"
+)(async (req: NextRequest, tenant, ...args: unknown[]) => {
+  const { id } = await (args[0] as RouteContext).params;
+  try {
+    const body = await req.json().catch(() => ({}));
+    const parsed = bloodUnitAllocationSchema.safeParse(body);
+    if (!parsed.success) {
+      return errorResponse("Validation Error", {
+        status: 400,
+        code: ERROR_CODES.VALIDATION_ERROR,
+        details: parsed.error.issues.map((issue) => ({
+          field: issue.path.join("."),
+          message: issue.message,
+        })),
+      });
+    }
+
+    const units = await allocateBloodUnitsTransaction({
+      requestId: Number(id),
+      units: parsed.data.units,
+      scope: organizationScope(tenant),
+    });
+
+    return successResponse(
+      "Blood units reserved successfully",
+      { units },
+      { status: 201 }
+    );
+  } catch (error: unknown) {
+    if (error instanceof Error && error.message === "BLOOD_REQUEST_NOT_FOUND") {
+      return errorResponse("Blood request not found", {
+        status: 404,
+        code: ERROR_CODES.BLOOD_REQUEST_NOT_FOUND,
+      });
+    }
+    if (
+      error instanceof Error &&
+      error.message === "INVALID_STATUS_TRANSITION"
+    ) {
+      return errorResponse("Cannot allocate units to a closed request", {
+        status: 409,
+        code: ERROR_CODES.INVALID_STATUS_TRANSITION,
+      });
+    }
+    if (error instanceof Error && error.message === "UNITS_EXCEED_NEEDED") {
+      return errorResponse("Allocation would exceed the outstanding units", {
+        status: 400,
+        code: ERROR_CODES.VALIDATION_ERROR,
+      });
+    }
+    if (error instanceof Error && error.message === "INSUFFICIENT_UNITS") {
+      return errorResponse("Not enough compatible units in stock", {
+        status: 409,
+        code: ERROR_CODES.INSUFFICIENT_UNITS,
+      });
+    }
+    // Serialization failure → another allocation touched the same units
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2034"
+    ) {
+      return errorResponse("Inventory changed during allocation, retry", {
+        status: 409,
+        code: ERROR_CODES.ALLOCATION_CONFLICT,
+      });
+    }
+
+    return handleError(error, "POST /api/blood-requests/[id]/allocations", {
+      status: 500,
+      code: ERROR_CODES.BLOOD_UNIT_UPDATE_FAILED,
+    });
+  }
+});
@@ -0,0 +1,80 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+  ERROR_CODES,
+  errorResponse,
+  successResponse,
+} from "@/lib/responseHandler";
+import { contactConsentSchema } from "@/lib/schemas/donorResponseSchema";
+import { handleError } from "@/lib/errorHandler";
+import { getUserId } from "@/lib/rbac";
+import { setContactConsent } from "@/lib/donors/contact";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// PUT /api/blood-requests/:id/contact-consent → the signed-in donor lets
+// the request's coordinators see their contact details, or withdraws that
+// Body: { consent: true | false }
+// Pledging to a request already shares contact; this is for donors who
+// want to be reachable without pledging.
+export async function PUT(req: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  try {
+    const userId = Number(getUserId(req));
+    if (!userId) {
+      return errorResponse("Not authenticated", {
+        status: 401,
+        code: ERROR_CODES.NOT_AUTHENTICATED,
+      });
+    }
+
+    const body = await req.json();
+    const parsed = contactConsentSchema.safeParse(body);
+    if (!parsed.success) {
+      return errorResponse("Validation Error", {
+        status: 400,
+        code: ERROR_CODES.VALIDATION_ERROR,
+        details: parsed.error.issues.map((issue) => ({
+          field: issue.path.join("."),
+          message: issue.message,
+        })),
+      });
+    }
+
+    const profile = await prisma.donorProfile.findUnique({
+      where: { userId },
+      select: { id: true },
+    });
+    if (!profile) {
+      return errorResponse("Create a donor profile before giving consent", {
+        status: 404,
+        code: ERROR_CODES.DONOR_PROFILE_NOT_FOUND,
+      });
+    }
+
+    const consent = await setContactConsent(
+      profile.id,
+      Number(id),
+      parsed.data.consent
+    );
+
+    return successResponse(
+      parsed.data.consent
+        ? "Contact sharing enabled"
+        : "Contact sharing withdrawn",
+      consent
+    );
+  } catch (error: unknown) {
+    if (error instanceof Error && error.message === "BLOOD_REQUEST_NOT_FOUND") {
+      return errorResponse("Blood request not found", {
+        status: 404,
+        code: ERROR_CODES.BLOOD_REQUEST_NOT_FOUND,
+      });
+    }
+
+    return handleError(error, "PUT /api/blood-requests/[id]/contact-consent", {
+      status: 500,
+      code: ERROR_CODES.CONTACT_CONSENT_FAILED,
+    });
+  }
+}
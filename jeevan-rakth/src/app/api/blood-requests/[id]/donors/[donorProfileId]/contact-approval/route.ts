@@ -0,0 +1,100 @@
+import { Prisma } from "@prisma/client";
+import { NextRequest } from "next/server";
+import {
+  ERROR_CODES,
+  errorResponse,
+  successResponse,
+} from "@/lib/responseHandler";
+import { rareContactRequestSchema } from "@/lib/schemas/phenotypeSchema";
+import { handleError } from "@/lib/errorHandler";
+import {
+  organizationScope,
+  requireOrganizationPermission,
+} from "@/lib/organizations/tenancy";
+import { requestRareDonorContact } from "@/lib/donors/rareContact";
+
+type RouteContext = {
+  params: Promise<{ id: string; donorProfileId: string }>;
+};
+
+// POST /api/blood-requests/:id/donors/:donorProfileId/contact-approval →
+// ask a platform admin to approve contacting a rare donor for this request
+// e.g. { "reason": "Patient has anti-Fya and anti-Jkb; no compatible units in stock" }
+// Once approved, the donor's contact can be revealed via .../contact.
+// RBAC: Requires 'update' permission on 'bloodRequests' (coordinators only)
+export const POST = requireOrganizationPermission(
+  "update",
+  "bloodRequests"
+)(async (req: NextRequest, tenant, ...args: unknown[]) => {
+  const { id, donorProfileId } = await (args[0] as RouteContext).params;
+  try {
+    const body = await req.json();
+    const parsed = rareContactRequestSchema.safeParse(body);
+    if (!parsed.success) {
+      return errorResponse("Validation Error", {
+        status: 400,
+        code: ERROR_CODES.VALIDATION_ERROR,
+        details: parsed.error.issues.map((issue) => ({
+          field: issue.path.join("."),
+          message: issue.message,
+        })),
+      });
+    }
+
+    const approval = await requestRareDonorContact(
+      Number(id),
+      Number(donorProfileId),
+      parsed.data.reason,
+      tenant.userId,
+      organizationScope(tenant)
+    );
+    if (!approval) {
+      return errorResponse("Blood request not found", {
+        status: 404,
+        code: ERROR_CODES.BLOOD_REQUEST_NOT_FOUND,
+      });
+    }
+
+    return successResponse("Contact approval requested", approval, {
+      status: 201,
+    });
+  } catch (error: unknown) {
+    if (error instanceof Error && error.message === "DONOR_PROFILE_NOT_FOUND") {
+      return errorResponse("Donor profile not found", {
+        status: 404,
+        code: ERROR_CODES.DONOR_PROFILE_NOT_FOUND,
+      });
+    }
+    if (error instanceof Error && error.message === "NOT_RARE_DONOR") {
+      return errorResponse(
+        "This donor is not a rare donor; reveal their contact directly",
+        { status: 400, code: ERROR_CODES.NOT_RARE_DONOR }
+      );
+    }
+    if (
+      error instanceof Error &&
+      error.message === "RARE_CONTACT_ALREADY_REQUESTED"
+    ) {
+      return errorResponse(
+        "Contact with this donor is already pending or approved for this request",
+        { status: 409, code: ERROR_CODES.RARE_CONTACT_ALREADY_REQUESTED }
+      );
+    }
+    // Serialization failure → another coordinator asked meanwhile
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2034"
+    ) {
+      return errorResponse("Contact approval was requested concurrently", {
+        status: 409,
+        code: ERROR_CODES.RARE_CONTACT_ALREADY_REQUESTED,
+      });
+    }
+
+    return handleError(
+      error,
+      "POST /api/blood-requests/[id]/donors/[donorProfileId]/contact-approval",
+      { status: 500, code: ERROR_CODES.RARE_CONTACT_UPDATE_FAILED }
+    );
+  }
+});
@@ -0,0 +1,73 @@
+import { NextRequest } from "next/server";
+import {
+  ERROR_CODES,
+  errorResponse,
+  successResponse,
+} from "@/lib/responseHandler";
+import { handleError } from "@/lib/errorHandler";
+import {
+  organizationScope,
+  requireOrganizationPermission,
+} from "@/lib/organizations/tenancy";
+import { revealContact } from "@/lib/donors/contact";
+
+type RouteContext = {
+  params: Promise<{ id: string; donorProfileId: string }>;
+};
+
+// POST /api/blood-requests/:id/donors/:donorProfileId/contact → reveal a
+// donor's phone, email and address to the coordinator
+// Only for donors who pledged to this request or consented to share their
+// contact with it; rare donors only once an admin approved contacting them
+// for it. Each call is recorded in the donor's reveal audit trail.
+// RBAC: Requires 'update' permission on 'bloodRequests' (coordinators only)
+export const POST = requireOrganizationPermission(
+  "update",
+  "bloodRequests"
+)(async (_req: NextRequest, tenant, ...args: unknown[]) => {
+  const { id, donorProfileId } = await (args[0] as RouteContext).params;
+  try {
+    const contact = await revealContact(
+      Number(id),
+      Number(donorProfileId),
+      tenant.userId,
+      organizationScope(tenant)
+    );
+    if (!contact) {
+      return errorResponse("Blood request not found", {
+        status: 404,
+        code: ERROR_CODES.BLOOD_REQUEST_NOT_FOUND,
+      });
+    }
+
+    return successResponse("Donor contact revealed", contact);
+  } catch (error: unknown) {
+    if (error instanceof Error && error.message === "DONOR_PROFILE_NOT_FOUND") {
+      return errorResponse("Donor profile not found", {
+        status: 404,
+        code: ERROR_CODES.DONOR_PROFILE_NOT_FOUND,
+      });
+    }
+    if (
+      error instanceof Error &&
+      error.message === "RARE_DONOR_APPROVAL_REQUIRED"
+    ) {
+      return errorResponse(
+        "Contacting this rare donor needs an admin's approval for this request",
+        { status: 403, code: ERROR_CODES.RARE_DONOR_APPROVAL_REQUIRED }
+      );
+    }
+    if (error instanceof Error && error.message === "CONTACT_NOT_SHARED") {
+      return errorResponse(
+        "This donor has not pledged to or consented to share contact with this request",
+        { status: 403, code: ERROR_CODES.CONTACT_NOT_SHARED }
+      );
+    }
+
+    return handleError(
+      error,
+      "POST /api/blood-requests/[id]/donors/[donorProfileId]/contact",
+      { status: 500, code: ERROR_CODES.CONTACT_REVEAL_FAILED }
+    );
+  }
+});
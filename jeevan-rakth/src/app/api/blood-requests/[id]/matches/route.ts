@@ -0,0 +1,159 @@
+import type { Prisma } from "@prisma/client";
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+  ERROR_CODES,
+  errorResponse,
+  successResponse,
+} from "@/lib/responseHandler";
+import { handleError } from "@/lib/errorHandler";
+import {
+  organizationScope,
+  requireOrganizationPermission,
+} from "@/lib/organizations/tenancy";
+import {
+  compatibleDonorGroups,
+  rankCompatibleDonors,
+} from "@/lib/matching/compatibility";
+import {
+  eligibilityProfileSelect,
+  evaluateDonors,
+} from "@/lib/eligibility/donors";
+import { requiresVerifiedDonors } from "@/lib/donors/verification";
+import { availableDonorFilter } from "@/lib/donors/availability";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const MAX_MATCHES = 100;
+
+// Donors evaluated for eligibility per query, and in total per call
+const MATCH_BATCH_SIZE = 100;
+const MAX_MATCH_CANDIDATES = 500;
+
+const MATCH_CANDIDATE_SELECT = {
+  ...eligibilityProfileSelect,
+  userId: true,
+  bloodGroup: true,
+  city: true,
+  lastDonationAt: true,
+  rareDonor: true,
+  user: { select: { name: true } },
+} satisfies Prisma.DonorProfileSelect;
+
+type MatchCandidate = Prisma.DonorProfileGetPayload<{
+  select: typeof MATCH_CANDIDATE_SELECT;
+}>;
+
+// GET /api/blood-requests/:id/matches?limit=20 → ranked compatible donors
+// Exact-type donors are listed before compatible-but-different ones; donors
+// not currently eligible to give the requested component or unavailable
+// right now are left out, as are unverified donors for urgent and critical
+// requests and, when the request names antigen-negative criteria, donors
+// not typed negative for all of them. Rare donors are tagged; their
+// contact needs an admin's approval. At most 500 donors are evaluated per
+// call; meta.hasMore says whether more eligible donors may exist.
+// RBAC: Requires 'update' permission on 'bloodRequests' (coordinators only)
+export const GET = requireOrganizationPermission(
+  "update",
+  "bloodRequests"
+)(async (req: NextRequest, tenant, ...args: unknown[]) => {
+  const { id } = await (args[0] as RouteContext).params;
+  try {
+    const { searchParams } = new URL(req.url);
+    const limit = Math.min(
+      Math.max(Number(searchParams.get("limit")) || 20, 1),
+      MAX_MATCHES
+    );
+
+    const request = await prisma.bloodRequest.findFirst({
+      where: { id: Number(id), ...organizationScope(tenant) },
+    });
+
+    if (!request) {
+      return errorResponse("Blood request not found", {
+        status: 404,
+        code: ERROR_CODES.BLOOD_REQUEST_NOT_FOUND,
+      });
+    }
+
+    const where: Prisma.DonorProfileWhereInput = {
+      ...availableDonorFilter(),
+      ...(requiresVerifiedDonors(request.urgency)
+        ? { verificationStatus: "VERIFIED" as const }
+        : {}),
+      ...(request.requiredAntigenNegative.length > 0
+        ? {
+            antigensNegative: { hasEvery: request.requiredAntigenNegative },
+          }
+        : {}),
+    };
+
+    // Walk the compatible groups in rank order, a batch at a time, until
+    // enough eligible donors are found or the candidate cap is reached.
+    // Donors who have rested longest come first within each blood group.
+    const eligible: MatchCandidate[] = [];
+    let scanned = 0;
+    let exhausted = true;
+    for (const bloodGroup of compatibleDonorGroups(
+      request.bloodGroup,
+      request.component
+    )) {
+      for (let skip = 0; ; skip += MATCH_BATCH_SIZE) {
+        if (eligible.length > limit || scanned >= MAX_MATCH_CANDIDATES) break;
+        const batch = await prisma.donorProfile.findMany({
+          where: { ...where, bloodGroup },
+          orderBy: [
+            { lastDonationAt: { sort: "asc", nulls: "first" } },
+            { id: "asc" },
+          ],
+          skip,
+          take: Math.min(MATCH_BATCH_SIZE, MAX_MATCH_CANDIDATES - scanned),
+          select: MATCH_CANDIDATE_SELECT,
+        });
+        scanned += batch.length;
+
+        const verdicts = await evaluateDonors(batch, request.component);
+        eligible.push(
+          ...batch.filter((donor) => verdicts.get(donor.id)?.eligible)
+        );
+        if (batch.length < MATCH_BATCH_SIZE) break;
+      }
+      if (eligible.length > limit || scanned >= MAX_MATCH_CANDIDATES) {
+        exhausted = false;
+        break;
+      }
+    }
+
+    const ranked = rankCompatibleDonors(request, eligible);
+    const matches = ranked
+      .slice(0, limit)
+      .map(({ donor, matchType, rank }) => ({
+        rank,
+        matchType,
+        donorProfileId: donor.id,
+        userId: donor.userId,
+        name: donor.user.name,
+        bloodGroup: donor.bloodGroup,
+        city: donor.city,
+        lastDonationAt: donor.lastDonationAt,
+        rareDonor: donor.rareDonor,
+      }));
+
+    return successResponse(
+      "Compatible donors fetched successfully",
+      { matches },
+      {
+        meta: {
+          requestId: request.id,
+          limit,
+          hasMore: ranked.length > limit || !exhausted,
+        },
+      }
+    );
+  } catch (error: unknown) {
+    return handleError(error, "GET /api/blood-requests/[id]/matches", {
+      status: 500,
+      code: ERROR_CODES.BLOOD_REQUESTS_FETCH_FAILED,
+    });
+  }
+});
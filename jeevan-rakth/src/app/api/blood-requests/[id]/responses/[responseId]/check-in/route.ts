@@ -0,0 +1,70 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+  ERROR_CODES,
+  errorResponse,
+  successResponse,
+} from "@/lib/responseHandler";
+import { handleError } from "@/lib/errorHandler";
+import {
+  organizationScope,
+  requireOrganizationPermission,
+} from "@/lib/organizations/tenancy";
+
+type RouteContext = { params: Promise<{ id: string; responseId: string }> };
+
+// POST /api/blood-requests/:id/responses/:responseId/check-in → mark a
+// pledged donor as arrived at the hospital. Only accepted responses can be
+// checked in, and only once.
+// RBAC: Requires 'update' permission on 'bloodRequests' (coordinators only)
+export const POST = requireOrganizationPermission(
+  "update",
+  "bloodRequests"
+)(async (_req: NextRequest, tenant, ...args: unknown[]) => {
+  const { id, responseId } = await (args[0] as RouteContext).params;
+  try {
+    const where = {
+      id: Number(responseId),
+      bloodRequest: { id: Number(id), ...organizationScope(tenant) },
+    };
+
+    // Conditional update so a donor withdrawing at the same moment cannot
+    // be checked in against a declined response
+    const { count } = await prisma.donorResponse.updateMany({
+      where: { ...where, status: "ACCEPTED", checkedInAt: null },
+      data: { checkedInAt: new Date() },
+    });
+
+    if (count === 0) {
+      const existing = await prisma.donorResponse.findFirst({ where });
+      if (!existing) {
+        return errorResponse("Donor response not found", {
+          status: 404,
+          code: ERROR_CODES.DONOR_RESPONSE_NOT_FOUND,
+        });
+      }
+      if (existing.checkedInAt) {
+        return errorResponse("Donor has already been checked in", {
+          status: 409,
+          code: ERROR_CODES.ALREADY_CHECKED_IN,
+        });
+      }
+      return errorResponse("Only donors who accepted can be checked in", {
+        status: 409,
+        code: ERROR_CODES.INVALID_STATUS_TRANSITION,
+      });
+    }
+
+    const response = await prisma.donorResponse.findUniqueOrThrow({
+      where: { id: Number(responseId) },
+    });
+
+    return successResponse("Donor checked in", response);
+  } catch (error: unknown) {
+    return handleError(
+      error,
+      "POST /api/blood-requests/[id]/responses/[responseId]/check-in",
+      { status: 500, code: ERROR_CODES.DONOR_RESPONSE_FAILED }
+    );
+  }
+});
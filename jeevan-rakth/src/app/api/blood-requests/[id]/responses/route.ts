@@ -0,0 +1,182 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+  ERROR_CODES,
+  errorResponse,
+  successResponse,
+} from "@/lib/responseHandler";
+import { donorResponseSchema } from "@/lib/schemas/donorResponseSchema";
+import { handleError } from "@/lib/errorHandler";
+import { getUserId } from "@/lib/rbac";
+import {
+  organizationScope,
+  requireOrganizationPermission,
+} from "@/lib/organizations/tenancy";
+import { recordDonorResponse } from "@/lib/bloodRequests/responses";
+import { maskContact } from "@/lib/donors/contact";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// GET /api/blood-requests/:id/responses → fill status and donor answers
+// Accepted donors come first, earliest ETA first, so coordinators can see
+// who is on the way. Polled by the request page for live updates.
+// Phones are masked; reveal one through
+// POST /api/blood-requests/:id/donors/:donorProfileId/contact.
+// RBAC: Requires 'update' permission on 'bloodRequests' (coordinators only)
+export const GET = requireOrganizationPermission(
+  "update",
+  "bloodRequests"
+)(async (_req: NextRequest, tenant, ...args: unknown[]) => {
+  const { id } = await (args[0] as RouteContext).params;
+  try {
+    const request = await prisma.bloodRequest.findFirst({
+      where: { id: Number(id), ...organizationScope(tenant) },
+      select: {
+        id: true,
+        status: true,
+        unitsNeeded: true,
+        unitsFulfilled: true,
+        unitsPledged: true,
+      },
+    });
+    if (!request) {
+      return errorResponse("Blood request not found", {
+        status: 404,
+        code: ERROR_CODES.BLOOD_REQUEST_NOT_FOUND,
+      });
+    }
+
+    const rows = await prisma.donorResponse.findMany({
+      where: { bloodRequestId: request.id },
+      orderBy: [
+        { status: "asc" },
+        { etaMinutes: { sort: "asc", nulls: "last" } },
+        { respondedAt: "asc" },
+      ],
+      include: {
+        donorProfile: {
+          select: {
+            id: true,
+            bloodGroup: true,
+            phone: true,
+            city: true,
+            user: { select: { id: true, name: true } },
+          },
+        },
+      },
+    });
+
+    const consents = await prisma.contactConsent.findMany({
+      where: { bloodRequestId: request.id, revokedAt: null },
+      select: { donorProfileId: true },
+    });
+    const consented = new Set(consents.map((c) => c.donorProfileId));
+    const responses = rows.map((r) => ({
+      ...r,
+      donorProfile: maskContact(r.donorProfile),
+      contactShared: r.status === "ACCEPTED" || consented.has(r.donorProfileId),
+    }));
+
+    const accepted = responses.filter((r) => r.status === "ACCEPTED");
+    const fill = {
+      ...request,
+      unitsOutstanding: Math.max(
+        request.unitsNeeded - request.unitsFulfilled,
+        0
+      ),
+      accepted: accepted.length,
+      declined: responses.length - accepted.length,
+      checkedIn: accepted.filter((r) => r.checkedInAt).length,
+    };
+
+    return successResponse("Donor responses fetched successfully", {
+      fill,
+      responses,
+    });
+  } catch (error: unknown) {
+    return handleError(error, "GET /api/blood-requests/[id]/responses", {
+      status: 500,
+      code: ERROR_CODES.BLOOD_REQUESTS_FETCH_FAILED,
+    });
+  }
+});
+
+// POST /api/blood-requests/:id/responses → the signed-in donor answers
+// Body: { response: "ACCEPT" | "DECLINE", etaMinutes?, note? }
+// Answering again replaces the previous answer until the donor is checked in.
+export async function POST(req: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  try {
+    const userId = Number(getUserId(req));
+    if (!userId) {
+      return errorResponse("Not authenticated", {
+        status: 401,
+        code: ERROR_CODES.NOT_AUTHENTICATED,
+      });
+    }
+
+    const body = await req.json();
+    const parsed = donorResponseSchema.safeParse(body);
+    if (!parsed.success) {
+      return errorResponse("Validation Error", {
+        status: 400,
+        code: ERROR_CODES.VALIDATION_ERROR,
+        details: parsed.error.issues.map((issue) => ({
+          field: issue.path.join("."),
+          message: issue.message,
+        })),
+      });
+    }
+
+    const profile = await prisma.donorProfile.findUnique({
+      where: { userId },
+      select: { id: true },
+    });
+    if (!profile) {
+      return errorResponse("Create a donor profile before responding", {
+        status: 404,
+        code: ERROR_CODES.DONOR_PROFILE_NOT_FOUND,
+      });
+    }
+
+    const response = await recordDonorResponse({
+      requestId: Number(id),
+      donorProfileId: profile.id,
+      accept: parsed.data.response === "ACCEPT",
+      etaMinutes: parsed.data.etaMinutes,
+      note: parsed.data.note,
+    });
+
+    return successResponse("Response recorded", response);
+  } catch (error: unknown) {
+    if (error instanceof Error && error.message === "BLOOD_REQUEST_NOT_FOUND") {
+      return errorResponse("Blood request not found", {
+        status: 404,
+        code: ERROR_CODES.BLOOD_REQUEST_NOT_FOUND,
+      });
+    }
+    if (error instanceof Error && error.message === "REQUEST_CLOSED") {
+      return errorResponse("This request is no longer accepting donors", {
+        status: 409,
+        code: ERROR_CODES.REQUEST_CLOSED,
+      });
+    }
+    if (error instanceof Error && error.message === "DONOR_NOT_ELIGIBLE") {
+      return errorResponse("You are not eligible to donate for this request", {
+        status: 409,
+        code: ERROR_CODES.DONOR_NOT_ELIGIBLE,
+      });
+    }
+    if (error instanceof Error && error.message === "ALREADY_CHECKED_IN") {
+      return errorResponse("You have already been checked in", {
+        status: 409,
+        code: ERROR_CODES.ALREADY_CHECKED_IN,
+      });
+    }
+
+    return handleError(error, "POST /api/blood-requests/[id]/responses", {
+      status: 500,
+      code: ERROR_CODES.DONOR_RESPONSE_FAILED,
+    });
+  }
+}
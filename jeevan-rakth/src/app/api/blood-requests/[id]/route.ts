@@ -0,0 +1,171 @@
+import { Prisma } from "@prisma/client";
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+  ERROR_CODES,
+  errorResponse,
+  successResponse,
+} from "@/lib/responseHandler";
+import { bloodRequestUpdateSchema } from "@/lib/schemas/bloodRequestSchema";
+import { handleError } from "@/lib/errorHandler";
+import { bloodRequestScope } from "@/lib/bloodRequests/access";
+import {
+  isOrganizationStaff,
+  organizationScope,
+  requireOrganizationPermission,
+} from "@/lib/organizations/tenancy";
+import { isClosedStatus } from "@/lib/bloodRequests/lifecycle";
+import { triggerRequestAlerts } from "@/lib/notifications/donorAlerts";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+function notFound() {
+  return errorResponse("Blood request not found", {
+    status: 404,
+    code: ERROR_CODES.BLOOD_REQUEST_NOT_FOUND,
+  });
+}
+
+// GET /api/blood-requests/:id → get a single blood request
+export const GET = requireOrganizationPermission(
+  "read",
+  "bloodRequests"
+)(async (_req: NextRequest, tenant, ...args: unknown[]) => {
+  const { id } = await (args[0] as RouteContext).params;
+  try {
+    const request = await prisma.bloodRequest.findFirst({
+      where: { id: Number(id), ...bloodRequestScope(tenant) },
+      include: {
+        createdBy: { select: { id: true, name: true } },
+        organization: { select: { id: true, name: true, type: true } },
+      },
+    });
+
+    if (!request) return notFound();
+
+    return successResponse("Blood request retrieved successfully", request);
+  } catch (error: unknown) {
+    return handleError(error, "GET /api/blood-requests/[id]", {
+      status: 500,
+      code: ERROR_CODES.BLOOD_REQUESTS_FETCH_FAILED,
+    });
+  }
+});
+
+// PATCH /api/blood-requests/:id → edit request details
+// Status changes go through /api/blood-requests/:id/transitions instead.
+// An edit by the organization's staff also triages a request raised from
+// outside it, which lets donor alerts and escalation proceed.
+export const PATCH = requireOrganizationPermission(
+  "update",
+  "bloodRequests"
+)(async (req: NextRequest, tenant, ...args: unknown[]) => {
+  const { id } = await (args[0] as RouteContext).params;
+  try {
+    const body = await req.json();
+    const parsed = bloodRequestUpdateSchema.safeParse(body);
+    if (!parsed.success) {
+      return errorResponse("Validation Error", {
+        status: 400,
+        code: ERROR_CODES.VALIDATION_ERROR,
+        details: parsed.error.issues.map((issue) => ({
+          field: issue.path.join("."),
+          message: issue.message,
+        })),
+      });
+    }
+
+    const existing = await prisma.bloodRequest.findFirst({
+      where: { id: Number(id), ...organizationScope(tenant) },
+    });
+
+    if (!existing) return notFound();
+
+    if (isClosedStatus(existing.status)) {
+      return errorResponse(`Cannot edit a ${existing.status} request`, {
+        status: 409,
+        code: ERROR_CODES.INVALID_STATUS_TRANSITION,
+      });
+    }
+
+    if (
+      parsed.data.unitsNeeded !== undefined &&
+      parsed.data.unitsNeeded < existing.unitsFulfilled
+    ) {
+      return errorResponse("unitsNeeded cannot be below units fulfilled", {
+        status: 400,
+        code: ERROR_CODES.VALIDATION_ERROR,
+      });
+    }
+
+    const triaged =
+      existing.awaitingTriage &&
+      isOrganizationStaff(
+        tenant,
+        existing.organizationId,
+        "update",
+        "bloodRequests"
+      );
+    const updated = await prisma.bloodRequest.update({
+      where: { id: existing.id },
+      data: {
+        ...parsed.data,
+        ...(triaged ? { awaitingTriage: false, triagedAt: new Date() } : {}),
+      },
+    });
+
+    // Raising a request to CRITICAL, or triaging a CRITICAL one, alerts
+    // donors as if it were new
+    if (
+      !updated.awaitingTriage &&
+      updated.urgency === "CRITICAL" &&
+      (existing.urgency !== "CRITICAL" || triaged)
+    ) {
+      triggerRequestAlerts(updated.id);
+    }
+
+    return successResponse("Blood request updated successfully", updated);
+  } catch (error: unknown) {
+    return handleError(error, "PATCH /api/blood-requests/[id]", {
+      status: 500,
+      code: ERROR_CODES.BLOOD_REQUEST_UPDATE_FAILED,
+    });
+  }
+});
+
+// DELETE /api/blood-requests/:id → permanently remove a request
+// RBAC: Requires 'delete' permission (platform or organization admins).
+// Prefer the cancel transition.
+export const DELETE = requireOrganizationPermission(
+  "delete",
+  "bloodRequests"
+)(async (_req: NextRequest, tenant, ...args: unknown[]) => {
+  const { id } = await (args[0] as RouteContext).params;
+  try {
+    const { count } = await prisma.bloodRequest.deleteMany({
+      where: { id: Number(id), ...organizationScope(tenant) },
+    });
+
+    if (count === 0) return notFound();
+
+    return successResponse("Blood request deleted successfully", {
+      id: Number(id),
+    });
+  } catch (error: unknown) {
+    // Foreign key violation → audit rows (e.g. contact reveals) must be kept
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2003"
+    ) {
+      return errorResponse(
+        "Blood request has audit records that must be kept; cancel it instead",
+        { status: 409, code: ERROR_CODES.BLOOD_REQUEST_HAS_AUDIT_RECORDS }
+      );
+    }
+
+    return handleError(error, "DELETE /api/blood-requests/[id]", {
+      status: 500,
+      code: ERROR_CODES.BLOOD_REQUEST_UPDATE_FAILED,
+    });
+  }
+});
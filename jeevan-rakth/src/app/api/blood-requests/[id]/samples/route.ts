@@ -0,0 +1,145 @@
+import { Prisma } from "@prisma/client";
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+  ERROR_CODES,
+  errorResponse,
+  successResponse,
+} from "@/lib/responseHandler";
+import { patientSampleCreateSchema } from "@/lib/schemas/crossMatchSchema";
+import { handleError } from "@/lib/errorHandler";
+import {
+  organizationScope,
+  requireOrganizationPermission,
+} from "@/lib/organizations/tenancy";
+import {
+  PATIENT_SAMPLE_INCLUDE,
+  registerPatientSample,
+} from "@/lib/crossMatch/samples";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// GET /api/blood-requests/:id/samples → patient samples for a request with
+// their antibody screen and cross-matches, newest first
+// RBAC: Requires 'read' permission on 'bloodUnits' resource
+export const GET = requireOrganizationPermission(
+  "read",
+  "bloodUnits"
+)(async (_req: NextRequest, tenant, ...args: unknown[]) => {
+  const { id } = await (args[0] as RouteContext).params;
+  try {
+    const request = await prisma.bloodRequest.findFirst({
+      where: { id: Number(id), ...organizationScope(tenant) },
+      select: { id: true },
+    });
+    if (!request) {
+      return errorResponse("Blood request not found", {
+        status: 404,
+        code: ERROR_CODES.BLOOD_REQUEST_NOT_FOUND,
+      });
+    }
+
+    const samples = await prisma.patientSample.findMany({
+      where: { requestId: request.id },
+      orderBy: { collectedAt: "desc" },
+      include: PATIENT_SAMPLE_INCLUDE,
+    });
+
+    return successResponse("Patient samples fetched successfully", {
+      samples,
+    });
+  } catch (error: unknown) {
+    return handleError(error, "GET /api/blood-requests/[id]/samples", {
+      status: 500,
+      code: ERROR_CODES.SAMPLES_FETCH_FAILED,
+    });
+  }
+});
+
+// POST /api/blood-requests/:id/samples → register a patient sample
+// e.g. { "sampleNumber": "XM-2026-0042", "collectedAt": "2026-10-20T08:15:00Z",
+//        "patientIdentifier": "MRN 778812", "bloodUnitIds": [31, 32] }
+// The sample can be cross-matched for SAMPLE_VALIDITY_HOURS after collection.
+// RBAC: Requires 'update' permission on 'bloodUnits' resource
+export const POST = requireOrganizationPermission(
+  "update",
+  "bloodUnits"
+)(async (req: NextRequest, tenant, ...args: unknown[]) => {
+  const { id } = await (args[0] as RouteContext).params;
+  try {
+    const body = await req.json();
+    const parsed = patientSampleCreateSchema.safeParse(body);
+    if (!parsed.success) {
+      return errorResponse("Validation Error", {
+        status: 400,
+        code: ERROR_CODES.VALIDATION_ERROR,
+        details: parsed.error.issues.map((issue) => ({
+          field: issue.path.join("."),
+          message: issue.message,
+        })),
+      });
+    }
+
+    const sample = await registerPatientSample(
+      Number(id),
+      parsed.data,
+      organizationScope(tenant),
+      tenant.userId
+    );
+
+    return successResponse("Patient sample registered successfully", sample, {
+      status: 201,
+    });
+  } catch (error: unknown) {
+    if (error instanceof Error && error.message === "BLOOD_REQUEST_NOT_FOUND") {
+      return errorResponse("Blood request not found", {
+        status: 404,
+        code: ERROR_CODES.BLOOD_REQUEST_NOT_FOUND,
+      });
+    }
+    if (
+      error instanceof Error &&
+      error.message === "INVALID_STATUS_TRANSITION"
+    ) {
+      return errorResponse("Cannot test samples for a closed request", {
+        status: 409,
+        code: ERROR_CODES.INVALID_STATUS_TRANSITION,
+      });
+    }
+    if (error instanceof Error && error.message === "SAMPLE_EXPIRED") {
+      return errorResponse("Sample is too old to cross-match", {
+        status: 400,
+        code: ERROR_CODES.SAMPLE_EXPIRED,
+      });
+    }
+    if (error instanceof Error && error.message === "BLOOD_UNIT_NOT_FOUND") {
+      return errorResponse("Blood unit not found", {
+        status: 404,
+        code: ERROR_CODES.BLOOD_UNIT_NOT_FOUND,
+      });
+    }
+    if (error instanceof Error && error.message === "UNIT_NOT_ELIGIBLE") {
+      return errorResponse(
+        "Units must be in date, compatible with the patient and not held for another request",
+        { status: 409, code: ERROR_CODES.UNIT_NOT_ELIGIBLE }
+      );
+    }
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2002"
+    ) {
+      return errorResponse(
+        "Your organization already has a sample with this number",
+        {
+          status: 409,
+          code: ERROR_CODES.SAMPLE_NUMBER_CONFLICT,
+        }
+      );
+    }
+
+    return handleError(error, "POST /api/blood-requests/[id]/samples", {
+      status: 500,
+      code: ERROR_CODES.SAMPLE_UPDATE_FAILED,
+    });
+  }
+});
@@ -0,0 +1,57 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+  ERROR_CODES,
+  errorResponse,
+  successResponse,
+} from "@/lib/responseHandler";
+import { handleError } from "@/lib/errorHandler";
+import { bloodRequestScope } from "@/lib/bloodRequests/access";
+import { requireOrganizationPermission } from "@/lib/organizations/tenancy";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// GET /api/blood-requests/:id/timeline → status changes, alert waves and
+// escalation steps for a request, oldest first
+// RBAC: Requires 'read' permission on 'bloodRequests' resource
+export const GET = requireOrganizationPermission(
+  "read",
+  "bloodRequests"
+)(async (_req: NextRequest, tenant, ...args: unknown[]) => {
+  const { id } = await (args[0] as RouteContext).params;
+  try {
+    const request = await prisma.bloodRequest.findFirst({
+      where: { id: Number(id), ...bloodRequestScope(tenant) },
+      select: { id: true, escalationLevel: true, lastEscalatedAt: true },
+    });
+    if (!request) {
+      return errorResponse("Blood request not found", {
+        status: 404,
+        code: ERROR_CODES.BLOOD_REQUEST_NOT_FOUND,
+      });
+    }
+
+    const events = await prisma.bloodRequestEvent.findMany({
+      where: { bloodRequestId: request.id },
+      orderBy: { createdAt: "asc" },
+      include: { actor: { select: { id: true, name: true } } },
+    });
+
+    return successResponse(
+      "Blood request timeline fetched successfully",
+      { events },
+      {
+        meta: {
+          requestId: request.id,
+          escalationLevel: request.escalationLevel,
+          lastEscalatedAt: request.lastEscalatedAt,
+        },
+      }
+    );
+  } catch (error: unknown) {
+    return handleError(error, "GET /api/blood-requests/[id]/timeline", {
+      status: 500,
+      code: ERROR_CODES.BLOOD_REQUESTS_FETCH_FAILED,
+    });
+  }
+});
@@ -0,0 +1,82 @@
+import { NextRequest } from "next/server";
+import {
+  ERROR_CODES,
+  errorResponse,
+  successResponse,
+} from "@/lib/responseHandler";
+import { bloodRequestTransitionSchema } from "@/lib/schemas/bloodRequestSchema";
+import { handleError } from "@/lib/errorHandler";
+import {
+  organizationScope,
+  requireOrganizationPermission,
+} from "@/lib/organizations/tenancy";
+import { transitionBloodRequest } from "@/lib/bloodRequests/transitions";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// POST /api/blood-requests/:id/transitions → move a request through its lifecycle
+// Body: { action: "match" } | { action: "fulfil", units } |
+//       { action: "cancel", reason } | { action: "expire", reason? }
+// RBAC: Requires 'update' permission on 'bloodRequests' resource
+export const POST = requireOrganizationPermission(
+  "update",
+  "bloodRequests"
+)(async (req: NextRequest, tenant, ...args: unknown[]) => {
+  const { id } = await (args[0] as RouteContext).params;
+  try {
+    const body = await req.json();
+    const parsed = bloodRequestTransitionSchema.safeParse(body);
+    if (!parsed.success) {
+      return errorResponse("Validation Error", {
+        status: 400,
+        code: ERROR_CODES.VALIDATION_ERROR,
+        details: parsed.error.issues.map((issue) => ({
+          field: issue.path.join("."),
+          message: issue.message,
+        })),
+      });
+    }
+
+    const updated = await transitionBloodRequest(
+      Number(id),
+      parsed.data,
+      organizationScope(tenant),
+      tenant.userId
+    );
+
+    return successResponse("Blood request updated successfully", updated);
+  } catch (error: unknown) {
+    if (error instanceof Error && error.message === "BLOOD_REQUEST_NOT_FOUND") {
+      return errorResponse("Blood request not found", {
+        status: 404,
+        code: ERROR_CODES.BLOOD_REQUEST_NOT_FOUND,
+      });
+    }
+    if (
+      error instanceof Error &&
+      error.message === "INVALID_STATUS_TRANSITION"
+    ) {
+      return errorResponse("Transition not allowed from the current status", {
+        status: 409,
+        code: ERROR_CODES.INVALID_STATUS_TRANSITION,
+      });
+    }
+    if (error instanceof Error && error.message === "UNITS_EXCEED_NEEDED") {
+      return errorResponse("Fulfilled units would exceed units needed", {
+        status: 400,
+        code: ERROR_CODES.VALIDATION_ERROR,
+      });
+    }
+    if (error instanceof Error && error.message === "CONCURRENT_MODIFICATION") {
+      return errorResponse("Request was modified concurrently, retry", {
+        status: 409,
+        code: ERROR_CODES.INVALID_STATUS_TRANSITION,
+      });
+    }
+
+    return handleError(error, "POST /api/blood-requests/[id]/transitions", {
+      status: 500,
+      code: ERROR_CODES.BLOOD_REQUEST_UPDATE_FAILED,
+    });
+  }
+});
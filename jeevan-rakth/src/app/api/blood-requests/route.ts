@@ -0,0 +1,178 @@
+import { Prisma } from "@prisma/client";
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+  ERROR_CODES,
+  errorResponse,
+  successResponse,
+} from "@/lib/responseHandler";
+import {
+  bloodRequestCreateSchema,
+  bloodRequestStatusSchema,
+  urgencyLevelSchema,
+} from "@/lib/schemas/bloodRequestSchema";
+import { bloodGroupSchema } from "@/lib/schemas/donorProfileSchema";
+import { handleError } from "@/lib/errorHandler";
+import { bloodRequestScope } from "@/lib/bloodRequests/access";
+import { triggerRequestAlerts } from "@/lib/notifications/donorAlerts";
+import {
+  canAccessOrganization,
+  isOrganizationStaff,
+  requireOrganizationPermission,
+  resolveTargetOrganization,
+} from "@/lib/organizations/tenancy";
+
+const MAX_PAGE_SIZE = 50;
+
+// GET /api/blood-requests?page=1&limit=10&status=OPEN&urgency=CRITICAL&bloodGroup=O-
+// awaitingTriage=true lists requests raised from outside the organization
+// that its staff have not yet triaged.
+// RBAC: Requires 'read' permission on 'bloodRequests', globally or through
+// an organization membership. Staff see their organizations' requests;
+// everyone also sees the requests they raised.
+export const GET = requireOrganizationPermission(
+  "read",
+  "bloodRequests"
+)(async (req: NextRequest, tenant) => {
+  try {
+    const { searchParams } = new URL(req.url);
+    const page = Math.max(Number(searchParams.get("page")) || 1, 1);
+    const limit = Math.min(
+      Math.max(Number(searchParams.get("limit")) || 10, 1),
+      MAX_PAGE_SIZE
+    );
+
+    const status = bloodRequestStatusSchema.safeParse(
+      searchParams.get("status") ?? undefined
+    );
+    const urgency = urgencyLevelSchema.safeParse(
+      searchParams.get("urgency") ?? undefined
+    );
+    const bloodGroup = bloodGroupSchema.safeParse(
+      searchParams.get("bloodGroup") ?? undefined
+    );
+
+    const where: Prisma.BloodRequestWhereInput = {
+      ...(status.success ? { status: status.data } : {}),
+      ...(urgency.success ? { urgency: urgency.data } : {}),
+      ...(bloodGroup.success ? { bloodGroup: bloodGroup.data } : {}),
+      ...(searchParams.get("awaitingTriage") === "true"
+        ? { awaitingTriage: true }
+        : {}),
+      ...bloodRequestScope(tenant),
+    };
+
+    const [requests, total] = await prisma.$transaction([
+      prisma.bloodRequest.findMany({
+        where,
+        skip: (page - 1) * limit,
+        take: limit,
+        orderBy: [{ urgency: "desc" }, { requiredBy: "asc" }],
+      }),
+      prisma.bloodRequest.count({ where }),
+    ]);
+
+    return successResponse(
+      "Blood requests fetched successfully",
+      { requests },
+      { meta: { page, limit, total } }
+    );
+  } catch (error: unknown) {
+    return handleError(error, "GET /api/blood-requests", {
+      status: 500,
+      code: ERROR_CODES.BLOOD_REQUESTS_FETCH_FAILED,
+    });
+  }
+});
+
+// POST /api/blood-requests → raise a new blood request (status OPEN)
+// The request belongs to the caller's organization. Users outside it may
+// only raise requests against verified organizations, and their requests
+// await triage by the organization's staff before any donor is alerted.
+// CRITICAL requests raised by the staff themselves immediately alert
+// compatible donors nearby. For a patient with
+// alloantibodies, e.g. "requiredAntigenNegative": ["K", "Fya"], only donors
+// typed negative for those antigens are matched and alerted.
+// RBAC: Requires 'create' permission on 'bloodRequests' resource
+export const POST = requireOrganizationPermission(
+  "create",
+  "bloodRequests"
+)(async (req: NextRequest, tenant) => {
+  try {
+    const body = await req.json();
+    const parsed = bloodRequestCreateSchema.safeParse(body);
+    if (!parsed.success) {
+      return errorResponse("Validation Error", {
+        status: 400,
+        code: ERROR_CODES.VALIDATION_ERROR,
+        details: parsed.error.issues.map((issue) => ({
+          field: issue.path.join("."),
+          message: issue.message,
+        })),
+      });
+    }
+
+    const organizationId = resolveTargetOrganization(
+      tenant,
+      parsed.data.organizationId
+    );
+
+    if (!canAccessOrganization(tenant, organizationId)) {
+      const organization = await prisma.organization.findUnique({
+        where: { id: organizationId },
+        select: { verified: true },
+      });
+      if (!organization?.verified) {
+        return errorResponse("Organization not found or not verified", {
+          status: 404,
+          code: ERROR_CODES.ORGANIZATION_NOT_FOUND,
+        });
+      }
+    }
+
+    const raisedByStaff = isOrganizationStaff(
+      tenant,
+      organizationId,
+      "create",
+      "bloodRequests"
+    );
+    const request = await prisma.bloodRequest.create({
+      data: {
+        ...parsed.data,
+        organizationId,
+        createdById: tenant.userId,
+        awaitingTriage: !raisedByStaff,
+      },
+    });
+
+    if (raisedByStaff && request.urgency === "CRITICAL") {
+      triggerRequestAlerts(request.id);
+    }
+
+    return successResponse("Blood request created successfully", request, {
+      status: 201,
+    });
+  } catch (error: unknown) {
+    if (error instanceof Error && error.message === "ORGANIZATION_REQUIRED") {
+      return errorResponse("organizationId is required", {
+        status: 400,
+        code: ERROR_CODES.VALIDATION_ERROR,
+      });
+    }
+    // Foreign key violation → the organization does not exist
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2003"
+    ) {
+      return errorResponse("Organization not found", {
+        status: 404,
+        code: ERROR_CODES.ORGANIZATION_NOT_FOUND,
+      });
+    }
+
+    return handleError(error, "POST /api/blood-requests", {
+      status: 500,
+      code: ERROR_CODES.BLOOD_REQUEST_UPDATE_FAILED,
+    });
+  }
+});
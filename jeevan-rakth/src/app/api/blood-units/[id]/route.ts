@@ -0,0 +1,246 @@
+import { Prisma } from "@prisma/client";
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+  ERROR_CODES,
+  errorResponse,
+  successResponse,
+} from "@/lib/responseHandler";
+import { bloodUnitUpdateSchema } from "@/lib/schemas/bloodUnitSchema";
+import { handleError } from "@/lib/errorHandler";
+import {
+  organizationScope,
+  requireOrganizationPermission,
+} from "@/lib/organizations/tenancy";
+import { canTransitionUnit } from "@/lib/inventory/lifecycle";
+import { ACTIVE_TRANSFER_STATUSES } from "@/lib/transfers/lifecycle";
+import { screeningStatus } from "@/lib/donations/ledger";
+import { hasCompatibleCrossMatch } from "@/lib/crossMatch/results";
+import { donationsUnderLookback } from "@/lib/haemovigilance/lookback";
+import { unitsAwaitingExcursionReview } from "@/lib/coldChain/excursions";
+import { isEquipmentOf } from "@/lib/coldChain/equipment";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+function notFound() {
+  return errorResponse("Blood unit not found", {
+    status: 404,
+    code: ERROR_CODES.BLOOD_UNIT_NOT_FOUND,
+  });
+}
+
+// GET /api/blood-units/:id → get a single unit with its reservation and
+// the whole-blood unit it was separated from or the components made from it
+// RBAC: Requires 'read' permission on 'bloodUnits' resource
+export const GET = requireOrganizationPermission(
+  "read",
+  "bloodUnits"
+)(async (_req: NextRequest, tenant, ...args: unknown[]) => {
+  const { id } = await (args[0] as RouteContext).params;
+  try {
+    const unit = await prisma.bloodUnit.findFirst({
+      where: { id: Number(id), ...organizationScope(tenant) },
+      include: {
+        reservedFor: {
+          select: { id: true, patientName: true, status: true },
+        },
+        parentUnit: {
+          select: { id: true, component: true, status: true },
+        },
+        childUnits: {
+          orderBy: { id: "asc" },
+          select: { id: true, component: true, status: true, expiresAt: true },
+        },
+      },
+    });
+
+    if (!unit) return notFound();
+
+    return successResponse("Blood unit retrieved successfully", unit);
+  } catch (error: unknown) {
+    return handleError(error, "GET /api/blood-units/[id]", {
+      status: 500,
+      code: ERROR_CODES.BLOOD_UNITS_FETCH_FAILED,
+    });
+  }
+});
+
+// PATCH /api/blood-units/:id → move storage or change status
+// e.g. { "status": "AVAILABLE" } once screening clears a quarantined unit,
+//      { "storageLocation": "Fridge 3", "storageEquipmentId": 4 },
+//      { "status": "ISSUED" } for a reserved unit handed to the ward once it
+//        has a compatible cross-match with the patient,
+//      { "status": "DISCARDED", "discardReason": "Bag leak" }
+// RBAC: Requires 'update' permission on 'bloodUnits' resource
+export const PATCH = requireOrganizationPermission(
+  "update",
+  "bloodUnits"
+)(async (req: NextRequest, tenant, ...args: unknown[]) => {
+  const { id } = await (args[0] as RouteContext).params;
+  try {
+    const body = await req.json();
+    const parsed = bloodUnitUpdateSchema.safeParse(body);
+    if (!parsed.success) {
+      return errorResponse("Validation Error", {
+        status: 400,
+        code: ERROR_CODES.VALIDATION_ERROR,
+        details: parsed.error.issues.map((issue) => ({
+          field: issue.path.join("."),
+          message: issue.message,
+        })),
+      });
+    }
+
+    const existing = await prisma.bloodUnit.findFirst({
+      where: { id: Number(id), ...organizationScope(tenant) },
+      include: {
+        donation: true,
+        transferItems: {
+          where: {
+            transferOrder: { status: { in: ACTIVE_TRANSFER_STATUSES } },
+          },
+          select: { transferOrderId: true },
+        },
+      },
+    });
+
+    if (!existing) return notFound();
+
+    if (
+      parsed.data.storageEquipmentId &&
+      !(await isEquipmentOf(
+        parsed.data.storageEquipmentId,
+        existing.organizationId
+      ))
+    ) {
+      return errorResponse("Storage equipment not found", {
+        status: 404,
+        code: ERROR_CODES.STORAGE_EQUIPMENT_NOT_FOUND,
+      });
+    }
+
+    const { status, ...rest } = parsed.data;
+    const data: Prisma.BloodUnitUncheckedUpdateManyInput = { ...rest };
+    const now = new Date();
+
+    if (status && status !== existing.status) {
+      if (!canTransitionUnit(existing.status, status)) {
+        return errorResponse(
+          `Cannot move a ${existing.status} unit to ${status}`,
+          { status: 409, code: ERROR_CODES.INVALID_STATUS_TRANSITION }
+        );
+      }
+      // Units picked for a transfer order follow the order; they can only
+      // be discarded by hand (e.g. a bag damaged in transit)
+      if (existing.transferItems.length > 0 && status !== "DISCARDED") {
+        return errorResponse(
+          `Unit is held for transfer order ${existing.transferItems[0].transferOrderId}`,
+          { status: 409, code: ERROR_CODES.UNIT_IN_TRANSFER }
+        );
+      }
+      if (status === "AVAILABLE" && existing.expiresAt <= now) {
+        return errorResponse("Unit has expired", {
+          status: 409,
+          code: ERROR_CODES.INVALID_STATUS_TRANSITION,
+        });
+      }
+
+      if (
+        status === "ISSUED" &&
+        (!existing.reservedForId ||
+          !(await hasCompatibleCrossMatch(
+            existing.id,
+            existing.reservedForId,
+            now
+          )))
+      ) {
+        return errorResponse(
+          "Unit has no compatible cross-match with the patient",
+          { status: 409, code: ERROR_CODES.CROSS_MATCH_REQUIRED }
+        );
+      }
+
+      // Units from a recorded donation leave quarantine only once every
+      // screening marker is non-reactive
+      if (
+        status === "AVAILABLE" &&
+        existing.status === "QUARANTINE" &&
+        existing.donation &&
+        screeningStatus(existing.donation) !== "CLEARED"
+      ) {
+        return errorResponse("Donation screening has not cleared", {
+          status: 409,
+          code: ERROR_CODES.SCREENING_NOT_CLEARED,
+        });
+      }
+
+      // Units of a donation behind a transfusion reaction stay quarantined
+      // until the look-back on it closes
+      if (
+        status === "AVAILABLE" &&
+        existing.status === "QUARANTINE" &&
+        (await donationsUnderLookback([existing.donationNumber])).size > 0
+      ) {
+        return errorResponse("Donation is under a look-back investigation", {
+          status: 409,
+          code: ERROR_CODES.LOOKBACK_OPEN,
+        });
+      }
+
+      // Units flagged by a temperature excursion stay quarantined until
+      // the excursion's review decides them
+      if (
+        status === "AVAILABLE" &&
+        existing.status === "QUARANTINE" &&
+        (await unitsAwaitingExcursionReview([existing.id])).size > 0
+      ) {
+        return errorResponse(
+          "Unit is awaiting a temperature excursion review",
+          {
+            status: 409,
+            code: ERROR_CODES.EXCURSION_REVIEW_PENDING,
+          }
+        );
+      }
+
+      data.status = status;
+      if (status === "AVAILABLE") {
+        // Releasing a reservation returns the unit to general stock
+        data.reservedForId = null;
+        data.reservedAt = null;
+      }
+      if (status === "ISSUED") data.issuedAt = now;
+      if (status === "DISCARDED") data.discardedAt = now;
+    }
+
+    // Conditional on the status and reservation read above so a concurrent
+    // allocation or expiry sweep is not silently overwritten, and a unit
+    // re-reserved meanwhile is not issued on another patient's cross-match
+    const { count } = await prisma.bloodUnit.updateMany({
+      where: {
+        id: existing.id,
+        status: existing.status,
+        reservedForId: existing.reservedForId,
+      },
+      data,
+    });
+
+    if (count === 0) {
+      return errorResponse("Unit was modified concurrently, retry", {
+        status: 409,
+        code: ERROR_CODES.INVALID_STATUS_TRANSITION,
+      });
+    }
+
+    const unit = await prisma.bloodUnit.findUnique({
+      where: { id: existing.id },
+    });
+
+    return successResponse("Blood unit updated successfully", unit);
+  } catch (error: unknown) {
+    return handleError(error, "PATCH /api/blood-units/[id]", {
+      status: 500,
+      code: ERROR_CODES.BLOOD_UNIT_UPDATE_FAILED,
+    });
+  }
+});
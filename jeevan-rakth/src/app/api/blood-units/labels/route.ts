@@ -0,0 +1,72 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { ERROR_CODES, errorResponse } from "@/lib/responseHandler";
+import { handleError } from "@/lib/errorHandler";
+import {
+  organizationScope,
+  requireOrganizationPermission,
+} from "@/lib/organizations/tenancy";
+import { pdfResponse } from "@/lib/certificates/pdf";
+import { renderUnitLabels } from "@/lib/isbt128/labels";
+
+const MAX_LABELS = 40;
+
+// GET /api/blood-units/labels?ids=12,13,14 → printable ISBT 128 label sheet
+// Labels print in the order the ids are given, four to an A4 page.
+// RBAC: Requires 'read' permission on 'bloodUnits' resource
+export const GET = requireOrganizationPermission(
+  "read",
+  "bloodUnits"
+)(async (req: NextRequest, tenant) => {
+  try {
+    const { searchParams } = new URL(req.url);
+    const ids = [
+      ...new Set(
+        (searchParams.get("ids") ?? "")
+          .split(",")
+          .map((id) => Number(id.trim()))
+          .filter((id) => Number.isInteger(id) && id > 0)
+      ),
+    ];
+
+    if (ids.length === 0 || ids.length > MAX_LABELS) {
+      return errorResponse("Validation Error", {
+        status: 400,
+        code: ERROR_CODES.VALIDATION_ERROR,
+        details: [
+          {
+            field: "ids",
+            message: `Between 1 and ${MAX_LABELS} unit ids are required`,
+          },
+        ],
+      });
+    }
+
+    const units = await prisma.bloodUnit.findMany({
+      where: { id: { in: ids }, ...organizationScope(tenant) },
+      include: { organization: { select: { name: true } } },
+    });
+
+    if (units.length !== ids.length) {
+      return errorResponse("Blood unit not found", {
+        status: 404,
+        code: ERROR_CODES.BLOOD_UNIT_NOT_FOUND,
+      });
+    }
+
+    const byId = new Map(units.map((unit) => [unit.id, unit]));
+    const pdf = await renderUnitLabels(
+      ids.map((id) => {
+        const unit = byId.get(id)!;
+        return { ...unit, organizationName: unit.organization.name };
+      })
+    );
+
+    return pdfResponse(pdf, "unit-labels.pdf");
+  } catch (error: unknown) {
+    return handleError(error, "GET /api/blood-units/labels", {
+      status: 500,
+      code: ERROR_CODES.LABEL_RENDER_FAILED,
+    });
+  }
+});
@@ -0,0 +1,199 @@
+import { Prisma } from "@prisma/client";
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+  ERROR_CODES,
+  errorResponse,
+  successResponse,
+} from "@/lib/responseHandler";
+import {
+  bloodUnitCreateSchema,
+  bloodUnitStatusSchema,
+} from "@/lib/schemas/bloodUnitSchema";
+import {
+  bloodComponentSchema,
+  bloodGroupSchema,
+} from "@/lib/schemas/donorProfileSchema";
+import { handleError } from "@/lib/errorHandler";
+import {
+  canAccessOrganization,
+  organizationScope,
+  requireOrganizationPermission,
+  resolveTargetOrganization,
+} from "@/lib/organizations/tenancy";
+import { computeUnitExpiry } from "@/lib/inventory/lifecycle";
+import { nextDonationNumber } from "@/lib/isbt128/donationNumbers";
+import { isEquipmentOf } from "@/lib/coldChain/equipment";
+
+const MAX_PAGE_SIZE = 100;
+
+// GET /api/blood-units?status=AVAILABLE&component=RED_CELLS&bloodGroup=O-&page=1&limit=20
+// Units of the caller's organizations are listed soonest-expiring first.
+// RBAC: Requires 'read' permission on 'bloodUnits' resource
+export const GET = requireOrganizationPermission(
+  "read",
+  "bloodUnits"
+)(async (req: NextRequest, tenant) => {
+  try {
+    const { searchParams } = new URL(req.url);
+    const page = Math.max(Number(searchParams.get("page")) || 1, 1);
+    const limit = Math.min(
+      Math.max(Number(searchParams.get("limit")) || 20, 1),
+      MAX_PAGE_SIZE
+    );
+
+    const status = bloodUnitStatusSchema.safeParse(
+      searchParams.get("status") ?? undefined
+    );
+    const component = bloodComponentSchema.safeParse(
+      searchParams.get("component") ?? undefined
+    );
+    const bloodGroup = bloodGroupSchema.safeParse(
+      searchParams.get("bloodGroup") ?? undefined
+    );
+
+    const where: Prisma.BloodUnitWhereInput = {
+      ...(status.success ? { status: status.data } : {}),
+      ...(component.success ? { component: component.data } : {}),
+      ...(bloodGroup.success ? { bloodGroup: bloodGroup.data } : {}),
+      ...organizationScope(tenant),
+    };
+
+    const [units, total] = await prisma.$transaction([
+      prisma.bloodUnit.findMany({
+        where,
+        skip: (page - 1) * limit,
+        take: limit,
+        orderBy: [{ expiresAt: "asc" }, { id: "asc" }],
+      }),
+      prisma.bloodUnit.count({ where }),
+    ]);
+
+    return successResponse(
+      "Blood units fetched successfully",
+      { units },
+      { meta: { page, limit, total } }
+    );
+  } catch (error: unknown) {
+    return handleError(error, "GET /api/blood-units", {
+      status: 500,
+      code: ERROR_CODES.BLOOD_UNITS_FETCH_FAILED,
+    });
+  }
+});
+
+// POST /api/blood-units → register a collected unit (status QUARANTINE)
+// Without a donationNumber the organization's next ISBT 128 DIN is assigned.
+// RBAC: Requires 'create' permission on 'bloodUnits' resource
+export const POST = requireOrganizationPermission(
+  "create",
+  "bloodUnits"
+)(async (req: NextRequest, tenant) => {
+  try {
+    const body = await req.json();
+    const parsed = bloodUnitCreateSchema.safeParse(body);
+    if (!parsed.success) {
+      return errorResponse("Validation Error", {
+        status: 400,
+        code: ERROR_CODES.VALIDATION_ERROR,
+        details: parsed.error.issues.map((issue) => ({
+          field: issue.path.join("."),
+          message: issue.message,
+        })),
+      });
+    }
+
+    const { expiresAt, ...data } = parsed.data;
+    const organizationId = resolveTargetOrganization(
+      tenant,
+      data.organizationId
+    );
+
+    if (!canAccessOrganization(tenant, organizationId)) {
+      return errorResponse("Access denied: not a member of organization", {
+        status: 403,
+        code: ERROR_CODES.ACCESS_DENIED,
+      });
+    }
+
+    if (
+      data.storageEquipmentId &&
+      !(await isEquipmentOf(data.storageEquipmentId, organizationId))
+    ) {
+      return errorResponse("Storage equipment not found", {
+        status: 404,
+        code: ERROR_CODES.STORAGE_EQUIPMENT_NOT_FOUND,
+      });
+    }
+
+    const unit = await prisma.$transaction(
+      async (tx: Prisma.TransactionClient) =>
+        tx.bloodUnit.create({
+          data: {
+            ...data,
+            donationNumber:
+              data.donationNumber ??
+              (await nextDonationNumber(tx, organizationId)),
+            organizationId,
+            expiresAt:
+              expiresAt ?? computeUnitExpiry(data.component, data.collectedAt),
+          },
+        })
+    );
+
+    return successResponse("Blood unit registered successfully", unit, {
+      status: 201,
+    });
+  } catch (error: unknown) {
+    if (error instanceof Error && error.message === "ORGANIZATION_REQUIRED") {
+      return errorResponse("organizationId is required", {
+        status: 400,
+        code: ERROR_CODES.VALIDATION_ERROR,
+      });
+    }
+    if (error instanceof Error && error.message === "ORGANIZATION_NOT_FOUND") {
+      return errorResponse("Organization not found", {
+        status: 404,
+        code: ERROR_CODES.ORGANIZATION_NOT_FOUND,
+      });
+    }
+    if (error instanceof Error && error.message === "FACILITY_CODE_REQUIRED") {
+      return errorResponse(
+        "Set the organization's ISBT 128 facility code or pass a donationNumber",
+        { status: 409, code: ERROR_CODES.FACILITY_CODE_REQUIRED }
+      );
+    }
+    if (
+      error instanceof Error &&
+      error.message === "DONATION_NUMBERS_EXHAUSTED"
+    ) {
+      return errorResponse("No donation numbers left for this year", {
+        status: 409,
+        code: ERROR_CODES.DONATION_NUMBERS_EXHAUSTED,
+      });
+    }
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2003"
+    ) {
+      return errorResponse("Organization not found", {
+        status: 404,
+        code: ERROR_CODES.ORGANIZATION_NOT_FOUND,
+      });
+    }
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2002"
+    ) {
+      return errorResponse(
+        "A unit with this donation number and component already exists",
+        { status: 409, code: ERROR_CODES.DONATION_NUMBER_CONFLICT }
+      );
+    }
+
+    return handleError(error, "POST /api/blood-units", {
+      status: 500,
+      code: ERROR_CODES.BLOOD_UNIT_UPDATE_FAILED,
+    });
+  }
+});
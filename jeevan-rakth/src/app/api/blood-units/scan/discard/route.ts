@@ -0,0 +1,85 @@
+import { NextRequest } from "next/server";
+import {
+  ERROR_CODES,
+  errorResponse,
+  successResponse,
+} from "@/lib/responseHandler";
+import { unitDiscardScanSchema } from "@/lib/schemas/unitScanSchema";
+import { handleError } from "@/lib/errorHandler";
+import {
+  organizationScope,
+  requireOrganizationPermission,
+} from "@/lib/organizations/tenancy";
+import { applyScannedStatus, matchScannedLabel } from "@/lib/inventory/scan";
+
+// POST /api/blood-units/scan/discard → discard a unit still in stock
+// e.g. { "unitNumber": "=A99992612345689", "productCode": "=<E0224V00",
+//        "expiry": "&>0263302359", "reason": "Bag leak" }
+// The expiry and (when scanned) blood group must match the unit's record.
+// RBAC: Requires 'update' permission on 'bloodUnits' resource
+export const POST = requireOrganizationPermission(
+  "update",
+  "bloodUnits"
+)(async (req: NextRequest, tenant) => {
+  try {
+    const body = await req.json();
+    const parsed = unitDiscardScanSchema.safeParse(body);
+    if (!parsed.success) {
+      return errorResponse("Validation Error", {
+        status: 400,
+        code: ERROR_CODES.VALIDATION_ERROR,
+        details: parsed.error.issues.map((issue) => ({
+          field: issue.path.join("."),
+          message: issue.message,
+        })),
+      });
+    }
+
+    const match = await matchScannedLabel(
+      parsed.data,
+      organizationScope(tenant)
+    );
+    if (!match) {
+      return errorResponse("Blood unit not found", {
+        status: 404,
+        code: ERROR_CODES.BLOOD_UNIT_NOT_FOUND,
+      });
+    }
+    if (!match.unit || match.mismatches.length > 0) {
+      return errorResponse("Label does not match the unit record", {
+        status: 409,
+        code: ERROR_CODES.LABEL_MISMATCH,
+        details: match.mismatches,
+      });
+    }
+
+    const unit = await applyScannedStatus(
+      match.unit,
+      "DISCARDED",
+      parsed.data.reason
+    );
+
+    return successResponse("Blood unit discarded successfully", unit);
+  } catch (error: unknown) {
+    if (
+      error instanceof Error &&
+      error.message === "INVALID_STATUS_TRANSITION"
+    ) {
+      return errorResponse("Unit is no longer in stock", {
+        status: 409,
+        code: ERROR_CODES.INVALID_STATUS_TRANSITION,
+      });
+    }
+    if (error instanceof Error && error.message === "CONCURRENT_MODIFICATION") {
+      return errorResponse("Unit was modified concurrently, retry", {
+        status: 409,
+        code: ERROR_CODES.INVALID_STATUS_TRANSITION,
+      });
+    }
+
+    return handleError(error, "POST /api/blood-units/scan/discard", {
+      status: 500,
+      code: ERROR_CODES.BLOOD_UNIT_UPDATE_FAILED,
+    });
+  }
+});
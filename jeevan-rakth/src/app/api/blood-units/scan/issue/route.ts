@@ -0,0 +1,100 @@
+import { NextRequest } from "next/server";
+import {
+  ERROR_CODES,
+  errorResponse,
+  successResponse,
+} from "@/lib/responseHandler";
+import { unitIssueScanSchema } from "@/lib/schemas/unitScanSchema";
+import { handleError } from "@/lib/errorHandler";
+import {
+  organizationScope,
+  requireOrganizationPermission,
+} from "@/lib/organizations/tenancy";
+import { applyScannedStatus, matchScannedLabel } from "@/lib/inventory/scan";
+
+// POST /api/blood-units/scan/issue → hand a reserved unit to the ward
+// e.g. { "unitNumber": "=A99992612345689", "productCode": "=<E0224V00",
+//        "expiry": "&>0263302359", "bloodGroup": "=%5100" }
+// The expiry and (when scanned) blood group must match the unit's record,
+// and the unit needs a compatible cross-match with the patient.
+// RBAC: Requires 'update' permission on 'bloodUnits' resource
+export const POST = requireOrganizationPermission(
+  "update",
+  "bloodUnits"
+)(async (req: NextRequest, tenant) => {
+  try {
+    const body = await req.json();
+    const parsed = unitIssueScanSchema.safeParse(body);
+    if (!parsed.success) {
+      return errorResponse("Validation Error", {
+        status: 400,
+        code: ERROR_CODES.VALIDATION_ERROR,
+        details: parsed.error.issues.map((issue) => ({
+          field: issue.path.join("."),
+          message: issue.message,
+        })),
+      });
+    }
+
+    const match = await matchScannedLabel(
+      parsed.data,
+      organizationScope(tenant)
+    );
+    if (!match) {
+      return errorResponse("Blood unit not found", {
+        status: 404,
+        code: ERROR_CODES.BLOOD_UNIT_NOT_FOUND,
+      });
+    }
+    if (!match.unit || match.mismatches.length > 0) {
+      return errorResponse("Label does not match the unit record", {
+        status: 409,
+        code: ERROR_CODES.LABEL_MISMATCH,
+        details: match.mismatches,
+      });
+    }
+
+    const unit = await applyScannedStatus(match.unit, "ISSUED");
+
+    return successResponse("Blood unit issued successfully", unit);
+  } catch (error: unknown) {
+    if (
+      error instanceof Error &&
+      error.message === "INVALID_STATUS_TRANSITION"
+    ) {
+      return errorResponse("Only reserved units can be issued", {
+        status: 409,
+        code: ERROR_CODES.INVALID_STATUS_TRANSITION,
+      });
+    }
+    if (error instanceof Error && error.message === "UNIT_EXPIRED") {
+      return errorResponse("Unit has expired", {
+        status: 409,
+        code: ERROR_CODES.INVALID_STATUS_TRANSITION,
+      });
+    }
+    if (error instanceof Error && error.message === "UNIT_IN_TRANSFER") {
+      return errorResponse("Unit is held for a transfer order", {
+        status: 409,
+        code: ERROR_CODES.UNIT_IN_TRANSFER,
+      });
+    }
+    if (error instanceof Error && error.message === "CROSS_MATCH_REQUIRED") {
+      return errorResponse(
+        "Unit has no compatible cross-match with the patient",
+        { status: 409, code: ERROR_CODES.CROSS_MATCH_REQUIRED }
+      );
+    }
+    if (error instanceof Error && error.message === "CONCURRENT_MODIFICATION") {
+      return errorResponse("Unit was modified concurrently, retry", {
+        status: 409,
+        code: ERROR_CODES.INVALID_STATUS_TRANSITION,
+      });
+    }
+
+    return handleError(error, "POST /api/blood-units/scan/issue", {
+      status: 500,
+      code: ERROR_CODES.BLOOD_UNIT_UPDATE_FAILED,
+    });
+  }
+});
@@ -0,0 +1,121 @@
+import { Prisma } from "@prisma/client";
+import { NextRequest } from "next/server";
+import {
+  ERROR_CODES,
+  errorResponse,
+  successResponse,
+} from "@/lib/responseHandler";
+import { unitReceiveScanSchema } from "@/lib/schemas/unitScanSchema";
+import { handleError } from "@/lib/errorHandler";
+import {
+  canAccessOrganization,
+  requireOrganizationPermission,
+  resolveTargetOrganization,
+} from "@/lib/organizations/tenancy";
+import { receiveScannedUnit } from "@/lib/inventory/scan";
+
+// POST /api/blood-units/scan/receive → register a unit from its label
+// e.g. { "unitNumber": "=A99992612345689", "productCode": "=<E0224V00",
+//        "bloodGroup": "=%5100", "expiry": "&>0263302359",
+//        "storageLocation": "Fridge 2" }
+// `collectedAt` is only needed for units not collected here.
+// RBAC: Requires 'create' permission on 'bloodUnits' resource
+export const POST = requireOrganizationPermission(
+  "create",
+  "bloodUnits"
+)(async (req: NextRequest, tenant) => {
+  try {
+    const body = await req.json();
+    const parsed = unitReceiveScanSchema.safeParse(body);
+    if (!parsed.success) {
+      return errorResponse("Validation Error", {
+        status: 400,
+        code: ERROR_CODES.VALIDATION_ERROR,
+        details: parsed.error.issues.map((issue) => ({
+          field: issue.path.join("."),
+          message: issue.message,
+        })),
+      });
+    }
+
+    const organizationId = resolveTargetOrganization(
+      tenant,
+      parsed.data.organizationId
+    );
+    if (!canAccessOrganization(tenant, organizationId)) {
+      return errorResponse("Access denied: not a member of organization", {
+        status: 403,
+        code: ERROR_CODES.ACCESS_DENIED,
+      });
+    }
+
+    const unit = await receiveScannedUnit({ ...parsed.data, organizationId });
+
+    return successResponse("Blood unit received successfully", unit, {
+      status: 201,
+    });
+  } catch (error: unknown) {
+    if (error instanceof Error && error.message === "ORGANIZATION_REQUIRED") {
+      return errorResponse("organizationId is required", {
+        status: 400,
+        code: ERROR_CODES.VALIDATION_ERROR,
+      });
+    }
+    if (error instanceof Error && error.message === "UNIT_EXPIRED") {
+      return errorResponse("Unit has expired", {
+        status: 409,
+        code: ERROR_CODES.INVALID_STATUS_TRANSITION,
+      });
+    }
+    if (error instanceof Error && error.message === "LABEL_MISMATCH") {
+      return errorResponse("Label does not match the donation record", {
+        status: 409,
+        code: ERROR_CODES.LABEL_MISMATCH,
+        details: [
+          {
+            field: "bloodGroup",
+            message: "Does not match the donor's recorded blood group",
+          },
+        ],
+      });
+    }
+    if (
+      error instanceof Error &&
+      error.message === "COLLECTION_DATE_REQUIRED"
+    ) {
+      return errorResponse("Validation Error", {
+        status: 400,
+        code: ERROR_CODES.VALIDATION_ERROR,
+        details: [
+          {
+            field: "collectedAt",
+            message: "Required for units not collected here",
+          },
+        ],
+      });
+    }
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2003"
+    ) {
+      return errorResponse("Organization not found", {
+        status: 404,
+        code: ERROR_CODES.ORGANIZATION_NOT_FOUND,
+      });
+    }
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2002"
+    ) {
+      return errorResponse(
+        "A unit with this donation number and component already exists",
+        { status: 409, code: ERROR_CODES.DONATION_NUMBER_CONFLICT }
+      );
+    }
+
+    return handleError(error, "POST /api/blood-units/scan/receive", {
+      status: 500,
+      code: ERROR_CODES.BLOOD_UNIT_UPDATE_FAILED,
+    });
+  }
+});
@@ -0,0 +1,68 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+  ERROR_CODES,
+  errorResponse,
+  successResponse,
+} from "@/lib/responseHandler";
+import { handleError } from "@/lib/errorHandler";
+import {
+  organizationScope,
+  requireOrganizationPermission,
+} from "@/lib/organizations/tenancy";
+
+type RouteContext = { params: Promise<{ id: string; appointmentId: string }> };
+
+// POST /api/camps/:id/appointments/:appointmentId/check-in → mark a booked
+// donor as arrived. Waitlisted or cancelled appointments cannot be checked in.
+// RBAC: Requires 'update' permission on 'camps' (organizers only)
+export const POST = requireOrganizationPermission(
+  "update",
+  "camps"
+)(async (_req: NextRequest, tenant, ...args: unknown[]) => {
+  const { id, appointmentId } = await (args[0] as RouteContext).params;
+  try {
+    const where = {
+      id: Number(appointmentId),
+      camp: { id: Number(id), ...organizationScope(tenant) },
+    };
+
+    // Conditional so a donor cancelling at the same moment is not checked in
+    const { count } = await prisma.campAppointment.updateMany({
+      where: { ...where, status: "BOOKED" },
+      data: { status: "CHECKED_IN", checkedInAt: new Date() },
+    });
+
+    if (count === 0) {
+      const existing = await prisma.campAppointment.findFirst({ where });
+      if (!existing) {
+        return errorResponse("Appointment not found", {
+          status: 404,
+          code: ERROR_CODES.APPOINTMENT_NOT_FOUND,
+        });
+      }
+      if (existing.status === "CHECKED_IN") {
+        return errorResponse("Donor has already been checked in", {
+          status: 409,
+          code: ERROR_CODES.ALREADY_CHECKED_IN,
+        });
+      }
+      return errorResponse("Only booked appointments can be checked in", {
+        status: 409,
+        code: ERROR_CODES.INVALID_STATUS_TRANSITION,
+      });
+    }
+
+    const appointment = await prisma.campAppointment.findUniqueOrThrow({
+      where: { id: Number(appointmentId) },
+    });
+
+    return successResponse("Donor checked in", appointment);
+  } catch (error: unknown) {
+    return handleError(
+      error,
+      "POST /api/camps/[id]/appointments/[appointmentId]/check-in",
+      { status: 500, code: ERROR_CODES.APPOINTMENT_UPDATE_FAILED }
+    );
+  }
+});
@@ -0,0 +1,104 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+  ERROR_CODES,
+  errorResponse,
+  successResponse,
+} from "@/lib/responseHandler";
+import { appointmentBookSchema } from "@/lib/schemas/campSchema";
+import { handleError } from "@/lib/errorHandler";
+import { getUserId } from "@/lib/rbac";
+import { bookCampSlot } from "@/lib/camps/appointments";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// POST /api/camps/:id/appointments → the signed-in donor books a slot
+// Body: { slotId, waitlist? } - with waitlist: true a full slot puts the
+// donor on its waitlist instead of failing.
+export async function POST(req: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  try {
+    const userId = Number(getUserId(req));
+    if (!userId) {
+      return errorResponse("Not authenticated", {
+        status: 401,
+        code: ERROR_CODES.NOT_AUTHENTICATED,
+      });
+    }
+
+    const body = await req.json();
+    const parsed = appointmentBookSchema.safeParse(body);
+    if (!parsed.success) {
+      return errorResponse("Validation Error", {
+        status: 400,
+        code: ERROR_CODES.VALIDATION_ERROR,
+        details: parsed.error.issues.map((issue) => ({
+          field: issue.path.join("."),
+          message: issue.message,
+        })),
+      });
+    }
+
+    const profile = await prisma.donorProfile.findUnique({
+      where: { userId },
+      select: { id: true },
+    });
+    if (!profile) {
+      return errorResponse("Create a donor profile before booking", {
+        status: 404,
+        code: ERROR_CODES.DONOR_PROFILE_NOT_FOUND,
+      });
+    }
+
+    const appointment = await bookCampSlot({
+      campId: Number(id),
+      slotId: parsed.data.slotId,
+      donorProfileId: profile.id,
+      waitlist: parsed.data.waitlist,
+    });
+
+    return successResponse(
+      appointment.status === "BOOKED"
+        ? "Slot booked successfully"
+        : "Slot is full; you are on the waitlist",
+      appointment,
+      { status: 201 }
+    );
+  } catch (error: unknown) {
+    if (error instanceof Error && error.message === "SLOT_NOT_FOUND") {
+      return errorResponse("Slot not found", {
+        status: 404,
+        code: ERROR_CODES.SLOT_NOT_FOUND,
+      });
+    }
+    if (error instanceof Error && error.message === "SLOT_UNAVAILABLE") {
+      return errorResponse("This slot is no longer open for booking", {
+        status: 409,
+        code: ERROR_CODES.SLOT_UNAVAILABLE,
+      });
+    }
+    if (error instanceof Error && error.message === "ALREADY_BOOKED") {
+      return errorResponse(
+        "You already have an appointment at this camp; reschedule it instead",
+        { status: 409, code: ERROR_CODES.ALREADY_BOOKED }
+      );
+    }
+    if (error instanceof Error && error.message === "DONOR_NOT_ELIGIBLE") {
+      return errorResponse("You are not eligible to donate on this date", {
+        status: 409,
+        code: ERROR_CODES.DONOR_NOT_ELIGIBLE,
+      });
+    }
+    if (error instanceof Error && error.message === "SLOT_FULL") {
+      return errorResponse("This slot is full", {
+        status: 409,
+        code: ERROR_CODES.SLOT_FULL,
+      });
+    }
+
+    return handleError(error, "POST /api/camps/[id]/appointments", {
+      status: 500,
+      code: ERROR_CODES.APPOINTMENT_UPDATE_FAILED,
+    });
+  }
+}
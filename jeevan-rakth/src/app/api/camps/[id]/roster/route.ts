@@ -0,0 +1,117 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+  ERROR_CODES,
+  errorResponse,
+  successResponse,
+} from "@/lib/responseHandler";
+import { handleError } from "@/lib/errorHandler";
+import {
+  organizationScope,
+  requireOrganizationPermission,
+} from "@/lib/organizations/tenancy";
+import { localDate } from "@/lib/camps/slots";
+import { maskContact } from "@/lib/donors/contact";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// GET /api/camps/:id/roster?date=YYYY-MM-DD → check-in roster for one day
+// of the camp (in the camp's timezone; defaults to today, or the first day
+// if the camp has not started). Booked and arrived donors are listed per
+// slot with the slot's waitlist length.
+// RBAC: Requires 'update' permission on 'camps' (organizers only)
+export const GET = requireOrganizationPermission(
+  "update",
+  "camps"
+)(async (req: NextRequest, tenant, ...args: unknown[]) => {
+  const { id } = await (args[0] as RouteContext).params;
+  try {
+    const { searchParams } = new URL(req.url);
+    const requested = searchParams.get("date");
+    if (requested !== null && !DATE_PATTERN.test(requested)) {
+      return errorResponse("Validation Error", {
+        status: 400,
+        code: ERROR_CODES.VALIDATION_ERROR,
+        details: [{ field: "date", message: "date must be YYYY-MM-DD" }],
+      });
+    }
+
+    const camp = await prisma.donationCamp.findFirst({
+      where: { id: Number(id), ...organizationScope(tenant) },
+      include: {
+        slots: {
+          orderBy: { startsAt: "asc" },
+          include: {
+            appointments: {
+              where: { status: { in: ["BOOKED", "CHECKED_IN", "WAITLISTED"] } },
+              orderBy: { createdAt: "asc" },
+              include: {
+                donorProfile: {
+                  select: {
+                    id: true,
+                    bloodGroup: true,
+                    phone: true,
+                    user: { select: { id: true, name: true } },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    });
+    if (!camp) {
+      return errorResponse("Camp not found", {
+        status: 404,
+        code: ERROR_CODES.CAMP_NOT_FOUND,
+      });
+    }
+
+    const days = [
+      ...new Set(camp.slots.map((s) => localDate(s.startsAt, camp.timezone))),
+    ];
+    const today = localDate(new Date(), camp.timezone);
+    const date =
+      requested ?? (days.includes(today) ? today : (days[0] ?? today));
+
+    const slots = camp.slots
+      .filter((slot) => localDate(slot.startsAt, camp.timezone) === date)
+      .map(({ appointments, ...slot }) => ({
+        ...slot,
+        // Enough of the phone to confirm identity at the desk
+        appointments: appointments
+          .filter((a) => a.status !== "WAITLISTED")
+          .map((a) => ({ ...a, donorProfile: maskContact(a.donorProfile) })),
+        waitlisted: appointments.filter((a) => a.status === "WAITLISTED")
+          .length,
+      }));
+
+    const expected = slots.reduce((n, s) => n + s.appointments.length, 0);
+    const arrived = slots.reduce(
+      (n, s) => n + s.appointments.filter((a) => a.checkedInAt).length,
+      0
+    );
+
+    return successResponse(
+      "Camp roster fetched successfully",
+      { slots },
+      {
+        meta: {
+          campId: camp.id,
+          date,
+          days,
+          timezone: camp.timezone,
+          expected,
+          arrived,
+        },
+      }
+    );
+  } catch (error: unknown) {
+    return handleError(error, "GET /api/camps/[id]/roster", {
+      status: 500,
+      code: ERROR_CODES.CAMPS_FETCH_FAILED,
+    });
+  }
+});
@@ -0,0 +1,170 @@
+import type { Prisma } from "@prisma/client";
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+  ERROR_CODES,
+  errorResponse,
+  successResponse,
+} from "@/lib/responseHandler";
+import { campUpdateSchema } from "@/lib/schemas/campSchema";
+import { handleError } from "@/lib/errorHandler";
+import {
+  organizationScope,
+  requireOrganizationPermission,
+} from "@/lib/organizations/tenancy";
+import { campVisibilityScope } from "@/lib/camps/access";
+import { cancelCampAppointments } from "@/lib/camps/appointments";
+import { notify } from "@/lib/notifications";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+function notFound() {
+  return errorResponse("Camp not found", {
+    status: 404,
+    code: ERROR_CODES.CAMP_NOT_FOUND,
+  });
+}
+
+// GET /api/camps/:id → camp details with every slot's seats and waitlist
+// RBAC: Requires 'read' permission on 'camps' resource
+export const GET = requireOrganizationPermission(
+  "read",
+  "camps"
+)(async (_req: NextRequest, tenant, ...args: unknown[]) => {
+  const { id } = await (args[0] as RouteContext).params;
+  try {
+    const camp = await prisma.donationCamp.findFirst({
+      where: { id: Number(id), ...campVisibilityScope(tenant) },
+      include: {
+        organization: { select: { id: true, name: true, type: true } },
+        slots: {
+          orderBy: { startsAt: "asc" },
+          include: {
+            _count: {
+              select: { appointments: { where: { status: "WAITLISTED" } } },
+            },
+          },
+        },
+      },
+    });
+    if (!camp) return notFound();
+
+    const slots = camp.slots.map(({ _count, ...slot }) => ({
+      ...slot,
+      available: Math.max(slot.capacity - slot.booked, 0),
+      waitlisted: _count.appointments,
+    }));
+
+    return successResponse("Camp retrieved successfully", {
+      ...camp,
+      slots,
+    });
+  } catch (error: unknown) {
+    return handleError(error, "GET /api/camps/[id]", {
+      status: 500,
+      code: ERROR_CODES.CAMPS_FETCH_FAILED,
+    });
+  }
+});
+
+// PATCH /api/camps/:id → edit camp details, or set status to CANCELLED /
+// COMPLETED. Cancelling frees every booking and tells the donors affected.
+// RBAC: Requires 'update' permission on 'camps' resource
+export const PATCH = requireOrganizationPermission(
+  "update",
+  "camps"
+)(async (req: NextRequest, tenant, ...args: unknown[]) => {
+  const { id } = await (args[0] as RouteContext).params;
+  try {
+    const body = await req.json();
+    const parsed = campUpdateSchema.safeParse(body);
+    if (!parsed.success) {
+      return errorResponse("Validation Error", {
+        status: 400,
+        code: ERROR_CODES.VALIDATION_ERROR,
+        details: parsed.error.issues.map((issue) => ({
+          field: issue.path.join("."),
+          message: issue.message,
+        })),
+      });
+    }
+
+    const existing = await prisma.donationCamp.findFirst({
+      where: { id: Number(id), ...organizationScope(tenant) },
+      select: { id: true, status: true },
+    });
+    if (!existing) return notFound();
+
+    if (existing.status !== "SCHEDULED") {
+      return errorResponse("Cancelled or completed camps cannot be edited", {
+        status: 409,
+        code: ERROR_CODES.INVALID_STATUS_TRANSITION,
+      });
+    }
+
+    const { camp, affected } = await prisma.$transaction(
+      async (tx: Prisma.TransactionClient) => {
+        // Conditional on the status read above so a concurrent cancel wins once
+        const { count } = await tx.donationCamp.updateMany({
+          where: { id: existing.id, status: "SCHEDULED" },
+          data: parsed.data,
+        });
+        if (count === 0) throw new Error("INVALID_STATUS_TRANSITION");
+
+        const affected =
+          parsed.data.status === "CANCELLED"
+            ? await cancelCampAppointments(tx, existing.id)
+            : [];
+        const camp = await tx.donationCamp.findUniqueOrThrow({
+          where: { id: existing.id },
+        });
+        return { camp, affected };
+      }
+    );
+
+    if (affected.length > 0) {
+      const donors = await prisma.donorProfile.findMany({
+        where: { id: { in: affected } },
+        select: {
+          phone: true,
+          user: { select: { id: true, name: true, email: true } },
+        },
+      });
+      await Promise.all(
+        donors.map((donor) =>
+          notify(
+            {
+              userId: donor.user.id,
+              name: donor.user.name,
+              email: donor.user.email,
+              phone: donor.phone,
+            },
+            {
+              title: `${camp.name} has been cancelled`,
+              body: `Your appointment at ${camp.venueName} is cancelled. Sorry for the inconvenience.`,
+              link: "/camps",
+            },
+            { channels: ["IN_APP", "EMAIL", "SMS"] }
+          )
+        )
+      );
+    }
+
+    return successResponse("Camp updated successfully", camp);
+  } catch (error: unknown) {
+    if (
+      error instanceof Error &&
+      error.message === "INVALID_STATUS_TRANSITION"
+    ) {
+      return errorResponse("Camp was modified concurrently, retry", {
+        status: 409,
+        code: ERROR_CODES.INVALID_STATUS_TRANSITION,
+      });
+    }
+
+    return handleError(error, "PATCH /api/camps/[id]", {
+      status: 500,
+      code: ERROR_CODES.CAMP_UPDATE_FAILED,
+    });
+  }
+});
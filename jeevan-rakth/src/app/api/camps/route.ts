@@ -0,0 +1,163 @@
+import { Prisma } from "@prisma/client";
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+  ERROR_CODES,
+  errorResponse,
+  successResponse,
+} from "@/lib/responseHandler";
+import { campCreateSchema, MAX_CAMP_SLOTS } from "@/lib/schemas/campSchema";
+import { handleError } from "@/lib/errorHandler";
+import {
+  canAccessOrganization,
+  requireOrganizationPermission,
+  resolveTargetOrganization,
+} from "@/lib/organizations/tenancy";
+import { campVisibilityScope } from "@/lib/camps/access";
+import { buildCampSlots } from "@/lib/camps/slots";
+
+const MAX_PAGE_SIZE = 50;
+
+// GET /api/camps?city=Pune&organizationId=3&includePast=false&page=1&limit=10
+// Upcoming scheduled camps, soonest first.
+// RBAC: Requires 'read' permission on 'camps' resource
+export const GET = requireOrganizationPermission(
+  "read",
+  "camps"
+)(async (req: NextRequest, tenant) => {
+  try {
+    const { searchParams } = new URL(req.url);
+    const page = Math.max(Number(searchParams.get("page")) || 1, 1);
+    const limit = Math.min(
+      Math.max(Number(searchParams.get("limit")) || 10, 1),
+      MAX_PAGE_SIZE
+    );
+    const city = searchParams.get("city");
+    const organizationId = Number(searchParams.get("organizationId"));
+    const includePast = searchParams.get("includePast") === "true";
+
+    const where: Prisma.DonationCampWhereInput = {
+      ...(includePast
+        ? {}
+        : { status: "SCHEDULED", endsAt: { gt: new Date() } }),
+      ...(city ? { city: { equals: city, mode: "insensitive" } } : {}),
+      ...(organizationId ? { organizationId } : {}),
+      ...campVisibilityScope(tenant),
+    };
+
+    const [camps, total] = await prisma.$transaction([
+      prisma.donationCamp.findMany({
+        where,
+        skip: (page - 1) * limit,
+        take: limit,
+        orderBy: { startsAt: includePast ? "desc" : "asc" },
+        include: {
+          organization: { select: { id: true, name: true, type: true } },
+        },
+      }),
+      prisma.donationCamp.count({ where }),
+    ]);
+
+    return successResponse(
+      "Camps fetched successfully",
+      { camps },
+      { meta: { page, limit, total } }
+    );
+  } catch (error: unknown) {
+    return handleError(error, "GET /api/camps", {
+      status: 500,
+      code: ERROR_CODES.CAMPS_FETCH_FAILED,
+    });
+  }
+});
+
+// POST /api/camps → schedule a camp; its windows are cut into slots of
+// slotMinutes, each with capacityPerSlot seats
+// RBAC: Requires 'create' permission on 'camps' resource
+export const POST = requireOrganizationPermission(
+  "create",
+  "camps"
+)(async (req: NextRequest, tenant) => {
+  try {
+    const body = await req.json();
+    const parsed = campCreateSchema.safeParse(body);
+    if (!parsed.success) {
+      return errorResponse("Validation Error", {
+        status: 400,
+        code: ERROR_CODES.VALIDATION_ERROR,
+        details: parsed.error.issues.map((issue) => ({
+          field: issue.path.join("."),
+          message: issue.message,
+        })),
+      });
+    }
+
+    const { windows, organizationId: requested, ...data } = parsed.data;
+    const organizationId = resolveTargetOrganization(tenant, requested);
+
+    if (!canAccessOrganization(tenant, organizationId)) {
+      return errorResponse("Access denied: not a member of organization", {
+        status: 403,
+        code: ERROR_CODES.ACCESS_DENIED,
+      });
+    }
+
+    const slots = buildCampSlots(
+      windows,
+      data.slotMinutes,
+      data.capacityPerSlot
+    );
+    if (slots.length === 0 || slots.length > MAX_CAMP_SLOTS) {
+      return errorResponse("Validation Error", {
+        status: 400,
+        code: ERROR_CODES.VALIDATION_ERROR,
+        details: [
+          {
+            field: "windows",
+            message:
+              slots.length === 0
+                ? "Time windows are shorter than one slot"
+                : `A camp can have at most ${MAX_CAMP_SLOTS} slots`,
+          },
+        ],
+      });
+    }
+
+    const camp = await prisma.donationCamp.create({
+      data: {
+        ...data,
+        organizationId,
+        createdById: tenant.userId,
+        startsAt: slots[0].startsAt,
+        endsAt: slots[slots.length - 1].endsAt,
+        slots: { createMany: { data: slots } },
+      },
+      include: { slots: { orderBy: { startsAt: "asc" } } },
+    });
+
+    return successResponse("Camp scheduled successfully", camp, {
+      status: 201,
+    });
+  } catch (error: unknown) {
+    if (error instanceof Error && error.message === "ORGANIZATION_REQUIRED") {
+      return errorResponse("organizationId is required", {
+        status: 400,
+        code: ERROR_CODES.VALIDATION_ERROR,
+      });
+    }
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2003"
+    ) {
+      return errorResponse("Organization not found", {
+        status: 404,
+        code: ERROR_CODES.ORGANIZATION_NOT_FOUND,
+      });
+    }
+
+    return handleError(error, "POST /api/camps", {
+      status: 500,
+      code: ERROR_CODES.CAMP_UPDATE_FAILED,
+    });
+  }
+});
@@ -0,0 +1,34 @@
+import { NextRequest } from "next/server";
+import {
+  ERROR_CODES,
+  errorResponse,
+  successResponse,
+} from "@/lib/responseHandler";
+import { handleError } from "@/lib/errorHandler";
+import { verifyCertificate } from "@/lib/certificates/documents";
+
+type RouteContext = { params: Promise<{ code: string }> };
+
+// GET /api/certificates/verify/:code → confirm a certificate or donor card
+// No login required: employers and colleges scan the QR code. Only what is
+// printed on the document is returned, never the donor's name or contacts.
+export async function GET(_req: NextRequest, { params }: RouteContext) {
+  const { code } = await params;
+  try {
+    const certificate = await verifyCertificate(code);
+
+    return successResponse("Certificate is authentic", certificate);
+  } catch (error: unknown) {
+    if (error instanceof Error && error.message === "INVALID_CERTIFICATE") {
+      return errorResponse("No genuine certificate matches this code", {
+        status: 404,
+        code: ERROR_CODES.INVALID_CERTIFICATE,
+      });
+    }
+
+    return handleError(error, "GET /api/certificates/verify/[code]", {
+      status: 500,
+      code: ERROR_CODES.CERTIFICATE_FAILED,
+    });
+  }
+}
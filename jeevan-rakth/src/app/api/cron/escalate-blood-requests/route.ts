@@ -0,0 +1,34 @@
+import { NextRequest } from "next/server";
+import {
+  ERROR_CODES,
+  errorResponse,
+  successResponse,
+} from "@/lib/responseHandler";
+import { handleError } from "@/lib/errorHandler";
+import { isAuthorizedCronRequest } from "@/lib/cron";
+import { runEscalationSweep } from "@/lib/bloodRequests/escalation";
+
+// GET /api/cron/escalate-blood-requests → run due escalation steps for open
+// requests that are not yet covered by pledges. Meant to run every few
+// minutes; safe to call from several instances at once.
+// Called by the scheduler with `Authorization: Bearer $CRON_SECRET`.
+export async function GET(req: NextRequest) {
+  if (!isAuthorizedCronRequest(req)) {
+    return errorResponse("Unauthorized", {
+      status: 401,
+      code: ERROR_CODES.NOT_AUTHENTICATED,
+    });
+  }
+
+  try {
+    const summary = await runEscalationSweep();
+    console.log("Blood request escalation sweep", summary);
+
+    return successResponse("Escalation sweep completed", summary);
+  } catch (error: unknown) {
+    return handleError(error, "GET /api/cron/escalate-blood-requests", {
+      status: 500,
+      code: ERROR_CODES.CRON_JOB_FAILED,
+    });
+  }
+}
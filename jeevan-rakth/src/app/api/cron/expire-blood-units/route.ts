@@ -0,0 +1,32 @@
+import { NextRequest } from "next/server";
+import {
+  ERROR_CODES,
+  errorResponse,
+  successResponse,
+} from "@/lib/responseHandler";
+import { handleError } from "@/lib/errorHandler";
+import { isAuthorizedCronRequest } from "@/lib/cron";
+import { discardExpiredUnits } from "@/lib/inventory/expiry";
+
+// GET /api/cron/expire-blood-units → discard every in-stock unit past expiry
+// Called by the scheduler with `Authorization: Bearer $CRON_SECRET`.
+export async function GET(req: NextRequest) {
+  if (!isAuthorizedCronRequest(req)) {
+    return errorResponse("Unauthorized", {
+      status: 401,
+      code: ERROR_CODES.NOT_AUTHENTICATED,
+    });
+  }
+
+  try {
+    const discarded = await discardExpiredUnits();
+    console.log("Expired blood units discarded", discarded);
+
+    return successResponse("Expiry sweep completed", { discarded });
+  } catch (error: unknown) {
+    return handleError(error, "GET /api/cron/expire-blood-units", {
+      status: 500,
+      code: ERROR_CODES.CRON_JOB_FAILED,
+    });
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest } from "next/server";
+import {
+  ERROR_CODES,
+  errorResponse,
+  successResponse,
+} from "@/lib/responseHandler";
+import { handleError } from "@/lib/errorHandler";
+import { isAuthorizedCronRequest } from "@/lib/cron";
+import { releaseStaleReservations } from "@/lib/inventory/reservations";
+
+// GET /api/cron/release-reservations → return units reserved for a patient
+// but not issued within RESERVATION_HOLD_HOURS to AVAILABLE
+// Called by the scheduler with `Authorization: Bearer $CRON_SECRET`.
+export async function GET(req: NextRequest) {
+  if (!isAuthorizedCronRequest(req)) {
+    return errorResponse("Unauthorized", {
+      status: 401,
+      code: ERROR_CODES.NOT_AUTHENTICATED,
+    });
+  }
+
+  try {
+    const released = await releaseStaleReservations();
+    console.log("Stale blood unit reservations released", released);
+
+    return successResponse("Reservation sweep completed", { released });
+  } catch (error: unknown) {
+    return handleError(error, "GET /api/cron/release-reservations", {
+      status: 500,
+      code: ERROR_CODES.CRON_JOB_FAILED,
+    });
+  }
+}
@@ -0,0 +1,25 @@
+import { NextRequest } from "next/server";
+import { ERROR_CODES, successResponse } from "@/lib/responseHandler";
+import { handleError } from "@/lib/errorHandler";
+import { requireOrganizationPermission } from "@/lib/organizations/tenancy";
+import { getDashboardStats } from "@/lib/dashboard/stats";
+
+// GET /api/dashboard/stats → donors by blood group, open requests by
+// urgency, 30-day fulfilment rate and time-to-match, and units expiring
+// within 72 hours for the caller's organizations
+// Send x-organization-id to narrow the numbers to one organization.
+// RBAC: Requires 'read' permission on 'bloodRequests' resource
+export const GET = requireOrganizationPermission(
+  "read",
+  "bloodRequests"
+)(async (_req: NextRequest, tenant) => {
+  try {
+    const stats = await getDashboardStats(tenant.organizationIds);
+    return successResponse("Dashboard statistics fetched successfully", stats);
+  } catch (error: unknown) {
+    return handleError(error, "GET /api/dashboard/stats", {
+      status: 500,
+      code: ERROR_CODES.DASHBOARD_FETCH_FAILED,
+    });
+  }
+});
@@ -0,0 +1,123 @@
+import { NextRequest } from "next/server";
+import {
+  ERROR_CODES,
+  errorResponse,
+  successResponse,
+} from "@/lib/responseHandler";
+import { componentSeparationSchema } from "@/lib/schemas/bloodUnitSchema";
+import { handleError } from "@/lib/errorHandler";
+import {
+  organizationScope,
+  requireOrganizationPermission,
+} from "@/lib/organizations/tenancy";
+import { separateDonation } from "@/lib/inventory/separation";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// POST /api/donations/:id/components → separate the donation's whole blood
+// e.g. { "components": [
+//          { "component": "RED_CELLS", "storageLocation": "Fridge 2",
+//            "storageEquipmentId": 4 },
+//          { "component": "PLASMA", "storageLocation": "Freezer 1", "volumeMl": 240 },
+//          { "component": "PLATELETS", "storageLocation": "Agitator 1" } ] }
+// Safe to repeat: a donation already separated returns its components with
+// 200 instead of 201.
+// RBAC: Requires 'create' permission on 'bloodUnits' resource
+export const POST = requireOrganizationPermission(
+  "create",
+  "bloodUnits"
+)(async (req: NextRequest, tenant, ...args: unknown[]) => {
+  const { id } = await (args[0] as RouteContext).params;
+  try {
+    const body = await req.json();
+    const parsed = componentSeparationSchema.safeParse(body);
+    if (!parsed.success) {
+      return errorResponse("Validation Error", {
+        status: 400,
+        code: ERROR_CODES.VALIDATION_ERROR,
+        details: parsed.error.issues.map((issue) => ({
+          field: issue.path.join("."),
+          message: issue.message,
+        })),
+      });
+    }
+
+    const result = await separateDonation(
+      Number(id),
+      parsed.data,
+      organizationScope(tenant)
+    );
+
+    return result.created > 0
+      ? successResponse("Donation separated successfully", result, {
+          status: 201,
+        })
+      : successResponse("Donation already separated", result);
+  } catch (error: unknown) {
+    if (error instanceof Error && error.message === "BLOOD_UNIT_NOT_FOUND") {
+      return errorResponse("No whole-blood unit of this donation in stock", {
+        status: 404,
+        code: ERROR_CODES.BLOOD_UNIT_NOT_FOUND,
+      });
+    }
+    if (
+      error instanceof Error &&
+      error.message === "INVALID_STATUS_TRANSITION"
+    ) {
+      return errorResponse(
+        "Only quarantined or available whole blood can be separated",
+        { status: 409, code: ERROR_CODES.INVALID_STATUS_TRANSITION }
+      );
+    }
+    if (error instanceof Error && error.message === "UNIT_EXPIRED") {
+      return errorResponse("Unit has expired", {
+        status: 409,
+        code: ERROR_CODES.INVALID_STATUS_TRANSITION,
+      });
+    }
+    if (
+      error instanceof Error &&
+      error.message === "EXCURSION_REVIEW_PENDING"
+    ) {
+      return errorResponse("Unit is awaiting a temperature excursion review", {
+        status: 409,
+        code: ERROR_CODES.EXCURSION_REVIEW_PENDING,
+      });
+    }
+    if (
+      error instanceof Error &&
+      error.message === "STORAGE_EQUIPMENT_NOT_FOUND"
+    ) {
+      return errorResponse("Storage equipment not found", {
+        status: 404,
+        code: ERROR_CODES.STORAGE_EQUIPMENT_NOT_FOUND,
+      });
+    }
+    if (
+      error instanceof Error &&
+      error.message === "COMPONENT_ALREADY_EXISTS"
+    ) {
+      return errorResponse(
+        "The donation already has a unit of a requested component",
+        { status: 409, code: ERROR_CODES.COMPONENT_CONFLICT }
+      );
+    }
+    if (error instanceof Error && error.message === "VOLUME_EXCEEDS_PARENT") {
+      return errorResponse(
+        "Recorded component volumes exceed the whole-blood unit's volume",
+        { status: 400, code: ERROR_CODES.VALIDATION_ERROR }
+      );
+    }
+    if (error instanceof Error && error.message === "CONCURRENT_MODIFICATION") {
+      return errorResponse("Unit was modified concurrently, retry", {
+        status: 409,
+        code: ERROR_CODES.INVALID_STATUS_TRANSITION,
+      });
+    }
+
+    return handleError(error, "POST /api/donations/[id]/components", {
+      status: 500,
+      code: ERROR_CODES.BLOOD_UNIT_UPDATE_FAILED,
+    });
+  }
+});
@@ -0,0 +1,103 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+  ERROR_CODES,
+  errorResponse,
+  successResponse,
+} from "@/lib/responseHandler";
+import { donationUpdateSchema } from "@/lib/schemas/donationSchema";
+import { handleError } from "@/lib/errorHandler";
+import {
+  organizationScope,
+  requireOrganizationPermission,
+} from "@/lib/organizations/tenancy";
+import { screeningStatus, updateDonation } from "@/lib/donations/ledger";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+function notFound() {
+  return errorResponse("Donation not found", {
+    status: 404,
+    code: ERROR_CODES.DONATION_NOT_FOUND,
+  });
+}
+
+// GET /api/donations/:id → a donation with its screening and units
+// RBAC: Requires 'read' permission on 'donations' resource
+export const GET = requireOrganizationPermission(
+  "read",
+  "donations"
+)(async (_req: NextRequest, tenant, ...args: unknown[]) => {
+  const { id } = await (args[0] as RouteContext).params;
+  try {
+    const donation = await prisma.donation.findFirst({
+      where: { id: Number(id), ...organizationScope(tenant) },
+      include: {
+        donorProfile: {
+          select: {
+            id: true,
+            bloodGroup: true,
+            user: { select: { id: true, name: true } },
+          },
+        },
+        organization: { select: { id: true, name: true } },
+        camp: { select: { id: true, name: true } },
+        phlebotomist: { select: { id: true, name: true } },
+        units: { orderBy: { id: "asc" } },
+      },
+    });
+
+    if (!donation) return notFound();
+
+    return successResponse("Donation retrieved successfully", {
+      ...donation,
+      screeningStatus: screeningStatus(donation),
+    });
+  } catch (error: unknown) {
+    return handleError(error, "GET /api/donations/[id]", {
+      status: 500,
+      code: ERROR_CODES.DONATIONS_FETCH_FAILED,
+    });
+  }
+});
+
+// PATCH /api/donations/:id → record screening results or a reaction
+// e.g. { "hivResult": "NON_REACTIVE", "hbvResult": "NON_REACTIVE", ... }
+//      { "adverseReaction": "MILD", "adverseReactionNotes": "Fainted briefly" }
+// A reactive marker discards the donation's units still in stock.
+// RBAC: Requires 'update' permission on 'donations' resource
+export const PATCH = requireOrganizationPermission(
+  "update",
+  "donations"
+)(async (req: NextRequest, tenant, ...args: unknown[]) => {
+  const { id } = await (args[0] as RouteContext).params;
+  try {
+    const body = await req.json();
+    const parsed = donationUpdateSchema.safeParse(body);
+    if (!parsed.success) {
+      return errorResponse("Validation Error", {
+        status: 400,
+        code: ERROR_CODES.VALIDATION_ERROR,
+        details: parsed.error.issues.map((issue) => ({
+          field: issue.path.join("."),
+          message: issue.message,
+        })),
+      });
+    }
+
+    const donation = await updateDonation(
+      Number(id),
+      parsed.data,
+      organizationScope(tenant)
+    );
+
+    if (!donation) return notFound();
+
+    return successResponse("Donation updated successfully", donation);
+  } catch (error: unknown) {
+    return handleError(error, "PATCH /api/donations/[id]", {
+      status: 500,
+      code: ERROR_CODES.DONATION_UPDATE_FAILED,
+    });
+  }
+});
@@ -0,0 +1,218 @@
+import { Prisma } from "@prisma/client";
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+  ERROR_CODES,
+  errorResponse,
+  successResponse,
+} from "@/lib/responseHandler";
+import { donationCreateSchema } from "@/lib/schemas/donationSchema";
+import { handleError } from "@/lib/errorHandler";
+import {
+  canAccessOrganization,
+  organizationScope,
+  requireOrganizationPermission,
+  resolveTargetOrganization,
+} from "@/lib/organizations/tenancy";
+import { recordDonation } from "@/lib/donations/ledger";
+import { invalidateDonorSearchCache } from "@/lib/donors/search";
+
+const MAX_PAGE_SIZE = 100;
+
+// GET /api/donations?donorProfileId=12&campId=3&from=2026-10-01&to=2026-10-31&page=1&limit=20
+// Donations collected by the caller's organizations, newest first.
+// RBAC: Requires 'read' permission on 'donations' resource
+export const GET = requireOrganizationPermission(
+  "read",
+  "donations"
+)(async (req: NextRequest, tenant) => {
+  try {
+    const { searchParams } = new URL(req.url);
+    const page = Math.max(Number(searchParams.get("page")) || 1, 1);
+    const limit = Math.min(
+      Math.max(Number(searchParams.get("limit")) || 20, 1),
+      MAX_PAGE_SIZE
+    );
+    const donorProfileId = Number(searchParams.get("donorProfileId"));
+    const campId = Number(searchParams.get("campId"));
+    const from = new Date(searchParams.get("from") ?? "");
+    const to = new Date(searchParams.get("to") ?? "");
+
+    const where: Prisma.DonationWhereInput = {
+      ...(donorProfileId ? { donorProfileId } : {}),
+      ...(campId ? { campId } : {}),
+      collectedAt: {
+        ...(isNaN(from.getTime()) ? {} : { gte: from }),
+        ...(isNaN(to.getTime()) ? {} : { lte: to }),
+      },
+      ...organizationScope(tenant),
+    };
+
+    const [donations, total] = await prisma.$transaction([
+      prisma.donation.findMany({
+        where,
+        skip: (page - 1) * limit,
+        take: limit,
+        orderBy: [{ collectedAt: "desc" }, { id: "desc" }],
+        include: {
+          donorProfile: {
+            select: {
+              id: true,
+              bloodGroup: true,
+              user: { select: { id: true, name: true } },
+            },
+          },
+          phlebotomist: { select: { id: true, name: true } },
+          units: {
+            select: { id: true, component: true, status: true },
+          },
+        },
+      }),
+      prisma.donation.count({ where }),
+    ]);
+
+    return successResponse(
+      "Donations fetched successfully",
+      { donations },
+      { meta: { page, limit, total } }
+    );
+  } catch (error: unknown) {
+    return handleError(error, "GET /api/donations", {
+      status: 500,
+      code: ERROR_CODES.DONATIONS_FETCH_FAILED,
+    });
+  }
+});
+
+// POST /api/donations → record a collection and bag its units
+// e.g. { "donorProfileId": 12,
+//        "collectedAt": "2026-10-19T10:30:00Z", "component": "WHOLE_BLOOD",
+//        "volumeMl": 450, "appointmentId": 88,
+//        "units": [{ "component": "WHOLE_BLOOD", "storageLocation": "Fridge 2" }] }
+// Without a donationNumber the organization's next ISBT 128 DIN is assigned.
+// RBAC: Requires 'create' permission on 'donations' resource
+export const POST = requireOrganizationPermission(
+  "create",
+  "donations"
+)(async (req: NextRequest, tenant) => {
+  try {
+    const body = await req.json();
+    const parsed = donationCreateSchema.safeParse(body);
+    if (!parsed.success) {
+      return errorResponse("Validation Error", {
+        status: 400,
+        code: ERROR_CODES.VALIDATION_ERROR,
+        details: parsed.error.issues.map((issue) => ({
+          field: issue.path.join("."),
+          message: issue.message,
+        })),
+      });
+    }
+
+    const organizationId = resolveTargetOrganization(
+      tenant,
+      parsed.data.organizationId
+    );
+
+    if (!canAccessOrganization(tenant, organizationId)) {
+      return errorResponse("Access denied: not a member of organization", {
+        status: 403,
+        code: ERROR_CODES.ACCESS_DENIED,
+      });
+    }
+
+    const donation = await recordDonation({
+      ...parsed.data,
+      organizationId,
+      recordedById: tenant.userId,
+    });
+
+    // The donor's last donation moved, so their eligibility may have too
+    await invalidateDonorSearchCache();
+
+    return successResponse("Donation recorded successfully", donation, {
+      status: 201,
+    });
+  } catch (error: unknown) {
+    if (error instanceof Error && error.message === "ORGANIZATION_REQUIRED") {
+      return errorResponse("organizationId is required", {
+        status: 400,
+        code: ERROR_CODES.VALIDATION_ERROR,
+      });
+    }
+    if (error instanceof Error && error.message === "ORGANIZATION_NOT_FOUND") {
+      return errorResponse("Organization not found", {
+        status: 404,
+        code: ERROR_CODES.ORGANIZATION_NOT_FOUND,
+      });
+    }
+    if (error instanceof Error && error.message === "FACILITY_CODE_REQUIRED") {
+      return errorResponse(
+        "Set the organization's ISBT 128 facility code or pass a donationNumber",
+        { status: 409, code: ERROR_CODES.FACILITY_CODE_REQUIRED }
+      );
+    }
+    if (
+      error instanceof Error &&
+      error.message === "DONATION_NUMBERS_EXHAUSTED"
+    ) {
+      return errorResponse("No donation numbers left for this year", {
+        status: 409,
+        code: ERROR_CODES.DONATION_NUMBERS_EXHAUSTED,
+      });
+    }
+    if (error instanceof Error && error.message === "DONOR_PROFILE_NOT_FOUND") {
+      return errorResponse("Donor profile not found", {
+        status: 404,
+        code: ERROR_CODES.DONOR_PROFILE_NOT_FOUND,
+      });
+    }
+    if (error instanceof Error && error.message === "APPOINTMENT_NOT_FOUND") {
+      return errorResponse("No checked-in appointment for this donor", {
+        status: 404,
+        code: ERROR_CODES.APPOINTMENT_NOT_FOUND,
+      });
+    }
+    if (error instanceof Error && error.message === "CAMP_NOT_FOUND") {
+      return errorResponse("Camp not found", {
+        status: 404,
+        code: ERROR_CODES.CAMP_NOT_FOUND,
+      });
+    }
+    if (error instanceof Error && error.message === "PHLEBOTOMIST_NOT_MEMBER") {
+      return errorResponse("Validation Error", {
+        status: 400,
+        code: ERROR_CODES.VALIDATION_ERROR,
+        details: [
+          {
+            field: "phlebotomistId",
+            message: "Phlebotomist is not a member of the organization",
+          },
+        ],
+      });
+    }
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2003"
+    ) {
+      return errorResponse("Organization not found", {
+        status: 404,
+        code: ERROR_CODES.ORGANIZATION_NOT_FOUND,
+      });
+    }
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2002"
+    ) {
+      return errorResponse(
+        "This donation number or appointment is already recorded",
+        { status: 409, code: ERROR_CODES.DONATION_NUMBER_CONFLICT }
+      );
+    }
+
+    return handleError(error, "POST /api/donations", {
+      status: 500,
+      code: ERROR_CODES.DONATION_UPDATE_FAILED,
+    });
+  }
+});
@@ -0,0 +1,142 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+  ERROR_CODES,
+  errorResponse,
+  successResponse,
+} from "@/lib/responseHandler";
+import { donorResponseSchema } from "@/lib/schemas/donorResponseSchema";
+import { handleError } from "@/lib/errorHandler";
+import { verifyResponseToken } from "@/lib/bloodRequests/responseLinks";
+import { recordDonorResponse } from "@/lib/bloodRequests/responses";
+
+type RouteContext = { params: Promise<{ token: string }> };
+
+function invalidLink() {
+  return errorResponse("This response link is invalid or has expired", {
+    status: 401,
+    code: ERROR_CODES.INVALID_RESPONSE_LINK,
+  });
+}
+
+// GET /api/donor-responses/:token → what a response link is asking for
+// No login required: the signed token identifies the request and donor.
+// Patient details are deliberately left out.
+export async function GET(_req: NextRequest, { params }: RouteContext) {
+  const { token } = await params;
+  try {
+    const { requestId, donorProfileId } = verifyResponseToken(token);
+
+    const request = await prisma.bloodRequest.findUnique({
+      where: { id: requestId },
+      select: {
+        id: true,
+        bloodGroup: true,
+        component: true,
+        urgency: true,
+        status: true,
+        hospitalName: true,
+        requiredBy: true,
+        unitsNeeded: true,
+        unitsFulfilled: true,
+        unitsPledged: true,
+        responses: {
+          where: { donorProfileId },
+          select: {
+            status: true,
+            etaMinutes: true,
+            note: true,
+            respondedAt: true,
+            checkedInAt: true,
+          },
+        },
+      },
+    });
+    if (!request) {
+      return errorResponse("Blood request not found", {
+        status: 404,
+        code: ERROR_CODES.BLOOD_REQUEST_NOT_FOUND,
+      });
+    }
+
+    const { responses, ...summary } = request;
+    return successResponse("Blood request retrieved successfully", {
+      request: summary,
+      response: responses[0] ?? null,
+    });
+  } catch (error: unknown) {
+    if (error instanceof Error && error.message === "INVALID_RESPONSE_LINK") {
+      return invalidLink();
+    }
+
+    return handleError(error, "GET /api/donor-responses/[token]", {
+      status: 500,
+      code: ERROR_CODES.BLOOD_REQUESTS_FETCH_FAILED,
+    });
+  }
+}
+
+// POST /api/donor-responses/:token → answer a request from an alert link
+// Body: { response: "ACCEPT" | "DECLINE", etaMinutes?, note? }
+export async function POST(req: NextRequest, { params }: RouteContext) {
+  const { token } = await params;
+  try {
+    const { requestId, donorProfileId } = verifyResponseToken(token);
+
+    const body = await req.json();
+    const parsed = donorResponseSchema.safeParse(body);
+    if (!parsed.success) {
+      return errorResponse("Validation Error", {
+        status: 400,
+        code: ERROR_CODES.VALIDATION_ERROR,
+        details: parsed.error.issues.map((issue) => ({
+          field: issue.path.join("."),
+          message: issue.message,
+        })),
+      });
+    }
+
+    const response = await recordDonorResponse({
+      requestId,
+      donorProfileId,
+      accept: parsed.data.response === "ACCEPT",
+      etaMinutes: parsed.data.etaMinutes,
+      note: parsed.data.note,
+    });
+
+    return successResponse("Response recorded", response);
+  } catch (error: unknown) {
+    if (error instanceof Error && error.message === "INVALID_RESPONSE_LINK") {
+      return invalidLink();
+    }
+    if (error instanceof Error && error.message === "BLOOD_REQUEST_NOT_FOUND") {
+      return errorResponse("Blood request not found", {
+        status: 404,
+        code: ERROR_CODES.BLOOD_REQUEST_NOT_FOUND,
+      });
+    }
+    if (error instanceof Error && error.message === "REQUEST_CLOSED") {
+      return errorResponse("This request is no longer accepting donors", {
+        status: 409,
+        code: ERROR_CODES.REQUEST_CLOSED,
+      });
+    }
+    if (error instanceof Error && error.message === "DONOR_NOT_ELIGIBLE") {
+      return errorResponse("You are not eligible to donate for this request", {
+        status: 409,
+        code: ERROR_CODES.DONOR_NOT_ELIGIBLE,
+      });
+    }
+    if (error instanceof Error && error.message === "ALREADY_CHECKED_IN") {
+      return errorResponse("You have already been checked in", {
+        status: 409,
+        code: ERROR_CODES.ALREADY_CHECKED_IN,
+      });
+    }
+
+    return handleError(error, "POST /api/donor-responses/[token]", {
+      status: 500,
+      code: ERROR_CODES.DONOR_RESPONSE_FAILED,
+    });
+  }
+}
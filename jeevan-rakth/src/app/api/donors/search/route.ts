@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  ERROR_CODES,
+  errorResponse,
+  successResponse,
+} from "@/lib/responseHandler";
+import { donorSearchQuerySchema } from "@/lib/schemas/donorSearchSchema";
+import { handleError } from "@/lib/errorHandler";
+import redis, { DEFAULT_CACHE_TTL } from "@/lib/redis";
+import { requirePermission } from "@/lib/rbac";
+import { donorSearchCacheKey, searchDonorsNearby } from "@/lib/donors/search";
+
+// GET /api/donors/search?lat=&lng=&radiusKm=10&bloodGroup=O-&component=RED_CELLS&page=1&limit=10
+// Returns available donors within radiusKm, nearest first. When bloodGroup
+// (the recipient's group) is given, only compatible donors are returned.
+// antigenNegative=K,Fya,Jkb keeps donors typed negative for every listed
+// antigen; rareOnly=true keeps registered rare donors only. Rare donors are
+// tagged with rareDonor and need an approved contact request to be reached.
+// RBAC: Requires 'read' permission on 'donors' resource
+export const GET = requirePermission(
+  "read",
+  "donors"
+)(async (req: NextRequest) => {
+  try {
+    const { searchParams } = new URL(req.url);
+    const parsed = donorSearchQuerySchema.safeParse(
+      Object.fromEntries(searchParams)
+    );
+    if (!parsed.success) {
+      return errorResponse("Validation Error", {
+        status: 400,
+        code: ERROR_CODES.VALIDATION_ERROR,
+        details: parsed.error.issues.map((issue) => ({
+          field: issue.path.join("."),
+          message: issue.message,
+        })),
+      });
+    }
+
+    const params = parsed.data;
+    const cacheKey = donorSearchCacheKey(params);
+
+    // Try cache-aside: check Redis first
+    try {
+      const cached = await redis.get(cacheKey);
+      if (cached) {
+        console.log("Cache Hit", cacheKey);
+        const parsedCache = JSON.parse(cached);
+        return NextResponse.json(
+          {
+            success: true,
+            message: "Donors fetched successfully",
+            data: parsedCache.data,
+            meta: parsedCache.meta,
+            timestamp: new Date().toISOString(),
+          },
+          { status: 200, headers: { "x-cache": "HIT" } }
+        );
+      }
+    } catch (err) {
+      console.warn("Redis GET failed", err);
+    }
+
+    const { donors, total } = await searchDonorsNearby(params);
+
+    const meta = {
+      page: params.page,
+      limit: params.limit,
+      total,
+      radiusKm: params.radiusKm,
+    };
+
+    // Cache result (best-effort); invalidated when donor availability changes
+    try {
+      await redis.set(
+        cacheKey,
+        JSON.stringify({ data: { donors }, meta }),
+        "EX",
+        DEFAULT_CACHE_TTL
+      );
+    } catch (err) {
+      console.warn("Redis SET failed", err);
+    }
+
+    return successResponse("Donors fetched successfully", { donors }, { meta });
+  } catch (error: unknown) {
+    return handleError(error, "GET /api/donors/search", {
+      status: 500,
+      code: ERROR_CODES.DONOR_SEARCH_FAILED,
+    });
+  }
+});
@@ -15,6 +15,9 @@ const prismaFile = (prisma as PrismaWithFile).file;
 export async function GET() {
   try {
     const files = await prismaFile.findMany({
+      // Donor verification documents (IDs, lab reports) are only served
+      // through /api/users/:id/verification and the review queue
+      where: { verificationDocument: { is: null } },
       orderBy: { uploadedAt: "desc" },
       include: {
         uploader: {
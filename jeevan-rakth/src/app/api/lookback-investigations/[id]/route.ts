@@ -0,0 +1,61 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+  ERROR_CODES,
+  errorResponse,
+  successResponse,
+} from "@/lib/responseHandler";
+import { handleError } from "@/lib/errorHandler";
+import {
+  organizationScope,
+  requireOrganizationPermission,
+} from "@/lib/organizations/tenancy";
+import { LOOKBACK_INCLUDE } from "@/lib/haemovigilance/lookback";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// GET /api/lookback-investigations/:id → a look-back with the reaction
+// behind it and every unit of the donation, wherever it is now
+// RBAC: Requires 'read' permission on 'bloodUnits' resource
+export const GET = requireOrganizationPermission(
+  "read",
+  "bloodUnits"
+)(async (_req: NextRequest, tenant, ...args: unknown[]) => {
+  const { id } = await (args[0] as RouteContext).params;
+  try {
+    const investigation = await prisma.lookbackInvestigation.findFirst({
+      where: { id: Number(id), ...organizationScope(tenant) },
+      include: LOOKBACK_INCLUDE,
+    });
+
+    if (!investigation) {
+      return errorResponse("Look-back investigation not found", {
+        status: 404,
+        code: ERROR_CODES.LOOKBACK_NOT_FOUND,
+      });
+    }
+
+    const units = await prisma.bloodUnit.findMany({
+      where: { donationNumber: investigation.donationNumber },
+      orderBy: { id: "asc" },
+      select: {
+        id: true,
+        component: true,
+        status: true,
+        discardReason: true,
+        issuedAt: true,
+        organization: { select: { id: true, name: true } },
+      },
+    });
+
+    return successResponse("Look-back investigation retrieved successfully", {
+      ...investigation,
+      units,
+    });
+  } catch (error: unknown) {
+    return handleError(error, "GET /api/lookback-investigations/[id]", {
+      status: 500,
+      code: ERROR_CODES.LOOKBACKS_FETCH_FAILED,
+    });
+  }
+});
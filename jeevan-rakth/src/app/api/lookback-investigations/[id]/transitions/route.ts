@@ -0,0 +1,89 @@
+import { Prisma } from "@prisma/client";
+import { NextRequest } from "next/server";
+import {
+  ERROR_CODES,
+  errorResponse,
+  successResponse,
+} from "@/lib/responseHandler";
+import { lookbackTransitionSchema } from "@/lib/schemas/transfusionReactionSchema";
+import { handleError } from "@/lib/errorHandler";
+import { requireOrganizationPermission } from "@/lib/organizations/tenancy";
+import { transitionLookback } from "@/lib/haemovigilance/lookback";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// POST /api/lookback-investigations/:id/transitions → work a look-back
+// Body: { action: "start" } |
+//       { action: "close", conclusion, findings }
+// Closing with DONOR_IMPLICATED discards the donation's units in stock and
+// permanently defers the donor.
+// RBAC: Requires 'update' permission on 'bloodUnits' resource
+export const POST = requireOrganizationPermission(
+  "update",
+  "bloodUnits"
+)(async (req: NextRequest, tenant, ...args: unknown[]) => {
+  const { id } = await (args[0] as RouteContext).params;
+  try {
+    const body = await req.json();
+    const parsed = lookbackTransitionSchema.safeParse(body);
+    if (!parsed.success) {
+      return errorResponse("Validation Error", {
+        status: 400,
+        code: ERROR_CODES.VALIDATION_ERROR,
+        details: parsed.error.issues.map((issue) => ({
+          field: issue.path.join("."),
+          message: issue.message,
+        })),
+      });
+    }
+
+    const investigation = await transitionLookback(
+      Number(id),
+      parsed.data,
+      tenant.organizationIds,
+      tenant.userId
+    );
+
+    return successResponse(
+      "Look-back investigation updated successfully",
+      investigation
+    );
+  } catch (error: unknown) {
+    if (error instanceof Error && error.message === "LOOKBACK_NOT_FOUND") {
+      return errorResponse("Look-back investigation not found", {
+        status: 404,
+        code: ERROR_CODES.LOOKBACK_NOT_FOUND,
+      });
+    }
+    if (
+      error instanceof Error &&
+      error.message === "INVALID_STATUS_TRANSITION"
+    ) {
+      return errorResponse("Transition not allowed from the current status", {
+        status: 409,
+        code: ERROR_CODES.INVALID_STATUS_TRANSITION,
+      });
+    }
+    if (error instanceof Error && error.message === "CONCURRENT_MODIFICATION") {
+      return errorResponse("Investigation was modified concurrently, retry", {
+        status: 409,
+        code: ERROR_CODES.INVALID_STATUS_TRANSITION,
+      });
+    }
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2034"
+    ) {
+      return errorResponse("Investigation was modified concurrently, retry", {
+        status: 409,
+        code: ERROR_CODES.INVALID_STATUS_TRANSITION,
+      });
+    }
+
+    return handleError(
+      error,
+      "POST /api/lookback-investigations/[id]/transitions",
+      { status: 500, code: ERROR_CODES.LOOKBACK_UPDATE_FAILED }
+    );
+  }
+});
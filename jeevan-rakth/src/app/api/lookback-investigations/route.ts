@@ -0,0 +1,61 @@
+import { Prisma } from "@prisma/client";
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { ERROR_CODES, successResponse } from "@/lib/responseHandler";
+import { lookbackStatusSchema } from "@/lib/schemas/transfusionReactionSchema";
+import { handleError } from "@/lib/errorHandler";
+import {
+  organizationScope,
+  requireOrganizationPermission,
+} from "@/lib/organizations/tenancy";
+import { LOOKBACK_INCLUDE } from "@/lib/haemovigilance/lookback";
+
+const MAX_PAGE_SIZE = 50;
+
+// GET /api/lookback-investigations?status=OPEN&page=1&limit=20
+// Look-backs assigned to the caller's blood banks, oldest first so the
+// queue is worked in order
+// RBAC: Requires 'read' permission on 'bloodUnits' resource
+export const GET = requireOrganizationPermission(
+  "read",
+  "bloodUnits"
+)(async (req: NextRequest, tenant) => {
+  try {
+    const { searchParams } = new URL(req.url);
+    const page = Math.max(Number(searchParams.get("page")) || 1, 1);
+    const limit = Math.min(
+      Math.max(Number(searchParams.get("limit")) || 20, 1),
+      MAX_PAGE_SIZE
+    );
+    const status = lookbackStatusSchema.safeParse(
+      searchParams.get("status") ?? undefined
+    );
+
+    const where: Prisma.LookbackInvestigationWhereInput = {
+      ...organizationScope(tenant),
+      ...(status.success ? { status: status.data } : {}),
+    };
+
+    const [investigations, total] = await prisma.$transaction([
+      prisma.lookbackInvestigation.findMany({
+        where,
+        skip: (page - 1) * limit,
+        take: limit,
+        orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+        include: LOOKBACK_INCLUDE,
+      }),
+      prisma.lookbackInvestigation.count({ where }),
+    ]);
+
+    return successResponse(
+      "Look-back investigations fetched successfully",
+      { investigations },
+      { meta: { page, limit, total } }
+    );
+  } catch (error: unknown) {
+    return handleError(error, "GET /api/lookback-investigations", {
+      status: 500,
+      code: ERROR_CODES.LOOKBACKS_FETCH_FAILED,
+    });
+  }
+});
@@ -0,0 +1,43 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+  ERROR_CODES,
+  errorResponse,
+  successResponse,
+} from "@/lib/responseHandler";
+import { handleError } from "@/lib/errorHandler";
+import { getUserId } from "@/lib/rbac";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// PATCH /api/notifications/:id → mark one of the caller's notifications read
+export async function PATCH(req: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  try {
+    const userId = Number(getUserId(req));
+    if (!userId) {
+      return errorResponse("Not authenticated", {
+        status: 401,
+        code: ERROR_CODES.NOT_AUTHENTICATED,
+      });
+    }
+    const { count } = await prisma.notification.updateMany({
+      where: { id: Number(id), userId, readAt: null },
+      data: { readAt: new Date() },
+    });
+
+    if (count === 0) {
+      return errorResponse("Unread notification not found", {
+        status: 404,
+        code: ERROR_CODES.NOTIFICATION_NOT_FOUND,
+      });
+    }
+
+    return successResponse("Notification marked as read");
+  } catch (error: unknown) {
+    return handleError(error, "PATCH /api/notifications/[id]", {
+      status: 500,
+      code: ERROR_CODES.NOTIFICATION_UPDATE_FAILED,
+    });
+  }
+}
@@ -0,0 +1,93 @@
+import { NextRequest } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import {
+  ERROR_CODES,
+  errorResponse,
+  successResponse,
+} from "@/lib/responseHandler";
+import { handleError } from "@/lib/errorHandler";
+import { getUserId } from "@/lib/rbac";
+
+// Shape of PushSubscription.toJSON() in the browser
+const pushSubscriptionSchema = z.object({
+  endpoint: z.string().url("endpoint must be a URL"),
+  keys: z.object({
+    p256dh: z.string().min(1),
+    auth: z.string().min(1),
+  }),
+});
+
+// POST /api/notifications/push-subscriptions → register this browser for
+// push alerts. Re-registering an endpoint moves it to the caller.
+export async function POST(req: NextRequest) {
+  try {
+    const userId = Number(getUserId(req));
+    if (!userId) {
+      return errorResponse("Not authenticated", {
+        status: 401,
+        code: ERROR_CODES.NOT_AUTHENTICATED,
+      });
+    }
+    const body = await req.json();
+    const parsed = pushSubscriptionSchema.safeParse(body);
+    if (!parsed.success) {
+      return errorResponse("Validation Error", {
+        status: 400,
+        code: ERROR_CODES.VALIDATION_ERROR,
+        details: parsed.error.issues.map((issue) => ({
+          field: issue.path.join("."),
+          message: issue.message,
+        })),
+      });
+    }
+
+    const { endpoint, keys } = parsed.data;
+    const subscription = await prisma.pushSubscription.upsert({
+      where: { endpoint },
+      create: { endpoint, ...keys, userId },
+      update: { ...keys, userId },
+      select: { id: true, endpoint: true, createdAt: true },
+    });
+
+    return successResponse("Push subscription saved", subscription, {
+      status: 201,
+    });
+  } catch (error: unknown) {
+    return handleError(error, "POST /api/notifications/push-subscriptions", {
+      status: 500,
+      code: ERROR_CODES.NOTIFICATION_UPDATE_FAILED,
+    });
+  }
+}
+
+// DELETE /api/notifications/push-subscriptions?endpoint=... → unsubscribe
+export async function DELETE(req: NextRequest) {
+  try {
+    const userId = Number(getUserId(req));
+    if (!userId) {
+      return errorResponse("Not authenticated", {
+        status: 401,
+        code: ERROR_CODES.NOT_AUTHENTICATED,
+      });
+    }
+    const endpoint = new URL(req.url).searchParams.get("endpoint");
+    if (!endpoint) {
+      return errorResponse("endpoint is required", {
+        status: 400,
+        code: ERROR_CODES.VALIDATION_ERROR,
+      });
+    }
+
+    await prisma.pushSubscription.deleteMany({
+      where: { endpoint, userId },
+    });
+
+    return successResponse("Push subscription removed");
+  } catch (error: unknown) {
+    return handleError(error, "DELETE /api/notifications/push-subscriptions", {
+      status: 500,
+      code: ERROR_CODES.NOTIFICATION_UPDATE_FAILED,
+    });
+  }
+}
@@ -0,0 +1,60 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+  ERROR_CODES,
+  errorResponse,
+  successResponse,
+} from "@/lib/responseHandler";
+import { handleError } from "@/lib/errorHandler";
+import { getUserId } from "@/lib/rbac";
+
+const MAX_PAGE_SIZE = 50;
+
+// GET /api/notifications?unread=true&page=1&limit=20 → the caller's in-app
+// notifications, newest first
+export async function GET(req: NextRequest) {
+  try {
+    const userId = Number(getUserId(req));
+    if (!userId) {
+      return errorResponse("Not authenticated", {
+        status: 401,
+        code: ERROR_CODES.NOT_AUTHENTICATED,
+      });
+    }
+    const { searchParams } = new URL(req.url);
+    const page = Math.max(Number(searchParams.get("page")) || 1, 1);
+    const limit = Math.min(
+      Math.max(Number(searchParams.get("limit")) || 20, 1),
+      MAX_PAGE_SIZE
+    );
+
+    const where = {
+      userId,
+      ...(searchParams.get("unread") === "true" ? { readAt: null } : {}),
+    };
+
+    const [notifications, total, unread] = await prisma.$transaction([
+      prisma.notification.findMany({
+        where,
+        skip: (page - 1) * limit,
+        take: limit,
+        orderBy: { createdAt: "desc" },
+      }),
+      prisma.notification.count({ where }),
+      prisma.notification.count({
+        where: { userId, readAt: null },
+      }),
+    ]);
+
+    return successResponse(
+      "Notifications fetched successfully",
+      { notifications },
+      { meta: { page, limit, total, unread } }
+    );
+  } catch (error: unknown) {
+    return handleError(error, "GET /api/notifications", {
+      status: 500,
+      code: ERROR_CODES.NOTIFICATIONS_FETCH_FAILED,
+    });
+  }
+}
@@ -0,0 +1,147 @@
+import { Prisma } from "@prisma/client";
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+  ERROR_CODES,
+  errorResponse,
+  successResponse,
+} from "@/lib/responseHandler";
+import { organizationMemberUpdateSchema } from "@/lib/schemas/organizationSchema";
+import { handleError } from "@/lib/errorHandler";
+import {
+  isOrganizationAdmin,
+  requireOrganizationPermission,
+} from "@/lib/organizations/tenancy";
+
+type RouteContext = { params: Promise<{ id: string; userId: string }> };
+
+function memberNotFound() {
+  return errorResponse("Member not found", {
+    status: 404,
+    code: ERROR_CODES.MEMBER_NOT_FOUND,
+  });
+}
+
+function forbidden() {
+  return errorResponse("Access denied: organization admins only", {
+    status: 403,
+    code: ERROR_CODES.ACCESS_DENIED,
+  });
+}
+
+/**
+ * Whether removing or demoting this member would leave the organization
+ * without any ADMIN
+ */
+async function isLastAdmin(organizationId: number, userId: number) {
+  const admins = await prisma.organizationMember.findMany({
+    where: { organizationId, role: "ADMIN" },
+    select: { userId: true },
+  });
+  return admins.length === 1 && admins[0].userId === userId;
+}
+
+// PATCH /api/organizations/:id/members/:userId → change a member's role or
+// on-call duty
+// Body: { role?: "ADMIN" | "STAFF" | "VIEWER", onCall?: boolean }.
+// Organization admins only.
+export const PATCH = requireOrganizationPermission(
+  "update",
+  "organizations"
+)(async (req: NextRequest, tenant, ...args: unknown[]) => {
+  const { id, userId } = await (args[0] as RouteContext).params;
+  try {
+    const organizationId = Number(id);
+    if (!isOrganizationAdmin(tenant, organizationId)) return forbidden();
+
+    const body = await req.json();
+    const parsed = organizationMemberUpdateSchema.safeParse(body);
+    if (!parsed.success) {
+      return errorResponse("Validation Error", {
+        status: 400,
+        code: ERROR_CODES.VALIDATION_ERROR,
+        details: parsed.error.issues.map((issue) => ({
+          field: issue.path.join("."),
+          message: issue.message,
+        })),
+      });
+    }
+
+    if (
+      parsed.data.role &&
+      parsed.data.role !== "ADMIN" &&
+      (await isLastAdmin(organizationId, Number(userId)))
+    ) {
+      return errorResponse("An organization needs at least one admin", {
+        status: 409,
+        code: ERROR_CODES.VALIDATION_ERROR,
+      });
+    }
+
+    const member = await prisma.organizationMember.update({
+      where: {
+        organizationId_userId: { organizationId, userId: Number(userId) },
+      },
+      data: parsed.data,
+    });
+
+    return successResponse("Member updated successfully", member);
+  } catch (error: unknown) {
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2025"
+    ) {
+      return memberNotFound();
+    }
+
+    return handleError(
+      error,
+      "PATCH /api/organizations/[id]/members/[userId]",
+      {
+        status: 500,
+        code: ERROR_CODES.ORGANIZATION_UPDATE_FAILED,
+      }
+    );
+  }
+});
+
+// DELETE /api/organizations/:id/members/:userId → remove a member
+// Organization admins only; the last admin cannot be removed.
+export const DELETE = requireOrganizationPermission(
+  "update",
+  "organizations"
+)(async (_req: NextRequest, tenant, ...args: unknown[]) => {
+  const { id, userId } = await (args[0] as RouteContext).params;
+  try {
+    const organizationId = Number(id);
+    if (!isOrganizationAdmin(tenant, organizationId)) return forbidden();
+
+    if (await isLastAdmin(organizationId, Number(userId))) {
+      return errorResponse("An organization needs at least one admin", {
+        status: 409,
+        code: ERROR_CODES.VALIDATION_ERROR,
+      });
+    }
+
+    await prisma.organizationMember.delete({
+      where: {
+        organizationId_userId: { organizationId, userId: Number(userId) },
+      },
+    });
+
+    return successResponse("Member removed successfully");
+  } catch (error: unknown) {
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2025"
+    ) {
+      return memberNotFound();
+    }
+
+    return handleError(
+      error,
+      "DELETE /api/organizations/[id]/members/[userId]",
+      { status: 500, code: ERROR_CODES.ORGANIZATION_UPDATE_FAILED }
+    );
+  }
+});
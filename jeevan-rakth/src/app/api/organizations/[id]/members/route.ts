@@ -0,0 +1,112 @@
+import { Prisma } from "@prisma/client";
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+  ERROR_CODES,
+  errorResponse,
+  successResponse,
+} from "@/lib/responseHandler";
+import { organizationMemberCreateSchema } from "@/lib/schemas/organizationSchema";
+import { handleError } from "@/lib/errorHandler";
+import {
+  canAccessOrganization,
+  isOrganizationAdmin,
+  requireOrganizationPermission,
+} from "@/lib/organizations/tenancy";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// GET /api/organizations/:id/members → members of an organization
+// Visible to the organization's own members and platform admins.
+export const GET = requireOrganizationPermission(
+  "read",
+  "organizations"
+)(async (_req: NextRequest, tenant, ...args: unknown[]) => {
+  const { id } = await (args[0] as RouteContext).params;
+  try {
+    const organizationId = Number(id);
+    if (!canAccessOrganization(tenant, organizationId)) {
+      return errorResponse("Organization not found", {
+        status: 404,
+        code: ERROR_CODES.ORGANIZATION_NOT_FOUND,
+      });
+    }
+
+    const members = await prisma.organizationMember.findMany({
+      where: { organizationId },
+      orderBy: { joinedAt: "asc" },
+      include: { user: { select: { id: true, name: true, email: true } } },
+    });
+
+    return successResponse("Members fetched successfully", { members });
+  } catch (error: unknown) {
+    return handleError(error, "GET /api/organizations/[id]/members", {
+      status: 500,
+      code: ERROR_CODES.ORGANIZATIONS_FETCH_FAILED,
+    });
+  }
+});
+
+// POST /api/organizations/:id/members → add a user to the organization
+// Body: { userId, role? = "STAFF" }. Organization admins only.
+export const POST = requireOrganizationPermission(
+  "update",
+  "organizations"
+)(async (req: NextRequest, tenant, ...args: unknown[]) => {
+  const { id } = await (args[0] as RouteContext).params;
+  try {
+    const organizationId = Number(id);
+    if (!isOrganizationAdmin(tenant, organizationId)) {
+      return errorResponse("Access denied: organization admins only", {
+        status: 403,
+        code: ERROR_CODES.ACCESS_DENIED,
+      });
+    }
+
+    const body = await req.json();
+    const parsed = organizationMemberCreateSchema.safeParse(body);
+    if (!parsed.success) {
+      return errorResponse("Validation Error", {
+        status: 400,
+        code: ERROR_CODES.VALIDATION_ERROR,
+        details: parsed.error.issues.map((issue) => ({
+          field: issue.path.join("."),
+          message: issue.message,
+        })),
+      });
+    }
+
+    const member = await prisma.organizationMember.create({
+      data: { ...parsed.data, organizationId },
+    });
+
+    return successResponse("Member added successfully", member, {
+      status: 201,
+    });
+  } catch (error: unknown) {
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2002"
+    ) {
+      return errorResponse("User is already a member", {
+        status: 409,
+        code: ERROR_CODES.VALIDATION_ERROR,
+      });
+    }
+    // Foreign key violation → the user or organization does not exist
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2003"
+    ) {
+      return errorResponse("User or organization not found", {
+        status: 404,
+        code: ERROR_CODES.USER_NOT_FOUND,
+      });
+    }
+
+    return handleError(error, "POST /api/organizations/[id]/members", {
+      status: 500,
+      code: ERROR_CODES.ORGANIZATION_UPDATE_FAILED,
+    });
+  }
+});
@@ -0,0 +1,123 @@
+import { Prisma } from "@prisma/client";
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+  ERROR_CODES,
+  errorResponse,
+  successResponse,
+} from "@/lib/responseHandler";
+import { organizationUpdateSchema } from "@/lib/schemas/organizationSchema";
+import { handleError } from "@/lib/errorHandler";
+import {
+  canAccessOrganization,
+  requireOrganizationPermission,
+} from "@/lib/organizations/tenancy";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+function notFound() {
+  return errorResponse("Organization not found", {
+    status: 404,
+    code: ERROR_CODES.ORGANIZATION_NOT_FOUND,
+  });
+}
+
+// GET /api/organizations/:id → organization details with member count
+// Unverified organizations are only visible to their members.
+export const GET = requireOrganizationPermission(
+  "read",
+  "organizations"
+)(async (_req: NextRequest, tenant, ...args: unknown[]) => {
+  const { id } = await (args[0] as RouteContext).params;
+  try {
+    const organizationId = Number(id);
+    const organization = await prisma.organization.findUnique({
+      where: { id: organizationId },
+      include: { _count: { select: { members: true } } },
+    });
+
+    if (
+      !organization ||
+      (!organization.verified &&
+        !tenant.isPlatformAdmin &&
+        !tenant.memberships.some((m) => m.organizationId === organizationId))
+    ) {
+      return notFound();
+    }
+
+    return successResponse("Organization retrieved successfully", organization);
+  } catch (error: unknown) {
+    return handleError(error, "GET /api/organizations/[id]", {
+      status: 500,
+      code: ERROR_CODES.ORGANIZATIONS_FETCH_FAILED,
+    });
+  }
+});
+
+// PATCH /api/organizations/:id → edit organization details
+// Organization admins may edit their own organization; only platform admins
+// may change `verified`.
+export const PATCH = requireOrganizationPermission(
+  "update",
+  "organizations"
+)(async (req: NextRequest, tenant, ...args: unknown[]) => {
+  const { id } = await (args[0] as RouteContext).params;
+  try {
+    const organizationId = Number(id);
+    if (!canAccessOrganization(tenant, organizationId)) return notFound();
+
+    const body = await req.json();
+    const parsed = organizationUpdateSchema.safeParse(body);
+    if (!parsed.success) {
+      return errorResponse("Validation Error", {
+        status: 400,
+        code: ERROR_CODES.VALIDATION_ERROR,
+        details: parsed.error.issues.map((issue) => ({
+          field: issue.path.join("."),
+          message: issue.message,
+        })),
+      });
+    }
+
+    const { verified, ...details } = parsed.data;
+    if (verified !== undefined && !tenant.isPlatformAdmin) {
+      return errorResponse("Only platform admins can verify organizations", {
+        status: 403,
+        code: ERROR_CODES.ACCESS_DENIED,
+      });
+    }
+
+    const organization = await prisma.organization.update({
+      where: { id: organizationId },
+      data: {
+        ...details,
+        ...(verified !== undefined
+          ? { verified, verifiedAt: verified ? new Date() : null }
+          : {}),
+      },
+    });
+
+    return successResponse("Organization updated successfully", organization);
+  } catch (error: unknown) {
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2025"
+    ) {
+      return notFound();
+    }
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2002"
+    ) {
+      return errorResponse(
+        "An organization with this registration number or facility code already exists",
+        { status: 409, code: ERROR_CODES.REGISTRATION_NUMBER_CONFLICT }
+      );
+    }
+
+    return handleError(error, "PATCH /api/organizations/[id]", {
+      status: 500,
+      code: ERROR_CODES.ORGANIZATION_UPDATE_FAILED,
+    });
+  }
+});
@@ -0,0 +1,132 @@
+import { Prisma } from "@prisma/client";
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+  ERROR_CODES,
+  errorResponse,
+  successResponse,
+} from "@/lib/responseHandler";
+import {
+  organizationCreateSchema,
+  organizationTypeSchema,
+} from "@/lib/schemas/organizationSchema";
+import { handleError } from "@/lib/errorHandler";
+import { extractUserFromRequest, requirePermission } from "@/lib/rbac";
+import { requireOrganizationPermission } from "@/lib/organizations/tenancy";
+
+const MAX_PAGE_SIZE = 50;
+
+// GET /api/organizations?type=HOSPITAL&verified=true&city=Pune&page=1&limit=10
+// Lists verified organizations plus the ones the caller belongs to;
+// platform admins see every organization.
+// RBAC: Requires 'read' permission on 'organizations' resource
+export const GET = requireOrganizationPermission(
+  "read",
+  "organizations"
+)(async (req: NextRequest, tenant) => {
+  try {
+    const { searchParams } = new URL(req.url);
+    const page = Math.max(Number(searchParams.get("page")) || 1, 1);
+    const limit = Math.min(
+      Math.max(Number(searchParams.get("limit")) || 10, 1),
+      MAX_PAGE_SIZE
+    );
+
+    const type = organizationTypeSchema.safeParse(
+      searchParams.get("type") ?? undefined
+    );
+    const verified = searchParams.get("verified");
+    const city = searchParams.get("city");
+
+    const where: Prisma.OrganizationWhereInput = {
+      ...(type.success ? { type: type.data } : {}),
+      ...(verified !== null ? { verified: verified === "true" } : {}),
+      ...(city ? { city: { equals: city, mode: "insensitive" } } : {}),
+      ...(tenant.isPlatformAdmin
+        ? {}
+        : {
+            OR: [
+              { verified: true },
+              {
+                id: { in: tenant.memberships.map((m) => m.organizationId) },
+              },
+            ],
+          }),
+    };
+
+    const [organizations, total] = await prisma.$transaction([
+      prisma.organization.findMany({
+        where,
+        skip: (page - 1) * limit,
+        take: limit,
+        orderBy: { name: "asc" },
+      }),
+      prisma.organization.count({ where }),
+    ]);
+
+    return successResponse(
+      "Organizations fetched successfully",
+      { organizations },
+      { meta: { page, limit, total } }
+    );
+  } catch (error: unknown) {
+    return handleError(error, "GET /api/organizations", {
+      status: 500,
+      code: ERROR_CODES.ORGANIZATIONS_FETCH_FAILED,
+    });
+  }
+});
+
+// POST /api/organizations → register a hospital, blood bank or NGO
+// The caller becomes its first ADMIN member. New organizations start
+// unverified until a platform admin checks the registration number.
+// RBAC: Requires 'create' permission on 'organizations' resource
+export const POST = requirePermission(
+  "create",
+  "organizations"
+)(async (req: NextRequest) => {
+  try {
+    const body = await req.json();
+    const parsed = organizationCreateSchema.safeParse(body);
+    if (!parsed.success) {
+      return errorResponse("Validation Error", {
+        status: 400,
+        code: ERROR_CODES.VALIDATION_ERROR,
+        details: parsed.error.issues.map((issue) => ({
+          field: issue.path.join("."),
+          message: issue.message,
+        })),
+      });
+    }
+
+    const user = extractUserFromRequest(req);
+
+    const organization = await prisma.organization.create({
+      data: {
+        ...parsed.data,
+        members: { create: { userId: Number(user.id), role: "ADMIN" } },
+      },
+    });
+
+    return successResponse(
+      "Organization registered successfully",
+      organization,
+      { status: 201 }
+    );
+  } catch (error: unknown) {
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2002"
+    ) {
+      return errorResponse(
+        "An organization with this registration number or facility code already exists",
+        { status: 409, code: ERROR_CODES.REGISTRATION_NUMBER_CONFLICT }
+      );
+    }
+
+    return handleError(error, "POST /api/organizations", {
+      status: 500,
+      code: ERROR_CODES.ORGANIZATION_UPDATE_FAILED,
+    });
+  }
+});
@@ -0,0 +1,98 @@
+import { NextRequest } from "next/server";
+import {
+  ERROR_CODES,
+  errorResponse,
+  successResponse,
+} from "@/lib/responseHandler";
+import { crossMatchCandidatesSchema } from "@/lib/schemas/crossMatchSchema";
+import { handleError } from "@/lib/errorHandler";
+import {
+  organizationScope,
+  requireOrganizationPermission,
+} from "@/lib/organizations/tenancy";
+import { addCrossMatchCandidates } from "@/lib/crossMatch/samples";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// POST /api/patient-samples/:id/cross-matches → add candidate units
+// Body: { bloodUnitIds? } (defaults to the units reserved for the request)
+// RBAC: Requires 'update' permission on 'bloodUnits' resource
+export const POST = requireOrganizationPermission(
+  "update",
+  "bloodUnits"
+)(async (req: NextRequest, tenant, ...args: unknown[]) => {
+  const { id } = await (args[0] as RouteContext).params;
+  try {
+    const body = await req.json().catch(() => ({}));
+    const parsed = crossMatchCandidatesSchema.safeParse(body);
+    if (!parsed.success) {
+      return errorResponse("Validation Error", {
+        status: 400,
+        code: ERROR_CODES.VALIDATION_ERROR,
+        details: parsed.error.issues.map((issue) => ({
+          field: issue.path.join("."),
+          message: issue.message,
+        })),
+      });
+    }
+
+    const sample = await addCrossMatchCandidates(
+      Number(id),
+      parsed.data.bloodUnitIds,
+      organizationScope(tenant)
+    );
+
+    return successResponse(
+      "Cross-match candidates added successfully",
+      sample,
+      {
+        status: 201,
+      }
+    );
+  } catch (error: unknown) {
+    if (error instanceof Error && error.message === "SAMPLE_NOT_FOUND") {
+      return errorResponse("Patient sample not found", {
+        status: 404,
+        code: ERROR_CODES.SAMPLE_NOT_FOUND,
+      });
+    }
+    if (error instanceof Error && error.message === "SAMPLE_EXPIRED") {
+      return errorResponse("Sample has expired; draw a new one", {
+        status: 409,
+        code: ERROR_CODES.SAMPLE_EXPIRED,
+      });
+    }
+    if (
+      error instanceof Error &&
+      error.message === "INVALID_STATUS_TRANSITION"
+    ) {
+      return errorResponse("Cannot cross-match for a closed request", {
+        status: 409,
+        code: ERROR_CODES.INVALID_STATUS_TRANSITION,
+      });
+    }
+    if (error instanceof Error && error.message === "BLOOD_UNIT_NOT_FOUND") {
+      return errorResponse("Blood unit not found", {
+        status: 404,
+        code: ERROR_CODES.BLOOD_UNIT_NOT_FOUND,
+      });
+    }
+    if (error instanceof Error && error.message === "NO_CANDIDATE_UNITS") {
+      return errorResponse("No units are reserved for the request", {
+        status: 400,
+        code: ERROR_CODES.VALIDATION_ERROR,
+      });
+    }
+    if (error instanceof Error && error.message === "UNIT_NOT_ELIGIBLE") {
+      return errorResponse(
+        "Units must be in date, compatible with the patient and not held for another request",
+        { status: 409, code: ERROR_CODES.UNIT_NOT_ELIGIBLE }
+      );
+    }
+
+    return handleError(error, "POST /api/patient-samples/[id]/cross-matches", {
+      status: 500,
+      code: ERROR_CODES.SAMPLE_UPDATE_FAILED,
+    });
+  }
+});
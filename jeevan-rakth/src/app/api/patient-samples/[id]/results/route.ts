@@ -0,0 +1,97 @@
+import { Prisma } from "@prisma/client";
+import { NextRequest } from "next/server";
+import {
+  ERROR_CODES,
+  errorResponse,
+  successResponse,
+} from "@/lib/responseHandler";
+import { pretransfusionResultSchema } from "@/lib/schemas/crossMatchSchema";
+import { handleError } from "@/lib/errorHandler";
+import {
+  organizationScope,
+  requireOrganizationPermission,
+} from "@/lib/organizations/tenancy";
+import { recordPretransfusionResult } from "@/lib/crossMatch/samples";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// POST /api/patient-samples/:id/results → enter a test result
+// Body: { test: "ANTIBODY_SCREEN", result: "NEGATIVE" | "POSITIVE" } |
+//       { test: "IMMEDIATE_SPIN" | "FULL_CROSSMATCH", bloodUnitId,
+//         result: "COMPATIBLE" | "INCOMPATIBLE" }
+// The caller is recorded as the technician who entered the result.
+// RBAC: Requires 'update' permission on 'bloodUnits' resource
+export const POST = requireOrganizationPermission(
+  "update",
+  "bloodUnits"
+)(async (req: NextRequest, tenant, ...args: unknown[]) => {
+  const { id } = await (args[0] as RouteContext).params;
+  try {
+    const body = await req.json();
+    const parsed = pretransfusionResultSchema.safeParse(body);
+    if (!parsed.success) {
+      return errorResponse("Validation Error", {
+        status: 400,
+        code: ERROR_CODES.VALIDATION_ERROR,
+        details: parsed.error.issues.map((issue) => ({
+          field: issue.path.join("."),
+          message: issue.message,
+        })),
+      });
+    }
+
+    const sample = await recordPretransfusionResult(
+      Number(id),
+      parsed.data,
+      organizationScope(tenant),
+      tenant.userId
+    );
+
+    return successResponse("Result recorded successfully", sample, {
+      status: 201,
+    });
+  } catch (error: unknown) {
+    if (error instanceof Error && error.message === "SAMPLE_NOT_FOUND") {
+      return errorResponse("Patient sample not found", {
+        status: 404,
+        code: ERROR_CODES.SAMPLE_NOT_FOUND,
+      });
+    }
+    if (error instanceof Error && error.message === "SAMPLE_EXPIRED") {
+      return errorResponse("Sample has expired; draw a new one", {
+        status: 409,
+        code: ERROR_CODES.SAMPLE_EXPIRED,
+      });
+    }
+    if (error instanceof Error && error.message === "CROSS_MATCH_NOT_FOUND") {
+      return errorResponse(
+        "Unit is not a cross-match candidate on this sample",
+        {
+          status: 404,
+          code: ERROR_CODES.CROSS_MATCH_NOT_FOUND,
+        }
+      );
+    }
+    if (error instanceof Error && error.message === "RESULT_ALREADY_RECORDED") {
+      return errorResponse("A result for this test is already recorded", {
+        status: 409,
+        code: ERROR_CODES.RESULT_ALREADY_RECORDED,
+      });
+    }
+    // Serialization failure → another result was entered at the same time
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2034"
+    ) {
+      return errorResponse("Sample was modified concurrently, retry", {
+        status: 409,
+        code: ERROR_CODES.INVALID_STATUS_TRANSITION,
+      });
+    }
+
+    return handleError(error, "POST /api/patient-samples/[id]/results", {
+      status: 500,
+      code: ERROR_CODES.SAMPLE_UPDATE_FAILED,
+    });
+  }
+});
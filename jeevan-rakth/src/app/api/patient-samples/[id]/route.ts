@@ -0,0 +1,56 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+  ERROR_CODES,
+  errorResponse,
+  successResponse,
+} from "@/lib/responseHandler";
+import { handleError } from "@/lib/errorHandler";
+import {
+  organizationScope,
+  requireOrganizationPermission,
+} from "@/lib/organizations/tenancy";
+import { PATIENT_SAMPLE_INCLUDE } from "@/lib/crossMatch/samples";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// GET /api/patient-samples/:id → a sample with its antibody screen and
+// cross-match results, each with the technician who entered it
+// RBAC: Requires 'read' permission on 'bloodUnits' resource
+export const GET = requireOrganizationPermission(
+  "read",
+  "bloodUnits"
+)(async (_req: NextRequest, tenant, ...args: unknown[]) => {
+  const { id } = await (args[0] as RouteContext).params;
+  try {
+    const sample = await prisma.patientSample.findFirst({
+      where: { id: Number(id), ...organizationScope(tenant) },
+      include: {
+        ...PATIENT_SAMPLE_INCLUDE,
+        request: {
+          select: {
+            id: true,
+            patientName: true,
+            bloodGroup: true,
+            component: true,
+            status: true,
+          },
+        },
+      },
+    });
+
+    if (!sample) {
+      return errorResponse("Patient sample not found", {
+        status: 404,
+        code: ERROR_CODES.SAMPLE_NOT_FOUND,
+      });
+    }
+
+    return successResponse("Patient sample retrieved successfully", sample);
+  } catch (error: unknown) {
+    return handleError(error, "GET /api/patient-samples/[id]", {
+      status: 500,
+      code: ERROR_CODES.SAMPLES_FETCH_FAILED,
+    });
+  }
+});
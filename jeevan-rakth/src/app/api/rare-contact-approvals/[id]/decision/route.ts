@@ -0,0 +1,78 @@
+import { NextRequest } from "next/server";
+import {
+  ERROR_CODES,
+  errorResponse,
+  successResponse,
+} from "@/lib/responseHandler";
+import { rareContactDecisionSchema } from "@/lib/schemas/phenotypeSchema";
+import { handleError } from "@/lib/errorHandler";
+import { extractUserFromRequest, requireAdmin } from "@/lib/rbac";
+import { decideRareDonorContact } from "@/lib/donors/rareContact";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// POST /api/rare-contact-approvals/:id/decision → approve or reject an ask
+// e.g. { "decision": "APPROVE", "note": "Last contacted 8 months ago" }
+// RBAC: Platform admins only
+export const POST = requireAdmin(
+  async (req: NextRequest, ...args: unknown[]) => {
+    const { id } = await (args[0] as RouteContext).params;
+    try {
+      const body = await req.json();
+      const parsed = rareContactDecisionSchema.safeParse(body);
+      if (!parsed.success) {
+        return errorResponse("Validation Error", {
+          status: 400,
+          code: ERROR_CODES.VALIDATION_ERROR,
+          details: parsed.error.issues.map((issue) => ({
+            field: issue.path.join("."),
+            message: issue.message,
+          })),
+        });
+      }
+
+      const decider = extractUserFromRequest(req);
+      const approval = await decideRareDonorContact(
+        Number(id),
+        parsed.data,
+        Number(decider.id)
+      );
+
+      return successResponse("Decision recorded", approval);
+    } catch (error: unknown) {
+      if (
+        error instanceof Error &&
+        error.message === "RARE_CONTACT_NOT_FOUND"
+      ) {
+        return errorResponse("Contact approval not found", {
+          status: 404,
+          code: ERROR_CODES.RARE_CONTACT_NOT_FOUND,
+        });
+      }
+      if (error instanceof Error && error.message === "SELF_APPROVAL") {
+        return errorResponse("Access denied: cannot decide your own ask", {
+          status: 403,
+          code: ERROR_CODES.ACCESS_DENIED,
+        });
+      }
+      if (
+        error instanceof Error &&
+        error.message === "RARE_CONTACT_ALREADY_DECIDED"
+      ) {
+        return errorResponse("This ask has already been decided", {
+          status: 409,
+          code: ERROR_CODES.RARE_CONTACT_ALREADY_DECIDED,
+        });
+      }
+
+      return handleError(
+        error,
+        "POST /api/rare-contact-approvals/[id]/decision",
+        {
+          status: 500,
+          code: ERROR_CODES.RARE_CONTACT_UPDATE_FAILED,
+        }
+      );
+    }
+  }
+);
@@ -0,0 +1,54 @@
+import { Prisma } from "@prisma/client";
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { ERROR_CODES, successResponse } from "@/lib/responseHandler";
+import { rareContactStatusSchema } from "@/lib/schemas/phenotypeSchema";
+import { handleError } from "@/lib/errorHandler";
+import { requireAdmin } from "@/lib/rbac";
+import { RARE_CONTACT_INCLUDE } from "@/lib/donors/rareContact";
+
+const MAX_PAGE_SIZE = 50;
+
+// GET /api/rare-contact-approvals?status=PENDING&page=1&limit=20 → asks to
+// contact rare donors, oldest first
+// Decided asks (status=APPROVED or REJECTED) serve as the audit trail.
+// RBAC: Platform admins only
+export const GET = requireAdmin(async (req: NextRequest) => {
+  try {
+    const { searchParams } = new URL(req.url);
+    const page = Math.max(Number(searchParams.get("page")) || 1, 1);
+    const limit = Math.min(
+      Math.max(Number(searchParams.get("limit")) || 20, 1),
+      MAX_PAGE_SIZE
+    );
+    const status = rareContactStatusSchema.safeParse(
+      searchParams.get("status") ?? "PENDING"
+    );
+
+    const where: Prisma.RareDonorContactApprovalWhereInput = {
+      status: status.success ? status.data : "PENDING",
+    };
+
+    const [approvals, total] = await prisma.$transaction([
+      prisma.rareDonorContactApproval.findMany({
+        where,
+        skip: (page - 1) * limit,
+        take: limit,
+        orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+        include: RARE_CONTACT_INCLUDE,
+      }),
+      prisma.rareDonorContactApproval.count({ where }),
+    ]);
+
+    return successResponse(
+      "Rare donor contact approvals fetched successfully",
+      { approvals },
+      { meta: { page, limit, total } }
+    );
+  } catch (error: unknown) {
+    return handleError(error, "GET /api/rare-contact-approvals", {
+      status: 500,
+      code: ERROR_CODES.RARE_CONTACTS_FETCH_FAILED,
+    });
+  }
+});
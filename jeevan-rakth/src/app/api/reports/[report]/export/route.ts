@@ -0,0 +1,91 @@
+import { NextRequest } from "next/server";
+import type { Role } from "@/config/roles";
+import { ERROR_CODES, errorResponse } from "@/lib/responseHandler";
+import {
+  reportExportQuerySchema,
+  reportIdSchema,
+} from "@/lib/schemas/reportSchema";
+import { handleError } from "@/lib/errorHandler";
+import { requireOrganizationPermission } from "@/lib/organizations/tenancy";
+import {
+  REPORTS,
+  canViewPii,
+  resolveReportFilters,
+  visibleColumns,
+} from "@/lib/reports/registry";
+import { csvStream, exportResponse, xlsxStream } from "@/lib/reports/export";
+
+type RouteContext = { params: Promise<{ report: string }> };
+
+// GET /api/reports/:report/export?format=xlsx&from=2026-01-01&to=2026-12-31&organizationId=3&bloodGroup=O-
+// Streams every row of a report as CSV (default) or XLSX. Patient and
+// donor names and contacts are only exported for admins and editors.
+// RBAC: Requires 'read' permission on 'reports' resource
+export const GET = requireOrganizationPermission(
+  "read",
+  "reports"
+)(async (req: NextRequest, tenant, ...args) => {
+  const { report: reportId } = await (args[0] as RouteContext).params;
+  try {
+    const id = reportIdSchema.safeParse(reportId);
+    if (!id.success) {
+      return errorResponse("Report not found", {
+        status: 404,
+        code: ERROR_CODES.REPORT_NOT_FOUND,
+      });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const parsed = reportExportQuerySchema.safeParse(
+      Object.fromEntries(searchParams)
+    );
+    if (!parsed.success) {
+      return errorResponse("Validation Error", {
+        status: 400,
+        code: ERROR_CODES.VALIDATION_ERROR,
+        details: parsed.error.issues.map((issue) => ({
+          field: issue.path.join("."),
+          message: issue.message,
+        })),
+      });
+    }
+
+    const { format, ...query } = parsed.data;
+    const report = REPORTS[id.data];
+    const filters = resolveReportFilters(tenant, query);
+    const columns = visibleColumns(
+      report,
+      canViewPii(tenant.user.role as Role)
+    );
+
+    const rows = report.rows(filters);
+    const body =
+      format === "xlsx"
+        ? xlsxStream(report.title, columns, rows)
+        : csvStream(columns, rows);
+    // `to` is exclusive; name the file after the last day covered
+    const day = (date: Date) => date.toISOString().slice(0, 10);
+    const lastDay = new Date(query.to.getTime() - 1);
+
+    return exportResponse(
+      body,
+      format,
+      `${report.id}-${day(query.from)}-to-${day(lastDay)}`
+    );
+  } catch (error: unknown) {
+    if (
+      error instanceof Error &&
+      error.message === "ORGANIZATION_ACCESS_DENIED"
+    ) {
+      return errorResponse("Access denied: not a member of organization", {
+        status: 403,
+        code: ERROR_CODES.ACCESS_DENIED,
+      });
+    }
+
+    return handleError(error, "GET /api/reports/[report]/export", {
+      status: 500,
+      code: ERROR_CODES.REPORT_EXPORT_FAILED,
+    });
+  }
+});
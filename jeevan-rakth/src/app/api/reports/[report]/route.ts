@@ -0,0 +1,106 @@
+import { NextRequest } from "next/server";
+import type { Role } from "@/config/roles";
+import {
+  ERROR_CODES,
+  errorResponse,
+  successResponse,
+} from "@/lib/responseHandler";
+import { reportIdSchema, reportQuerySchema } from "@/lib/schemas/reportSchema";
+import { handleError } from "@/lib/errorHandler";
+import { requireOrganizationPermission } from "@/lib/organizations/tenancy";
+import {
+  REPORTS,
+  canViewPii,
+  resolveReportFilters,
+  visibleColumns,
+} from "@/lib/reports/registry";
+import type { ReportRow } from "@/lib/reports/types";
+
+type RouteContext = { params: Promise<{ report: string }> };
+
+// GET /api/reports/:report?from=2026-01-01&to=2026-06-30&organizationId=3&bloodGroup=O-&interval=month&page=1&limit=50
+// One page of a report's table plus its chart series. Patient and donor
+// names and contacts are only included for admins and editors.
+// RBAC: Requires 'read' permission on 'reports' resource
+export const GET = requireOrganizationPermission(
+  "read",
+  "reports"
+)(async (req: NextRequest, tenant, ...args) => {
+  const { report: reportId } = await (args[0] as RouteContext).params;
+  try {
+    const id = reportIdSchema.safeParse(reportId);
+    if (!id.success) {
+      return errorResponse("Report not found", {
+        status: 404,
+        code: ERROR_CODES.REPORT_NOT_FOUND,
+      });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const parsed = reportQuerySchema.safeParse(
+      Object.fromEntries(searchParams)
+    );
+    if (!parsed.success) {
+      return errorResponse("Validation Error", {
+        status: 400,
+        code: ERROR_CODES.VALIDATION_ERROR,
+        details: parsed.error.issues.map((issue) => ({
+          field: issue.path.join("."),
+          message: issue.message,
+        })),
+      });
+    }
+
+    const { page, limit, ...query } = parsed.data;
+    const report = REPORTS[id.data];
+    const filters = resolveReportFilters(tenant, query);
+    const columns = visibleColumns(
+      report,
+      canViewPii(tenant.user.role as Role)
+    );
+
+    // One extra row tells whether another page follows
+    const rows: ReportRow[] = [];
+    for await (const row of report.rows(filters, {
+      offset: (page - 1) * limit,
+      limit: limit + 1,
+    })) {
+      rows.push(
+        Object.fromEntries(columns.map((c) => [c.key, row[c.key] ?? null]))
+      );
+    }
+    const chart = await report.chart(filters);
+
+    return successResponse(
+      "Report fetched successfully",
+      {
+        report: {
+          id: report.id,
+          title: report.title,
+          description: report.description,
+          chartLabel: report.chartLabel,
+          chartUnit: report.chartUnit,
+        },
+        columns,
+        rows: rows.slice(0, limit),
+        chart,
+      },
+      { meta: { page, limit, hasMore: rows.length > limit } }
+    );
+  } catch (error: unknown) {
+    if (
+      error instanceof Error &&
+      error.message === "ORGANIZATION_ACCESS_DENIED"
+    ) {
+      return errorResponse("Access denied: not a member of organization", {
+        status: 403,
+        code: ERROR_CODES.ACCESS_DENIED,
+      });
+    }
+
+    return handleError(error, "GET /api/reports/[report]", {
+      status: 500,
+      code: ERROR_CODES.REPORT_FETCH_FAILED,
+    });
+  }
+});
@@ -0,0 +1,45 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import type { Role } from "@/config/roles";
+import { ERROR_CODES, successResponse } from "@/lib/responseHandler";
+import { handleError } from "@/lib/errorHandler";
+import { requireOrganizationPermission } from "@/lib/organizations/tenancy";
+import { REPORTS, canViewPii, visibleColumns } from "@/lib/reports/registry";
+
+// GET /api/reports → the available reports with the columns the caller may
+// see, and the organizations they can report on
+// RBAC: Requires 'read' permission on 'reports' resource
+export const GET = requireOrganizationPermission(
+  "read",
+  "reports"
+)(async (_req: NextRequest, tenant) => {
+  try {
+    const includePii = canViewPii(tenant.user.role as Role);
+    const organizations = await prisma.organization.findMany({
+      where:
+        tenant.organizationIds === null
+          ? {}
+          : { id: { in: tenant.organizationIds } },
+      orderBy: { name: "asc" },
+      select: { id: true, name: true },
+    });
+
+    return successResponse("Reports fetched successfully", {
+      reports: Object.values(REPORTS).map((report) => ({
+        id: report.id,
+        title: report.title,
+        description: report.description,
+        chartLabel: report.chartLabel,
+        chartUnit: report.chartUnit,
+        columns: visibleColumns(report, includePii),
+      })),
+      organizations,
+      includesPii: includePii,
+    });
+  } catch (error: unknown) {
+    return handleError(error, "GET /api/reports", {
+      status: 500,
+      code: ERROR_CODES.REPORT_FETCH_FAILED,
+    });
+  }
+});
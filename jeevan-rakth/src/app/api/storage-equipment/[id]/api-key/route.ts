@@ -0,0 +1,45 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+  ERROR_CODES,
+  errorResponse,
+  successResponse,
+} from "@/lib/responseHandler";
+import { handleError } from "@/lib/errorHandler";
+import {
+  organizationScope,
+  requireOrganizationPermission,
+} from "@/lib/organizations/tenancy";
+import { generateApiKey } from "@/lib/coldChain/equipment";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// POST /api/storage-equipment/:id/api-key → issue a new data logger key
+// The previous key stops working at once; the new one is not shown again.
+// RBAC: Requires 'update' permission on 'bloodUnits' resource
+export const POST = requireOrganizationPermission(
+  "update",
+  "bloodUnits"
+)(async (_req: NextRequest, tenant, ...args: unknown[]) => {
+  const { id } = await (args[0] as RouteContext).params;
+  try {
+    const { apiKey, apiKeyHash } = generateApiKey();
+    const { count } = await prisma.storageEquipment.updateMany({
+      where: { id: Number(id), ...organizationScope(tenant) },
+      data: { apiKeyHash },
+    });
+    if (count === 0) {
+      return errorResponse("Storage equipment not found", {
+        status: 404,
+        code: ERROR_CODES.STORAGE_EQUIPMENT_NOT_FOUND,
+      });
+    }
+
+    return successResponse("API key rotated successfully", { apiKey });
+  } catch (error: unknown) {
+    return handleError(error, "POST /api/storage-equipment/[id]/api-key", {
+      status: 500,
+      code: ERROR_CODES.STORAGE_EQUIPMENT_UPDATE_FAILED,
+    });
+  }
+});
@@ -0,0 +1,169 @@
+import { Prisma } from "@prisma/client";
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+  ERROR_CODES,
+  errorResponse,
+  successResponse,
+} from "@/lib/responseHandler";
+import { temperatureReadingBatchSchema } from "@/lib/schemas/coldChainSchema";
+import { handleError } from "@/lib/errorHandler";
+import {
+  organizationScope,
+  requireOrganizationPermission,
+} from "@/lib/organizations/tenancy";
+import { authenticateEquipment } from "@/lib/coldChain/equipment";
+import { ingestReadings, parseReadingsCsv } from "@/lib/coldChain/readings";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// Readings are logged every few minutes, so pages hold a few hours
+const MAX_PAGE_SIZE = 200;
+
+// GET /api/storage-equipment/:id/readings?from=2026-10-21T00:00:00Z&to=...&page=1&limit=100
+// Readings latest first
+// RBAC: Requires 'read' permission on 'bloodUnits' resource
+export const GET = requireOrganizationPermission(
+  "read",
+  "bloodUnits"
+)(async (req: NextRequest, tenant, ...args: unknown[]) => {
+  const { id } = await (args[0] as RouteContext).params;
+  try {
+    const equipment = await prisma.storageEquipment.findFirst({
+      where: { id: Number(id), ...organizationScope(tenant) },
+      select: { id: true },
+    });
+    if (!equipment) {
+      return errorResponse("Storage equipment not found", {
+        status: 404,
+        code: ERROR_CODES.STORAGE_EQUIPMENT_NOT_FOUND,
+      });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const page = Math.max(Number(searchParams.get("page")) || 1, 1);
+    const limit = Math.min(
+      Math.max(Number(searchParams.get("limit")) || 100, 1),
+      MAX_PAGE_SIZE
+    );
+    const from = new Date(searchParams.get("from") ?? "");
+    const to = new Date(searchParams.get("to") ?? "");
+
+    const where: Prisma.TemperatureReadingWhereInput = {
+      equipmentId: equipment.id,
+      recordedAt: {
+        ...(isNaN(from.getTime()) ? {} : { gte: from }),
+        ...(isNaN(to.getTime()) ? {} : { lte: to }),
+      },
+    };
+
+    const [readings, total] = await prisma.$transaction([
+      prisma.temperatureReading.findMany({
+        where,
+        skip: (page - 1) * limit,
+        take: limit,
+        orderBy: { recordedAt: "desc" },
+      }),
+      prisma.temperatureReading.count({ where }),
+    ]);
+
+    return successResponse(
+      "Temperature readings fetched successfully",
+      { readings },
+      { meta: { page, limit, total } }
+    );
+  } catch (error: unknown) {
+    return handleError(error, "GET /api/storage-equipment/[id]/readings", {
+      status: 500,
+      code: ERROR_CODES.STORAGE_EQUIPMENT_FETCH_FAILED,
+    });
+  }
+});
+
+/**
+ * The upload as { readings: [...] }: a JSON body as is, or the rows of a
+ * CSV sent as the body or as the `file` field of a form
+ */
+async function readingsPayload(req: NextRequest): Promise<unknown> {
+  const contentType = req.headers.get("content-type") ?? "";
+  if (contentType.startsWith("multipart/form-data")) {
+    const file = (await req.formData()).get("file");
+    if (!(file instanceof File)) throw new Error("INVALID_CSV");
+    return { readings: parseReadingsCsv(await file.text()) };
+  }
+  if (contentType.startsWith("text/csv")) {
+    return { readings: parseReadingsCsv(await req.text()) };
+  }
+  return req.json();
+}
+
+// POST /api/storage-equipment/:id/readings → upload a data logger batch
+// Authenticated by the equipment's key in the `x-api-key` header, e.g.
+//   { "readings": [{ "recordedAt": "2026-10-21T09:00:00Z", "temperatureC": 4.2 }] }
+// or a CSV (as a text/csv body or a multipart `file`) such as
+//   recordedAt,temperatureC
+//   2026-10-21T09:00:00Z,4.2
+// Readings already stored are skipped, so a batch may be re-sent.
+export async function POST(req: NextRequest, context: RouteContext) {
+  const { id } = await context.params;
+  try {
+    const apiKey = req.headers.get("x-api-key");
+    const equipment = apiKey
+      ? await authenticateEquipment(Number(id), apiKey)
+      : null;
+    if (!equipment) {
+      return errorResponse("Invalid API key", {
+        status: 401,
+        code: ERROR_CODES.INVALID_API_KEY,
+      });
+    }
+    if (!equipment.active) {
+      return errorResponse("Storage equipment is inactive", {
+        status: 403,
+        code: ERROR_CODES.EQUIPMENT_INACTIVE,
+      });
+    }
+
+    const parsed = temperatureReadingBatchSchema.safeParse(
+      await readingsPayload(req)
+    );
+    if (!parsed.success) {
+      return errorResponse("Validation Error", {
+        status: 400,
+        code: ERROR_CODES.VALIDATION_ERROR,
+        details: parsed.error.issues.map((issue) => ({
+          field: issue.path.join("."),
+          message: issue.message,
+        })),
+      });
+    }
+
+    const summary = await ingestReadings(equipment, parsed.data.readings);
+
+    return successResponse("Temperature readings recorded", summary, {
+      status: summary.recorded > 0 ? 201 : 200,
+    });
+  } catch (error: unknown) {
+    if (error instanceof Error && error.message === "INVALID_CSV") {
+      return errorResponse(
+        "Upload a CSV file with a recordedAt,temperatureC header",
+        { status: 400, code: ERROR_CODES.VALIDATION_ERROR }
+      );
+    }
+    // Serialization failure → another batch for the equipment landed meanwhile
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2034"
+    ) {
+      return errorResponse("Readings were uploaded concurrently, retry", {
+        status: 409,
+        code: ERROR_CODES.READINGS_INGEST_FAILED,
+      });
+    }
+
+    return handleError(error, "POST /api/storage-equipment/[id]/readings", {
+      status: 500,
+      code: ERROR_CODES.READINGS_INGEST_FAILED,
+    });
+  }
+}
@@ -0,0 +1,125 @@
+import { Prisma } from "@prisma/client";
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+  ERROR_CODES,
+  errorResponse,
+  successResponse,
+} from "@/lib/responseHandler";
+import { storageEquipmentUpdateSchema } from "@/lib/schemas/coldChainSchema";
+import { handleError } from "@/lib/errorHandler";
+import {
+  organizationScope,
+  requireOrganizationPermission,
+} from "@/lib/organizations/tenancy";
+import { STORAGE_EQUIPMENT_SELECT } from "@/lib/coldChain/equipment";
+import { equipmentTemperatureRangeC } from "@/config/coldChain";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+function notFound() {
+  return errorResponse("Storage equipment not found", {
+    status: 404,
+    code: ERROR_CODES.STORAGE_EQUIPMENT_NOT_FOUND,
+  });
+}
+
+// GET /api/storage-equipment/:id → equipment with its range, the excursion
+// in progress if any and the units in stock stored in it
+// RBAC: Requires 'read' permission on 'bloodUnits' resource
+export const GET = requireOrganizationPermission(
+  "read",
+  "bloodUnits"
+)(async (_req: NextRequest, tenant, ...args: unknown[]) => {
+  const { id } = await (args[0] as RouteContext).params;
+  try {
+    const equipment = await prisma.storageEquipment.findFirst({
+      where: { id: Number(id), ...organizationScope(tenant) },
+      select: {
+        ...STORAGE_EQUIPMENT_SELECT,
+        excursions: {
+          where: { endedAt: null },
+          select: { id: true, startedAt: true, peakTemperatureC: true },
+        },
+        bloodUnits: {
+          where: { status: { in: ["QUARANTINE", "AVAILABLE", "RESERVED"] } },
+          orderBy: [{ expiresAt: "asc" }, { id: "asc" }],
+          select: {
+            id: true,
+            donationNumber: true,
+            component: true,
+            bloodGroup: true,
+            status: true,
+            expiresAt: true,
+          },
+        },
+      },
+    });
+
+    if (!equipment) return notFound();
+
+    const { excursions, ...rest } = equipment;
+    return successResponse("Storage equipment retrieved successfully", {
+      ...rest,
+      range: equipmentTemperatureRangeC[equipment.type],
+      openExcursion: excursions[0] ?? null,
+    });
+  } catch (error: unknown) {
+    return handleError(error, "GET /api/storage-equipment/[id]", {
+      status: 500,
+      code: ERROR_CODES.STORAGE_EQUIPMENT_FETCH_FAILED,
+    });
+  }
+});
+
+// PATCH /api/storage-equipment/:id → rename, move or retire equipment
+// e.g. { "location": "Blood bank, ground floor" } or { "active": false }
+// RBAC: Requires 'update' permission on 'bloodUnits' resource
+export const PATCH = requireOrganizationPermission(
+  "update",
+  "bloodUnits"
+)(async (req: NextRequest, tenant, ...args: unknown[]) => {
+  const { id } = await (args[0] as RouteContext).params;
+  try {
+    const body = await req.json();
+    const parsed = storageEquipmentUpdateSchema.safeParse(body);
+    if (!parsed.success) {
+      return errorResponse("Validation Error", {
+        status: 400,
+        code: ERROR_CODES.VALIDATION_ERROR,
+        details: parsed.error.issues.map((issue) => ({
+          field: issue.path.join("."),
+          message: issue.message,
+        })),
+      });
+    }
+
+    const { count } = await prisma.storageEquipment.updateMany({
+      where: { id: Number(id), ...organizationScope(tenant) },
+      data: parsed.data,
+    });
+    if (count === 0) return notFound();
+
+    const equipment = await prisma.storageEquipment.findUnique({
+      where: { id: Number(id) },
+      select: STORAGE_EQUIPMENT_SELECT,
+    });
+
+    return successResponse("Storage equipment updated successfully", equipment);
+  } catch (error: unknown) {
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2002"
+    ) {
+      return errorResponse(
+        "The organization already has equipment with this name",
+        { status: 409, code: ERROR_CODES.EQUIPMENT_NAME_CONFLICT }
+      );
+    }
+
+    return handleError(error, "PATCH /api/storage-equipment/[id]", {
+      status: 500,
+      code: ERROR_CODES.STORAGE_EQUIPMENT_UPDATE_FAILED,
+    });
+  }
+});
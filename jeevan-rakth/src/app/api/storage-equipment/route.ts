@@ -0,0 +1,159 @@
+import { Prisma } from "@prisma/client";
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+  ERROR_CODES,
+  errorResponse,
+  successResponse,
+} from "@/lib/responseHandler";
+import {
+  storageEquipmentCreateSchema,
+  storageEquipmentTypeSchema,
+} from "@/lib/schemas/coldChainSchema";
+import { handleError } from "@/lib/errorHandler";
+import {
+  canAccessOrganization,
+  organizationScope,
+  requireOrganizationPermission,
+  resolveTargetOrganization,
+} from "@/lib/organizations/tenancy";
+import {
+  STORAGE_EQUIPMENT_SELECT,
+  generateApiKey,
+} from "@/lib/coldChain/equipment";
+
+const MAX_PAGE_SIZE = 50;
+
+// GET /api/storage-equipment?type=FREEZER&active=true&page=1&limit=20
+// Equipment of the caller's organizations with its latest reading
+// RBAC: Requires 'read' permission on 'bloodUnits' resource
+export const GET = requireOrganizationPermission(
+  "read",
+  "bloodUnits"
+)(async (req: NextRequest, tenant) => {
+  try {
+    const { searchParams } = new URL(req.url);
+    const page = Math.max(Number(searchParams.get("page")) || 1, 1);
+    const limit = Math.min(
+      Math.max(Number(searchParams.get("limit")) || 20, 1),
+      MAX_PAGE_SIZE
+    );
+    const type = storageEquipmentTypeSchema.safeParse(
+      searchParams.get("type") ?? undefined
+    );
+    const active = searchParams.get("active");
+
+    const where: Prisma.StorageEquipmentWhereInput = {
+      ...organizationScope(tenant),
+      ...(type.success ? { type: type.data } : {}),
+      ...(active === "true" || active === "false"
+        ? { active: active === "true" }
+        : {}),
+    };
+
+    const [equipment, total] = await prisma.$transaction([
+      prisma.storageEquipment.findMany({
+        where,
+        skip: (page - 1) * limit,
+        take: limit,
+        orderBy: [{ name: "asc" }, { id: "asc" }],
+        select: STORAGE_EQUIPMENT_SELECT,
+      }),
+      prisma.storageEquipment.count({ where }),
+    ]);
+
+    return successResponse(
+      "Storage equipment fetched successfully",
+      { equipment },
+      { meta: { page, limit, total } }
+    );
+  } catch (error: unknown) {
+    return handleError(error, "GET /api/storage-equipment", {
+      status: 500,
+      code: ERROR_CODES.STORAGE_EQUIPMENT_FETCH_FAILED,
+    });
+  }
+});
+
+// POST /api/storage-equipment → register monitored storage
+// e.g. { "name": "Fridge 2", "type": "REFRIGERATOR", "location": "Store room" }
+// The response carries the data logger's API key; it is not shown again.
+// RBAC: Requires 'create' permission on 'bloodUnits' resource
+export const POST = requireOrganizationPermission(
+  "create",
+  "bloodUnits"
+)(async (req: NextRequest, tenant) => {
+  try {
+    const body = await req.json();
+    const parsed = storageEquipmentCreateSchema.safeParse(body);
+    if (!parsed.success) {
+      return errorResponse("Validation Error", {
+        status: 400,
+        code: ERROR_CODES.VALIDATION_ERROR,
+        details: parsed.error.issues.map((issue) => ({
+          field: issue.path.join("."),
+          message: issue.message,
+        })),
+      });
+    }
+
+    const organizationId = resolveTargetOrganization(
+      tenant,
+      parsed.data.organizationId
+    );
+    if (!canAccessOrganization(tenant, organizationId)) {
+      return errorResponse("Access denied: not a member of organization", {
+        status: 403,
+        code: ERROR_CODES.ACCESS_DENIED,
+      });
+    }
+
+    const { apiKey, apiKeyHash } = generateApiKey();
+    const equipment = await prisma.storageEquipment.create({
+      data: { ...parsed.data, organizationId, apiKeyHash },
+      select: STORAGE_EQUIPMENT_SELECT,
+    });
+
+    return successResponse(
+      "Storage equipment registered successfully",
+      { equipment, apiKey },
+      { status: 201 }
+    );
+  } catch (error: unknown) {
+    if (error instanceof Error && error.message === "ORGANIZATION_REQUIRED") {
+      return errorResponse("organizationId is required", {
+        status: 400,
+        code: ERROR_CODES.VALIDATION_ERROR,
+      });
+    }
+    if (error instanceof Error && error.message === "ORGANIZATION_NOT_FOUND") {
+      return errorResponse("Organization not found", {
+        status: 404,
+        code: ERROR_CODES.ORGANIZATION_NOT_FOUND,
+      });
+    }
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2003"
+    ) {
+      return errorResponse("Organization not found", {
+        status: 404,
+        code: ERROR_CODES.ORGANIZATION_NOT_FOUND,
+      });
+    }
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2002"
+    ) {
+      return errorResponse(
+        "The organization already has equipment with this name",
+        { status: 409, code: ERROR_CODES.EQUIPMENT_NAME_CONFLICT }
+      );
+    }
+
+    return handleError(error, "POST /api/storage-equipment", {
+      status: 500,
+      code: ERROR_CODES.STORAGE_EQUIPMENT_UPDATE_FAILED,
+    });
+  }
+});
@@ -0,0 +1,87 @@
+import { Prisma } from "@prisma/client";
+import { NextRequest } from "next/server";
+import {
+  ERROR_CODES,
+  errorResponse,
+  successResponse,
+} from "@/lib/responseHandler";
+import { excursionReviewSchema } from "@/lib/schemas/coldChainSchema";
+import { handleError } from "@/lib/errorHandler";
+import {
+  organizationScope,
+  requireOrganizationPermission,
+} from "@/lib/organizations/tenancy";
+import { reviewExcursion } from "@/lib/coldChain/excursions";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// POST /api/temperature-excursions/:id/review → decide flagged units
+// e.g. { "decisions": [{ "bloodUnitId": 57, "decision": "RELEASED" },
+//                      { "bloodUnitId": 58, "decision": "DISCARDED" }],
+//        "notes": "Door left ajar 20 min; red cells within tolerance" }
+// Discarded units are discarded; released units stay in QUARANTINE until
+// released by hand. Decisions may be spread over several calls.
+// RBAC: Requires 'update' permission on 'bloodUnits' resource
+export const POST = requireOrganizationPermission(
+  "update",
+  "bloodUnits"
+)(async (req: NextRequest, tenant, ...args: unknown[]) => {
+  const { id } = await (args[0] as RouteContext).params;
+  try {
+    const body = await req.json();
+    const parsed = excursionReviewSchema.safeParse(body);
+    if (!parsed.success) {
+      return errorResponse("Validation Error", {
+        status: 400,
+        code: ERROR_CODES.VALIDATION_ERROR,
+        details: parsed.error.issues.map((issue) => ({
+          field: issue.path.join("."),
+          message: issue.message,
+        })),
+      });
+    }
+
+    const excursion = await reviewExcursion(
+      Number(id),
+      parsed.data,
+      organizationScope(tenant),
+      tenant.userId
+    );
+
+    return successResponse("Excursion review recorded", excursion);
+  } catch (error: unknown) {
+    if (error instanceof Error && error.message === "EXCURSION_NOT_FOUND") {
+      return errorResponse("Temperature excursion not found", {
+        status: 404,
+        code: ERROR_CODES.EXCURSION_NOT_FOUND,
+      });
+    }
+    if (error instanceof Error && error.message === "EXCURSION_ONGOING") {
+      return errorResponse(
+        "The equipment is still out of range; review once it recovers",
+        { status: 409, code: ERROR_CODES.EXCURSION_ONGOING }
+      );
+    }
+    if (error instanceof Error && error.message === "UNIT_NOT_FLAGGED") {
+      return errorResponse(
+        "A unit is not awaiting a decision in this excursion",
+        { status: 400, code: ERROR_CODES.VALIDATION_ERROR }
+      );
+    }
+    // Serialization failure → another reviewer decided meanwhile
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2034"
+    ) {
+      return errorResponse("Excursion was reviewed concurrently, retry", {
+        status: 409,
+        code: ERROR_CODES.EXCURSION_UPDATE_FAILED,
+      });
+    }
+
+    return handleError(error, "POST /api/temperature-excursions/[id]/review", {
+      status: 500,
+      code: ERROR_CODES.EXCURSION_UPDATE_FAILED,
+    });
+  }
+});
@@ -0,0 +1,54 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+  ERROR_CODES,
+  errorResponse,
+  successResponse,
+} from "@/lib/responseHandler";
+import { handleError } from "@/lib/errorHandler";
+import {
+  organizationScope,
+  requireOrganizationPermission,
+} from "@/lib/organizations/tenancy";
+import {
+  TEMPERATURE_EXCURSION_INCLUDE,
+  temperatureExcursionScope,
+} from "@/lib/coldChain/excursions";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// GET /api/temperature-excursions/:id → an excursion with its flagged units
+// and the decisions taken on them
+// RBAC: Requires 'read' permission on 'bloodUnits' resource
+export const GET = requireOrganizationPermission(
+  "read",
+  "bloodUnits"
+)(async (_req: NextRequest, tenant, ...args: unknown[]) => {
+  const { id } = await (args[0] as RouteContext).params;
+  try {
+    const excursion = await prisma.temperatureExcursion.findFirst({
+      where: {
+        id: Number(id),
+        ...temperatureExcursionScope(organizationScope(tenant)),
+      },
+      include: TEMPERATURE_EXCURSION_INCLUDE,
+    });
+
+    if (!excursion) {
+      return errorResponse("Temperature excursion not found", {
+        status: 404,
+        code: ERROR_CODES.EXCURSION_NOT_FOUND,
+      });
+    }
+
+    return successResponse(
+      "Temperature excursion retrieved successfully",
+      excursion
+    );
+  } catch (error: unknown) {
+    return handleError(error, "GET /api/temperature-excursions/[id]", {
+      status: 500,
+      code: ERROR_CODES.EXCURSIONS_FETCH_FAILED,
+    });
+  }
+});
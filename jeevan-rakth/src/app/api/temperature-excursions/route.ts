@@ -0,0 +1,69 @@
+import { Prisma } from "@prisma/client";
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { ERROR_CODES, successResponse } from "@/lib/responseHandler";
+import { handleError } from "@/lib/errorHandler";
+import {
+  organizationScope,
+  requireOrganizationPermission,
+} from "@/lib/organizations/tenancy";
+import { temperatureExcursionScope } from "@/lib/coldChain/excursions";
+
+const MAX_PAGE_SIZE = 50;
+
+const STATE_FILTERS: Record<string, Prisma.TemperatureExcursionWhereInput> = {
+  ONGOING: { endedAt: null },
+  AWAITING_REVIEW: { endedAt: { not: null }, reviewedAt: null },
+  REVIEWED: { reviewedAt: { not: null } },
+};
+
+// GET /api/temperature-excursions?state=AWAITING_REVIEW&equipmentId=4&page=1&limit=20
+// Excursions of the caller's equipment, latest first; state is ONGOING,
+// AWAITING_REVIEW or REVIEWED
+// RBAC: Requires 'read' permission on 'bloodUnits' resource
+export const GET = requireOrganizationPermission(
+  "read",
+  "bloodUnits"
+)(async (req: NextRequest, tenant) => {
+  try {
+    const { searchParams } = new URL(req.url);
+    const page = Math.max(Number(searchParams.get("page")) || 1, 1);
+    const limit = Math.min(
+      Math.max(Number(searchParams.get("limit")) || 20, 1),
+      MAX_PAGE_SIZE
+    );
+    const equipmentId = Number(searchParams.get("equipmentId"));
+    const state = STATE_FILTERS[searchParams.get("state") ?? ""];
+
+    const where: Prisma.TemperatureExcursionWhereInput = {
+      ...temperatureExcursionScope(organizationScope(tenant)),
+      ...(equipmentId > 0 ? { equipmentId } : {}),
+      ...(state ?? {}),
+    };
+
+    const [excursions, total] = await prisma.$transaction([
+      prisma.temperatureExcursion.findMany({
+        where,
+        skip: (page - 1) * limit,
+        take: limit,
+        orderBy: [{ startedAt: "desc" }, { id: "desc" }],
+        include: {
+          equipment: { select: { id: true, name: true, type: true } },
+          _count: { select: { units: true } },
+        },
+      }),
+      prisma.temperatureExcursion.count({ where }),
+    ]);
+
+    return successResponse(
+      "Temperature excursions fetched successfully",
+      { excursions },
+      { meta: { page, limit, total } }
+    );
+  } catch (error: unknown) {
+    return handleError(error, "GET /api/temperature-excursions", {
+      status: 500,
+      code: ERROR_CODES.EXCURSIONS_FETCH_FAILED,
+    });
+  }
+});
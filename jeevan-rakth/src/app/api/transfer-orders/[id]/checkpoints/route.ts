@@ -0,0 +1,82 @@
+import { NextRequest } from "next/server";
+import {
+  ERROR_CODES,
+  errorResponse,
+  successResponse,
+} from "@/lib/responseHandler";
+import { transferCheckpointSchema } from "@/lib/schemas/transferOrderSchema";
+import { handleError } from "@/lib/errorHandler";
+import { requireOrganizationPermission } from "@/lib/organizations/tenancy";
+import { recordTransferCheckpoint } from "@/lib/transfers/orders";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// POST /api/transfer-orders/:id/checkpoints → log a cold-chain reading
+// Body: { temperatureC, location?, notes? }. Only for dispatched orders;
+// the first reading moves the order to IN_TRANSIT and any reading outside
+// the component's transport range flags the order as breached.
+// RBAC: Requires 'update' permission on 'bloodUnits' resource
+export const POST = requireOrganizationPermission(
+  "update",
+  "bloodUnits"
+)(async (req: NextRequest, tenant, ...args: unknown[]) => {
+  const { id } = await (args[0] as RouteContext).params;
+  try {
+    const body = await req.json();
+    const parsed = transferCheckpointSchema.safeParse(body);
+    if (!parsed.success) {
+      return errorResponse("Validation Error", {
+        status: 400,
+        code: ERROR_CODES.VALIDATION_ERROR,
+        details: parsed.error.issues.map((issue) => ({
+          field: issue.path.join("."),
+          message: issue.message,
+        })),
+      });
+    }
+
+    const checkpoint = await recordTransferCheckpoint(
+      Number(id),
+      parsed.data,
+      tenant.organizationIds,
+      tenant.userId
+    );
+
+    return successResponse("Checkpoint recorded successfully", checkpoint, {
+      status: 201,
+    });
+  } catch (error: unknown) {
+    if (
+      error instanceof Error &&
+      error.message === "TRANSFER_ORDER_NOT_FOUND"
+    ) {
+      return errorResponse("Transfer order not found", {
+        status: 404,
+        code: ERROR_CODES.TRANSFER_ORDER_NOT_FOUND,
+      });
+    }
+    if (
+      error instanceof Error &&
+      error.message === "INVALID_STATUS_TRANSITION"
+    ) {
+      return errorResponse(
+        "Checkpoints are only logged for orders on the road",
+        {
+          status: 409,
+          code: ERROR_CODES.INVALID_STATUS_TRANSITION,
+        }
+      );
+    }
+    if (error instanceof Error && error.message === "CONCURRENT_MODIFICATION") {
+      return errorResponse("Order was modified concurrently, retry", {
+        status: 409,
+        code: ERROR_CODES.INVALID_STATUS_TRANSITION,
+      });
+    }
+
+    return handleError(error, "POST /api/transfer-orders/[id]/checkpoints", {
+      status: 500,
+      code: ERROR_CODES.TRANSFER_ORDER_UPDATE_FAILED,
+    });
+  }
+});
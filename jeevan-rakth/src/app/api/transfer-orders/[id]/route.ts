@@ -0,0 +1,45 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+  ERROR_CODES,
+  errorResponse,
+  successResponse,
+} from "@/lib/responseHandler";
+import { handleError } from "@/lib/errorHandler";
+import { requireOrganizationPermission } from "@/lib/organizations/tenancy";
+import {
+  TRANSFER_ORDER_INCLUDE,
+  transferOrderScope,
+} from "@/lib/transfers/orders";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// GET /api/transfer-orders/:id → an order with its picked units and
+// cold-chain checkpoints
+// RBAC: Requires 'read' permission on 'bloodUnits' resource
+export const GET = requireOrganizationPermission(
+  "read",
+  "bloodUnits"
+)(async (_req: NextRequest, tenant, ...args: unknown[]) => {
+  const { id } = await (args[0] as RouteContext).params;
+  try {
+    const order = await prisma.transferOrder.findFirst({
+      where: { id: Number(id), ...transferOrderScope(tenant.organizationIds) },
+      include: TRANSFER_ORDER_INCLUDE,
+    });
+
+    if (!order) {
+      return errorResponse("Transfer order not found", {
+        status: 404,
+        code: ERROR_CODES.TRANSFER_ORDER_NOT_FOUND,
+      });
+    }
+
+    return successResponse("Transfer order retrieved successfully", order);
+  } catch (error: unknown) {
+    return handleError(error, "GET /api/transfer-orders/[id]", {
+      status: 500,
+      code: ERROR_CODES.TRANSFER_ORDERS_FETCH_FAILED,
+    });
+  }
+});
@@ -0,0 +1,107 @@
+import { Prisma } from "@prisma/client";
+import { NextRequest } from "next/server";
+import {
+  ERROR_CODES,
+  errorResponse,
+  successResponse,
+} from "@/lib/responseHandler";
+import { transferOrderTransitionSchema } from "@/lib/schemas/transferOrderSchema";
+import { handleError } from "@/lib/errorHandler";
+import { requireOrganizationPermission } from "@/lib/organizations/tenancy";
+import { transitionTransferOrder } from "@/lib/transfers/orders";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// POST /api/transfer-orders/:id/transitions → move an order through its lifecycle
+// Body: { action: "pick", units? } (supplier; FEFO) |
+//       { action: "dispatch", temperatureC, location?, courier? } (supplier) |
+//       { action: "receive", temperatureC, storageLocation } (requester) |
+//       { action: "cancel", reason } (either side, before dispatch)
+// RBAC: Requires 'update' permission on 'bloodUnits' resource
+export const POST = requireOrganizationPermission(
+  "update",
+  "bloodUnits"
+)(async (req: NextRequest, tenant, ...args: unknown[]) => {
+  const { id } = await (args[0] as RouteContext).params;
+  try {
+    const body = await req.json();
+    const parsed = transferOrderTransitionSchema.safeParse(body);
+    if (!parsed.success) {
+      return errorResponse("Validation Error", {
+        status: 400,
+        code: ERROR_CODES.VALIDATION_ERROR,
+        details: parsed.error.issues.map((issue) => ({
+          field: issue.path.join("."),
+          message: issue.message,
+        })),
+      });
+    }
+
+    const order = await transitionTransferOrder(
+      Number(id),
+      parsed.data,
+      tenant.organizationIds,
+      tenant.userId
+    );
+
+    return successResponse("Transfer order updated successfully", order);
+  } catch (error: unknown) {
+    if (
+      error instanceof Error &&
+      error.message === "TRANSFER_ORDER_NOT_FOUND"
+    ) {
+      return errorResponse("Transfer order not found", {
+        status: 404,
+        code: ERROR_CODES.TRANSFER_ORDER_NOT_FOUND,
+      });
+    }
+    if (error instanceof Error && error.message === "TRANSFER_ACCESS_DENIED") {
+      return errorResponse(
+        "Access denied: action belongs to the other organization",
+        { status: 403, code: ERROR_CODES.ACCESS_DENIED }
+      );
+    }
+    if (
+      error instanceof Error &&
+      error.message === "INVALID_STATUS_TRANSITION"
+    ) {
+      return errorResponse("Transition not allowed from the current status", {
+        status: 409,
+        code: ERROR_CODES.INVALID_STATUS_TRANSITION,
+      });
+    }
+    if (error instanceof Error && error.message === "UNITS_EXCEED_REQUESTED") {
+      return errorResponse("Cannot pick more units than were requested", {
+        status: 400,
+        code: ERROR_CODES.VALIDATION_ERROR,
+      });
+    }
+    if (error instanceof Error && error.message === "INSUFFICIENT_UNITS") {
+      return errorResponse("Not enough matching units in stock", {
+        status: 409,
+        code: ERROR_CODES.INSUFFICIENT_UNITS,
+      });
+    }
+    if (error instanceof Error && error.message === "CONCURRENT_MODIFICATION") {
+      return errorResponse("Order was modified concurrently, retry", {
+        status: 409,
+        code: ERROR_CODES.INVALID_STATUS_TRANSITION,
+      });
+    }
+    // Serialization failure → another pick touched the same units
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2034"
+    ) {
+      return errorResponse("Inventory changed during picking, retry", {
+        status: 409,
+        code: ERROR_CODES.ALLOCATION_CONFLICT,
+      });
+    }
+
+    return handleError(error, "POST /api/transfer-orders/[id]/transitions", {
+      status: 500,
+      code: ERROR_CODES.TRANSFER_ORDER_UPDATE_FAILED,
+    });
+  }
+});
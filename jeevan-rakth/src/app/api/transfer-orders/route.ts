@@ -0,0 +1,152 @@
+import { Prisma } from "@prisma/client";
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+  ERROR_CODES,
+  errorResponse,
+  successResponse,
+} from "@/lib/responseHandler";
+import {
+  transferOrderCreateSchema,
+  transferOrderStatusSchema,
+} from "@/lib/schemas/transferOrderSchema";
+import { handleError } from "@/lib/errorHandler";
+import {
+  canAccessOrganization,
+  requireOrganizationPermission,
+  resolveTargetOrganization,
+} from "@/lib/organizations/tenancy";
+import {
+  createTransferOrder,
+  transferOrderScope,
+} from "@/lib/transfers/orders";
+
+const MAX_PAGE_SIZE = 50;
+
+// GET /api/transfer-orders?side=supplier&status=REQUESTED&page=1&limit=20
+// Transfer orders the caller's organizations requested or supply, newest
+// first. `side` narrows to orders requested by (requester) or placed with
+// (supplier) those organizations.
+// RBAC: Requires 'read' permission on 'bloodUnits' resource
+export const GET = requireOrganizationPermission(
+  "read",
+  "bloodUnits"
+)(async (req: NextRequest, tenant) => {
+  try {
+    const { searchParams } = new URL(req.url);
+    const page = Math.max(Number(searchParams.get("page")) || 1, 1);
+    const limit = Math.min(
+      Math.max(Number(searchParams.get("limit")) || 20, 1),
+      MAX_PAGE_SIZE
+    );
+    const status = transferOrderStatusSchema.safeParse(
+      searchParams.get("status") ?? undefined
+    );
+    const side = searchParams.get("side");
+    const ids = tenant.organizationIds;
+
+    const where: Prisma.TransferOrderWhereInput = {
+      ...(status.success ? { status: status.data } : {}),
+      ...(side === "requester" && ids !== null
+        ? { requestingOrganizationId: { in: ids } }
+        : side === "supplier" && ids !== null
+          ? { supplyingOrganizationId: { in: ids } }
+          : transferOrderScope(ids)),
+    };
+
+    const [orders, total] = await prisma.$transaction([
+      prisma.transferOrder.findMany({
+        where,
+        skip: (page - 1) * limit,
+        take: limit,
+        orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+        include: {
+          requestingOrganization: { select: { id: true, name: true } },
+          supplyingOrganization: { select: { id: true, name: true } },
+          _count: { select: { items: true } },
+        },
+      }),
+      prisma.transferOrder.count({ where }),
+    ]);
+
+    return successResponse(
+      "Transfer orders fetched successfully",
+      { orders },
+      { meta: { page, limit, total } }
+    );
+  } catch (error: unknown) {
+    return handleError(error, "GET /api/transfer-orders", {
+      status: 500,
+      code: ERROR_CODES.TRANSFER_ORDERS_FETCH_FAILED,
+    });
+  }
+});
+
+// POST /api/transfer-orders → ask a blood bank for units
+// Body: { supplyingOrganizationId, component, bloodGroup, units, neededBy?,
+//         notes?, organizationId? }
+// RBAC: Requires 'create' permission on 'bloodUnits' resource
+export const POST = requireOrganizationPermission(
+  "create",
+  "bloodUnits"
+)(async (req: NextRequest, tenant) => {
+  try {
+    const body = await req.json();
+    const parsed = transferOrderCreateSchema.safeParse(body);
+    if (!parsed.success) {
+      return errorResponse("Validation Error", {
+        status: 400,
+        code: ERROR_CODES.VALIDATION_ERROR,
+        details: parsed.error.issues.map((issue) => ({
+          field: issue.path.join("."),
+          message: issue.message,
+        })),
+      });
+    }
+
+    const organizationId = resolveTargetOrganization(
+      tenant,
+      parsed.data.organizationId
+    );
+    if (!canAccessOrganization(tenant, organizationId)) {
+      return errorResponse("Access denied: not a member of organization", {
+        status: 403,
+        code: ERROR_CODES.ACCESS_DENIED,
+      });
+    }
+
+    const order = await createTransferOrder(
+      parsed.data,
+      organizationId,
+      tenant.userId
+    );
+
+    return successResponse("Transfer order placed successfully", order, {
+      status: 201,
+    });
+  } catch (error: unknown) {
+    if (error instanceof Error && error.message === "ORGANIZATION_REQUIRED") {
+      return errorResponse("organizationId is required", {
+        status: 400,
+        code: ERROR_CODES.VALIDATION_ERROR,
+      });
+    }
+    if (error instanceof Error && error.message === "ORGANIZATION_NOT_FOUND") {
+      return errorResponse("Supplying blood bank not found", {
+        status: 404,
+        code: ERROR_CODES.ORGANIZATION_NOT_FOUND,
+      });
+    }
+    if (error instanceof Error && error.message === "INVALID_SUPPLIER") {
+      return errorResponse("An organization cannot order from itself", {
+        status: 400,
+        code: ERROR_CODES.VALIDATION_ERROR,
+      });
+    }
+
+    return handleError(error, "POST /api/transfer-orders", {
+      status: 500,
+      code: ERROR_CODES.TRANSFER_ORDER_UPDATE_FAILED,
+    });
+  }
+});
@@ -0,0 +1,103 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+  ERROR_CODES,
+  errorResponse,
+  successResponse,
+} from "@/lib/responseHandler";
+import { transfusionReactionUpdateSchema } from "@/lib/schemas/transfusionReactionSchema";
+import { handleError } from "@/lib/errorHandler";
+import {
+  organizationScope,
+  requireOrganizationPermission,
+} from "@/lib/organizations/tenancy";
+import {
+  TRANSFUSION_REACTION_INCLUDE,
+  transfusionReactionScope,
+} from "@/lib/haemovigilance/reactions";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+function notFound() {
+  return errorResponse("Transfusion reaction not found", {
+    status: 404,
+    code: ERROR_CODES.REACTION_NOT_FOUND,
+  });
+}
+
+// GET /api/transfusion-reactions/:id → a reaction with its traced donation
+// and look-back status
+// RBAC: Requires 'read' permission on 'bloodUnits' resource
+export const GET = requireOrganizationPermission(
+  "read",
+  "bloodUnits"
+)(async (_req: NextRequest, tenant, ...args: unknown[]) => {
+  const { id } = await (args[0] as RouteContext).params;
+  try {
+    const reaction = await prisma.transfusionReaction.findFirst({
+      where: {
+        id: Number(id),
+        ...transfusionReactionScope(tenant.organizationIds),
+      },
+      include: TRANSFUSION_REACTION_INCLUDE,
+    });
+
+    if (!reaction) return notFound();
+
+    return successResponse(
+      "Transfusion reaction retrieved successfully",
+      reaction
+    );
+  } catch (error: unknown) {
+    return handleError(error, "GET /api/transfusion-reactions/[id]", {
+      status: 500,
+      code: ERROR_CODES.REACTIONS_FETCH_FAILED,
+    });
+  }
+});
+
+// PATCH /api/transfusion-reactions/:id → follow up on the patient
+// e.g. { "outcome": "RECOVERED", "imputability": "PROBABLE" }
+// Only the reporting organization may update its report.
+// RBAC: Requires 'update' permission on 'bloodUnits' resource
+export const PATCH = requireOrganizationPermission(
+  "update",
+  "bloodUnits"
+)(async (req: NextRequest, tenant, ...args: unknown[]) => {
+  const { id } = await (args[0] as RouteContext).params;
+  try {
+    const body = await req.json();
+    const parsed = transfusionReactionUpdateSchema.safeParse(body);
+    if (!parsed.success) {
+      return errorResponse("Validation Error", {
+        status: 400,
+        code: ERROR_CODES.VALIDATION_ERROR,
+        details: parsed.error.issues.map((issue) => ({
+          field: issue.path.join("."),
+          message: issue.message,
+        })),
+      });
+    }
+
+    const { count } = await prisma.transfusionReaction.updateMany({
+      where: { id: Number(id), ...organizationScope(tenant) },
+      data: parsed.data,
+    });
+    if (count === 0) return notFound();
+
+    const reaction = await prisma.transfusionReaction.findUnique({
+      where: { id: Number(id) },
+      include: TRANSFUSION_REACTION_INCLUDE,
+    });
+
+    return successResponse(
+      "Transfusion reaction updated successfully",
+      reaction
+    );
+  } catch (error: unknown) {
+    return handleError(error, "PATCH /api/transfusion-reactions/[id]", {
+      status: 500,
+      code: ERROR_CODES.REACTION_UPDATE_FAILED,
+    });
+  }
+});
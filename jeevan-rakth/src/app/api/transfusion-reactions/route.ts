@@ -0,0 +1,168 @@
+import { Prisma } from "@prisma/client";
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+  ERROR_CODES,
+  errorResponse,
+  successResponse,
+} from "@/lib/responseHandler";
+import {
+  transfusionReactionCreateSchema,
+  transfusionReactionSeveritySchema,
+  transfusionReactionTypeSchema,
+} from "@/lib/schemas/transfusionReactionSchema";
+import { handleError } from "@/lib/errorHandler";
+import {
+  organizationScope,
+  requireOrganizationPermission,
+} from "@/lib/organizations/tenancy";
+import {
+  TRANSFUSION_REACTION_INCLUDE,
+  fileTransfusionReaction,
+  transfusionReactionScope,
+} from "@/lib/haemovigilance/reactions";
+
+const MAX_PAGE_SIZE = 50;
+
+// GET /api/transfusion-reactions?type=TACO&severity=SEVERE&page=1&limit=20
+// Reactions the caller's organizations reported or are investigating,
+// latest onset first
+// RBAC: Requires 'read' permission on 'bloodUnits' resource
+export const GET = requireOrganizationPermission(
+  "read",
+  "bloodUnits"
+)(async (req: NextRequest, tenant) => {
+  try {
+    const { searchParams } = new URL(req.url);
+    const page = Math.max(Number(searchParams.get("page")) || 1, 1);
+    const limit = Math.min(
+      Math.max(Number(searchParams.get("limit")) || 20, 1),
+      MAX_PAGE_SIZE
+    );
+    const type = transfusionReactionTypeSchema.safeParse(
+      searchParams.get("type") ?? undefined
+    );
+    const severity = transfusionReactionSeveritySchema.safeParse(
+      searchParams.get("severity") ?? undefined
+    );
+
+    const where: Prisma.TransfusionReactionWhereInput = {
+      ...transfusionReactionScope(tenant.organizationIds),
+      ...(type.success ? { type: type.data } : {}),
+      ...(severity.success ? { severity: severity.data } : {}),
+    };
+
+    const [reactions, total] = await prisma.$transaction([
+      prisma.transfusionReaction.findMany({
+        where,
+        skip: (page - 1) * limit,
+        take: limit,
+        orderBy: [{ onsetAt: "desc" }, { id: "desc" }],
+        include: TRANSFUSION_REACTION_INCLUDE,
+      }),
+      prisma.transfusionReaction.count({ where }),
+    ]);
+
+    return successResponse(
+      "Transfusion reactions fetched successfully",
+      { reactions },
+      { meta: { page, limit, total } }
+    );
+  } catch (error: unknown) {
+    return handleError(error, "GET /api/transfusion-reactions", {
+      status: 500,
+      code: ERROR_CODES.REACTIONS_FETCH_FAILED,
+    });
+  }
+});
+
+// POST /api/transfusion-reactions → report a reaction to an issued unit
+// e.g. { "bloodUnitId": 57, "type": "FEBRILE_NON_HAEMOLYTIC",
+//        "severity": "NON_SEVERE", "onsetAt": "2026-10-21T14:40:00Z",
+//        "transfusionStartedAt": "2026-10-21T14:05:00Z",
+//        "description": "Temp 38.9°C with rigors 35 min into transfusion" }
+// The donation's other components in stock are quarantined and the
+// collecting blood bank gets a look-back investigation.
+// RBAC: Requires 'create' permission on 'bloodUnits' resource
+export const POST = requireOrganizationPermission(
+  "create",
+  "bloodUnits"
+)(async (req: NextRequest, tenant) => {
+  try {
+    const body = await req.json();
+    const parsed = transfusionReactionCreateSchema.safeParse(body);
+    if (!parsed.success) {
+      return errorResponse("Validation Error", {
+        status: 400,
+        code: ERROR_CODES.VALIDATION_ERROR,
+        details: parsed.error.issues.map((issue) => ({
+          field: issue.path.join("."),
+          message: issue.message,
+        })),
+      });
+    }
+
+    const result = await fileTransfusionReaction(
+      parsed.data,
+      organizationScope(tenant),
+      tenant.userId
+    );
+
+    return successResponse(
+      "Transfusion reaction reported successfully",
+      result,
+      {
+        status: 201,
+      }
+    );
+  } catch (error: unknown) {
+    if (error instanceof Error && error.message === "BLOOD_UNIT_NOT_FOUND") {
+      return errorResponse("Blood unit not found", {
+        status: 404,
+        code: ERROR_CODES.BLOOD_UNIT_NOT_FOUND,
+      });
+    }
+    if (error instanceof Error && error.message === "UNIT_NOT_ISSUED") {
+      return errorResponse("Reactions can only be reported for issued units", {
+        status: 409,
+        code: ERROR_CODES.UNIT_NOT_ISSUED,
+      });
+    }
+    if (error instanceof Error && error.message === "ONSET_BEFORE_ISSUE") {
+      return errorResponse("onsetAt cannot be before the unit was issued", {
+        status: 400,
+        code: ERROR_CODES.VALIDATION_ERROR,
+      });
+    }
+    if (error instanceof Error && error.message === "PATIENT_NAME_REQUIRED") {
+      return errorResponse(
+        "patientName is required for units not issued against a request",
+        { status: 400, code: ERROR_CODES.VALIDATION_ERROR }
+      );
+    }
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2002"
+    ) {
+      return errorResponse("A reaction is already reported for this unit", {
+        status: 409,
+        code: ERROR_CODES.REACTION_ALREADY_REPORTED,
+      });
+    }
+    // Serialization failure → a unit of the donation changed meanwhile
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2034"
+    ) {
+      return errorResponse("Inventory changed while filing, retry", {
+        status: 409,
+        code: ERROR_CODES.INVALID_STATUS_TRANSITION,
+      });
+    }
+
+    return handleError(error, "POST /api/transfusion-reactions", {
+      status: 500,
+      code: ERROR_CODES.REACTION_UPDATE_FAILED,
+    });
+  }
+});
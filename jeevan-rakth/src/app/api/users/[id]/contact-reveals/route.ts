@@ -0,0 +1,72 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+  ERROR_CODES,
+  errorResponse,
+  successResponse,
+} from "@/lib/responseHandler";
+import { handleError } from "@/lib/errorHandler";
+import { isOwnerOrModifier } from "@/lib/rbac";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const MAX_PAGE_SIZE = 100;
+
+// GET /api/users/:id/contact-reveals?page=1&limit=20 → who saw this
+// donor's contact details, for which request and when, newest first
+// Only the donor themselves, or an admin/editor, may view it.
+export async function GET(req: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const userId = Number(id);
+  try {
+    if (!isOwnerOrModifier(req, userId)) {
+      return errorResponse("Access denied: cannot view another donor", {
+        status: 403,
+        code: ERROR_CODES.ACCESS_DENIED,
+      });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const page = Math.max(Number(searchParams.get("page")) || 1, 1);
+    const limit = Math.min(
+      Math.max(Number(searchParams.get("limit")) || 20, 1),
+      MAX_PAGE_SIZE
+    );
+
+    const where = { donorProfile: { userId } };
+    const [reveals, total] = await prisma.$transaction([
+      prisma.contactReveal.findMany({
+        where,
+        skip: (page - 1) * limit,
+        take: limit,
+        orderBy: { createdAt: "desc" },
+        select: {
+          id: true,
+          basis: true,
+          fields: true,
+          createdAt: true,
+          viewer: { select: { id: true, name: true } },
+          bloodRequest: {
+            select: {
+              id: true,
+              hospitalName: true,
+              organization: { select: { id: true, name: true } },
+            },
+          },
+        },
+      }),
+      prisma.contactReveal.count({ where }),
+    ]);
+
+    return successResponse(
+      "Contact reveals fetched successfully",
+      { reveals },
+      { meta: { page, limit, total } }
+    );
+  } catch (error: unknown) {
+    return handleError(error, "GET /api/users/[id]/contact-reveals", {
+      status: 500,
+      code: ERROR_CODES.DONOR_PROFILE_FETCH_FAILED,
+    });
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+  ERROR_CODES,
+  errorResponse,
+  successResponse,
+} from "@/lib/responseHandler";
+import { handleError } from "@/lib/errorHandler";
+import { requirePermission } from "@/lib/rbac";
+import { invalidateDonorSearchCache } from "@/lib/donors/search";
+
+type RouteContext = { params: Promise<{ id: string; deferralId: string }> };
+
+// DELETE /api/users/:id/deferrals/:deferralId → lift a deferral early
+// The record is kept for audit; only liftedAt is set.
+// RBAC: Requires 'update' permission on 'donors' resource
+export const DELETE = requirePermission(
+  "update",
+  "donors"
+)(async (_req: NextRequest, ...args: unknown[]) => {
+  const { id, deferralId } = await (args[0] as RouteContext).params;
+  try {
+    const { count } = await prisma.donorDeferral.updateMany({
+      where: {
+        id: Number(deferralId),
+        donorProfile: { userId: Number(id) },
+        liftedAt: null,
+      },
+      data: { liftedAt: new Date() },
+    });
+
+    if (count === 0) {
+      return errorResponse("Active deferral not found", {
+        status: 404,
+        code: ERROR_CODES.DEFERRAL_NOT_FOUND,
+      });
+    }
+
+    await invalidateDonorSearchCache();
+
+    return successResponse("Deferral lifted successfully");
+  } catch (error: unknown) {
+    return handleError(error, "DELETE /api/users/[id]/deferrals/[deferralId]", {
+      status: 500,
+      code: ERROR_CODES.DEFERRAL_UPDATE_FAILED,
+    });
+  }
+});
@@ -0,0 +1,111 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+  ERROR_CODES,
+  errorResponse,
+  successResponse,
+} from "@/lib/responseHandler";
+import { deferralCreateSchema } from "@/lib/schemas/eligibilitySchema";
+import { handleError } from "@/lib/errorHandler";
+import {
+  extractUserFromRequest,
+  isOwnerOrModifier,
+  requirePermission,
+} from "@/lib/rbac";
+import { invalidateDonorSearchCache } from "@/lib/donors/search";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// GET /api/users/:id/deferrals → all deferrals of a donor, newest first
+// Only the donor themselves, or an admin/editor, may view them.
+export async function GET(req: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const userId = Number(id);
+  try {
+    if (!isOwnerOrModifier(req, userId)) {
+      return errorResponse("Access denied: cannot view another donor", {
+        status: 403,
+        code: ERROR_CODES.ACCESS_DENIED,
+      });
+    }
+
+    const profile = await prisma.donorProfile.findUnique({
+      where: { userId },
+      select: {
+        deferrals: { orderBy: { startsAt: "desc" } },
+      },
+    });
+
+    if (!profile) {
+      return errorResponse("Donor profile not found", {
+        status: 404,
+        code: ERROR_CODES.DONOR_PROFILE_NOT_FOUND,
+      });
+    }
+
+    return successResponse("Deferrals fetched successfully", {
+      deferrals: profile.deferrals,
+    });
+  } catch (error: unknown) {
+    return handleError(error, "GET /api/users/[id]/deferrals", {
+      status: 500,
+      code: ERROR_CODES.DONOR_PROFILE_FETCH_FAILED,
+    });
+  }
+}
+
+// POST /api/users/:id/deferrals → record a deferral
+// e.g. { "type": "TEMPORARY", "reasonCode": "TATTOO", "expiresAt": "2027-04-01" }
+// RBAC: Requires 'update' permission on 'donors' resource
+export const POST = requirePermission(
+  "update",
+  "donors"
+)(async (req: NextRequest, ...args: unknown[]) => {
+  const { id } = await (args[0] as RouteContext).params;
+  try {
+    const body = await req.json();
+    const parsed = deferralCreateSchema.safeParse(body);
+    if (!parsed.success) {
+      return errorResponse("Validation Error", {
+        status: 400,
+        code: ERROR_CODES.VALIDATION_ERROR,
+        details: parsed.error.issues.map((issue) => ({
+          field: issue.path.join("."),
+          message: issue.message,
+        })),
+      });
+    }
+
+    const profile = await prisma.donorProfile.findUnique({
+      where: { userId: Number(id) },
+      select: { id: true },
+    });
+
+    if (!profile) {
+      return errorResponse("Donor profile not found", {
+        status: 404,
+        code: ERROR_CODES.DONOR_PROFILE_NOT_FOUND,
+      });
+    }
+
+    const user = extractUserFromRequest(req);
+    const deferral = await prisma.donorDeferral.create({
+      data: {
+        ...parsed.data,
+        donorProfileId: profile.id,
+        createdById: Number(user.id),
+      },
+    });
+
+    await invalidateDonorSearchCache();
+
+    return successResponse("Deferral recorded successfully", deferral, {
+      status: 201,
+    });
+  } catch (error: unknown) {
+    return handleError(error, "POST /api/users/[id]/deferrals", {
+      status: 500,
+      code: ERROR_CODES.DEFERRAL_UPDATE_FAILED,
+    });
+  }
+});
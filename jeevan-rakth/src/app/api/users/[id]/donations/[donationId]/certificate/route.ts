@@ -0,0 +1,43 @@
+import { NextRequest } from "next/server";
+import { ERROR_CODES, errorResponse } from "@/lib/responseHandler";
+import { handleError } from "@/lib/errorHandler";
+import { isOwnerOrModifier } from "@/lib/rbac";
+import { donationCertificatePdf } from "@/lib/certificates/documents";
+import { pdfResponse } from "@/lib/certificates/pdf";
+
+type RouteContext = { params: Promise<{ id: string; donationId: string }> };
+
+// GET /api/users/:id/donations/:donationId/certificate → certificate PDF
+// Only the donor themselves, or an admin/editor, may download it.
+export async function GET(req: NextRequest, { params }: RouteContext) {
+  const { id, donationId } = await params;
+  const userId = Number(id);
+  try {
+    if (!isOwnerOrModifier(req, userId)) {
+      return errorResponse("Access denied: cannot view another donor", {
+        status: 403,
+        code: ERROR_CODES.ACCESS_DENIED,
+      });
+    }
+
+    const certificate = await donationCertificatePdf(
+      userId,
+      Number(donationId)
+    );
+
+    if (!certificate) {
+      return errorResponse("Donation not found", {
+        status: 404,
+        code: ERROR_CODES.DONATION_NOT_FOUND,
+      });
+    }
+
+    return pdfResponse(certificate.pdf, certificate.filename);
+  } catch (error: unknown) {
+    return handleError(
+      error,
+      "GET /api/users/[id]/donations/[donationId]/certificate",
+      { status: 500, code: ERROR_CODES.CERTIFICATE_FAILED }
+    );
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+  ERROR_CODES,
+  errorResponse,
+  successResponse,
+} from "@/lib/responseHandler";
+import { handleError } from "@/lib/errorHandler";
+import { isOwnerOrModifier } from "@/lib/rbac";
+import { donorTimeline } from "@/lib/donations/ledger";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// GET /api/users/:id/donations → the donor's history timeline (donations
+// and deferrals, newest first) with totals from the donation ledger
+// Only the donor themselves, or an admin/editor, may view it.
+export async function GET(req: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const userId = Number(id);
+  try {
+    if (!isOwnerOrModifier(req, userId)) {
+      return errorResponse("Access denied: cannot view another donor", {
+        status: 403,
+        code: ERROR_CODES.ACCESS_DENIED,
+      });
+    }
+
+    const profile = await prisma.donorProfile.findUnique({
+      where: { userId },
+      select: { id: true },
+    });
+
+    if (!profile) {
+      return errorResponse("Donor profile not found", {
+        status: 404,
+        code: ERROR_CODES.DONOR_PROFILE_NOT_FOUND,
+      });
+    }
+
+    const timeline = await donorTimeline(profile.id);
+
+    return successResponse("Donation history fetched successfully", timeline);
+  } catch (error: unknown) {
+    return handleError(error, "GET /api/users/[id]/donations", {
+      status: 500,
+      code: ERROR_CODES.DONATIONS_FETCH_FAILED,
+    });
+  }
+}
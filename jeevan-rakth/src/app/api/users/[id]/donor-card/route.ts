@@ -0,0 +1,39 @@
+import { NextRequest } from "next/server";
+import { ERROR_CODES, errorResponse } from "@/lib/responseHandler";
+import { handleError } from "@/lib/errorHandler";
+import { isOwnerOrModifier } from "@/lib/rbac";
+import { donorCardPdf } from "@/lib/certificates/documents";
+import { pdfResponse } from "@/lib/certificates/pdf";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// GET /api/users/:id/donor-card → wallet-sized donor card PDF
+// Only the donor themselves, or an admin/editor, may download it.
+export async function GET(req: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const userId = Number(id);
+  try {
+    if (!isOwnerOrModifier(req, userId)) {
+      return errorResponse("Access denied: cannot view another donor", {
+        status: 403,
+        code: ERROR_CODES.ACCESS_DENIED,
+      });
+    }
+
+    const card = await donorCardPdf(userId);
+
+    if (!card) {
+      return errorResponse("Donor profile not found", {
+        status: 404,
+        code: ERROR_CODES.DONOR_PROFILE_NOT_FOUND,
+      });
+    }
+
+    return pdfResponse(card.pdf, card.filename);
+  } catch (error: unknown) {
+    return handleError(error, "GET /api/users/[id]/donor-card", {
+      status: 500,
+      code: ERROR_CODES.CERTIFICATE_FAILED,
+    });
+  }
+}
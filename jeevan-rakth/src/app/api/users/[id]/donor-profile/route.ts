@@ -0,0 +1,225 @@
+import { Prisma } from "@prisma/client";
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+  ERROR_CODES,
+  errorResponse,
+  successResponse,
+} from "@/lib/responseHandler";
+import {
+  donorProfileUpdateSchema,
+  donorProfileUpsertSchema,
+} from "@/lib/schemas/donorProfileSchema";
+import { handleError } from "@/lib/errorHandler";
+import { getUserId, isOwnerOrModifier } from "@/lib/rbac";
+import {
+  publicDonorProfile,
+  serializeDonorProfile,
+} from "@/lib/donors/profile";
+import { invalidateDonorSearchCache } from "@/lib/donors/search";
+import { verificationResetFor } from "@/lib/donors/verification";
+import { maskContactFor } from "@/lib/donors/contact";
+import redis from "@/lib/redis";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// Fields that decide whether a donor shows up in donor search results
+const SEARCH_FIELDS = [
+  "verificationStatus",
+  "bloodGroup",
+  "latitude",
+  "longitude",
+  "isAvailable",
+  "dateOfBirth",
+  "weightKg",
+  "haemoglobinGdl",
+] as const;
+
+// Donation count is derived from the ledger on every read
+const WITH_DONATION_COUNT = {
+  _count: { select: { donations: true } },
+} as const;
+
+// GET /api/users/:id/donor-profile → get the donor profile of a user
+// Phone and street address are masked for everyone but the donor; other
+// users only get the public part of the profile unless they are an
+// admin/editor.
+export async function GET(req: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const userId = Number(id);
+  try {
+    const profile = await prisma.donorProfile.findUnique({
+      where: { userId },
+      include: WITH_DONATION_COUNT,
+    });
+
+    if (!profile) {
+      return errorResponse("Donor profile not found", {
+        status: 404,
+        code: ERROR_CODES.DONOR_PROFILE_NOT_FOUND,
+      });
+    }
+
+    const serialized = serializeDonorProfile(profile);
+    return successResponse(
+      "Donor profile retrieved successfully",
+      maskContactFor(
+        isOwnerOrModifier(req, userId)
+          ? serialized
+          : publicDonorProfile(serialized),
+        userId,
+        getUserId(req)
+      )
+    );
+  } catch (error: unknown) {
+    return handleError(error, "GET /api/users/[id]/donor-profile", {
+      status: 500,
+      code: ERROR_CODES.DONOR_PROFILE_FETCH_FAILED,
+    });
+  }
+}
+
+// PUT /api/users/:id/donor-profile → create or replace the donor profile
+// Only the user themselves, or an admin/editor, may update a profile.
+export async function PUT(req: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const userId = Number(id);
+  try {
+    if (!isOwnerOrModifier(req, userId)) {
+      return errorResponse("Access denied: cannot edit another donor", {
+        status: 403,
+        code: ERROR_CODES.ACCESS_DENIED,
+      });
+    }
+
+    const body = await req.json();
+    const parsed = donorProfileUpsertSchema.safeParse(body);
+    if (!parsed.success) {
+      return errorResponse("Validation Error", {
+        status: 400,
+        code: ERROR_CODES.VALIDATION_ERROR,
+        details: parsed.error.issues.map((issue) => ({
+          field: issue.path.join("."),
+          message: issue.message,
+        })),
+      });
+    }
+
+    const current = await prisma.donorProfile.findUnique({
+      where: { userId },
+      select: { bloodGroup: true, verificationStatus: true },
+    });
+    const profile = await prisma.donorProfile.upsert({
+      where: { userId },
+      create: { ...parsed.data, userId },
+      update: {
+        ...parsed.data,
+        ...(current && verificationResetFor(current, parsed.data.bloodGroup)),
+      },
+      include: WITH_DONATION_COUNT,
+    });
+
+    // Invalidate the cached user record (best-effort)
+    try {
+      await redis.del(`users:${id}`);
+    } catch (err) {
+      console.warn("Redis DEL failed", err);
+    }
+    await invalidateDonorSearchCache();
+
+    return successResponse(
+      "Donor profile saved successfully",
+      maskContactFor(serializeDonorProfile(profile), Number(id), getUserId(req))
+    );
+  } catch (error: unknown) {
+    // Foreign key violation → the user does not exist
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2003"
+    ) {
+      return errorResponse("User not found", {
+        status: 404,
+        code: ERROR_CODES.USER_NOT_FOUND,
+      });
+    }
+
+    return handleError(error, "PUT /api/users/[id]/donor-profile", {
+      status: 500,
+      code: ERROR_CODES.DONOR_PROFILE_UPDATE_FAILED,
+    });
+  }
+}
+
+// PATCH /api/users/:id/donor-profile → partially update an existing profile
+// e.g. { "isAvailable": false } when a donor is temporarily unavailable
+export async function PATCH(req: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const userId = Number(id);
+  try {
+    if (!isOwnerOrModifier(req, userId)) {
+      return errorResponse("Access denied: cannot edit another donor", {
+        status: 403,
+        code: ERROR_CODES.ACCESS_DENIED,
+      });
+    }
+
+    const body = await req.json();
+    const parsed = donorProfileUpdateSchema.safeParse(body);
+    if (!parsed.success) {
+      return errorResponse("Validation Error", {
+        status: 400,
+        code: ERROR_CODES.VALIDATION_ERROR,
+        details: parsed.error.issues.map((issue) => ({
+          field: issue.path.join("."),
+          message: issue.message,
+        })),
+      });
+    }
+
+    const current = await prisma.donorProfile.findUnique({
+      where: { userId },
+      select: { bloodGroup: true, verificationStatus: true },
+    });
+    if (!current) {
+      return errorResponse("Donor profile not found", {
+        status: 404,
+        code: ERROR_CODES.DONOR_PROFILE_NOT_FOUND,
+      });
+    }
+
+    // A new blood group has to be verified again
+    const data = {
+      ...parsed.data,
+      ...verificationResetFor(current, parsed.data.bloodGroup),
+    };
+    const profile = await prisma.donorProfile.update({
+      where: { userId },
+      data,
+      include: WITH_DONATION_COUNT,
+    });
+
+    if (SEARCH_FIELDS.some((field) => field in data)) {
+      await invalidateDonorSearchCache();
+    }
+
+    return successResponse(
+      "Donor profile updated successfully",
+      maskContactFor(serializeDonorProfile(profile), Number(id), getUserId(req))
+    );
+  } catch (error: unknown) {
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2025"
+    ) {
+      return errorResponse("Donor profile not found", {
+        status: 404,
+        code: ERROR_CODES.DONOR_PROFILE_NOT_FOUND,
+      });
+    }
+
+    return handleError(error, "PATCH /api/users/[id]/donor-profile", {
+      status: 500,
+      code: ERROR_CODES.DONOR_PROFILE_UPDATE_FAILED,
+    });
+  }
+}
@@ -0,0 +1,71 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+  ERROR_CODES,
+  errorResponse,
+  successResponse,
+} from "@/lib/responseHandler";
+import { eligibilityQuerySchema } from "@/lib/schemas/eligibilitySchema";
+import { handleError } from "@/lib/errorHandler";
+import { isOwnerOrModifier } from "@/lib/rbac";
+import {
+  eligibilityProfileSelect,
+  evaluateDonors,
+} from "@/lib/eligibility/donors";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// GET /api/users/:id/eligibility?component=WHOLE_BLOOD
+// Returns { eligible, component, reasons[], nextEligibleAt } for the donor.
+// Only the donor themselves, or an admin/editor, may view it.
+export async function GET(req: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const userId = Number(id);
+  try {
+    if (!isOwnerOrModifier(req, userId)) {
+      return errorResponse("Access denied: cannot view another donor", {
+        status: 403,
+        code: ERROR_CODES.ACCESS_DENIED,
+      });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const parsed = eligibilityQuerySchema.safeParse(
+      Object.fromEntries(searchParams)
+    );
+    if (!parsed.success) {
+      return errorResponse("Validation Error", {
+        status: 400,
+        code: ERROR_CODES.VALIDATION_ERROR,
+        details: parsed.error.issues.map((issue) => ({
+          field: issue.path.join("."),
+          message: issue.message,
+        })),
+      });
+    }
+
+    const profile = await prisma.donorProfile.findUnique({
+      where: { userId },
+      select: eligibilityProfileSelect,
+    });
+
+    if (!profile) {
+      return errorResponse("Donor profile not found", {
+        status: 404,
+        code: ERROR_CODES.DONOR_PROFILE_NOT_FOUND,
+      });
+    }
+
+    const verdicts = await evaluateDonors([profile], parsed.data.component);
+
+    return successResponse(
+      "Eligibility evaluated successfully",
+      verdicts.get(profile.id)
+    );
+  } catch (error: unknown) {
+    return handleError(error, "GET /api/users/[id]/eligibility", {
+      status: 500,
+      code: ERROR_CODES.DONOR_PROFILE_FETCH_FAILED,
+    });
+  }
+}
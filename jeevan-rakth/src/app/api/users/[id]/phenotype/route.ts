@@ -0,0 +1,117 @@
+import { Prisma } from "@prisma/client";
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+  ERROR_CODES,
+  errorResponse,
+  successResponse,
+} from "@/lib/responseHandler";
+import { donorPhenotypeSchema } from "@/lib/schemas/phenotypeSchema";
+import { handleError } from "@/lib/errorHandler";
+import { isOwnerOrModifier, requirePermission } from "@/lib/rbac";
+import { invalidateDonorSearchCache } from "@/lib/donors/search";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const PHENOTYPE_SELECT = {
+  id: true,
+  bloodGroup: true,
+  antigensPositive: true,
+  antigensNegative: true,
+  phenotypedAt: true,
+  rareDonor: true,
+  rarePhenotype: true,
+} satisfies Prisma.DonorProfileSelect;
+
+// GET /api/users/:id/phenotype → the donor's extended red cell phenotype
+// Only the donor themselves, or an admin/editor, may view it.
+export async function GET(req: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const userId = Number(id);
+  try {
+    if (!isOwnerOrModifier(req, userId)) {
+      return errorResponse("Access denied: cannot view another donor", {
+        status: 403,
+        code: ERROR_CODES.ACCESS_DENIED,
+      });
+    }
+
+    const phenotype = await prisma.donorProfile.findUnique({
+      where: { userId },
+      select: PHENOTYPE_SELECT,
+    });
+
+    if (!phenotype) {
+      return errorResponse("Donor profile not found", {
+        status: 404,
+        code: ERROR_CODES.DONOR_PROFILE_NOT_FOUND,
+      });
+    }
+
+    return successResponse("Phenotype fetched successfully", phenotype);
+  } catch (error: unknown) {
+    return handleError(error, "GET /api/users/[id]/phenotype", {
+      status: 500,
+      code: ERROR_CODES.DONOR_PROFILE_FETCH_FAILED,
+    });
+  }
+}
+
+// PUT /api/users/:id/phenotype → record the donor's typing results
+// e.g. { "antigensNegative": ["K", "Fya", "Jkb"], "antigensPositive": ["k"],
+//        "rareDonor": true, "rarePhenotype": "Fy(a-b-)" }
+// Antigens take ISBT symbols (case matters: "K" is Kell, "k" Cellano) or
+// the stored names. Replaces the whole phenotype; set by lab staff from
+// typing results, never by the donor.
+// RBAC: Requires 'update' permission on 'donors' resource
+export const PUT = requirePermission(
+  "update",
+  "donors"
+)(async (req: NextRequest, ...args: unknown[]) => {
+  const { id } = await (args[0] as RouteContext).params;
+  try {
+    const body = await req.json();
+    const parsed = donorPhenotypeSchema.safeParse(body);
+    if (!parsed.success) {
+      return errorResponse("Validation Error", {
+        status: 400,
+        code: ERROR_CODES.VALIDATION_ERROR,
+        details: parsed.error.issues.map((issue) => ({
+          field: issue.path.join("."),
+          message: issue.message,
+        })),
+      });
+    }
+
+    const { rarePhenotype, ...phenotype } = parsed.data;
+    const updated = await prisma.donorProfile.update({
+      where: { userId: Number(id) },
+      data: {
+        ...phenotype,
+        rarePhenotype: rarePhenotype ?? null,
+        phenotypedAt: new Date(),
+      },
+      select: PHENOTYPE_SELECT,
+    });
+
+    // Antigen-negative searches and rare-donor filters read these fields
+    await invalidateDonorSearchCache();
+
+    return successResponse("Phenotype updated successfully", updated);
+  } catch (error: unknown) {
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2025"
+    ) {
+      return errorResponse("Donor profile not found", {
+        status: 404,
+        code: ERROR_CODES.DONOR_PROFILE_NOT_FOUND,
+      });
+    }
+
+    return handleError(error, "PUT /api/users/[id]/phenotype", {
+      status: 500,
+      code: ERROR_CODES.DONOR_PROFILE_UPDATE_FAILED,
+    });
+  }
+});
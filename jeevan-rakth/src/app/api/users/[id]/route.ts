@@ -8,24 +8,32 @@ import {
 } from "@/lib/responseHandler";
 import { userUpdateSchema } from "@/lib/schemas/userSchema";
 import redis from "@/lib/redis";
+import { getUserId } from "@/lib/rbac";
+import { maskContactFor } from "@/lib/donors/contact";
 
 // GET /api/users/:id → get single user
+// The email is masked unless the caller is that user.
 export async function GET(
-  _req: Request,
+  req: Request,
   { params }: { params: Promise<{ id: string }> }
 ) {
   const { id } = await params;
   try {
     const cacheKey = `users:${id}`;
+    const viewerId = getUserId(req);
 
     try {
       const cached = await redis.get(cacheKey);
       if (cached) {
         console.log("Cache Hit", cacheKey);
-        return NextResponse.json(JSON.parse(cached), {
-          status: 200,
-          headers: { "x-cache": "HIT" },
-        });
+        const envelope = JSON.parse(cached);
+        return NextResponse.json(
+          {
+            ...envelope,
+            data: maskContactFor(envelope.data, Number(id), viewerId),
+          },
+          { status: 200, headers: { "x-cache": "HIT" } }
+        );
       }
     } catch (err) {
       console.warn("Redis GET failed", err);
@@ -48,7 +56,10 @@ export async function GET(
       });
     }
 
-    return successResponse("User retrieved successfully", user);
+    return successResponse(
+      "User retrieved successfully",
+      maskContactFor(user, user.id, viewerId)
+    );
   } catch (error: unknown) {
     console.error("Failed to fetch user:", error);
     return errorResponse("Failed to fetch user", {
@@ -162,6 +173,17 @@ export async function DELETE(
         code: ERROR_CODES.USER_NOT_FOUND,
       });
     }
+    // Foreign key violation → audit rows the user made (e.g. contact reveals
+    // of other donors) must be kept
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2003"
+    ) {
+      return errorResponse(
+        "User has audit records that must be kept and cannot be deleted",
+        { status: 409, code: ERROR_CODES.USER_HAS_AUDIT_RECORDS }
+      );
+    }
 
     return errorResponse("Failed to delete user", {
       status: 500,
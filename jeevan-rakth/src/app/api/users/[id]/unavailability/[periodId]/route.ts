@@ -0,0 +1,45 @@
+import { NextRequest } from "next/server";
+import {
+  ERROR_CODES,
+  errorResponse,
+  successResponse,
+} from "@/lib/responseHandler";
+import { handleError } from "@/lib/errorHandler";
+import { isOwnerOrModifier } from "@/lib/rbac";
+import { removeUnavailability } from "@/lib/donors/availability";
+import { invalidateDonorSearchCache } from "@/lib/donors/search";
+
+type RouteContext = { params: Promise<{ id: string; periodId: string }> };
+
+// DELETE /api/users/:id/unavailability/:periodId → donor is back early
+export async function DELETE(req: NextRequest, { params }: RouteContext) {
+  const { id, periodId } = await params;
+  const userId = Number(id);
+  try {
+    if (!isOwnerOrModifier(req, userId)) {
+      return errorResponse("Access denied: cannot edit another donor", {
+        status: 403,
+        code: ERROR_CODES.ACCESS_DENIED,
+      });
+    }
+
+    const removed = await removeUnavailability(userId, Number(periodId));
+    if (!removed) {
+      return errorResponse("Unavailability period not found", {
+        status: 404,
+        code: ERROR_CODES.UNAVAILABILITY_NOT_FOUND,
+      });
+    }
+    await invalidateDonorSearchCache();
+
+    return successResponse("Unavailability removed", {
+      id: Number(periodId),
+    });
+  } catch (error: unknown) {
+    return handleError(
+      error,
+      "DELETE /api/users/[id]/unavailability/[periodId]",
+      { status: 500, code: ERROR_CODES.DONOR_PROFILE_UPDATE_FAILED }
+    );
+  }
+}
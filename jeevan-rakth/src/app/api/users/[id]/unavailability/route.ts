@@ -0,0 +1,86 @@
+import { NextRequest } from "next/server";
+import {
+  ERROR_CODES,
+  errorResponse,
+  successResponse,
+} from "@/lib/responseHandler";
+import { unavailabilityCreateSchema } from "@/lib/schemas/donorProfileSchema";
+import { handleError } from "@/lib/errorHandler";
+import { isOwnerOrModifier } from "@/lib/rbac";
+import {
+  addUnavailability,
+  listUnavailability,
+} from "@/lib/donors/availability";
+import { invalidateDonorSearchCache } from "@/lib/donors/search";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// GET /api/users/:id/unavailability → current and upcoming periods
+// Only the donor themselves, or an admin/editor, may view them.
+export async function GET(req: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const userId = Number(id);
+  try {
+    if (!isOwnerOrModifier(req, userId)) {
+      return errorResponse("Access denied: cannot view another donor", {
+        status: 403,
+        code: ERROR_CODES.ACCESS_DENIED,
+      });
+    }
+
+    const periods = await listUnavailability(userId);
+    return successResponse("Unavailability fetched successfully", {
+      periods,
+    });
+  } catch (error: unknown) {
+    return handleError(error, "GET /api/users/[id]/unavailability", {
+      status: 500,
+      code: ERROR_CODES.DONOR_PROFILE_FETCH_FAILED,
+    });
+  }
+}
+
+// POST /api/users/:id/unavailability → add a period the donor is away
+// e.g. { "startsAt": "2026-11-02", "endsAt": "2026-12-01", "reason": "Travelling" }
+export async function POST(req: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const userId = Number(id);
+  try {
+    if (!isOwnerOrModifier(req, userId)) {
+      return errorResponse("Access denied: cannot edit another donor", {
+        status: 403,
+        code: ERROR_CODES.ACCESS_DENIED,
+      });
+    }
+
+    const body = await req.json();
+    const parsed = unavailabilityCreateSchema.safeParse(body);
+    if (!parsed.success) {
+      return errorResponse("Validation Error", {
+        status: 400,
+        code: ERROR_CODES.VALIDATION_ERROR,
+        details: parsed.error.issues.map((issue) => ({
+          field: issue.path.join("."),
+          message: issue.message,
+        })),
+      });
+    }
+
+    const period = await addUnavailability(userId, parsed.data);
+    await invalidateDonorSearchCache();
+
+    return successResponse("Unavailability added", period, { status: 201 });
+  } catch (error: unknown) {
+    if (error instanceof Error && error.message === "DONOR_PROFILE_NOT_FOUND") {
+      return errorResponse("Donor profile not found", {
+        status: 404,
+        code: ERROR_CODES.DONOR_PROFILE_NOT_FOUND,
+      });
+    }
+
+    return handleError(error, "POST /api/users/[id]/unavailability", {
+      status: 500,
+      code: ERROR_CODES.DONOR_PROFILE_UPDATE_FAILED,
+    });
+  }
+}
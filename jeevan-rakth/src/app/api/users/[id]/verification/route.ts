@@ -0,0 +1,151 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+  ERROR_CODES,
+  errorResponse,
+  successResponse,
+} from "@/lib/responseHandler";
+import { verificationSubmitSchema } from "@/lib/schemas/verificationSchema";
+import { handleError } from "@/lib/errorHandler";
+import { getUserId, isOwnerOrModifier } from "@/lib/rbac";
+import {
+  REQUIRED_DOCUMENTS,
+  submitVerification,
+} from "@/lib/donors/verification";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// GET /api/users/:id/verification → verification status, submitted
+// documents and every decision taken on them
+// Only the donor themselves, or an admin/editor, may view it.
+export async function GET(req: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const userId = Number(id);
+  try {
+    if (!isOwnerOrModifier(req, userId)) {
+      return errorResponse("Access denied: cannot view another donor", {
+        status: 403,
+        code: ERROR_CODES.ACCESS_DENIED,
+      });
+    }
+
+    const profile = await prisma.donorProfile.findUnique({
+      where: { userId },
+      select: {
+        verificationStatus: true,
+        verificationSubmittedAt: true,
+        verifiedAt: true,
+        verificationDocuments: {
+          orderBy: { createdAt: "asc" },
+          include: {
+            file: {
+              select: { id: true, name: true, mimeType: true, url: true },
+            },
+          },
+        },
+        verificationReviews: {
+          orderBy: { createdAt: "desc" },
+          include: { reviewer: { select: { id: true, name: true } } },
+        },
+      },
+    });
+
+    if (!profile) {
+      return errorResponse("Donor profile not found", {
+        status: 404,
+        code: ERROR_CODES.DONOR_PROFILE_NOT_FOUND,
+      });
+    }
+
+    const { verificationDocuments, verificationReviews, ...status } = profile;
+    return successResponse("Verification fetched successfully", {
+      ...status,
+      requiredDocuments: REQUIRED_DOCUMENTS,
+      documents: verificationDocuments,
+      reviews: verificationReviews,
+    });
+  } catch (error: unknown) {
+    return handleError(error, "GET /api/users/[id]/verification", {
+      status: 500,
+      code: ERROR_CODES.VERIFICATION_FETCH_FAILED,
+    });
+  }
+}
+
+// POST /api/users/:id/verification → submit documents for review
+// e.g. { "documents": [{ "type": "ID_PROOF", "fileId": 41 },
+//                      { "type": "BLOOD_GROUP_REPORT", "fileId": 42 }] }
+// Upload each file first via POST /api/upload and register it with
+// POST /api/files. Resubmitting after a rejection or an information
+// request puts the donor back in the queue.
+export async function POST(req: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const userId = Number(id);
+  try {
+    if (!isOwnerOrModifier(req, userId)) {
+      return errorResponse("Access denied: cannot edit another donor", {
+        status: 403,
+        code: ERROR_CODES.ACCESS_DENIED,
+      });
+    }
+
+    const body = await req.json();
+    const parsed = verificationSubmitSchema.safeParse(body);
+    if (!parsed.success) {
+      return errorResponse("Validation Error", {
+        status: 400,
+        code: ERROR_CODES.VALIDATION_ERROR,
+        details: parsed.error.issues.map((issue) => ({
+          field: issue.path.join("."),
+          message: issue.message,
+        })),
+      });
+    }
+
+    const verification = await submitVerification(
+      userId,
+      Number(getUserId(req)),
+      parsed.data
+    );
+
+    return successResponse(
+      "Documents submitted for verification",
+      verification,
+      { status: 201 }
+    );
+  } catch (error: unknown) {
+    if (error instanceof Error && error.message === "DONOR_PROFILE_NOT_FOUND") {
+      return errorResponse("Donor profile not found", {
+        status: 404,
+        code: ERROR_CODES.DONOR_PROFILE_NOT_FOUND,
+      });
+    }
+    if (error instanceof Error && error.message === "ALREADY_VERIFIED") {
+      return errorResponse("Donor is already verified", {
+        status: 409,
+        code: ERROR_CODES.ALREADY_VERIFIED,
+      });
+    }
+    if (error instanceof Error && error.message === "FILE_NOT_FOUND") {
+      return errorResponse(
+        "A file was not found, was uploaded by someone else or is already attached",
+        { status: 404, code: ERROR_CODES.FILE_NOT_FOUND }
+      );
+    }
+    if (error instanceof Error && error.message === "MISSING_DOCUMENTS") {
+      return errorResponse(
+        "Both an ID and a blood-grouping report are required",
+        {
+          status: 400,
+          code: ERROR_CODES.MISSING_DOCUMENTS,
+          details: { requiredDocuments: REQUIRED_DOCUMENTS },
+        }
+      );
+    }
+
+    return handleError(error, "POST /api/users/[id]/verification", {
+      status: 500,
+      code: ERROR_CODES.VERIFICATION_UPDATE_FAILED,
+    });
+  }
+}
@@ -11,10 +11,12 @@ import { handleError } from "@/lib/errorHandler";
 import redis, { DEFAULT_CACHE_TTL } from "@/lib/redis";
 import { requirePermission } from "@/lib/rbac";
 import { sanitizeInput, validateEmail } from "@/lib/sanitize";
+import { maskContact } from "@/lib/donors/contact";
 // Uncomment to test loading/error states:
 // import { simulateDelay, simulateError } from "@/lib/testUtils";
 
 // GET /api/users?page=1&limit=10 → list users with pagination
+// Emails are masked; a user's own is available from /api/users/:id.
 // RBAC: Requires 'read' permission on 'users' resource
 export const GET = requirePermission(
   "read",
@@ -56,15 +58,17 @@ export const GET = requirePermission(
       console.warn("Redis GET failed", err);
     }
 
-    const users = await prisma.user.findMany({
-      skip,
-      take: limit,
-      include: {
-        ownedTeams: true,
-        ownedProjects: true,
-        teamMemberships: true,
-      },
-    });
+    const users = (
+      await prisma.user.findMany({
+        skip,
+        take: limit,
+        include: {
+          ownedTeams: true,
+          ownedProjects: true,
+          teamMemberships: true,
+        },
+      })
+    ).map(maskContact);
 
     const totalUsers = await prisma.user.count();
 
@@ -0,0 +1,79 @@
+import { NextRequest } from "next/server";
+import {
+  ERROR_CODES,
+  errorResponse,
+  successResponse,
+} from "@/lib/responseHandler";
+import { verificationReviewSchema } from "@/lib/schemas/verificationSchema";
+import { handleError } from "@/lib/errorHandler";
+import { extractUserFromRequest, requirePermission } from "@/lib/rbac";
+import { reviewVerification } from "@/lib/donors/verification";
+import { invalidateDonorSearchCache } from "@/lib/donors/search";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// POST /api/verifications/:donorProfileId/review → decide a submission
+// e.g. { "decision": "APPROVE", "reason": "ID and lab report match" }
+//      { "decision": "REQUEST_INFO", "reason": "Lab report is not legible" }
+// RBAC: Requires 'update' permission on 'donors' resource
+export const POST = requirePermission(
+  "update",
+  "donors"
+)(async (req: NextRequest, ...args: unknown[]) => {
+  const { id } = await (args[0] as RouteContext).params;
+  try {
+    const body = await req.json();
+    const parsed = verificationReviewSchema.safeParse(body);
+    if (!parsed.success) {
+      return errorResponse("Validation Error", {
+        status: 400,
+        code: ERROR_CODES.VALIDATION_ERROR,
+        details: parsed.error.issues.map((issue) => ({
+          field: issue.path.join("."),
+          message: issue.message,
+        })),
+      });
+    }
+
+    const reviewer = extractUserFromRequest(req);
+    const review = await reviewVerification(
+      Number(id),
+      Number(reviewer.id),
+      parsed.data
+    );
+
+    // Verified donors become reachable for urgent requests
+    await invalidateDonorSearchCache();
+
+    return successResponse("Verification decision recorded", review, {
+      status: 201,
+    });
+  } catch (error: unknown) {
+    if (error instanceof Error && error.message === "DONOR_PROFILE_NOT_FOUND") {
+      return errorResponse("Donor profile not found", {
+        status: 404,
+        code: ERROR_CODES.DONOR_PROFILE_NOT_FOUND,
+      });
+    }
+    if (error instanceof Error && error.message === "SELF_REVIEW") {
+      return errorResponse("Access denied: cannot review your own profile", {
+        status: 403,
+        code: ERROR_CODES.ACCESS_DENIED,
+      });
+    }
+    if (
+      error instanceof Error &&
+      error.message === "VERIFICATION_NOT_PENDING"
+    ) {
+      return errorResponse("There is no pending submission to review", {
+        status: 409,
+        code: ERROR_CODES.VERIFICATION_NOT_PENDING,
+      });
+    }
+
+    return handleError(error, "POST /api/verifications/[id]/review", {
+      status: 500,
+      code: ERROR_CODES.VERIFICATION_UPDATE_FAILED,
+    });
+  }
+});
@@ -0,0 +1,86 @@
+import { Prisma } from "@prisma/client";
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { ERROR_CODES, successResponse } from "@/lib/responseHandler";
+import { verificationStatusSchema } from "@/lib/schemas/verificationSchema";
+import { handleError } from "@/lib/errorHandler";
+import { requirePermission } from "@/lib/rbac";
+import { maskContact } from "@/lib/donors/contact";
+
+const MAX_PAGE_SIZE = 50;
+
+// GET /api/verifications?status=PENDING&page=1&limit=20 → review queue
+// Oldest submissions first so no donor waits indefinitely.
+// RBAC: Requires 'update' permission on 'donors' resource
+export const GET = requirePermission(
+  "update",
+  "donors"
+)(async (req: NextRequest) => {
+  try {
+    const { searchParams } = new URL(req.url);
+    const page = Math.max(Number(searchParams.get("page")) || 1, 1);
+    const limit = Math.min(
+      Math.max(Number(searchParams.get("limit")) || 20, 1),
+      MAX_PAGE_SIZE
+    );
+    const status = verificationStatusSchema.safeParse(
+      searchParams.get("status") ?? "PENDING"
+    );
+
+    const where: Prisma.DonorProfileWhereInput = {
+      verificationStatus: status.success ? status.data : "PENDING",
+    };
+
+    const [donors, total] = await prisma.$transaction([
+      prisma.donorProfile.findMany({
+        where,
+        skip: (page - 1) * limit,
+        take: limit,
+        orderBy: [
+          { verificationSubmittedAt: { sort: "asc", nulls: "last" } },
+          { id: "asc" },
+        ],
+        select: {
+          id: true,
+          bloodGroup: true,
+          dateOfBirth: true,
+          city: true,
+          state: true,
+          verificationStatus: true,
+          verificationSubmittedAt: true,
+          user: { select: { id: true, name: true, email: true } },
+          verificationDocuments: {
+            orderBy: { createdAt: "asc" },
+            include: {
+              file: {
+                select: { id: true, name: true, mimeType: true, url: true },
+              },
+            },
+          },
+          verificationReviews: {
+            orderBy: { createdAt: "desc" },
+            take: 1,
+            select: { decision: true, reason: true, createdAt: true },
+          },
+        },
+      }),
+      prisma.donorProfile.count({ where }),
+    ]);
+
+    return successResponse(
+      "Verification queue fetched successfully",
+      {
+        donors: donors.map((donor) => ({
+          ...donor,
+          user: maskContact(donor.user),
+        })),
+      },
+      { meta: { page, limit, total } }
+    );
+  } catch (error: unknown) {
+    return handleError(error, "GET /api/verifications", {
+      status: 500,
+      code: ERROR_CODES.VERIFICATION_FETCH_FAILED,
+    });
+  }
+});
@@ -0,0 +1,404 @@
+"use client";
+import { useState } from "react";
+import Link from "next/link";
+import useSWR from "swr";
+import { fetcher } from "@/lib/fetcher";
+import { formatBloodGroup } from "@/lib/bloodGroups";
+import { useToast } from "@/hooks/useToast";
+import { ButtonLoader } from "@/components";
+
+// Pledges and check-ins change while donors travel; poll for a live view
+const REFRESH_INTERVAL_MS = 10_000;
+
+interface BloodRequest {
+  id: number;
+  patientName: string;
+  bloodGroup: string;
+  component: string;
+  urgency: string;
+  status: string;
+  hospitalName: string;
+  requiredBy: string;
+}
+
+interface FillStatus {
+  unitsNeeded: number;
+  unitsFulfilled: number;
+  unitsPledged: number;
+  unitsOutstanding: number;
+  accepted: number;
+  declined: number;
+  checkedIn: number;
+}
+
+interface DonorResponse {
+  id: number;
+  status: "ACCEPTED" | "DECLINED";
+  etaMinutes: number | null;
+  note: string | null;
+  respondedAt: string;
+  checkedInAt: string | null;
+  contactShared: boolean;
+  donorProfile: {
+    id: number;
+    bloodGroup: string;
+    // Masked until revealed
+    phone: string;
+    city: string;
+    user: { id: number; name: string };
+  };
+}
+
+interface DonorContact {
+  phone: string;
+  email: string;
+}
+
+interface TimelineEvent {
+  id: number;
+  type: string;
+  message: string;
+  createdAt: string;
+  actor: { id: number; name: string } | null;
+}
+
+interface ApiEnvelope<T> {
+  success: boolean;
+  data: T;
+}
+
+interface Props {
+  params: { id: string };
+}
+
+function expectedArrival(response: DonorResponse): string {
+  if (response.etaMinutes === null) return "ETA not given";
+  const arrival = new Date(
+    new Date(response.respondedAt).getTime() + response.etaMinutes * 60_000
+  );
+  return `Expected ${arrival.toLocaleTimeString("en-US", {
+    hour: "numeric",
+    minute: "2-digit",
+  })}`;
+}
+
+export default function BloodRequestPage({ params }: Props) {
+  const toast = useToast();
+  const [checkingIn, setCheckingIn] = useState<number | null>(null);
+  const [revealing, setRevealing] = useState<number | null>(null);
+  const [contacts, setContacts] = useState<Record<number, DonorContact>>({});
+  const {
+    data: requestResponse,
+    error: requestError,
+    isLoading: requestLoading,
+  } = useSWR<ApiEnvelope<BloodRequest>>(
+    `/api/blood-requests/${params.id}`,
+    fetcher
+  );
+  const { data: responsesResponse, mutate: refreshResponses } = useSWR<
+    ApiEnvelope<{ fill: FillStatus; responses: DonorResponse[] }>
+  >(`/api/blood-requests/${params.id}/responses`, fetcher, {
+    refreshInterval: REFRESH_INTERVAL_MS,
+  });
+
+  const { data: timelineResponse } = useSWR<
+    ApiEnvelope<{ events: TimelineEvent[] }>
+  >(`/api/blood-requests/${params.id}/timeline`, fetcher, {
+    refreshInterval: REFRESH_INTERVAL_MS,
+  });
+
+  const request = requestResponse?.data;
+  const events = timelineResponse?.data.events ?? [];
+  const fill = responsesResponse?.data.fill;
+  const responses = responsesResponse?.data.responses ?? [];
+  const pledged = responses.filter((r) => r.status === "ACCEPTED");
+  const declined = responses.filter((r) => r.status === "DECLINED");
+
+  const checkIn = async (response: DonorResponse) => {
+    setCheckingIn(response.id);
+    try {
+      const res = await fetch(
+        `/api/blood-requests/${params.id}/responses/${response.id}/check-in`,
+        { method: "POST", credentials: "include" }
+      );
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        throw new Error(body.message || "Failed to check in donor");
+      }
+      toast.success(`${response.donorProfile.user.name} checked in`);
+      await refreshResponses();
+    } catch (error) {
+      toast.error("Check-in failed", {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    } finally {
+      setCheckingIn(null);
+    }
+  };
+
+  // Every reveal is recorded in the donor's audit trail
+  const revealContact = async (response: DonorResponse) => {
+    const donorProfileId = response.donorProfile.id;
+    setRevealing(donorProfileId);
+    try {
+      const res = await fetch(
+        `/api/blood-requests/${params.id}/donors/${donorProfileId}/contact`,
+        { method: "POST", credentials: "include" }
+      );
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(body.message || "Failed to reveal contact");
+      }
+      setContacts((prev) => ({ ...prev, [donorProfileId]: body.data }));
+    } catch (error) {
+      toast.error("Could not reveal contact", {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    } finally {
+      setRevealing(null);
+    }
+  };
+
+  if (requestLoading) {
+    return (
+      <main className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-red-600 mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading blood request...</p>
+        </div>
+      </main>
+    );
+  }
+
+  if (requestError || !request) {
+    return (
+      <main className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <p className="text-xl font-semibold text-red-600 mb-4">
+            {requestError?.message || "Blood request not found"}
+          </p>
+          <Link href="/dashboard" className="text-blue-600 hover:underline">
+            ← Back to Dashboard
+          </Link>
+        </div>
+      </main>
+    );
+  }
+
+  const percent = (units: number) =>
+    fill && fill.unitsNeeded > 0
+      ? Math.min((units / fill.unitsNeeded) * 100, 100)
+      : 0;
+
+  return (
+    <main className="min-h-screen bg-gray-50">
+      <div className="max-w-4xl mx-auto px-4 py-8">
+        {/* Breadcrumbs */}
+        <nav className="mb-6 text-sm text-gray-600">
+          <Link href="/dashboard" className="hover:text-red-600">
+            Dashboard
+          </Link>
+          {" / "}
+          <span className="text-gray-900 font-medium">
+            Request #{request.id}
+          </span>
+        </nav>
+
+        {/* Request Header */}
+        <div className="bg-white rounded-lg shadow p-6 mb-6">
+          <div className="flex justify-between items-start">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">
+                {formatBloodGroup(request.bloodGroup)}{" "}
+                {request.component.replace("_", " ").toLowerCase()} for{" "}
+                {request.patientName}
+              </h1>
+              <p className="text-gray-600">
+                {request.hospitalName} · needed by{" "}
+                {new Date(request.requiredBy).toLocaleString("en-US")}
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <span
+                className={`px-3 py-1 rounded-full text-sm font-semibold ${
+                  request.urgency === "CRITICAL"
+                    ? "bg-red-100 text-red-800"
+                    : "bg-yellow-100 text-yellow-800"
+                }`}
+              >
+                {request.urgency}
+              </span>
+              <span className="px-3 py-1 rounded-full text-sm font-semibold bg-gray-100 text-gray-800">
+                {request.status.replace("_", " ")}
+              </span>
+            </div>
+          </div>
+        </div>
+
+        {/* Fill Status */}
+        {fill && (
+          <div className="bg-white rounded-lg shadow p-6 mb-6">
+            <h2 className="text-xl font-semibold text-gray-900 mb-4">
+              Fill Status
+            </h2>
+            <div className="relative h-4 w-full rounded-full bg-gray-200 overflow-hidden mb-3">
+              <div
+                className="absolute inset-y-0 left-0 bg-red-200"
+                style={{
+                  width: `${percent(fill.unitsFulfilled + fill.unitsPledged)}%`,
+                }}
+              ></div>
+              <div
+                className="absolute inset-y-0 left-0 bg-red-600"
+                style={{ width: `${percent(fill.unitsFulfilled)}%` }}
+              ></div>
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-center">
+              <div>
+                <p className="text-sm text-gray-600">Needed</p>
+                <p className="text-2xl font-bold text-gray-900">
+                  {fill.unitsNeeded}
+                </p>
+              </div>
+              <div>
+                <p className="text-sm text-gray-600">Fulfilled</p>
+                <p className="text-2xl font-bold text-red-600">
+                  {fill.unitsFulfilled}
+                </p>
+              </div>
+              <div>
+                <p className="text-sm text-gray-600">Pledged</p>
+                <p className="text-2xl font-bold text-red-400">
+                  {fill.unitsPledged}
+                </p>
+              </div>
+              <div>
+                <p className="text-sm text-gray-600">Arrived</p>
+                <p className="text-2xl font-bold text-green-600">
+                  {fill.checkedIn}
+                </p>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Pledged Donors */}
+        <div className="bg-white rounded-lg shadow p-6 mb-6">
+          <h2 className="text-xl font-semibold text-gray-900 mb-4">
+            Pledged Donors
+          </h2>
+          {pledged.length === 0 ? (
+            <p className="text-gray-600">No donors have pledged yet.</p>
+          ) : (
+            <ul className="divide-y divide-gray-200">
+              {pledged.map((response) => (
+                <li
+                  key={response.id}
+                  className="py-3 flex justify-between items-center gap-4"
+                >
+                  <div>
+                    <p className="font-medium text-gray-900">
+                      {response.donorProfile.user.name}{" "}
+                      <span className="text-sm text-red-600">
+                        {formatBloodGroup(response.donorProfile.bloodGroup)}
+                      </span>
+                    </p>
+                    <p className="text-sm text-gray-600">
+                      {contacts[response.donorProfile.id] ? (
+                        <>
+                          {contacts[response.donorProfile.id].phone} ·{" "}
+                          {contacts[response.donorProfile.id].email}
+                        </>
+                      ) : (
+                        <>
+                          {response.donorProfile.phone}
+                          {response.contactShared && (
+                            <button
+                              onClick={() => revealContact(response)}
+                              disabled={revealing !== null}
+                              className="ml-2 text-red-600 hover:underline disabled:opacity-50"
+                            >
+                              {revealing === response.donorProfile.id
+                                ? "Revealing..."
+                                : "Show contact"}
+                            </button>
+                          )}
+                        </>
+                      )}{" "}
+                      · {expectedArrival(response)}
+                    </p>
+                    {response.note && (
+                      <p className="text-sm text-gray-500 italic">
+                        “{response.note}”
+                      </p>
+                    )}
+                  </div>
+                  {response.checkedInAt ? (
+                    <span className="px-3 py-1 rounded-full text-sm font-semibold bg-green-100 text-green-800">
+                      Arrived{" "}
+                      {new Date(response.checkedInAt).toLocaleTimeString(
+                        "en-US",
+                        { hour: "numeric", minute: "2-digit" }
+                      )}
+                    </span>
+                  ) : (
+                    <ButtonLoader
+                      onClick={() => checkIn(response)}
+                      isLoading={checkingIn === response.id}
+                      loadingText="Checking in..."
+                      className="bg-green-600 hover:bg-green-700"
+                    >
+                      Check in
+                    </ButtonLoader>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {declined.length > 0 && (
+          <p className="text-sm text-gray-600">
+            {declined.length} donor{declined.length === 1 ? "" : "s"} declined.
+          </p>
+        )}
+
+        {/* Timeline */}
+        {events.length > 0 && (
+          <div className="bg-white rounded-lg shadow p-6 mt-6">
+            <h2 className="text-xl font-semibold text-gray-900 mb-4">
+              Timeline
+            </h2>
+            <ol className="space-y-3">
+              {events.map((event) => (
+                <li key={event.id} className="flex gap-4">
+                  <span className="w-24 shrink-0 text-sm text-gray-500">
+                    {new Date(event.createdAt).toLocaleTimeString("en-US", {
+                      hour: "numeric",
+                      minute: "2-digit",
+                    })}
+                  </span>
+                  <span
+                    className={
+                      event.type === "ESCALATED"
+                        ? "text-red-700"
+                        : "text-gray-900"
+                    }
+                  >
+                    {event.message}
+                    {event.actor && (
+                      <span className="text-gray-500">
+                        {" "}
+                        · {event.actor.name}
+                      </span>
+                    )}
+                  </span>
+                </li>
+              ))}
+            </ol>
+          </div>
+        )}
+      </div>
+    </main>
+  );
+}
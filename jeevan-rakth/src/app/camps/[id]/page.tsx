@@ -0,0 +1,179 @@
+"use client";
+import { useState } from "react";
+import Link from "next/link";
+import useSWR from "swr";
+import { fetcher } from "@/lib/fetcher";
+import { useToast } from "@/hooks/useToast";
+import { ButtonLoader } from "@/components";
+
+interface Slot {
+  id: number;
+  startsAt: string;
+  endsAt: string;
+  capacity: number;
+  available: number;
+  waitlisted: number;
+}
+
+interface Camp {
+  id: number;
+  name: string;
+  description: string | null;
+  venueName: string;
+  addressLine: string;
+  city: string;
+  status: string;
+  organization: { id: number; name: string };
+  slots: Slot[];
+}
+
+interface ApiEnvelope<T> {
+  success: boolean;
+  data: T;
+}
+
+interface Props {
+  params: { id: string };
+}
+
+const timeFormat: Intl.DateTimeFormatOptions = {
+  hour: "numeric",
+  minute: "2-digit",
+};
+
+export default function CampPage({ params }: Props) {
+  const toast = useToast();
+  const [bookingSlot, setBookingSlot] = useState<number | null>(null);
+  const { data, error, isLoading, mutate } = useSWR<ApiEnvelope<Camp>>(
+    `/api/camps/${params.id}`,
+    fetcher
+  );
+
+  const book = async (slot: Slot) => {
+    setBookingSlot(slot.id);
+    try {
+      const res = await fetch(`/api/camps/${params.id}/appointments`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ slotId: slot.id, waitlist: true }),
+      });
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(body.message || "Failed to book slot");
+      }
+      toast.success(body.message);
+      await mutate();
+    } catch (err) {
+      toast.error("Booking failed", {
+        description: err instanceof Error ? err.message : undefined,
+      });
+    } finally {
+      setBookingSlot(null);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <main className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-red-600"></div>
+      </main>
+    );
+  }
+
+  const camp = data?.data;
+  if (error || !camp) {
+    return (
+      <main className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <p className="text-xl font-semibold text-red-600">
+          {error?.message || "Camp not found"}
+        </p>
+      </main>
+    );
+  }
+
+  // Group slots by calendar day for display
+  const days = new Map<string, Slot[]>();
+  for (const slot of camp.slots) {
+    const day = new Date(slot.startsAt).toLocaleDateString("en-US", {
+      weekday: "long",
+      month: "long",
+      day: "numeric",
+    });
+    days.set(day, [...(days.get(day) ?? []), slot]);
+  }
+
+  return (
+    <main className="min-h-screen bg-gray-50">
+      <div className="max-w-4xl mx-auto px-4 py-8">
+        <div className="bg-white rounded-lg shadow p-6 mb-6">
+          <h1 className="text-2xl font-bold text-gray-900">{camp.name}</h1>
+          <p className="text-gray-600">
+            {camp.venueName}, {camp.addressLine}, {camp.city} · organised by{" "}
+            {camp.organization.name}
+          </p>
+          {camp.description && (
+            <p className="mt-3 text-gray-700">{camp.description}</p>
+          )}
+          {camp.status !== "SCHEDULED" && (
+            <span className="inline-block mt-3 px-3 py-1 rounded-full text-sm font-semibold bg-gray-100 text-gray-800">
+              {camp.status}
+            </span>
+          )}
+        </div>
+
+        {[...days.entries()].map(([day, slots]) => (
+          <div key={day} className="bg-white rounded-lg shadow p-6 mb-6">
+            <h2 className="text-xl font-semibold text-gray-900 mb-4">{day}</h2>
+            <ul className="divide-y divide-gray-200">
+              {slots.map((slot) => (
+                <li
+                  key={slot.id}
+                  className="py-3 flex justify-between items-center"
+                >
+                  <div>
+                    <p className="font-medium text-gray-900">
+                      {new Date(slot.startsAt).toLocaleTimeString(
+                        "en-US",
+                        timeFormat
+                      )}{" "}
+                      –{" "}
+                      {new Date(slot.endsAt).toLocaleTimeString(
+                        "en-US",
+                        timeFormat
+                      )}
+                    </p>
+                    <p className="text-sm text-gray-600">
+                      {slot.available > 0
+                        ? `${slot.available} of ${slot.capacity} seats left`
+                        : `Full · ${slot.waitlisted} waiting`}
+                    </p>
+                  </div>
+                  {camp.status === "SCHEDULED" &&
+                    new Date(slot.startsAt) > new Date() && (
+                      <ButtonLoader
+                        onClick={() => book(slot)}
+                        isLoading={bookingSlot === slot.id}
+                        disabled={bookingSlot !== null}
+                        loadingText="Booking..."
+                        variant={slot.available > 0 ? "danger" : "secondary"}
+                      >
+                        {slot.available > 0 ? "Book" : "Join waitlist"}
+                      </ButtonLoader>
+                    )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        ))}
+
+        <Link
+          href={`/camps/${camp.id}/roster`}
+          className="text-sm text-gray-600 hover:text-red-600"
+        >
+          Organizer roster →
+        </Link>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,192 @@
+"use client";
+import { useState } from "react";
+import Link from "next/link";
+import useSWR from "swr";
+import { fetcher } from "@/lib/fetcher";
+import { formatBloodGroup } from "@/lib/bloodGroups";
+import { useToast } from "@/hooks/useToast";
+import { ButtonLoader } from "@/components";
+
+const REFRESH_INTERVAL_MS = 15_000;
+
+interface Appointment {
+  id: number;
+  status: "BOOKED" | "CHECKED_IN";
+  checkedInAt: string | null;
+  donorProfile: {
+    bloodGroup: string;
+    phone: string;
+    user: { id: number; name: string };
+  };
+}
+
+interface RosterSlot {
+  id: number;
+  startsAt: string;
+  endsAt: string;
+  capacity: number;
+  waitlisted: number;
+  appointments: Appointment[];
+}
+
+interface RosterMeta {
+  date: string;
+  days: string[];
+  expected: number;
+  arrived: number;
+}
+
+interface RosterEnvelope {
+  success: boolean;
+  data: { slots: RosterSlot[] };
+  meta: RosterMeta;
+}
+
+interface Props {
+  params: { id: string };
+}
+
+export default function CampRosterPage({ params }: Props) {
+  const toast = useToast();
+  const [date, setDate] = useState<string | null>(null);
+  const [checkingIn, setCheckingIn] = useState<number | null>(null);
+  const url = `/api/camps/${params.id}/roster${date ? `?date=${date}` : ""}`;
+  const { data, error, isLoading, mutate } = useSWR<RosterEnvelope>(
+    url,
+    fetcher,
+    { refreshInterval: REFRESH_INTERVAL_MS }
+  );
+
+  const checkIn = async (appointment: Appointment) => {
+    setCheckingIn(appointment.id);
+    try {
+      const res = await fetch(
+        `/api/camps/${params.id}/appointments/${appointment.id}/check-in`,
+        { method: "POST", credentials: "include" }
+      );
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        throw new Error(body.message || "Failed to check in donor");
+      }
+      toast.success(`${appointment.donorProfile.user.name} checked in`);
+      await mutate();
+    } catch (err) {
+      toast.error("Check-in failed", {
+        description: err instanceof Error ? err.message : undefined,
+      });
+    } finally {
+      setCheckingIn(null);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <main className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-red-600"></div>
+      </main>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <main className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <p className="text-xl font-semibold text-red-600">
+          {error?.message || "Roster not available"}
+        </p>
+      </main>
+    );
+  }
+
+  const { slots } = data.data;
+  const meta = data.meta;
+
+  return (
+    <main className="min-h-screen bg-gray-50">
+      <div className="max-w-4xl mx-auto px-4 py-8">
+        <nav className="mb-6 text-sm text-gray-600">
+          <Link href={`/camps/${params.id}`} className="hover:text-red-600">
+            Camp
+          </Link>
+          {" / "}
+          <span className="text-gray-900 font-medium">Roster</span>
+        </nav>
+
+        <div className="bg-white rounded-lg shadow p-6 mb-6 flex justify-between items-center">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">
+              Check-in roster
+            </h1>
+            <p className="text-gray-600">
+              {meta.arrived} of {meta.expected} donors arrived
+            </p>
+          </div>
+          <select
+            value={meta.date}
+            onChange={(e) => setDate(e.target.value)}
+            className="border border-gray-300 rounded px-3 py-2"
+            aria-label="Camp day"
+          >
+            {meta.days.map((day) => (
+              <option key={day} value={day}>
+                {day}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {slots.length === 0 && (
+          <p className="text-gray-600">No slots on this day.</p>
+        )}
+
+        {slots.map((slot) => (
+          <div key={slot.id} className="bg-white rounded-lg shadow p-6 mb-4">
+            <div className="flex justify-between mb-3">
+              <h2 className="text-lg font-semibold text-gray-900">
+                {new Date(slot.startsAt).toLocaleTimeString("en-US", {
+                  hour: "numeric",
+                  minute: "2-digit",
+                })}
+              </h2>
+              <span className="text-sm text-gray-600">
+                {slot.appointments.length}/{slot.capacity} booked
+                {slot.waitlisted > 0 && ` · ${slot.waitlisted} waitlisted`}
+              </span>
+            </div>
+            <ul className="divide-y divide-gray-200">
+              {slot.appointments.map((appointment) => (
+                <li
+                  key={appointment.id}
+                  className="py-2 flex justify-between items-center"
+                >
+                  <span className="text-gray-900">
+                    {appointment.donorProfile.user.name}{" "}
+                    <span className="text-sm text-red-600">
+                      {formatBloodGroup(appointment.donorProfile.bloodGroup)}
+                    </span>{" "}
+                    <span className="text-sm text-gray-500">
+                      {appointment.donorProfile.phone}
+                    </span>
+                  </span>
+                  {appointment.status === "CHECKED_IN" ? (
+                    <span className="px-3 py-1 rounded-full text-sm font-semibold bg-green-100 text-green-800">
+                      Arrived
+                    </span>
+                  ) : (
+                    <ButtonLoader
+                      onClick={() => checkIn(appointment)}
+                      isLoading={checkingIn === appointment.id}
+                      loadingText="Checking in..."
+                      className="bg-green-600 hover:bg-green-700"
+                    >
+                      Check in
+                    </ButtonLoader>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        ))}
+      </div>
+    </main>
+  );
+}
@@ -1,16 +1,98 @@
 "use client";
 import { useRouter } from "next/navigation";
-import { useState } from "react";
+import useSWR from "swr";
+import { fetcher } from "@/lib/fetcher";
+import { formatBloodGroup } from "@/lib/bloodGroups";
+import { SkeletonLoader } from "@/components";
+
+// Open requests and expiring stock change quickly; keep the view live
+const REFRESH_INTERVAL_MS = 30_000;
+
+interface DashboardStats {
+  donors: {
+    total: number;
+    available: number;
+    byBloodGroup: { bloodGroup: string; total: number; available: number }[];
+  };
+  openRequests: {
+    total: number;
+    byUrgency: { urgency: string; count: number }[];
+  };
+  performance: {
+    windowDays: number;
+    closed: number;
+    fulfilled: number;
+    fulfilmentRate: number | null;
+    averageMinutesToMatch: number | null;
+  };
+  expiringUnits: {
+    withinHours: number;
+    total: number;
+    byComponent: { component: string; count: number }[];
+  };
+  generatedAt: string;
+}
+
+interface ApiEnvelope<T> {
+  success: boolean;
+  data: T;
+}
+
+const URGENCY_COLORS: Record<string, string> = {
+  CRITICAL: "bg-red-100 text-red-800",
+  URGENT: "bg-orange-100 text-orange-800",
+  ROUTINE: "bg-gray-100 text-gray-800",
+};
+
+function formatDuration(minutes: number | null): string {
+  if (minutes === null) return "—";
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  return `${hours} h ${minutes % 60} min`;
+}
+
+function StatCard({
+  label,
+  value,
+  detail,
+  icon,
+  color,
+  loading,
+}: {
+  label: string;
+  value: string | number;
+  detail?: string;
+  icon: string;
+  color: string;
+  loading: boolean;
+}) {
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      {loading ? (
+        <SkeletonLoader lines={3} />
+      ) : (
+        <div className="flex items-center justify-between">
+          <div>
+            <p className="text-sm text-gray-600 mb-1">{label}</p>
+            <p className={`text-3xl font-bold ${color}`}>{value}</p>
+            {detail && <p className="text-sm text-gray-500 mt-1">{detail}</p>}
+          </div>
+          <div className="text-4xl">{icon}</div>
+        </div>
+      )}
+    </div>
+  );
+}
 
 export default function Dashboard() {
   const router = useRouter();
-  // Initialize stats with default values
-  // In a real app, you'd fetch this from your API
-  const [stats] = useState({
-    totalDonors: 245,
-    totalRequests: 89,
-    successfulMatches: 67,
-  });
+  const { data, error, isLoading } = useSWR<ApiEnvelope<DashboardStats>>(
+    "/api/dashboard/stats",
+    fetcher,
+    { refreshInterval: REFRESH_INTERVAL_MS }
+  );
+  const stats = data?.data;
+  const loading = isLoading || (!stats && !error);
 
   async function handleLogout() {
     try {
@@ -40,42 +122,142 @@ export default function Dashboard() {
           </button>
         </div>
 
+        {error && (
+          <div className="mb-8 bg-red-50 border border-red-200 rounded-lg p-4">
+            <p className="text-red-800">
+              {error.message || "Failed to load dashboard statistics"}
+            </p>
+          </div>
+        )}
+
         {/* Stats Cards */}
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
+          <StatCard
+            label="Available Donors"
+            value={stats?.donors.available ?? 0}
+            detail={`of ${stats?.donors.total ?? 0} registered`}
+            icon="🩸"
+            color="text-red-600"
+            loading={loading}
+          />
+          <StatCard
+            label="Open Requests"
+            value={stats?.openRequests.total ?? 0}
+            detail={`${
+              stats?.openRequests.byUrgency.find(
+                (u) => u.urgency === "CRITICAL"
+              )?.count ?? 0
+            } critical`}
+            icon="📋"
+            color="text-blue-600"
+            loading={loading}
+          />
+          <StatCard
+            label="Fulfilment Rate"
+            value={
+              stats?.performance.fulfilmentRate == null
+                ? "—"
+                : `${Math.round(stats.performance.fulfilmentRate * 100)}%`
+            }
+            detail={`Avg. time to match ${formatDuration(
+              stats?.performance.averageMinutesToMatch ?? null
+            )} · last ${stats?.performance.windowDays ?? 30} days`}
+            icon="✅"
+            color="text-green-600"
+            loading={loading}
+          />
+          <StatCard
+            label="Expiring Units"
+            value={stats?.expiringUnits.total ?? 0}
+            detail={`within ${stats?.expiringUnits.withinHours ?? 72} hours`}
+            icon="⏳"
+            color="text-orange-600"
+            loading={loading}
+          />
+        </div>
+
+        {/* Breakdowns */}
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-8">
           <div className="bg-white rounded-lg shadow p-6">
-            <div className="flex items-center justify-between">
-              <div>
-                <p className="text-sm text-gray-600 mb-1">Total Donors</p>
-                <p className="text-3xl font-bold text-red-600">
-                  {stats.totalDonors}
-                </p>
+            <h2 className="text-xl font-semibold text-gray-900 mb-4">
+              Donors by Blood Group
+            </h2>
+            {loading || !stats ? (
+              <SkeletonLoader lines={4} />
+            ) : (
+              <div className="grid grid-cols-4 gap-3">
+                {stats.donors.byBloodGroup.map((group) => (
+                  <div
+                    key={group.bloodGroup}
+                    className="text-center border border-gray-200 rounded p-2"
+                  >
+                    <p className="text-sm font-semibold text-red-600">
+                      {formatBloodGroup(group.bloodGroup)}
+                    </p>
+                    <p className="text-lg font-bold text-gray-900">
+                      {group.available}
+                    </p>
+                    <p className="text-xs text-gray-500">of {group.total}</p>
+                  </div>
+                ))}
               </div>
-              <div className="text-4xl">🩸</div>
-            </div>
+            )}
           </div>
 
           <div className="bg-white rounded-lg shadow p-6">
-            <div className="flex items-center justify-between">
-              <div>
-                <p className="text-sm text-gray-600 mb-1">Blood Requests</p>
-                <p className="text-3xl font-bold text-blue-600">
-                  {stats.totalRequests}
-                </p>
-              </div>
-              <div className="text-4xl">📋</div>
-            </div>
+            <h2 className="text-xl font-semibold text-gray-900 mb-4">
+              Open Requests by Urgency
+            </h2>
+            {loading || !stats ? (
+              <SkeletonLoader lines={3} />
+            ) : (
+              <ul className="space-y-3">
+                {stats.openRequests.byUrgency.map((row) => (
+                  <li
+                    key={row.urgency}
+                    className="flex justify-between items-center"
+                  >
+                    <span
+                      className={`px-3 py-1 rounded-full text-sm font-semibold ${
+                        URGENCY_COLORS[row.urgency] ?? URGENCY_COLORS.ROUTINE
+                      }`}
+                    >
+                      {row.urgency}
+                    </span>
+                    <span className="text-lg font-bold text-gray-900">
+                      {row.count}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
           </div>
 
           <div className="bg-white rounded-lg shadow p-6">
-            <div className="flex items-center justify-between">
-              <div>
-                <p className="text-sm text-gray-600 mb-1">Successful Matches</p>
-                <p className="text-3xl font-bold text-green-600">
-                  {stats.successfulMatches}
-                </p>
-              </div>
-              <div className="text-4xl">✅</div>
-            </div>
+            <h2 className="text-xl font-semibold text-gray-900 mb-4">
+              Expiring Within {stats?.expiringUnits.withinHours ?? 72} Hours
+            </h2>
+            {loading || !stats ? (
+              <SkeletonLoader lines={3} />
+            ) : stats.expiringUnits.byComponent.length === 0 ? (
+              <p className="text-gray-600">No units are about to expire.</p>
+            ) : (
+              <ul className="space-y-3">
+                {stats.expiringUnits.byComponent.map((row) => (
+                  <li
+                    key={row.component}
+                    className="flex justify-between items-center"
+                  >
+                    <span className="text-gray-700">
+                      {row.component.replace("_", " ")}
+                    </span>
+                    <span className="text-lg font-bold text-orange-600">
+                      {row.count}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
           </div>
         </div>
 
@@ -97,7 +279,10 @@ export default function Dashboard() {
               <p className="font-semibold text-gray-900">View Users</p>
               <p className="text-sm text-gray-600 mt-1">Manage all users</p>
             </button>
-            <button className="p-4 border-2 border-gray-200 rounded-lg hover:border-purple-500 hover:bg-purple-50 transition-colors">
+            <button
+              onClick={() => router.push("/reports")}
+              className="p-4 border-2 border-gray-200 rounded-lg hover:border-purple-500 hover:bg-purple-50 transition-colors"
+            >
               <p className="font-semibold text-gray-900">Reports</p>
               <p className="text-sm text-gray-600 mt-1">View analytics</p>
             </button>
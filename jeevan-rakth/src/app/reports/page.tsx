@@ -0,0 +1,347 @@
+"use client";
+import { useState } from "react";
+import useSWR from "swr";
+import { fetcher } from "@/lib/fetcher";
+import { SkeletonLoader } from "@/components";
+import { BLOOD_GROUPS, formatBloodGroup } from "@/lib/bloodGroups";
+
+type ReportValue = string | number | null;
+
+interface ReportColumn {
+  key: string;
+  label: string;
+  type: "string" | "number" | "date" | "percent";
+  pii?: boolean;
+}
+
+interface ReportSummary {
+  id: string;
+  title: string;
+  description: string;
+  chartLabel: string;
+  chartUnit: "count" | "percent";
+}
+
+interface Catalogue {
+  reports: (ReportSummary & { columns: ReportColumn[] })[];
+  organizations: { id: number; name: string }[];
+  includesPii: boolean;
+}
+
+interface ReportData {
+  report: ReportSummary;
+  columns: ReportColumn[];
+  rows: Record<string, ReportValue>[];
+  chart: { label: string; value: number }[];
+}
+
+interface ApiEnvelope<T> {
+  success: boolean;
+  data: T;
+  meta?: { page: number; limit: number; hasMore: boolean };
+}
+
+const PAGE_SIZE = 50;
+
+function isoDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function formatValue(value: ReportValue, type: ReportColumn["type"]): string {
+  if (value === null) return "—";
+  if (type === "date") return new Date(value).toLocaleString();
+  if (type === "percent") return `${Math.round(Number(value) * 1000) / 10}%`;
+  if (type === "number") return Number(value).toLocaleString();
+  return String(value);
+}
+
+function BarChart({
+  points,
+  unit,
+}: {
+  points: ReportData["chart"];
+  unit: ReportSummary["chartUnit"];
+}) {
+  if (points.length === 0) {
+    return <p className="text-gray-600">Nothing to plot for these filters.</p>;
+  }
+
+  const max =
+    unit === "percent" ? 1 : Math.max(...points.map((p) => p.value), 1);
+  return (
+    <ul className="space-y-2">
+      {points.map((point) => (
+        <li key={point.label} className="flex items-center gap-3 text-sm">
+          <span className="w-40 shrink-0 truncate text-gray-700">
+            {point.label}
+          </span>
+          <div className="flex-1 bg-gray-100 rounded h-5">
+            <div
+              className="bg-red-500 h-5 rounded"
+              style={{ width: `${(point.value / max) * 100}%` }}
+            />
+          </div>
+          <span className="w-16 text-right font-semibold text-gray-900">
+            {formatValue(
+              point.value,
+              unit === "percent" ? "percent" : "number"
+            )}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export default function ReportsPage() {
+  const today = new Date();
+  const [reportId, setReportId] = useState("donations");
+  const [view, setView] = useState<"table" | "chart">("table");
+  const [page, setPage] = useState(1);
+  const [filters, setFilters] = useState({
+    from: isoDay(new Date(today.getTime() - 90 * 24 * 60 * 60 * 1000)),
+    to: isoDay(today),
+    organizationId: "",
+    bloodGroup: "",
+    interval: "month",
+  });
+
+  const { data: catalogue, error: catalogueError } = useSWR<
+    ApiEnvelope<Catalogue>
+  >("/api/reports", fetcher);
+
+  const query = new URLSearchParams(
+    Object.entries(filters).filter(([, value]) => value !== "")
+  ).toString();
+  const { data, error, isLoading } = useSWR<ApiEnvelope<ReportData>>(
+    `/api/reports/${reportId}?${query}&page=${page}&limit=${PAGE_SIZE}`,
+    fetcher,
+    { keepPreviousData: true }
+  );
+
+  const updateFilter = (key: keyof typeof filters, value: string) => {
+    setFilters((prev) => ({ ...prev, [key]: value }));
+    setPage(1);
+  };
+
+  if (catalogueError) {
+    return (
+      <main className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <p className="text-xl font-semibold text-red-600">
+          {catalogueError.message || "Failed to load reports"}
+        </p>
+      </main>
+    );
+  }
+
+  const report = data?.data;
+
+  return (
+    <main className="min-h-screen bg-gray-50">
+      <div className="max-w-7xl mx-auto px-4 py-8">
+        <div className="bg-white rounded-lg shadow p-6 mb-6">
+          <h1 className="text-2xl font-bold text-gray-900">Reports</h1>
+          {catalogue && !catalogue.data.includesPii && (
+            <p className="text-sm text-gray-600 mt-1">
+              Patient and donor names are hidden for your role.
+            </p>
+          )}
+          <div className="flex flex-wrap gap-2 mt-4">
+            {catalogue?.data.reports.map((r) => (
+              <button
+                key={r.id}
+                onClick={() => {
+                  setReportId(r.id);
+                  setPage(1);
+                }}
+                className={`px-4 py-2 rounded-lg text-sm font-semibold ${
+                  r.id === reportId
+                    ? "bg-red-600 text-white"
+                    : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                }`}
+              >
+                {r.title}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="bg-white rounded-lg shadow p-6 mb-6 grid grid-cols-1 md:grid-cols-5 gap-4">
+          <label className="text-sm text-gray-700">
+            From
+            <input
+              type="date"
+              value={filters.from}
+              onChange={(e) => updateFilter("from", e.target.value)}
+              className="w-full border border-gray-300 rounded p-2 mt-1"
+            />
+          </label>
+          <label className="text-sm text-gray-700">
+            To
+            <input
+              type="date"
+              value={filters.to}
+              onChange={(e) => updateFilter("to", e.target.value)}
+              className="w-full border border-gray-300 rounded p-2 mt-1"
+            />
+          </label>
+          <label className="text-sm text-gray-700">
+            Organization
+            <select
+              value={filters.organizationId}
+              onChange={(e) => updateFilter("organizationId", e.target.value)}
+              className="w-full border border-gray-300 rounded p-2 mt-1"
+            >
+              <option value="">All my organizations</option>
+              {catalogue?.data.organizations.map((org) => (
+                <option key={org.id} value={org.id}>
+                  {org.name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="text-sm text-gray-700">
+            Blood group
+            <select
+              value={filters.bloodGroup}
+              onChange={(e) => updateFilter("bloodGroup", e.target.value)}
+              className="w-full border border-gray-300 rounded p-2 mt-1"
+            >
+              <option value="">All groups</option>
+              {BLOOD_GROUPS.map((group) => (
+                <option key={group} value={group}>
+                  {formatBloodGroup(group)}
+                </option>
+              ))}
+            </select>
+          </label>
+          {reportId === "donations" && (
+            <label className="text-sm text-gray-700">
+              Period
+              <select
+                value={filters.interval}
+                onChange={(e) => updateFilter("interval", e.target.value)}
+                className="w-full border border-gray-300 rounded p-2 mt-1"
+              >
+                <option value="day">Day</option>
+                <option value="week">Week</option>
+                <option value="month">Month</option>
+              </select>
+            </label>
+          )}
+        </div>
+
+        <div className="bg-white rounded-lg shadow p-6">
+          <div className="flex flex-wrap justify-between items-start gap-4 mb-4">
+            <div>
+              <h2 className="text-xl font-semibold text-gray-900">
+                {report?.report.title}
+              </h2>
+              <p className="text-sm text-gray-600">
+                {report?.report.description}
+              </p>
+            </div>
+            <div className="flex gap-2">
+              {(["table", "chart"] as const).map((mode) => (
+                <button
+                  key={mode}
+                  onClick={() => setView(mode)}
+                  className={`px-3 py-2 rounded text-sm font-semibold ${
+                    view === mode
+                      ? "bg-gray-900 text-white"
+                      : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                  }`}
+                >
+                  {mode === "table" ? "Table" : "Chart"}
+                </button>
+              ))}
+              {(["csv", "xlsx"] as const).map((format) => (
+                <a
+                  key={format}
+                  href={`/api/reports/${reportId}/export?${query}&format=${format}`}
+                  className="px-3 py-2 rounded text-sm font-semibold border border-red-600 text-red-600 hover:bg-red-50"
+                >
+                  Export {format.toUpperCase()}
+                </a>
+              ))}
+            </div>
+          </div>
+
+          {error && (
+            <p className="text-red-600">
+              {error.message || "Failed to load the report"}
+            </p>
+          )}
+
+          {isLoading && !report && <SkeletonLoader lines={8} />}
+
+          {report && view === "chart" && (
+            <>
+              <h3 className="text-lg font-semibold text-gray-900 mb-3">
+                {report.report.chartLabel}
+              </h3>
+              <BarChart points={report.chart} unit={report.report.chartUnit} />
+            </>
+          )}
+
+          {report && view === "table" && (
+            <>
+              <div className="overflow-x-auto">
+                <table className="min-w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-gray-200">
+                      {report.columns.map((column) => (
+                        <th
+                          key={column.key}
+                          className="text-left font-semibold text-gray-700 py-2 pr-4 whitespace-nowrap"
+                        >
+                          {column.label}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.rows.map((row, index) => (
+                      <tr key={index} className="border-b border-gray-100">
+                        {report.columns.map((column) => (
+                          <td
+                            key={column.key}
+                            className="py-2 pr-4 text-gray-900 whitespace-nowrap"
+                          >
+                            {formatValue(row[column.key], column.type)}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              {report.rows.length === 0 && (
+                <p className="text-gray-600 mt-4">
+                  No rows match these filters.
+                </p>
+              )}
+              <div className="flex justify-between items-center mt-4">
+                <button
+                  onClick={() => setPage((p) => Math.max(p - 1, 1))}
+                  disabled={page === 1}
+                  className="px-3 py-2 rounded text-sm bg-gray-100 disabled:opacity-50"
+                >
+                  Previous
+                </button>
+                <span className="text-sm text-gray-600">Page {page}</span>
+                <button
+                  onClick={() => setPage((p) => p + 1)}
+                  disabled={!data?.meta?.hasMore}
+                  className="px-3 py-2 rounded text-sm bg-gray-100 disabled:opacity-50"
+                >
+                  Next
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </main>
+  );
+}
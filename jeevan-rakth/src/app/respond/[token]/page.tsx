@@ -0,0 +1,204 @@
+"use client";
+import { useState } from "react";
+import useSWR from "swr";
+import { fetcher } from "@/lib/fetcher";
+import { formatBloodGroup } from "@/lib/bloodGroups";
+import { useToast } from "@/hooks/useToast";
+import { ButtonLoader } from "@/components";
+
+interface RequestSummary {
+  id: number;
+  bloodGroup: string;
+  component: string;
+  urgency: string;
+  status: string;
+  hospitalName: string;
+  requiredBy: string;
+  unitsNeeded: number;
+  unitsFulfilled: number;
+  unitsPledged: number;
+}
+
+interface ExistingResponse {
+  status: "ACCEPTED" | "DECLINED";
+  etaMinutes: number | null;
+  note: string | null;
+  checkedInAt: string | null;
+}
+
+interface ApiEnvelope<T> {
+  success: boolean;
+  data: T;
+}
+
+interface Props {
+  params: { token: string };
+}
+
+const CLOSED_STATUSES = ["FULFILLED", "CANCELLED", "EXPIRED"];
+
+export default function RespondPage({ params }: Props) {
+  const toast = useToast();
+  const url = `/api/donor-responses/${params.token}`;
+  const { data, error, isLoading, mutate } = useSWR<
+    ApiEnvelope<{ request: RequestSummary; response: ExistingResponse | null }>
+  >(url, fetcher, { shouldRetryOnError: false });
+  const [etaMinutes, setEtaMinutes] = useState("");
+  const [note, setNote] = useState("");
+  const [submitting, setSubmitting] = useState<"ACCEPT" | "DECLINE" | null>(
+    null
+  );
+
+  const respond = async (response: "ACCEPT" | "DECLINE") => {
+    setSubmitting(response);
+    try {
+      const res = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          response,
+          etaMinutes:
+            response === "ACCEPT" && etaMinutes ? etaMinutes : undefined,
+          note: note || undefined,
+        }),
+      });
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        throw new Error(body.message || "Failed to record your response");
+      }
+      toast.success(
+        response === "ACCEPT"
+          ? "Thank you! The hospital knows you are coming."
+          : "Thanks for letting us know."
+      );
+      await mutate();
+    } catch (err) {
+      toast.error("Could not record your response", {
+        description: err instanceof Error ? err.message : undefined,
+      });
+    } finally {
+      setSubmitting(null);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <main className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-red-600"></div>
+      </main>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <main className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <p className="text-xl font-semibold text-red-600">
+          This link is invalid or has expired
+        </p>
+      </main>
+    );
+  }
+
+  const { request, response } = data.data;
+  const closed = CLOSED_STATUSES.includes(request.status);
+
+  return (
+    <main className="min-h-screen bg-gray-50">
+      <div className="max-w-lg mx-auto px-4 py-8">
+        <div className="bg-white rounded-lg shadow p-6 mb-6">
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">
+            {formatBloodGroup(request.bloodGroup)} donors needed
+          </h1>
+          <p className="text-gray-600">
+            {request.hospitalName} needs{" "}
+            {request.component.replace("_", " ").toLowerCase()} by{" "}
+            {new Date(request.requiredBy).toLocaleString("en-US")}.
+          </p>
+          {request.urgency === "CRITICAL" && (
+            <span className="inline-block mt-3 px-3 py-1 rounded-full text-sm font-semibold bg-red-100 text-red-800">
+              CRITICAL
+            </span>
+          )}
+        </div>
+
+        {response && (
+          <div className="mb-6 bg-green-50 border border-green-200 rounded-lg p-4 text-green-800">
+            {response.checkedInAt
+              ? "You have been checked in. Thank you for donating!"
+              : response.status === "ACCEPTED"
+                ? "You said you can donate. You can change your answer below."
+                : "You said not now. You can change your answer below."}
+          </div>
+        )}
+
+        {closed ? (
+          <p className="text-gray-600">
+            This request is no longer accepting donors. Thank you for checking.
+          </p>
+        ) : (
+          !response?.checkedInAt && (
+            <div className="bg-white rounded-lg shadow p-6 space-y-4">
+              <div>
+                <label
+                  htmlFor="etaMinutes"
+                  className="block text-sm font-medium text-gray-700 mb-1"
+                >
+                  How many minutes until you can reach the hospital?
+                </label>
+                <input
+                  id="etaMinutes"
+                  type="number"
+                  min={0}
+                  className="w-full border border-gray-300 rounded px-3 py-2 focus:ring-2 focus:ring-red-500 focus:border-transparent"
+                  value={etaMinutes}
+                  onChange={(e) => setEtaMinutes(e.target.value)}
+                  placeholder="e.g. 30"
+                  disabled={submitting !== null}
+                />
+              </div>
+              <div>
+                <label
+                  htmlFor="note"
+                  className="block text-sm font-medium text-gray-700 mb-1"
+                >
+                  Note (optional)
+                </label>
+                <textarea
+                  id="note"
+                  rows={2}
+                  maxLength={500}
+                  className="w-full border border-gray-300 rounded px-3 py-2 focus:ring-2 focus:ring-red-500 focus:border-transparent"
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  disabled={submitting !== null}
+                />
+              </div>
+              <div className="flex gap-4">
+                <ButtonLoader
+                  onClick={() => respond("ACCEPT")}
+                  isLoading={submitting === "ACCEPT"}
+                  disabled={submitting !== null}
+                  loadingText="Sending..."
+                  variant="danger"
+                  className="flex-1"
+                >
+                  I can donate
+                </ButtonLoader>
+                <ButtonLoader
+                  onClick={() => respond("DECLINE")}
+                  isLoading={submitting === "DECLINE"}
+                  disabled={submitting !== null}
+                  loadingText="Sending..."
+                  variant="secondary"
+                  className="flex-1"
+                >
+                  Not now
+                </ButtonLoader>
+              </div>
+            </div>
+          )
+        )}
+      </div>
+    </main>
+  );
+}
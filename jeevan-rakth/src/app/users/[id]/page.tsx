@@ -1,17 +1,74 @@
 "use client";
 import Link from "next/link";
-import { useEffect, useState } from "react";
+import useSWR from "swr";
+import { fetcher } from "@/lib/fetcher";
+import { formatBloodGroup } from "@/lib/bloodGroups";
 
-interface UserProfile {
-  id: string;
+interface UserRecord {
+  id: number;
   name: string;
   email: string;
   role: string;
-  bloodType: string;
+}
+
+interface DonorProfile {
+  bloodGroup: string;
   phone: string;
-  address: string;
-  lastDonation?: string;
+  addressLine: string;
+  city: string;
+  state: string;
+  postalCode: string;
+  lastDonationAt: string | null;
   totalDonations: number;
+  verificationStatus: string;
+}
+
+interface TimelineEntry {
+  type: "DONATION" | "DEFERRAL";
+  at: string;
+  donation?: {
+    id: number;
+    donationNumber: string;
+    component: string;
+    volumeMl: number;
+    site: string;
+    camp: { id: number; name: string } | null;
+    phlebotomist: string | null;
+    screeningStatus: "PENDING" | "CLEARED" | "REACTIVE";
+    adverseReaction: string | null;
+  };
+  deferral?: {
+    id: number;
+    type: string;
+    reasonCode: string;
+    expiresAt: string | null;
+  };
+}
+
+interface DonationHistory {
+  stats: {
+    totalDonations: number;
+    totalVolumeMl: number;
+    lastDonationAt: string | null;
+  };
+  entries: TimelineEntry[];
+}
+
+interface ContactReveal {
+  id: number;
+  basis: "PLEDGE" | "CONSENT";
+  createdAt: string;
+  viewer: { id: number; name: string };
+  bloodRequest: {
+    id: number;
+    hospitalName: string;
+    organization: { id: number; name: string };
+  };
+}
+
+interface ApiEnvelope<T> {
+  success: boolean;
+  data: T;
 }
 
 interface Props {
@@ -19,90 +76,40 @@ interface Props {
 }
 
 export default function UserProfilePage({ params }: Props) {
-  const [user, setUser] = useState<UserProfile | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState("");
-
-  useEffect(() => {
-    async function fetchUserProfile() {
-      try {
-        // Mock user data - in a real app, you'd fetch from your API
-        const mockUsers: Record<string, UserProfile> = {
-          "1": {
-            id: "1",
-            name: "John Doe",
-            email: "john@example.com",
-            role: "donor",
-            bloodType: "A+",
-            phone: "+1 (555) 123-4567",
-            address: "123 Main St, City, State 12345",
-            lastDonation: "2024-12-01",
-            totalDonations: 5,
-          },
-          "2": {
-            id: "2",
-            name: "Jane Smith",
-            email: "jane@example.com",
-            role: "donor",
-            bloodType: "O-",
-            phone: "+1 (555) 234-5678",
-            address: "456 Oak Ave, Town, State 54321",
-            lastDonation: "2024-11-15",
-            totalDonations: 8,
-          },
-          "3": {
-            id: "3",
-            name: "Admin User",
-            email: "admin@example.com",
-            role: "admin",
-            bloodType: "B+",
-            phone: "+1 (555) 345-6789",
-            address: "789 Pine Rd, Village, State 67890",
-            totalDonations: 0,
-          },
-          "4": {
-            id: "4",
-            name: "Bob Johnson",
-            email: "bob@example.com",
-            role: "donor",
-            bloodType: "AB+",
-            phone: "+1 (555) 456-7890",
-            address: "321 Elm St, City, State 11111",
-            lastDonation: "2024-12-10",
-            totalDonations: 12,
-          },
-          "5": {
-            id: "5",
-            name: "Alice Williams",
-            email: "alice@example.com",
-            role: "donor",
-            bloodType: "O+",
-            phone: "+1 (555) 567-8901",
-            address: "654 Maple Dr, Town, State 22222",
-            lastDonation: "2024-12-05",
-            totalDonations: 3,
-          },
-        };
-
-        const userData = mockUsers[params.id];
+  const {
+    data: userResponse,
+    error: userError,
+    isLoading: userLoading,
+  } = useSWR<ApiEnvelope<UserRecord>>(`/api/users/${params.id}`, fetcher);
+  const { data: profileResponse, isLoading: profileLoading } = useSWR<
+    ApiEnvelope<DonorProfile>
+  >(`/api/users/${params.id}/donor-profile`, fetcher, {
+    shouldRetryOnError: false,
+  });
 
-        if (!userData) {
-          setError("User not found");
-          setLoading(false);
-          return;
-        }
+  const { data: historyResponse } = useSWR<ApiEnvelope<DonationHistory>>(
+    `/api/users/${params.id}/donations`,
+    fetcher,
+    { shouldRetryOnError: false }
+  );
 
-        setUser(userData);
-        setLoading(false);
-      } catch (err) {
-        setError("Failed to load user profile");
-        setLoading(false);
-        console.error("Error fetching user:", err);
-      }
-    }
+  // Only the donor (or an admin/editor) can read who saw their contact
+  const { data: revealsResponse } = useSWR<
+    ApiEnvelope<{ reveals: ContactReveal[] }>
+  >(`/api/users/${params.id}/contact-reveals`, fetcher, {
+    shouldRetryOnError: false,
+  });
 
-    fetchUserProfile();
-  }, [params.id]);
+  const user = userResponse?.data;
+  const reveals = revealsResponse?.data.reveals;
+  const history = historyResponse?.data;
+  const profile = profileResponse?.data;
+  const loading = userLoading || profileLoading;
+  const error = userError ? userError.message || "Failed to load user" : "";
+  const bloodType = profile ? formatBloodGroup(profile.bloodGroup) : "N/A";
+  const address = profile
+    ? `${profile.addressLine}, ${profile.city}, ${profile.state} ${profile.postalCode}`
+    : "Not provided";
 
   if (loading) {
     return (
@@ -179,8 +186,21 @@ export default function UserProfilePage({ params }: Props) {
                 {user.role.toUpperCase()}
               </span>
               <span className="px-3 py-1 rounded-full text-sm font-semibold bg-red-100 text-red-800">
-                Blood Type: {user.bloodType}
+                Blood Type: {bloodType}
               </span>
+              {profile && (
+                <span
+                  className={`px-3 py-1 rounded-full text-sm font-semibold ${
+                    profile.verificationStatus === "VERIFIED"
+                      ? "bg-green-100 text-green-800"
+                      : "bg-gray-100 text-gray-800"
+                  }`}
+                >
+                  {profile.verificationStatus === "VERIFIED"
+                    ? "Verified Donor"
+                    : profile.verificationStatus.replace("_", " ")}
+                </span>
+              )}
             </div>
           </div>
         </div>
@@ -195,7 +215,9 @@ export default function UserProfilePage({ params }: Props) {
             <div className="space-y-3">
               <div>
                 <p className="text-sm text-gray-600">Phone</p>
-                <p className="text-gray-900 font-medium">{user.phone}</p>
+                <p className="text-gray-900 font-medium">
+                  {profile?.phone ?? "Not provided"}
+                </p>
               </div>
               <div>
                 <p className="text-sm text-gray-600">Email</p>
@@ -203,7 +225,7 @@ export default function UserProfilePage({ params }: Props) {
               </div>
               <div>
                 <p className="text-sm text-gray-600">Address</p>
-                <p className="text-gray-900 font-medium">{user.address}</p>
+                <p className="text-gray-900 font-medium">{address}</p>
               </div>
             </div>
           </div>
@@ -217,31 +239,161 @@ export default function UserProfilePage({ params }: Props) {
               <div>
                 <p className="text-sm text-gray-600">Total Donations</p>
                 <p className="text-3xl font-bold text-red-600">
-                  {user.totalDonations}
+                  {profile?.totalDonations ?? 0}
                 </p>
               </div>
-              {user.lastDonation && (
+              {profile?.lastDonationAt && (
                 <div>
                   <p className="text-sm text-gray-600">Last Donation</p>
                   <p className="text-gray-900 font-medium">
-                    {new Date(user.lastDonation).toLocaleDateString("en-US", {
-                      year: "numeric",
-                      month: "long",
-                      day: "numeric",
-                    })}
+                    {new Date(profile.lastDonationAt).toLocaleDateString(
+                      "en-US",
+                      {
+                        year: "numeric",
+                        month: "long",
+                        day: "numeric",
+                      }
+                    )}
                   </p>
                 </div>
               )}
               <div>
                 <p className="text-sm text-gray-600">Blood Type</p>
-                <p className="text-2xl font-bold text-red-600">
-                  {user.bloodType}
-                </p>
+                <p className="text-2xl font-bold text-red-600">{bloodType}</p>
               </div>
             </div>
           </div>
         </div>
 
+        {/* Donation History */}
+        {history && (
+          <div id="history" className="bg-white rounded-lg shadow p-6 mb-6">
+            <div className="flex items-baseline justify-between mb-4">
+              <h2 className="text-xl font-semibold text-gray-900">
+                Donation History
+              </h2>
+              <p className="text-sm text-gray-600">
+                {history.stats.totalDonations} donation(s),{" "}
+                {history.stats.totalVolumeMl} ml in total
+              </p>
+            </div>
+            {history.entries.length === 0 ? (
+              <p className="text-gray-600">No donations recorded yet.</p>
+            ) : (
+              <ol className="relative border-l border-gray-200 ml-2 space-y-5">
+                {history.entries.map((entry) => (
+                  <li
+                    key={`${entry.type}-${entry.donation?.id ?? entry.deferral?.id}`}
+                    className="ml-4"
+                  >
+                    <span
+                      className={`absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full ${
+                        entry.type === "DONATION" ? "bg-red-600" : "bg-gray-400"
+                      }`}
+                    ></span>
+                    <p className="text-sm text-gray-500">
+                      {new Date(entry.at).toLocaleDateString("en-US", {
+                        year: "numeric",
+                        month: "long",
+                        day: "numeric",
+                      })}
+                    </p>
+                    {entry.donation && (
+                      <div>
+                        <p className="font-medium text-gray-900">
+                          {entry.donation.component.replace("_", " ")} ·{" "}
+                          {entry.donation.volumeMl} ml at{" "}
+                          {entry.donation.camp?.name ?? entry.donation.site}
+                        </p>
+                        <p className="text-sm text-gray-600">
+                          Donation {entry.donation.donationNumber}
+                          {entry.donation.phlebotomist &&
+                            ` · drawn by ${entry.donation.phlebotomist}`}
+                        </p>
+                        <div className="flex gap-2 mt-1">
+                          <span
+                            className={`px-2 py-0.5 rounded-full text-xs font-semibold ${
+                              entry.donation.screeningStatus === "CLEARED"
+                                ? "bg-green-100 text-green-800"
+                                : entry.donation.screeningStatus === "REACTIVE"
+                                  ? "bg-red-100 text-red-800"
+                                  : "bg-yellow-100 text-yellow-800"
+                            }`}
+                          >
+                            Screening {entry.donation.screeningStatus}
+                          </span>
+                          {entry.donation.adverseReaction && (
+                            <span className="px-2 py-0.5 rounded-full text-xs font-semibold bg-orange-100 text-orange-800">
+                              {entry.donation.adverseReaction} reaction
+                            </span>
+                          )}
+                          <a
+                            href={`/api/users/${params.id}/donations/${entry.donation.id}/certificate`}
+                            className="text-xs text-red-600 hover:underline"
+                          >
+                            Download certificate
+                          </a>
+                        </div>
+                      </div>
+                    )}
+                    {entry.deferral && (
+                      <div>
+                        <p className="font-medium text-gray-900">
+                          {entry.deferral.type === "PERMANENT"
+                            ? "Permanently deferred"
+                            : "Deferred"}{" "}
+                          ({entry.deferral.reasonCode.replace("_", " ")})
+                        </p>
+                        {entry.deferral.expiresAt && (
+                          <p className="text-sm text-gray-600">
+                            Until{" "}
+                            {new Date(
+                              entry.deferral.expiresAt
+                            ).toLocaleDateString("en-US")}
+                          </p>
+                        )}
+                      </div>
+                    )}
+                  </li>
+                ))}
+              </ol>
+            )}
+          </div>
+        )}
+
+        {/* Contact Reveal Audit Trail */}
+        {reveals && (
+          <div className="bg-white rounded-lg shadow p-6 mb-6">
+            <h2 className="text-xl font-semibold text-gray-900 mb-4">
+              Who Has Seen My Contact
+            </h2>
+            {reveals.length === 0 ? (
+              <p className="text-gray-600">
+                No coordinator has viewed your contact details.
+              </p>
+            ) : (
+              <ul className="divide-y divide-gray-200">
+                {reveals.map((reveal) => (
+                  <li key={reveal.id} className="py-3">
+                    <p className="font-medium text-gray-900">
+                      {reveal.viewer.name} ·{" "}
+                      {reveal.bloodRequest.organization.name}
+                    </p>
+                    <p className="text-sm text-gray-600">
+                      Request #{reveal.bloodRequest.id} at{" "}
+                      {reveal.bloodRequest.hospitalName} ·{" "}
+                      {reveal.basis === "PLEDGE"
+                        ? "you pledged"
+                        : "you consented"}{" "}
+                      · {new Date(reveal.createdAt).toLocaleString()}
+                    </p>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
         {/* Actions */}
         <div className="bg-white rounded-lg shadow p-6">
           <h2 className="text-xl font-semibold text-gray-900 mb-4">Actions</h2>
@@ -252,9 +404,28 @@ export default function UserProfilePage({ params }: Props) {
             <button className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-md transition-colors">
               Send Message
             </button>
-            <button className="px-4 py-2 bg-gray-600 hover:bg-gray-700 text-white rounded-md transition-colors">
+            {profile && (
+              <a
+                href={`/api/users/${params.id}/donor-card`}
+                className="px-4 py-2 bg-red-100 hover:bg-red-200 text-red-800 rounded-md transition-colors"
+              >
+                Donor Card (PDF)
+              </a>
+            )}
+            {profile && (
+              <Link
+                href={`/users/${params.id}/settings`}
+                className="px-4 py-2 bg-gray-100 hover:bg-gray-200 text-gray-800 rounded-md transition-colors"
+              >
+                Availability &amp; Alerts
+              </Link>
+            )}
+            <a
+              href="#history"
+              className="px-4 py-2 bg-gray-600 hover:bg-gray-700 text-white rounded-md transition-colors"
+            >
               View History
-            </button>
+            </a>
           </div>
         </div>
 
@@ -269,8 +440,11 @@ export default function UserProfilePage({ params }: Props) {
               /users/{params.id}
             </code>
             . The user ID ({params.id}) is extracted from the URL and used to
-            fetch the corresponding user data. Try navigating to different user
-            IDs like /users/1, /users/2, etc.
+            fetch the user record and donor profile from{" "}
+            <code className="bg-green-100 px-2 py-1 rounded">
+              /api/users/{params.id}/donor-profile
+            </code>
+            .
           </p>
         </div>
 
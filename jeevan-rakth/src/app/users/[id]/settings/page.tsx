@@ -0,0 +1,409 @@
+"use client";
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import useSWR from "swr";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { fetcher } from "@/lib/fetcher";
+import { useToast } from "@/hooks/useToast";
+import FormInput from "@/components/ui/FormInput";
+import { isValidTimezone } from "@/lib/notifications/quietHours";
+import { timeOfDaySchema } from "@/lib/schemas/donorProfileSchema";
+
+const CHANNELS = [
+  { value: "IN_APP", label: "In-app" },
+  { value: "EMAIL", label: "Email" },
+  { value: "SMS", label: "SMS" },
+  { value: "PUSH", label: "Push" },
+] as const;
+
+type Channel = (typeof CHANNELS)[number]["value"];
+
+// Time inputs submit "" when cleared
+const optionalTime = z.union([z.literal(""), timeOfDaySchema]);
+
+const bothOrNeither = (start: string, end: string) =>
+  (start === "") === (end === "");
+
+const preferencesSchema = z
+  .object({
+    isAvailable: z.boolean(),
+    alertsOptOut: z.boolean(),
+    channels: z.array(z.enum(["IN_APP", "EMAIL", "SMS", "PUSH"])),
+    quietHoursStart: optionalTime,
+    quietHoursEnd: optionalTime,
+    contactHoursStart: optionalTime,
+    contactHoursEnd: optionalTime,
+    timezone: z.string().refine(isValidTimezone, "Unknown timezone"),
+  })
+  .refine((data) => bothOrNeither(data.quietHoursStart, data.quietHoursEnd), {
+    message: "Set both a start and an end, or neither",
+    path: ["quietHoursEnd"],
+  })
+  .refine(
+    (data) => bothOrNeither(data.contactHoursStart, data.contactHoursEnd),
+    {
+      message: "Set both a start and an end, or neither",
+      path: ["contactHoursEnd"],
+    }
+  );
+
+const periodSchema = z
+  .object({
+    startsOn: z.string().min(1, "Start date is required"),
+    endsOn: z.string().min(1, "End date is required"),
+    reason: z.string().trim().max(200, "Reason is too long"),
+  })
+  .refine((data) => data.endsOn >= data.startsOn, {
+    message: "End date cannot be before the start date",
+    path: ["endsOn"],
+  });
+
+type PreferencesFormData = z.infer<typeof preferencesSchema>;
+type PeriodFormData = z.infer<typeof periodSchema>;
+
+interface DonorPreferences {
+  isAvailable: boolean;
+  alertsOptOut: boolean;
+  optedOutChannels: Channel[];
+  quietHoursStart: string | null;
+  quietHoursEnd: string | null;
+  contactHoursStart: string | null;
+  contactHoursEnd: string | null;
+  timezone: string;
+}
+
+interface UnavailabilityPeriod {
+  id: number;
+  startsAt: string;
+  endsAt: string;
+  reason: string | null;
+}
+
+interface ApiEnvelope<T> {
+  success: boolean;
+  data: T;
+}
+
+interface Props {
+  params: { id: string };
+}
+
+const dateFormat: Intl.DateTimeFormatOptions = {
+  year: "numeric",
+  month: "short",
+  day: "numeric",
+};
+
+async function send(url: string, method: string, body?: unknown) {
+  const res = await fetch(url, {
+    method,
+    headers: { "Content-Type": "application/json" },
+    credentials: "include",
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  const payload = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(payload.message || "Request failed");
+  return payload;
+}
+
+export default function DonorSettingsPage({ params }: Props) {
+  const toast = useToast();
+  const [removing, setRemoving] = useState<number | null>(null);
+  const profileUrl = `/api/users/${params.id}/donor-profile`;
+  const periodsUrl = `/api/users/${params.id}/unavailability`;
+
+  const {
+    data: profileResponse,
+    error: profileError,
+    isLoading,
+  } = useSWR<ApiEnvelope<DonorPreferences>>(profileUrl, fetcher, {
+    shouldRetryOnError: false,
+  });
+  const { data: periodsResponse, mutate: refreshPeriods } = useSWR<
+    ApiEnvelope<{ periods: UnavailabilityPeriod[] }>
+  >(periodsUrl, fetcher);
+
+  const preferences = useForm<PreferencesFormData>({
+    resolver: zodResolver(preferencesSchema),
+  });
+  const period = useForm<PeriodFormData>({
+    resolver: zodResolver(periodSchema),
+    defaultValues: { startsOn: "", endsOn: "", reason: "" },
+  });
+
+  const profile = profileResponse?.data;
+  const { reset } = preferences;
+  useEffect(() => {
+    if (!profile) return;
+    reset({
+      isAvailable: profile.isAvailable,
+      alertsOptOut: profile.alertsOptOut,
+      channels: CHANNELS.map((c) => c.value).filter(
+        (channel) => !profile.optedOutChannels.includes(channel)
+      ),
+      quietHoursStart: profile.quietHoursStart ?? "",
+      quietHoursEnd: profile.quietHoursEnd ?? "",
+      contactHoursStart: profile.contactHoursStart ?? "",
+      contactHoursEnd: profile.contactHoursEnd ?? "",
+      timezone: profile.timezone,
+    });
+  }, [profile, reset]);
+
+  const savePreferences = async (data: PreferencesFormData) => {
+    try {
+      await send(profileUrl, "PATCH", {
+        isAvailable: data.isAvailable,
+        alertsOptOut: data.alertsOptOut,
+        optedOutChannels: CHANNELS.map((c) => c.value).filter(
+          (channel) => !data.channels.includes(channel)
+        ),
+        quietHoursStart: data.quietHoursStart || null,
+        quietHoursEnd: data.quietHoursEnd || null,
+        contactHoursStart: data.contactHoursStart || null,
+        contactHoursEnd: data.contactHoursEnd || null,
+        timezone: data.timezone,
+      });
+      toast.success("Preferences saved");
+    } catch (error) {
+      toast.error("Could not save preferences", {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    }
+  };
+
+  // Dates are whole local days; the period ends at the start of the day
+  // after the chosen end date
+  const addPeriod = async (data: PeriodFormData) => {
+    const endsAt = new Date(`${data.endsOn}T00:00`);
+    endsAt.setDate(endsAt.getDate() + 1);
+    try {
+      await send(periodsUrl, "POST", {
+        startsAt: new Date(`${data.startsOn}T00:00`).toISOString(),
+        endsAt: endsAt.toISOString(),
+        reason: data.reason || undefined,
+      });
+      toast.success("Unavailability added");
+      period.reset();
+      await refreshPeriods();
+    } catch (error) {
+      toast.error("Could not add unavailability", {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    }
+  };
+
+  const removePeriod = async (id: number) => {
+    setRemoving(id);
+    try {
+      await send(`${periodsUrl}/${id}`, "DELETE");
+      await refreshPeriods();
+    } catch (error) {
+      toast.error("Could not remove unavailability", {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    } finally {
+      setRemoving(null);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <main className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-red-600"></div>
+      </main>
+    );
+  }
+
+  if (profileError || !profile) {
+    return (
+      <main className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <p className="text-xl font-semibold text-red-600">
+          {profileError?.message || "Donor profile not found"}
+        </p>
+      </main>
+    );
+  }
+
+  const errors = preferences.formState.errors;
+  const periodErrors = period.formState.errors;
+  const periods = periodsResponse?.data.periods ?? [];
+
+  return (
+    <main className="min-h-screen bg-gray-50">
+      <div className="max-w-2xl mx-auto px-4 py-8">
+        <nav className="mb-6 text-sm text-gray-600">
+          <Link href={`/users/${params.id}`} className="hover:text-red-600">
+            ← Back to profile
+          </Link>
+        </nav>
+
+        <form
+          onSubmit={preferences.handleSubmit(savePreferences)}
+          className="bg-white rounded-lg shadow p-6 mb-6"
+        >
+          <h1 className="text-2xl font-bold text-gray-900 mb-4">
+            Availability &amp; Alerts
+          </h1>
+
+          <label className="flex items-center gap-2 mb-3">
+            <input type="checkbox" {...preferences.register("isAvailable")} />
+            <span className="font-medium">Available to donate</span>
+          </label>
+          <label className="flex items-center gap-2 mb-4">
+            <input type="checkbox" {...preferences.register("alertsOptOut")} />
+            <span className="font-medium">Pause all donation alerts</span>
+          </label>
+
+          <fieldset className="mb-4">
+            <legend className="block mb-1 font-medium">Reach me through</legend>
+            <div className="flex gap-4">
+              {CHANNELS.map((channel) => (
+                <label key={channel.value} className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    value={channel.value}
+                    {...preferences.register("channels")}
+                  />
+                  {channel.label}
+                </label>
+              ))}
+            </div>
+          </fieldset>
+
+          <p className="text-sm text-gray-600 mb-2">
+            Do not disturb: no SMS or push notifications during these hours.
+          </p>
+          <div className="grid grid-cols-2 gap-4">
+            <FormInput
+              label="Quiet hours from"
+              name="quietHoursStart"
+              type="time"
+              register={preferences.register}
+              error={errors.quietHoursStart?.message}
+            />
+            <FormInput
+              label="Quiet hours until"
+              name="quietHoursEnd"
+              type="time"
+              register={preferences.register}
+              error={errors.quietHoursEnd?.message}
+            />
+          </div>
+
+          <p className="text-sm text-gray-600 mb-2">
+            Preferred contact hours: outside them only critical requests send
+            SMS or push notifications.
+          </p>
+          <div className="grid grid-cols-2 gap-4">
+            <FormInput
+              label="Contact me from"
+              name="contactHoursStart"
+              type="time"
+              register={preferences.register}
+              error={errors.contactHoursStart?.message}
+            />
+            <FormInput
+              label="Contact me until"
+              name="contactHoursEnd"
+              type="time"
+              register={preferences.register}
+              error={errors.contactHoursEnd?.message}
+            />
+          </div>
+
+          <FormInput
+            label="Timezone"
+            name="timezone"
+            placeholder="Asia/Kolkata"
+            register={preferences.register}
+            error={errors.timezone?.message}
+          />
+
+          <button
+            type="submit"
+            disabled={preferences.formState.isSubmitting}
+            className="w-full bg-red-600 text-white px-4 py-2 mt-2 rounded hover:bg-red-700 disabled:bg-red-400 disabled:cursor-not-allowed transition-colors font-medium"
+          >
+            {preferences.formState.isSubmitting ? "Saving..." : "Save"}
+          </button>
+        </form>
+
+        <div className="bg-white rounded-lg shadow p-6">
+          <h2 className="text-xl font-semibold text-gray-900 mb-4">
+            Time Away
+          </h2>
+          {periods.length === 0 ? (
+            <p className="text-gray-600 mb-4">No time away planned.</p>
+          ) : (
+            <ul className="divide-y divide-gray-200 mb-4">
+              {periods.map((p) => {
+                const lastDay = new Date(new Date(p.endsAt).getTime() - 1);
+                return (
+                  <li
+                    key={p.id}
+                    className="py-3 flex justify-between items-center"
+                  >
+                    <div>
+                      <p className="font-medium text-gray-900">
+                        {new Date(p.startsAt).toLocaleDateString(
+                          "en-US",
+                          dateFormat
+                        )}{" "}
+                        – {lastDay.toLocaleDateString("en-US", dateFormat)}
+                      </p>
+                      {p.reason && (
+                        <p className="text-sm text-gray-600">{p.reason}</p>
+                      )}
+                    </div>
+                    <button
+                      onClick={() => removePeriod(p.id)}
+                      disabled={removing !== null}
+                      className="text-sm text-red-600 hover:underline disabled:opacity-50"
+                    >
+                      {removing === p.id ? "Removing..." : "Remove"}
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+
+          <form onSubmit={period.handleSubmit(addPeriod)}>
+            <div className="grid grid-cols-2 gap-4">
+              <FormInput
+                label="Away from"
+                name="startsOn"
+                type="date"
+                register={period.register}
+                error={periodErrors.startsOn?.message}
+              />
+              <FormInput
+                label="Back after"
+                name="endsOn"
+                type="date"
+                register={period.register}
+                error={periodErrors.endsOn?.message}
+              />
+            </div>
+            <FormInput
+              label="Reason (optional)"
+              name="reason"
+              placeholder="Travelling"
+              register={period.register}
+              error={periodErrors.reason?.message}
+            />
+            <button
+              type="submit"
+              disabled={period.formState.isSubmitting}
+              className="w-full bg-gray-700 text-white px-4 py-2 mt-2 rounded hover:bg-gray-800 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors font-medium"
+            >
+              {period.formState.isSubmitting ? "Adding..." : "Add time away"}
+            </button>
+          </form>
+        </div>
+      </div>
+    </main>
+  );
+}
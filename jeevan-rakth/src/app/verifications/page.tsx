@@ -0,0 +1,214 @@
+"use client";
+import { useState } from "react";
+import useSWR from "swr";
+import { fetcher } from "@/lib/fetcher";
+import { useToast } from "@/hooks/useToast";
+import { ButtonLoader } from "@/components";
+import { formatBloodGroup } from "@/lib/bloodGroups";
+
+type Decision = "APPROVE" | "REJECT" | "REQUEST_INFO";
+
+interface QueuedDonor {
+  id: number;
+  bloodGroup: string;
+  city: string | null;
+  state: string | null;
+  verificationSubmittedAt: string | null;
+  user: { id: number; name: string; email: string };
+  verificationDocuments: {
+    id: number;
+    type: string;
+    file: { id: number; name: string; mimeType: string; url: string };
+  }[];
+  verificationReviews: {
+    decision: string;
+    reason: string;
+    createdAt: string;
+  }[];
+}
+
+interface ApiEnvelope<T> {
+  success: boolean;
+  data: T;
+  meta?: { total: number };
+}
+
+const DOCUMENT_LABELS: Record<string, string> = {
+  ID_PROOF: "ID proof",
+  BLOOD_GROUP_REPORT: "Blood-grouping report",
+};
+
+const DECISION_BUTTONS: {
+  decision: Decision;
+  label: string;
+  variant: "primary" | "secondary" | "danger";
+}[] = [
+  { decision: "APPROVE", label: "Approve", variant: "primary" },
+  { decision: "REQUEST_INFO", label: "Request info", variant: "secondary" },
+  { decision: "REJECT", label: "Reject", variant: "danger" },
+];
+
+export default function VerificationsPage() {
+  const toast = useToast();
+  const [reasons, setReasons] = useState<Record<number, string>>({});
+  const [deciding, setDeciding] = useState<number | null>(null);
+  const { data, error, isLoading, mutate } = useSWR<
+    ApiEnvelope<{ donors: QueuedDonor[] }>
+  >("/api/verifications?status=PENDING", fetcher);
+
+  const decide = async (donor: QueuedDonor, decision: Decision) => {
+    const reason = reasons[donor.id]?.trim() ?? "";
+    if (reason.length < 3) {
+      toast.error("Add a reason for your decision");
+      return;
+    }
+
+    setDeciding(donor.id);
+    try {
+      const res = await fetch(`/api/verifications/${donor.id}/review`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ decision, reason }),
+      });
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(body.message || "Failed to record decision");
+      }
+      toast.success(body.message);
+      setReasons((prev) => ({ ...prev, [donor.id]: "" }));
+      await mutate();
+    } catch (err) {
+      toast.error("Review failed", {
+        description: err instanceof Error ? err.message : undefined,
+      });
+    } finally {
+      setDeciding(null);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <main className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-red-600"></div>
+      </main>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <main className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <p className="text-xl font-semibold text-red-600">
+          {error?.message || "Failed to load the verification queue"}
+        </p>
+      </main>
+    );
+  }
+
+  const donors = data.data.donors;
+
+  return (
+    <main className="min-h-screen bg-gray-50">
+      <div className="max-w-4xl mx-auto px-4 py-8">
+        <div className="bg-white rounded-lg shadow p-6 mb-6">
+          <h1 className="text-2xl font-bold text-gray-900">
+            Donor Verification Queue
+          </h1>
+          <p className="text-gray-600">
+            {data.meta?.total ?? donors.length} pending · oldest submissions
+            first
+          </p>
+        </div>
+
+        {donors.length === 0 && (
+          <div className="bg-white rounded-lg shadow p-6">
+            <p className="text-gray-600">No submissions waiting for review.</p>
+          </div>
+        )}
+
+        {donors.map((donor) => {
+          const lastReview = donor.verificationReviews[0];
+          return (
+            <div key={donor.id} className="bg-white rounded-lg shadow p-6 mb-6">
+              <div className="flex justify-between items-start mb-4">
+                <div>
+                  <h2 className="text-xl font-semibold text-gray-900">
+                    {donor.user.name}
+                  </h2>
+                  <p className="text-sm text-gray-600">
+                    {donor.user.email}
+                    {donor.city && ` · ${donor.city}`}
+                    {donor.state && `, ${donor.state}`}
+                  </p>
+                </div>
+                <span className="px-3 py-1 rounded-full text-sm font-semibold bg-red-100 text-red-800">
+                  {formatBloodGroup(donor.bloodGroup)}
+                </span>
+              </div>
+
+              {donor.verificationSubmittedAt && (
+                <p className="text-sm text-gray-600 mb-3">
+                  Submitted{" "}
+                  {new Date(donor.verificationSubmittedAt).toLocaleString()}
+                </p>
+              )}
+
+              <ul className="mb-4 space-y-1">
+                {donor.verificationDocuments.map((document) => (
+                  <li key={document.id} className="text-sm">
+                    <span className="text-gray-600">
+                      {DOCUMENT_LABELS[document.type] ?? document.type}:{" "}
+                    </span>
+                    <a
+                      href={document.file.url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-red-600 hover:underline"
+                    >
+                      {document.file.name}
+                    </a>
+                  </li>
+                ))}
+              </ul>
+
+              {lastReview && (
+                <p className="text-sm text-gray-600 mb-3">
+                  Previous decision: {lastReview.decision.replace("_", " ")} —{" "}
+                  {lastReview.reason}
+                </p>
+              )}
+
+              <textarea
+                value={reasons[donor.id] ?? ""}
+                onChange={(e) =>
+                  setReasons((prev) => ({
+                    ...prev,
+                    [donor.id]: e.target.value,
+                  }))
+                }
+                placeholder="Reason for your decision (shared with the donor)"
+                maxLength={500}
+                rows={2}
+                className="w-full border border-gray-300 rounded-lg p-2 text-sm mb-3"
+              />
+              <div className="flex gap-3">
+                {DECISION_BUTTONS.map(({ decision, label, variant }) => (
+                  <ButtonLoader
+                    key={decision}
+                    onClick={() => decide(donor, decision)}
+                    isLoading={deciding === donor.id}
+                    disabled={deciding !== null}
+                    loadingText="Saving..."
+                    variant={variant}
+                  >
+                    {label}
+                  </ButtonLoader>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,131 @@
+"use client";
+import useSWR from "swr";
+import { fetcher } from "@/lib/fetcher";
+
+type Verification =
+  | {
+      type: "DONATION";
+      code: string;
+      donatedOn: string;
+      component: string;
+      volumeMl: number;
+      site: string;
+      camp: string | null;
+      issuerVerified: boolean;
+    }
+  | {
+      type: "DONOR_CARD";
+      code: string;
+      donorId: string;
+      bloodGroup: string;
+      totalDonations: number;
+    };
+
+interface ApiEnvelope<T> {
+  success: boolean;
+  data: T;
+}
+
+interface Props {
+  params: { code: string };
+}
+
+function Row({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="flex justify-between py-2 border-b border-gray-100">
+      <span className="text-sm text-gray-600">{label}</span>
+      <span className="text-gray-900 font-medium">{value}</span>
+    </div>
+  );
+}
+
+export default function VerifyCertificatePage({ params }: Props) {
+  const { data, error, isLoading } = useSWR<ApiEnvelope<Verification>>(
+    `/api/certificates/verify/${encodeURIComponent(params.code)}`,
+    fetcher,
+    { shouldRetryOnError: false }
+  );
+
+  if (isLoading) {
+    return (
+      <main className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-red-600"></div>
+      </main>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <main className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center max-w-md px-4">
+          <p className="text-xl font-semibold text-red-600 mb-2">
+            Not a genuine document
+          </p>
+          <p className="text-gray-600">
+            No certificate or donor card matches the code {params.code}.
+          </p>
+        </div>
+      </main>
+    );
+  }
+
+  const verified = data.data;
+
+  return (
+    <main className="min-h-screen bg-gray-50">
+      <div className="max-w-lg mx-auto px-4 py-8">
+        <div className="mb-6 bg-green-50 border border-green-200 rounded-lg p-4 text-green-800">
+          ✓ This{" "}
+          {verified.type === "DONATION" ? "donation certificate" : "donor card"}{" "}
+          is genuine.
+        </div>
+
+        <div className="bg-white rounded-lg shadow p-6">
+          <h1 className="text-xl font-semibold text-gray-900 mb-4">
+            {verified.type === "DONATION"
+              ? "Certificate of Blood Donation"
+              : "Donor Card"}
+          </h1>
+          <Row label="Code" value={verified.code} />
+          {verified.type === "DONATION" ? (
+            <>
+              <Row
+                label="Donated on"
+                value={new Date(verified.donatedOn).toLocaleDateString(
+                  "en-US",
+                  { year: "numeric", month: "long", day: "numeric" }
+                )}
+              />
+              <Row
+                label="Donation"
+                value={`${verified.volumeMl} ml of ${verified.component
+                  .replace("_", " ")
+                  .toLowerCase()}`}
+              />
+              <Row label="Collected by" value={verified.site} />
+              {verified.camp && <Row label="Camp" value={verified.camp} />}
+              <Row
+                label="Issuer"
+                value={
+                  verified.issuerVerified
+                    ? "Verified organization"
+                    : "Organization awaiting verification"
+                }
+              />
+            </>
+          ) : (
+            <>
+              <Row label="Donor ID" value={verified.donorId} />
+              <Row label="Blood group" value={verified.bloodGroup} />
+              <Row label="Donations" value={String(verified.totalDonations)} />
+            </>
+          )}
+          <p className="mt-4 text-xs text-gray-500">
+            Donor names and contact details are never shown here. Compare these
+            details with the printed document.
+          </p>
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -1,20 +1,22 @@
-import { UseFormRegister, FieldValues } from "react-hook-form";
+import { UseFormRegister, FieldValues, Path } from "react-hook-form";
 
-interface FormInputProps {
+interface FormInputProps<T extends FieldValues> {
   label: string;
   type?: string;
-  register: UseFormRegister<FieldValues>;
-  name: string;
+  register: UseFormRegister<T>;
+  name: Path<T>;
   error?: string;
+  placeholder?: string;
 }
 
-export default function FormInput({
+export default function FormInput<T extends FieldValues>({
   label,
   type = "text",
   register,
   name,
   error,
-}: FormInputProps) {
+  placeholder,
+}: FormInputProps<T>) {
   return (
     <div className="mb-3">
       <label htmlFor={name} className="block mb-1 font-medium">
@@ -23,6 +25,7 @@ export default function FormInput({
       <input
         id={name}
         type={type}
+        placeholder={placeholder}
         {...register(name)}
         aria-invalid={error ? "true" : "false"}
         className={`w-full border p-2 rounded ${
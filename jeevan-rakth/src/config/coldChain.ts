@@ -0,0 +1,44 @@
+/**
+ * Cold-chain Monitoring Configuration
+ *
+ * Storage ranges each kind of equipment must hold, in °C: refrigerators
+ * for whole blood and red cells at 2-6 °C, plasma freezers at -25 °C or
+ * colder and platelet agitators at 20-24 °C. A logged reading outside its
+ * equipment's range opens a temperature excursion.
+ *
+ * Readings more than the allowed clock skew ahead of the server are
+ * rejected, so a logger with a wrong clock cannot hold an excursion open.
+ */
+
+import type { StorageEquipmentType } from "@prisma/client";
+
+// Unlike the other settings, 0 and negative values are meaningful here
+function celsius(name: string, fallback: number): number {
+  const value = process.env[name]?.trim();
+  return value && Number.isFinite(Number(value)) ? Number(value) : fallback;
+}
+
+export const equipmentTemperatureRangeC: Record<
+  StorageEquipmentType,
+  { min: number; max: number }
+> = {
+  REFRIGERATOR: {
+    min: celsius("REFRIGERATOR_MIN_C", 2),
+    max: celsius("REFRIGERATOR_MAX_C", 6),
+  },
+  FREEZER: {
+    min: celsius("FREEZER_MIN_C", -45),
+    max: celsius("FREEZER_MAX_C", -25),
+  },
+  PLATELET_AGITATOR: {
+    min: celsius("PLATELET_AGITATOR_MIN_C", 20),
+    max: celsius("PLATELET_AGITATOR_MAX_C", 24),
+  },
+};
+
+export const readingPolicy = {
+  /** Most readings accepted in one upload */
+  maxBatchSize: Number(process.env.TEMPERATURE_MAX_BATCH_SIZE) || 1000,
+  /** Minutes a reading may be timestamped ahead of the server clock */
+  clockSkewMinutes: Number(process.env.TEMPERATURE_CLOCK_SKEW_MINUTES) || 5,
+};
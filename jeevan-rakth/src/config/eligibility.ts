@@ -0,0 +1,47 @@
+/**
+ * Donation Eligibility Configuration
+ *
+ * Thresholds used by the eligibility engine (src/lib/eligibility). Values
+ * follow common national blood transfusion guidelines and can be tuned here
+ * without touching the engine itself.
+ *
+ * Intervals are keyed by the component the donor LAST gave: after a whole
+ * blood donation the donor must rest 90 days before giving anything again,
+ * while an apheresis platelet donor can return much sooner.
+ */
+
+import type { BloodComponent } from "@prisma/client";
+
+export interface EligibilityRules {
+  minAgeYears: number;
+  maxAgeYears: number;
+  /** Minimum body weight per component being donated */
+  minWeightKg: Record<BloodComponent, number>;
+  /** Minimum haemoglobin (g/dL) per component being donated */
+  minHaemoglobinGdl: Record<BloodComponent, number>;
+  /** Days to wait after donating a component before the next donation */
+  minIntervalDays: Record<BloodComponent, number>;
+}
+
+export const eligibilityRules: EligibilityRules = {
+  minAgeYears: 18,
+  maxAgeYears: 65,
+  minWeightKg: {
+    WHOLE_BLOOD: 45,
+    RED_CELLS: 45,
+    PLASMA: 50,
+    PLATELETS: 50,
+  },
+  minHaemoglobinGdl: {
+    WHOLE_BLOOD: 12.5,
+    RED_CELLS: 12.5,
+    PLASMA: 12.5,
+    PLATELETS: 12.5,
+  },
+  minIntervalDays: {
+    WHOLE_BLOOD: 90,
+    RED_CELLS: 120,
+    PLASMA: 14,
+    PLATELETS: 7,
+  },
+};
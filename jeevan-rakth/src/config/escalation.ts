@@ -0,0 +1,55 @@
+/**
+ * Request Escalation Configuration
+ *
+ * When a request's pledges still do not cover the units outstanding, the
+ * escalation worker takes the next step of its urgency's policy once the
+ * window has passed since the request was opened or last escalated.
+ * Donor-facing steps build on each other: a wider radius stays wide and
+ * compatible groups stay included for every later wave.
+ */
+
+import type { UrgencyLevel } from "@prisma/client";
+
+export type EscalationAction =
+  /** Alert identical-group donors further away */
+  | "WIDEN_RADIUS"
+  /** Alert donors of compatible, non-identical groups */
+  | "INCLUDE_COMPATIBLE"
+  /** Ask verified blood banks in the same state for stock */
+  | "NOTIFY_PARTNER_BANKS"
+  /** Page the requesting organization's admins on every channel */
+  | "PAGE_ORG_ADMINS";
+
+export type EscalationStep = {
+  action: EscalationAction;
+  /** Search radius for this and later donor waves (WIDEN_RADIUS only) */
+  radiusKm?: number;
+};
+
+export type EscalationPolicy = {
+  /** Minutes without enough pledges before the next step runs */
+  windowMinutes: number;
+  steps: EscalationStep[];
+};
+
+export const escalationPolicy: Record<UrgencyLevel, EscalationPolicy> = {
+  CRITICAL: {
+    windowMinutes: Number(process.env.ESCALATION_WINDOW_CRITICAL_MINUTES) || 15,
+    steps: [
+      { action: "WIDEN_RADIUS", radiusKm: 25 },
+      { action: "INCLUDE_COMPATIBLE" },
+      { action: "WIDEN_RADIUS", radiusKm: 50 },
+      { action: "NOTIFY_PARTNER_BANKS" },
+      { action: "PAGE_ORG_ADMINS" },
+    ],
+  },
+  // Urgent requests are normally served from stock, so escalate to banks
+  URGENT: {
+    windowMinutes: Number(process.env.ESCALATION_WINDOW_URGENT_MINUTES) || 120,
+    steps: [{ action: "NOTIFY_PARTNER_BANKS" }, { action: "PAGE_ORG_ADMINS" }],
+  },
+  ROUTINE: {
+    windowMinutes: 0,
+    steps: [],
+  },
+};
@@ -0,0 +1,41 @@
+/**
+ * Blood Unit Inventory Configuration
+ *
+ * Shelf life of each component counted from the collection date. Values
+ * assume standard storage: red cells in SAGM at 2-6 °C, whole blood in
+ * CPDA-1, platelets agitated at 20-24 °C and fresh frozen plasma at -30 °C.
+ *
+ * Transport ranges are the temperatures a unit may read at any cold-chain
+ * checkpoint while it travels between organizations.
+ *
+ * Separated volumes are the typical yield of each component from a 450 ml
+ * whole-blood donation, used when the lab does not record the bag's own.
+ */
+
+import type { BloodComponent } from "@prisma/client";
+
+export const componentShelfLifeDays: Record<BloodComponent, number> = {
+  WHOLE_BLOOD: 35,
+  RED_CELLS: 42,
+  PLASMA: 365,
+  PLATELETS: 5,
+};
+
+export const componentTransportTemperatureC: Record<
+  BloodComponent,
+  { min: number; max: number }
+> = {
+  WHOLE_BLOOD: { min: 1, max: 10 },
+  RED_CELLS: { min: 1, max: 10 },
+  PLASMA: { min: -40, max: -18 },
+  PLATELETS: { min: 20, max: 24 },
+};
+
+export const separatedComponentVolumeMl: Record<
+  Exclude<BloodComponent, "WHOLE_BLOOD">,
+  number
+> = {
+  RED_CELLS: 280,
+  PLASMA: 220,
+  PLATELETS: 50,
+};
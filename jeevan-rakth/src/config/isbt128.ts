@@ -0,0 +1,32 @@
+/**
+ * ISBT 128 Labeling Configuration
+ *
+ * Product codes are the eight-character ISBT 128 product codes printed on
+ * this bank's labels: a product description code from the ICCBBA product
+ * lookup table, the type of donation (V = volunteer allogeneic) and the
+ * division code (00 = not divided). Replace them with the codes of the
+ * products actually prepared locally.
+ *
+ * Blood group codes are the ABO/RhD values of the blood groups data
+ * structure; the trailing "00" carries no Rh, Kell or special messages.
+ */
+
+import type { BloodComponent, BloodGroup } from "@prisma/client";
+
+export const componentProductCodes: Record<BloodComponent, string> = {
+  WHOLE_BLOOD: "E0001V00",
+  RED_CELLS: "E0224V00",
+  PLASMA: "E0701V00",
+  PLATELETS: "E3070V00",
+};
+
+export const bloodGroupCodes: Record<BloodGroup, string> = {
+  O_NEG: "9500",
+  O_POS: "5100",
+  A_NEG: "0600",
+  A_POS: "6200",
+  B_NEG: "1700",
+  B_POS: "7300",
+  AB_NEG: "2800",
+  AB_POS: "8400",
+};
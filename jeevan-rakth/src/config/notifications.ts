@@ -0,0 +1,16 @@
+/**
+ * Donor Alert Configuration
+ *
+ * Policy for fanning out alerts when a critical blood request is opened.
+ * Deployment-specific values can be overridden through environment
+ * variables; the defaults suit a single city.
+ */
+
+export const alertPolicy = {
+  /** Search radius around the hospital for the first wave of alerts */
+  radiusKm: Number(process.env.ALERT_RADIUS_KM) || 10,
+  /** Most donors alerted per fan-out */
+  maxDonorsPerRequest: Number(process.env.ALERT_MAX_DONORS_PER_REQUEST) || 50,
+  /** Most alerts a single donor receives per calendar day */
+  maxAlertsPerDonorPerDay: Number(process.env.ALERT_MAX_PER_DONOR_PER_DAY) || 3,
+};
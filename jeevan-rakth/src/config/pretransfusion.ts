@@ -0,0 +1,16 @@
+/**
+ * Pre-transfusion Testing Configuration
+ *
+ * A patient sample may only be cross-matched for a limited time after it
+ * is drawn, because a recent transfusion or pregnancy can raise new
+ * antibodies. Units reserved for a patient go back to general stock when
+ * they are not issued within the hold window, so stock is not tied up by
+ * a transfusion that did not happen.
+ */
+
+export const pretransfusionPolicy = {
+  /** Hours after collection a patient sample can be cross-matched */
+  sampleValidityHours: Number(process.env.SAMPLE_VALIDITY_HOURS) || 72,
+  /** Hours a unit stays reserved for a patient before it is released */
+  reservationHoldHours: Number(process.env.RESERVATION_HOLD_HOURS) || 24,
+};
@@ -41,6 +41,13 @@ export interface ResourcePermissions {
   teams: Permission[];
   files: Permission[];
   orders: Permission[];
+  bloodRequests: Permission[];
+  donors: Permission[];
+  bloodUnits: Permission[];
+  organizations: Permission[];
+  camps: Permission[];
+  donations: Permission[];
+  reports: Permission[];
 }
 
 /**
@@ -57,6 +64,13 @@ export const resourcePermissions: Record<Role, ResourcePermissions> = {
     teams: ["create", "read", "update", "delete"],
     files: ["create", "read", "update", "delete"],
     orders: ["create", "read", "update", "delete"],
+    bloodRequests: ["create", "read", "update", "delete"],
+    donors: ["create", "read", "update", "delete"],
+    bloodUnits: ["create", "read", "update", "delete"],
+    organizations: ["create", "read", "update", "delete"],
+    camps: ["create", "read", "update", "delete"],
+    donations: ["create", "read", "update", "delete"],
+    reports: ["read"],
   },
   editor: {
     users: ["read"],
@@ -65,6 +79,13 @@ export const resourcePermissions: Record<Role, ResourcePermissions> = {
     teams: ["read"],
     files: ["create", "read", "update"],
     orders: ["read", "update"],
+    bloodRequests: ["create", "read", "update"],
+    donors: ["read", "update"],
+    bloodUnits: ["create", "read", "update"],
+    organizations: ["read"],
+    camps: ["create", "read", "update"],
+    donations: ["create", "read", "update"],
+    reports: ["read"],
   },
   viewer: {
     users: ["read"],
@@ -73,6 +94,13 @@ export const resourcePermissions: Record<Role, ResourcePermissions> = {
     teams: ["read"],
     files: ["read"],
     orders: ["read"],
+    bloodRequests: ["read"],
+    donors: ["read"],
+    bloodUnits: ["read"],
+    organizations: ["read"],
+    camps: ["read"],
+    donations: ["read"],
+    reports: ["read"],
   },
   user: {
     users: ["read"], // Can only read own profile
@@ -81,6 +109,60 @@ export const resourcePermissions: Record<Role, ResourcePermissions> = {
     teams: ["read"],
     files: ["read"],
     orders: ["create", "read"], // Can create and view own orders
+    bloodRequests: ["create", "read"], // Can raise and track requests
+    donors: [], // Donors cannot search other donors
+    bloodUnits: [], // Inventory is managed by blood bank staff
+    organizations: ["create", "read"], // Can register a hospital or blood bank
+    camps: ["read"], // Can browse camps and book slots
+    donations: [], // Donors see their own history on their profile
+    reports: [], // Reports cover organizations' operations, not donors
+  },
+};
+
+/**
+ * Organization-scoped roles
+ *
+ * A user's membership role inside a hospital, blood bank or NGO. These grant
+ * permissions only on that organization's data, on top of whatever the
+ * user's global role allows.
+ */
+export type OrganizationRole = "ADMIN" | "STAFF" | "VIEWER";
+
+export type OrganizationResource =
+  | "bloodRequests"
+  | "bloodUnits"
+  | "organizations"
+  | "camps"
+  | "donations"
+  | "reports";
+
+export const organizationRolePermissions: Record<
+  OrganizationRole,
+  Record<OrganizationResource, Permission[]>
+> = {
+  ADMIN: {
+    bloodRequests: ["create", "read", "update", "delete"],
+    bloodUnits: ["create", "read", "update", "delete"],
+    organizations: ["read", "update"],
+    camps: ["create", "read", "update", "delete"],
+    donations: ["create", "read", "update", "delete"],
+    reports: ["read"],
+  },
+  STAFF: {
+    bloodRequests: ["create", "read", "update"],
+    bloodUnits: ["create", "read", "update"],
+    organizations: ["read"],
+    camps: ["create", "read", "update"],
+    donations: ["create", "read", "update"],
+    reports: ["read"],
+  },
+  VIEWER: {
+    bloodRequests: ["read"],
+    bloodUnits: ["read"],
+    organizations: ["read"],
+    camps: ["read"],
+    donations: ["read"],
+    reports: ["read"],
   },
 };
 
@@ -111,6 +193,24 @@ export function hasResourcePermission(
   return resourcePermissions[role]?.[resource]?.includes(permission) ?? false;
 }
 
+/**
+ * Check if an organization role has permission for a resource
+ *
+ * @param role - The membership role within the organization
+ * @param resource - The organization-scoped resource type
+ * @param permission - The permission to check
+ * @returns boolean indicating if the membership grants the permission
+ */
+export function hasOrganizationPermission(
+  role: OrganizationRole,
+  resource: OrganizationResource,
+  permission: Permission
+): boolean {
+  return (
+    organizationRolePermissions[role]?.[resource]?.includes(permission) ?? false
+  );
+}
+
 /**
  * Get all permissions for a role
  *
@@ -0,0 +1,110 @@
+/**
+ * Red Cell Antigen Helpers
+ *
+ * Extended phenotypes go beyond ABO/RhD to the antigens that matter for
+ * patients with alloantibodies: the other Rh antigens, Kell, Duffy, Kidd,
+ * MNS, Lewis, Lutheran and a few others. Prisma stores them as enum
+ * identifiers (RH_BIG_C, KELL_KPA, ...) because enum names cannot differ
+ * only by case, as "C" and "c" do. These helpers convert between the
+ * stored identifiers and the ISBT symbols shown to users.
+ *
+ * This module has no server-only imports so it can be used by client pages.
+ */
+
+export const BLOOD_ANTIGENS = [
+  "RH_BIG_C",
+  "RH_SMALL_C",
+  "RH_BIG_E",
+  "RH_SMALL_E",
+  "KELL_BIG_K",
+  "KELL_SMALL_K",
+  "KELL_KPA",
+  "KELL_KPB",
+  "KELL_JSA",
+  "KELL_JSB",
+  "DUFFY_FYA",
+  "DUFFY_FYB",
+  "KIDD_JKA",
+  "KIDD_JKB",
+  "MNS_M",
+  "MNS_N",
+  "MNS_BIG_S",
+  "MNS_SMALL_S",
+  "MNS_U",
+  "LEWIS_LEA",
+  "LEWIS_LEB",
+  "LUTHERAN_LUA",
+  "LUTHERAN_LUB",
+  "P1",
+  "H",
+  "DIEGO_DIA",
+  "DIEGO_DIB",
+  "VEL",
+] as const;
+
+export type BloodAntigenCode = (typeof BLOOD_ANTIGENS)[number];
+
+export const BLOOD_ANTIGEN_LABELS: Record<BloodAntigenCode, string> = {
+  RH_BIG_C: "C",
+  RH_SMALL_C: "c",
+  RH_BIG_E: "E",
+  RH_SMALL_E: "e",
+  KELL_BIG_K: "K",
+  KELL_SMALL_K: "k",
+  KELL_KPA: "Kpa",
+  KELL_KPB: "Kpb",
+  KELL_JSA: "Jsa",
+  KELL_JSB: "Jsb",
+  DUFFY_FYA: "Fya",
+  DUFFY_FYB: "Fyb",
+  KIDD_JKA: "Jka",
+  KIDD_JKB: "Jkb",
+  MNS_M: "M",
+  MNS_N: "N",
+  MNS_BIG_S: "S",
+  MNS_SMALL_S: "s",
+  MNS_U: "U",
+  LEWIS_LEA: "Lea",
+  LEWIS_LEB: "Leb",
+  LUTHERAN_LUA: "Lua",
+  LUTHERAN_LUB: "Lub",
+  P1: "P1",
+  H: "H",
+  DIEGO_DIA: "Dia",
+  DIEGO_DIB: "Dib",
+  VEL: "Vel",
+};
+
+/**
+ * Check whether a value is a stored antigen identifier
+ */
+export function isBloodAntigen(value: unknown): value is BloodAntigenCode {
+  return (
+    typeof value === "string" &&
+    (BLOOD_ANTIGENS as readonly string[]).includes(value)
+  );
+}
+
+/**
+ * Parse either a stored identifier ("KELL_BIG_K") or an ISBT symbol ("K").
+ * Symbols are case-sensitive: "k" is Cellano, not Kell.
+ *
+ * @returns The stored identifier, or null if the value is not an antigen
+ */
+export function parseBloodAntigen(value: string): BloodAntigenCode | null {
+  const trimmed = value.trim();
+  if (isBloodAntigen(trimmed)) return trimmed;
+
+  const match = (
+    Object.entries(BLOOD_ANTIGEN_LABELS) as [BloodAntigenCode, string][]
+  ).find(([, label]) => label === trimmed);
+
+  return match ? match[0] : null;
+}
+
+/**
+ * Format a stored identifier for display ("DUFFY_FYA" → "Fya")
+ */
+export function formatBloodAntigen(antigen: BloodAntigenCode | string): string {
+  return isBloodAntigen(antigen) ? BLOOD_ANTIGEN_LABELS[antigen] : antigen;
+}
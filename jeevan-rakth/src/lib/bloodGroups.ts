@@ -0,0 +1,66 @@
+/**
+ * Blood Group Helpers
+ *
+ * Prisma stores ABO/Rh groups as enum identifiers (A_POS, O_NEG, ...)
+ * because `+` and `-` are not valid in enum names. These helpers convert
+ * between the stored identifiers and the labels shown to users.
+ *
+ * This module has no server-only imports so it can be used by client pages.
+ */
+
+export const BLOOD_GROUPS = [
+  "A_POS",
+  "A_NEG",
+  "B_POS",
+  "B_NEG",
+  "AB_POS",
+  "AB_NEG",
+  "O_POS",
+  "O_NEG",
+] as const;
+
+export type BloodGroupCode = (typeof BLOOD_GROUPS)[number];
+
+export const BLOOD_GROUP_LABELS: Record<BloodGroupCode, string> = {
+  A_POS: "A+",
+  A_NEG: "A-",
+  B_POS: "B+",
+  B_NEG: "B-",
+  AB_POS: "AB+",
+  AB_NEG: "AB-",
+  O_POS: "O+",
+  O_NEG: "O-",
+};
+
+/**
+ * Check whether a value is a stored blood group identifier
+ */
+export function isBloodGroup(value: unknown): value is BloodGroupCode {
+  return (
+    typeof value === "string" &&
+    (BLOOD_GROUPS as readonly string[]).includes(value)
+  );
+}
+
+/**
+ * Parse either a stored identifier ("O_NEG") or a display label ("O-")
+ *
+ * @returns The stored identifier, or null if the value is not a blood group
+ */
+export function parseBloodGroup(value: string): BloodGroupCode | null {
+  const normalized = value.trim().toUpperCase();
+  if (isBloodGroup(normalized)) return normalized;
+
+  const match = (
+    Object.entries(BLOOD_GROUP_LABELS) as [BloodGroupCode, string][]
+  ).find(([, label]) => label === normalized);
+
+  return match ? match[0] : null;
+}
+
+/**
+ * Format a stored identifier for display ("AB_POS" → "AB+")
+ */
+export function formatBloodGroup(group: BloodGroupCode | string): string {
+  return isBloodGroup(group) ? BLOOD_GROUP_LABELS[group] : group;
+}
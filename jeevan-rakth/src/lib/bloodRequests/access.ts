@@ -0,0 +1,20 @@
+import type { Prisma } from "@prisma/client";
+import {
+  organizationScope,
+  type TenantContext,
+} from "@/lib/organizations/tenancy";
+
+/**
+ * Restrict blood request queries to what the caller may see.
+ *
+ * Staff see the requests of the organizations they belong to (platform
+ * admins see all); everyone also sees the requests they raised themselves.
+ */
+export function bloodRequestScope(
+  tenant: TenantContext
+): Prisma.BloodRequestWhereInput {
+  if (tenant.organizationIds === null) return {};
+  return {
+    OR: [organizationScope(tenant), { createdById: tenant.userId }],
+  };
+}
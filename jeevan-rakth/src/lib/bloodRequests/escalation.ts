@@ -0,0 +1,282 @@
+/**
+ * Request Escalation
+ *
+ * A scheduled worker walks open requests whose pledges do not yet cover the
+ * units outstanding and, once the urgency's window has passed, runs the
+ * next step of its escalation policy (see config/escalation.ts).
+ *
+ * Two app instances may run the worker at the same time. Each request is
+ * escalated under a Redis lock, and the step is claimed with a conditional
+ * update on escalationLevel, so a step never runs twice even if a lock
+ * expires mid-step. Every step is recorded on the request's timeline.
+ */
+
+import type {
+  BloodRequest,
+  NotificationChannel,
+  Prisma,
+  UrgencyLevel,
+} from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { withRedisLock } from "@/lib/locks";
+import { formatBloodGroup } from "@/lib/bloodGroups";
+import { alertPolicy } from "@/config/notifications";
+import { escalationPolicy, type EscalationStep } from "@/config/escalation";
+import { CLOSED_STATUSES } from "@/lib/bloodRequests/lifecycle";
+import { isRequestCovered } from "@/lib/bloodRequests/responses";
+import { recordRequestEvent } from "@/lib/bloodRequests/events";
+import { fanOutRequestAlerts } from "@/lib/notifications/donorAlerts";
+import { ALL_CHANNELS, notify } from "@/lib/notifications";
+import { memberRecipients } from "@/lib/notifications/recipients";
+
+const LOCK_TTL_MS = 60_000;
+
+// Channels used to ask partner banks; pages go out on every channel
+const PARTNER_CHANNELS: NotificationChannel[] = ["IN_APP", "EMAIL"];
+
+type EscalationState = Pick<
+  BloodRequest,
+  | "status"
+  | "awaitingTriage"
+  | "urgency"
+  | "unitsNeeded"
+  | "unitsFulfilled"
+  | "unitsPledged"
+  | "escalationLevel"
+  | "lastEscalatedAt"
+  | "triagedAt"
+  | "createdAt"
+  | "requiredBy"
+>;
+
+export type EscalationSummary = {
+  checked: number;
+  escalated: number;
+  skipped: number;
+  failed: number;
+};
+
+/**
+ * The step a request is due for, or null when it is closed, awaiting
+ * triage, covered by pledges, past its required-by time, out of steps or
+ * still inside the current window.
+ */
+export function dueEscalationStep(
+  request: EscalationState,
+  now: Date = new Date()
+): EscalationStep | null {
+  const policy = escalationPolicy[request.urgency];
+  const step = policy.steps[request.escalationLevel];
+  if (!step) return null;
+  if (CLOSED_STATUSES.includes(request.status)) return null;
+  if (request.awaitingTriage) return null;
+  if (isRequestCovered(request) || request.requiredBy <= now) return null;
+
+  // A triaged request's first window runs from triage, not from creation
+  const since =
+    request.lastEscalatedAt ?? request.triagedAt ?? request.createdAt;
+  const dueAt = since.getTime() + policy.windowMinutes * 60_000;
+  return dueAt <= now.getTime() ? step : null;
+}
+
+/**
+ * Donor search settings once the steps up to and including `level` have
+ * run: the widest radius so far, and compatible groups once included.
+ */
+export function donorWaveOptions(urgency: UrgencyLevel, level: number) {
+  const taken = escalationPolicy[urgency].steps.slice(0, level + 1);
+  return {
+    radiusKm: Math.max(
+      alertPolicy.radiusKm,
+      ...taken.map((s) => s.radiusKm ?? 0)
+    ),
+    exactMatchOnly: !taken.some((s) => s.action === "INCLUDE_COMPATIBLE"),
+  };
+}
+
+type StepRequest = BloodRequest & {
+  organization: { id: number; name: string; state: string };
+};
+
+async function runStep(
+  request: StepRequest,
+  step: EscalationStep,
+  level: number
+): Promise<{ message: string; data: Prisma.InputJsonObject }> {
+  const outstanding = request.unitsNeeded - request.unitsFulfilled;
+  const need = `${outstanding} unit(s) of ${formatBloodGroup(request.bloodGroup)}`;
+  const link = `/blood-requests/${request.id}`;
+
+  switch (step.action) {
+    case "WIDEN_RADIUS":
+    case "INCLUDE_COMPATIBLE": {
+      const options = donorWaveOptions(request.urgency, level);
+      const summary = await fanOutRequestAlerts(request.id, options);
+      return {
+        message:
+          step.action === "WIDEN_RADIUS"
+            ? `Widened donor search to ${options.radiusKm} km`
+            : "Included compatible blood groups",
+        data: { ...options, alerted: summary.alerted },
+      };
+    }
+    case "NOTIFY_PARTNER_BANKS": {
+      const recipients = await memberRecipients({
+        role: { in: ["ADMIN", "STAFF"] },
+        organization: {
+          type: "BLOOD_BANK",
+          verified: true,
+          id: { not: request.organizationId },
+          state: { equals: request.organization.state, mode: "insensitive" },
+        },
+      });
+      await Promise.all(
+        recipients.map((recipient) =>
+          notify(
+            recipient,
+            {
+              title: `Stock request: ${need}`,
+              body: `${request.organization.name} (${request.hospitalName}) still needs ${need}. Can your bank supply?`,
+              link,
+            },
+            { channels: PARTNER_CHANNELS }
+          )
+        )
+      );
+      return {
+        message: `Asked ${recipients.length} partner blood bank staff in ${request.organization.state}`,
+        data: { notified: recipients.length },
+      };
+    }
+    case "PAGE_ORG_ADMINS": {
+      const recipients = await memberRecipients({
+        role: "ADMIN",
+        organizationId: request.organizationId,
+      });
+      await Promise.all(
+        recipients.map((recipient) =>
+          notify(
+            recipient,
+            {
+              title: `Escalation: request #${request.id} is unmatched`,
+              body: `${need} still needed at ${request.hospitalName} with only ${request.unitsPledged} pledged.`,
+              link,
+            },
+            { channels: ALL_CHANNELS }
+          )
+        )
+      );
+      return {
+        message: `Paged ${recipients.length} organization admin(s)`,
+        data: { notified: recipients.length },
+      };
+    }
+  }
+}
+
+/**
+ * Run the next escalation step for one request if it is still due.
+ *
+ * Returns false when another instance holds the request or already took
+ * the step.
+ */
+export async function escalateRequest(
+  requestId: number,
+  now: Date = new Date()
+): Promise<boolean> {
+  const outcome = await withRedisLock(
+    `locks:escalation:${requestId}`,
+    LOCK_TTL_MS,
+    async () => {
+      const request = await prisma.bloodRequest.findUnique({
+        where: { id: requestId },
+        include: {
+          organization: { select: { id: true, name: true, state: true } },
+        },
+      });
+      if (!request) return false;
+
+      const step = dueEscalationStep(request, now);
+      if (!step) return false;
+
+      const level = request.escalationLevel;
+      const { count } = await prisma.bloodRequest.updateMany({
+        where: { id: requestId, escalationLevel: level },
+        data: { escalationLevel: level + 1, lastEscalatedAt: now },
+      });
+      if (count === 0) return false;
+
+      try {
+        const result = await runStep(request, step, level);
+        await recordRequestEvent({
+          requestId,
+          type: "ESCALATED",
+          message: result.message,
+          data: { level: level + 1, action: step.action, ...result.data },
+        });
+      } catch (error) {
+        // The step stays claimed so it is not retried blindly; record the
+        // failure so coordinators can act on it
+        await recordRequestEvent({
+          requestId,
+          type: "ESCALATED",
+          message: `Escalation step ${step.action} failed`,
+          data: {
+            level: level + 1,
+            action: step.action,
+            error: error instanceof Error ? error.message : String(error),
+          },
+        });
+        throw error;
+      }
+      return true;
+    }
+  );
+
+  return outcome.acquired && outcome.result;
+}
+
+/**
+ * Escalate every open request that is due. Requests are handled one at a
+ * time so a slow provider cannot overlap with the next scheduled run.
+ */
+export async function runEscalationSweep(
+  now: Date = new Date()
+): Promise<EscalationSummary> {
+  const urgencies = (Object.keys(escalationPolicy) as UrgencyLevel[]).filter(
+    (urgency) => escalationPolicy[urgency].steps.length > 0
+  );
+
+  const candidates = await prisma.bloodRequest.findMany({
+    where: {
+      urgency: { in: urgencies },
+      status: { notIn: CLOSED_STATUSES },
+      awaitingTriage: false,
+      requiredBy: { gt: now },
+    },
+    orderBy: { requiredBy: "asc" },
+  });
+
+  const summary: EscalationSummary = {
+    checked: candidates.length,
+    escalated: 0,
+    skipped: 0,
+    failed: 0,
+  };
+
+  for (const candidate of candidates) {
+    if (!dueEscalationStep(candidate, now)) continue;
+    try {
+      if (await escalateRequest(candidate.id, now)) {
+        summary.escalated += 1;
+      } else {
+        summary.skipped += 1;
+      }
+    } catch (error) {
+      console.error("Escalation failed", candidate.id, error);
+      summary.failed += 1;
+    }
+  }
+
+  return summary;
+}
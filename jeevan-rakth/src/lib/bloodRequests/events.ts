@@ -0,0 +1,30 @@
+import type { BloodRequestEventType, Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+
+export type RequestEventInput = {
+  requestId: number;
+  type: BloodRequestEventType;
+  message: string;
+  data?: Prisma.InputJsonValue;
+  /** User who caused the event; omitted for system events */
+  actorId?: number;
+};
+
+/**
+ * Append an entry to a request's timeline. Pass the transaction client
+ * when the event must commit together with the change it describes.
+ */
+export async function recordRequestEvent(
+  input: RequestEventInput,
+  client: Prisma.TransactionClient = prisma
+): Promise<void> {
+  await client.bloodRequestEvent.create({
+    data: {
+      bloodRequestId: input.requestId,
+      type: input.type,
+      message: input.message,
+      data: input.data,
+      actorId: input.actorId,
+    },
+  });
+}
@@ -0,0 +1,130 @@
+/**
+ * Blood Request Lifecycle
+ *
+ * A blood request moves through a strict state machine:
+ *
+ *   OPEN → MATCHING → PARTIALLY_FULFILLED → FULFILLED
+ *     │        │              │
+ *     └────────┴──────────────┴──→ CANCELLED / EXPIRED
+ *
+ * FULFILLED, CANCELLED and EXPIRED are terminal. Callers never set a status
+ * directly; they apply an action and this module derives the next status.
+ */
+
+import type { BloodRequestStatus } from "@prisma/client";
+
+export const BLOOD_REQUEST_TRANSITIONS: Record<
+  BloodRequestStatus,
+  BloodRequestStatus[]
+> = {
+  OPEN: ["MATCHING", "CANCELLED", "EXPIRED"],
+  MATCHING: ["PARTIALLY_FULFILLED", "FULFILLED", "CANCELLED", "EXPIRED"],
+  PARTIALLY_FULFILLED: [
+    "PARTIALLY_FULFILLED",
+    "FULFILLED",
+    "CANCELLED",
+    "EXPIRED",
+  ],
+  FULFILLED: [],
+  CANCELLED: [],
+  EXPIRED: [],
+};
+
+export const BLOOD_REQUEST_ACTIONS = [
+  "match",
+  "fulfil",
+  "cancel",
+  "expire",
+] as const;
+
+export type BloodRequestAction =
+  | { action: "match" }
+  | { action: "fulfil"; units: number }
+  | { action: "cancel"; reason: string }
+  | { action: "expire"; reason?: string };
+
+type LifecycleState = {
+  status: BloodRequestStatus;
+  unitsNeeded: number;
+  unitsFulfilled: number;
+};
+
+export type TransitionResult = {
+  status: BloodRequestStatus;
+  unitsFulfilled: number;
+  closedAt: Date | null;
+  closureReason: string | null;
+};
+
+/**
+ * Check whether the state machine allows moving between two statuses
+ */
+export function canTransition(
+  from: BloodRequestStatus,
+  to: BloodRequestStatus
+): boolean {
+  return BLOOD_REQUEST_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Check whether a status is terminal (no further transitions allowed)
+ */
+export function isClosedStatus(status: BloodRequestStatus): boolean {
+  return BLOOD_REQUEST_TRANSITIONS[status].length === 0;
+}
+
+export const CLOSED_STATUSES = (
+  Object.keys(BLOOD_REQUEST_TRANSITIONS) as BloodRequestStatus[]
+).filter(isClosedStatus);
+
+/**
+ * Compute the next state of a request for an action
+ *
+ * @throws Error("INVALID_STATUS_TRANSITION") if the action is not allowed
+ * from the current status
+ * @throws Error("UNITS_EXCEED_NEEDED") if fulfilment would exceed unitsNeeded
+ */
+export function applyTransition(
+  current: LifecycleState,
+  input: BloodRequestAction,
+  now: Date = new Date()
+): TransitionResult {
+  let next: BloodRequestStatus;
+  let unitsFulfilled = current.unitsFulfilled;
+  let closureReason: string | null = null;
+
+  switch (input.action) {
+    case "match":
+      next = "MATCHING";
+      break;
+    case "fulfil":
+      unitsFulfilled += input.units;
+      if (unitsFulfilled > current.unitsNeeded) {
+        throw new Error("UNITS_EXCEED_NEEDED");
+      }
+      next =
+        unitsFulfilled === current.unitsNeeded
+          ? "FULFILLED"
+          : "PARTIALLY_FULFILLED";
+      break;
+    case "cancel":
+      next = "CANCELLED";
+      closureReason = input.reason;
+      break;
+    case "expire":
+      next = "EXPIRED";
+      closureReason = input.reason ?? "Required-by time passed";
+      break;
+  }
+
+  if (!canTransition(current.status, next)) {
+    throw new Error("INVALID_STATUS_TRANSITION");
+  }
+
+  return {
+    status: next,
+    unitsFulfilled,
+    closedAt: isClosedStatus(next) ? now : null,
+    closureReason,
+  };
+}
@@ -0,0 +1,57 @@
+import jwt from "jsonwebtoken";
+
+const RESPONSE_LINK_SECRET =
+  process.env.RESPONSE_LINK_SECRET ||
+  process.env.JWT_SECRET ||
+  "supersecretkey";
+const RESPONSE_LINK_AUDIENCE = "donor-response";
+
+export type ResponseLinkPayload = {
+  requestId: number;
+  donorProfileId: number;
+};
+
+/**
+ * Sign a link token that lets a donor answer one request without logging
+ * in. The token names both the request and the donor so it cannot be
+ * reused for anyone else, and expires once the request is no longer
+ * needed.
+ */
+export function createResponseToken(
+  payload: ResponseLinkPayload,
+  expiresAt: Date
+): string {
+  const expiresIn = Math.max(
+    60,
+    Math.floor((expiresAt.getTime() - Date.now()) / 1000)
+  );
+  return jwt.sign(payload, RESPONSE_LINK_SECRET, {
+    expiresIn,
+    audience: RESPONSE_LINK_AUDIENCE,
+    algorithm: "HS256",
+  });
+}
+
+/**
+ * Verify a response link token
+ *
+ * @throws Error("INVALID_RESPONSE_LINK") if the token is invalid or expired
+ */
+export function verifyResponseToken(token: string): ResponseLinkPayload {
+  try {
+    const decoded = jwt.verify(token, RESPONSE_LINK_SECRET, {
+      audience: RESPONSE_LINK_AUDIENCE,
+      algorithms: ["HS256"],
+    }) as ResponseLinkPayload;
+    return {
+      requestId: Number(decoded.requestId),
+      donorProfileId: Number(decoded.donorProfileId),
+    };
+  } catch {
+    throw new Error("INVALID_RESPONSE_LINK");
+  }
+}
+
+export function responseLinkPath(token: string): string {
+  return `/respond/${token}`;
+}
@@ -0,0 +1,119 @@
+/**
+ * Donor Responses
+ *
+ * Donors answer an alert with "I can donate" (ACCEPTED) or "Not now"
+ * (DECLINED). Each accepted response pledges one unit: the request's
+ * unitsPledged counter is recounted in the same transaction as the
+ * response, with the request row locked so concurrent answers (a double
+ * tap, a retried link) are applied one after the other and the two never
+ * drift. Donors may change their mind until they have been checked in at
+ * the hospital.
+ */
+
+import type { DonorResponse, Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { isClosedStatus } from "@/lib/bloodRequests/lifecycle";
+import {
+  eligibilityProfileSelect,
+  evaluateDonors,
+} from "@/lib/eligibility/donors";
+
+export type DonorResponseInput = {
+  requestId: number;
+  donorProfileId: number;
+  accept: boolean;
+  etaMinutes?: number;
+  note?: string;
+};
+
+/**
+ * Record or change a donor's answer to a request.
+ *
+ * @throws Error("BLOOD_REQUEST_NOT_FOUND") if the request does not exist
+ * @throws Error("REQUEST_CLOSED") if the request is fulfilled, cancelled or
+ * expired
+ * @throws Error("DONOR_NOT_ELIGIBLE") if an accepting donor cannot donate
+ * the requested component today
+ * @throws Error("ALREADY_CHECKED_IN") if the donor has already arrived
+ */
+export async function recordDonorResponse(
+  input: DonorResponseInput
+): Promise<DonorResponse> {
+  const { requestId, donorProfileId, accept, etaMinutes, note } = input;
+
+  return prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    await tx.$queryRaw`SELECT 1 FROM "BloodRequest" WHERE "id" = ${requestId} FOR UPDATE`;
+
+    const request = await tx.bloodRequest.findUnique({
+      where: { id: requestId },
+      select: { id: true, status: true, component: true },
+    });
+    if (!request) throw new Error("BLOOD_REQUEST_NOT_FOUND");
+    if (isClosedStatus(request.status)) throw new Error("REQUEST_CLOSED");
+
+    if (accept) {
+      const profile = await tx.donorProfile.findUniqueOrThrow({
+        where: { id: donorProfileId },
+        select: eligibilityProfileSelect,
+      });
+      const verdicts = await evaluateDonors([profile], request.component);
+      if (!verdicts.get(profile.id)?.eligible) {
+        throw new Error("DONOR_NOT_ELIGIBLE");
+      }
+    }
+
+    const previous = await tx.donorResponse.findUnique({
+      where: {
+        bloodRequestId_donorProfileId: {
+          bloodRequestId: requestId,
+          donorProfileId,
+        },
+      },
+    });
+    if (previous?.checkedInAt) throw new Error("ALREADY_CHECKED_IN");
+
+    const status = accept ? "ACCEPTED" : "DECLINED";
+    const data = {
+      status,
+      etaMinutes: accept ? (etaMinutes ?? null) : null,
+      note: note ?? null,
+      respondedAt: new Date(),
+    } as const;
+
+    const response = await tx.donorResponse.upsert({
+      where: {
+        bloodRequestId_donorProfileId: {
+          bloodRequestId: requestId,
+          donorProfileId,
+        },
+      },
+      create: { ...data, bloodRequestId: requestId, donorProfileId },
+      update: data,
+    });
+
+    const wasAccepted = previous?.status === "ACCEPTED";
+    if (accept !== wasAccepted) {
+      const unitsPledged = await tx.donorResponse.count({
+        where: { bloodRequestId: requestId, status: "ACCEPTED" },
+      });
+      await tx.bloodRequest.update({
+        where: { id: requestId },
+        data: { unitsPledged },
+      });
+    }
+
+    return response;
+  });
+}
+
+/**
+ * Whether pledges already cover the units still outstanding on a request,
+ * in which case no further donors should be alerted.
+ */
+export function isRequestCovered(request: {
+  unitsNeeded: number;
+  unitsFulfilled: number;
+  unitsPledged: number;
+}): boolean {
+  return request.unitsPledged >= request.unitsNeeded - request.unitsFulfilled;
+}
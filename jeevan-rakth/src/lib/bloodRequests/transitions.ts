@@ -0,0 +1,70 @@
+import type { BloodRequest, Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import {
+  applyTransition,
+  type BloodRequestAction,
+} from "@/lib/bloodRequests/lifecycle";
+import { recordRequestEvent } from "@/lib/bloodRequests/events";
+
+/**
+ * Apply a lifecycle action to a stored blood request.
+ *
+ * The update is conditional on the status and fulfilled count read at the
+ * start, so two concurrent transitions cannot both succeed from the same
+ * state. The status change is added to the request's timeline in the same
+ * transaction.
+ *
+ * @throws Error("BLOOD_REQUEST_NOT_FOUND") if the request is not visible
+ * @throws Error("INVALID_STATUS_TRANSITION") / Error("UNITS_EXCEED_NEEDED")
+ * from the state machine
+ * @throws Error("CONCURRENT_MODIFICATION") if the request changed meanwhile
+ */
+export async function transitionBloodRequest(
+  id: number,
+  input: BloodRequestAction,
+  scope: Prisma.BloodRequestWhereInput = {},
+  actorId?: number
+): Promise<BloodRequest> {
+  return prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    const current = await tx.bloodRequest.findFirst({
+      where: { id, ...scope },
+    });
+
+    if (!current) throw new Error("BLOOD_REQUEST_NOT_FOUND");
+
+    const next = applyTransition(current, input);
+
+    const { count } = await tx.bloodRequest.updateMany({
+      where: {
+        id,
+        status: current.status,
+        unitsFulfilled: current.unitsFulfilled,
+      },
+      data: next,
+    });
+
+    if (count === 0) throw new Error("CONCURRENT_MODIFICATION");
+
+    await recordRequestEvent(
+      {
+        requestId: id,
+        type: "STATUS_CHANGED",
+        message:
+          next.status === current.status
+            ? `${input.action}: ${next.unitsFulfilled}/${current.unitsNeeded} units fulfilled`
+            : `${current.status} → ${next.status}`,
+        data: {
+          action: input.action,
+          from: current.status,
+          to: next.status,
+          unitsFulfilled: next.unitsFulfilled,
+          ...(next.closureReason ? { reason: next.closureReason } : {}),
+        },
+        actorId,
+      },
+      tx
+    );
+
+    return tx.bloodRequest.findUniqueOrThrow({ where: { id } });
+  });
+}
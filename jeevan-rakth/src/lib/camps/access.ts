@@ -0,0 +1,21 @@
+import type { Prisma } from "@prisma/client";
+import {
+  organizationScope,
+  type TenantContext,
+} from "@/lib/organizations/tenancy";
+
+/**
+ * Restrict camp queries to what the caller may see.
+ *
+ * Camps run by verified organizations are public so donors can find and
+ * book them; organizers also see their own organizations' camps, including
+ * drafts from organizations still awaiting verification.
+ */
+export function campVisibilityScope(
+  tenant: TenantContext
+): Prisma.DonationCampWhereInput {
+  if (tenant.organizationIds === null) return {};
+  return {
+    OR: [{ organization: { verified: true } }, organizationScope(tenant)],
+  };
+}
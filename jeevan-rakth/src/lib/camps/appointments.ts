@@ -0,0 +1,390 @@
+/**
+ * Camp Appointments
+ *
+ * Donors book one seat in a camp slot, may move to another slot of the same
+ * camp, and may cancel. Seats are counted on CampSlot.booked and only ever
+ * taken with a conditional increment (booked < capacity), so concurrent
+ * bookings cannot overbook a slot. A row lock on the donor's profile
+ * serialises one donor's own bookings, keeping at most one active
+ * appointment per donor and camp.
+ *
+ * When a full slot's donor chose to wait, they join its waitlist. Whenever a
+ * seat frees up, the longest-waiting donor who is still eligible is promoted
+ * to BOOKED and told about it.
+ */
+
+import type {
+  AppointmentStatus,
+  BloodComponent,
+  CampAppointment,
+  NotificationChannel,
+  Prisma,
+} from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import {
+  eligibilityProfileSelect,
+  evaluateDonors,
+} from "@/lib/eligibility/donors";
+import { notify } from "@/lib/notifications";
+
+// Camps collect whole blood; eligibility is checked for that component
+export const CAMP_COMPONENT: BloodComponent = "WHOLE_BLOOD";
+
+export const ACTIVE_APPOINTMENT_STATUSES: AppointmentStatus[] = [
+  "BOOKED",
+  "WAITLISTED",
+];
+
+const PROMOTION_CHANNELS: NotificationChannel[] = ["IN_APP", "EMAIL"];
+
+// Waitlisted donors considered per freed seat
+const PROMOTION_BATCH = 20;
+
+type Tx = Prisma.TransactionClient;
+
+async function lockDonor(tx: Tx, donorProfileId: number): Promise<void> {
+  await tx.$queryRaw`SELECT 1 FROM "DonorProfile" WHERE "id" = ${donorProfileId} FOR UPDATE`;
+}
+
+async function isEligibleAt(
+  donorProfileId: number,
+  at: Date
+): Promise<boolean> {
+  const profile = await prisma.donorProfile.findUnique({
+    where: { id: donorProfileId },
+    select: eligibilityProfileSelect,
+  });
+  if (!profile) return false;
+  const verdicts = await evaluateDonors([profile], CAMP_COMPONENT, at);
+  return verdicts.get(profile.id)?.eligible ?? false;
+}
+
+/** Take one seat if the slot still has room */
+async function claimSeat(tx: Tx, slotId: number): Promise<boolean> {
+  const { count } = await tx.campSlot.updateMany({
+    where: { id: slotId, booked: { lt: prisma.campSlot.fields.capacity } },
+    data: { booked: { increment: 1 } },
+  });
+  return count === 1;
+}
+
+async function releaseSeat(tx: Tx, slotId: number): Promise<void> {
+  await tx.campSlot.update({
+    where: { id: slotId },
+    data: { booked: { decrement: 1 } },
+  });
+}
+
+/**
+ * Hand a freed seat to the longest-waiting eligible donor of the slot.
+ * Returns the promoted appointment id, if any.
+ */
+async function promoteWaitlist(
+  tx: Tx,
+  slotId: number,
+  now: Date
+): Promise<number | null> {
+  const slot = await tx.campSlot.findUniqueOrThrow({
+    where: { id: slotId },
+    select: { startsAt: true },
+  });
+  if (slot.startsAt <= now) return null;
+
+  const waiting = await tx.campAppointment.findMany({
+    where: { slotId, status: "WAITLISTED" },
+    orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+    take: PROMOTION_BATCH,
+    select: { id: true, donorProfileId: true },
+  });
+
+  for (const candidate of waiting) {
+    if (!(await isEligibleAt(candidate.donorProfileId, slot.startsAt))) {
+      continue;
+    }
+    if (!(await claimSeat(tx, slotId))) return null;
+
+    // Conditional so a concurrent cancel or promotion of the same
+    // appointment wins cleanly; give the seat back and try the next donor
+    const { count } = await tx.campAppointment.updateMany({
+      where: { id: candidate.id, status: "WAITLISTED" },
+      data: { status: "BOOKED", bookedAt: now },
+    });
+    if (count === 1) return candidate.id;
+    await releaseSeat(tx, slotId);
+  }
+
+  return null;
+}
+
+async function notifyPromoted(appointmentIds: number[]): Promise<void> {
+  if (appointmentIds.length === 0) return;
+
+  const appointments = await prisma.campAppointment.findMany({
+    where: { id: { in: appointmentIds } },
+    include: {
+      camp: { select: { id: true, name: true, venueName: true } },
+      slot: { select: { startsAt: true } },
+      donorProfile: {
+        select: {
+          phone: true,
+          user: { select: { id: true, name: true, email: true } },
+        },
+      },
+    },
+  });
+
+  await Promise.all(
+    appointments.map(({ camp, slot, donorProfile }) =>
+      notify(
+        {
+          userId: donorProfile.user.id,
+          name: donorProfile.user.name,
+          email: donorProfile.user.email,
+          phone: donorProfile.phone,
+        },
+        {
+          title: `You're booked at ${camp.name}`,
+          body:
+            `A seat opened up at ${camp.venueName} on ` +
+            `${slot.startsAt.toLocaleString("en-IN")} and it is now yours.`,
+          link: `/camps/${camp.id}`,
+        },
+        { channels: PROMOTION_CHANNELS }
+      ).catch((error) => {
+        console.error("Waitlist promotion notice failed", error);
+      })
+    )
+  );
+}
+
+async function loadBookableSlot(tx: Tx, campId: number, slotId: number) {
+  const slot = await tx.campSlot.findFirst({
+    where: { id: slotId, campId },
+    include: { camp: { select: { status: true } } },
+  });
+  if (!slot) throw new Error("SLOT_NOT_FOUND");
+  if (slot.camp.status !== "SCHEDULED" || slot.startsAt <= new Date()) {
+    throw new Error("SLOT_UNAVAILABLE");
+  }
+  return slot;
+}
+
+export type BookSlotInput = {
+  campId: number;
+  slotId: number;
+  donorProfileId: number;
+  waitlist: boolean;
+};
+
+/**
+ * Book a seat, or join the waitlist when the slot is full and the donor
+ * asked to wait.
+ *
+ * @throws Error("SLOT_NOT_FOUND") / Error("SLOT_UNAVAILABLE") if the slot
+ * does not belong to the camp, has started or the camp is not scheduled
+ * @throws Error("ALREADY_BOOKED") if the donor already holds or awaits a
+ * seat at this camp
+ * @throws Error("DONOR_NOT_ELIGIBLE") if the donor cannot donate on the day
+ * @throws Error("SLOT_FULL") if the slot is full and waitlist is false
+ */
+export async function bookCampSlot(
+  input: BookSlotInput
+): Promise<CampAppointment> {
+  const { campId, slotId, donorProfileId, waitlist } = input;
+
+  return prisma.$transaction(async (tx: Tx) => {
+    await lockDonor(tx, donorProfileId);
+    const slot = await loadBookableSlot(tx, campId, slotId);
+
+    const existing = await tx.campAppointment.findFirst({
+      where: {
+        campId,
+        donorProfileId,
+        status: { in: ACTIVE_APPOINTMENT_STATUSES },
+      },
+      select: { id: true },
+    });
+    if (existing) throw new Error("ALREADY_BOOKED");
+
+    if (!(await isEligibleAt(donorProfileId, slot.startsAt))) {
+      throw new Error("DONOR_NOT_ELIGIBLE");
+    }
+
+    const now = new Date();
+    if (await claimSeat(tx, slotId)) {
+      return tx.campAppointment.create({
+        data: {
+          campId,
+          slotId,
+          donorProfileId,
+          status: "BOOKED",
+          bookedAt: now,
+        },
+      });
+    }
+    if (!waitlist) throw new Error("SLOT_FULL");
+
+    return tx.campAppointment.create({
+      data: { campId, slotId, donorProfileId, status: "WAITLISTED" },
+    });
+  });
+}
+
+/**
+ * Move a booked or waitlisted appointment to another slot of the same camp.
+ * The new slot must have a free seat; the old seat is released and offered
+ * to that slot's waitlist.
+ *
+ * @throws Error("APPOINTMENT_NOT_FOUND") if the donor has no such active
+ * appointment
+ * @throws Error("SLOT_NOT_FOUND") / Error("SLOT_UNAVAILABLE") /
+ * Error("DONOR_NOT_ELIGIBLE") / Error("SLOT_FULL") as for booking
+ * @throws Error("CONCURRENT_MODIFICATION") if the appointment was
+ * cancelled, checked in or moved meanwhile
+ */
+export async function rescheduleAppointment(input: {
+  appointmentId: number;
+  donorProfileId: number;
+  slotId: number;
+}): Promise<CampAppointment> {
+  const { appointmentId, donorProfileId, slotId } = input;
+
+  const { appointment, promoted } = await prisma.$transaction(
+    async (tx: Tx) => {
+      await lockDonor(tx, donorProfileId);
+
+      const current = await tx.campAppointment.findFirst({
+        where: {
+          id: appointmentId,
+          donorProfileId,
+          status: { in: ACTIVE_APPOINTMENT_STATUSES },
+        },
+      });
+      if (!current) throw new Error("APPOINTMENT_NOT_FOUND");
+      if (current.slotId === slotId && current.status === "BOOKED") {
+        return { appointment: current, promoted: null };
+      }
+
+      const slot = await loadBookableSlot(tx, current.campId, slotId);
+      if (!(await isEligibleAt(donorProfileId, slot.startsAt))) {
+        throw new Error("DONOR_NOT_ELIGIBLE");
+      }
+      if (!(await claimSeat(tx, slotId))) throw new Error("SLOT_FULL");
+
+      // Conditional so the old seat is released once, and a concurrent
+      // cancel or check-in is not overwritten
+      const now = new Date();
+      const { count } = await tx.campAppointment.updateMany({
+        where: {
+          id: appointmentId,
+          status: current.status,
+          slotId: current.slotId,
+        },
+        data: { slotId, status: "BOOKED", bookedAt: now },
+      });
+      if (count === 0) throw new Error("CONCURRENT_MODIFICATION");
+
+      let promoted: number | null = null;
+      if (current.status === "BOOKED") {
+        await releaseSeat(tx, current.slotId);
+        promoted = await promoteWaitlist(tx, current.slotId, now);
+      }
+
+      const appointment = await tx.campAppointment.findUniqueOrThrow({
+        where: { id: appointmentId },
+      });
+      return { appointment, promoted };
+    }
+  );
+
+  await notifyPromoted(promoted ? [promoted] : []);
+  return appointment;
+}
+
+/**
+ * Cancel an active appointment. A booked seat is released and offered to
+ * the slot's waitlist.
+ *
+ * @param donorProfileId - Restrict to the donor's own appointment
+ * @throws Error("APPOINTMENT_NOT_FOUND") if there is no such active
+ * appointment
+ */
+export async function cancelAppointment(input: {
+  appointmentId: number;
+  donorProfileId: number;
+}): Promise<CampAppointment> {
+  const { appointmentId, donorProfileId } = input;
+
+  const { appointment, promoted } = await prisma.$transaction(
+    async (tx: Tx) => {
+      await lockDonor(tx, donorProfileId);
+
+      const now = new Date();
+      const current = await tx.campAppointment.findFirst({
+        where: {
+          id: appointmentId,
+          donorProfileId,
+          status: { in: ACTIVE_APPOINTMENT_STATUSES },
+        },
+      });
+      if (!current) throw new Error("APPOINTMENT_NOT_FOUND");
+
+      // Conditional so a concurrent check-in or cancel is not overwritten
+      const { count } = await tx.campAppointment.updateMany({
+        where: { id: appointmentId, status: current.status },
+        data: { status: "CANCELLED", cancelledAt: now },
+      });
+      if (count === 0) throw new Error("APPOINTMENT_NOT_FOUND");
+
+      let promoted: number | null = null;
+      if (current.status === "BOOKED") {
+        await releaseSeat(tx, current.slotId);
+        promoted = await promoteWaitlist(tx, current.slotId, now);
+      }
+
+      const appointment = await tx.campAppointment.findUniqueOrThrow({
+        where: { id: appointmentId },
+      });
+      return { appointment, promoted };
+    }
+  );
+
+  await notifyPromoted(promoted ? [promoted] : []);
+  return appointment;
+}
+
+/**
+ * Cancel every active appointment of a camp (when the camp is cancelled)
+ * and free all seats. Returns the donor profiles that were affected.
+ */
+export async function cancelCampAppointments(
+  tx: Tx,
+  campId: number,
+  now: Date = new Date()
+): Promise<number[]> {
+  const active = await tx.campAppointment.findMany({
+    where: { campId, status: { in: ACTIVE_APPOINTMENT_STATUSES } },
+    select: { id: true, slotId: true, status: true, donorProfileId: true },
+  });
+
+  await tx.campAppointment.updateMany({
+    where: { id: { in: active.map((a) => a.id) } },
+    data: { status: "CANCELLED", cancelledAt: now },
+  });
+
+  // Checked-in donors keep their seats
+  const freed = new Map<number, number>();
+  for (const a of active) {
+    if (a.status === "BOOKED") {
+      freed.set(a.slotId, (freed.get(a.slotId) ?? 0) + 1);
+    }
+  }
+  for (const [slotId, seats] of freed) {
+    await tx.campSlot.update({
+      where: { id: slotId },
+      data: { booked: { decrement: seats } },
+    });
+  }
+
+  return active.map((a) => a.donorProfileId);
+}
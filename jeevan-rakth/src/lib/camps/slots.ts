@@ -0,0 +1,53 @@
+/**
+ * Camp Slots
+ *
+ * A camp's opening windows are cut into fixed-length slots, each with the
+ * same capacity. A trailing piece shorter than a full slot is dropped so
+ * every slot is bookable for its whole length.
+ */
+
+export type CampWindow = { startsAt: Date; endsAt: Date };
+
+export type SlotDraft = {
+  startsAt: Date;
+  endsAt: Date;
+  capacity: number;
+};
+
+export function buildCampSlots(
+  windows: CampWindow[],
+  slotMinutes: number,
+  capacity: number
+): SlotDraft[] {
+  const slotMs = slotMinutes * 60_000;
+  const slots: SlotDraft[] = [];
+
+  for (const window of windows) {
+    for (
+      let start = window.startsAt.getTime();
+      start + slotMs <= window.endsAt.getTime();
+      start += slotMs
+    ) {
+      slots.push({
+        startsAt: new Date(start),
+        endsAt: new Date(start + slotMs),
+        capacity,
+      });
+    }
+  }
+
+  return slots.sort((a, b) => a.startsAt.getTime() - b.startsAt.getTime());
+}
+
+/**
+ * Calendar date (YYYY-MM-DD) of an instant in the camp's timezone, used to
+ * split the roster into days.
+ */
+export function localDate(instant: Date, timezone: string): string {
+  return new Intl.DateTimeFormat("en-CA", {
+    timeZone: timezone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(instant);
+}
@@ -0,0 +1,75 @@
+import { createHmac, timingSafeEqual } from "crypto";
+
+const CERTIFICATE_SECRET =
+  process.env.CERTIFICATE_SECRET || process.env.JWT_SECRET || "supersecretkey";
+
+// Hex characters of the HMAC kept in a code; short enough to type from paper
+const SIGNATURE_LENGTH = 16;
+
+export type CertificateKind = "DONATION" | "DONOR_CARD";
+
+const KIND_PREFIX: Record<CertificateKind, string> = {
+  DONATION: "C",
+  DONOR_CARD: "D",
+};
+
+function sign(prefix: string, id: number): string {
+  return createHmac("sha256", CERTIFICATE_SECRET)
+    .update(`${prefix}:${id}`)
+    .digest("hex")
+    .slice(0, SIGNATURE_LENGTH)
+    .toUpperCase();
+}
+
+/**
+ * Verification code printed on a certificate or donor card, e.g.
+ * "C-1Z-9F3A2B7C1D4E5F60". It names the donation (or donor) and carries an
+ * HMAC so codes cannot be guessed or forged, without storing anything.
+ */
+export function certificateCode(kind: CertificateKind, id: number): string {
+  const prefix = KIND_PREFIX[kind];
+  return `${prefix}-${id.toString(36).toUpperCase()}-${sign(prefix, id)}`;
+}
+
+/**
+ * Verify a certificate code
+ *
+ * @throws Error("INVALID_CERTIFICATE") if the code is malformed or forged
+ */
+export function verifyCertificateCode(code: string): {
+  kind: CertificateKind;
+  id: number;
+} {
+  const [prefix, encodedId, signature, ...rest] = code
+    .trim()
+    .toUpperCase()
+    .split("-");
+  const kind = (Object.keys(KIND_PREFIX) as CertificateKind[]).find(
+    (k) => KIND_PREFIX[k] === prefix
+  );
+  const id = /^[0-9A-Z]{1,10}$/.test(encodedId ?? "")
+    ? parseInt(encodedId, 36)
+    : NaN;
+
+  if (
+    !kind ||
+    rest.length > 0 ||
+    !Number.isSafeInteger(id) ||
+    id <= 0 ||
+    signature?.length !== SIGNATURE_LENGTH
+  ) {
+    throw new Error("INVALID_CERTIFICATE");
+  }
+
+  const expected = Buffer.from(sign(prefix, id));
+  if (!timingSafeEqual(expected, Buffer.from(signature))) {
+    throw new Error("INVALID_CERTIFICATE");
+  }
+  return { kind, id };
+}
+
+/** Public page a certificate's QR code points to */
+export function verificationUrl(code: string): string {
+  const base = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
+  return `${base}/verify/${encodeURIComponent(code)}`;
+}
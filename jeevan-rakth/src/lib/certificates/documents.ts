@@ -0,0 +1,168 @@
+/**
+ * Donor Documents
+ *
+ * Loads what goes on a donation certificate or donor card and what the
+ * public verification endpoint may disclose about one. Verification answers
+ * "is this printout genuine?" from the code alone; it never returns the
+ * donor's name or contact details.
+ */
+
+import type { BloodComponent } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { formatBloodGroup } from "@/lib/bloodGroups";
+import {
+  certificateCode,
+  verificationUrl,
+  verifyCertificateCode,
+} from "@/lib/certificates/codes";
+import {
+  renderDonationCertificate,
+  renderDonorCard,
+} from "@/lib/certificates/pdf";
+
+function componentLabel(component: BloodComponent): string {
+  return component.toLowerCase().replace("_", " ");
+}
+
+function donorIdLabel(donorProfileId: number): string {
+  return `JR-${String(donorProfileId).padStart(6, "0")}`;
+}
+
+/**
+ * Certificate PDF for one of a user's donations, or null when the donation
+ * is not theirs
+ */
+export async function donationCertificatePdf(
+  userId: number,
+  donationId: number
+): Promise<{ pdf: Buffer; filename: string } | null> {
+  const donation = await prisma.donation.findFirst({
+    where: { id: donationId, donorProfile: { userId } },
+    include: {
+      donorProfile: { select: { user: { select: { name: true } } } },
+      organization: { select: { name: true } },
+      camp: { select: { name: true } },
+    },
+  });
+  if (!donation) return null;
+
+  const code = certificateCode("DONATION", donation.id);
+  const pdf = await renderDonationCertificate({
+    donorName: donation.donorProfile.user.name,
+    donationNumber: donation.donationNumber,
+    collectedAt: donation.collectedAt,
+    component: componentLabel(donation.component),
+    volumeMl: donation.volumeMl,
+    site: donation.camp
+      ? `${donation.camp.name} (${donation.organization.name})`
+      : donation.organization.name,
+    issuedBy: donation.organization.name,
+    code,
+    verifyUrl: verificationUrl(code),
+  });
+
+  const safeNumber = donation.donationNumber.replace(/[^A-Za-z0-9-]/g, "_");
+  return { pdf, filename: `donation-certificate-${safeNumber}.pdf` };
+}
+
+/** Donor card PDF for a user, or null when they have no donor profile */
+export async function donorCardPdf(
+  userId: number
+): Promise<{ pdf: Buffer; filename: string } | null> {
+  const profile = await prisma.donorProfile.findUnique({
+    where: { userId },
+    include: {
+      user: { select: { name: true } },
+      _count: { select: { donations: true } },
+    },
+  });
+  if (!profile) return null;
+
+  const code = certificateCode("DONOR_CARD", profile.id);
+  const pdf = await renderDonorCard({
+    donorName: profile.user.name,
+    bloodGroup: formatBloodGroup(profile.bloodGroup),
+    donorId: donorIdLabel(profile.id),
+    totalDonations: profile._count.donations,
+    lastDonationAt: profile.lastDonationAt,
+    code,
+    verifyUrl: verificationUrl(code),
+  });
+
+  return { pdf, filename: `donor-card-${donorIdLabel(profile.id)}.pdf` };
+}
+
+export type CertificateVerification =
+  | {
+      type: "DONATION";
+      code: string;
+      donatedOn: string;
+      component: BloodComponent;
+      volumeMl: number;
+      site: string;
+      camp: string | null;
+      issuerVerified: boolean;
+    }
+  | {
+      type: "DONOR_CARD";
+      code: string;
+      donorId: string;
+      bloodGroup: string;
+      totalDonations: number;
+    };
+
+/**
+ * Confirm a certificate or donor card code, returning only what is printed
+ * on the document apart from the donor's name
+ *
+ * @throws Error("INVALID_CERTIFICATE") if the code is forged or what it
+ * names no longer exists
+ */
+export async function verifyCertificate(
+  code: string
+): Promise<CertificateVerification> {
+  const { kind, id } = verifyCertificateCode(code);
+  const canonical = certificateCode(kind, id);
+
+  if (kind === "DONATION") {
+    const donation = await prisma.donation.findUnique({
+      where: { id },
+      select: {
+        collectedAt: true,
+        component: true,
+        volumeMl: true,
+        organization: { select: { name: true, verified: true } },
+        camp: { select: { name: true } },
+      },
+    });
+    if (!donation) throw new Error("INVALID_CERTIFICATE");
+
+    return {
+      type: kind,
+      code: canonical,
+      donatedOn: donation.collectedAt.toISOString().slice(0, 10),
+      component: donation.component,
+      volumeMl: donation.volumeMl,
+      site: donation.organization.name,
+      camp: donation.camp?.name ?? null,
+      issuerVerified: donation.organization.verified,
+    };
+  }
+
+  const profile = await prisma.donorProfile.findUnique({
+    where: { id },
+    select: {
+      bloodGroup: true,
+      _count: { select: { donations: true } },
+    },
+  });
+  if (!profile) throw new Error("INVALID_CERTIFICATE");
+
+  return {
+    type: kind,
+    code: canonical,
+    donorId: donorIdLabel(id),
+    bloodGroup: formatBloodGroup(profile.bloodGroup),
+    totalDonations: profile._count.donations,
+  };
+}
@@ -0,0 +1,225 @@
+/**
+ * Certificate and Donor Card PDFs
+ *
+ * Rendered on the server with PDFKit using its built-in Helvetica fonts, so
+ * no font files need to ship with the app. Each document carries a
+ * verification code and a QR code pointing at the public verification page
+ * (see certificates/codes.ts); the code is what makes a printout checkable.
+ */
+
+import { NextResponse } from "next/server";
+import PDFDocument from "pdfkit";
+import QRCode from "qrcode";
+
+// ISO/IEC 7810 ID-1 (credit card) size in PDF points
+const CARD_SIZE: [number, number] = [242.65, 153.01];
+
+const BRAND_RED = "#dc2626";
+const MUTED = "#4b5563";
+
+export type DonationCertificateData = {
+  donorName: string;
+  donationNumber: string;
+  collectedAt: Date;
+  component: string;
+  volumeMl: number;
+  site: string;
+  issuedBy: string;
+  code: string;
+  verifyUrl: string;
+};
+
+export type DonorCardData = {
+  donorName: string;
+  bloodGroup: string;
+  donorId: string;
+  totalDonations: number;
+  lastDonationAt: Date | null;
+  code: string;
+  verifyUrl: string;
+};
+
+/** Finish a document and collect its bytes */
+export function toBuffer(doc: PDFKit.PDFDocument): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+    doc.end();
+  });
+}
+
+function qrPng(url: string): Promise<Buffer> {
+  return QRCode.toBuffer(url, { margin: 1, width: 240 });
+}
+
+function formatDate(date: Date): string {
+  return date.toLocaleDateString("en-IN", {
+    day: "numeric",
+    month: "long",
+    year: "numeric",
+  });
+}
+
+/** A4 landscape certificate for one donation */
+export async function renderDonationCertificate(
+  data: DonationCertificateData
+): Promise<Buffer> {
+  const qr = await qrPng(data.verifyUrl);
+  const doc = new PDFDocument({
+    size: "A4",
+    layout: "landscape",
+    margin: 50,
+    info: {
+      Title: `Blood donation certificate ${data.code}`,
+      Author: data.issuedBy,
+      Subject: `Donation ${data.donationNumber}`,
+      Keywords: data.code,
+    },
+  });
+
+  const { width, height } = doc.page;
+  doc
+    .lineWidth(4)
+    .strokeColor(BRAND_RED)
+    .rect(25, 25, width - 50, height - 50)
+    .stroke();
+
+  doc
+    .fillColor(BRAND_RED)
+    .font("Helvetica-Bold")
+    .fontSize(34)
+    .text("Certificate of Blood Donation", 50, 90, { align: "center" });
+
+  doc
+    .fillColor(MUTED)
+    .font("Helvetica")
+    .fontSize(14)
+    .text("This is to certify that", { align: "center" })
+    .moveDown(0.8);
+
+  doc
+    .fillColor("black")
+    .font("Helvetica-Bold")
+    .fontSize(26)
+    .text(data.donorName, { align: "center" })
+    .moveDown(0.8);
+
+  doc
+    .fillColor(MUTED)
+    .font("Helvetica")
+    .fontSize(14)
+    .text(
+      `voluntarily donated ${data.volumeMl} ml of ${data.component} at ` +
+        `${data.site} on ${formatDate(data.collectedAt)}, helping save lives.`,
+      120,
+      undefined,
+      { align: "center", width: width - 240 }
+    )
+    .moveDown(0.5)
+    .fontSize(11)
+    .text(`Donation number ${data.donationNumber}`, { align: "center" });
+
+  const footerY = height - 170;
+  doc
+    .moveTo(80, footerY + 60)
+    .lineTo(320, footerY + 60)
+    .lineWidth(1)
+    .strokeColor(MUTED)
+    .stroke();
+  doc
+    .fillColor("black")
+    .font("Helvetica")
+    .fontSize(11)
+    .text("Authorised signatory", 80, footerY + 66)
+    .text(data.issuedBy, 80, footerY + 80);
+
+  doc.image(qr, width - 190, footerY - 10, { width: 110 });
+  doc
+    .fillColor(MUTED)
+    .fontSize(9)
+    .text(`Verify: ${data.code}`, width - 230, footerY + 104, {
+      width: 190,
+      align: "center",
+    });
+
+  return toBuffer(doc);
+}
+
+/** Wallet-sized donor card with blood group and verification QR */
+export async function renderDonorCard(data: DonorCardData): Promise<Buffer> {
+  const qr = await qrPng(data.verifyUrl);
+  const doc = new PDFDocument({
+    size: CARD_SIZE,
+    margin: 0,
+    info: {
+      Title: `Donor card ${data.code}`,
+      Subject: `Donor ${data.donorId}`,
+      Keywords: data.code,
+    },
+  });
+
+  const [width, height] = CARD_SIZE;
+  doc.rect(0, 0, width, 30).fill(BRAND_RED);
+  doc
+    .fillColor("white")
+    .font("Helvetica-Bold")
+    .fontSize(11)
+    .text("Jeevan Rakth Donor Card", 12, 10);
+
+  doc
+    .fillColor("black")
+    .fontSize(10)
+    .text(data.donorName, 12, 40, { width: 140, ellipsis: true, height: 12 })
+    .font("Helvetica")
+    .fontSize(7)
+    .fillColor(MUTED)
+    .text(`Donor ID ${data.donorId}`, 12, 55);
+
+  doc
+    .fillColor(BRAND_RED)
+    .font("Helvetica-Bold")
+    .fontSize(30)
+    .text(data.bloodGroup, 12, 70);
+
+  doc
+    .fillColor(MUTED)
+    .font("Helvetica")
+    .fontSize(7)
+    .text(`Donations: ${data.totalDonations}`, 12, 110)
+    .text(
+      `Last donated: ${
+        data.lastDonationAt ? formatDate(data.lastDonationAt) : "—"
+      }`,
+      12,
+      120
+    );
+
+  doc.image(qr, width - 82, 40, { width: 72 });
+  doc
+    .fontSize(5)
+    .text(data.code, width - 92, 116, { width: 92, align: "center" });
+
+  doc.fontSize(5).text(`Verify at ${data.verifyUrl}`, 12, height - 14, {
+    width: width - 24,
+    ellipsis: true,
+    height: 7,
+  });
+
+  return toBuffer(doc);
+}
+
+/** Send a rendered PDF as a download */
+export function pdfResponse(pdf: Buffer, filename: string): NextResponse {
+  return new NextResponse(new Uint8Array(pdf), {
+    status: 200,
+    headers: {
+      "Content-Type": "application/pdf",
+      "Content-Disposition": `attachment; filename="${filename}"`,
+      "Content-Length": String(pdf.length),
+      // Contains the donor's name; never cache in shared caches
+      "Cache-Control": "private, no-store",
+    },
+  });
+}
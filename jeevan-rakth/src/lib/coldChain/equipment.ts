@@ -0,0 +1,72 @@
+/**
+ * Storage Equipment
+ *
+ * Each refrigerator, freezer or platelet agitator has its own API key for
+ * its data logger. The key is shown once, when the equipment is registered
+ * or the key is rotated; only its SHA-256 hash is stored, so a database
+ * leak does not let anyone post readings.
+ */
+
+import { createHash, randomBytes, timingSafeEqual } from "crypto";
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+
+const API_KEY_PREFIX = "jrsk_";
+
+/** Everything but the key hash, which never leaves the server */
+export const STORAGE_EQUIPMENT_SELECT = {
+  id: true,
+  name: true,
+  type: true,
+  location: true,
+  active: true,
+  lastReadingAt: true,
+  lastTemperatureC: true,
+  createdAt: true,
+  updatedAt: true,
+  organizationId: true,
+} satisfies Prisma.StorageEquipmentSelect;
+
+export function hashApiKey(apiKey: string): string {
+  return createHash("sha256").update(apiKey).digest("hex");
+}
+
+/** A fresh API key and the hash to store for it */
+export function generateApiKey(): { apiKey: string; apiKeyHash: string } {
+  const apiKey = API_KEY_PREFIX + randomBytes(24).toString("base64url");
+  return { apiKey, apiKeyHash: hashApiKey(apiKey) };
+}
+
+/**
+ * The equipment a data logger's API key belongs to, or null when the key
+ * is not the equipment's current one
+ */
+export async function authenticateEquipment(
+  equipmentId: number,
+  apiKey: string
+) {
+  const equipment = await prisma.storageEquipment.findUnique({
+    where: { id: equipmentId },
+  });
+  if (!equipment) return null;
+
+  const expected = Buffer.from(equipment.apiKeyHash, "hex");
+  const actual = Buffer.from(hashApiKey(apiKey), "hex");
+  return timingSafeEqual(actual, expected) ? equipment : null;
+}
+
+/**
+ * Whether the equipment exists and belongs to the organization, so a unit
+ * can be stored in it
+ */
+export async function isEquipmentOf(
+  equipmentId: number,
+  organizationId: number,
+  client: Prisma.TransactionClient = prisma
+): Promise<boolean> {
+  const equipment = await client.storageEquipment.findFirst({
+    where: { id: equipmentId, organizationId },
+    select: { id: true },
+  });
+  return equipment !== null;
+}
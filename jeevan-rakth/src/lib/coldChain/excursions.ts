@@ -0,0 +1,265 @@
+/**
+ * Temperature Excursions
+ *
+ * When storage equipment reads outside its range, every unit stored in it
+ * that is still in stock is flagged for review. Flagged units that were
+ * AVAILABLE or RESERVED go to QUARANTINE at once, losing any reservation,
+ * and stay there until the excursion is reviewed. Units on the road for a
+ * transfer order have left the equipment and are not flagged.
+ *
+ * The review decides each flagged unit once the equipment is back in
+ * range: DISCARDED units are discarded, RELEASED units stay quarantined
+ * until someone releases them by hand, which still checks screening and
+ * look-backs (see PATCH /api/blood-units/:id).
+ */
+
+import { Prisma } from "@prisma/client";
+import type { StorageEquipment, TemperatureExcursion } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { recordRequestEvent } from "@/lib/bloodRequests/events";
+import { ALL_CHANNELS, notify } from "@/lib/notifications";
+import { memberRecipients } from "@/lib/notifications/recipients";
+import { canTransitionUnit } from "@/lib/inventory/lifecycle";
+import { ACTIVE_TRANSFER_STATUSES } from "@/lib/transfers/lifecycle";
+import { equipmentTemperatureRangeC } from "@/config/coldChain";
+import type { ExcursionReviewInput } from "@/lib/schemas/coldChainSchema";
+
+type Tx = Prisma.TransactionClient;
+
+/** Organization filter, as built by organizationScope() */
+type Scope = { organizationId?: { in: number[] } };
+
+export const TEMPERATURE_EXCURSION_INCLUDE = {
+  equipment: {
+    select: {
+      id: true,
+      name: true,
+      type: true,
+      location: true,
+      organizationId: true,
+    },
+  },
+  reviewedBy: { select: { id: true, name: true } },
+  units: {
+    orderBy: { bloodUnitId: "asc" },
+    include: {
+      bloodUnit: {
+        select: {
+          id: true,
+          donationNumber: true,
+          component: true,
+          bloodGroup: true,
+          status: true,
+          expiresAt: true,
+        },
+      },
+    },
+  },
+} satisfies Prisma.TemperatureExcursionInclude;
+
+/**
+ * Excursions of equipment held by the scoped organizations
+ */
+export function temperatureExcursionScope(
+  scope: Scope
+): Prisma.TemperatureExcursionWhereInput {
+  return scope.organizationId ? { equipment: scope } : {};
+}
+
+/**
+ * Flag the in-stock units stored in the equipment for an excursion's
+ * review and quarantine the ones that could otherwise be issued.
+ * Returns the ids of the flagged units.
+ */
+export async function flagStoredUnits(
+  tx: Tx,
+  excursion: TemperatureExcursion,
+  equipment: StorageEquipment
+): Promise<number[]> {
+  const units = await tx.bloodUnit.findMany({
+    where: {
+      storageEquipmentId: equipment.id,
+      organizationId: equipment.organizationId,
+      status: { in: ["QUARANTINE", "AVAILABLE", "RESERVED"] },
+      transferItems: {
+        none: {
+          transferOrder: { status: { in: ACTIVE_TRANSFER_STATUSES } },
+        },
+      },
+    },
+    select: {
+      id: true,
+      status: true,
+      component: true,
+      donationNumber: true,
+      reservedForId: true,
+    },
+  });
+  if (units.length === 0) return [];
+
+  await tx.temperatureExcursionUnit.createMany({
+    data: units.map((unit) => ({
+      excursionId: excursion.id,
+      bloodUnitId: unit.id,
+    })),
+  });
+
+  const releasable = units.filter((unit) => unit.status !== "QUARANTINE");
+  if (releasable.length > 0) {
+    await tx.bloodUnit.updateMany({
+      where: { id: { in: releasable.map((unit) => unit.id) } },
+      data: { status: "QUARANTINE", reservedForId: null, reservedAt: null },
+    });
+  }
+
+  // Patients losing a reserved unit see why on their request
+  for (const unit of releasable) {
+    if (unit.reservedForId === null) continue;
+    await recordRequestEvent(
+      {
+        requestId: unit.reservedForId,
+        type: "RESERVATION_RELEASED",
+        message: `Reserved ${unit.component} unit ${unit.donationNumber} quarantined after a temperature excursion in ${equipment.name}`,
+        data: { bloodUnitId: unit.id, excursionId: excursion.id },
+      },
+      tx
+    );
+  }
+
+  return units.map((unit) => unit.id);
+}
+
+/**
+ * Ids among the given units still waiting on an excursion review
+ */
+export async function unitsAwaitingExcursionReview(
+  bloodUnitIds: number[],
+  client: Tx = prisma
+): Promise<Set<number>> {
+  if (bloodUnitIds.length === 0) return new Set();
+
+  const flags = await client.temperatureExcursionUnit.findMany({
+    where: { bloodUnitId: { in: bloodUnitIds }, decision: null },
+    select: { bloodUnitId: true },
+  });
+  return new Set(flags.map((flag) => flag.bloodUnitId));
+}
+
+/**
+ * Record decisions on an excursion's flagged units. The excursion counts
+ * as reviewed once every flagged unit is decided; notes may be added
+ * along the way. Runs SERIALIZABLE so two reviewers cannot decide the
+ * same unit differently; the loser fails with P2034.
+ *
+ * @throws Error("EXCURSION_NOT_FOUND") if the excursion is not visible
+ * @throws Error("EXCURSION_ONGOING") if the equipment is still out of range
+ * @throws Error("UNIT_NOT_FLAGGED") if a unit is not awaiting this review
+ */
+export async function reviewExcursion(
+  excursionId: number,
+  input: ExcursionReviewInput,
+  scope: Scope,
+  reviewerId: number
+) {
+  const now = new Date();
+
+  return prisma.$transaction(
+    async (tx: Tx) => {
+      const excursion = await tx.temperatureExcursion.findFirst({
+        where: { id: excursionId, ...temperatureExcursionScope(scope) },
+        include: {
+          equipment: { select: { name: true } },
+          units: {
+            where: { decision: null },
+            include: { bloodUnit: { select: { status: true } } },
+          },
+        },
+      });
+      if (!excursion) throw new Error("EXCURSION_NOT_FOUND");
+      if (!excursion.endedAt) throw new Error("EXCURSION_ONGOING");
+
+      const pending = new Map(
+        excursion.units.map((flag) => [flag.bloodUnitId, flag.bloodUnit])
+      );
+      if (input.decisions.some((d) => !pending.has(d.bloodUnitId))) {
+        throw new Error("UNIT_NOT_FLAGGED");
+      }
+
+      for (const { bloodUnitId, decision } of input.decisions) {
+        const unit = pending.get(bloodUnitId)!;
+        if (
+          decision === "DISCARDED" &&
+          unit.status !== "DISCARDED" &&
+          canTransitionUnit(unit.status, "DISCARDED")
+        ) {
+          await tx.bloodUnit.updateMany({
+            where: { id: bloodUnitId, status: unit.status },
+            data: {
+              status: "DISCARDED",
+              discardedAt: now,
+              discardReason: `Temperature excursion in ${excursion.equipment.name}`,
+              reservedForId: null,
+              reservedAt: null,
+            },
+          });
+        }
+        await tx.temperatureExcursionUnit.update({
+          where: { excursionId_bloodUnitId: { excursionId, bloodUnitId } },
+          data: { decision, reviewedAt: now },
+        });
+      }
+
+      const complete = input.decisions.length === pending.size;
+      await tx.temperatureExcursion.update({
+        where: { id: excursionId },
+        data: {
+          ...(input.notes !== undefined ? { reviewNotes: input.notes } : {}),
+          ...(complete && !excursion.reviewedAt
+            ? { reviewedAt: now, reviewedById: reviewerId }
+            : {}),
+        },
+      });
+
+      return tx.temperatureExcursion.findUniqueOrThrow({
+        where: { id: excursionId },
+        include: TEMPERATURE_EXCURSION_INCLUDE,
+      });
+    },
+    { isolationLevel: Prisma.TransactionIsolationLevel.Serializable }
+  );
+}
+
+/**
+ * Page the organization's on-call members, or its admins when nobody is
+ * on call, about a new excursion
+ */
+export async function notifyExcursionOpened(
+  equipment: StorageEquipment,
+  excursion: TemperatureExcursion,
+  flaggedUnits: number
+): Promise<void> {
+  let recipients = await memberRecipients({
+    organizationId: equipment.organizationId,
+    onCall: true,
+  });
+  if (recipients.length === 0) {
+    recipients = await memberRecipients({
+      organizationId: equipment.organizationId,
+      role: "ADMIN",
+    });
+  }
+
+  const range = equipmentTemperatureRangeC[equipment.type];
+  await Promise.all(
+    recipients.map((recipient) =>
+      notify(
+        recipient,
+        {
+          title: `Temperature excursion: ${equipment.name}`,
+          body: `${equipment.name}${equipment.location ? ` (${equipment.location})` : ""} went outside ${range.min} to ${range.max} °C at ${excursion.startedAt.toISOString()}, reaching ${Number(excursion.peakTemperatureC)} °C. ${flaggedUnits} unit(s) stored in it are quarantined pending review.`,
+        },
+        { channels: ALL_CHANNELS }
+      )
+    )
+  );
+}
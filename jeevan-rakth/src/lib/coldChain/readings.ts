@@ -0,0 +1,277 @@
+/**
+ * Temperature Reading Ingestion
+ *
+ * Data loggers upload readings in batches, as JSON or as a CSV file with a
+ * `recordedAt,temperatureC` header. Readings are stored once per instant,
+ * so a logger may safely re-send a batch after a failed upload.
+ *
+ * New readings are replayed in time order against the equipment's range:
+ * the first reading out of range opens an excursion (flagging the stored
+ * units and paging on-call staff, see lib/coldChain/excursions), further
+ * ones extend it and track the peak, and the next reading back in range
+ * ends it. Readings older than the last one stored (backfills, retried
+ * uploads) are stored too, but only raise the peak of an excursion that
+ * spans them.
+ */
+
+import { Prisma } from "@prisma/client";
+import type { StorageEquipment } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { equipmentTemperatureRangeC } from "@/config/coldChain";
+import {
+  flagStoredUnits,
+  notifyExcursionOpened,
+} from "@/lib/coldChain/excursions";
+import type { TemperatureReadingInput } from "@/lib/schemas/coldChainSchema";
+
+type Tx = Prisma.TransactionClient;
+
+export type IngestSummary = {
+  received: number;
+  /** Readings not already stored */
+  recorded: number;
+  outOfRange: number;
+  openedExcursionIds: number[];
+  flaggedUnitIds: number[];
+};
+
+/**
+ * Rows of a readings CSV as raw field values, for temperatureReadingSchema
+ * to validate. Columns are matched by header name in any order; quoted
+ * fields without embedded commas are unquoted.
+ *
+ * @throws Error("INVALID_CSV") if the header lacks a required column
+ */
+export function parseReadingsCsv(
+  text: string
+): { recordedAt?: string; temperatureC?: string }[] {
+  const lines = text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0);
+  const split = (line: string) =>
+    line.split(",").map((field) => field.trim().replace(/^"(.*)"$/, "$1"));
+
+  const header = split(lines[0] ?? "").map((name) => name.toLowerCase());
+  const recordedAtIndex = header.indexOf("recordedat");
+  const temperatureIndex = header.indexOf("temperaturec");
+  if (recordedAtIndex === -1 || temperatureIndex === -1) {
+    throw new Error("INVALID_CSV");
+  }
+
+  return lines.slice(1).map((line) => {
+    const fields = split(line);
+    return {
+      recordedAt: fields[recordedAtIndex],
+      temperatureC: fields[temperatureIndex],
+    };
+  });
+}
+
+/** How far a temperature lies outside the range; 0 when within it */
+export function deviation(
+  temperatureC: number,
+  range: { min: number; max: number }
+) {
+  return Math.max(range.min - temperatureC, temperatureC - range.max, 0);
+}
+
+/**
+ * Store a batch of readings for the equipment and open, extend or end its
+ * excursions accordingly. Runs SERIALIZABLE so overlapping uploads cannot
+ * both open an excursion; the loser fails with P2034.
+ */
+export async function ingestReadings(
+  equipment: StorageEquipment,
+  readings: TemperatureReadingInput[]
+): Promise<IngestSummary> {
+  const range = equipmentTemperatureRangeC[equipment.type];
+
+  const result = await prisma.$transaction(
+    async (tx: Tx) => {
+      const existing = await tx.temperatureReading.findMany({
+        where: {
+          equipmentId: equipment.id,
+          recordedAt: { in: readings.map((r) => r.recordedAt) },
+        },
+        select: { recordedAt: true },
+      });
+      const seen = new Set(existing.map((r) => r.recordedAt.getTime()));
+
+      const fresh = [...readings]
+        .sort((a, b) => a.recordedAt.getTime() - b.recordedAt.getTime())
+        .filter((r) => {
+          const at = r.recordedAt.getTime();
+          if (seen.has(at)) return false;
+          seen.add(at);
+          return true;
+        })
+        .map((r) => {
+          // Stored to one decimal, so judged at one decimal
+          const temperatureC = Math.round(r.temperatureC * 10) / 10;
+          return {
+            recordedAt: r.recordedAt,
+            temperatureC,
+            withinRange: deviation(temperatureC, range) === 0,
+          };
+        });
+
+      const opened: { excursionId: number; flaggedUnitIds: number[] }[] = [];
+      if (fresh.length === 0) return { fresh, opened };
+
+      await tx.temperatureReading.createMany({
+        data: fresh.map((r) => ({ ...r, equipmentId: equipment.id })),
+        skipDuplicates: true,
+      });
+
+      // Readings up to the last one already stored arrive late. They only
+      // raise the peak of an excursion that spans them: opening one on them
+      // would flag units stored since, and ending one would ignore the
+      // later readings that show it still going on.
+      const { lastReadingAt } = await tx.storageEquipment.findUniqueOrThrow({
+        where: { id: equipment.id },
+        select: { lastReadingAt: true },
+      });
+      const late = lastReadingAt
+        ? fresh.filter((r) => r.recordedAt <= lastReadingAt)
+        : [];
+      const live = fresh.slice(late.length);
+
+      const current = await tx.temperatureExcursion.findFirst({
+        where: { equipmentId: equipment.id, endedAt: null },
+        orderBy: { startedAt: "desc" },
+      });
+      let open = current && {
+        id: current.id,
+        peakTemperatureC: Number(current.peakTemperatureC),
+        changed: false,
+      };
+
+      const lateOutOfRange = late.filter((r) => !r.withinRange);
+      if (lateOutOfRange.length > 0) {
+        const spanning = await tx.temperatureExcursion.findMany({
+          where: {
+            equipmentId: equipment.id,
+            startedAt: {
+              lte: lateOutOfRange[lateOutOfRange.length - 1].recordedAt,
+            },
+            OR: [
+              { endedAt: null },
+              { endedAt: { gt: lateOutOfRange[0].recordedAt } },
+            ],
+          },
+        });
+        const peaks = new Map<number, number>();
+        for (const reading of lateOutOfRange) {
+          const excursion = spanning.find(
+            (e) =>
+              e.startedAt <= reading.recordedAt &&
+              (!e.endedAt || reading.recordedAt < e.endedAt)
+          );
+          if (!excursion) continue;
+          const peak =
+            peaks.get(excursion.id) ?? Number(excursion.peakTemperatureC);
+          if (deviation(reading.temperatureC, range) > deviation(peak, range)) {
+            peaks.set(excursion.id, reading.temperatureC);
+          }
+        }
+        for (const [id, peakTemperatureC] of peaks) {
+          if (open?.id === id) {
+            open.peakTemperatureC = peakTemperatureC;
+            open.changed = true;
+          } else {
+            await tx.temperatureExcursion.update({
+              where: { id },
+              data: { peakTemperatureC },
+            });
+          }
+        }
+      }
+
+      const save = async (endedAt?: Date) => {
+        if (!open || (!open.changed && !endedAt)) return;
+        await tx.temperatureExcursion.update({
+          where: { id: open.id },
+          data: {
+            peakTemperatureC: open.peakTemperatureC,
+            ...(endedAt ? { endedAt } : {}),
+          },
+        });
+      };
+
+      for (const reading of live) {
+        if (reading.withinRange) {
+          if (open) {
+            await save(reading.recordedAt);
+            open = null;
+          }
+          continue;
+        }
+
+        if (open) {
+          if (
+            deviation(reading.temperatureC, range) >
+            deviation(open.peakTemperatureC, range)
+          ) {
+            open.peakTemperatureC = reading.temperatureC;
+            open.changed = true;
+          }
+          continue;
+        }
+
+        const excursion = await tx.temperatureExcursion.create({
+          data: {
+            equipmentId: equipment.id,
+            startedAt: reading.recordedAt,
+            peakTemperatureC: reading.temperatureC,
+          },
+        });
+        opened.push({
+          excursionId: excursion.id,
+          flaggedUnitIds: await flagStoredUnits(tx, excursion, equipment),
+        });
+        open = {
+          id: excursion.id,
+          peakTemperatureC: reading.temperatureC,
+          changed: false,
+        };
+      }
+      await save();
+
+      if (live.length > 0) {
+        const latest = live[live.length - 1];
+        await tx.storageEquipment.update({
+          where: { id: equipment.id },
+          data: {
+            lastReadingAt: latest.recordedAt,
+            lastTemperatureC: latest.temperatureC,
+          },
+        });
+      }
+
+      return { fresh, opened };
+    },
+    { isolationLevel: Prisma.TransactionIsolationLevel.Serializable }
+  );
+
+  if (result.opened.length > 0) {
+    const excursions = await prisma.temperatureExcursion.findMany({
+      where: { id: { in: result.opened.map((o) => o.excursionId) } },
+    });
+    for (const excursion of excursions) {
+      const flagged = result.opened.find((o) => o.excursionId === excursion.id)!
+        .flaggedUnitIds.length;
+      notifyExcursionOpened(equipment, excursion, flagged).catch((error) => {
+        console.error("Excursion notification failed", excursion.id, error);
+      });
+    }
+  }
+
+  return {
+    received: readings.length,
+    recorded: result.fresh.length,
+    outOfRange: result.fresh.filter((r) => !r.withinRange).length,
+    openedExcursionIds: result.opened.map((o) => o.excursionId),
+    flaggedUnitIds: result.opened.flatMap((o) => o.flaggedUnitIds),
+  };
+}
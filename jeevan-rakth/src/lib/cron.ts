@@ -0,0 +1,20 @@
+import { timingSafeEqual } from "crypto";
+import type { NextRequest } from "next/server";
+
+/**
+ * Check that a request comes from the job scheduler.
+ *
+ * Scheduled routes live under /api/cron and are called with
+ * `Authorization: Bearer <CRON_SECRET>` (the header Vercel Cron sends).
+ * Without CRON_SECRET configured every call is rejected.
+ */
+export function isAuthorizedCronRequest(req: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) return false;
+
+  const header = req.headers.get("authorization") ?? "";
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const actual = Buffer.from(header);
+
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
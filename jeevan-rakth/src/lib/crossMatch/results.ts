@@ -0,0 +1,62 @@
+/**
+ * Cross-match Results
+ *
+ * A unit is compatible with a patient sample when no test on it came back
+ * INCOMPATIBLE and either:
+ *
+ *   - the full (antiglobulin) cross-match is COMPATIBLE, or
+ *   - the immediate-spin cross-match is COMPATIBLE and the sample's antibody
+ *     screen is NEGATIVE.
+ *
+ * A positive antibody screen therefore always needs a full cross-match.
+ * Only a compatible cross-match on an in-date sample of the request a unit
+ * is reserved for allows the unit to be issued.
+ */
+
+import type {
+  AntibodyScreenResult,
+  CrossMatchResult,
+  CrossMatchStatus,
+  Prisma,
+} from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+
+/**
+ * Status of a cross-match from its results and the sample's screen
+ */
+export function crossMatchStatus(
+  antibodyScreen: AntibodyScreenResult | null,
+  immediateSpin: CrossMatchResult | null,
+  fullCrossMatch: CrossMatchResult | null
+): CrossMatchStatus {
+  if (immediateSpin === "INCOMPATIBLE" || fullCrossMatch === "INCOMPATIBLE") {
+    return "INCOMPATIBLE";
+  }
+  if (fullCrossMatch === "COMPATIBLE") return "COMPATIBLE";
+  if (immediateSpin === "COMPATIBLE" && antibodyScreen === "NEGATIVE") {
+    return "COMPATIBLE";
+  }
+  return "PENDING";
+}
+
+/**
+ * Check whether a unit has a compatible cross-match against an in-date
+ * sample of a request. Pass the transaction client when the check must see
+ * the same snapshot as the issue it guards.
+ */
+export async function hasCompatibleCrossMatch(
+  bloodUnitId: number,
+  requestId: number,
+  now: Date = new Date(),
+  client: Prisma.TransactionClient = prisma
+): Promise<boolean> {
+  const crossMatch = await client.crossMatch.findFirst({
+    where: {
+      bloodUnitId,
+      status: "COMPATIBLE",
+      sample: { requestId, expiresAt: { gt: now } },
+    },
+    select: { id: true },
+  });
+  return crossMatch !== null;
+}
@@ -0,0 +1,316 @@
+/**
+ * Patient Samples and Cross-matching
+ *
+ * The lab registers a patient sample against a blood request, screens it
+ * for antibodies once and cross-matches candidate units against it. Every
+ * result is recorded once, with the technician who entered it; a repeat
+ * test is done on a fresh sample.
+ */
+
+import { Prisma, type BloodRequest } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { pretransfusionPolicy } from "@/config/pretransfusion";
+import { isClosedStatus } from "@/lib/bloodRequests/lifecycle";
+import { crossMatchStatus } from "@/lib/crossMatch/results";
+import { compatibleDonorGroups } from "@/lib/matching/compatibility";
+import type {
+  PatientSampleCreateInput,
+  PretransfusionResultInput,
+} from "@/lib/schemas/crossMatchSchema";
+
+type Tx = Prisma.TransactionClient;
+
+/** Organization filter, as built by organizationScope() */
+type Scope = { organizationId?: { in: number[] } };
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const technician = { select: { id: true, name: true } } as const;
+
+export const PATIENT_SAMPLE_INCLUDE = {
+  recordedBy: technician,
+  antibodyScreenBy: technician,
+  crossMatches: {
+    orderBy: { id: "asc" },
+    include: {
+      bloodUnit: {
+        select: {
+          id: true,
+          donationNumber: true,
+          component: true,
+          bloodGroup: true,
+          status: true,
+          expiresAt: true,
+        },
+      },
+      immediateSpinBy: technician,
+      fullCrossMatchBy: technician,
+    },
+  },
+} satisfies Prisma.PatientSampleInclude;
+
+/**
+ * Pick and validate the units to cross-match against a sample: the given
+ * units, or those reserved for the request. Candidates must be in date, of
+ * the requested component and ABO/RhD compatible with the patient, and
+ * either AVAILABLE or already reserved for this request.
+ *
+ * @throws Error("BLOOD_UNIT_NOT_FOUND") if a unit is not held by the lab
+ * @throws Error("UNIT_NOT_ELIGIBLE") if a unit fails the checks above
+ * @throws Error("NO_CANDIDATE_UNITS") if none are given or reserved
+ */
+async function candidateUnits(
+  tx: Tx,
+  request: BloodRequest,
+  organizationId: number,
+  bloodUnitIds: number[] | undefined,
+  now: Date
+): Promise<number[]> {
+  const units = await tx.bloodUnit.findMany({
+    where: bloodUnitIds
+      ? { id: { in: bloodUnitIds }, organizationId }
+      : { reservedForId: request.id, status: "RESERVED" },
+    select: {
+      id: true,
+      status: true,
+      component: true,
+      bloodGroup: true,
+      expiresAt: true,
+      reservedForId: true,
+    },
+  });
+
+  if (bloodUnitIds && units.length !== new Set(bloodUnitIds).size) {
+    throw new Error("BLOOD_UNIT_NOT_FOUND");
+  }
+  if (units.length === 0) throw new Error("NO_CANDIDATE_UNITS");
+
+  const groups = compatibleDonorGroups(request.bloodGroup, request.component);
+  const eligible = units.every(
+    (unit) =>
+      unit.expiresAt > now &&
+      unit.component === request.component &&
+      groups.includes(unit.bloodGroup) &&
+      (unit.status === "AVAILABLE" ||
+        (unit.status === "RESERVED" && unit.reservedForId === request.id))
+  );
+  if (!eligible) throw new Error("UNIT_NOT_ELIGIBLE");
+
+  return units.map((unit) => unit.id);
+}
+
+/**
+ * Register a patient sample for a request, valid for the configured number
+ * of hours after collection, optionally with candidate units.
+ *
+ * @throws Error("BLOOD_REQUEST_NOT_FOUND") if the request is not visible
+ * @throws Error("INVALID_STATUS_TRANSITION") if the request is closed
+ * @throws Error("SAMPLE_EXPIRED") if the sample is already too old
+ * @throws the errors of candidateUnits when units are given
+ */
+export async function registerPatientSample(
+  requestId: number,
+  input: PatientSampleCreateInput,
+  scope: Scope,
+  recordedById: number
+) {
+  const now = new Date();
+  const expiresAt = new Date(
+    input.collectedAt.getTime() +
+      pretransfusionPolicy.sampleValidityHours * HOUR_MS
+  );
+  if (expiresAt <= now) throw new Error("SAMPLE_EXPIRED");
+
+  return prisma.$transaction(async (tx: Tx) => {
+    const request = await tx.bloodRequest.findFirst({
+      where: { id: requestId, ...scope },
+    });
+    if (!request) throw new Error("BLOOD_REQUEST_NOT_FOUND");
+    if (isClosedStatus(request.status)) {
+      throw new Error("INVALID_STATUS_TRANSITION");
+    }
+
+    const { bloodUnitIds, ...data } = input;
+    const sample = await tx.patientSample.create({
+      data: {
+        ...data,
+        patientName: data.patientName ?? request.patientName,
+        expiresAt,
+        requestId: request.id,
+        organizationId: request.organizationId,
+        recordedById,
+      },
+    });
+
+    if (bloodUnitIds) {
+      const ids = await candidateUnits(
+        tx,
+        request,
+        request.organizationId,
+        bloodUnitIds,
+        now
+      );
+      await tx.crossMatch.createMany({
+        data: ids.map((bloodUnitId) => ({ sampleId: sample.id, bloodUnitId })),
+      });
+    }
+
+    return tx.patientSample.findUniqueOrThrow({
+      where: { id: sample.id },
+      include: PATIENT_SAMPLE_INCLUDE,
+    });
+  });
+}
+
+/**
+ * Add candidate units to an in-date sample. Units already on the sample
+ * are skipped.
+ *
+ * @throws Error("SAMPLE_NOT_FOUND") if the sample is not visible
+ * @throws Error("SAMPLE_EXPIRED") if the sample is past its validity
+ * @throws Error("INVALID_STATUS_TRANSITION") if the request is closed
+ * @throws the errors of candidateUnits
+ */
+export async function addCrossMatchCandidates(
+  sampleId: number,
+  bloodUnitIds: number[] | undefined,
+  scope: Scope
+) {
+  const now = new Date();
+
+  return prisma.$transaction(async (tx: Tx) => {
+    const sample = await tx.patientSample.findFirst({
+      where: { id: sampleId, ...scope },
+      include: { request: true },
+    });
+    if (!sample) throw new Error("SAMPLE_NOT_FOUND");
+    if (sample.expiresAt <= now) throw new Error("SAMPLE_EXPIRED");
+    if (isClosedStatus(sample.request.status)) {
+      throw new Error("INVALID_STATUS_TRANSITION");
+    }
+
+    const ids = await candidateUnits(
+      tx,
+      sample.request,
+      sample.organizationId,
+      bloodUnitIds,
+      now
+    );
+    await tx.crossMatch.createMany({
+      data: ids.map((bloodUnitId) => ({ sampleId, bloodUnitId })),
+      skipDuplicates: true,
+    });
+
+    return tx.patientSample.findUniqueOrThrow({
+      where: { id: sampleId },
+      include: PATIENT_SAMPLE_INCLUDE,
+    });
+  });
+}
+
+/**
+ * Record an antibody screen or cross-match result on a sample and bring
+ * the affected cross-match statuses up to date. Runs SERIALIZABLE so a
+ * screen and a cross-match result entered at the same time cannot leave a
+ * status computed from stale results; the loser fails with P2034.
+ *
+ * @throws Error("SAMPLE_NOT_FOUND") if the sample is not visible
+ * @throws Error("SAMPLE_EXPIRED") if the sample is past its validity
+ * @throws Error("CROSS_MATCH_NOT_FOUND") if the unit is not a candidate
+ * on the sample
+ * @throws Error("RESULT_ALREADY_RECORDED") if the test already has a result
+ */
+export async function recordPretransfusionResult(
+  sampleId: number,
+  input: PretransfusionResultInput,
+  scope: Scope,
+  technicianId: number
+) {
+  const now = new Date();
+
+  return prisma.$transaction(
+    async (tx: Tx) => {
+      const sample = await tx.patientSample.findFirst({
+        where: { id: sampleId, ...scope },
+        include: { crossMatches: true },
+      });
+      if (!sample) throw new Error("SAMPLE_NOT_FOUND");
+      if (sample.expiresAt <= now) throw new Error("SAMPLE_EXPIRED");
+
+      if (input.test === "ANTIBODY_SCREEN") {
+        // Conditional on the screen still being empty so two technicians
+        // cannot both record it
+        const { count } = await tx.patientSample.updateMany({
+          where: { id: sampleId, antibodyScreen: null },
+          data: {
+            antibodyScreen: input.result,
+            antibodyScreenAt: now,
+            antibodyScreenById: technicianId,
+          },
+        });
+        if (count === 0) throw new Error("RESULT_ALREADY_RECORDED");
+
+        for (const crossMatch of sample.crossMatches) {
+          const status = crossMatchStatus(
+            input.result,
+            crossMatch.immediateSpin,
+            crossMatch.fullCrossMatch
+          );
+          if (status !== crossMatch.status) {
+            await tx.crossMatch.update({
+              where: { id: crossMatch.id },
+              data: { status },
+            });
+          }
+        }
+      } else {
+        const crossMatch = sample.crossMatches.find(
+          (c) => c.bloodUnitId === input.bloodUnitId
+        );
+        if (!crossMatch) throw new Error("CROSS_MATCH_NOT_FOUND");
+
+        const immediateSpin =
+          input.test === "IMMEDIATE_SPIN"
+            ? input.result
+            : crossMatch.immediateSpin;
+        const fullCrossMatch =
+          input.test === "FULL_CROSSMATCH"
+            ? input.result
+            : crossMatch.fullCrossMatch;
+        const status = crossMatchStatus(
+          sample.antibodyScreen,
+          immediateSpin,
+          fullCrossMatch
+        );
+
+        const { count } = await tx.crossMatch.updateMany({
+          where:
+            input.test === "IMMEDIATE_SPIN"
+              ? { id: crossMatch.id, immediateSpin: null }
+              : { id: crossMatch.id, fullCrossMatch: null },
+          data:
+            input.test === "IMMEDIATE_SPIN"
+              ? {
+                  immediateSpin,
+                  immediateSpinAt: now,
+                  immediateSpinById: technicianId,
+                  status,
+                }
+              : {
+                  fullCrossMatch,
+                  fullCrossMatchAt: now,
+                  fullCrossMatchById: technicianId,
+                  status,
+                },
+        });
+        if (count === 0) throw new Error("RESULT_ALREADY_RECORDED");
+      }
+
+      return tx.patientSample.findUniqueOrThrow({
+        where: { id: sampleId },
+        include: PATIENT_SAMPLE_INCLUDE,
+      });
+    },
+    { isolationLevel: Prisma.TransactionIsolationLevel.Serializable }
+  );
+}
@@ -0,0 +1,279 @@
+/**
+ * Dashboard Statistics
+ *
+ * Headline numbers for the dashboard, computed per tenant. Each section is
+ * cached in Redis on its own with a TTL matched to how quickly it goes
+ * stale: open requests and expiring stock change minute to minute, while
+ * the donor pool and 30-day performance move slowly.
+ *
+ * The donor pool is shared by every organization, so donor counts are not
+ * tenant-scoped; requests, performance and inventory are.
+ */
+
+import {
+  Prisma,
+  type BloodComponent,
+  type BloodGroup,
+  type UrgencyLevel,
+} from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import redis from "@/lib/redis";
+import { BLOOD_GROUPS } from "@/lib/bloodGroups";
+import { CLOSED_STATUSES } from "@/lib/bloodRequests/lifecycle";
+import { IN_STOCK_STATUSES } from "@/lib/inventory/lifecycle";
+import { availableDonorFilter } from "@/lib/donors/availability";
+
+export const DASHBOARD_CACHE_PREFIX = "dashboard:stats";
+
+// Seconds each section may be served from cache
+const TTL = {
+  donors: 300,
+  requests: 30,
+  performance: 300,
+  inventory: 60,
+} as const;
+
+// Fulfilment rate and time-to-match look at requests from this window
+export const PERFORMANCE_WINDOW_DAYS = 30;
+
+export const EXPIRY_WARNING_HOURS = 72;
+
+const URGENCIES: UrgencyLevel[] = ["CRITICAL", "URGENT", "ROUTINE"];
+
+export type DashboardStats = {
+  donors: {
+    total: number;
+    available: number;
+    byBloodGroup: {
+      bloodGroup: BloodGroup;
+      total: number;
+      available: number;
+    }[];
+  };
+  openRequests: {
+    total: number;
+    byUrgency: { urgency: UrgencyLevel; count: number }[];
+  };
+  performance: {
+    windowDays: number;
+    closed: number;
+    fulfilled: number;
+    /** Fulfilled share of requests closed in the window; null if none */
+    fulfilmentRate: number | null;
+    /** Mean minutes from a request being raised to it reaching MATCHING */
+    averageMinutesToMatch: number | null;
+  };
+  expiringUnits: {
+    withinHours: number;
+    total: number;
+    byComponent: { component: BloodComponent; count: number }[];
+  };
+  generatedAt: string;
+};
+
+/**
+ * Serve a section from Redis, computing and storing it on a miss. Redis is
+ * best-effort: failures fall through to a fresh computation.
+ */
+async function cached<T>(
+  key: string,
+  ttlSeconds: number,
+  compute: () => Promise<T>
+): Promise<T> {
+  try {
+    const hit = await redis.get(key);
+    if (hit) return JSON.parse(hit) as T;
+  } catch (err) {
+    console.warn("Redis GET failed", err);
+  }
+
+  const value = await compute();
+  try {
+    await redis.set(key, JSON.stringify(value), "EX", ttlSeconds);
+  } catch (err) {
+    console.warn("Redis SET failed", err);
+  }
+  return value;
+}
+
+/**
+ * Cache key suffix identifying a set of organizations
+ */
+function tenantKey(organizationIds: number[] | null): string {
+  return organizationIds === null
+    ? "all"
+    : [...organizationIds].sort((a, b) => a - b).join(",") || "none";
+}
+
+function tenantScope(organizationIds: number[] | null) {
+  return organizationIds === null
+    ? {}
+    : { organizationId: { in: organizationIds } };
+}
+
+async function donorStats(): Promise<DashboardStats["donors"]> {
+  const [all, available] = await Promise.all([
+    prisma.donorProfile.groupBy({ by: ["bloodGroup"], _count: true }),
+    prisma.donorProfile.groupBy({
+      by: ["bloodGroup"],
+      where: availableDonorFilter(),
+      _count: true,
+    }),
+  ]);
+  const totals = new Map(all.map((row) => [row.bloodGroup, row._count]));
+  const availableTotals = new Map(
+    available.map((row) => [row.bloodGroup, row._count])
+  );
+
+  const byBloodGroup = BLOOD_GROUPS.map((bloodGroup) => ({
+    bloodGroup,
+    total: totals.get(bloodGroup) ?? 0,
+    available: availableTotals.get(bloodGroup) ?? 0,
+  }));
+  return {
+    total: byBloodGroup.reduce((n, g) => n + g.total, 0),
+    available: byBloodGroup.reduce((n, g) => n + g.available, 0),
+    byBloodGroup,
+  };
+}
+
+async function openRequestStats(
+  organizationIds: number[] | null
+): Promise<DashboardStats["openRequests"]> {
+  const rows = await prisma.bloodRequest.groupBy({
+    by: ["urgency"],
+    where: {
+      ...tenantScope(organizationIds),
+      status: { notIn: CLOSED_STATUSES },
+    },
+    _count: true,
+  });
+  const counts = new Map(rows.map((row) => [row.urgency, row._count]));
+
+  const byUrgency = URGENCIES.map((urgency) => ({
+    urgency,
+    count: counts.get(urgency) ?? 0,
+  }));
+  return {
+    total: byUrgency.reduce((n, u) => n + u.count, 0),
+    byUrgency,
+  };
+}
+
+async function performanceStats(
+  organizationIds: number[] | null,
+  now: Date
+): Promise<DashboardStats["performance"]> {
+  const since = new Date(
+    now.getTime() - PERFORMANCE_WINDOW_DAYS * 24 * 60 * 60 * 1000
+  );
+
+  const closed = await prisma.bloodRequest.groupBy({
+    by: ["status"],
+    where: {
+      ...tenantScope(organizationIds),
+      status: { in: CLOSED_STATUSES },
+      closedAt: { gte: since },
+    },
+    _count: true,
+  });
+  const closedTotal = closed.reduce((n, row) => n + row._count, 0);
+  const fulfilled =
+    closed.find((row) => row.status === "FULFILLED")?._count ?? 0;
+
+  // The first STATUS_CHANGED event into MATCHING marks the match
+  const tenantFilter =
+    organizationIds === null
+      ? Prisma.empty
+      : organizationIds.length === 0
+        ? Prisma.sql`AND FALSE`
+        : Prisma.sql`AND r."organizationId" IN (${Prisma.join(organizationIds)})`;
+  const [match] = await prisma.$queryRaw<{ minutes: number | null }[]>`
+    SELECT AVG(EXTRACT(EPOCH FROM (m."matchedAt" - r."createdAt")) / 60)::double precision AS "minutes"
+    FROM "BloodRequest" r
+    JOIN LATERAL (
+      SELECT MIN(e."createdAt") AS "matchedAt"
+      FROM "BloodRequestEvent" e
+      WHERE e."bloodRequestId" = r."id"
+        AND e."type" = 'STATUS_CHANGED'
+        AND e."data"->>'to' = 'MATCHING'
+    ) m ON m."matchedAt" IS NOT NULL
+    WHERE r."createdAt" >= ${since}
+      ${tenantFilter}
+  `;
+
+  return {
+    windowDays: PERFORMANCE_WINDOW_DAYS,
+    closed: closedTotal,
+    fulfilled,
+    fulfilmentRate:
+      closedTotal === 0
+        ? null
+        : Math.round((fulfilled / closedTotal) * 1000) / 1000,
+    averageMinutesToMatch:
+      match?.minutes === null || match?.minutes === undefined
+        ? null
+        : Math.round(Number(match.minutes)),
+  };
+}
+
+async function expiringUnitStats(
+  organizationIds: number[] | null,
+  now: Date
+): Promise<DashboardStats["expiringUnits"]> {
+  const rows = await prisma.bloodUnit.groupBy({
+    by: ["component"],
+    where: {
+      ...tenantScope(organizationIds),
+      status: { in: IN_STOCK_STATUSES },
+      expiresAt: {
+        gt: now,
+        lte: new Date(now.getTime() + EXPIRY_WARNING_HOURS * 60 * 60 * 1000),
+      },
+    },
+    _count: true,
+  });
+
+  return {
+    withinHours: EXPIRY_WARNING_HOURS,
+    total: rows.reduce((n, row) => n + row._count, 0),
+    byComponent: rows.map((row) => ({
+      component: row.component,
+      count: row._count,
+    })),
+  };
+}
+
+/**
+ * Dashboard statistics for the given organizations (null for every
+ * organization)
+ */
+export async function getDashboardStats(
+  organizationIds: number[] | null
+): Promise<DashboardStats> {
+  const now = new Date();
+  const tenant = tenantKey(organizationIds);
+
+  const [donors, openRequests, performance, expiringUnits] = await Promise.all([
+    cached(`${DASHBOARD_CACHE_PREFIX}:donors`, TTL.donors, donorStats),
+    cached(`${DASHBOARD_CACHE_PREFIX}:requests:${tenant}`, TTL.requests, () =>
+      openRequestStats(organizationIds)
+    ),
+    cached(
+      `${DASHBOARD_CACHE_PREFIX}:performance:${tenant}`,
+      TTL.performance,
+      () => performanceStats(organizationIds, now)
+    ),
+    cached(`${DASHBOARD_CACHE_PREFIX}:inventory:${tenant}`, TTL.inventory, () =>
+      expiringUnitStats(organizationIds, now)
+    ),
+  ]);
+
+  return {
+    donors,
+    openRequests,
+    performance,
+    expiringUnits,
+    generatedAt: now.toISOString(),
+  };
+}
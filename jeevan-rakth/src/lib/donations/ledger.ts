@@ -0,0 +1,315 @@
+/**
+ * Donation Ledger
+ *
+ * Every collection is recorded once, with its site, phlebotomist, screening
+ * results and any adverse reaction, and bags its inventory units in the same
+ * transaction. The ledger is the source of a donor's donation count; the
+ * donor's lastDonationAt/lastDonationComponent are kept in step with it
+ * because eligibility and donor search filter on them in SQL.
+ *
+ * A donation without a donation number is assigned the organization's
+ * next ISBT 128 donation identification number, shared by all its units.
+ *
+ * Units stay in QUARANTINE until all screening markers come back
+ * non-reactive. A reactive marker discards every unit from the donation
+ * that is still in stock.
+ */
+
+import type { Donation, DonorDeferral, Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import {
+  computeUnitExpiry,
+  IN_STOCK_STATUSES,
+} from "@/lib/inventory/lifecycle";
+import { nextDonationNumber } from "@/lib/isbt128/donationNumbers";
+import type {
+  DonationCreateInput,
+  DonationUpdateInput,
+} from "@/lib/schemas/donationSchema";
+
+export const SCREENING_MARKERS = [
+  "hivResult",
+  "hbvResult",
+  "hcvResult",
+  "syphilisResult",
+  "malariaResult",
+] as const;
+
+export type ScreeningStatus = "PENDING" | "CLEARED" | "REACTIVE";
+
+type Tx = Prisma.TransactionClient;
+
+/**
+ * Overall screening outcome: REACTIVE if any marker is, CLEARED once every
+ * marker is non-reactive, PENDING otherwise
+ */
+export function screeningStatus(
+  donation: Pick<Donation, (typeof SCREENING_MARKERS)[number]>
+): ScreeningStatus {
+  const results = SCREENING_MARKERS.map((marker) => donation[marker]);
+  if (results.includes("REACTIVE")) return "REACTIVE";
+  if (results.includes("PENDING")) return "PENDING";
+  return "CLEARED";
+}
+
+/**
+ * Resolve the camp a donation was collected at, checking that a given
+ * appointment is the donor's checked-in appointment at one of the
+ * organization's camps.
+ */
+async function resolveCollectionCamp(
+  tx: Tx,
+  input: Pick<
+    DonationCreateInput,
+    "campId" | "appointmentId" | "donorProfileId"
+  >,
+  organizationId: number
+): Promise<number | null> {
+  if (input.appointmentId) {
+    const appointment = await tx.campAppointment.findFirst({
+      where: {
+        id: input.appointmentId,
+        donorProfileId: input.donorProfileId,
+        status: "CHECKED_IN",
+        camp: { organizationId },
+      },
+      select: { campId: true },
+    });
+    if (!appointment || (input.campId && input.campId !== appointment.campId)) {
+      throw new Error("APPOINTMENT_NOT_FOUND");
+    }
+    return appointment.campId;
+  }
+
+  if (input.campId) {
+    const camp = await tx.donationCamp.findFirst({
+      where: { id: input.campId, organizationId },
+      select: { id: true },
+    });
+    if (!camp) throw new Error("CAMP_NOT_FOUND");
+    return camp.id;
+  }
+
+  return null;
+}
+
+/**
+ * Record a donation and register the units bagged from it.
+ *
+ * @throws Error("DONOR_PROFILE_NOT_FOUND") if the donor does not exist
+ * @throws Error("APPOINTMENT_NOT_FOUND") / Error("CAMP_NOT_FOUND") if the
+ * site does not belong to the organization or donor
+ * @throws Error("PHLEBOTOMIST_NOT_MEMBER") if the named phlebotomist is not
+ * a member of the organization
+ * @throws Error("FACILITY_CODE_REQUIRED") / Error("DONATION_NUMBERS_EXHAUSTED")
+ * if no donation number was given and none can be assigned
+ */
+export async function recordDonation(
+  input: Omit<DonationCreateInput, "organizationId"> & {
+    organizationId: number;
+    recordedById: number;
+  }
+) {
+  const { units, recordedById, organizationId, ...data } = input;
+
+  return prisma.$transaction(async (tx: Tx) => {
+    const donor = await tx.donorProfile.findUnique({
+      where: { id: data.donorProfileId },
+      select: { bloodGroup: true },
+    });
+    if (!donor) throw new Error("DONOR_PROFILE_NOT_FOUND");
+
+    const campId = await resolveCollectionCamp(tx, data, organizationId);
+
+    if (data.phlebotomistId) {
+      const member = await tx.organizationMember.findFirst({
+        where: { userId: data.phlebotomistId, organizationId },
+        select: { id: true },
+      });
+      if (!member) throw new Error("PHLEBOTOMIST_NOT_MEMBER");
+    }
+
+    const donationNumber =
+      data.donationNumber ?? (await nextDonationNumber(tx, organizationId));
+
+    const donation = await tx.donation.create({
+      data: {
+        ...data,
+        donationNumber,
+        campId,
+        organizationId,
+        phlebotomistId: data.phlebotomistId ?? recordedById,
+        units: {
+          create: units.map(({ expiresAt, ...unit }) => ({
+            ...unit,
+            donationNumber,
+            bloodGroup: donor.bloodGroup,
+            collectedAt: data.collectedAt,
+            expiresAt:
+              expiresAt ?? computeUnitExpiry(unit.component, data.collectedAt),
+            organizationId,
+          })),
+        },
+      },
+      include: { units: true },
+    });
+
+    // Only move the donor's last donation forward; a late entry for an
+    // older collection leaves it alone
+    await tx.donorProfile.updateMany({
+      where: {
+        id: data.donorProfileId,
+        OR: [
+          { lastDonationAt: null },
+          { lastDonationAt: { lte: data.collectedAt } },
+        ],
+      },
+      data: {
+        lastDonationAt: data.collectedAt,
+        lastDonationComponent: data.component,
+      },
+    });
+
+    return donation;
+  });
+}
+
+/**
+ * Fill in screening results or a reaction on a recorded donation.
+ *
+ * Returns null when the donation is not within `scope`. Once every marker
+ * has a result the screening date is stamped; a reactive marker discards
+ * the donation's units still in stock.
+ */
+export async function updateDonation(
+  id: number,
+  input: DonationUpdateInput,
+  scope: Prisma.DonationWhereInput
+) {
+  return prisma.$transaction(async (tx: Tx) => {
+    const existing = await tx.donation.findFirst({
+      where: { id, ...scope },
+      select: { id: true, screenedAt: true },
+    });
+    if (!existing) return null;
+
+    let donation = await tx.donation.update({
+      where: { id },
+      data: input,
+    });
+
+    const status = screeningStatus(donation);
+    if (status !== "PENDING" && !existing.screenedAt) {
+      donation = await tx.donation.update({
+        where: { id },
+        data: { screenedAt: new Date() },
+      });
+    }
+
+    let discardedUnits = 0;
+    if (status === "REACTIVE") {
+      const { count } = await tx.bloodUnit.updateMany({
+        where: { donationId: id, status: { in: IN_STOCK_STATUSES } },
+        data: {
+          status: "DISCARDED",
+          discardReason: "Reactive screening result",
+          discardedAt: new Date(),
+        },
+      });
+      discardedUnits = count;
+    }
+
+    const units = await tx.bloodUnit.findMany({
+      where: { donationId: id },
+      orderBy: { id: "asc" },
+    });
+
+    return {
+      ...donation,
+      screeningStatus: status,
+      units,
+      discardedUnits,
+    };
+  });
+}
+
+export type DonorTimelineEntry =
+  | {
+      type: "DONATION";
+      at: Date;
+      donation: {
+        id: number;
+        donationNumber: string;
+        component: Donation["component"];
+        volumeMl: number;
+        site: string;
+        camp: { id: number; name: string } | null;
+        phlebotomist: string | null;
+        screeningStatus: ScreeningStatus;
+        adverseReaction: Donation["adverseReaction"];
+      };
+    }
+  | { type: "DEFERRAL"; at: Date; deferral: DonorDeferral };
+
+/**
+ * A donor's history, newest first: every donation in the ledger and every
+ * deferral, with totals derived from the ledger.
+ *
+ * Per-marker screening results are left out; donors only see whether their
+ * donation cleared screening.
+ */
+export async function donorTimeline(donorProfileId: number) {
+  const [donations, deferrals, totals] = await Promise.all([
+    prisma.donation.findMany({
+      where: { donorProfileId },
+      orderBy: { collectedAt: "desc" },
+      include: {
+        organization: { select: { name: true } },
+        camp: { select: { id: true, name: true } },
+        phlebotomist: { select: { name: true } },
+      },
+    }),
+    prisma.donorDeferral.findMany({
+      where: { donorProfileId },
+      orderBy: { startsAt: "desc" },
+    }),
+    prisma.donation.aggregate({
+      where: { donorProfileId },
+      _count: true,
+      _sum: { volumeMl: true },
+      _max: { collectedAt: true },
+    }),
+  ]);
+
+  const entries: DonorTimelineEntry[] = [
+    ...donations.map((d) => ({
+      type: "DONATION" as const,
+      at: d.collectedAt,
+      donation: {
+        id: d.id,
+        donationNumber: d.donationNumber,
+        component: d.component,
+        volumeMl: d.volumeMl,
+        site: d.organization.name,
+        camp: d.camp,
+        phlebotomist: d.phlebotomist?.name ?? null,
+        screeningStatus: screeningStatus(d),
+        adverseReaction: d.adverseReaction,
+      },
+    })),
+    ...deferrals.map((deferral) => ({
+      type: "DEFERRAL" as const,
+      at: deferral.startsAt,
+      deferral,
+    })),
+  ].sort((a, b) => b.at.getTime() - a.at.getTime());
+
+  return {
+    stats: {
+      totalDonations: totals._count,
+      totalVolumeMl: totals._sum.volumeMl ?? 0,
+      lastDonationAt: totals._max.collectedAt,
+    },
+    entries,
+  };
+}
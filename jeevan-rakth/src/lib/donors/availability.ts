@@ -0,0 +1,73 @@
+/**
+ * Donor Availability
+ *
+ * A donor is reachable when their profile is marked available and no
+ * unavailability period ("travelling until the 30th") covers the current
+ * moment. Search, matching and alert fan-out all apply the same rule.
+ */
+
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import type { UnavailabilityCreateInput } from "@/lib/schemas/donorProfileSchema";
+
+/**
+ * Unavailability periods in effect at `now`
+ */
+export function activeUnavailability(
+  now: Date = new Date()
+): Prisma.DonorUnavailabilityWhereInput {
+  return { startsAt: { lte: now }, endsAt: { gt: now } };
+}
+
+/**
+ * Restrict a donor query to donors who can be asked to donate at `now`
+ */
+export function availableDonorFilter(
+  now: Date = new Date()
+): Prisma.DonorProfileWhereInput {
+  return {
+    isAvailable: true,
+    unavailability: { none: activeUnavailability(now) },
+  };
+}
+
+/**
+ * A donor's current and upcoming unavailability, soonest first
+ */
+export async function listUnavailability(userId: number) {
+  return prisma.donorUnavailability.findMany({
+    where: { donorProfile: { userId }, endsAt: { gt: new Date() } },
+    orderBy: { startsAt: "asc" },
+  });
+}
+
+/**
+ * @throws Error("DONOR_PROFILE_NOT_FOUND") if the user has no donor profile
+ */
+export async function addUnavailability(
+  userId: number,
+  input: UnavailabilityCreateInput
+) {
+  const profile = await prisma.donorProfile.findUnique({
+    where: { userId },
+    select: { id: true },
+  });
+  if (!profile) throw new Error("DONOR_PROFILE_NOT_FOUND");
+
+  return prisma.donorUnavailability.create({
+    data: { ...input, donorProfileId: profile.id },
+  });
+}
+
+/**
+ * Returns false when the period does not exist or belongs to another donor
+ */
+export async function removeUnavailability(
+  userId: number,
+  periodId: number
+): Promise<boolean> {
+  const { count } = await prisma.donorUnavailability.deleteMany({
+    where: { id: periodId, donorProfile: { userId } },
+  });
+  return count > 0;
+}
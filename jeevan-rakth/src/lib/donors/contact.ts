@@ -0,0 +1,215 @@
+/**
+ * Donor Contact Privacy
+ *
+ * Donor phone numbers, email addresses and street addresses are masked in
+ * every API response except the donor's own. A coordinator can reveal one
+ * donor's contact for one of their requests once the donor has pledged to
+ * it or consented to share their contact with it. Rare donors are only
+ * revealed once a platform admin approves contact for that request (see
+ * lib/donors/rareContact), pledge or not. Every reveal is written to an
+ * append-only audit trail that the donor can read.
+ */
+
+import type { ContactRevealBasis, Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+
+// Fields a reveal discloses; stored on each audit row
+export const REVEALED_FIELDS = ["phone", "email", "addressLine", "postalCode"];
+
+type Tx = Prisma.TransactionClient;
+
+type ContactFields = {
+  phone?: string;
+  email?: string;
+  addressLine?: string;
+  postalCode?: string;
+};
+
+const MASK = "•";
+
+export function maskPhone(phone: string): string {
+  const digits = phone.replace(/\D/g, "");
+  return `${MASK.repeat(Math.max(digits.length - 2, 4))}${digits.slice(-2)}`;
+}
+
+export function maskEmail(email: string): string {
+  const [local, domain] = email.split("@");
+  if (!domain) return MASK.repeat(6);
+  return `${local.slice(0, 1)}${MASK.repeat(3)}@${domain}`;
+}
+
+/**
+ * Mask whichever contact fields a record carries. City and state are left
+ * alone so coordinators can still judge distance.
+ */
+export function maskContact<T extends ContactFields>(record: T): T {
+  return {
+    ...record,
+    ...(record.phone !== undefined && { phone: maskPhone(record.phone) }),
+    ...(record.email !== undefined && { email: maskEmail(record.email) }),
+    ...(record.addressLine !== undefined && {
+      addressLine: MASK.repeat(6),
+    }),
+    ...(record.postalCode !== undefined && {
+      postalCode: `${record.postalCode.slice(0, 3)}${MASK.repeat(3)}`,
+    }),
+  };
+}
+
+/**
+ * Mask a record's contact fields unless `viewerId` (as returned by
+ * `getUserId`) is the donor themselves
+ */
+export function maskContactFor<T extends ContactFields>(
+  record: T,
+  ownerId: number,
+  viewerId: string | null
+): T {
+  return viewerId !== null && Number(viewerId) === ownerId
+    ? record
+    : maskContact(record);
+}
+
+/**
+ * Why the donor's contact may be shown for a request, or null if it may not.
+ * An accepted response (pledge) takes precedence over explicit consent.
+ */
+async function revealBasis(
+  tx: Tx,
+  donorProfileId: number,
+  bloodRequestId: number
+): Promise<ContactRevealBasis | null> {
+  const pledge = await tx.donorResponse.findFirst({
+    where: { donorProfileId, bloodRequestId, status: "ACCEPTED" },
+    select: { id: true },
+  });
+  if (pledge) return "PLEDGE";
+
+  const consent = await tx.contactConsent.findFirst({
+    where: { donorProfileId, bloodRequestId, revokedAt: null },
+    select: { id: true },
+  });
+  return consent ? "CONSENT" : null;
+}
+
+/**
+ * RARE_DONOR_APPROVAL when an admin approved contacting the rare donor for
+ * the request, otherwise null
+ */
+async function rareDonorBasis(
+  tx: Tx,
+  donorProfileId: number,
+  bloodRequestId: number
+): Promise<ContactRevealBasis | null> {
+  const approval = await tx.rareDonorContactApproval.findFirst({
+    where: { donorProfileId, bloodRequestId, status: "APPROVED" },
+    select: { id: true },
+  });
+  return approval ? "RARE_DONOR_APPROVAL" : null;
+}
+
+/**
+ * Disclose a donor's contact to a coordinator and record the disclosure.
+ *
+ * Returns null when the request is not within `scope`.
+ *
+ * @throws Error("DONOR_PROFILE_NOT_FOUND") if the donor does not exist
+ * @throws Error("CONTACT_NOT_SHARED") if the donor has neither pledged to
+ * nor consented to the request
+ * @throws Error("RARE_DONOR_APPROVAL_REQUIRED") if the donor is a rare
+ * donor and contact for the request has not been approved
+ */
+export async function revealContact(
+  bloodRequestId: number,
+  donorProfileId: number,
+  viewerId: number,
+  scope: Prisma.BloodRequestWhereInput
+) {
+  return prisma.$transaction(async (tx: Tx) => {
+    const request = await tx.bloodRequest.findFirst({
+      where: { id: bloodRequestId, ...scope },
+      select: { id: true },
+    });
+    if (!request) return null;
+
+    const donor = await tx.donorProfile.findUnique({
+      where: { id: donorProfileId },
+      select: {
+        phone: true,
+        addressLine: true,
+        city: true,
+        state: true,
+        postalCode: true,
+        rareDonor: true,
+        user: { select: { id: true, name: true, email: true } },
+      },
+    });
+    if (!donor) throw new Error("DONOR_PROFILE_NOT_FOUND");
+
+    const basis = donor.rareDonor
+      ? await rareDonorBasis(tx, donorProfileId, bloodRequestId)
+      : await revealBasis(tx, donorProfileId, bloodRequestId);
+    if (!basis) {
+      throw new Error(
+        donor.rareDonor ? "RARE_DONOR_APPROVAL_REQUIRED" : "CONTACT_NOT_SHARED"
+      );
+    }
+
+    const reveal = await tx.contactReveal.create({
+      data: {
+        basis,
+        fields: REVEALED_FIELDS,
+        revealedDonorId: donorProfileId,
+        donorProfileId,
+        viewerId,
+        bloodRequestId,
+      },
+      select: { id: true, createdAt: true },
+    });
+
+    const { user, phone, addressLine, city, state, postalCode } = donor;
+    return {
+      donorProfileId,
+      name: user.name,
+      email: user.email,
+      phone,
+      addressLine,
+      city,
+      state,
+      postalCode,
+      basis,
+      revealedAt: reveal.createdAt,
+    };
+  });
+}
+
+/**
+ * Grant or withdraw a donor's consent to share their contact with a
+ * request's coordinators. Withdrawing does not erase earlier reveals.
+ *
+ * @throws Error("BLOOD_REQUEST_NOT_FOUND") if the request does not exist
+ */
+export async function setContactConsent(
+  donorProfileId: number,
+  bloodRequestId: number,
+  granted: boolean
+) {
+  const request = await prisma.bloodRequest.findUnique({
+    where: { id: bloodRequestId },
+    select: { id: true },
+  });
+  if (!request) throw new Error("BLOOD_REQUEST_NOT_FOUND");
+
+  const revokedAt = granted ? null : new Date();
+  return prisma.contactConsent.upsert({
+    where: {
+      donorProfileId_bloodRequestId: { donorProfileId, bloodRequestId },
+    },
+    create: {
+      donorProfileId,
+      bloodRequestId,
+      revokedAt,
+    },
+    update: granted ? { grantedAt: new Date(), revokedAt } : { revokedAt },
+  });
+}
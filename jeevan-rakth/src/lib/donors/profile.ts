@@ -0,0 +1,50 @@
+import type { DonorProfile } from "@prisma/client";
+
+/**
+ * Convert a DonorProfile row into its API shape.
+ *
+ * Prisma returns `Decimal` objects for decimal columns, which serialize
+ * to strings; clients expect plain numbers. `totalDonations` is the count
+ * of the donor's donations in the ledger.
+ */
+export function serializeDonorProfile(
+  profile: DonorProfile & { _count: { donations: number } }
+) {
+  const { _count, ...rest } = profile;
+  return {
+    ...rest,
+    weightKg: Number(profile.weightKg),
+    haemoglobinGdl:
+      profile.haemoglobinGdl === null ? null : Number(profile.haemoglobinGdl),
+    totalDonations: _count.donations,
+  };
+}
+
+export type DonorProfileResponse = ReturnType<typeof serializeDonorProfile>;
+
+/**
+ * The part of a donor profile anyone signed in may see. Location stops at
+ * city and state: exact coordinates would give away the home address that
+ * contact masking hides. Health, phenotype and alert settings are left out
+ * (the phenotype route likewise limits them to the donor and admins/editors).
+ * Contact fields are included for `maskContactFor` to mask.
+ */
+export function publicDonorProfile(profile: DonorProfileResponse) {
+  return {
+    id: profile.id,
+    userId: profile.userId,
+    bloodGroup: profile.bloodGroup,
+    phone: profile.phone,
+    addressLine: profile.addressLine,
+    city: profile.city,
+    state: profile.state,
+    postalCode: profile.postalCode,
+    isAvailable: profile.isAvailable,
+    verificationStatus: profile.verificationStatus,
+    verifiedAt: profile.verifiedAt,
+    totalDonations: profile.totalDonations,
+    lastDonationAt: profile.lastDonationAt,
+    createdAt: profile.createdAt,
+    updatedAt: profile.updatedAt,
+  };
+}
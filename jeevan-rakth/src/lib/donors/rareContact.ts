@@ -0,0 +1,231 @@
+/**
+ * Rare Donor Contact Approval
+ *
+ * Rare donors (Bombay, Rh-null, negative for a high-frequency antigen, ...)
+ * are few and called on often, so coordinators cannot contact them on a
+ * pledge or consent alone. A coordinator asks to contact one rare donor for
+ * one of their requests, giving a reason, and a platform admin approves or
+ * rejects the ask. Once approved, the coordinator can reveal the donor's
+ * contact for that request (see lib/donors/contact); the asks and every
+ * reveal stay on record.
+ *
+ *   PENDING → APPROVED / REJECTED
+ *
+ * A rejected ask may be made again; a pending or approved one may not.
+ */
+
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { notify } from "@/lib/notifications";
+import type { Recipient } from "@/lib/notifications";
+import type { RareContactDecisionInput } from "@/lib/schemas/phenotypeSchema";
+
+type Tx = Prisma.TransactionClient;
+
+export const RARE_CONTACT_INCLUDE = {
+  donorProfile: {
+    select: {
+      id: true,
+      bloodGroup: true,
+      rarePhenotype: true,
+      city: true,
+      state: true,
+      user: { select: { name: true } },
+    },
+  },
+  bloodRequest: {
+    select: {
+      id: true,
+      patientName: true,
+      bloodGroup: true,
+      component: true,
+      urgency: true,
+      hospitalName: true,
+      requiredAntigenNegative: true,
+      organizationId: true,
+    },
+  },
+  requestedBy: { select: { id: true, name: true } },
+  decidedBy: { select: { id: true, name: true } },
+} satisfies Prisma.RareDonorContactApprovalInclude;
+
+type RareContact = Prisma.RareDonorContactApprovalGetPayload<{
+  include: typeof RARE_CONTACT_INCLUDE;
+}>;
+
+/**
+ * Ask to contact a rare donor for a request and tell the platform admins.
+ *
+ * Returns null when the request is not within `scope`.
+ *
+ * @throws Error("DONOR_PROFILE_NOT_FOUND") if the donor does not exist
+ * @throws Error("NOT_RARE_DONOR") if the donor is not a rare donor
+ * @throws Error("RARE_CONTACT_ALREADY_REQUESTED") if an ask for the same
+ * donor and request is pending or approved
+ */
+export async function requestRareDonorContact(
+  bloodRequestId: number,
+  donorProfileId: number,
+  reason: string,
+  requesterId: number,
+  scope: Prisma.BloodRequestWhereInput
+) {
+  // SERIALIZABLE so two coordinators cannot both open an ask
+  const approval = await prisma.$transaction(
+    async (tx: Tx) => {
+      const request = await tx.bloodRequest.findFirst({
+        where: { id: bloodRequestId, ...scope },
+        select: { id: true },
+      });
+      if (!request) return null;
+
+      const donor = await tx.donorProfile.findUnique({
+        where: { id: donorProfileId },
+        select: { rareDonor: true },
+      });
+      if (!donor) throw new Error("DONOR_PROFILE_NOT_FOUND");
+      if (!donor.rareDonor) throw new Error("NOT_RARE_DONOR");
+
+      const open = await tx.rareDonorContactApproval.findFirst({
+        where: {
+          donorProfileId,
+          bloodRequestId,
+          status: { in: ["PENDING", "APPROVED"] },
+        },
+        select: { id: true },
+      });
+      if (open) throw new Error("RARE_CONTACT_ALREADY_REQUESTED");
+
+      return tx.rareDonorContactApproval.create({
+        data: {
+          reason,
+          donorProfileId,
+          bloodRequestId,
+          requestedById: requesterId,
+        },
+        include: RARE_CONTACT_INCLUDE,
+      });
+    },
+    { isolationLevel: Prisma.TransactionIsolationLevel.Serializable }
+  );
+
+  if (approval) {
+    notifyAdmins(approval).catch((error) => {
+      console.error("Rare donor contact notice failed", approval.id, error);
+    });
+  }
+  return approval;
+}
+
+async function notifyAdmins(approval: RareContact) {
+  const admins = await prisma.user.findMany({
+    where: { role: "admin", id: { not: approval.requestedById } },
+    select: {
+      id: true,
+      name: true,
+      email: true,
+      donorProfile: { select: { phone: true } },
+    },
+  });
+  const recipients: Recipient[] = admins.map((admin) => ({
+    userId: admin.id,
+    name: admin.name,
+    email: admin.email,
+    phone: admin.donorProfile?.phone,
+  }));
+
+  const { donorProfile, bloodRequest } = approval;
+  await Promise.all(
+    recipients.map((recipient) =>
+      notify(
+        recipient,
+        {
+          title: "Rare donor contact awaiting approval",
+          body: `${approval.requestedBy.name} asks to contact rare donor #${donorProfile.id}${donorProfile.rarePhenotype ? ` (${donorProfile.rarePhenotype})` : ""} for ${bloodRequest.patientName} at ${bloodRequest.hospitalName}: ${approval.reason}`,
+        },
+        { channels: ["IN_APP", "EMAIL"] }
+      )
+    )
+  );
+}
+
+/**
+ * Record an admin's decision on a pending ask and tell the coordinator who
+ * made it.
+ *
+ * @throws Error("RARE_CONTACT_NOT_FOUND") if the ask does not exist
+ * @throws Error("SELF_APPROVAL") if the admin made the ask themselves
+ * @throws Error("RARE_CONTACT_ALREADY_DECIDED") if the ask is no longer
+ * pending, including when another admin decided first
+ */
+export async function decideRareDonorContact(
+  id: number,
+  input: RareContactDecisionInput,
+  deciderId: number
+) {
+  const approval = await prisma.$transaction(async (tx: Tx) => {
+    const existing = await tx.rareDonorContactApproval.findUnique({
+      where: { id },
+      select: { requestedById: true },
+    });
+    if (!existing) throw new Error("RARE_CONTACT_NOT_FOUND");
+    if (existing.requestedById === deciderId) {
+      throw new Error("SELF_APPROVAL");
+    }
+
+    // Conditional so two admins cannot both decide the same ask
+    const { count } = await tx.rareDonorContactApproval.updateMany({
+      where: { id, status: "PENDING" },
+      data: {
+        status: input.decision === "APPROVE" ? "APPROVED" : "REJECTED",
+        decisionNote: input.note,
+        decidedAt: new Date(),
+        decidedById: deciderId,
+      },
+    });
+    if (count === 0) throw new Error("RARE_CONTACT_ALREADY_DECIDED");
+
+    return tx.rareDonorContactApproval.findUniqueOrThrow({
+      where: { id },
+      include: {
+        ...RARE_CONTACT_INCLUDE,
+        requestedBy: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+            donorProfile: { select: { phone: true } },
+          },
+        },
+      },
+    });
+  });
+
+  const { requestedBy, ...record } = approval;
+  const approved = approval.status === "APPROVED";
+  await notify(
+    {
+      userId: requestedBy.id,
+      name: requestedBy.name,
+      email: requestedBy.email,
+      phone: requestedBy.donorProfile?.phone,
+    },
+    {
+      title: approved
+        ? "Rare donor contact approved"
+        : "Rare donor contact not approved",
+      body:
+        `Your ask to contact rare donor #${approval.donorProfileId} for ${approval.bloodRequest.patientName} was ${approved ? "approved" : "rejected"}.` +
+        (input.note ? ` ${input.note}` : ""),
+      link: `/blood-requests/${approval.bloodRequestId}`,
+    },
+    { channels: ["IN_APP", "EMAIL"] }
+  ).catch((error) => {
+    console.error("Rare donor contact decision notice failed", id, error);
+  });
+
+  return {
+    ...record,
+    requestedBy: { id: requestedBy.id, name: requestedBy.name },
+  };
+}
@@ -0,0 +1,241 @@
+/**
+ * Geospatial Donor Search
+ *
+ * Finds available donors within a radius of a point using the haversine
+ * formula in PostgreSQL. A latitude/longitude bounding box is applied first
+ * so the (isAvailable, latitude, longitude) index can narrow the scan before
+ * exact distances are computed.
+ *
+ * Donors who marked themselves unavailable, or are inside one of their
+ * unavailability periods, are never returned.
+ *
+ * Searches for patients with alloantibodies can require donors typed
+ * negative for given antigens. Rare donors are listed and tagged, but
+ * routine alerts leave them out: contacting them takes an admin's approval
+ * (see lib/donors/rareContact).
+ *
+ * Donors who are not currently eligible to give the requested component
+ * (recent donation, active deferral, age/weight limits) are filtered out in
+ * application code by the eligibility engine, so pagination happens after
+ * that filter over a bounded set of nearest candidates.
+ */
+
+import { Prisma, type BloodAntigen, type BloodComponent } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import redis from "@/lib/redis";
+import { BLOOD_GROUPS, type BloodGroupCode } from "@/lib/bloodGroups";
+import {
+  compatibleDonorGroups,
+  type MatchType,
+} from "@/lib/matching/compatibility";
+import {
+  evaluateDonors,
+  type EligibilityProfile,
+} from "@/lib/eligibility/donors";
+
+const EARTH_RADIUS_KM = 6371;
+const KM_PER_DEGREE_LAT = 111.045;
+
+export const DONOR_SEARCH_CACHE_PREFIX = "donors:search";
+
+// Upper bound on nearest donors considered before eligibility filtering
+const MAX_SEARCH_CANDIDATES = 500;
+
+export type DonorSearchParams = {
+  lat: number;
+  lng: number;
+  radiusKm: number;
+  bloodGroup?: BloodGroupCode;
+  component: BloodComponent;
+  /** Only donors of exactly `bloodGroup`, not compatible ones */
+  exactMatchOnly?: boolean;
+  /** Only donors whose identity and blood group have been verified */
+  verifiedOnly?: boolean;
+  /** Only donors typed negative for every one of these antigens */
+  antigenNegative?: BloodAntigen[];
+  /** Only donors in the rare donor registry */
+  rareOnly?: boolean;
+  /** Leave out rare donors, e.g. when alerting without approval */
+  excludeRareDonors?: boolean;
+  page: number;
+  limit: number;
+};
+
+export type NearbyDonor = {
+  donorProfileId: number;
+  userId: number;
+  name: string;
+  bloodGroup: BloodGroupCode;
+  city: string;
+  lastDonationAt: Date | null;
+  distanceKm: number;
+  matchType: MatchType | null;
+  rareDonor: boolean;
+};
+
+type NearbyDonorRow = Omit<NearbyDonor, "matchType"> &
+  Omit<EligibilityProfile, "id">;
+
+function boundingBoxFilter(lat: number, lng: number, radiusKm: number) {
+  const dLat = radiusKm / KM_PER_DEGREE_LAT;
+  const filters = [
+    Prisma.sql`d."latitude" BETWEEN ${lat - dLat} AND ${lat + dLat}`,
+  ];
+
+  // Longitude degrees shrink towards the poles; skip the longitude bound
+  // near the poles or where the box would wrap the antimeridian.
+  const cosLat = Math.cos((lat * Math.PI) / 180);
+  if (cosLat > 0.01) {
+    const dLng = radiusKm / (KM_PER_DEGREE_LAT * cosLat);
+    if (lng - dLng >= -180 && lng + dLng <= 180) {
+      filters.push(
+        Prisma.sql`d."longitude" BETWEEN ${lng - dLng} AND ${lng + dLng}`
+      );
+    }
+  }
+
+  return Prisma.join(filters, " AND ");
+}
+
+/**
+ * Search available donors around a point.
+ *
+ * When a recipient blood group is given, only compatible donor groups are
+ * returned and each result is tagged EXACT or COMPATIBLE. Results are sorted
+ * by distance, then by last donation (donors who gave longest ago first).
+ * Only donors eligible to give `component` today are included.
+ */
+export async function searchDonorsNearby(
+  params: DonorSearchParams
+): Promise<{ donors: NearbyDonor[]; total: number }> {
+  const { lat, lng, radiusKm, bloodGroup, component, page, limit } = params;
+
+  const groups = bloodGroup
+    ? params.exactMatchOnly
+      ? [bloodGroup]
+      : compatibleDonorGroups(bloodGroup, component)
+    : [...BLOOD_GROUPS];
+
+  if (groups.length === 0) return { donors: [], total: 0 };
+
+  const originLat = Prisma.sql`${lat}::double precision`;
+  const originLng = Prisma.sql`${lng}::double precision`;
+  const distance = Prisma.sql`${EARTH_RADIUS_KM}::double precision * 2 * ASIN(LEAST(1, SQRT(
+      POWER(SIN(RADIANS(d."latitude" - ${originLat}) / 2), 2) +
+      COS(RADIANS(${originLat})) * COS(RADIANS(d."latitude")) *
+      POWER(SIN(RADIANS(d."longitude" - ${originLng}) / 2), 2)
+    )))`;
+
+  const nearby = Prisma.sql`
+    SELECT
+      d."id" AS "donorProfileId",
+      d."userId",
+      u."name",
+      d."bloodGroup"::text AS "bloodGroup",
+      d."city",
+      d."lastDonationAt",
+      d."lastDonationComponent"::text AS "lastDonationComponent",
+      d."dateOfBirth",
+      d."weightKg",
+      d."haemoglobinGdl",
+      d."rareDonor",
+      ${distance} AS "distanceKm"
+    FROM "DonorProfile" d
+    JOIN "User" u ON u."id" = d."userId"
+    WHERE d."isAvailable" = true
+      AND d."latitude" IS NOT NULL
+      AND d."longitude" IS NOT NULL
+      AND NOT EXISTS (
+        SELECT 1 FROM "DonorUnavailability" a
+        WHERE a."donorProfileId" = d."id"
+          AND a."startsAt" <= NOW()
+          AND a."endsAt" > NOW()
+      )
+      AND d."bloodGroup"::text IN (${Prisma.join(groups)})
+      ${params.verifiedOnly ? Prisma.sql`AND d."verificationStatus" = 'VERIFIED'` : Prisma.empty}
+      ${
+        params.antigenNegative?.length
+          ? Prisma.sql`AND d."antigensNegative" @> ARRAY[${Prisma.join(params.antigenNegative)}]::"BloodAntigen"[]`
+          : Prisma.empty
+      }
+      ${params.rareOnly ? Prisma.sql`AND d."rareDonor" = true` : Prisma.empty}
+      ${params.excludeRareDonors ? Prisma.sql`AND d."rareDonor" = false` : Prisma.empty}
+      AND ${boundingBoxFilter(lat, lng, radiusKm)}
+  `;
+
+  const rows = await prisma.$queryRaw<NearbyDonorRow[]>`
+    SELECT * FROM (${nearby}) AS nearby
+    WHERE "distanceKm" <= ${radiusKm}::double precision
+    ORDER BY "distanceKm" ASC, "lastDonationAt" ASC NULLS FIRST
+    LIMIT ${MAX_SEARCH_CANDIDATES}
+  `;
+
+  const verdicts = await evaluateDonors(
+    rows.map((row) => ({ ...row, id: row.donorProfileId })),
+    component
+  );
+  const eligible = rows.filter(
+    (row) => verdicts.get(row.donorProfileId)?.eligible
+  );
+
+  const donors = eligible
+    .slice((page - 1) * limit, page * limit)
+    .map((row) => ({
+      donorProfileId: row.donorProfileId,
+      userId: row.userId,
+      name: row.name,
+      bloodGroup: row.bloodGroup,
+      city: row.city,
+      lastDonationAt: row.lastDonationAt,
+      distanceKm: Math.round(Number(row.distanceKm) * 100) / 100,
+      matchType: bloodGroup
+        ? row.bloodGroup === bloodGroup
+          ? ("EXACT" as const)
+          : ("COMPATIBLE" as const)
+        : null,
+      rareDonor: row.rareDonor,
+    }));
+
+  return { donors, total: eligible.length };
+}
+
+/**
+ * Cache key for a search. Coordinates are rounded to ~100 m so nearby
+ * searches from the same facility share an entry.
+ */
+export function donorSearchCacheKey(params: DonorSearchParams): string {
+  const { lat, lng, radiusKm, bloodGroup, component, page, limit } = params;
+  return [
+    DONOR_SEARCH_CACHE_PREFIX,
+    lat.toFixed(3),
+    lng.toFixed(3),
+    radiusKm,
+    bloodGroup ?? "ANY",
+    component,
+    params.verifiedOnly ? "VERIFIED" : "ALL",
+    params.antigenNegative?.length
+      ? [...params.antigenNegative].sort().join(",")
+      : "ANY",
+    params.rareOnly ? "RARE" : params.excludeRareDonors ? "COMMON" : "ALL",
+    page,
+    limit,
+  ].join(":");
+}
+
+/**
+ * Drop every cached search result (best-effort).
+ *
+ * Called whenever a donor's availability, location, blood group or
+ * eligibility changes, since any cached page could include or omit that donor.
+ */
+export async function invalidateDonorSearchCache(): Promise<void> {
+  try {
+    const keys = await redis.keys(`${DONOR_SEARCH_CACHE_PREFIX}:*`);
+    if (keys.length) {
+      await redis.del(...keys);
+      console.log("Invalidated donor search cache", keys.length);
+    }
+  } catch (err) {
+    console.warn("Redis DEL failed", err);
+  }
+}
@@ -0,0 +1,227 @@
+/**
+ * Donor Verification
+ *
+ * A donor proves who they are and their blood group by submitting an ID and
+ * a blood-grouping lab report. Verifiers work through the queue of pending
+ * submissions and approve, reject or ask for more information, always with
+ * a reason; every decision is kept with its reviewer and time.
+ *
+ *   UNVERIFIED → PENDING → VERIFIED
+ *                  │  ↑
+ *                  ↓  │ (resubmit)
+ *        INFO_REQUESTED / REJECTED
+ *
+ * Urgent and critical requests only reach verified donors. Changing a
+ * verified blood group sends the donor back to UNVERIFIED.
+ */
+
+import type {
+  BloodGroup,
+  DonorVerificationStatus,
+  Prisma,
+  UrgencyLevel,
+  VerificationDecision,
+  VerificationDocumentType,
+} from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { notify } from "@/lib/notifications";
+import type {
+  VerificationReviewInput,
+  VerificationSubmitInput,
+} from "@/lib/schemas/verificationSchema";
+
+export const REQUIRED_DOCUMENTS: VerificationDocumentType[] = [
+  "ID_PROOF",
+  "BLOOD_GROUP_REPORT",
+];
+
+// Requests at these urgencies are only matched with verified donors
+const VERIFIED_ONLY_URGENCIES: UrgencyLevel[] = ["URGENT", "CRITICAL"];
+
+const DECISIONS: Record<
+  VerificationReviewInput["decision"],
+  { decision: VerificationDecision; status: DonorVerificationStatus }
+> = {
+  APPROVE: { decision: "APPROVED", status: "VERIFIED" },
+  REJECT: { decision: "REJECTED", status: "REJECTED" },
+  REQUEST_INFO: { decision: "INFO_REQUESTED", status: "INFO_REQUESTED" },
+};
+
+type Tx = Prisma.TransactionClient;
+
+export function requiresVerifiedDonors(urgency: UrgencyLevel): boolean {
+  return VERIFIED_ONLY_URGENCIES.includes(urgency);
+}
+
+/**
+ * Profile fields to reset when a donor's blood group changes, since the
+ * verified group no longer matches the lab report
+ */
+export function verificationResetFor(
+  current: {
+    bloodGroup: BloodGroup;
+    verificationStatus: DonorVerificationStatus;
+  },
+  nextBloodGroup: BloodGroup | undefined
+): Prisma.DonorProfileUpdateInput {
+  if (
+    !nextBloodGroup ||
+    nextBloodGroup === current.bloodGroup ||
+    current.verificationStatus === "UNVERIFIED"
+  ) {
+    return {};
+  }
+  return {
+    verificationStatus: "UNVERIFIED",
+    verificationSubmittedAt: null,
+    verifiedAt: null,
+  };
+}
+
+/**
+ * Attach uploaded documents to a donor and put them in the review queue.
+ *
+ * Files must have been uploaded by the donor or by `actorId` and not be
+ * attached to another submission. Together with earlier documents, every
+ * required document type must be present.
+ *
+ * @throws Error("DONOR_PROFILE_NOT_FOUND") if the user has no donor profile
+ * @throws Error("ALREADY_VERIFIED") if the donor is already verified
+ * @throws Error("FILE_NOT_FOUND") if a file is missing, someone else's or
+ * already attached
+ * @throws Error("MISSING_DOCUMENTS") if a required document type is missing
+ */
+export async function submitVerification(
+  userId: number,
+  actorId: number,
+  input: VerificationSubmitInput
+) {
+  return prisma.$transaction(async (tx: Tx) => {
+    const profile = await tx.donorProfile.findUnique({
+      where: { userId },
+      select: { id: true, verificationStatus: true },
+    });
+    if (!profile) throw new Error("DONOR_PROFILE_NOT_FOUND");
+    if (profile.verificationStatus === "VERIFIED") {
+      throw new Error("ALREADY_VERIFIED");
+    }
+
+    const fileIds = [...new Set(input.documents.map((d) => d.fileId))];
+    const files = await tx.file.count({
+      where: {
+        id: { in: fileIds },
+        uploaderId: { in: [userId, actorId] },
+        verificationDocument: { is: null },
+      },
+    });
+    if (files !== fileIds.length || fileIds.length !== input.documents.length) {
+      throw new Error("FILE_NOT_FOUND");
+    }
+
+    await tx.verificationDocument.createMany({
+      data: input.documents.map((d) => ({
+        ...d,
+        donorProfileId: profile.id,
+      })),
+    });
+
+    const documents = await tx.verificationDocument.findMany({
+      where: { donorProfileId: profile.id },
+      orderBy: { createdAt: "asc" },
+      include: {
+        file: { select: { id: true, name: true, mimeType: true, url: true } },
+      },
+    });
+    const present = new Set(documents.map((d) => d.type));
+    if (REQUIRED_DOCUMENTS.some((type) => !present.has(type))) {
+      throw new Error("MISSING_DOCUMENTS");
+    }
+
+    const updated = await tx.donorProfile.update({
+      where: { id: profile.id },
+      data: {
+        verificationStatus: "PENDING",
+        verificationSubmittedAt: new Date(),
+      },
+      select: {
+        verificationStatus: true,
+        verificationSubmittedAt: true,
+        verifiedAt: true,
+      },
+    });
+
+    return { ...updated, documents };
+  });
+}
+
+/**
+ * Record a verifier's decision on a pending submission and tell the donor.
+ *
+ * @throws Error("DONOR_PROFILE_NOT_FOUND") if the donor does not exist
+ * @throws Error("SELF_REVIEW") if the reviewer is the donor
+ * @throws Error("VERIFICATION_NOT_PENDING") if there is no pending
+ * submission, including when another verifier decided first
+ */
+export async function reviewVerification(
+  donorProfileId: number,
+  reviewerId: number,
+  input: VerificationReviewInput
+) {
+  const { decision, status } = DECISIONS[input.decision];
+
+  const review = await prisma.$transaction(async (tx: Tx) => {
+    const profile = await tx.donorProfile.findUnique({
+      where: { id: donorProfileId },
+      select: { userId: true },
+    });
+    if (!profile) throw new Error("DONOR_PROFILE_NOT_FOUND");
+    if (profile.userId === reviewerId) throw new Error("SELF_REVIEW");
+
+    // Conditional so two verifiers cannot both decide the same submission
+    const { count } = await tx.donorProfile.updateMany({
+      where: { id: donorProfileId, verificationStatus: "PENDING" },
+      data: {
+        verificationStatus: status,
+        verifiedAt: status === "VERIFIED" ? new Date() : null,
+      },
+    });
+    if (count === 0) throw new Error("VERIFICATION_NOT_PENDING");
+
+    return tx.donorVerificationReview.create({
+      data: { decision, reason: input.reason, donorProfileId, reviewerId },
+      include: {
+        donorProfile: {
+          select: {
+            phone: true,
+            user: { select: { id: true, name: true, email: true } },
+          },
+        },
+      },
+    });
+  });
+
+  const { donorProfile, ...record } = review;
+  await notify(
+    {
+      userId: donorProfile.user.id,
+      name: donorProfile.user.name,
+      email: donorProfile.user.email,
+      phone: donorProfile.phone,
+    },
+    {
+      title:
+        decision === "APPROVED"
+          ? "You're a verified donor"
+          : decision === "REJECTED"
+            ? "Your donor verification was not approved"
+            : "More information needed for your donor verification",
+      body: input.reason,
+      link: `/users/${donorProfile.user.id}`,
+    },
+    { channels: ["IN_APP", "EMAIL"] }
+  ).catch((error) => {
+    console.error("Verification decision notice failed", error);
+  });
+
+  return { ...record, verificationStatus: status };
+}
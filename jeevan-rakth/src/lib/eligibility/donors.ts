@@ -0,0 +1,101 @@
+/**
+ * Eligibility for stored donors
+ *
+ * Bridges DonorProfile rows and the pure eligibility engine: loads the
+ * deferrals that are currently in force and evaluates many donors at once
+ * so search and matching can drop anyone who cannot donate.
+ */
+
+import type { BloodComponent, Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import {
+  evaluateEligibility,
+  type DeferralInput,
+  type EligibilityVerdict,
+} from "@/lib/eligibility/engine";
+
+export type EligibilityProfile = {
+  id: number;
+  dateOfBirth: Date;
+  weightKg: Prisma.Decimal | number;
+  haemoglobinGdl: Prisma.Decimal | number | null;
+  lastDonationAt: Date | null;
+  lastDonationComponent: BloodComponent | null;
+};
+
+/** Columns needed by evaluateDonors, for use in Prisma `select` clauses */
+export const eligibilityProfileSelect = {
+  id: true,
+  dateOfBirth: true,
+  weightKg: true,
+  haemoglobinGdl: true,
+  lastDonationAt: true,
+  lastDonationComponent: true,
+} as const;
+
+/**
+ * Deferrals that have not been lifted or expired, grouped by donor profile.
+ */
+export async function loadActiveDeferrals(
+  donorProfileIds: number[],
+  now: Date = new Date()
+): Promise<Map<number, DeferralInput[]>> {
+  const byProfile = new Map<number, DeferralInput[]>();
+  if (donorProfileIds.length === 0) return byProfile;
+
+  const deferrals = await prisma.donorDeferral.findMany({
+    where: {
+      donorProfileId: { in: donorProfileIds },
+      liftedAt: null,
+      startsAt: { lte: now },
+      OR: [
+        { type: "PERMANENT" },
+        { expiresAt: null },
+        { expiresAt: { gt: now } },
+      ],
+    },
+  });
+
+  for (const deferral of deferrals) {
+    const list = byProfile.get(deferral.donorProfileId) ?? [];
+    list.push(deferral);
+    byProfile.set(deferral.donorProfileId, list);
+  }
+  return byProfile;
+}
+
+/**
+ * Evaluate a batch of donor profiles for one component.
+ * Returns verdicts keyed by donor profile id.
+ */
+export async function evaluateDonors(
+  profiles: EligibilityProfile[],
+  component: BloodComponent,
+  now: Date = new Date()
+): Promise<Map<number, EligibilityVerdict>> {
+  const deferrals = await loadActiveDeferrals(
+    profiles.map((profile) => profile.id),
+    now
+  );
+
+  return new Map(
+    profiles.map((profile) => [
+      profile.id,
+      evaluateEligibility(
+        {
+          dateOfBirth: profile.dateOfBirth,
+          weightKg: Number(profile.weightKg),
+          haemoglobinGdl:
+            profile.haemoglobinGdl === null
+              ? null
+              : Number(profile.haemoglobinGdl),
+          lastDonationAt: profile.lastDonationAt,
+          lastDonationComponent: profile.lastDonationComponent,
+          deferrals: deferrals.get(profile.id) ?? [],
+        },
+        component,
+        { now }
+      ),
+    ])
+  );
+}
@@ -0,0 +1,174 @@
+/**
+ * Donation Eligibility Engine
+ *
+ * Pure rules evaluation: given a donor's vitals, donation history and
+ * deferrals, decide whether they may donate a component right now. The
+ * verdict lists every failing rule (not just the first) so coordinators can
+ * see the full picture, plus the earliest date the donor becomes eligible
+ * again when that can be known.
+ */
+
+import type {
+  BloodComponent,
+  DeferralReason,
+  DeferralType,
+} from "@prisma/client";
+import { eligibilityRules, type EligibilityRules } from "@/config/eligibility";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type EligibilityReasonCode =
+  | "UNDER_AGE"
+  | "OVER_AGE"
+  | "UNDERWEIGHT"
+  | "LOW_HAEMOGLOBIN"
+  | "DONATION_INTERVAL"
+  | "TEMPORARY_DEFERRAL"
+  | "PERMANENT_DEFERRAL";
+
+export type EligibilityReason = {
+  code: EligibilityReasonCode;
+  message: string;
+  /** When this reason stops applying; null if it never lapses on its own */
+  until: Date | null;
+};
+
+export type EligibilityVerdict = {
+  eligible: boolean;
+  component: BloodComponent;
+  reasons: EligibilityReason[];
+  /** Now when eligible; null when the donor cannot become eligible by waiting */
+  nextEligibleAt: Date | null;
+};
+
+export type DeferralInput = {
+  type: DeferralType;
+  reasonCode: DeferralReason;
+  startsAt: Date;
+  expiresAt: Date | null;
+  liftedAt?: Date | null;
+};
+
+export type DonorEligibilityInput = {
+  dateOfBirth: Date;
+  weightKg: number;
+  /** Last measured haemoglobin; skipped when unknown (tested on site) */
+  haemoglobinGdl?: number | null;
+  lastDonationAt?: Date | null;
+  lastDonationComponent?: BloodComponent | null;
+  deferrals?: DeferralInput[];
+};
+
+function addYears(date: Date, years: number): Date {
+  const result = new Date(date);
+  result.setFullYear(result.getFullYear() + years);
+  return result;
+}
+
+function ageInYears(dateOfBirth: Date, now: Date): number {
+  let age = now.getFullYear() - dateOfBirth.getFullYear();
+  if (addYears(dateOfBirth, age) > now) age -= 1;
+  return age;
+}
+
+/**
+ * A deferral is active if it has started, has not been lifted and (for
+ * temporary deferrals) has not yet expired.
+ */
+export function isDeferralActive(deferral: DeferralInput, now: Date): boolean {
+  if (deferral.liftedAt && deferral.liftedAt <= now) return false;
+  if (deferral.startsAt > now) return false;
+  if (deferral.type === "PERMANENT") return true;
+  return deferral.expiresAt === null || deferral.expiresAt > now;
+}
+
+/**
+ * Evaluate whether a donor may donate `component` at `now`.
+ */
+export function evaluateEligibility(
+  donor: DonorEligibilityInput,
+  component: BloodComponent,
+  options: { now?: Date; rules?: EligibilityRules } = {}
+): EligibilityVerdict {
+  const now = options.now ?? new Date();
+  const rules = options.rules ?? eligibilityRules;
+  const reasons: EligibilityReason[] = [];
+
+  const age = ageInYears(donor.dateOfBirth, now);
+  if (age < rules.minAgeYears) {
+    reasons.push({
+      code: "UNDER_AGE",
+      message: `Donors must be at least ${rules.minAgeYears} years old`,
+      until: addYears(donor.dateOfBirth, rules.minAgeYears),
+    });
+  } else if (age > rules.maxAgeYears) {
+    reasons.push({
+      code: "OVER_AGE",
+      message: `Donors must be at most ${rules.maxAgeYears} years old`,
+      until: null,
+    });
+  }
+
+  const minWeight = rules.minWeightKg[component];
+  if (donor.weightKg < minWeight) {
+    reasons.push({
+      code: "UNDERWEIGHT",
+      message: `A minimum weight of ${minWeight} kg is required`,
+      until: null,
+    });
+  }
+
+  const minHaemoglobin = rules.minHaemoglobinGdl[component];
+  if (
+    donor.haemoglobinGdl !== null &&
+    donor.haemoglobinGdl !== undefined &&
+    donor.haemoglobinGdl < minHaemoglobin
+  ) {
+    reasons.push({
+      code: "LOW_HAEMOGLOBIN",
+      message: `Haemoglobin must be at least ${minHaemoglobin} g/dL`,
+      until: null,
+    });
+  }
+
+  if (donor.lastDonationAt) {
+    // Without a recorded component assume the most restrictive interval
+    const intervalDays = donor.lastDonationComponent
+      ? rules.minIntervalDays[donor.lastDonationComponent]
+      : Math.max(...Object.values(rules.minIntervalDays));
+    const restUntil = new Date(
+      donor.lastDonationAt.getTime() + intervalDays * DAY_MS
+    );
+    if (restUntil > now) {
+      reasons.push({
+        code: "DONATION_INTERVAL",
+        message: `At least ${intervalDays} days must pass after the last donation`,
+        until: restUntil,
+      });
+    }
+  }
+
+  for (const deferral of donor.deferrals ?? []) {
+    if (!isDeferralActive(deferral, now)) continue;
+    const permanent = deferral.type === "PERMANENT";
+    reasons.push({
+      code: permanent ? "PERMANENT_DEFERRAL" : "TEMPORARY_DEFERRAL",
+      message: `Deferred (${deferral.reasonCode})`,
+      until: permanent ? null : deferral.expiresAt,
+    });
+  }
+
+  if (reasons.length === 0) {
+    return { eligible: true, component, reasons, nextEligibleAt: now };
+  }
+
+  // The donor is eligible once the last time-bound reason lapses; any
+  // open-ended reason means waiting alone will not help.
+  const nextEligibleAt = reasons.some((reason) => reason.until === null)
+    ? null
+    : new Date(
+        Math.max(...reasons.map((reason) => (reason.until as Date).getTime()))
+      );
+
+  return { eligible: false, component, reasons, nextEligibleAt };
+}
@@ -0,0 +1,183 @@
+/**
+ * Look-back Investigations
+ *
+ * Every reported transfusion reaction opens a look-back on the donation
+ * behind the unit, owned by the blood bank that collected it:
+ *
+ *   OPEN → IN_PROGRESS → CLOSED
+ *     │                    ↑
+ *     └────────────────────┘
+ *
+ * While any look-back on a donation is open its units cannot leave
+ * QUARANTINE. Closing with DONOR_IMPLICATED discards the donation's units
+ * still in stock and permanently defers the donor; any other conclusion
+ * lifts the hold and leaves release to the bank.
+ */
+
+import { Prisma, type LookbackStatus } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { IN_STOCK_STATUSES } from "@/lib/inventory/lifecycle";
+import type { LookbackTransitionInput } from "@/lib/schemas/transfusionReactionSchema";
+
+type Tx = Prisma.TransactionClient;
+
+export const LOOKBACK_TRANSITIONS: Record<LookbackStatus, LookbackStatus[]> = {
+  OPEN: ["IN_PROGRESS", "CLOSED"],
+  IN_PROGRESS: ["CLOSED"],
+  CLOSED: [],
+};
+
+/** Statuses in which a look-back holds its donation's units */
+export const ACTIVE_LOOKBACK_STATUSES: LookbackStatus[] = [
+  "OPEN",
+  "IN_PROGRESS",
+];
+
+export const IMPLICATED_DISCARD_REASON =
+  "Look-back: donor implicated in a transfusion reaction";
+
+export const LOOKBACK_INCLUDE = {
+  organization: { select: { id: true, name: true } },
+  investigator: { select: { id: true, name: true } },
+  closedBy: { select: { id: true, name: true } },
+  reaction: {
+    select: {
+      id: true,
+      type: true,
+      severity: true,
+      outcome: true,
+      imputability: true,
+      onsetAt: true,
+      description: true,
+      donationId: true,
+      donorProfileId: true,
+      organization: { select: { id: true, name: true } },
+      bloodUnit: {
+        select: { id: true, component: true, bloodGroup: true },
+      },
+    },
+  },
+} satisfies Prisma.LookbackInvestigationInclude;
+
+/**
+ * Check whether a look-back investigation may move between two statuses
+ */
+export function canTransitionLookback(
+  from: LookbackStatus,
+  to: LookbackStatus
+): boolean {
+  return LOOKBACK_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * The donation numbers among `donationNumbers` under an open look-back
+ */
+export async function donationsUnderLookback(
+  donationNumbers: string[],
+  client: Tx = prisma
+): Promise<Set<string>> {
+  if (donationNumbers.length === 0) return new Set();
+  const open = await client.lookbackInvestigation.findMany({
+    where: {
+      donationNumber: { in: donationNumbers },
+      status: { in: ACTIVE_LOOKBACK_STATUSES },
+    },
+    select: { donationNumber: true },
+  });
+  return new Set(open.map((investigation) => investigation.donationNumber));
+}
+
+/**
+ * Start or close a look-back held by one of the caller's organizations.
+ * Starting assigns the caller as investigator; closing from OPEN does too.
+ *
+ * @throws Error("LOOKBACK_NOT_FOUND") if the investigation is not visible
+ * @throws Error("INVALID_STATUS_TRANSITION") if the action does not apply
+ * @throws Error("CONCURRENT_MODIFICATION") if it changed meanwhile
+ */
+export async function transitionLookback(
+  id: number,
+  input: LookbackTransitionInput,
+  organizationIds: number[] | null,
+  actorId: number
+) {
+  const now = new Date();
+
+  return prisma.$transaction(
+    async (tx: Tx) => {
+      const current = await tx.lookbackInvestigation.findFirst({
+        where: {
+          id,
+          ...(organizationIds !== null && {
+            organizationId: { in: organizationIds },
+          }),
+        },
+        include: { reaction: { select: { id: true, donorProfileId: true } } },
+      });
+      if (!current) throw new Error("LOOKBACK_NOT_FOUND");
+
+      const next: LookbackStatus =
+        input.action === "start" ? "IN_PROGRESS" : "CLOSED";
+      if (!canTransitionLookback(current.status, next)) {
+        throw new Error("INVALID_STATUS_TRANSITION");
+      }
+
+      const data: Prisma.LookbackInvestigationUncheckedUpdateManyInput = {
+        status: next,
+      };
+      if (current.status === "OPEN") {
+        data.investigatorId = actorId;
+        data.startedAt = now;
+      }
+      if (input.action === "close") {
+        data.conclusion = input.conclusion;
+        data.findings = input.findings;
+        data.closedAt = now;
+        data.closedById = actorId;
+      }
+
+      const { count } = await tx.lookbackInvestigation.updateMany({
+        where: { id, status: current.status },
+        data,
+      });
+      if (count === 0) throw new Error("CONCURRENT_MODIFICATION");
+
+      if (input.action === "close" && input.conclusion === "DONOR_IMPLICATED") {
+        // Units held for a transfer order are discarded too; the receiver
+        // only takes delivery of units still RESERVED
+        await tx.bloodUnit.updateMany({
+          where: {
+            donationNumber: current.donationNumber,
+            status: { in: IN_STOCK_STATUSES },
+          },
+          data: {
+            status: "DISCARDED",
+            discardedAt: now,
+            discardReason: IMPLICATED_DISCARD_REASON,
+            reservedForId: null,
+            reservedAt: null,
+          },
+        });
+
+        if (current.reaction.donorProfileId) {
+          await tx.donorDeferral.create({
+            data: {
+              type: "PERMANENT",
+              reasonCode: "TRANSFUSION_REACTION",
+              notes: `Implicated in transfusion reaction #${current.reaction.id}`,
+              startsAt: now,
+              donorProfileId: current.reaction.donorProfileId,
+              createdById: actorId,
+            },
+          });
+        }
+      }
+
+      return tx.lookbackInvestigation.findUniqueOrThrow({
+        where: { id },
+        include: LOOKBACK_INCLUDE,
+      });
+    },
+    { isolationLevel: Prisma.TransactionIsolationLevel.Serializable }
+  );
+}
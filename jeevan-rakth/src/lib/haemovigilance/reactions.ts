@@ -0,0 +1,224 @@
+/**
+ * Transfusion Reaction Reports
+ *
+ * The organization that issued a unit reports a reaction in the patient
+ * it was transfused into. Filing a report, in one transaction:
+ *
+ *   1. traces the unit to its donation and donor, when the donation is
+ *      recorded in the ledger;
+ *   2. sends the donation's other components that are AVAILABLE or
+ *      RESERVED back to QUARANTINE, whichever organization holds them;
+ *   3. opens a look-back investigation for the collecting blood bank (see
+ *      lib/haemovigilance/lookback).
+ *
+ * Components on the road for a transfer order are left with the order and
+ * arrive in QUARANTINE instead (see lib/transfers/orders).
+ */
+
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { recordRequestEvent } from "@/lib/bloodRequests/events";
+import { notify } from "@/lib/notifications";
+import { memberRecipients } from "@/lib/notifications/recipients";
+import { ACTIVE_TRANSFER_STATUSES } from "@/lib/transfers/lifecycle";
+import type { TransfusionReactionCreateInput } from "@/lib/schemas/transfusionReactionSchema";
+
+type Tx = Prisma.TransactionClient;
+
+/** Organization filter, as built by organizationScope() */
+type Scope = { organizationId?: { in: number[] } };
+
+export const TRANSFUSION_REACTION_INCLUDE = {
+  bloodUnit: {
+    select: {
+      id: true,
+      donationNumber: true,
+      component: true,
+      bloodGroup: true,
+      issuedAt: true,
+    },
+  },
+  request: { select: { id: true, hospitalName: true } },
+  donation: {
+    select: {
+      id: true,
+      collectedAt: true,
+      organization: { select: { id: true, name: true } },
+    },
+  },
+  organization: { select: { id: true, name: true } },
+  reportedBy: { select: { id: true, name: true } },
+  investigation: {
+    select: { id: true, status: true, conclusion: true, organizationId: true },
+  },
+} satisfies Prisma.TransfusionReactionInclude;
+
+/**
+ * Reactions the given organizations reported or are investigating
+ */
+export function transfusionReactionScope(
+  organizationIds: number[] | null
+): Prisma.TransfusionReactionWhereInput {
+  return organizationIds === null
+    ? {}
+    : {
+        OR: [
+          { organizationId: { in: organizationIds } },
+          { investigation: { organizationId: { in: organizationIds } } },
+        ],
+      };
+}
+
+/**
+ * File a reaction report against an issued unit, quarantine the rest of
+ * its donation and open the look-back. Runs SERIALIZABLE so a sibling
+ * cannot be reserved or issued between being read and quarantined; the
+ * loser fails with P2034.
+ *
+ * @throws Error("BLOOD_UNIT_NOT_FOUND") if the unit is not visible
+ * @throws Error("UNIT_NOT_ISSUED") if the unit was never issued
+ * @throws Error("ONSET_BEFORE_ISSUE") if the reaction predates the issue
+ * @throws Error("PATIENT_NAME_REQUIRED") if no patient name is given and
+ * the unit was not issued for a request
+ * @throws Prisma P2002 if a reaction is already reported for the unit
+ */
+export async function fileTransfusionReaction(
+  input: TransfusionReactionCreateInput,
+  scope: Scope,
+  reportedById: number
+) {
+  const result = await prisma.$transaction(
+    async (tx: Tx) => {
+      const unit = await tx.bloodUnit.findFirst({
+        where: { id: input.bloodUnitId, ...scope },
+        include: {
+          donation: {
+            select: { id: true, donorProfileId: true, organizationId: true },
+          },
+          reservedFor: { select: { id: true, patientName: true } },
+        },
+      });
+      if (!unit) throw new Error("BLOOD_UNIT_NOT_FOUND");
+      if (unit.status !== "ISSUED" || !unit.issuedAt) {
+        throw new Error("UNIT_NOT_ISSUED");
+      }
+      if (input.onsetAt < unit.issuedAt) {
+        throw new Error("ONSET_BEFORE_ISSUE");
+      }
+      const patientName = input.patientName ?? unit.reservedFor?.patientName;
+      if (!patientName) throw new Error("PATIENT_NAME_REQUIRED");
+
+      const { bloodUnitId, ...data } = input;
+      const reaction = await tx.transfusionReaction.create({
+        data: {
+          ...data,
+          patientName,
+          bloodUnitId,
+          requestId: unit.reservedForId,
+          donationId: unit.donation?.id,
+          donorProfileId: unit.donation?.donorProfileId,
+          organizationId: unit.organizationId,
+          reportedById,
+        },
+      });
+
+      const siblings = await tx.bloodUnit.findMany({
+        where: {
+          donationNumber: unit.donationNumber,
+          id: { not: unit.id },
+          status: { in: ["AVAILABLE", "RESERVED"] },
+          transferItems: {
+            none: {
+              transferOrder: { status: { in: ACTIVE_TRANSFER_STATUSES } },
+            },
+          },
+        },
+        select: { id: true, component: true, reservedForId: true },
+      });
+
+      if (siblings.length > 0) {
+        await tx.bloodUnit.updateMany({
+          where: { id: { in: siblings.map((s) => s.id) } },
+          data: { status: "QUARANTINE", reservedForId: null, reservedAt: null },
+        });
+      }
+
+      // Patients losing a reserved unit see why on their request
+      for (const sibling of siblings) {
+        if (sibling.reservedForId === null) continue;
+        await recordRequestEvent(
+          {
+            requestId: sibling.reservedForId,
+            type: "RESERVATION_RELEASED",
+            message: `Reserved ${sibling.component} unit ${unit.donationNumber} quarantined after a transfusion reaction to the same donation`,
+            data: { bloodUnitId: sibling.id, reactionId: reaction.id },
+            actorId: reportedById,
+          },
+          tx
+        );
+      }
+
+      const investigation = await tx.lookbackInvestigation.create({
+        data: {
+          reactionId: reaction.id,
+          donationNumber: unit.donationNumber,
+          organizationId: unit.donation?.organizationId ?? unit.organizationId,
+        },
+      });
+
+      return {
+        reaction: await tx.transfusionReaction.findUniqueOrThrow({
+          where: { id: reaction.id },
+          include: TRANSFUSION_REACTION_INCLUDE,
+        }),
+        quarantinedUnitIds: siblings.map((s) => s.id),
+        investigation,
+      };
+    },
+    { isolationLevel: Prisma.TransactionIsolationLevel.Serializable }
+  );
+
+  notifyLookbackOpened(
+    result.investigation.organizationId,
+    result.reaction
+  ).catch((error) => {
+    console.error(
+      "Look-back notification failed",
+      result.investigation.id,
+      error
+    );
+  });
+
+  return {
+    reaction: result.reaction,
+    quarantinedUnitIds: result.quarantinedUnitIds,
+  };
+}
+
+/**
+ * Tell the investigating blood bank's admins and staff a look-back is
+ * waiting for them
+ */
+async function notifyLookbackOpened(
+  organizationId: number,
+  reaction: Prisma.TransfusionReactionGetPayload<{
+    include: typeof TRANSFUSION_REACTION_INCLUDE;
+  }>
+): Promise<void> {
+  const recipients = await memberRecipients({
+    organizationId,
+    role: { in: ["ADMIN", "STAFF"] },
+  });
+  await Promise.all(
+    recipients.map((recipient) =>
+      notify(
+        recipient,
+        {
+          title: `Look-back opened for donation ${reaction.bloodUnit.donationNumber}`,
+          body: `${reaction.organization.name} reported a ${reaction.severity.toLowerCase().replace(/_/g, " ")} ${reaction.type.toLowerCase().replace(/_/g, " ")} reaction to a ${reaction.bloodUnit.component} unit. Components still in stock have been quarantined.`,
+        },
+        { channels: ["IN_APP", "EMAIL"] }
+      )
+    )
+  );
+}
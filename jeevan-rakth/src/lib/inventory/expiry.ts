@@ -0,0 +1,27 @@
+import { prisma } from "@/lib/prisma";
+import { IN_STOCK_STATUSES } from "@/lib/inventory/lifecycle";
+
+export const EXPIRED_DISCARD_REASON = "EXPIRED";
+
+/**
+ * Mark every in-stock unit past its expiry as DISCARDED.
+ *
+ * Safe to run repeatedly: units already issued or discarded are untouched.
+ * Returns the number of units discarded.
+ */
+export async function discardExpiredUnits(
+  now: Date = new Date()
+): Promise<number> {
+  const { count } = await prisma.bloodUnit.updateMany({
+    where: {
+      status: { in: IN_STOCK_STATUSES },
+      expiresAt: { lte: now },
+    },
+    data: {
+      status: "DISCARDED",
+      discardReason: EXPIRED_DISCARD_REASON,
+      discardedAt: now,
+    },
+  });
+  return count;
+}
@@ -0,0 +1,67 @@
+/**
+ * Blood Unit Lifecycle
+ *
+ * Every collected unit starts in QUARANTINE until screening tests clear it:
+ *
+ *   QUARANTINE → AVAILABLE ⇄ RESERVED → ISSUED
+ *        │           │          │
+ *        └───────────┴──────────┴──→ DISCARDED
+ *
+ * A whole-blood unit in QUARANTINE or AVAILABLE may instead be separated
+ * into components and become PROCESSED (see lib/inventory/separation).
+ *
+ * ISSUED, DISCARDED and PROCESSED are terminal. Reservations are made by FEFO
+ * allocation (see allocateBloodUnitsTransaction) or by picking for a
+ * transfer order (see lib/transfers/orders) and may be released back to
+ * AVAILABLE.
+ *
+ * A transfusion reaction sends AVAILABLE and RESERVED units of the same
+ * donation back to QUARANTINE until the look-back on it closes (see
+ * lib/haemovigilance/reactions).
+ */
+
+import type { BloodComponent, BloodUnitStatus } from "@prisma/client";
+import { componentShelfLifeDays } from "@/config/inventory";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const BLOOD_UNIT_TRANSITIONS: Record<
+  BloodUnitStatus,
+  BloodUnitStatus[]
+> = {
+  QUARANTINE: ["AVAILABLE", "PROCESSED", "DISCARDED"],
+  AVAILABLE: ["RESERVED", "QUARANTINE", "PROCESSED", "DISCARDED"],
+  RESERVED: ["AVAILABLE", "ISSUED", "QUARANTINE", "DISCARDED"],
+  ISSUED: [],
+  DISCARDED: [],
+  PROCESSED: [],
+};
+
+/** Statuses in which a unit is still physically held in stock */
+export const IN_STOCK_STATUSES: BloodUnitStatus[] = [
+  "QUARANTINE",
+  "AVAILABLE",
+  "RESERVED",
+];
+
+/**
+ * Check whether a unit may move between two statuses
+ */
+export function canTransitionUnit(
+  from: BloodUnitStatus,
+  to: BloodUnitStatus
+): boolean {
+  return BLOOD_UNIT_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Default expiry of a component collected at `collectedAt`
+ */
+export function computeUnitExpiry(
+  component: BloodComponent,
+  collectedAt: Date
+): Date {
+  return new Date(
+    collectedAt.getTime() + componentShelfLifeDays[component] * DAY_MS
+  );
+}
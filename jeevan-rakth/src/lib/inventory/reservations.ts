@@ -0,0 +1,58 @@
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { pretransfusionPolicy } from "@/config/pretransfusion";
+import { recordRequestEvent } from "@/lib/bloodRequests/events";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Return units reserved for a patient longer than the hold window to
+ * general stock, noting the release on each request's timeline.
+ *
+ * Units held for transfer orders have no request and are left alone. Safe
+ * to run repeatedly. Returns the number of units released.
+ */
+export async function releaseStaleReservations(
+  now: Date = new Date()
+): Promise<number> {
+  const cutoff = new Date(
+    now.getTime() - pretransfusionPolicy.reservationHoldHours * HOUR_MS
+  );
+  const stale = {
+    status: "RESERVED",
+    reservedAt: { lte: cutoff },
+  } satisfies Prisma.BloodUnitWhereInput;
+
+  const requests = await prisma.bloodUnit.groupBy({
+    by: ["reservedForId"],
+    where: { ...stale, reservedForId: { not: null } },
+  });
+
+  let released = 0;
+  for (const { reservedForId } of requests) {
+    if (reservedForId === null) continue;
+
+    released += await prisma.$transaction(
+      async (tx: Prisma.TransactionClient) => {
+        const { count } = await tx.bloodUnit.updateMany({
+          where: { ...stale, reservedForId },
+          data: { status: "AVAILABLE", reservedForId: null, reservedAt: null },
+        });
+        if (count > 0) {
+          await recordRequestEvent(
+            {
+              requestId: reservedForId,
+              type: "RESERVATION_RELEASED",
+              message: `${count} reserved unit(s) released after ${pretransfusionPolicy.reservationHoldHours}h without issue`,
+              data: { units: count },
+            },
+            tx
+          );
+        }
+        return count;
+      }
+    );
+  }
+
+  return released;
+}
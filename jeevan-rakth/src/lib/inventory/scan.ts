@@ -0,0 +1,183 @@
+/**
+ * Unit Label Scanning
+ *
+ * Receive, issue and discard driven by the barcodes on a unit's ISBT 128
+ * label. A scan names a unit by its donation number and product code; the
+ * expiry and blood group barcodes must then agree with the unit's record,
+ * so a bag carrying another unit's label is stopped at the bench.
+ */
+
+import type { BloodUnitStatus, Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { canTransitionUnit } from "@/lib/inventory/lifecycle";
+import { hasCompatibleCrossMatch } from "@/lib/crossMatch/results";
+import { encodeExpiry } from "@/lib/isbt128/codes";
+import { ACTIVE_TRANSFER_STATUSES } from "@/lib/transfers/lifecycle";
+import type {
+  UnitLabelScan,
+  UnitReceiveScanInput,
+} from "@/lib/schemas/unitScanSchema";
+
+export type LabelMismatch = { field: string; message: string };
+
+const SCANNED_UNIT_INCLUDE = {
+  transferItems: {
+    where: { transferOrder: { status: { in: ACTIVE_TRANSFER_STATUSES } } },
+    select: { transferOrderId: true },
+  },
+} satisfies Prisma.BloodUnitInclude;
+
+type ScannedUnit = Prisma.BloodUnitGetPayload<{
+  include: typeof SCANNED_UNIT_INCLUDE;
+}>;
+
+/**
+ * Find the unit a scanned label names and compare the label with its
+ * record. `unit` is null when the donation has no unit of the scanned
+ * product; `mismatches` then says so.
+ *
+ * @returns null when no unit in scope carries the donation number
+ */
+export async function matchScannedLabel(
+  scan: UnitLabelScan,
+  scope: Prisma.BloodUnitWhereInput
+): Promise<{ unit: ScannedUnit | null; mismatches: LabelMismatch[] } | null> {
+  const units = await prisma.bloodUnit.findMany({
+    where: { donationNumber: scan.unitNumber, ...scope },
+    include: SCANNED_UNIT_INCLUDE,
+  });
+  if (units.length === 0) return null;
+
+  const unit = units.find((u) => u.component === scan.productCode);
+  if (!unit) {
+    return {
+      unit: null,
+      mismatches: [
+        {
+          field: "productCode",
+          message: "No unit of this product is recorded for the donation",
+        },
+      ],
+    };
+  }
+
+  const mismatches: LabelMismatch[] = [];
+  if (encodeExpiry(unit.expiresAt) !== encodeExpiry(scan.expiry)) {
+    mismatches.push({
+      field: "expiry",
+      message: "Does not match the unit's recorded expiry",
+    });
+  }
+  if (scan.bloodGroup && scan.bloodGroup !== unit.bloodGroup) {
+    mismatches.push({
+      field: "bloodGroup",
+      message: "Does not match the unit's recorded blood group",
+    });
+  }
+
+  return { unit, mismatches };
+}
+
+/**
+ * Issue or discard a unit whose label matched its record
+ *
+ * @throws Error("INVALID_STATUS_TRANSITION") if the unit cannot move to
+ * the status
+ * @throws Error("UNIT_EXPIRED") when issuing an expired unit
+ * @throws Error("UNIT_IN_TRANSFER") when issuing a unit held for a transfer
+ * order
+ * @throws Error("CROSS_MATCH_REQUIRED") when issuing a unit without a
+ * compatible cross-match for the request it is reserved for
+ * @throws Error("CONCURRENT_MODIFICATION") if the unit changed meanwhile
+ */
+export async function applyScannedStatus(
+  unit: ScannedUnit,
+  status: Extract<BloodUnitStatus, "ISSUED" | "DISCARDED">,
+  discardReason?: string
+) {
+  if (!canTransitionUnit(unit.status, status)) {
+    throw new Error("INVALID_STATUS_TRANSITION");
+  }
+
+  const now = new Date();
+  const data: Prisma.BloodUnitUpdateManyMutationInput = { status };
+  if (status === "ISSUED") {
+    if (unit.expiresAt <= now) throw new Error("UNIT_EXPIRED");
+    if (unit.transferItems.length > 0) throw new Error("UNIT_IN_TRANSFER");
+    if (
+      !unit.reservedForId ||
+      !(await hasCompatibleCrossMatch(unit.id, unit.reservedForId, now))
+    ) {
+      throw new Error("CROSS_MATCH_REQUIRED");
+    }
+    data.issuedAt = now;
+  } else {
+    data.discardedAt = now;
+    data.discardReason = discardReason;
+  }
+
+  // Pinning the reservation keeps a unit re-reserved meanwhile from being
+  // issued on the cross-match checked above
+  const { count } = await prisma.bloodUnit.updateMany({
+    where: {
+      id: unit.id,
+      status: unit.status,
+      reservedForId: unit.reservedForId,
+    },
+    data,
+  });
+  if (count === 0) throw new Error("CONCURRENT_MODIFICATION");
+
+  return prisma.bloodUnit.findUnique({ where: { id: unit.id } });
+}
+
+/**
+ * Register a labelled unit into the organization's stock (status
+ * QUARANTINE). A unit bagged from a donation recorded here is linked to it
+ * and takes its collection time; any other unit needs `collectedAt`.
+ *
+ * @throws Error("UNIT_EXPIRED") if the label's expiry has passed
+ * @throws Error("LABEL_MISMATCH") if the blood group differs from the
+ * donor's recorded group
+ * @throws Error("COLLECTION_DATE_REQUIRED") if the collection time is
+ * unknown
+ */
+export async function receiveScannedUnit(
+  input: Omit<UnitReceiveScanInput, "organizationId"> & {
+    organizationId: number;
+  }
+) {
+  if (input.expiry <= new Date()) throw new Error("UNIT_EXPIRED");
+
+  const donation = await prisma.donation.findFirst({
+    where: {
+      donationNumber: input.unitNumber,
+      organizationId: input.organizationId,
+    },
+    select: {
+      id: true,
+      collectedAt: true,
+      donorProfile: { select: { bloodGroup: true } },
+    },
+  });
+  if (donation && donation.donorProfile.bloodGroup !== input.bloodGroup) {
+    throw new Error("LABEL_MISMATCH");
+  }
+
+  const collectedAt = donation?.collectedAt ?? input.collectedAt;
+  if (!collectedAt) throw new Error("COLLECTION_DATE_REQUIRED");
+
+  return prisma.bloodUnit.create({
+    data: {
+      donationNumber: input.unitNumber,
+      component: input.productCode,
+      bloodGroup: input.bloodGroup,
+      volumeMl: input.volumeMl,
+      collectedAt,
+      expiresAt: input.expiry,
+      storageLocation: input.storageLocation,
+      organizationId: input.organizationId,
+      donationId: donation?.id,
+    },
+  });
+}
@@ -0,0 +1,182 @@
+/**
+ * Component Separation
+ *
+ * A whole-blood unit is spun down into red cells, plasma and platelets.
+ * Each child keeps the donation number, the blood group and the collection
+ * time, and takes its own component (and so its ISBT 128 product code),
+ * volume and expiry counted from collection; it points back to the
+ * whole-blood unit, which becomes PROCESSED. Children start in the
+ * parent's status, so a donation still awaiting screening yields
+ * quarantined components.
+ *
+ * Separation is idempotent. A donation holds at most one unit of each
+ * component, so a re-run, or two runs at once, creates nothing new and
+ * returns the components already separated.
+ */
+
+import type { BloodUnit, Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { separatedComponentVolumeMl } from "@/config/inventory";
+import {
+  canTransitionUnit,
+  computeUnitExpiry,
+} from "@/lib/inventory/lifecycle";
+import type { ComponentSeparationInput } from "@/lib/schemas/bloodUnitSchema";
+import { unitsAwaitingExcursionReview } from "@/lib/coldChain/excursions";
+import { isEquipmentOf } from "@/lib/coldChain/equipment";
+
+type Tx = Prisma.TransactionClient;
+
+/** Organization filter, as built by organizationScope() */
+type Scope = { organizationId?: { in: number[] } };
+
+export type SeparationResult = {
+  parentUnit: BloodUnit;
+  units: BloodUnit[];
+  /** Components created by this run; 0 when repeating an earlier one */
+  created: number;
+};
+
+async function separationOf(
+  tx: Tx,
+  parentUnitId: number,
+  created: number
+): Promise<SeparationResult> {
+  const parentUnit = await tx.bloodUnit.findUniqueOrThrow({
+    where: { id: parentUnitId },
+    include: { childUnits: { orderBy: { id: "asc" } } },
+  });
+  const { childUnits, ...parent } = parentUnit;
+  return { parentUnit: parent, units: childUnits, created };
+}
+
+type SeparationParent = Pick<
+  BloodUnit,
+  | "id"
+  | "donationNumber"
+  | "bloodGroup"
+  | "volumeMl"
+  | "collectedAt"
+  | "status"
+  | "organizationId"
+  | "donationId"
+>;
+
+/**
+ * The units a separation of `parent` creates. Volumes default to each
+ * component's typical yield. Only recorded volumes are checked against the
+ * whole-blood unit: typical yields include additive solution, so together
+ * they exceed the bag they come from.
+ *
+ * @throws Error("VOLUME_EXCEEDS_PARENT") if the recorded volumes add up to
+ * more than the whole-blood unit
+ */
+export function separatedUnits(
+  parent: SeparationParent,
+  components: ComponentSeparationInput["components"]
+): Prisma.BloodUnitCreateManyInput[] {
+  const recordedMl = components.reduce((sum, c) => sum + (c.volumeMl ?? 0), 0);
+  if (parent.volumeMl !== null && recordedMl > parent.volumeMl) {
+    throw new Error("VOLUME_EXCEEDS_PARENT");
+  }
+
+  return components.map((c) => ({
+    donationNumber: parent.donationNumber,
+    component: c.component,
+    bloodGroup: parent.bloodGroup,
+    volumeMl: c.volumeMl ?? separatedComponentVolumeMl[c.component],
+    collectedAt: parent.collectedAt,
+    expiresAt: computeUnitExpiry(c.component, parent.collectedAt),
+    storageLocation: c.storageLocation,
+    storageEquipmentId: c.storageEquipmentId,
+    status: parent.status,
+    organizationId: parent.organizationId,
+    donationId: parent.donationId,
+    parentUnitId: parent.id,
+  }));
+}
+
+/**
+ * Separate the whole-blood unit of a donation into the given components.
+ * The unit must be held by one of the scoped organizations.
+ *
+ * @throws Error("BLOOD_UNIT_NOT_FOUND") if the donation has no whole-blood
+ * unit in scope
+ * @throws Error("INVALID_STATUS_TRANSITION") if the unit is reserved, issued
+ * or discarded
+ * @throws Error("UNIT_EXPIRED") if the unit has expired
+ * @throws Error("EXCURSION_REVIEW_PENDING") if a temperature excursion
+ * flagged the unit and has not been reviewed
+ * @throws Error("STORAGE_EQUIPMENT_NOT_FOUND") if a component is to be
+ * stored in equipment of another organization
+ * @throws Error("COMPONENT_ALREADY_EXISTS") if the donation already has a
+ * unit of a requested component that was not separated from it
+ * @throws Error("VOLUME_EXCEEDS_PARENT") if the recorded volumes add up to
+ * more than the whole-blood unit
+ * @throws Error("CONCURRENT_MODIFICATION") if the unit changed meanwhile
+ */
+export async function separateDonation(
+  donationId: number,
+  input: ComponentSeparationInput,
+  scope: Scope
+): Promise<SeparationResult> {
+  const now = new Date();
+
+  return prisma.$transaction(async (tx: Tx) => {
+    const parent = await tx.bloodUnit.findFirst({
+      where: { donationId, component: "WHOLE_BLOOD", ...scope },
+    });
+    if (!parent) throw new Error("BLOOD_UNIT_NOT_FOUND");
+
+    if (parent.status === "PROCESSED") return separationOf(tx, parent.id, 0);
+    if (!canTransitionUnit(parent.status, "PROCESSED")) {
+      throw new Error("INVALID_STATUS_TRANSITION");
+    }
+    if (parent.expiresAt <= now) throw new Error("UNIT_EXPIRED");
+    if ((await unitsAwaitingExcursionReview([parent.id], tx)).size > 0) {
+      throw new Error("EXCURSION_REVIEW_PENDING");
+    }
+    for (const { storageEquipmentId } of input.components) {
+      if (
+        storageEquipmentId &&
+        !(await isEquipmentOf(storageEquipmentId, parent.organizationId, tx))
+      ) {
+        throw new Error("STORAGE_EQUIPMENT_NOT_FOUND");
+      }
+    }
+
+    const existing = await tx.bloodUnit.findFirst({
+      where: {
+        donationNumber: parent.donationNumber,
+        component: { in: input.components.map((c) => c.component) },
+        OR: [{ parentUnitId: null }, { parentUnitId: { not: parent.id } }],
+      },
+      select: { id: true },
+    });
+    if (existing) throw new Error("COMPONENT_ALREADY_EXISTS");
+
+    // A concurrent run inserting the same components makes these skip
+    // rather than fail
+    const { count: created } = await tx.bloodUnit.createMany({
+      data: separatedUnits(parent, input.components),
+      skipDuplicates: true,
+    });
+
+    const { count } = await tx.bloodUnit.updateMany({
+      where: { id: parent.id, status: parent.status },
+      data: { status: "PROCESSED" },
+    });
+    if (count === 0) {
+      // Lost the race to another separation run: return what it made
+      const current = await tx.bloodUnit.findUniqueOrThrow({
+        where: { id: parent.id },
+        select: { status: true },
+      });
+      if (current.status !== "PROCESSED") {
+        throw new Error("CONCURRENT_MODIFICATION");
+      }
+    }
+
+    return separationOf(tx, parent.id, created);
+  });
+}
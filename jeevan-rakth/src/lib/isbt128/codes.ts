@@ -0,0 +1,204 @@
+/**
+ * ISBT 128 Data Structures
+ *
+ * Encodes and decodes the four data structures printed on a unit label:
+ *
+ *   Donation identification number  =αppppyynnnnnnff  (data structure 001)
+ *   Blood groups                    =%ggre            (data structure 002)
+ *   Product code                    =<αooootds        (data structure 003)
+ *   Expiration date and time        &>cyyjjjhhmm      (data structure 005)
+ *
+ * A donation identification number (DIN) is stored without its leading
+ * "=" and flag characters: the facility identification number, the two
+ * digit year and a six digit sequence. Its ISO/IEC 7064 Mod 37-2 check
+ * character is printed boxed next to the eye-readable number so a keyed
+ * entry can be checked; our labels also carry it in the flag characters
+ * (flag values 60-96) so scans are checked the same way.
+ *
+ * Expiry times are encoded in UTC.
+ */
+
+import type { BloodComponent, BloodGroup } from "@prisma/client";
+import { bloodGroupCodes, componentProductCodes } from "@/config/isbt128";
+
+const MOD37_ALPHABET = "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ*";
+const DIN_PATTERN = /^[A-Z0-9]\d{4}\d{2}\d{6}$/;
+const CHECK_FLAG_OFFSET = 60;
+
+/** Facility identification number: a letter or digit and four digits */
+export const FACILITY_CODE_PATTERN = /^[A-Z0-9]\d{4}$/;
+
+/** Sequence numbers available to a facility each year */
+export const MAX_DONATION_SEQUENCE = 999999;
+
+/**
+ * Check whether a stored donation number is an ISBT 128 DIN
+ */
+export function isDonationIdentificationNumber(value: string): boolean {
+  return DIN_PATTERN.test(value);
+}
+
+/**
+ * ISO/IEC 7064 Mod 37-2 check value (0-36) of a DIN
+ */
+export function checkValue(din: string): number {
+  let sum = 0;
+  for (const char of din) {
+    sum = ((sum + MOD37_ALPHABET.indexOf(char)) * 2) % 37;
+  }
+  return (38 - sum) % 37;
+}
+
+/**
+ * Check character printed boxed next to the eye-readable DIN
+ */
+export function checkCharacter(din: string): string {
+  return MOD37_ALPHABET[checkValue(din)];
+}
+
+/**
+ * Build a DIN from a facility code, the year it is assigned in and the
+ * facility's sequence number for that year
+ */
+export function formatDonationIdentificationNumber(
+  facilityCode: string,
+  at: Date,
+  sequence: number
+): string {
+  const year = String(at.getUTCFullYear() % 100).padStart(2, "0");
+  return `${facilityCode}${year}${String(sequence).padStart(6, "0")}`;
+}
+
+/**
+ * Eye-readable DIN, e.g. "A9999 26 123456"
+ */
+export function formatEyeReadable(din: string): string {
+  if (!isDonationIdentificationNumber(din)) return din;
+  return `${din.slice(0, 5)} ${din.slice(5, 7)} ${din.slice(7)}`;
+}
+
+/** DIN barcode data with the check value in the flag characters */
+export function encodeDonationNumber(din: string): string {
+  const flags = CHECK_FLAG_OFFSET + checkValue(din);
+  return `=${din}${flags}`;
+}
+
+/** Blood groups barcode data */
+export function encodeBloodGroup(bloodGroup: BloodGroup): string {
+  return `=%${bloodGroupCodes[bloodGroup]}`;
+}
+
+/** Product code barcode data */
+export function encodeProductCode(component: BloodComponent): string {
+  return `=<${componentProductCodes[component]}`;
+}
+
+/** Expiration date and time barcode data, to the minute */
+export function encodeExpiry(expiresAt: Date): string {
+  const year = expiresAt.getUTCFullYear();
+  const dayOfYear =
+    Math.floor(
+      (Date.UTC(year, expiresAt.getUTCMonth(), expiresAt.getUTCDate()) -
+        Date.UTC(year, 0, 1)) /
+        (24 * 60 * 60 * 1000)
+    ) + 1;
+  const pad = (value: number, length: number) =>
+    String(value).padStart(length, "0");
+
+  return (
+    "&>" +
+    pad(year - 2000, 3) +
+    pad(dayOfYear, 3) +
+    pad(expiresAt.getUTCHours(), 2) +
+    pad(expiresAt.getUTCMinutes(), 2)
+  );
+}
+
+export type DecodedDonationNumber = {
+  din: string;
+  // False when the scan carried a check character that does not match
+  checkValid: boolean;
+};
+
+/**
+ * Decode a scanned DIN barcode ("=A99992612345689") or a keyed
+ * eye-readable DIN with its check character ("A999926123456T").
+ * Flag values other than 60-96 carry no check character; the Code 128
+ * symbol check already guards those scans.
+ *
+ * @returns null if the value is not a DIN
+ */
+export function decodeDonationNumber(
+  value: string
+): DecodedDonationNumber | null {
+  const compact = value.replace(/\s+/g, "").toUpperCase();
+
+  const scanned = /^=([A-Z0-9]\d{12})(\d{2})$/.exec(compact);
+  if (scanned) {
+    const [, din, flags] = scanned;
+    const flag = Number(flags);
+    const checkValid =
+      flag < CHECK_FLAG_OFFSET ||
+      flag > CHECK_FLAG_OFFSET + 36 ||
+      flag - CHECK_FLAG_OFFSET === checkValue(din);
+    return { din, checkValid };
+  }
+
+  const keyed = /^([A-Z0-9]\d{12})([0-9A-Z*])$/.exec(compact);
+  if (keyed) {
+    const [, din, check] = keyed;
+    return { din, checkValid: check === checkCharacter(din) };
+  }
+
+  return null;
+}
+
+/**
+ * Decode a scanned blood groups barcode
+ *
+ * @returns null if the value is not a known ABO/RhD code
+ */
+export function decodeBloodGroup(value: string): BloodGroup | null {
+  const match = /^=%(\d{2})[0-9A-Z]{2}$/.exec(value.trim());
+  if (!match) return null;
+
+  const entry = Object.entries(bloodGroupCodes).find(
+    ([, code]) => code.slice(0, 2) === match[1]
+  );
+  return entry ? (entry[0] as BloodGroup) : null;
+}
+
+/**
+ * Decode a scanned product code barcode. Only the product description code
+ * is matched, so divided or differently typed donations of a product
+ * resolve to the same component.
+ *
+ * @returns null if the value is not one of our product codes
+ */
+export function decodeProductCode(value: string): BloodComponent | null {
+  const match = /^=<([A-Z]\d{4})[0-9A-Z]{3}$/.exec(value.trim());
+  if (!match) return null;
+
+  const entry = Object.entries(componentProductCodes).find(
+    ([, code]) => code.slice(0, 5) === match[1]
+  );
+  return entry ? (entry[0] as BloodComponent) : null;
+}
+
+/**
+ * Decode a scanned expiration date and time barcode
+ *
+ * @returns null if the value is not a valid date and time
+ */
+export function decodeExpiry(value: string): Date | null {
+  const match = /^&>(\d{3})(\d{3})(\d{2})(\d{2})$/.exec(value.trim());
+  if (!match) return null;
+
+  const [year, dayOfYear, hours, minutes] = match.slice(1).map(Number);
+  if (dayOfYear < 1 || dayOfYear > 366 || hours > 23 || minutes > 59) {
+    return null;
+  }
+
+  const date = new Date(Date.UTC(2000 + year, 0, dayOfYear, hours, minutes));
+  return date.getUTCFullYear() === 2000 + year ? date : null;
+}
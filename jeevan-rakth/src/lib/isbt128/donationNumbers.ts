@@ -0,0 +1,48 @@
+import { Prisma } from "@prisma/client";
+import {
+  MAX_DONATION_SEQUENCE,
+  formatDonationIdentificationNumber,
+} from "@/lib/isbt128/codes";
+
+type Tx = Prisma.TransactionClient;
+
+/**
+ * Assign the organization's next ISBT 128 donation identification number.
+ * The yearly sequence is incremented with a single upsert, so concurrent
+ * collections never share a number; a number taken by a transaction that
+ * later rolls back is simply skipped.
+ *
+ * @throws Error("ORGANIZATION_NOT_FOUND") if the organization does not exist
+ * @throws Error("FACILITY_CODE_REQUIRED") if it has no facility code
+ * @throws Error("DONATION_NUMBERS_EXHAUSTED") once the year's sequence is
+ * used up
+ */
+export async function nextDonationNumber(
+  tx: Tx,
+  organizationId: number,
+  at: Date = new Date()
+): Promise<string> {
+  const organization = await tx.organization.findUnique({
+    where: { id: organizationId },
+    select: { facilityCode: true },
+  });
+  if (!organization) throw new Error("ORGANIZATION_NOT_FOUND");
+  if (!organization.facilityCode) throw new Error("FACILITY_CODE_REQUIRED");
+
+  const year = at.getUTCFullYear();
+  const { lastValue } = await tx.donationNumberSequence.upsert({
+    where: { organizationId_year: { organizationId, year } },
+    create: { organizationId, year, lastValue: 1 },
+    update: { lastValue: { increment: 1 } },
+    select: { lastValue: true },
+  });
+  if (lastValue > MAX_DONATION_SEQUENCE) {
+    throw new Error("DONATION_NUMBERS_EXHAUSTED");
+  }
+
+  return formatDonationIdentificationNumber(
+    organization.facilityCode,
+    at,
+    lastValue
+  );
+}
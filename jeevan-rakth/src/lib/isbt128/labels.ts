@@ -0,0 +1,236 @@
+/**
+ * ISBT 128 Unit Labels
+ *
+ * A4 sheets of four 100 x 100 mm labels. Each label follows the ISBT 128
+ * quadrant layout with a Code 128 barcode per quadrant:
+ *
+ *   ┌──────────────────────┬──────────────────────┐
+ *   │ Donation number      │ Blood group          │
+ *   ├──────────────────────┼──────────────────────┤
+ *   │ Product code         │ Expiry date and time │
+ *   └──────────────────────┴──────────────────────┘
+ *
+ * Units registered under a non-ISBT donation number get a plain Code 128
+ * barcode of that number and no check character.
+ */
+
+import type { BloodUnit } from "@prisma/client";
+import bwipjs from "bwip-js/node";
+import PDFDocument from "pdfkit";
+import { componentProductCodes } from "@/config/isbt128";
+import { formatBloodGroup } from "@/lib/bloodGroups";
+import { toBuffer } from "@/lib/certificates/pdf";
+import {
+  checkCharacter,
+  encodeBloodGroup,
+  encodeDonationNumber,
+  encodeExpiry,
+  encodeProductCode,
+  formatEyeReadable,
+  isDonationIdentificationNumber,
+} from "@/lib/isbt128/codes";
+
+const MM = 72 / 25.4;
+const LABEL = 100 * MM;
+const QUADRANT = LABEL / 2;
+const PADDING = 8;
+const BARCODE_HEIGHT = 34;
+const LABELS_PER_ROW = 2;
+const LABELS_PER_PAGE = 4;
+
+const MUTED = "#4b5563";
+
+export type UnitLabelData = Pick<
+  BloodUnit,
+  | "donationNumber"
+  | "component"
+  | "bloodGroup"
+  | "volumeMl"
+  | "collectedAt"
+  | "expiresAt"
+> & { organizationName: string };
+
+function barcodePng(text: string): Promise<Buffer> {
+  return bwipjs.toBuffer({
+    bcid: "code128",
+    text,
+    scale: 3,
+    height: 10,
+    includetext: false,
+  });
+}
+
+function formatLabelDate(date: Date, withTime = false): string {
+  const day = date
+    .toLocaleDateString("en-GB", {
+      day: "2-digit",
+      month: "short",
+      year: "numeric",
+      timeZone: "UTC",
+    })
+    .toUpperCase();
+  if (!withTime) return day;
+  const time = date.toLocaleTimeString("en-GB", {
+    hour: "2-digit",
+    minute: "2-digit",
+    timeZone: "UTC",
+  });
+  return `${day} ${time} UTC`;
+}
+
+async function drawLabel(
+  doc: PDFKit.PDFDocument,
+  label: UnitLabelData,
+  x: number,
+  y: number
+) {
+  const isbt = isDonationIdentificationNumber(label.donationNumber);
+  const [dinBarcode, groupBarcode, productBarcode, expiryBarcode] =
+    await Promise.all([
+      barcodePng(
+        isbt ? encodeDonationNumber(label.donationNumber) : label.donationNumber
+      ),
+      barcodePng(encodeBloodGroup(label.bloodGroup)),
+      barcodePng(encodeProductCode(label.component)),
+      barcodePng(encodeExpiry(label.expiresAt)),
+    ]);
+  const barcodeWidth = QUADRANT - 2 * PADDING;
+  const textY = y + PADDING + BARCODE_HEIGHT + 6;
+
+  // Cut guide and quadrant dividers
+  doc
+    .lineWidth(0.5)
+    .strokeColor(MUTED)
+    .rect(x, y, LABEL, LABEL)
+    .moveTo(x + QUADRANT, y)
+    .lineTo(x + QUADRANT, y + LABEL)
+    .moveTo(x, y + QUADRANT)
+    .lineTo(x + LABEL, y + QUADRANT)
+    .stroke();
+
+  // Donation identification number
+  doc.image(dinBarcode, x + PADDING, y + PADDING, {
+    fit: [barcodeWidth, BARCODE_HEIGHT],
+  });
+  doc
+    .fillColor("black")
+    .font("Helvetica-Bold")
+    .fontSize(isbt ? 11 : 9)
+    .text(formatEyeReadable(label.donationNumber), x + PADDING, textY, {
+      width: barcodeWidth - 16,
+      lineBreak: false,
+    });
+  if (isbt) {
+    const boxX = x + QUADRANT - PADDING - 12;
+    doc.rect(boxX, textY - 2, 12, 14).stroke();
+    doc.text(checkCharacter(label.donationNumber), boxX, textY, {
+      width: 12,
+      align: "center",
+    });
+  }
+  doc
+    .font("Helvetica")
+    .fontSize(7)
+    .fillColor(MUTED)
+    .text(label.organizationName, x + PADDING, textY + 18, {
+      width: barcodeWidth,
+      ellipsis: true,
+      height: 9,
+    })
+    .text(
+      `Collected ${formatLabelDate(label.collectedAt)}`,
+      x + PADDING,
+      textY + 30
+    );
+
+  // Blood group
+  doc.image(groupBarcode, x + QUADRANT + PADDING, y + PADDING, {
+    fit: [barcodeWidth, BARCODE_HEIGHT],
+  });
+  doc
+    .fillColor("black")
+    .font("Helvetica-Bold")
+    .fontSize(40)
+    .text(formatBloodGroup(label.bloodGroup), x + QUADRANT, textY, {
+      width: QUADRANT,
+      align: "center",
+    });
+
+  // Product code
+  const bottomY = y + QUADRANT;
+  doc.image(productBarcode, x + PADDING, bottomY + PADDING, {
+    fit: [barcodeWidth, BARCODE_HEIGHT],
+  });
+  doc
+    .font("Helvetica-Bold")
+    .fontSize(9)
+    .text(
+      componentProductCodes[label.component],
+      x + PADDING,
+      bottomY + PADDING + BARCODE_HEIGHT + 6
+    )
+    .fontSize(12)
+    .text(label.component.replace("_", " "), x + PADDING, undefined, {
+      width: barcodeWidth,
+    });
+  if (label.volumeMl) {
+    doc
+      .font("Helvetica")
+      .fontSize(9)
+      .text(`${label.volumeMl} ml`, x + PADDING);
+  }
+
+  // Expiry
+  doc.image(expiryBarcode, x + QUADRANT + PADDING, bottomY + PADDING, {
+    fit: [barcodeWidth, BARCODE_HEIGHT],
+  });
+  doc
+    .fillColor(MUTED)
+    .font("Helvetica")
+    .fontSize(8)
+    .text(
+      "EXPIRES",
+      x + QUADRANT + PADDING,
+      bottomY + PADDING + BARCODE_HEIGHT + 6
+    )
+    .fillColor("black")
+    .font("Helvetica-Bold")
+    .fontSize(11)
+    .text(
+      formatLabelDate(label.expiresAt, true),
+      x + QUADRANT + PADDING,
+      undefined,
+      {
+        width: barcodeWidth,
+      }
+    );
+}
+
+/** A4 label sheets for the given units, four labels per page */
+export async function renderUnitLabels(
+  labels: UnitLabelData[]
+): Promise<Buffer> {
+  const doc = new PDFDocument({
+    size: "A4",
+    margin: 0,
+    autoFirstPage: false,
+    info: { Title: "Blood unit labels" },
+  });
+
+  for (let i = 0; i < labels.length; i++) {
+    const slot = i % LABELS_PER_PAGE;
+    if (slot === 0) doc.addPage();
+
+    const { width, height } = doc.page;
+    const left = (width - LABELS_PER_ROW * LABEL) / 2;
+    const top = (height - 2 * LABEL) / 2;
+    await drawLabel(
+      doc,
+      labels[i],
+      left + (slot % LABELS_PER_ROW) * LABEL,
+      top + Math.floor(slot / LABELS_PER_ROW) * LABEL
+    );
+  }
+
+  return toBuffer(doc);
+}
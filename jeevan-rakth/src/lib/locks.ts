@@ -0,0 +1,44 @@
+import { randomUUID } from "crypto";
+import redis from "@/lib/redis";
+
+// Delete the key only if it still holds our token, so a lock that expired
+// and was taken by another instance is never released by us
+const RELEASE_SCRIPT = `
+if redis.call("get", KEYS[1]) == ARGV[1] then
+  return redis.call("del", KEYS[1])
+end
+return 0
+`;
+
+/**
+ * Run `fn` while holding a Redis lock (SET NX PX).
+ *
+ * Returns `{ acquired: false }` without running `fn` when another process
+ * holds the lock or Redis is unavailable. Unlike caching, locking fails
+ * closed: the caller should retry on its next run. `ttlMs` must exceed the
+ * time `fn` can take, otherwise the lock expires while still in use.
+ */
+export async function withRedisLock<T>(
+  key: string,
+  ttlMs: number,
+  fn: () => Promise<T>
+): Promise<{ acquired: true; result: T } | { acquired: false }> {
+  const token = randomUUID();
+  try {
+    const ok = await redis.set(key, token, "PX", ttlMs, "NX");
+    if (ok !== "OK") return { acquired: false };
+  } catch (err) {
+    console.warn("Redis SET NX failed", err);
+    return { acquired: false };
+  }
+
+  try {
+    return { acquired: true, result: await fn() };
+  } finally {
+    try {
+      await redis.eval(RELEASE_SCRIPT, 1, key, token);
+    } catch (err) {
+      console.warn("Redis lock release failed", err);
+    }
+  }
+}
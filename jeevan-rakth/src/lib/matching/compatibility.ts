@@ -0,0 +1,157 @@
+/**
+ * ABO/Rh and Component Compatibility
+ *
+ * Pure functions that decide which donor blood groups can serve which
+ * recipients, per blood component:
+ *
+ * - RED_CELLS: donor red cells must not carry an A/B antigen the recipient
+ *   lacks. O- is the universal donor, AB+ the universal recipient.
+ * - PLASMA: reverse of red cells – donor plasma must not carry antibodies
+ *   against the recipient's antigens. AB is the universal plasma donor and
+ *   Rh does not apply.
+ * - PLATELETS: suspended in plasma, so ABO follows the plasma rule; a few
+ *   red cells remain, so Rh-negative recipients need Rh-negative platelets.
+ * - WHOLE_BLOOD: carries both cells and plasma, so ABO must be identical;
+ *   Rh follows the red cell rule.
+ *
+ * No database or framework imports here, so this module can be exercised
+ * directly by `npm run test:compatibility`.
+ */
+
+import type { BloodComponent } from "@prisma/client";
+import { BLOOD_GROUPS, type BloodGroupCode } from "@/lib/bloodGroups";
+
+type Abo = "A" | "B" | "AB" | "O";
+
+function splitGroup(group: BloodGroupCode): { abo: Abo; rhPositive: boolean } {
+  const [abo, rh] = group.split("_") as [Abo, "POS" | "NEG"];
+  return { abo, rhPositive: rh === "POS" };
+}
+
+function antigens(abo: Abo): string[] {
+  return abo === "O" ? [] : abo === "AB" ? ["A", "B"] : [abo];
+}
+
+/** Donor cells carry no A/B antigen the recipient lacks */
+function redCellAboCompatible(donor: Abo, recipient: Abo): boolean {
+  const recipientAntigens = antigens(recipient);
+  return antigens(donor).every((a) => recipientAntigens.includes(a));
+}
+
+/** Donor plasma carries no antibody against the recipient's antigens */
+function plasmaAboCompatible(donor: Abo, recipient: Abo): boolean {
+  return redCellAboCompatible(recipient, donor);
+}
+
+/** Rh-positive donations may only go to Rh-positive recipients */
+function rhCompatible(donorPositive: boolean, recipientPositive: boolean) {
+  return recipientPositive || !donorPositive;
+}
+
+/**
+ * Check whether a donor group can serve a recipient for a component
+ */
+export function isCompatible(
+  donorGroup: BloodGroupCode,
+  recipientGroup: BloodGroupCode,
+  component: BloodComponent
+): boolean {
+  const donor = splitGroup(donorGroup);
+  const recipient = splitGroup(recipientGroup);
+
+  switch (component) {
+    case "RED_CELLS":
+      return (
+        redCellAboCompatible(donor.abo, recipient.abo) &&
+        rhCompatible(donor.rhPositive, recipient.rhPositive)
+      );
+    case "PLASMA":
+      return plasmaAboCompatible(donor.abo, recipient.abo);
+    case "PLATELETS":
+      return (
+        plasmaAboCompatible(donor.abo, recipient.abo) &&
+        rhCompatible(donor.rhPositive, recipient.rhPositive)
+      );
+    case "WHOLE_BLOOD":
+      return (
+        donor.abo === recipient.abo &&
+        rhCompatible(donor.rhPositive, recipient.rhPositive)
+      );
+  }
+}
+
+/**
+ * Number of recipient groups a donor group can serve for a component.
+ * Used to keep "universal" donors in reserve when a closer match exists.
+ */
+export function recipientBreadth(
+  donorGroup: BloodGroupCode,
+  component: BloodComponent
+): number {
+  return BLOOD_GROUPS.filter((recipient) =>
+    isCompatible(donorGroup, recipient, component)
+  ).length;
+}
+
+/**
+ * List donor groups that can serve a recipient, best first: the exact group,
+ * then compatible groups from the most specific to the most universal.
+ */
+export function compatibleDonorGroups(
+  recipientGroup: BloodGroupCode,
+  component: BloodComponent
+): BloodGroupCode[] {
+  return BLOOD_GROUPS.filter((donor) =>
+    isCompatible(donor, recipientGroup, component)
+  ).sort((a, b) => {
+    if (a === recipientGroup) return -1;
+    if (b === recipientGroup) return 1;
+    return recipientBreadth(a, component) - recipientBreadth(b, component);
+  });
+}
+
+export type MatchType = "EXACT" | "COMPATIBLE";
+
+export type RankedDonor<T> = {
+  donor: T;
+  matchType: MatchType;
+  rank: number;
+};
+
+type MatchCriteria = {
+  bloodGroup: BloodGroupCode;
+  component: BloodComponent;
+};
+
+/**
+ * Rank donors for a blood request.
+ *
+ * Incompatible donors are dropped. Exact-type matches come before
+ * compatible-but-different ones, and compatible groups are ordered so that
+ * universal donors (e.g. O-) are used last. Within the same group the input
+ * order is kept, so callers can pre-sort by distance or recency.
+ */
+export function rankCompatibleDonors<T extends { bloodGroup: BloodGroupCode }>(
+  request: MatchCriteria,
+  donors: T[]
+): RankedDonor<T>[] {
+  const groupOrder = compatibleDonorGroups(
+    request.bloodGroup,
+    request.component
+  );
+
+  return donors
+    .map((donor, index) => ({ donor, index }))
+    .filter(({ donor }) => groupOrder.includes(donor.bloodGroup))
+    .sort(
+      (a, b) =>
+        groupOrder.indexOf(a.donor.bloodGroup) -
+          groupOrder.indexOf(b.donor.bloodGroup) || a.index - b.index
+    )
+    .map(({ donor }, position) => ({
+      donor,
+      matchType:
+        donor.bloodGroup === request.bloodGroup ? "EXACT" : "COMPATIBLE",
+      rank: position + 1,
+    }));
+}
@@ -0,0 +1,36 @@
+import { appendFile } from "fs/promises";
+import type { NotificationChannel } from "@prisma/client";
+import type { NotificationTransport } from "@/lib/notifications/types";
+
+/**
+ * Development/test transport standing in for an external channel.
+ *
+ * Messages are logged to the console and, when NOTIFICATIONS_LOG_FILE is
+ * set, appended to that file as JSON lines so tests can assert on them.
+ */
+export function consoleTransport(
+  channel: NotificationChannel
+): NotificationTransport {
+  return {
+    channel,
+    async send(recipient, message) {
+      const entry = {
+        channel,
+        to: {
+          userId: recipient.userId,
+          email: recipient.email,
+          phone: recipient.phone,
+        },
+        ...message,
+        at: new Date().toISOString(),
+      };
+      console.log(`[notify:${channel}]`, JSON.stringify(entry));
+
+      const file = process.env.NOTIFICATIONS_LOG_FILE;
+      if (file) {
+        await appendFile(file, `${JSON.stringify(entry)}\n`);
+      }
+      return { status: "SENT", providerMessageId: `console-${Date.now()}` };
+    },
+  };
+}
@@ -0,0 +1,45 @@
+import nodemailer, { type Transporter } from "nodemailer";
+import type { NotificationTransport } from "@/lib/notifications/types";
+
+let transporter: Transporter | null = null;
+
+function ensureTransporter() {
+  if (!transporter) {
+    const host = process.env.SMTP_HOST;
+    if (!host) {
+      throw new Error("SMTP_HOST is not configured");
+    }
+    transporter = nodemailer.createTransport({
+      host,
+      port: Number(process.env.SMTP_PORT) || 587,
+      secure: process.env.SMTP_SECURE === "true",
+      auth: process.env.SMTP_USER
+        ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS }
+        : undefined,
+    });
+  }
+  return transporter;
+}
+
+function absoluteLink(link?: string) {
+  if (!link) return undefined;
+  const base = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
+  return new URL(link, base).toString();
+}
+
+/**
+ * Email over SMTP
+ */
+export const emailTransport: NotificationTransport = {
+  channel: "EMAIL",
+  async send(recipient, message) {
+    const url = absoluteLink(message.link);
+    const info = await ensureTransporter().sendMail({
+      from: process.env.SMTP_FROM || "Jeevan Rakth <no-reply@jeevanrakth.org>",
+      to: recipient.email,
+      subject: message.title,
+      text: url ? `${message.body}\n\n${url}` : message.body,
+    });
+    return { status: "SENT", providerMessageId: info.messageId };
+  },
+};
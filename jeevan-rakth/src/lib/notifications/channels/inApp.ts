@@ -0,0 +1,21 @@
+import { prisma } from "@/lib/prisma";
+import type { NotificationTransport } from "@/lib/notifications/types";
+
+/**
+ * Stores the notification for the app's notification list
+ */
+export const inAppTransport: NotificationTransport = {
+  channel: "IN_APP",
+  async send(recipient, message) {
+    const notification = await prisma.notification.create({
+      data: {
+        userId: recipient.userId,
+        title: message.title,
+        body: message.body,
+        link: message.link,
+      },
+      select: { id: true },
+    });
+    return { status: "SENT", providerMessageId: String(notification.id) };
+  },
+};
@@ -0,0 +1,69 @@
+import webpush, { WebPushError } from "web-push";
+import { prisma } from "@/lib/prisma";
+import type { NotificationTransport } from "@/lib/notifications/types";
+
+let configured = false;
+
+function ensureVapid() {
+  if (!configured) {
+    const publicKey = process.env.VAPID_PUBLIC_KEY;
+    const privateKey = process.env.VAPID_PRIVATE_KEY;
+    if (!publicKey || !privateKey) {
+      throw new Error("VAPID keys are not configured");
+    }
+    webpush.setVapidDetails(
+      process.env.VAPID_SUBJECT || "mailto:admin@jeevanrakth.org",
+      publicKey,
+      privateKey
+    );
+    configured = true;
+  }
+}
+
+/**
+ * Web Push to every browser the user has subscribed from
+ */
+export const pushTransport: NotificationTransport = {
+  channel: "PUSH",
+  async send(recipient, message) {
+    const subscriptions = await prisma.pushSubscription.findMany({
+      where: { userId: recipient.userId },
+    });
+    if (subscriptions.length === 0) {
+      return { status: "SKIPPED", reason: "No push subscription" };
+    }
+
+    ensureVapid();
+    const payload = JSON.stringify(message);
+    let delivered = 0;
+
+    for (const subscription of subscriptions) {
+      try {
+        await webpush.sendNotification(
+          {
+            endpoint: subscription.endpoint,
+            keys: { p256dh: subscription.p256dh, auth: subscription.auth },
+          },
+          payload
+        );
+        delivered += 1;
+      } catch (error) {
+        // 404/410 → the browser unsubscribed; forget the endpoint
+        if (
+          error instanceof WebPushError &&
+          (error.statusCode === 404 || error.statusCode === 410)
+        ) {
+          await prisma.pushSubscription.delete({
+            where: { id: subscription.id },
+          });
+          continue;
+        }
+        throw error;
+      }
+    }
+
+    return delivered > 0
+      ? { status: "SENT", providerMessageId: `${delivered} device(s)` }
+      : { status: "SKIPPED", reason: "All push subscriptions expired" };
+  },
+};
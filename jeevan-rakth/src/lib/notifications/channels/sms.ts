@@ -0,0 +1,42 @@
+import type { NotificationTransport } from "@/lib/notifications/types";
+
+/**
+ * SMS through the Twilio REST API
+ */
+export const smsTransport: NotificationTransport = {
+  channel: "SMS",
+  async send(recipient, message) {
+    if (!recipient.phone) {
+      return { status: "SKIPPED", reason: "No phone number" };
+    }
+
+    const accountSid = process.env.TWILIO_ACCOUNT_SID;
+    const authToken = process.env.TWILIO_AUTH_TOKEN;
+    const from = process.env.TWILIO_FROM_NUMBER;
+    if (!accountSid || !authToken || !from) {
+      throw new Error("Twilio SMS is not configured");
+    }
+
+    const res = await fetch(
+      `https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`,
+      {
+        method: "POST",
+        headers: {
+          Authorization: `Basic ${Buffer.from(`${accountSid}:${authToken}`).toString("base64")}`,
+          "Content-Type": "application/x-www-form-urlencoded",
+        },
+        body: new URLSearchParams({
+          From: from,
+          To: recipient.phone,
+          Body: `${message.title}: ${message.body}`,
+        }),
+      }
+    );
+
+    if (!res.ok) {
+      throw new Error(`SMS provider responded ${res.status}`);
+    }
+    const payload = (await res.json()) as { sid?: string };
+    return { status: "SENT", providerMessageId: payload.sid };
+  },
+};
@@ -0,0 +1,282 @@
+/**
+ * Donor Alert Fan-out
+ *
+ * Alerts eligible, compatible donors near the hospital when a critical
+ * request is opened. The first automatic wave only reaches exact-group
+ * donors so universal donors are kept in reserve; compatible groups and a
+ * wider radius are added by escalation. Each donor is alerted at
+ * most once per request (DonorAlert is unique per request and donor),
+ * donors who opted out or are away are never contacted, intrusive
+ * channels are held back during quiet hours (and outside preferred contact
+ * hours unless the request is critical), and a daily budget caps alerts
+ * per donor.
+ * Once pledges cover the request (or it closes) no more alerts go out.
+ *
+ * Requests naming antigen-negative criteria only reach donors typed
+ * negative for them. Rare donors are never alerted automatically.
+ *
+ * Urgent and critical requests only reach verified donors. Each alert
+ * carries a signed link the donor can use to answer without logging in.
+ */
+
+import { Prisma, type NotificationChannel } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { formatBloodGroup } from "@/lib/bloodGroups";
+import { searchDonorsNearby } from "@/lib/donors/search";
+import { alertPolicy } from "@/config/notifications";
+import { ALL_CHANNELS, notify } from "@/lib/notifications";
+import {
+  isOutsideContactHours,
+  isWithinQuietHours,
+} from "@/lib/notifications/quietHours";
+import { consumeDailyAlertBudget } from "@/lib/notifications/throttle";
+import { isClosedStatus } from "@/lib/bloodRequests/lifecycle";
+import { isRequestCovered } from "@/lib/bloodRequests/responses";
+import {
+  createResponseToken,
+  responseLinkPath,
+} from "@/lib/bloodRequests/responseLinks";
+import { recordRequestEvent } from "@/lib/bloodRequests/events";
+import { requiresVerifiedDonors } from "@/lib/donors/verification";
+
+// Channels that may wake someone up; held back during quiet hours
+const INTRUSIVE_CHANNELS: NotificationChannel[] = ["SMS", "PUSH"];
+
+const COMPONENT_LABELS = {
+  WHOLE_BLOOD: "whole blood",
+  RED_CELLS: "red cells",
+  PLASMA: "plasma",
+  PLATELETS: "platelets",
+} as const;
+
+export type FanOutSummary = {
+  requestId: number;
+  /** True when the request was closed or already covered by pledges */
+  stopped: boolean;
+  candidates: number;
+  alerted: number;
+  alreadyAlerted: number;
+  optedOut: number;
+  throttled: number;
+};
+
+export type FanOutOptions = {
+  radiusKm?: number;
+  limit?: number;
+  /** Skip compatible, non-identical groups */
+  exactMatchOnly?: boolean;
+};
+
+/**
+ * Alert nearby donors for a blood request.
+ *
+ * @throws Error("BLOOD_REQUEST_NOT_FOUND") if the request does not exist
+ * @throws Error("REQUEST_LOCATION_UNKNOWN") if neither the request nor its
+ * organization has coordinates
+ */
+export async function fanOutRequestAlerts(
+  requestId: number,
+  options: FanOutOptions = {}
+): Promise<FanOutSummary> {
+  const request = await prisma.bloodRequest.findUnique({
+    where: { id: requestId },
+    include: {
+      organization: { select: { name: true, latitude: true, longitude: true } },
+    },
+  });
+  if (!request) throw new Error("BLOOD_REQUEST_NOT_FOUND");
+
+  const summary: FanOutSummary = {
+    requestId,
+    stopped: false,
+    candidates: 0,
+    alerted: 0,
+    alreadyAlerted: 0,
+    optedOut: 0,
+    throttled: 0,
+  };
+
+  if (isClosedStatus(request.status) || isRequestCovered(request)) {
+    summary.stopped = true;
+    return summary;
+  }
+
+  const lat = request.hospitalLatitude ?? request.organization.latitude;
+  const lng = request.hospitalLongitude ?? request.organization.longitude;
+  if (lat === null || lng === null) throw new Error("REQUEST_LOCATION_UNKNOWN");
+
+  const { donors } = await searchDonorsNearby({
+    lat,
+    lng,
+    radiusKm: options.radiusKm ?? alertPolicy.radiusKm,
+    bloodGroup: request.bloodGroup,
+    component: request.component,
+    exactMatchOnly: options.exactMatchOnly,
+    verifiedOnly: requiresVerifiedDonors(request.urgency),
+    antigenNegative: request.requiredAntigenNegative,
+    // Rare donors are reached by a coordinator once an admin approves
+    excludeRareDonors: true,
+    page: 1,
+    limit: options.limit ?? alertPolicy.maxDonorsPerRequest,
+  });
+
+  // Exact matches first; search results are already nearest-first
+  const ordered = [
+    ...donors.filter((d) => d.matchType === "EXACT"),
+    ...donors.filter((d) => d.matchType !== "EXACT"),
+  ];
+
+  summary.candidates = ordered.length;
+  if (ordered.length === 0) return summary;
+
+  const ids = ordered.map((d) => d.donorProfileId);
+  const [existing, profiles] = await Promise.all([
+    prisma.donorAlert.findMany({
+      where: { bloodRequestId: requestId, donorProfileId: { in: ids } },
+      select: { donorProfileId: true },
+    }),
+    prisma.donorProfile.findMany({
+      where: { id: { in: ids } },
+      select: {
+        id: true,
+        phone: true,
+        alertsOptOut: true,
+        optedOutChannels: true,
+        quietHoursStart: true,
+        quietHoursEnd: true,
+        contactHoursStart: true,
+        contactHoursEnd: true,
+        timezone: true,
+        user: { select: { id: true, name: true, email: true } },
+      },
+    }),
+  ]);
+  const alreadyAlerted = new Set(existing.map((a) => a.donorProfileId));
+  const profileById = new Map(profiles.map((p) => [p.id, p]));
+
+  const title = `Urgent: ${formatBloodGroup(request.bloodGroup)} ${COMPONENT_LABELS[request.component]} needed`;
+  const body =
+    `${request.hospitalName} needs ${request.unitsNeeded} unit(s) by ` +
+    `${request.requiredBy.toLocaleString("en-IN")}. Can you donate?`;
+  const now = new Date();
+
+  await Promise.all(
+    ordered.map(async ({ donorProfileId }) => {
+      const profile = profileById.get(donorProfileId);
+      if (!profile) return;
+
+      if (alreadyAlerted.has(donorProfileId)) {
+        summary.alreadyAlerted += 1;
+        return;
+      }
+      if (profile.alertsOptOut) {
+        summary.optedOut += 1;
+        return;
+      }
+      // Claim the donor for this request before spending their daily
+      // budget, so a fan-out that loses the race spends nothing
+      let alertId: number;
+      try {
+        const alert = await prisma.donorAlert.create({
+          data: { bloodRequestId: requestId, donorProfileId },
+          select: { id: true },
+        });
+        alertId = alert.id;
+      } catch (error) {
+        // A concurrent fan-out alerted this donor first
+        if (
+          error instanceof Prisma.PrismaClientKnownRequestError &&
+          error.code === "P2002"
+        ) {
+          summary.alreadyAlerted += 1;
+          return;
+        }
+        throw error;
+      }
+
+      if (!(await consumeDailyAlertBudget(donorProfileId, now))) {
+        // Release the claim so a later wave may still alert them
+        await prisma.donorAlert.delete({ where: { id: alertId } });
+        summary.throttled += 1;
+        return;
+      }
+
+      const skip: Partial<Record<NotificationChannel, string>> = {};
+      if (
+        isWithinQuietHours(
+          profile.quietHoursStart,
+          profile.quietHoursEnd,
+          profile.timezone,
+          now
+        )
+      ) {
+        for (const channel of INTRUSIVE_CHANNELS) skip[channel] = "Quiet hours";
+      } else if (
+        request.urgency !== "CRITICAL" &&
+        isOutsideContactHours(
+          profile.contactHoursStart,
+          profile.contactHoursEnd,
+          profile.timezone,
+          now
+        )
+      ) {
+        for (const channel of INTRUSIVE_CHANNELS) {
+          skip[channel] = "Outside contact hours";
+        }
+      }
+
+      await notify(
+        {
+          userId: profile.user.id,
+          name: profile.user.name,
+          email: profile.user.email,
+          phone: profile.phone,
+        },
+        {
+          title,
+          body,
+          link: responseLinkPath(
+            createResponseToken(
+              { requestId, donorProfileId },
+              request.requiredBy
+            )
+          ),
+        },
+        {
+          channels: ALL_CHANNELS.filter(
+            (channel) => !profile.optedOutChannels.includes(channel)
+          ),
+          skip,
+          alertId,
+        }
+      );
+      summary.alerted += 1;
+    })
+  );
+
+  console.log("Donor alert fan-out", summary);
+  if (summary.alerted > 0) {
+    await recordRequestEvent({
+      requestId,
+      type: "ALERTS_SENT",
+      message: `Alerted ${summary.alerted} donor(s)`,
+      data: {
+        ...summary,
+        radiusKm: options.radiusKm ?? alertPolicy.radiusKm,
+        exactMatchOnly: options.exactMatchOnly ?? false,
+      },
+    });
+  }
+  return summary;
+}
+
+/**
+ * Start the first, exact-group wave of alerts without holding up the caller
+ * (e.g. the API response that created the request). Failures are logged,
+ * not thrown.
+ */
+export function triggerRequestAlerts(requestId: number): void {
+  fanOutRequestAlerts(requestId, { exactMatchOnly: true }).catch((error) => {
+    console.error("Donor alert fan-out failed", requestId, error);
+  });
+}
@@ -0,0 +1,124 @@
+/**
+ * Notification Subsystem
+ *
+ * Sends a message to a user over several channels and records one
+ * NotificationDelivery row per channel attempt. In-app notifications always
+ * go to the database; email, SMS and push use live providers when
+ * NOTIFICATION_TRANSPORT=live and the console/file transport otherwise, so
+ * development and tests never reach real people.
+ */
+
+import type { DeliveryStatus, NotificationChannel } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { inAppTransport } from "@/lib/notifications/channels/inApp";
+import { emailTransport } from "@/lib/notifications/channels/email";
+import { smsTransport } from "@/lib/notifications/channels/sms";
+import { pushTransport } from "@/lib/notifications/channels/push";
+import { consoleTransport } from "@/lib/notifications/channels/console";
+import type {
+  NotificationMessage,
+  NotificationTransport,
+  Recipient,
+} from "@/lib/notifications/types";
+
+export type {
+  NotificationMessage,
+  NotificationTransport,
+  Recipient,
+} from "@/lib/notifications/types";
+
+export const ALL_CHANNELS: NotificationChannel[] = [
+  "IN_APP",
+  "EMAIL",
+  "SMS",
+  "PUSH",
+];
+
+const TRANSPORT_MODE = (
+  process.env.NOTIFICATION_TRANSPORT ??
+  (process.env.NODE_ENV === "production" ? "live" : "console")
+).toLowerCase();
+
+let transports: Record<NotificationChannel, NotificationTransport> | null =
+  null;
+
+function getTransports() {
+  if (!transports) {
+    const live = TRANSPORT_MODE === "live";
+    transports = {
+      IN_APP: inAppTransport,
+      EMAIL: live ? emailTransport : consoleTransport("EMAIL"),
+      SMS: live ? smsTransport : consoleTransport("SMS"),
+      PUSH: live ? pushTransport : consoleTransport("PUSH"),
+    };
+  }
+  return transports;
+}
+
+export type NotifyOptions = {
+  /** Channels to attempt; defaults to every channel */
+  channels?: NotificationChannel[];
+  /** Channels not to attempt, recorded as SKIPPED with the given reason */
+  skip?: Partial<Record<NotificationChannel, string>>;
+  /** Donor alert the deliveries belong to, if any */
+  alertId?: number;
+};
+
+export type DeliveryOutcome = {
+  channel: NotificationChannel;
+  status: DeliveryStatus;
+  error?: string;
+};
+
+/**
+ * Deliver a message on each requested channel and record every attempt.
+ * Never throws for provider failures; they are returned as FAILED.
+ */
+export async function notify(
+  recipient: Recipient,
+  message: NotificationMessage,
+  options: NotifyOptions = {}
+): Promise<DeliveryOutcome[]> {
+  const channels = options.channels ?? ALL_CHANNELS;
+  const registry = getTransports();
+
+  const attempts = await Promise.all(
+    channels.map(async (channel) => {
+      const skipReason = options.skip?.[channel];
+      if (skipReason) {
+        return { channel, status: "SKIPPED" as const, error: skipReason };
+      }
+      try {
+        const result = await registry[channel].send(recipient, message);
+        return result.status === "SENT"
+          ? {
+              channel,
+              status: "SENT" as const,
+              providerMessageId: result.providerMessageId,
+            }
+          : { channel, status: "SKIPPED" as const, error: result.reason };
+      } catch (error) {
+        console.warn(`Notification via ${channel} failed`, error);
+        return {
+          channel,
+          status: "FAILED" as const,
+          error: error instanceof Error ? error.message : String(error),
+        };
+      }
+    })
+  );
+
+  await prisma.notificationDelivery.createMany({
+    data: attempts.map((attempt) => ({
+      ...attempt,
+      userId: recipient.userId,
+      alertId: options.alertId,
+    })),
+  });
+
+  return attempts.map(({ channel, status, error }) => ({
+    channel,
+    status,
+    error,
+  }));
+}
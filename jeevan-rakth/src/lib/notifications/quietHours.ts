@@ -0,0 +1,92 @@
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+export function isValidTimeOfDay(value: string): boolean {
+  return TIME_PATTERN.test(value);
+}
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-GB", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function toMinutes(value: string): number {
+  const [hours, minutes] = value.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+function minutesInTimezone(now: Date, timezone: string): number {
+  const parts = new Intl.DateTimeFormat("en-GB", {
+    timeZone: timezone,
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(now);
+  const hour = Number(parts.find((p) => p.type === "hour")?.value ?? 0);
+  const minute = Number(parts.find((p) => p.type === "minute")?.value ?? 0);
+  return hour * 60 + minute;
+}
+
+/**
+ * Whether `now` falls inside a daily "HH:MM"-"HH:MM" window.
+ *
+ * Start and end are in `timezone`; a window such as 22:00-07:00 wraps past
+ * midnight. Missing or malformed bounds mean no window.
+ */
+function isWithinWindow(
+  start: string | null | undefined,
+  end: string | null | undefined,
+  timezone: string,
+  now: Date
+): boolean {
+  if (!start || !end || !isValidTimeOfDay(start) || !isValidTimeOfDay(end)) {
+    return false;
+  }
+
+  const current = minutesInTimezone(
+    now,
+    isValidTimezone(timezone) ? timezone : "UTC"
+  );
+  const from = toMinutes(start);
+  const to = toMinutes(end);
+
+  if (from === to) return false;
+  return from < to
+    ? current >= from && current < to
+    : current >= from || current < to;
+}
+
+/**
+ * Whether `now` falls inside a donor's quiet hours.
+ *
+ * Start and end are "HH:MM" in the donor's timezone; a window such as
+ * 22:00-07:00 wraps past midnight. Missing or malformed settings mean no
+ * quiet hours.
+ */
+export function isWithinQuietHours(
+  start: string | null | undefined,
+  end: string | null | undefined,
+  timezone: string,
+  now: Date = new Date()
+): boolean {
+  return isWithinWindow(start, end, timezone, now);
+}
+
+/**
+ * Whether `now` falls outside a donor's preferred contact hours. Donors
+ * without contact hours can be reached at any time.
+ */
+export function isOutsideContactHours(
+  start: string | null | undefined,
+  end: string | null | undefined,
+  timezone: string,
+  now: Date = new Date()
+): boolean {
+  if (!start || !end || !isValidTimeOfDay(start) || !isValidTimeOfDay(end)) {
+    return false;
+  }
+  return start !== end && !isWithinWindow(start, end, timezone, now);
+}
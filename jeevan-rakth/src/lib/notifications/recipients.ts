@@ -0,0 +1,36 @@
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import type { Recipient } from "@/lib/notifications/types";
+
+/**
+ * Recipients for the organization members matching `where`, one per user
+ * even when they hold several matching memberships
+ */
+export async function memberRecipients(
+  where: Prisma.OrganizationMemberWhereInput
+): Promise<Recipient[]> {
+  const members = await prisma.organizationMember.findMany({
+    where,
+    select: {
+      user: {
+        select: {
+          id: true,
+          name: true,
+          email: true,
+          donorProfile: { select: { phone: true } },
+        },
+      },
+    },
+  });
+
+  const byUser = new Map<number, Recipient>();
+  for (const { user } of members) {
+    byUser.set(user.id, {
+      userId: user.id,
+      name: user.name,
+      email: user.email,
+      phone: user.donorProfile?.phone,
+    });
+  }
+  return [...byUser.values()];
+}
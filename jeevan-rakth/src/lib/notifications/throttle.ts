@@ -0,0 +1,28 @@
+import redis from "@/lib/redis";
+import { alertPolicy } from "@/config/notifications";
+
+const DAY_SECONDS = 24 * 60 * 60;
+
+/**
+ * Count an alert against a donor's daily budget.
+ *
+ * Returns false once the donor has already received the daily maximum.
+ * The counter lives in Redis keyed by UTC date; if Redis is unavailable the
+ * alert is allowed (best-effort, like the rest of our caching).
+ */
+export async function consumeDailyAlertBudget(
+  donorProfileId: number,
+  now: Date = new Date()
+): Promise<boolean> {
+  const key = `alerts:daily:${donorProfileId}:${now.toISOString().slice(0, 10)}`;
+  try {
+    const count = await redis.incr(key);
+    if (count === 1) {
+      await redis.expire(key, DAY_SECONDS);
+    }
+    return count <= alertPolicy.maxAlertsPerDonorPerDay;
+  } catch (err) {
+    console.warn("Redis INCR failed", err);
+    return true;
+  }
+}
@@ -0,0 +1,32 @@
+import type { NotificationChannel } from "@prisma/client";
+
+export type NotificationMessage = {
+  title: string;
+  body: string;
+  /** Path inside the app the notification points to */
+  link?: string;
+};
+
+export type Recipient = {
+  userId: number;
+  name: string;
+  email: string;
+  phone?: string | null;
+};
+
+export type ChannelResult =
+  | { status: "SENT"; providerMessageId?: string }
+  | { status: "SKIPPED"; reason: string };
+
+/**
+ * A delivery channel. `send` resolves with SENT or SKIPPED (e.g. the
+ * recipient has no phone number) and throws when the provider fails, which
+ * is recorded as a FAILED delivery.
+ */
+export interface NotificationTransport {
+  channel: NotificationChannel;
+  send(
+    recipient: Recipient,
+    message: NotificationMessage
+  ): Promise<ChannelResult>;
+}
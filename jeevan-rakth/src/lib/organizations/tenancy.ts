@@ -0,0 +1,297 @@
+/**
+ * Organization Tenancy
+ *
+ * Hospitals, blood banks and NGOs are tenants: their blood requests and
+ * inventory are only visible to their own members. Access to a resource is
+ * granted by either the user's global role or their membership role in an
+ * organization, and data is scoped to the organizations that granted it.
+ *
+ * Platform admins see every organization. Users belonging to several
+ * organizations can narrow a request to one of them with the
+ * `x-organization-id` header.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import type { DecodedToken } from "@/lib/jwt";
+import { extractUserFromRequest, RBACLogger } from "@/lib/rbac";
+import {
+  hasOrganizationPermission,
+  hasResourcePermission,
+  type OrganizationResource,
+  type OrganizationRole,
+  type Permission,
+  type Role,
+} from "@/config/roles";
+import { ERROR_CODES, errorResponse } from "@/lib/responseHandler";
+import { handleError } from "@/lib/errorHandler";
+
+export const ORGANIZATION_HEADER = "x-organization-id";
+
+export type Membership = {
+  organizationId: number;
+  role: OrganizationRole;
+};
+
+export type TenantContext = {
+  user: DecodedToken;
+  userId: number;
+  isPlatformAdmin: boolean;
+  /** Whether the user's global role grants the checked permission */
+  hasGlobalPermission: boolean;
+  memberships: Membership[];
+  /** Organization selected with the x-organization-id header, if any */
+  activeOrganizationId: number | null;
+  /** Organizations the caller may act on; null means every organization */
+  organizationIds: number[] | null;
+};
+
+/**
+ * Build the tenant context of a request for one permission on one resource.
+ *
+ * @throws Error("INVALID_ORGANIZATION_HEADER") if the header is not an
+ * organization id
+ * @throws Error("ORGANIZATION_ACCESS_DENIED") if the header selects an
+ * organization the caller is not a member of
+ */
+export async function resolveTenant(
+  user: DecodedToken,
+  activeHeader: string | null,
+  permission: Permission,
+  resource: OrganizationResource
+): Promise<TenantContext> {
+  const userId = Number(user.id);
+  const role = user.role as Role;
+  const isPlatformAdmin = role === "admin";
+  const hasGlobalPermission = hasResourcePermission(role, resource, permission);
+  const activeOrganizationId = activeHeader ? Number(activeHeader) : null;
+  if (
+    activeOrganizationId !== null &&
+    !(Number.isInteger(activeOrganizationId) && activeOrganizationId > 0)
+  ) {
+    throw new Error("INVALID_ORGANIZATION_HEADER");
+  }
+
+  const memberships: Membership[] = await prisma.organizationMember.findMany({
+    where: { userId },
+    select: { organizationId: true, role: true },
+  });
+
+  if (
+    activeOrganizationId !== null &&
+    !isPlatformAdmin &&
+    !memberships.some((m) => m.organizationId === activeOrganizationId)
+  ) {
+    throw new Error("ORGANIZATION_ACCESS_DENIED");
+  }
+
+  let organizationIds: number[] | null;
+  if (isPlatformAdmin) {
+    organizationIds =
+      activeOrganizationId !== null ? [activeOrganizationId] : null;
+  } else {
+    organizationIds = memberships
+      .filter(
+        (m) =>
+          (activeOrganizationId === null ||
+            m.organizationId === activeOrganizationId) &&
+          (hasGlobalPermission ||
+            hasOrganizationPermission(m.role, resource, permission))
+      )
+      .map((m) => m.organizationId);
+  }
+
+  return {
+    user,
+    userId,
+    isPlatformAdmin,
+    hasGlobalPermission,
+    memberships,
+    activeOrganizationId,
+    organizationIds,
+  };
+}
+
+/**
+ * Require Organization Permission Middleware
+ *
+ * Like requirePermission, but also honours organization membership roles
+ * and hands the resolved TenantContext to the handler.
+ *
+ * @example
+ * export const GET = requireOrganizationPermission("read", "bloodUnits")(
+ *   async (req, tenant) => {
+ *     const units = await prisma.bloodUnit.findMany({
+ *       where: organizationScope(tenant),
+ *     });
+ *   }
+ * );
+ */
+export function requireOrganizationPermission(
+  permission: Permission,
+  resource: OrganizationResource
+) {
+  return function (
+    handler: (
+      req: NextRequest,
+      tenant: TenantContext,
+      ...args: unknown[]
+    ) => Promise<NextResponse>
+  ) {
+    return async function (
+      req: NextRequest,
+      ...args: unknown[]
+    ): Promise<NextResponse> {
+      let user: DecodedToken;
+      try {
+        user = extractUserFromRequest(req);
+      } catch (error) {
+        console.error("[RBAC] Permission check error:", error);
+        return errorResponse(
+          error instanceof Error ? error.message : "Authentication failed",
+          { status: 401 }
+        );
+      }
+
+      let tenant: TenantContext;
+      try {
+        tenant = await resolveTenant(
+          user,
+          req.headers.get(ORGANIZATION_HEADER),
+          permission,
+          resource
+        );
+      } catch (error) {
+        if (
+          error instanceof Error &&
+          error.message === "INVALID_ORGANIZATION_HEADER"
+        ) {
+          return errorResponse("Validation Error", {
+            status: 400,
+            code: ERROR_CODES.VALIDATION_ERROR,
+            details: [
+              {
+                field: ORGANIZATION_HEADER,
+                message: "Must be an organization id",
+              },
+            ],
+          });
+        }
+        if (
+          error instanceof Error &&
+          error.message === "ORGANIZATION_ACCESS_DENIED"
+        ) {
+          return errorResponse("Access denied: not a member of organization", {
+            status: 403,
+            code: ERROR_CODES.ACCESS_DENIED,
+          });
+        }
+        return handleError(error, `${req.method} ${req.nextUrl.pathname}`, {
+          status: 500,
+        });
+      }
+
+      const hasAccess =
+        tenant.hasGlobalPermission ||
+        tenant.organizationIds === null ||
+        tenant.organizationIds.length > 0;
+
+      RBACLogger.logPermissionCheck(
+        user.role,
+        permission,
+        resource,
+        hasAccess,
+        user.id
+      );
+
+      if (!hasAccess) {
+        return errorResponse("Access denied: insufficient permissions", {
+          status: 403,
+        });
+      }
+
+      return handler(req, tenant, ...args);
+    };
+  };
+}
+
+/**
+ * Restrict a query on an organization-owned model to the caller's tenants
+ */
+export function organizationScope(tenant: TenantContext): {
+  organizationId?: { in: number[] };
+} {
+  return tenant.organizationIds === null
+    ? {}
+    : { organizationId: { in: tenant.organizationIds } };
+}
+
+/**
+ * Check whether the caller may act on a given organization's data
+ */
+export function canAccessOrganization(
+  tenant: TenantContext,
+  organizationId: number
+): boolean {
+  return (
+    tenant.organizationIds === null ||
+    tenant.organizationIds.includes(organizationId)
+  );
+}
+
+/**
+ * Check whether the caller administers an organization (org ADMIN or
+ * platform admin)
+ */
+export function isOrganizationAdmin(
+  tenant: TenantContext,
+  organizationId: number
+): boolean {
+  return (
+    tenant.isPlatformAdmin ||
+    tenant.memberships.some(
+      (m) => m.organizationId === organizationId && m.role === "ADMIN"
+    )
+  );
+}
+
+/**
+ * Check whether the caller holds `permission` on `resource` through a
+ * membership of the organization itself (or is a platform admin), as
+ * opposed to only through their global role
+ */
+export function isOrganizationStaff(
+  tenant: TenantContext,
+  organizationId: number,
+  permission: Permission,
+  resource: OrganizationResource
+): boolean {
+  return (
+    tenant.isPlatformAdmin ||
+    tenant.memberships.some(
+      (m) =>
+        m.organizationId === organizationId &&
+        hasOrganizationPermission(m.role, resource, permission)
+    )
+  );
+}
+
+/**
+ * Pick the organization new records should belong to: an explicit id, the
+ * organization selected by header, or the caller's only organization.
+ *
+ * @throws Error("ORGANIZATION_REQUIRED") if none can be determined
+ */
+export function resolveTargetOrganization(
+  tenant: TenantContext,
+  requested?: number
+): number {
+  const id =
+    requested ??
+    tenant.activeOrganizationId ??
+    (tenant.organizationIds?.length === 1 ? tenant.organizationIds[0] : null);
+  if (id === null || id === undefined) {
+    throw new Error("ORGANIZATION_REQUIRED");
+  }
+  return id;
+}
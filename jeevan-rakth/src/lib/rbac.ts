@@ -8,6 +8,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { verifyAccessToken, DecodedToken } from "@/lib/jwt";
 import {
+  canModify,
   hasPermission,
   hasResourcePermission,
   type Permission,
@@ -355,3 +356,30 @@ export function getUserId(req: NextRequest | Request): string | null {
     return null;
   }
 }
+
+/**
+ * Check Ownership Utility
+ *
+ * Returns true when the authenticated user owns the resource, or has a
+ * role that can modify content on behalf of others (admin or editor).
+ *
+ * @param req - The request object
+ * @param ownerId - The user ID that owns the resource
+ * @returns boolean indicating if the user may act on the resource
+ *
+ * @example
+ * if (!isOwnerOrModifier(req, Number(id))) {
+ *   return errorResponse("Access denied", { status: 403 });
+ * }
+ */
+export function isOwnerOrModifier(
+  req: NextRequest | Request,
+  ownerId: number
+): boolean {
+  try {
+    const user = extractUserFromRequest(req);
+    return Number(user.id) === ownerId || canModify(user.role as Role);
+  } catch {
+    return false;
+  }
+}
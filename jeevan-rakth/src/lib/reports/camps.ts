@@ -0,0 +1,162 @@
+/**
+ * Camp Performance Report
+ *
+ * Every camp starting in the range with its capacity, bookings, turnout
+ * and collections. A booking still BOOKED once the camp has ended is a
+ * no-show. The blood-group filter narrows bookings and donations to donors
+ * of that group; capacity is unaffected.
+ */
+
+import type { AppointmentStatus, Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import {
+  organizationFilter,
+  ratio,
+  scan,
+  type ReportDefinition,
+  type ReportFilters,
+  type ReportRow,
+  type ReportWindow,
+} from "@/lib/reports/types";
+
+// Camps plotted on the chart, busiest first
+const CHART_CAMPS = 25;
+
+const COUNT_BATCH_SIZE = 100;
+
+function where(filters: ReportFilters): Prisma.DonationCampWhereInput {
+  return {
+    startsAt: { gte: filters.from, lt: filters.to },
+    ...organizationFilter(filters),
+  };
+}
+
+function fetchCamps(
+  filters: ReportFilters,
+  page: { cursor?: { id: number }; skip: number; take: number }
+) {
+  return prisma.donationCamp.findMany({
+    ...page,
+    where: where(filters),
+    orderBy: [{ startsAt: "asc" }, { id: "asc" }],
+    select: {
+      id: true,
+      name: true,
+      city: true,
+      startsAt: true,
+      endsAt: true,
+      status: true,
+      organization: { select: { name: true } },
+      slots: { select: { capacity: true } },
+    },
+  });
+}
+
+type Camp = Awaited<ReturnType<typeof fetchCamps>>[number];
+
+/**
+ * Attach booking and donation counts to a batch of camps
+ */
+async function* withCounts(
+  camps: Camp[],
+  filters: ReportFilters,
+  now: Date
+): AsyncGenerator<ReportRow> {
+  const campIds = camps.map((camp) => camp.id);
+  const donorFilter = filters.bloodGroup
+    ? { donorProfile: { bloodGroup: filters.bloodGroup } }
+    : {};
+  const [appointments, donations] = await Promise.all([
+    prisma.campAppointment.groupBy({
+      by: ["campId", "status"],
+      where: { campId: { in: campIds }, ...donorFilter },
+      _count: true,
+    }),
+    prisma.donation.groupBy({
+      by: ["campId"],
+      where: { campId: { in: campIds }, ...donorFilter },
+      _count: true,
+      _sum: { volumeMl: true },
+    }),
+  ]);
+  const count = (campId: number, status: AppointmentStatus) =>
+    appointments.find((a) => a.campId === campId && a.status === status)
+      ?._count ?? 0;
+
+  for (const camp of camps) {
+    const collected = donations.find((d) => d.campId === camp.id);
+    const capacity = camp.slots.reduce((n, slot) => n + slot.capacity, 0);
+    const checkedIn = count(camp.id, "CHECKED_IN");
+    const stillBooked = count(camp.id, "BOOKED");
+    const booked = stillBooked + checkedIn;
+
+    yield {
+      campId: camp.id,
+      name: camp.name,
+      organization: camp.organization.name,
+      city: camp.city,
+      startsAt: camp.startsAt,
+      status: camp.status,
+      capacity,
+      booked,
+      checkedIn,
+      noShows: camp.endsAt < now ? stillBooked : 0,
+      donations: collected?._count ?? 0,
+      volumeMl: collected?._sum.volumeMl ?? 0,
+      fillRate: ratio(booked, capacity),
+      attendanceRate: ratio(checkedIn, booked),
+    };
+  }
+}
+
+async function* campRows(
+  filters: ReportFilters,
+  window?: ReportWindow
+): AsyncGenerator<ReportRow> {
+  const now = new Date();
+  let batch: Camp[] = [];
+
+  // Counts are fetched for a batch of camps at a time, not per camp
+  for await (const camp of scan((page) => fetchCamps(filters, page), window)) {
+    batch.push(camp);
+    if (batch.length === COUNT_BATCH_SIZE) {
+      yield* withCounts(batch, filters, now);
+      batch = [];
+    }
+  }
+  if (batch.length > 0) yield* withCounts(batch, filters, now);
+}
+
+export const campsReport: ReportDefinition = {
+  id: "camps",
+  title: "Camp performance",
+  description: "Bookings, turnout and collections per camp",
+  columns: [
+    { key: "campId", label: "Camp", type: "number" },
+    { key: "name", label: "Name", type: "string" },
+    { key: "organization", label: "Organization", type: "string" },
+    { key: "city", label: "City", type: "string" },
+    { key: "startsAt", label: "Starts at", type: "date" },
+    { key: "status", label: "Status", type: "string" },
+    { key: "capacity", label: "Capacity", type: "number" },
+    { key: "booked", label: "Booked", type: "number" },
+    { key: "checkedIn", label: "Checked in", type: "number" },
+    { key: "noShows", label: "No-shows", type: "number" },
+    { key: "donations", label: "Donations", type: "number" },
+    { key: "volumeMl", label: "Volume (ml)", type: "number" },
+    { key: "fillRate", label: "Fill rate", type: "percent" },
+    { key: "attendanceRate", label: "Attendance", type: "percent" },
+  ],
+  chartLabel: `Donations per camp (top ${CHART_CAMPS})`,
+  chartUnit: "count",
+
+  async chart(filters) {
+    const points = [];
+    for await (const row of campRows(filters)) {
+      points.push({ label: String(row.name), value: Number(row.donations) });
+    }
+    return points.sort((a, b) => b.value - a.value).slice(0, CHART_CAMPS);
+  },
+
+  rows: campRows,
+};
@@ -0,0 +1,120 @@
+/**
+ * Donations Report
+ *
+ * Every donation collected in the range, charted as donations per day,
+ * week or month. Donor name and phone are PII.
+ */
+
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { formatBloodGroup } from "@/lib/bloodGroups";
+import type { ReportInterval } from "@/lib/schemas/reportSchema";
+import {
+  organizationFilter,
+  organizationSql,
+  scan,
+  type ReportDefinition,
+  type ReportFilters,
+} from "@/lib/reports/types";
+
+/**
+ * Label a period bucket: "2026-10" for months, its first day otherwise
+ */
+function periodLabel(start: Date, interval: ReportInterval): string {
+  const day = start.toISOString().slice(0, 10);
+  return interval === "month" ? day.slice(0, 7) : day;
+}
+
+function where(filters: ReportFilters): Prisma.DonationWhereInput {
+  return {
+    collectedAt: { gte: filters.from, lt: filters.to },
+    ...organizationFilter(filters),
+    ...(filters.bloodGroup && {
+      donorProfile: { bloodGroup: filters.bloodGroup },
+    }),
+  };
+}
+
+export const donationsReport: ReportDefinition = {
+  id: "donations",
+  title: "Donations",
+  description: "Donations collected per period",
+  columns: [
+    { key: "collectedAt", label: "Collected at", type: "date" },
+    { key: "donationNumber", label: "Donation number", type: "string" },
+    { key: "organization", label: "Organization", type: "string" },
+    { key: "camp", label: "Camp", type: "string" },
+    { key: "bloodGroup", label: "Blood group", type: "string" },
+    { key: "component", label: "Component", type: "string" },
+    { key: "volumeMl", label: "Volume (ml)", type: "number" },
+    { key: "donorName", label: "Donor", type: "string", pii: true },
+    { key: "donorPhone", label: "Donor phone", type: "string", pii: true },
+  ],
+  chartLabel: "Donations per period",
+  chartUnit: "count",
+
+  async chart(filters) {
+    const bloodGroupSql = filters.bloodGroup
+      ? Prisma.sql`AND p."bloodGroup"::text = ${filters.bloodGroup}`
+      : Prisma.empty;
+    // Grouped by ordinal: the interval parameter appears only once
+    const rows = await prisma.$queryRaw<{ period: Date; count: number }[]>`
+      SELECT date_trunc(${filters.interval}, d."collectedAt") AS "period",
+             COUNT(*)::int AS "count"
+      FROM "Donation" d
+      JOIN "DonorProfile" p ON p."id" = d."donorProfileId"
+      WHERE d."collectedAt" >= ${filters.from}
+        AND d."collectedAt" < ${filters.to}
+        ${organizationSql(filters, Prisma.sql`d."organizationId"`)}
+        ${bloodGroupSql}
+      GROUP BY 1
+      ORDER BY 1
+    `;
+    return rows.map((row) => ({
+      label: periodLabel(row.period, filters.interval),
+      value: row.count,
+    }));
+  },
+
+  async *rows(filters, window) {
+    const donations = scan(
+      (page) =>
+        prisma.donation.findMany({
+          ...page,
+          where: where(filters),
+          orderBy: [{ collectedAt: "asc" }, { id: "asc" }],
+          select: {
+            id: true,
+            collectedAt: true,
+            donationNumber: true,
+            component: true,
+            volumeMl: true,
+            organization: { select: { name: true } },
+            camp: { select: { name: true } },
+            donorProfile: {
+              select: {
+                bloodGroup: true,
+                phone: true,
+                user: { select: { name: true } },
+              },
+            },
+          },
+        }),
+      window
+    );
+
+    for await (const donation of donations) {
+      yield {
+        collectedAt: donation.collectedAt,
+        donationNumber: donation.donationNumber,
+        organization: donation.organization.name,
+        camp: donation.camp?.name ?? null,
+        bloodGroup: formatBloodGroup(donation.donorProfile.bloodGroup),
+        component: donation.component,
+        volumeMl: donation.volumeMl,
+        donorName: donation.donorProfile.user.name,
+        donorPhone: donation.donorProfile.phone,
+      };
+    }
+  },
+};
@@ -0,0 +1,122 @@
+/**
+ * Report Exports
+ *
+ * CSV and XLSX files are written to the response as rows arrive from the
+ * database, so exporting years of donations never builds the file in
+ * memory. Only the columns passed in are written; callers drop PII
+ * columns before exporting for users who may not see them.
+ */
+
+import { PassThrough, Readable } from "stream";
+import ExcelJS from "exceljs";
+import { NextResponse } from "next/server";
+import type { ReportFormat } from "@/lib/schemas/reportSchema";
+import type { ReportColumn, ReportRow, ReportValue } from "@/lib/reports/types";
+
+const CONTENT_TYPES: Record<ReportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+};
+
+/**
+ * Quote a CSV cell. Cells that a spreadsheet would run as a formula are
+ * prefixed with an apostrophe.
+ */
+function csvCell(value: ReportValue): string {
+  if (value === null) return "";
+  let text = value instanceof Date ? value.toISOString() : String(value);
+  if (typeof value === "string" && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function csvLine(cells: ReportValue[]): string {
+  return `${cells.map(csvCell).join(",")}\r\n`;
+}
+
+export function csvStream(
+  columns: ReportColumn[],
+  rows: AsyncGenerator<ReportRow>
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      // Byte-order mark so Excel opens the file as UTF-8
+      controller.enqueue(
+        encoder.encode(`\uFEFF${csvLine(columns.map((c) => c.label))}`)
+      );
+    },
+    async pull(controller) {
+      const { value, done } = await rows.next();
+      if (done) {
+        controller.close();
+        return;
+      }
+      controller.enqueue(
+        encoder.encode(csvLine(columns.map((c) => value[c.key] ?? null)))
+      );
+    },
+    async cancel() {
+      await rows.return(undefined);
+    },
+  });
+}
+
+const NUMBER_FORMATS: Partial<Record<ReportColumn["type"], string>> = {
+  date: "yyyy-mm-dd hh:mm",
+  percent: "0.0%",
+};
+
+export function xlsxStream(
+  sheetName: string,
+  columns: ReportColumn[],
+  rows: AsyncGenerator<ReportRow>
+): ReadableStream<Uint8Array> {
+  const output = new PassThrough();
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({
+    stream: output,
+    useStyles: true,
+  });
+  const sheet = workbook.addWorksheet(sheetName);
+  sheet.columns = columns.map((column) => ({
+    header: column.label,
+    key: column.key,
+    width: Math.max(column.label.length + 2, 12),
+    style: NUMBER_FORMATS[column.type]
+      ? { numFmt: NUMBER_FORMATS[column.type] }
+      : {},
+  }));
+
+  (async () => {
+    try {
+      for await (const row of rows) {
+        sheet.addRow(row).commit();
+      }
+      sheet.commit();
+      await workbook.commit();
+    } catch (error) {
+      console.error("[Reports] XLSX export failed:", error);
+      output.destroy(error instanceof Error ? error : undefined);
+    }
+  })();
+
+  return Readable.toWeb(output) as ReadableStream<Uint8Array>;
+}
+
+/** Send a streamed export as a download */
+export function exportResponse(
+  body: ReadableStream<Uint8Array>,
+  format: ReportFormat,
+  filename: string
+): NextResponse {
+  return new NextResponse(body, {
+    status: 200,
+    headers: {
+      "Content-Type": CONTENT_TYPES[format],
+      "Content-Disposition": `attachment; filename="${filename}.${format}"`,
+      // May contain patient or donor names; never cache in shared caches
+      "Cache-Control": "private, no-store",
+    },
+  });
+}
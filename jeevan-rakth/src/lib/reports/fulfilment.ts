@@ -0,0 +1,164 @@
+/**
+ * Request Fulfilment SLA Report
+ *
+ * Every blood request raised in the range and whether it met its SLA: a
+ * request meets it when it is FULFILLED by its required-by time. Cancelled
+ * requests are left out of the SLA rate, and open requests only count once
+ * their deadline has passed. Patient name is PII.
+ */
+
+import type { BloodRequestStatus, Prisma, UrgencyLevel } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { formatBloodGroup } from "@/lib/bloodGroups";
+import { CLOSED_STATUSES } from "@/lib/bloodRequests/lifecycle";
+import {
+  organizationFilter,
+  ratio,
+  scan,
+  type ReportDefinition,
+  type ReportFilters,
+} from "@/lib/reports/types";
+
+type SlaOutcome = "MET" | "MISSED" | "CANCELLED" | "PENDING";
+
+const URGENCIES: UrgencyLevel[] = ["CRITICAL", "URGENT", "ROUTINE"];
+
+function slaOutcome(
+  request: {
+    status: BloodRequestStatus;
+    requiredBy: Date;
+    closedAt: Date | null;
+  },
+  now: Date
+): SlaOutcome {
+  if (request.status === "CANCELLED") return "CANCELLED";
+  if (request.status === "FULFILLED") {
+    return request.closedAt && request.closedAt <= request.requiredBy
+      ? "MET"
+      : "MISSED";
+  }
+  return CLOSED_STATUSES.includes(request.status) || request.requiredBy < now
+    ? "MISSED"
+    : "PENDING";
+}
+
+function where(filters: ReportFilters): Prisma.BloodRequestWhereInput {
+  return {
+    createdAt: { gte: filters.from, lt: filters.to },
+    ...organizationFilter(filters),
+    ...(filters.bloodGroup && { bloodGroup: filters.bloodGroup }),
+  };
+}
+
+export const fulfilmentReport: ReportDefinition = {
+  id: "fulfilment",
+  title: "Request fulfilment SLA",
+  description: "Requests fulfilled by their required-by time",
+  columns: [
+    { key: "requestId", label: "Request", type: "number" },
+    { key: "createdAt", label: "Raised at", type: "date" },
+    { key: "organization", label: "Organization", type: "string" },
+    { key: "hospitalName", label: "Hospital", type: "string" },
+    { key: "patientName", label: "Patient", type: "string", pii: true },
+    { key: "bloodGroup", label: "Blood group", type: "string" },
+    { key: "component", label: "Component", type: "string" },
+    { key: "urgency", label: "Urgency", type: "string" },
+    { key: "unitsNeeded", label: "Units needed", type: "number" },
+    { key: "unitsFulfilled", label: "Units fulfilled", type: "number" },
+    { key: "requiredBy", label: "Required by", type: "date" },
+    { key: "status", label: "Status", type: "string" },
+    { key: "closedAt", label: "Closed at", type: "date" },
+    { key: "hoursToClose", label: "Hours to close", type: "number" },
+    { key: "sla", label: "SLA", type: "string" },
+  ],
+  chartLabel: "SLA met by urgency",
+  chartUnit: "percent",
+
+  async chart(filters) {
+    const now = new Date();
+    const met = new Map<UrgencyLevel, number>();
+    const due = new Map<UrgencyLevel, number>();
+
+    const requests = scan((page) =>
+      prisma.bloodRequest.findMany({
+        ...page,
+        where: where(filters),
+        orderBy: { id: "asc" },
+        select: {
+          id: true,
+          urgency: true,
+          status: true,
+          requiredBy: true,
+          closedAt: true,
+        },
+      })
+    );
+    for await (const request of requests) {
+      const outcome = slaOutcome(request, now);
+      if (outcome === "MET" || outcome === "MISSED") {
+        due.set(request.urgency, (due.get(request.urgency) ?? 0) + 1);
+      }
+      if (outcome === "MET") {
+        met.set(request.urgency, (met.get(request.urgency) ?? 0) + 1);
+      }
+    }
+
+    return URGENCIES.map((urgency) => ({
+      label: urgency,
+      value: ratio(met.get(urgency) ?? 0, due.get(urgency) ?? 0) ?? 0,
+    }));
+  },
+
+  async *rows(filters, window) {
+    const now = new Date();
+    const requests = scan(
+      (page) =>
+        prisma.bloodRequest.findMany({
+          ...page,
+          where: where(filters),
+          orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+          select: {
+            id: true,
+            createdAt: true,
+            hospitalName: true,
+            patientName: true,
+            bloodGroup: true,
+            component: true,
+            urgency: true,
+            unitsNeeded: true,
+            unitsFulfilled: true,
+            requiredBy: true,
+            status: true,
+            closedAt: true,
+            organization: { select: { name: true } },
+          },
+        }),
+      window
+    );
+
+    for await (const request of requests) {
+      yield {
+        requestId: request.id,
+        createdAt: request.createdAt,
+        organization: request.organization.name,
+        hospitalName: request.hospitalName,
+        patientName: request.patientName,
+        bloodGroup: formatBloodGroup(request.bloodGroup),
+        component: request.component,
+        urgency: request.urgency,
+        unitsNeeded: request.unitsNeeded,
+        unitsFulfilled: request.unitsFulfilled,
+        requiredBy: request.requiredBy,
+        status: request.status,
+        closedAt: request.closedAt,
+        hoursToClose: request.closedAt
+          ? Math.round(
+              (request.closedAt.getTime() - request.createdAt.getTime()) /
+                (60 * 60 * 100)
+            ) / 10
+          : null,
+        sla: slaOutcome(request, now),
+      };
+    }
+  },
+};
@@ -0,0 +1,97 @@
+/**
+ * Haemovigilance Report
+ *
+ * Transfusion reactions with onset in the range, counted by reaction type
+ * and severity in the shape national haemovigilance programmes ask for.
+ * Rates are per 1,000 units the reporting organizations issued in the same
+ * range. Reactions count as imputable when assessed PROBABLE or CERTAIN.
+ * Aggregates only, so nothing in it identifies a patient or donor.
+ */
+
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import {
+  organizationFilter,
+  organizationSql,
+  slice,
+  type ReportDefinition,
+  type ReportFilters,
+} from "@/lib/reports/types";
+
+type ReactionCountRow = {
+  type: string;
+  severity: string;
+  reports: number;
+  imputable: number;
+  deaths: number;
+  donorImplicated: number;
+};
+
+async function reactionCounts(filters: ReportFilters) {
+  const bloodGroupSql = filters.bloodGroup
+    ? Prisma.sql`AND u."bloodGroup"::text = ${filters.bloodGroup}`
+    : Prisma.empty;
+  const scope = organizationSql(filters, Prisma.sql`r."organizationId"`);
+
+  const [rows, issued] = await Promise.all([
+    prisma.$queryRaw<ReactionCountRow[]>`
+      SELECT r."type"::text AS "type",
+             r."severity"::text AS "severity",
+             COUNT(*)::int AS "reports",
+             COUNT(*) FILTER (WHERE r."imputability" IN ('PROBABLE', 'CERTAIN'))::int AS "imputable",
+             COUNT(*) FILTER (WHERE r."outcome" = 'DEATH')::int AS "deaths",
+             COUNT(*) FILTER (WHERE l."conclusion" = 'DONOR_IMPLICATED')::int AS "donorImplicated"
+      FROM "TransfusionReaction" r
+      JOIN "BloodUnit" u ON u."id" = r."bloodUnitId"
+      LEFT JOIN "LookbackInvestigation" l ON l."reactionId" = r."id"
+      WHERE r."onsetAt" >= ${filters.from} AND r."onsetAt" < ${filters.to}
+        ${scope} ${bloodGroupSql}
+      GROUP BY r."type", r."severity"
+      ORDER BY r."type", r."severity"
+    `,
+    prisma.bloodUnit.count({
+      where: {
+        issuedAt: { gte: filters.from, lt: filters.to },
+        ...organizationFilter(filters),
+        ...(filters.bloodGroup && { bloodGroup: filters.bloodGroup }),
+      },
+    }),
+  ]);
+
+  return rows.map((row) => ({
+    ...row,
+    unitsIssued: issued,
+    per1000Issued:
+      issued === 0 ? null : Math.round((row.reports / issued) * 100000) / 100,
+  }));
+}
+
+export const haemovigilanceReport: ReportDefinition = {
+  id: "haemovigilance",
+  title: "Haemovigilance",
+  description: "Transfusion reactions by type and severity",
+  columns: [
+    { key: "type", label: "Reaction type", type: "string" },
+    { key: "severity", label: "Severity", type: "string" },
+    { key: "reports", label: "Reports", type: "number" },
+    { key: "imputable", label: "Probable or certain", type: "number" },
+    { key: "deaths", label: "Deaths", type: "number" },
+    { key: "donorImplicated", label: "Donor implicated", type: "number" },
+    { key: "unitsIssued", label: "Units issued", type: "number" },
+    { key: "per1000Issued", label: "Per 1,000 issued", type: "number" },
+  ],
+  chartLabel: "Reactions by type",
+  chartUnit: "count",
+
+  async chart(filters) {
+    const totals = new Map<string, number>();
+    for (const row of await reactionCounts(filters)) {
+      totals.set(row.type, (totals.get(row.type) ?? 0) + row.reports);
+    }
+    return [...totals].map(([label, value]) => ({ label, value }));
+  },
+
+  async *rows(filters, window) {
+    yield* slice(await reactionCounts(filters), window);
+  },
+};
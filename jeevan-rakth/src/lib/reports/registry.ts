@@ -0,0 +1,81 @@
+import type { BloodGroup } from "@prisma/client";
+import { canModify, type Role } from "@/config/roles";
+import {
+  canAccessOrganization,
+  type TenantContext,
+} from "@/lib/organizations/tenancy";
+import type { ReportId, ReportInterval } from "@/lib/schemas/reportSchema";
+import type {
+  ReportColumn,
+  ReportDefinition,
+  ReportFilters,
+} from "@/lib/reports/types";
+import { donationsReport } from "@/lib/reports/donations";
+import { fulfilmentReport } from "@/lib/reports/fulfilment";
+import { wastageReport } from "@/lib/reports/wastage";
+import { retentionReport } from "@/lib/reports/retention";
+import { campsReport } from "@/lib/reports/camps";
+import { haemovigilanceReport } from "@/lib/reports/haemovigilance";
+
+export const REPORTS: Record<ReportId, ReportDefinition> = {
+  donations: donationsReport,
+  fulfilment: fulfilmentReport,
+  wastage: wastageReport,
+  retention: retentionReport,
+  camps: campsReport,
+  haemovigilance: haemovigilanceReport,
+};
+
+/**
+ * Only admins and editors may see columns naming patients or donors;
+ * organization membership alone does not grant it
+ */
+export function canViewPii(role: Role): boolean {
+  return canModify(role);
+}
+
+/**
+ * The columns of a report the caller may see
+ */
+export function visibleColumns(
+  report: ReportDefinition,
+  includePii: boolean
+): ReportColumn[] {
+  return report.columns.filter((column) => includePii || !column.pii);
+}
+
+/**
+ * Turn validated query filters into report filters scoped to the caller's
+ * organizations.
+ *
+ * @throws Error("ORGANIZATION_ACCESS_DENIED") if the requested organization
+ * is not one the caller may report on
+ */
+export function resolveReportFilters(
+  tenant: TenantContext,
+  query: {
+    from: Date;
+    to: Date;
+    organizationId?: number;
+    bloodGroup?: BloodGroup;
+    interval: ReportInterval;
+  }
+): ReportFilters {
+  if (
+    query.organizationId !== undefined &&
+    !canAccessOrganization(tenant, query.organizationId)
+  ) {
+    throw new Error("ORGANIZATION_ACCESS_DENIED");
+  }
+
+  return {
+    from: query.from,
+    to: query.to,
+    organizationIds:
+      query.organizationId !== undefined
+        ? [query.organizationId]
+        : tenant.organizationIds,
+    bloodGroup: query.bloodGroup,
+    interval: query.interval,
+  };
+}
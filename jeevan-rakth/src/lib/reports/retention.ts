@@ -0,0 +1,103 @@
+/**
+ * Donor Retention Cohorts Report
+ *
+ * Donors are grouped by the month of their first donation with the
+ * reported organizations; each cohort shows how many came back to donate
+ * again within 3, 6 and 12 months. Cohorts younger than a window have not
+ * had the chance to return yet, so their later columns read low.
+ */
+
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import {
+  organizationSql,
+  ratio,
+  slice,
+  type ReportDefinition,
+  type ReportFilters,
+} from "@/lib/reports/types";
+
+type CohortRow = {
+  cohort: Date;
+  donors: number;
+  returned3m: number;
+  returned6m: number;
+  returned12m: number;
+};
+
+async function cohorts(filters: ReportFilters) {
+  const bloodGroupSql = filters.bloodGroup
+    ? Prisma.sql`AND p."bloodGroup"::text = ${filters.bloodGroup}`
+    : Prisma.empty;
+  const scope = organizationSql(filters, Prisma.sql`d."organizationId"`);
+  const returnScope = organizationSql(filters, Prisma.sql`r."organizationId"`);
+
+  const rows = await prisma.$queryRaw<CohortRow[]>`
+    WITH firsts AS (
+      SELECT d."donorProfileId", MIN(d."collectedAt") AS "firstAt"
+      FROM "Donation" d
+      JOIN "DonorProfile" p ON p."id" = d."donorProfileId"
+      WHERE TRUE ${scope} ${bloodGroupSql}
+      GROUP BY d."donorProfileId"
+    ),
+    returns AS (
+      SELECT f."donorProfileId", f."firstAt", MIN(r."collectedAt") AS "returnedAt"
+      FROM firsts f
+      LEFT JOIN "Donation" r
+        ON r."donorProfileId" = f."donorProfileId"
+       AND r."collectedAt" > f."firstAt"
+       ${returnScope}
+      WHERE f."firstAt" >= ${filters.from} AND f."firstAt" < ${filters.to}
+      GROUP BY f."donorProfileId", f."firstAt"
+    )
+    SELECT date_trunc('month', "firstAt") AS "cohort",
+           COUNT(*)::int AS "donors",
+           COUNT(*) FILTER (WHERE "returnedAt" <= "firstAt" + INTERVAL '3 months')::int AS "returned3m",
+           COUNT(*) FILTER (WHERE "returnedAt" <= "firstAt" + INTERVAL '6 months')::int AS "returned6m",
+           COUNT(*) FILTER (WHERE "returnedAt" <= "firstAt" + INTERVAL '12 months')::int AS "returned12m"
+    FROM returns
+    GROUP BY 1
+    ORDER BY 1
+  `;
+
+  return rows.map((row) => ({
+    cohort: row.cohort.toISOString().slice(0, 7),
+    donors: row.donors,
+    returned3m: row.returned3m,
+    returned6m: row.returned6m,
+    returned12m: row.returned12m,
+    retention3m: ratio(row.returned3m, row.donors),
+    retention6m: ratio(row.returned6m, row.donors),
+    retention12m: ratio(row.returned12m, row.donors),
+  }));
+}
+
+export const retentionReport: ReportDefinition = {
+  id: "retention",
+  title: "Donor retention",
+  description: "Repeat donation by first-donation cohort",
+  columns: [
+    { key: "cohort", label: "Cohort", type: "string" },
+    { key: "donors", label: "New donors", type: "number" },
+    { key: "returned3m", label: "Returned in 3 months", type: "number" },
+    { key: "retention3m", label: "3-month retention", type: "percent" },
+    { key: "returned6m", label: "Returned in 6 months", type: "number" },
+    { key: "retention6m", label: "6-month retention", type: "percent" },
+    { key: "returned12m", label: "Returned in 12 months", type: "number" },
+    { key: "retention12m", label: "12-month retention", type: "percent" },
+  ],
+  chartLabel: "6-month retention by cohort",
+  chartUnit: "percent",
+
+  async chart(filters) {
+    const rows = await cohorts(filters);
+    return rows.map((row) => ({
+      label: row.cohort,
+      value: row.retention6m ?? 0,
+    }));
+  },
+
+  async *rows(filters, window) {
+    yield* slice(await cohorts(filters), window);
+  },
+};
@@ -0,0 +1,127 @@
+/**
+ * Report Definitions
+ *
+ * Every report is a list of columns plus two queries: `rows` streams the
+ * table one record at a time, so exports over long date ranges never hold
+ * the whole result in memory, and `chart` returns the aggregate plotted
+ * above the table.
+ *
+ * Columns that identify a patient or donor are flagged `pii`; they are
+ * dropped from both the table and exports unless the caller may see them.
+ */
+
+import { Prisma, type BloodGroup } from "@prisma/client";
+import type { ReportId, ReportInterval } from "@/lib/schemas/reportSchema";
+
+export type ReportFilters = {
+  from: Date;
+  /** Exclusive upper bound */
+  to: Date;
+  /** Organizations to report on; null means every organization */
+  organizationIds: number[] | null;
+  bloodGroup?: BloodGroup;
+  interval: ReportInterval;
+};
+
+/** Which slice of the rows to produce; all of them when omitted */
+export type ReportWindow = {
+  offset?: number;
+  limit?: number;
+};
+
+export type ReportValue = string | number | Date | null;
+
+export type ReportRow = Record<string, ReportValue>;
+
+export type ReportColumn = {
+  key: string;
+  label: string;
+  type: "string" | "number" | "date" | "percent";
+  pii?: boolean;
+};
+
+export type ChartPoint = { label: string; value: number };
+
+export type ReportDefinition = {
+  id: ReportId;
+  title: string;
+  description: string;
+  columns: ReportColumn[];
+  chartLabel: string;
+  /** Whether chart values are counts or fractions of 1 */
+  chartUnit: "count" | "percent";
+  chart(filters: ReportFilters): Promise<ChartPoint[]>;
+  rows(
+    filters: ReportFilters,
+    window?: ReportWindow
+  ): AsyncGenerator<ReportRow>;
+};
+
+// Records fetched per round trip while streaming
+const BATCH_SIZE = 500;
+
+/**
+ * Walk a query in id-cursor batches, yielding each record. `fetch` must
+ * order by a stable key ending in `id`.
+ */
+export async function* scan<T extends { id: number }>(
+  fetch: (page: {
+    cursor?: { id: number };
+    skip: number;
+    take: number;
+  }) => Promise<T[]>,
+  window: ReportWindow = {}
+): AsyncGenerator<T> {
+  let remaining = window.limit ?? Infinity;
+  let cursor: { id: number } | undefined;
+
+  while (remaining > 0) {
+    const take = Math.min(BATCH_SIZE, remaining);
+    const batch = await fetch(
+      cursor ? { cursor, skip: 1, take } : { skip: window.offset ?? 0, take }
+    );
+    for (const record of batch) yield record;
+
+    if (batch.length < take) return;
+    remaining -= batch.length;
+    cursor = { id: batch[batch.length - 1].id };
+  }
+}
+
+/**
+ * Yield the part of an already-computed result inside the window
+ */
+export async function* slice<T>(
+  rows: T[],
+  window: ReportWindow = {}
+): AsyncGenerator<T> {
+  const start = window.offset ?? 0;
+  const end = window.limit === undefined ? undefined : start + window.limit;
+  for (const row of rows.slice(start, end)) yield row;
+}
+
+/**
+ * Prisma filter restricting a model to the reported organizations
+ */
+export function organizationFilter(filters: ReportFilters) {
+  return filters.organizationIds === null
+    ? {}
+    : { organizationId: { in: filters.organizationIds } };
+}
+
+/**
+ * Raw SQL equivalent of organizationFilter for the given column
+ */
+export function organizationSql(
+  filters: ReportFilters,
+  column: Prisma.Sql
+): Prisma.Sql {
+  if (filters.organizationIds === null) return Prisma.empty;
+  if (filters.organizationIds.length === 0) return Prisma.sql`AND FALSE`;
+  return Prisma.sql`AND ${column} IN (${Prisma.join(filters.organizationIds)})`;
+}
+
+/** Share of `part` in `whole` to three decimals, or null if `whole` is 0 */
+export function ratio(part: number, whole: number): number | null {
+  return whole === 0 ? null : Math.round((part / whole) * 1000) / 1000;
+}
@@ -0,0 +1,95 @@
+/**
+ * Inventory Wastage Report
+ *
+ * Units discarded because they expired on the shelf, by discard date.
+ * Units discarded for other reasons (failed screening, damage) are not
+ * wastage and are left out.
+ */
+
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { formatBloodGroup } from "@/lib/bloodGroups";
+import { EXPIRED_DISCARD_REASON } from "@/lib/inventory/expiry";
+import {
+  organizationFilter,
+  scan,
+  type ReportDefinition,
+  type ReportFilters,
+} from "@/lib/reports/types";
+
+function where(filters: ReportFilters): Prisma.BloodUnitWhereInput {
+  return {
+    status: "DISCARDED",
+    discardReason: EXPIRED_DISCARD_REASON,
+    discardedAt: { gte: filters.from, lt: filters.to },
+    ...organizationFilter(filters),
+    ...(filters.bloodGroup && { bloodGroup: filters.bloodGroup }),
+  };
+}
+
+export const wastageReport: ReportDefinition = {
+  id: "wastage",
+  title: "Inventory wastage",
+  description: "Units discarded after expiring in stock",
+  columns: [
+    { key: "discardedAt", label: "Discarded at", type: "date" },
+    { key: "donationNumber", label: "Donation number", type: "string" },
+    { key: "organization", label: "Organization", type: "string" },
+    { key: "bloodGroup", label: "Blood group", type: "string" },
+    { key: "component", label: "Component", type: "string" },
+    { key: "volumeMl", label: "Volume (ml)", type: "number" },
+    { key: "collectedAt", label: "Collected at", type: "date" },
+    { key: "expiresAt", label: "Expired at", type: "date" },
+    { key: "storageLocation", label: "Storage location", type: "string" },
+  ],
+  chartLabel: "Expired units by component",
+  chartUnit: "count",
+
+  async chart(filters) {
+    const rows = await prisma.bloodUnit.groupBy({
+      by: ["component"],
+      where: where(filters),
+      _count: true,
+      orderBy: { component: "asc" },
+    });
+    return rows.map((row) => ({ label: row.component, value: row._count }));
+  },
+
+  async *rows(filters, window) {
+    const units = scan(
+      (page) =>
+        prisma.bloodUnit.findMany({
+          ...page,
+          where: where(filters),
+          orderBy: [{ discardedAt: "asc" }, { id: "asc" }],
+          select: {
+            id: true,
+            discardedAt: true,
+            donationNumber: true,
+            bloodGroup: true,
+            component: true,
+            volumeMl: true,
+            collectedAt: true,
+            expiresAt: true,
+            storageLocation: true,
+            organization: { select: { name: true } },
+          },
+        }),
+      window
+    );
+
+    for await (const unit of units) {
+      yield {
+        discardedAt: unit.discardedAt,
+        donationNumber: unit.donationNumber,
+        organization: unit.organization.name,
+        bloodGroup: formatBloodGroup(unit.bloodGroup),
+        component: unit.component,
+        volumeMl: unit.volumeMl,
+        collectedAt: unit.collectedAt,
+        expiresAt: unit.expiresAt,
+        storageLocation: unit.storageLocation,
+      };
+    }
+  },
+};
@@ -11,6 +11,7 @@ export const ERROR_CODES = {
   USERS_FETCH_FAILED: "USERS_FETCH_FAILED",
   USER_NOT_FOUND: "USER_NOT_FOUND",
   EMAIL_CONFLICT: "EMAIL_CONFLICT",
+  USER_HAS_AUDIT_RECORDS: "USER_HAS_AUDIT_RECORDS",
   UNKNOWN_ERROR: "UNKNOWN_ERROR",
   // JWT Authentication error codes
   REFRESH_TOKEN_MISSING: "REFRESH_TOKEN_MISSING",
@@ -18,6 +19,136 @@ export const ERROR_CODES = {
   REFRESH_FAILED: "REFRESH_FAILED",
   TOKEN_EXPIRED: "TOKEN_EXPIRED",
   NOT_AUTHENTICATED: "NOT_AUTHENTICATED",
+  // Donor error codes
+  DONOR_PROFILE_NOT_FOUND: "DONOR_PROFILE_NOT_FOUND",
+  DONOR_PROFILE_FETCH_FAILED: "DONOR_PROFILE_FETCH_FAILED",
+  DONOR_PROFILE_UPDATE_FAILED: "DONOR_PROFILE_UPDATE_FAILED",
+  UNAVAILABILITY_NOT_FOUND: "UNAVAILABILITY_NOT_FOUND",
+  DONOR_SEARCH_FAILED: "DONOR_SEARCH_FAILED",
+  DEFERRAL_NOT_FOUND: "DEFERRAL_NOT_FOUND",
+  DEFERRAL_UPDATE_FAILED: "DEFERRAL_UPDATE_FAILED",
+  ACCESS_DENIED: "ACCESS_DENIED",
+  // Donor verification error codes
+  VERIFICATION_FETCH_FAILED: "VERIFICATION_FETCH_FAILED",
+  VERIFICATION_UPDATE_FAILED: "VERIFICATION_UPDATE_FAILED",
+  VERIFICATION_NOT_PENDING: "VERIFICATION_NOT_PENDING",
+  ALREADY_VERIFIED: "ALREADY_VERIFIED",
+  MISSING_DOCUMENTS: "MISSING_DOCUMENTS",
+  FILE_NOT_FOUND: "FILE_NOT_FOUND",
+  // Donor contact privacy error codes
+  CONTACT_NOT_SHARED: "CONTACT_NOT_SHARED",
+  CONTACT_REVEAL_FAILED: "CONTACT_REVEAL_FAILED",
+  CONTACT_CONSENT_FAILED: "CONTACT_CONSENT_FAILED",
+  // Rare donor registry error codes
+  RARE_DONOR_APPROVAL_REQUIRED: "RARE_DONOR_APPROVAL_REQUIRED",
+  RARE_CONTACT_NOT_FOUND: "RARE_CONTACT_NOT_FOUND",
+  RARE_CONTACTS_FETCH_FAILED: "RARE_CONTACTS_FETCH_FAILED",
+  RARE_CONTACT_UPDATE_FAILED: "RARE_CONTACT_UPDATE_FAILED",
+  RARE_CONTACT_ALREADY_REQUESTED: "RARE_CONTACT_ALREADY_REQUESTED",
+  RARE_CONTACT_ALREADY_DECIDED: "RARE_CONTACT_ALREADY_DECIDED",
+  NOT_RARE_DONOR: "NOT_RARE_DONOR",
+  // Dashboard error codes
+  DASHBOARD_FETCH_FAILED: "DASHBOARD_FETCH_FAILED",
+  // Report error codes
+  REPORT_NOT_FOUND: "REPORT_NOT_FOUND",
+  REPORT_FETCH_FAILED: "REPORT_FETCH_FAILED",
+  REPORT_EXPORT_FAILED: "REPORT_EXPORT_FAILED",
+  // Blood request error codes
+  BLOOD_REQUEST_NOT_FOUND: "BLOOD_REQUEST_NOT_FOUND",
+  BLOOD_REQUESTS_FETCH_FAILED: "BLOOD_REQUESTS_FETCH_FAILED",
+  BLOOD_REQUEST_UPDATE_FAILED: "BLOOD_REQUEST_UPDATE_FAILED",
+  BLOOD_REQUEST_HAS_AUDIT_RECORDS: "BLOOD_REQUEST_HAS_AUDIT_RECORDS",
+  INVALID_STATUS_TRANSITION: "INVALID_STATUS_TRANSITION",
+  // Donor response error codes
+  DONOR_RESPONSE_NOT_FOUND: "DONOR_RESPONSE_NOT_FOUND",
+  DONOR_RESPONSE_FAILED: "DONOR_RESPONSE_FAILED",
+  DONOR_NOT_ELIGIBLE: "DONOR_NOT_ELIGIBLE",
+  REQUEST_CLOSED: "REQUEST_CLOSED",
+  ALREADY_CHECKED_IN: "ALREADY_CHECKED_IN",
+  INVALID_RESPONSE_LINK: "INVALID_RESPONSE_LINK",
+  // Blood unit inventory error codes
+  BLOOD_UNIT_NOT_FOUND: "BLOOD_UNIT_NOT_FOUND",
+  BLOOD_UNITS_FETCH_FAILED: "BLOOD_UNITS_FETCH_FAILED",
+  BLOOD_UNIT_UPDATE_FAILED: "BLOOD_UNIT_UPDATE_FAILED",
+  DONATION_NUMBER_CONFLICT: "DONATION_NUMBER_CONFLICT",
+  INSUFFICIENT_UNITS: "INSUFFICIENT_UNITS",
+  ALLOCATION_CONFLICT: "ALLOCATION_CONFLICT",
+  COMPONENT_CONFLICT: "COMPONENT_CONFLICT",
+  // Transfer order error codes
+  TRANSFER_ORDER_NOT_FOUND: "TRANSFER_ORDER_NOT_FOUND",
+  TRANSFER_ORDERS_FETCH_FAILED: "TRANSFER_ORDERS_FETCH_FAILED",
+  TRANSFER_ORDER_UPDATE_FAILED: "TRANSFER_ORDER_UPDATE_FAILED",
+  UNIT_IN_TRANSFER: "UNIT_IN_TRANSFER",
+  // ISBT 128 labeling error codes
+  FACILITY_CODE_REQUIRED: "FACILITY_CODE_REQUIRED",
+  DONATION_NUMBERS_EXHAUSTED: "DONATION_NUMBERS_EXHAUSTED",
+  LABEL_MISMATCH: "LABEL_MISMATCH",
+  LABEL_RENDER_FAILED: "LABEL_RENDER_FAILED",
+  // Pre-transfusion testing error codes
+  SAMPLE_NOT_FOUND: "SAMPLE_NOT_FOUND",
+  SAMPLES_FETCH_FAILED: "SAMPLES_FETCH_FAILED",
+  SAMPLE_UPDATE_FAILED: "SAMPLE_UPDATE_FAILED",
+  SAMPLE_NUMBER_CONFLICT: "SAMPLE_NUMBER_CONFLICT",
+  SAMPLE_EXPIRED: "SAMPLE_EXPIRED",
+  CROSS_MATCH_NOT_FOUND: "CROSS_MATCH_NOT_FOUND",
+  CROSS_MATCH_REQUIRED: "CROSS_MATCH_REQUIRED",
+  UNIT_NOT_ELIGIBLE: "UNIT_NOT_ELIGIBLE",
+  RESULT_ALREADY_RECORDED: "RESULT_ALREADY_RECORDED",
+  // Haemovigilance error codes
+  REACTION_NOT_FOUND: "REACTION_NOT_FOUND",
+  REACTIONS_FETCH_FAILED: "REACTIONS_FETCH_FAILED",
+  REACTION_UPDATE_FAILED: "REACTION_UPDATE_FAILED",
+  REACTION_ALREADY_REPORTED: "REACTION_ALREADY_REPORTED",
+  UNIT_NOT_ISSUED: "UNIT_NOT_ISSUED",
+  LOOKBACK_NOT_FOUND: "LOOKBACK_NOT_FOUND",
+  LOOKBACKS_FETCH_FAILED: "LOOKBACKS_FETCH_FAILED",
+  LOOKBACK_UPDATE_FAILED: "LOOKBACK_UPDATE_FAILED",
+  LOOKBACK_OPEN: "LOOKBACK_OPEN",
+  // Cold-chain monitoring error codes
+  STORAGE_EQUIPMENT_NOT_FOUND: "STORAGE_EQUIPMENT_NOT_FOUND",
+  STORAGE_EQUIPMENT_FETCH_FAILED: "STORAGE_EQUIPMENT_FETCH_FAILED",
+  STORAGE_EQUIPMENT_UPDATE_FAILED: "STORAGE_EQUIPMENT_UPDATE_FAILED",
+  EQUIPMENT_NAME_CONFLICT: "EQUIPMENT_NAME_CONFLICT",
+  EQUIPMENT_INACTIVE: "EQUIPMENT_INACTIVE",
+  INVALID_API_KEY: "INVALID_API_KEY",
+  READINGS_INGEST_FAILED: "READINGS_INGEST_FAILED",
+  EXCURSION_NOT_FOUND: "EXCURSION_NOT_FOUND",
+  EXCURSIONS_FETCH_FAILED: "EXCURSIONS_FETCH_FAILED",
+  EXCURSION_UPDATE_FAILED: "EXCURSION_UPDATE_FAILED",
+  EXCURSION_ONGOING: "EXCURSION_ONGOING",
+  EXCURSION_REVIEW_PENDING: "EXCURSION_REVIEW_PENDING",
+  // Organization error codes
+  ORGANIZATION_NOT_FOUND: "ORGANIZATION_NOT_FOUND",
+  ORGANIZATIONS_FETCH_FAILED: "ORGANIZATIONS_FETCH_FAILED",
+  ORGANIZATION_UPDATE_FAILED: "ORGANIZATION_UPDATE_FAILED",
+  REGISTRATION_NUMBER_CONFLICT: "REGISTRATION_NUMBER_CONFLICT",
+  MEMBER_NOT_FOUND: "MEMBER_NOT_FOUND",
+  // Notification error codes
+  NOTIFICATION_NOT_FOUND: "NOTIFICATION_NOT_FOUND",
+  NOTIFICATIONS_FETCH_FAILED: "NOTIFICATIONS_FETCH_FAILED",
+  NOTIFICATION_UPDATE_FAILED: "NOTIFICATION_UPDATE_FAILED",
+  ALERT_FANOUT_FAILED: "ALERT_FANOUT_FAILED",
+  REQUEST_LOCATION_UNKNOWN: "REQUEST_LOCATION_UNKNOWN",
+  // Donation camp error codes
+  CAMP_NOT_FOUND: "CAMP_NOT_FOUND",
+  CAMPS_FETCH_FAILED: "CAMPS_FETCH_FAILED",
+  CAMP_UPDATE_FAILED: "CAMP_UPDATE_FAILED",
+  SLOT_NOT_FOUND: "SLOT_NOT_FOUND",
+  SLOT_UNAVAILABLE: "SLOT_UNAVAILABLE",
+  SLOT_FULL: "SLOT_FULL",
+  ALREADY_BOOKED: "ALREADY_BOOKED",
+  APPOINTMENT_NOT_FOUND: "APPOINTMENT_NOT_FOUND",
+  APPOINTMENT_UPDATE_FAILED: "APPOINTMENT_UPDATE_FAILED",
+  // Donation ledger error codes
+  DONATION_NOT_FOUND: "DONATION_NOT_FOUND",
+  DONATIONS_FETCH_FAILED: "DONATIONS_FETCH_FAILED",
+  DONATION_UPDATE_FAILED: "DONATION_UPDATE_FAILED",
+  SCREENING_NOT_CLEARED: "SCREENING_NOT_CLEARED",
+  // Certificate error codes
+  INVALID_CERTIFICATE: "INVALID_CERTIFICATE",
+  CERTIFICATE_FAILED: "CERTIFICATE_FAILED",
+  // Scheduled job error codes
+  CRON_JOB_FAILED: "CRON_JOB_FAILED",
 } as const;
 
 export type ErrorCode = (typeof ERROR_CODES)[keyof typeof ERROR_CODES];
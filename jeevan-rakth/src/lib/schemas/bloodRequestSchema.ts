@@ -0,0 +1,83 @@
+import { z } from "zod";
+import {
+  bloodComponentSchema,
+  bloodGroupSchema,
+  latitudeSchema,
+  longitudeSchema,
+} from "@/lib/schemas/donorProfileSchema";
+import { bloodAntigenListSchema } from "@/lib/schemas/phenotypeSchema";
+
+export { bloodComponentSchema };
+
+export const urgencyLevelSchema = z.enum(["ROUTINE", "URGENT", "CRITICAL"]);
+
+export const bloodRequestStatusSchema = z.enum([
+  "OPEN",
+  "MATCHING",
+  "PARTIALLY_FULFILLED",
+  "FULFILLED",
+  "CANCELLED",
+  "EXPIRED",
+]);
+
+export const bloodRequestCreateSchema = z.object({
+  patientName: z.string().trim().min(1, "Patient name is required").max(120),
+  bloodGroup: bloodGroupSchema,
+  component: bloodComponentSchema,
+  unitsNeeded: z.preprocess(
+    (v) => Number(v),
+    z
+      .number()
+      .int("unitsNeeded must be an integer")
+      .min(1, "At least one unit is required")
+      .max(50, "unitsNeeded is too large")
+  ),
+  urgency: urgencyLevelSchema,
+  hospitalName: z.string().trim().min(1, "Hospital name is required").max(200),
+  hospitalLatitude: latitudeSchema.optional(),
+  hospitalLongitude: longitudeSchema.optional(),
+  requiredBy: z.coerce
+    .date({ invalid_type_error: "requiredBy must be a valid date" })
+    .refine((d) => d > new Date(), "requiredBy must be in the future"),
+  notes: z.string().trim().max(1000).optional(),
+  // Antigens the patient has antibodies to, e.g. ["K", "Jkb"]; only donors
+  // typed negative for all of them are matched
+  requiredAntigenNegative: bloodAntigenListSchema.optional(),
+  // Defaults to the caller's organization when they belong to exactly one
+  organizationId: z.preprocess(
+    (v) => (v === undefined ? undefined : Number(v)),
+    z.number().int().positive().optional()
+  ),
+});
+
+export const bloodRequestUpdateSchema = bloodRequestCreateSchema
+  .omit({ organizationId: true })
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, {
+    message: "At least one field must be provided",
+  });
+
+export const bloodRequestTransitionSchema = z.discriminatedUnion("action", [
+  z.object({ action: z.literal("match") }),
+  z.object({
+    action: z.literal("fulfil"),
+    units: z.preprocess(
+      (v) => Number(v),
+      z.number().int().min(1, "units must be at least 1")
+    ),
+  }),
+  z.object({
+    action: z.literal("cancel"),
+    reason: z.string().trim().min(3, "A cancellation reason is required"),
+  }),
+  z.object({
+    action: z.literal("expire"),
+    reason: z.string().trim().optional(),
+  }),
+]);
+
+export type BloodRequestCreateInput = z.infer<typeof bloodRequestCreateSchema>;
+export type BloodRequestUpdateInput = z.infer<typeof bloodRequestUpdateSchema>;
+export type BloodRequestTransitionInput = z.infer<
+  typeof bloodRequestTransitionSchema
+>;
@@ -0,0 +1,125 @@
+import { z } from "zod";
+import {
+  bloodComponentSchema,
+  bloodGroupSchema,
+} from "@/lib/schemas/donorProfileSchema";
+
+export const bloodUnitStatusSchema = z.enum([
+  "QUARANTINE",
+  "AVAILABLE",
+  "RESERVED",
+  "ISSUED",
+  "DISCARDED",
+  "PROCESSED",
+]);
+
+export const bloodUnitCreateSchema = z
+  .object({
+    // Assigned from the organization's ISBT 128 sequence when omitted
+    donationNumber: z
+      .string()
+      .trim()
+      .min(3, "Donation number is required")
+      .max(40, "Donation number is too long")
+      .optional(),
+    component: bloodComponentSchema,
+    bloodGroup: bloodGroupSchema,
+    volumeMl: z.preprocess(
+      (v) => (v === undefined ? undefined : Number(v)),
+      z.number().int().positive("volumeMl must be positive").optional()
+    ),
+    collectedAt: z.coerce
+      .date({ invalid_type_error: "collectedAt must be a valid date" })
+      .refine((d) => d <= new Date(), "collectedAt cannot be in the future"),
+    // Defaults to the component's shelf life when omitted
+    expiresAt: z.coerce
+      .date({ invalid_type_error: "expiresAt must be a valid date" })
+      .optional(),
+    storageLocation: z
+      .string()
+      .trim()
+      .min(1, "Storage location is required")
+      .max(100),
+    // Monitored refrigerator, freezer or agitator the unit is stored in
+    storageEquipmentId: z.preprocess(
+      (v) => (v === undefined ? undefined : Number(v)),
+      z.number().int().positive().optional()
+    ),
+    // Defaults to the caller's organization when they belong to exactly one
+    organizationId: z.preprocess(
+      (v) => (v === undefined ? undefined : Number(v)),
+      z.number().int().positive().optional()
+    ),
+  })
+  .refine((data) => !data.expiresAt || data.expiresAt > data.collectedAt, {
+    message: "expiresAt must be after collectedAt",
+    path: ["expiresAt"],
+  });
+
+// Reservations are only made through FEFO allocation and whole blood is
+// only PROCESSED by separating it; neither is set by hand
+export const bloodUnitUpdateSchema = z
+  .object({
+    status: bloodUnitStatusSchema.exclude([
+      "QUARANTINE",
+      "RESERVED",
+      "PROCESSED",
+    ]),
+    storageLocation: z.string().trim().min(1).max(100),
+    // null when the unit leaves monitored storage
+    storageEquipmentId: z.preprocess(
+      (v) => (v === undefined || v === null ? v : Number(v)),
+      z.number().int().positive().nullable()
+    ),
+    discardReason: z.string().trim().min(3).max(200),
+  })
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, {
+    message: "At least one field must be provided",
+  })
+  .refine((data) => data.status !== "DISCARDED" || data.discardReason, {
+    message: "A discard reason is required",
+    path: ["discardReason"],
+  });
+
+export const bloodUnitAllocationSchema = z.object({
+  units: z.preprocess(
+    (v) => (v === undefined ? undefined : Number(v)),
+    z.number().int().min(1, "units must be at least 1").optional()
+  ),
+});
+
+export const componentSeparationSchema = z.object({
+  components: z
+    .array(
+      z.object({
+        component: bloodComponentSchema.exclude(["WHOLE_BLOOD"]),
+        storageLocation: z
+          .string()
+          .trim()
+          .min(1, "Storage location is required")
+          .max(100),
+        storageEquipmentId: z.preprocess(
+          (v) => (v === undefined ? undefined : Number(v)),
+          z.number().int().positive().optional()
+        ),
+        // Defaults to the component's typical yield
+        volumeMl: z.preprocess(
+          (v) => (v === undefined ? undefined : Number(v)),
+          z.number().int().positive("volumeMl must be positive").optional()
+        ),
+      })
+    )
+    .min(1, "At least one component is required")
+    .refine(
+      (components) =>
+        new Set(components.map((c) => c.component)).size === components.length,
+      "Each component can be separated once"
+    ),
+});
+
+export type BloodUnitCreateInput = z.infer<typeof bloodUnitCreateSchema>;
+export type BloodUnitUpdateInput = z.infer<typeof bloodUnitUpdateSchema>;
+export type ComponentSeparationInput = z.infer<
+  typeof componentSeparationSchema
+>;
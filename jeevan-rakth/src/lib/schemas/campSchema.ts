@@ -0,0 +1,106 @@
+import { z } from "zod";
+import {
+  latitudeSchema,
+  longitudeSchema,
+} from "@/lib/schemas/donorProfileSchema";
+import { isValidTimezone } from "@/lib/notifications/quietHours";
+
+export const MAX_CAMP_SLOTS = 500;
+
+export const campStatusSchema = z.enum(["SCHEDULED", "CANCELLED", "COMPLETED"]);
+
+const positiveInt = (field: string, max: number) =>
+  z.preprocess(
+    (v) => Number(v),
+    z
+      .number({ invalid_type_error: `${field} must be a number` })
+      .int(`${field} must be an integer`)
+      .min(1, `${field} must be at least 1`)
+      .max(max, `${field} cannot exceed ${max}`)
+  );
+
+const idSchema = z.preprocess(
+  (v) => (v === undefined ? undefined : Number(v)),
+  z.number().int().positive()
+);
+
+// One continuous opening period, e.g. 09:00-13:00 on the first day
+export const campWindowSchema = z
+  .object({
+    startsAt: z.coerce.date({
+      invalid_type_error: "startsAt must be a valid date",
+    }),
+    endsAt: z.coerce.date({
+      invalid_type_error: "endsAt must be a valid date",
+    }),
+  })
+  .refine((w) => w.endsAt > w.startsAt, {
+    message: "endsAt must be after startsAt",
+    path: ["endsAt"],
+  });
+
+const campDetailsSchema = z.object({
+  name: z.string().trim().min(3, "Camp name is required").max(200),
+  description: z.string().trim().max(2000).optional(),
+  venueName: z.string().trim().min(1, "Venue is required").max(200),
+  addressLine: z.string().trim().min(1, "Address is required").max(255),
+  city: z.string().trim().min(1, "City is required").max(100),
+  state: z.string().trim().min(1, "State is required").max(100),
+  postalCode: z.string().trim().min(3, "Invalid postal code").max(12),
+  latitude: latitudeSchema,
+  longitude: longitudeSchema,
+  timezone: z
+    .string()
+    .refine(isValidTimezone, "Unknown timezone")
+    .default("Asia/Kolkata"),
+});
+
+export const campCreateSchema = campDetailsSchema
+  .extend({
+    windows: z
+      .array(campWindowSchema)
+      .min(1, "At least one time window is required")
+      .max(31, "A camp can have at most 31 time windows"),
+    slotMinutes: positiveInt("slotMinutes", 240),
+    capacityPerSlot: positiveInt("capacityPerSlot", 100),
+    // Defaults to the caller's organization when they belong to exactly one
+    organizationId: idSchema.optional(),
+  })
+  .refine((data) => data.windows.every((w) => w.startsAt > new Date()), {
+    message: "Time windows must be in the future",
+    path: ["windows"],
+  })
+  .refine(
+    (data) => {
+      const sorted = [...data.windows].sort(
+        (a, b) => a.startsAt.getTime() - b.startsAt.getTime()
+      );
+      return sorted.every(
+        (w, i) => i === 0 || w.startsAt >= sorted[i - 1].endsAt
+      );
+    },
+    { message: "Time windows must not overlap", path: ["windows"] }
+  );
+
+// Slots are fixed once created; only details change, or the camp is
+// cancelled / completed through `status`
+export const campUpdateSchema = campDetailsSchema
+  .extend({ status: campStatusSchema.exclude(["SCHEDULED"]) })
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, {
+    message: "At least one field must be provided",
+  });
+
+export const appointmentBookSchema = z.object({
+  slotId: idSchema,
+  // Join the slot's waitlist instead of failing when it is full
+  waitlist: z.boolean().default(false),
+});
+
+export const appointmentRescheduleSchema = z.object({
+  slotId: idSchema,
+});
+
+export type CampCreateInput = z.infer<typeof campCreateSchema>;
+export type CampUpdateInput = z.infer<typeof campUpdateSchema>;
+export type AppointmentBookInput = z.infer<typeof appointmentBookSchema>;
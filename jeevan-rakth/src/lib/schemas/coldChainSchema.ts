@@ -0,0 +1,89 @@
+import { z } from "zod";
+import { readingPolicy } from "@/config/coldChain";
+
+const idSchema = z.preprocess(
+  (v) => (v === undefined ? undefined : Number(v)),
+  z.number().int().positive()
+);
+
+export const storageEquipmentTypeSchema = z.enum([
+  "REFRIGERATOR",
+  "FREEZER",
+  "PLATELET_AGITATOR",
+]);
+
+export const storageEquipmentCreateSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  type: storageEquipmentTypeSchema,
+  location: z.string().trim().min(1).max(200).optional(),
+  // Defaults to the caller's organization when they belong to exactly one
+  organizationId: idSchema.optional(),
+});
+
+export const storageEquipmentUpdateSchema = z
+  .object({
+    name: z.string().trim().min(1).max(100),
+    location: z.string().trim().min(1).max(200).nullable(),
+    // Inactive equipment no longer accepts readings
+    active: z.boolean(),
+  })
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, {
+    message: "At least one field must be provided",
+  });
+
+export const temperatureReadingSchema = z.object({
+  recordedAt: z.coerce
+    .date({ invalid_type_error: "recordedAt must be a valid date" })
+    .refine(
+      (d) =>
+        d.getTime() <= Date.now() + readingPolicy.clockSkewMinutes * 60_000,
+      "recordedAt cannot be in the future"
+    ),
+  temperatureC: z.preprocess(
+    (v) => (v === "" || v === null ? undefined : Number(v)),
+    z
+      .number({
+        required_error: "temperatureC is required",
+        invalid_type_error: "temperatureC must be a number",
+      })
+      .min(-99.9, "temperatureC is out of range")
+      .max(99.9, "temperatureC is out of range")
+  ),
+});
+
+export const temperatureReadingBatchSchema = z.object({
+  readings: z
+    .array(temperatureReadingSchema)
+    .min(1, "At least one reading is required")
+    .max(
+      readingPolicy.maxBatchSize,
+      `At most ${readingPolicy.maxBatchSize} readings per upload`
+    ),
+});
+
+export const excursionReviewSchema = z.object({
+  decisions: z
+    .array(
+      z.object({
+        bloodUnitId: idSchema,
+        decision: z.enum(["RELEASED", "DISCARDED"]),
+      })
+    )
+    .default([])
+    .refine(
+      (decisions) =>
+        new Set(decisions.map((d) => d.bloodUnitId)).size === decisions.length,
+      "Each unit can be decided once"
+    ),
+  notes: z.string().trim().max(2000).optional(),
+});
+
+export type StorageEquipmentCreateInput = z.infer<
+  typeof storageEquipmentCreateSchema
+>;
+export type StorageEquipmentUpdateInput = z.infer<
+  typeof storageEquipmentUpdateSchema
+>;
+export type TemperatureReadingInput = z.infer<typeof temperatureReadingSchema>;
+export type ExcursionReviewInput = z.infer<typeof excursionReviewSchema>;
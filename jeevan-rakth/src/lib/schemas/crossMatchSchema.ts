@@ -0,0 +1,56 @@
+import { z } from "zod";
+
+const idSchema = z.preprocess(
+  (v) => (v === undefined ? undefined : Number(v)),
+  z.number().int().positive()
+);
+
+// Defaults to the units currently reserved for the request
+const bloodUnitIdsSchema = z
+  .array(idSchema)
+  .min(1, "At least one unit is required")
+  .max(20, "At most 20 units can be cross-matched at once");
+
+export const patientSampleCreateSchema = z.object({
+  sampleNumber: z
+    .string()
+    .trim()
+    .min(3, "Sample number is required")
+    .max(40, "Sample number is too long"),
+  // Defaults to the patient named on the request
+  patientName: z.string().trim().min(1).max(200).optional(),
+  patientIdentifier: z.string().trim().min(1).max(60).optional(),
+  collectedAt: z.coerce
+    .date({ invalid_type_error: "collectedAt must be a valid date" })
+    .refine((d) => d <= new Date(), "collectedAt cannot be in the future"),
+  notes: z.string().trim().max(1000).optional(),
+  bloodUnitIds: bloodUnitIdsSchema.optional(),
+});
+
+export const crossMatchCandidatesSchema = z.object({
+  bloodUnitIds: bloodUnitIdsSchema.optional(),
+});
+
+export const pretransfusionResultSchema = z.discriminatedUnion("test", [
+  z.object({
+    test: z.literal("ANTIBODY_SCREEN"),
+    result: z.enum(["NEGATIVE", "POSITIVE"]),
+  }),
+  z.object({
+    test: z.literal("IMMEDIATE_SPIN"),
+    bloodUnitId: idSchema,
+    result: z.enum(["COMPATIBLE", "INCOMPATIBLE"]),
+  }),
+  z.object({
+    test: z.literal("FULL_CROSSMATCH"),
+    bloodUnitId: idSchema,
+    result: z.enum(["COMPATIBLE", "INCOMPATIBLE"]),
+  }),
+]);
+
+export type PatientSampleCreateInput = z.infer<
+  typeof patientSampleCreateSchema
+>;
+export type PretransfusionResultInput = z.infer<
+  typeof pretransfusionResultSchema
+>;
@@ -0,0 +1,112 @@
+import { z } from "zod";
+import { bloodComponentSchema } from "@/lib/schemas/donorProfileSchema";
+
+export const screeningResultSchema = z.enum([
+  "PENDING",
+  "NON_REACTIVE",
+  "REACTIVE",
+]);
+
+export const adverseReactionSchema = z.enum(["MILD", "MODERATE", "SEVERE"]);
+
+const idSchema = z.preprocess(
+  (v) => (v === undefined ? undefined : Number(v)),
+  z.number().int().positive()
+);
+
+// A unit bagged from the collection, registered in QUARANTINE
+export const donationUnitSchema = z
+  .object({
+    component: bloodComponentSchema,
+    storageLocation: z
+      .string()
+      .trim()
+      .min(1, "Storage location is required")
+      .max(100),
+    volumeMl: z.preprocess(
+      (v) => (v === undefined ? undefined : Number(v)),
+      z.number().int().positive("volumeMl must be positive").optional()
+    ),
+    // Defaults to the component's shelf life when omitted
+    expiresAt: z.coerce
+      .date({ invalid_type_error: "expiresAt must be a valid date" })
+      .optional(),
+  })
+  .refine((data) => !data.expiresAt || data.expiresAt > new Date(), {
+    message: "expiresAt must be in the future",
+    path: ["expiresAt"],
+  });
+
+export const donationCreateSchema = z
+  .object({
+    // Assigned from the organization's ISBT 128 sequence when omitted
+    donationNumber: z
+      .string()
+      .trim()
+      .min(3, "Donation number is required")
+      .max(40, "Donation number is too long")
+      .optional(),
+    donorProfileId: idSchema,
+    collectedAt: z.coerce
+      .date({ invalid_type_error: "collectedAt must be a valid date" })
+      .refine((d) => d <= new Date(), "collectedAt cannot be in the future"),
+    component: bloodComponentSchema,
+    volumeMl: z.preprocess(
+      (v) => Number(v),
+      z
+        .number({ invalid_type_error: "volumeMl must be a number" })
+        .int("volumeMl must be an integer")
+        .min(50, "volumeMl is out of range")
+        .max(1000, "volumeMl is out of range")
+    ),
+    haemoglobinGdl: z.preprocess(
+      (v) =>
+        v === undefined || v === null || v === "" ? undefined : Number(v),
+      z
+        .number({ invalid_type_error: "haemoglobinGdl must be a number" })
+        .min(3, "haemoglobinGdl is out of range")
+        .max(25, "haemoglobinGdl is out of range")
+        .optional()
+    ),
+    // Defaults to the member recording the donation
+    phlebotomistId: idSchema.optional(),
+    // Collected at a camp; an appointment implies its camp
+    campId: idSchema.optional(),
+    appointmentId: idSchema.optional(),
+    adverseReaction: adverseReactionSchema.optional(),
+    adverseReactionNotes: z.string().trim().max(1000).optional(),
+    notes: z.string().trim().max(1000).optional(),
+    units: z.array(donationUnitSchema).max(4).default([]),
+    // Defaults to the caller's organization when they belong to exactly one
+    organizationId: idSchema.optional(),
+  })
+  .refine(
+    (data) =>
+      new Set(data.units.map((u) => u.component)).size === data.units.length,
+    { message: "Each component can be bagged once", path: ["units"] }
+  )
+  .refine((data) => !data.adverseReactionNotes || data.adverseReaction, {
+    message: "adverseReaction is required with notes",
+    path: ["adverseReaction"],
+  });
+
+// What is collected is fixed once recorded; screening and any reaction
+// noticed after the donor left are filled in later
+export const donationUpdateSchema = z
+  .object({
+    hivResult: screeningResultSchema,
+    hbvResult: screeningResultSchema,
+    hcvResult: screeningResultSchema,
+    syphilisResult: screeningResultSchema,
+    malariaResult: screeningResultSchema,
+    adverseReaction: adverseReactionSchema.nullable(),
+    adverseReactionNotes: z.string().trim().max(1000).nullable(),
+    notes: z.string().trim().max(1000).nullable(),
+  })
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, {
+    message: "At least one field must be provided",
+  });
+
+export type DonationCreateInput = z.infer<typeof donationCreateSchema>;
+export type DonationUpdateInput = z.infer<typeof donationUpdateSchema>;
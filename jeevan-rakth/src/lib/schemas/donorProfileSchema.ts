@@ -0,0 +1,125 @@
+import { z } from "zod";
+import { BLOOD_GROUPS, parseBloodGroup } from "@/lib/bloodGroups";
+import {
+  isValidTimeOfDay,
+  isValidTimezone,
+} from "@/lib/notifications/quietHours";
+
+export const bloodGroupSchema = z.preprocess(
+  (v) => (typeof v === "string" ? (parseBloodGroup(v) ?? v) : v),
+  z.enum(BLOOD_GROUPS, {
+    errorMap: () => ({
+      message: "Blood group must be one of A+, A-, B+, B-, AB+, AB-, O+ or O-",
+    }),
+  })
+);
+
+export const bloodComponentSchema = z.enum([
+  "WHOLE_BLOOD",
+  "RED_CELLS",
+  "PLASMA",
+  "PLATELETS",
+]);
+
+export const notificationChannelSchema = z.enum([
+  "IN_APP",
+  "EMAIL",
+  "SMS",
+  "PUSH",
+]);
+
+export const timeOfDaySchema = z
+  .string()
+  .refine(isValidTimeOfDay, "Time must be in HH:MM (24-hour) format");
+
+export const latitudeSchema = z.preprocess(
+  (v) => (v === undefined || v === null || v === "" ? v : Number(v)),
+  z
+    .number({ invalid_type_error: "latitude must be a number" })
+    .min(-90, "latitude must be between -90 and 90")
+    .max(90, "latitude must be between -90 and 90")
+);
+
+export const longitudeSchema = z.preprocess(
+  (v) => (v === undefined || v === null || v === "" ? v : Number(v)),
+  z
+    .number({ invalid_type_error: "longitude must be a number" })
+    .min(-180, "longitude must be between -180 and 180")
+    .max(180, "longitude must be between -180 and 180")
+);
+
+export const donorProfileUpsertSchema = z.object({
+  bloodGroup: bloodGroupSchema,
+  phone: z
+    .string()
+    .trim()
+    .regex(/^\+?[0-9\s()-]{7,20}$/, "Invalid phone number"),
+  addressLine: z.string().trim().min(1, "Address is required").max(255),
+  city: z.string().trim().min(1, "City is required").max(100),
+  state: z.string().trim().min(1, "State is required").max(100),
+  postalCode: z.string().trim().min(3, "Invalid postal code").max(12),
+  dateOfBirth: z.coerce
+    .date({ invalid_type_error: "dateOfBirth must be a valid date" })
+    .refine((d) => d < new Date(), "dateOfBirth must be in the past"),
+  weightKg: z.preprocess(
+    (v) => Number(v),
+    z
+      .number({ invalid_type_error: "weightKg must be a number" })
+      .positive("weightKg must be positive")
+      .max(300, "weightKg is out of range")
+  ),
+  haemoglobinGdl: z.preprocess(
+    (v) => (v === undefined || v === null || v === "" ? v : Number(v)),
+    z
+      .number({ invalid_type_error: "haemoglobinGdl must be a number" })
+      .min(3, "haemoglobinGdl is out of range")
+      .max(25, "haemoglobinGdl is out of range")
+      .nullable()
+      .optional()
+  ),
+  latitude: latitudeSchema.nullable().optional(),
+  longitude: longitudeSchema.nullable().optional(),
+  isAvailable: z.boolean().optional(),
+  alertsOptOut: z.boolean().optional(),
+  optedOutChannels: z.array(notificationChannelSchema).optional(),
+  quietHoursStart: timeOfDaySchema.nullable().optional(),
+  quietHoursEnd: timeOfDaySchema.nullable().optional(),
+  contactHoursStart: timeOfDaySchema.nullable().optional(),
+  contactHoursEnd: timeOfDaySchema.nullable().optional(),
+  timezone: z.string().refine(isValidTimezone, "Unknown timezone").optional(),
+});
+
+export const donorProfileUpdateSchema = donorProfileUpsertSchema
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, {
+    message: "At least one field must be provided",
+  });
+
+// A stretch of time the donor cannot donate, e.g. { "startsAt":
+// "2026-11-02T00:00:00+05:30", "endsAt": "2026-12-01T00:00:00+05:30" }
+export const unavailabilityCreateSchema = z
+  .object({
+    startsAt: z.coerce.date({
+      invalid_type_error: "startsAt must be a valid date",
+    }),
+    endsAt: z.coerce
+      .date({ invalid_type_error: "endsAt must be a valid date" })
+      .refine((d) => d > new Date(), "endsAt must be in the future"),
+    reason: z.string().trim().max(200).optional(),
+  })
+  .refine((data) => data.endsAt > data.startsAt, {
+    message: "endsAt must be after startsAt",
+    path: ["endsAt"],
+  })
+  .refine(
+    (data) =>
+      data.endsAt.getTime() - data.startsAt.getTime() <=
+      366 * 24 * 60 * 60 * 1000,
+    { message: "A period cannot be longer than a year", path: ["endsAt"] }
+  );
+
+export type DonorProfileUpsertInput = z.infer<typeof donorProfileUpsertSchema>;
+export type DonorProfileUpdateInput = z.infer<typeof donorProfileUpdateSchema>;
+export type UnavailabilityCreateInput = z.infer<
+  typeof unavailabilityCreateSchema
+>;
@@ -0,0 +1,39 @@
+import { z } from "zod";
+
+export const donorResponseSchema = z
+  .object({
+    response: z.enum(["ACCEPT", "DECLINE"], {
+      errorMap: () => ({ message: "response must be ACCEPT or DECLINE" }),
+    }),
+    // Minutes until the donor expects to reach the hospital
+    etaMinutes: z.preprocess(
+      (v) =>
+        v === undefined || v === null || v === "" ? undefined : Number(v),
+      z
+        .number({ invalid_type_error: "etaMinutes must be a number" })
+        .int("etaMinutes must be an integer")
+        .min(0, "etaMinutes cannot be negative")
+        .max(24 * 60, "etaMinutes cannot exceed 24 hours")
+        .optional()
+    ),
+    note: z.string().trim().max(500).optional(),
+  })
+  .refine(
+    (data) => data.response === "ACCEPT" || data.etaMinutes === undefined,
+    {
+      message: "etaMinutes only applies when accepting",
+      path: ["etaMinutes"],
+    }
+  );
+
+export type DonorResponseBody = z.infer<typeof donorResponseSchema>;
+
+// Sharing contact details with a request's coordinators without pledging
+export const contactConsentSchema = z.object({
+  consent: z.boolean({
+    required_error: "consent is required",
+    invalid_type_error: "consent must be true or false",
+  }),
+});
+
+export type ContactConsentBody = z.infer<typeof contactConsentSchema>;
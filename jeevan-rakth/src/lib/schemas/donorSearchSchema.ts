@@ -0,0 +1,41 @@
+import { z } from "zod";
+import {
+  bloodGroupSchema,
+  latitudeSchema,
+  longitudeSchema,
+} from "@/lib/schemas/donorProfileSchema";
+import { bloodComponentSchema } from "@/lib/schemas/bloodRequestSchema";
+import { bloodAntigenListSchema } from "@/lib/schemas/phenotypeSchema";
+
+export const MAX_SEARCH_RADIUS_KM = 200;
+export const MAX_SEARCH_PAGE_SIZE = 50;
+
+export const donorSearchQuerySchema = z.object({
+  lat: latitudeSchema,
+  lng: longitudeSchema,
+  radiusKm: z.preprocess(
+    (v) => (v === undefined ? 10 : Number(v)),
+    z
+      .number({ invalid_type_error: "radiusKm must be a number" })
+      .positive("radiusKm must be positive")
+      .max(
+        MAX_SEARCH_RADIUS_KM,
+        `radiusKm cannot exceed ${MAX_SEARCH_RADIUS_KM}`
+      )
+  ),
+  bloodGroup: bloodGroupSchema.optional(),
+  component: bloodComponentSchema.default("RED_CELLS"),
+  // e.g. "K,Fya"; donors must be typed negative for every antigen listed
+  antigenNegative: bloodAntigenListSchema.optional(),
+  rareOnly: z.preprocess((v) => v === "true", z.boolean()),
+  page: z.preprocess(
+    (v) => (v === undefined ? 1 : Number(v)),
+    z.number().int().min(1)
+  ),
+  limit: z.preprocess(
+    (v) => (v === undefined ? 10 : Number(v)),
+    z.number().int().min(1).max(MAX_SEARCH_PAGE_SIZE)
+  ),
+});
+
+export type DonorSearchQuery = z.infer<typeof donorSearchQuerySchema>;
@@ -0,0 +1,48 @@
+import { z } from "zod";
+import { bloodComponentSchema } from "@/lib/schemas/donorProfileSchema";
+
+export const deferralTypeSchema = z.enum(["TEMPORARY", "PERMANENT"]);
+
+export const deferralReasonSchema = z.enum([
+  "TATTOO",
+  "TRAVEL",
+  "MEDICATION",
+  "ILLNESS",
+  "SURGERY",
+  "PREGNANCY",
+  "LOW_HAEMOGLOBIN",
+  "TRANSFUSION_REACTION",
+  "OTHER",
+]);
+
+export const eligibilityQuerySchema = z.object({
+  component: bloodComponentSchema.default("WHOLE_BLOOD"),
+});
+
+export const deferralCreateSchema = z
+  .object({
+    type: deferralTypeSchema,
+    reasonCode: deferralReasonSchema,
+    notes: z.string().trim().max(500).optional(),
+    startsAt: z.coerce
+      .date({ invalid_type_error: "startsAt must be a valid date" })
+      .optional(),
+    expiresAt: z.coerce
+      .date({ invalid_type_error: "expiresAt must be a valid date" })
+      .optional(),
+  })
+  .refine((data) => data.type === "PERMANENT" || data.expiresAt, {
+    message: "Temporary deferrals require an expiry date",
+    path: ["expiresAt"],
+  })
+  .refine((data) => data.type === "TEMPORARY" || !data.expiresAt, {
+    message: "Permanent deferrals cannot expire",
+    path: ["expiresAt"],
+  })
+  .refine(
+    (data) => !data.expiresAt || data.expiresAt > (data.startsAt ?? new Date()),
+    { message: "expiresAt must be after the start date", path: ["expiresAt"] }
+  );
+
+export type EligibilityQuery = z.infer<typeof eligibilityQuerySchema>;
+export type DeferralCreateInput = z.infer<typeof deferralCreateSchema>;
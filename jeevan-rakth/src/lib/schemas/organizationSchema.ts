@@ -0,0 +1,73 @@
+import { z } from "zod";
+import {
+  latitudeSchema,
+  longitudeSchema,
+} from "@/lib/schemas/donorProfileSchema";
+import { FACILITY_CODE_PATTERN } from "@/lib/isbt128/codes";
+
+export const organizationTypeSchema = z.enum(["HOSPITAL", "BLOOD_BANK", "NGO"]);
+
+export const organizationRoleSchema = z.enum(["ADMIN", "STAFF", "VIEWER"]);
+
+export const organizationCreateSchema = z.object({
+  name: z.string().trim().min(2, "Organization name is required").max(200),
+  type: organizationTypeSchema,
+  registrationNumber: z
+    .string()
+    .trim()
+    .min(3, "Registration or licence number is required")
+    .max(60),
+  // ISBT 128 facility identification number, e.g. "A9999"
+  facilityCode: z
+    .string()
+    .trim()
+    .toUpperCase()
+    .regex(FACILITY_CODE_PATTERN, "Invalid ISBT 128 facility code")
+    .nullable()
+    .optional(),
+  phone: z
+    .string()
+    .trim()
+    .regex(/^\+?[0-9\s()-]{7,20}$/, "Invalid phone number")
+    .optional(),
+  email: z.string().trim().email("Invalid email address").optional(),
+  addressLine: z.string().trim().min(1, "Address is required").max(255),
+  city: z.string().trim().min(1, "City is required").max(100),
+  state: z.string().trim().min(1, "State is required").max(100),
+  postalCode: z.string().trim().min(3, "Invalid postal code").max(12),
+  latitude: latitudeSchema.nullable().optional(),
+  longitude: longitudeSchema.nullable().optional(),
+});
+
+// `verified` may only be changed by platform admins (checked in the route)
+export const organizationUpdateSchema = organizationCreateSchema
+  .extend({ verified: z.boolean() })
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, {
+    message: "At least one field must be provided",
+  });
+
+export const organizationMemberCreateSchema = z.object({
+  userId: z.preprocess(
+    (v) => Number(v),
+    z.number({ invalid_type_error: "userId must be a number" }).int().positive()
+  ),
+  role: organizationRoleSchema.default("STAFF"),
+});
+
+export const organizationMemberUpdateSchema = z
+  .object({
+    role: organizationRoleSchema,
+    // Paged on storage temperature excursions
+    onCall: z.boolean(),
+  })
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, {
+    message: "At least one field must be provided",
+  });
+
+export type OrganizationCreateInput = z.infer<typeof organizationCreateSchema>;
+export type OrganizationUpdateInput = z.infer<typeof organizationUpdateSchema>;
+export type OrganizationMemberCreateInput = z.infer<
+  typeof organizationMemberCreateSchema
+>;
@@ -0,0 +1,75 @@
+import { z } from "zod";
+import { BLOOD_ANTIGENS, parseBloodAntigen } from "@/lib/bloodAntigens";
+
+export const bloodAntigenSchema = z.preprocess(
+  (v) => (typeof v === "string" ? (parseBloodAntigen(v) ?? v) : v),
+  z.enum(BLOOD_ANTIGENS, {
+    errorMap: () => ({
+      message: "Antigen must be an ISBT symbol such as K, Fya or Jkb",
+    }),
+  })
+);
+
+// An array, or a comma-separated list as sent in a query string
+export const bloodAntigenListSchema = z.preprocess(
+  (v) =>
+    typeof v === "string"
+      ? v
+          .split(",")
+          .map((s) => s.trim())
+          .filter(Boolean)
+      : v,
+  z
+    .array(bloodAntigenSchema)
+    .max(BLOOD_ANTIGENS.length)
+    .refine(
+      (antigens) => new Set(antigens).size === antigens.length,
+      "Each antigen can be listed once"
+    )
+);
+
+export const rareContactStatusSchema = z.enum([
+  "PENDING",
+  "APPROVED",
+  "REJECTED",
+]);
+
+// Replaces the donor's whole extended phenotype
+export const donorPhenotypeSchema = z
+  .object({
+    antigensPositive: bloodAntigenListSchema.default([]),
+    antigensNegative: bloodAntigenListSchema.default([]),
+    rareDonor: z.boolean().default(false),
+    // e.g. "Bombay (Oh)", "Rh-null", "Fy(a-b-)"
+    rarePhenotype: z.string().trim().min(1).max(100).nullable().optional(),
+  })
+  .refine(
+    (data) =>
+      !data.antigensPositive.some((a) => data.antigensNegative.includes(a)),
+    {
+      message: "An antigen cannot be both positive and negative",
+      path: ["antigensNegative"],
+    }
+  )
+  .refine((data) => data.rareDonor || !data.rarePhenotype, {
+    message: "rarePhenotype is only recorded for rare donors",
+    path: ["rarePhenotype"],
+  });
+
+export const rareContactRequestSchema = z.object({
+  reason: z
+    .string()
+    .trim()
+    .min(10, "Explain why this donor is needed")
+    .max(1000, "Reason is too long"),
+});
+
+export const rareContactDecisionSchema = z.object({
+  decision: z.enum(["APPROVE", "REJECT"]),
+  note: z.string().trim().max(500, "Note is too long").optional(),
+});
+
+export type DonorPhenotypeInput = z.infer<typeof donorPhenotypeSchema>;
+export type RareContactDecisionInput = z.infer<
+  typeof rareContactDecisionSchema
+>;
@@ -0,0 +1,88 @@
+import { z } from "zod";
+import { bloodGroupSchema } from "@/lib/schemas/donorProfileSchema";
+
+export const REPORT_IDS = [
+  "donations",
+  "fulfilment",
+  "wastage",
+  "retention",
+  "camps",
+  "haemovigilance",
+] as const;
+
+export const MAX_REPORT_RANGE_DAYS = 3 * 366;
+export const MAX_REPORT_PAGE_SIZE = 200;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+export const reportIdSchema = z.enum(REPORT_IDS);
+
+export const reportIntervalSchema = z.enum(["day", "week", "month"]);
+
+export const reportFormatSchema = z.enum(["csv", "xlsx"]);
+
+const reportFilterFields = {
+  from: z.coerce.date({
+    required_error: "from is required",
+    invalid_type_error: "from must be a valid date",
+  }),
+  // A bare date includes the whole of that day
+  to: z.preprocess(
+    (v) =>
+      typeof v === "string" && DATE_ONLY.test(v)
+        ? new Date(new Date(v).getTime() + DAY_MS)
+        : v,
+    z.coerce.date({
+      required_error: "to is required",
+      invalid_type_error: "to must be a valid date",
+    })
+  ),
+  organizationId: z.preprocess(
+    (v) => (v === undefined ? undefined : Number(v)),
+    z.number().int().positive().optional()
+  ),
+  bloodGroup: bloodGroupSchema.optional(),
+  interval: reportIntervalSchema.default("month"),
+};
+
+type RangeFields = { from: Date; to: Date };
+
+const rangeIsOrdered = (data: RangeFields) => data.to > data.from;
+const rangeIsBounded = (data: RangeFields) =>
+  data.to.getTime() - data.from.getTime() <= MAX_REPORT_RANGE_DAYS * DAY_MS;
+
+export const reportQuerySchema = z
+  .object({
+    ...reportFilterFields,
+    page: z.preprocess(
+      (v) => (v === undefined ? 1 : Number(v)),
+      z.number().int().min(1)
+    ),
+    limit: z.preprocess(
+      (v) => (v === undefined ? 50 : Number(v)),
+      z.number().int().min(1).max(MAX_REPORT_PAGE_SIZE)
+    ),
+  })
+  .refine(rangeIsOrdered, { message: "to must be after from", path: ["to"] })
+  .refine(rangeIsBounded, {
+    message: `Date range cannot exceed ${MAX_REPORT_RANGE_DAYS} days`,
+    path: ["to"],
+  });
+
+export const reportExportQuerySchema = z
+  .object({
+    ...reportFilterFields,
+    format: reportFormatSchema.default("csv"),
+  })
+  .refine(rangeIsOrdered, { message: "to must be after from", path: ["to"] })
+  .refine(rangeIsBounded, {
+    message: `Date range cannot exceed ${MAX_REPORT_RANGE_DAYS} days`,
+    path: ["to"],
+  });
+
+export type ReportId = z.infer<typeof reportIdSchema>;
+export type ReportInterval = z.infer<typeof reportIntervalSchema>;
+export type ReportFormat = z.infer<typeof reportFormatSchema>;
+export type ReportQuery = z.infer<typeof reportQuerySchema>;
+export type ReportExportQuery = z.infer<typeof reportExportQuerySchema>;
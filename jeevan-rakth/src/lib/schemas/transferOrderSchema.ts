@@ -0,0 +1,92 @@
+import { z } from "zod";
+import {
+  bloodComponentSchema,
+  bloodGroupSchema,
+} from "@/lib/schemas/donorProfileSchema";
+
+export const transferOrderStatusSchema = z.enum([
+  "REQUESTED",
+  "PICKED",
+  "DISPATCHED",
+  "IN_TRANSIT",
+  "RECEIVED",
+  "CANCELLED",
+]);
+
+const idSchema = z.preprocess(
+  (v) => (v === undefined ? undefined : Number(v)),
+  z.number().int().positive()
+);
+
+const temperatureSchema = z.preprocess(
+  (v) => Number(v),
+  z
+    .number({ invalid_type_error: "temperatureC must be a number" })
+    .min(-80, "temperatureC is out of range")
+    .max(60, "temperatureC is out of range")
+);
+
+export const transferOrderCreateSchema = z.object({
+  supplyingOrganizationId: idSchema,
+  component: bloodComponentSchema,
+  bloodGroup: bloodGroupSchema,
+  units: z.preprocess(
+    (v) => Number(v),
+    z
+      .number()
+      .int("units must be an integer")
+      .min(1, "At least one unit is required")
+      .max(100, "units is too large")
+  ),
+  neededBy: z.coerce
+    .date({ invalid_type_error: "neededBy must be a valid date" })
+    .refine((d) => d > new Date(), "neededBy must be in the future")
+    .optional(),
+  notes: z.string().trim().max(1000).optional(),
+  // The requesting organization; defaults to the caller's only one
+  organizationId: idSchema.optional(),
+});
+
+export const transferCheckpointSchema = z.object({
+  temperatureC: temperatureSchema,
+  location: z.string().trim().min(1).max(200).optional(),
+  notes: z.string().trim().max(500).optional(),
+});
+
+export const transferOrderTransitionSchema = z.discriminatedUnion("action", [
+  z.object({
+    action: z.literal("pick"),
+    // Defaults to the units requested
+    units: z.preprocess(
+      (v) => (v === undefined ? undefined : Number(v)),
+      z.number().int().min(1, "units must be at least 1").optional()
+    ),
+  }),
+  z.object({
+    action: z.literal("dispatch"),
+    temperatureC: temperatureSchema,
+    location: z.string().trim().min(1).max(200).optional(),
+    courier: z.string().trim().min(1).max(200).optional(),
+  }),
+  z.object({
+    action: z.literal("receive"),
+    temperatureC: temperatureSchema,
+    storageLocation: z
+      .string()
+      .trim()
+      .min(1, "Storage location is required")
+      .max(100),
+  }),
+  z.object({
+    action: z.literal("cancel"),
+    reason: z.string().trim().min(3, "A cancellation reason is required"),
+  }),
+]);
+
+export type TransferOrderCreateInput = z.infer<
+  typeof transferOrderCreateSchema
+>;
+export type TransferCheckpointInput = z.infer<typeof transferCheckpointSchema>;
+export type TransferOrderTransitionInput = z.infer<
+  typeof transferOrderTransitionSchema
+>;
@@ -0,0 +1,115 @@
+import { z } from "zod";
+
+const idSchema = z.preprocess(
+  (v) => (v === undefined ? undefined : Number(v)),
+  z.number().int().positive()
+);
+
+export const transfusionReactionTypeSchema = z.enum([
+  "FEBRILE_NON_HAEMOLYTIC",
+  "ALLERGIC",
+  "ANAPHYLACTIC",
+  "ACUTE_HAEMOLYTIC",
+  "DELAYED_HAEMOLYTIC",
+  "TRALI",
+  "TACO",
+  "TRANSFUSION_ASSOCIATED_DYSPNOEA",
+  "HYPOTENSIVE",
+  "TRANSFUSION_TRANSMITTED_INFECTION",
+  "OTHER",
+]);
+
+export const transfusionReactionSeveritySchema = z.enum([
+  "NON_SEVERE",
+  "SEVERE",
+  "LIFE_THREATENING",
+  "DEATH",
+]);
+
+export const transfusionReactionOutcomeSchema = z.enum([
+  "RECOVERED",
+  "MINOR_SEQUELAE",
+  "SERIOUS_SEQUELAE",
+  "DEATH",
+  "UNKNOWN",
+]);
+
+export const reactionImputabilitySchema = z.enum([
+  "EXCLUDED",
+  "UNLIKELY",
+  "POSSIBLE",
+  "PROBABLE",
+  "CERTAIN",
+]);
+
+export const lookbackStatusSchema = z.enum(["OPEN", "IN_PROGRESS", "CLOSED"]);
+
+const pastDate = (field: string) =>
+  z.coerce
+    .date({ invalid_type_error: `${field} must be a valid date` })
+    .refine((d) => d <= new Date(), `${field} cannot be in the future`);
+
+export const transfusionReactionCreateSchema = z
+  .object({
+    // The issued unit the patient was transfused with
+    bloodUnitId: idSchema,
+    type: transfusionReactionTypeSchema,
+    severity: transfusionReactionSeveritySchema,
+    outcome: transfusionReactionOutcomeSchema.default("UNKNOWN"),
+    imputability: reactionImputabilitySchema.optional(),
+    onsetAt: pastDate("onsetAt"),
+    transfusionStartedAt: pastDate("transfusionStartedAt").optional(),
+    // Defaults to the patient named on the request the unit was issued for
+    patientName: z.string().trim().min(1).max(200).optional(),
+    patientIdentifier: z.string().trim().min(1).max(60).optional(),
+    description: z
+      .string()
+      .trim()
+      .min(10, "Describe the signs and symptoms")
+      .max(4000),
+  })
+  .refine(
+    (data) =>
+      !data.transfusionStartedAt || data.transfusionStartedAt <= data.onsetAt,
+    {
+      message: "The reaction cannot start before the transfusion",
+      path: ["onsetAt"],
+    }
+  );
+
+// Follow-up once the patient's course is known
+export const transfusionReactionUpdateSchema = z
+  .object({
+    outcome: transfusionReactionOutcomeSchema,
+    imputability: reactionImputabilitySchema,
+    description: z.string().trim().min(10).max(4000),
+  })
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, {
+    message: "At least one field must be provided",
+  });
+
+export const lookbackTransitionSchema = z.discriminatedUnion("action", [
+  z.object({ action: z.literal("start") }),
+  z.object({
+    action: z.literal("close"),
+    conclusion: z.enum([
+      "DONOR_IMPLICATED",
+      "DONOR_NOT_IMPLICATED",
+      "INCONCLUSIVE",
+    ]),
+    findings: z
+      .string()
+      .trim()
+      .min(10, "Record the findings of the investigation")
+      .max(4000),
+  }),
+]);
+
+export type TransfusionReactionCreateInput = z.infer<
+  typeof transfusionReactionCreateSchema
+>;
+export type TransfusionReactionUpdateInput = z.infer<
+  typeof transfusionReactionUpdateSchema
+>;
+export type LookbackTransitionInput = z.infer<typeof lookbackTransitionSchema>;
@@ -0,0 +1,118 @@
+import { z } from "zod";
+import {
+  decodeBloodGroup,
+  decodeDonationNumber,
+  decodeExpiry,
+  decodeProductCode,
+} from "@/lib/isbt128/codes";
+
+// Each field takes the string a barcode scanner decodes from one quadrant
+// of an ISBT 128 label and resolves to the stored value
+
+const donationNumberScanSchema = z
+  .string()
+  .trim()
+  .transform((value, ctx) => {
+    const decoded = decodeDonationNumber(value);
+    if (!decoded) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "Not an ISBT 128 donation identification number",
+      });
+      return z.NEVER;
+    }
+    if (!decoded.checkValid) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "Check character does not match the donation number",
+      });
+      return z.NEVER;
+    }
+    return decoded.din;
+  });
+
+const productCodeScanSchema = z
+  .string()
+  .trim()
+  .transform((value, ctx) => {
+    const component = decodeProductCode(value);
+    if (!component) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "Unknown ISBT 128 product code",
+      });
+      return z.NEVER;
+    }
+    return component;
+  });
+
+const bloodGroupScanSchema = z
+  .string()
+  .trim()
+  .transform((value, ctx) => {
+    const bloodGroup = decodeBloodGroup(value);
+    if (!bloodGroup) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "Unknown ISBT 128 blood group code",
+      });
+      return z.NEVER;
+    }
+    return bloodGroup;
+  });
+
+const expiryScanSchema = z
+  .string()
+  .trim()
+  .transform((value, ctx) => {
+    const expiresAt = decodeExpiry(value);
+    if (!expiresAt) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "Not an ISBT 128 expiration date and time",
+      });
+      return z.NEVER;
+    }
+    return expiresAt;
+  });
+
+// The blood group barcode is optional when handling a unit already in
+// stock; when scanned it must match too
+const unitLabelScanSchema = z.object({
+  unitNumber: donationNumberScanSchema,
+  productCode: productCodeScanSchema,
+  expiry: expiryScanSchema,
+  bloodGroup: bloodGroupScanSchema.optional(),
+});
+
+export const unitReceiveScanSchema = unitLabelScanSchema.extend({
+  bloodGroup: bloodGroupScanSchema,
+  storageLocation: z
+    .string()
+    .trim()
+    .min(1, "Storage location is required")
+    .max(100),
+  // Taken from the donation when it was recorded here
+  collectedAt: z.coerce
+    .date({ invalid_type_error: "collectedAt must be a valid date" })
+    .refine((d) => d <= new Date(), "collectedAt cannot be in the future")
+    .optional(),
+  volumeMl: z.preprocess(
+    (v) => (v === undefined ? undefined : Number(v)),
+    z.number().int().positive("volumeMl must be positive").optional()
+  ),
+  // Defaults to the caller's organization when they belong to exactly one
+  organizationId: z.preprocess(
+    (v) => (v === undefined ? undefined : Number(v)),
+    z.number().int().positive().optional()
+  ),
+});
+
+export const unitIssueScanSchema = unitLabelScanSchema;
+
+export const unitDiscardScanSchema = unitLabelScanSchema.extend({
+  reason: z.string().trim().min(3, "A discard reason is required").max(200),
+});
+
+export type UnitLabelScan = z.infer<typeof unitLabelScanSchema>;
+export type UnitReceiveScanInput = z.infer<typeof unitReceiveScanSchema>;
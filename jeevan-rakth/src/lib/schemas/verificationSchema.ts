@@ -0,0 +1,43 @@
+import { z } from "zod";
+
+export const verificationDocumentTypeSchema = z.enum([
+  "ID_PROOF",
+  "BLOOD_GROUP_REPORT",
+]);
+
+export const verificationStatusSchema = z.enum([
+  "UNVERIFIED",
+  "PENDING",
+  "INFO_REQUESTED",
+  "VERIFIED",
+  "REJECTED",
+]);
+
+// Files are uploaded first through /api/upload and registered with
+// /api/files; a submission attaches them by id
+export const verificationSubmitSchema = z.object({
+  documents: z
+    .array(
+      z.object({
+        type: verificationDocumentTypeSchema,
+        fileId: z.preprocess(
+          (v) => Number(v),
+          z.number().int().positive("fileId must be a positive integer")
+        ),
+      })
+    )
+    .min(1, "At least one document is required")
+    .max(4, "At most 4 documents can be submitted at once"),
+});
+
+export const verificationReviewSchema = z.object({
+  decision: z.enum(["APPROVE", "REJECT", "REQUEST_INFO"]),
+  reason: z
+    .string()
+    .trim()
+    .min(3, "A reason is required")
+    .max(500, "Reason is too long"),
+});
+
+export type VerificationSubmitInput = z.infer<typeof verificationSubmitSchema>;
+export type VerificationReviewInput = z.infer<typeof verificationReviewSchema>;
@@ -82,7 +82,12 @@ export const corsConfig = {
     // 'https://your-production-domain.com'
   ],
   allowedMethods: ["GET", "POST", "PUT", "PATCH", "DELETE", "OPTIONS"],
-  allowedHeaders: ["Content-Type", "Authorization", "X-Requested-With"],
+  allowedHeaders: [
+    "Content-Type",
+    "Authorization",
+    "X-Requested-With",
+    "X-Organization-Id",
+  ],
   credentials: true,
   maxAge: 86400, // 24 hours
 };
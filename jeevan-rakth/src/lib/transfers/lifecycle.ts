@@ -0,0 +1,58 @@
+/**
+ * Transfer Order Lifecycle
+ *
+ * A requesting organization asks a blood bank for units; the bank picks
+ * them and sends them on:
+ *
+ *   REQUESTED → PICKED → DISPATCHED → IN_TRANSIT → RECEIVED
+ *       │          │
+ *       └──────────┴──→ CANCELLED
+ *
+ * RECEIVED and CANCELLED are terminal. Once dispatched an order can only
+ * be received: units already on the road are never cancelled back into
+ * the supplier's stock without a receipt.
+ */
+
+import type { BloodComponent, TransferOrderStatus } from "@prisma/client";
+import { componentTransportTemperatureC } from "@/config/inventory";
+
+export const TRANSFER_ORDER_TRANSITIONS: Record<
+  TransferOrderStatus,
+  TransferOrderStatus[]
+> = {
+  REQUESTED: ["PICKED", "CANCELLED"],
+  PICKED: ["DISPATCHED", "CANCELLED"],
+  DISPATCHED: ["IN_TRANSIT", "RECEIVED"],
+  IN_TRANSIT: ["RECEIVED"],
+  RECEIVED: [],
+  CANCELLED: [],
+};
+
+/** Statuses in which picked units are held for the order */
+export const ACTIVE_TRANSFER_STATUSES: TransferOrderStatus[] = [
+  "PICKED",
+  "DISPATCHED",
+  "IN_TRANSIT",
+];
+
+/**
+ * Check whether an order may move between two statuses
+ */
+export function canTransitionTransfer(
+  from: TransferOrderStatus,
+  to: TransferOrderStatus
+): boolean {
+  return TRANSFER_ORDER_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Check whether a checkpoint reading is within the component's transport
+ * range
+ */
+export function isWithinTransportRange(
+  component: BloodComponent,
+  temperatureC: number
+): boolean {
+  const { min, max } = componentTransportTemperatureC[component];
+  return temperatureC >= min && temperatureC <= max;
+}
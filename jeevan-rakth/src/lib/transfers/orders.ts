@@ -0,0 +1,402 @@
+/**
+ * Transfer Orders
+ *
+ * Moves blood units between organizations. The requesting organization
+ * orders N units of a group and component; the supplying blood bank picks
+ * specific units first-expired first-out, dispatches them and logs
+ * cold-chain temperatures on the way. Units stay RESERVED in the supplier's
+ * stock until the receiver confirms delivery, and change owner in the same
+ * transaction as that confirmation.
+ *
+ * If any reading fell outside the component's transport range, received
+ * units arrive in QUARANTINE for the receiver to assess instead of
+ * AVAILABLE. So do units whose donation is under a look-back
+ * investigation (see lib/haemovigilance/lookback).
+ */
+
+import {
+  Prisma,
+  type TransferOrder,
+  type TransferOrderStatus,
+} from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import type {
+  TransferCheckpointInput,
+  TransferOrderCreateInput,
+  TransferOrderTransitionInput,
+} from "@/lib/schemas/transferOrderSchema";
+import {
+  canTransitionTransfer,
+  isWithinTransportRange,
+} from "@/lib/transfers/lifecycle";
+import { donationsUnderLookback } from "@/lib/haemovigilance/lookback";
+
+type Tx = Prisma.TransactionClient;
+
+type Side = "requester" | "supplier";
+
+// Which side of an order may apply each action
+const ACTION_SIDES: Record<TransferOrderTransitionInput["action"], Side[]> = {
+  pick: ["supplier"],
+  dispatch: ["supplier"],
+  receive: ["requester"],
+  cancel: ["requester", "supplier"],
+};
+
+export const TRANSFER_ORDER_INCLUDE = {
+  requestingOrganization: { select: { id: true, name: true } },
+  supplyingOrganization: { select: { id: true, name: true } },
+  createdBy: { select: { id: true, name: true } },
+  items: {
+    select: {
+      bloodUnit: {
+        select: {
+          id: true,
+          donationNumber: true,
+          component: true,
+          bloodGroup: true,
+          expiresAt: true,
+          status: true,
+        },
+      },
+    },
+  },
+  checkpoints: {
+    orderBy: { recordedAt: "asc" },
+    include: { recordedBy: { select: { id: true, name: true } } },
+  },
+} satisfies Prisma.TransferOrderInclude;
+
+/**
+ * Restrict transfer orders to those the organizations requested or supply
+ */
+export function transferOrderScope(
+  organizationIds: number[] | null
+): Prisma.TransferOrderWhereInput {
+  return organizationIds === null
+    ? {}
+    : {
+        OR: [
+          { requestingOrganizationId: { in: organizationIds } },
+          { supplyingOrganizationId: { in: organizationIds } },
+        ],
+      };
+}
+
+function sidesOf(
+  order: { requestingOrganizationId: number; supplyingOrganizationId: number },
+  organizationIds: number[] | null
+): Side[] {
+  const sides: Side[] = [];
+  if (
+    organizationIds === null ||
+    organizationIds.includes(order.requestingOrganizationId)
+  ) {
+    sides.push("requester");
+  }
+  if (
+    organizationIds === null ||
+    organizationIds.includes(order.supplyingOrganizationId)
+  ) {
+    sides.push("supplier");
+  }
+  return sides;
+}
+
+/**
+ * Ask a blood bank for units.
+ *
+ * @throws Error("ORGANIZATION_NOT_FOUND") if the supplier is not a blood bank
+ * @throws Error("INVALID_SUPPLIER") if an organization orders from itself
+ */
+export async function createTransferOrder(
+  input: TransferOrderCreateInput,
+  requestingOrganizationId: number,
+  createdById: number
+) {
+  const supplier = await prisma.organization.findFirst({
+    where: { id: input.supplyingOrganizationId, type: "BLOOD_BANK" },
+    select: { id: true },
+  });
+  if (!supplier) throw new Error("ORGANIZATION_NOT_FOUND");
+  if (supplier.id === requestingOrganizationId) {
+    throw new Error("INVALID_SUPPLIER");
+  }
+
+  return prisma.transferOrder.create({
+    data: {
+      component: input.component,
+      bloodGroup: input.bloodGroup,
+      unitsRequested: input.units,
+      neededBy: input.neededBy,
+      notes: input.notes,
+      requestingOrganizationId,
+      supplyingOrganizationId: supplier.id,
+      createdById,
+    },
+    include: TRANSFER_ORDER_INCLUDE,
+  });
+}
+
+/**
+ * Reserve the supplier's soonest-expiring matching units for an order
+ */
+async function pickUnits(
+  tx: Tx,
+  order: Pick<
+    TransferOrder,
+    | "id"
+    | "component"
+    | "bloodGroup"
+    | "unitsRequested"
+    | "supplyingOrganizationId"
+  >,
+  units: number,
+  now: Date
+) {
+  if (units > order.unitsRequested) throw new Error("UNITS_EXCEED_REQUESTED");
+
+  const candidates = await tx.bloodUnit.findMany({
+    where: {
+      status: "AVAILABLE",
+      organizationId: order.supplyingOrganizationId,
+      component: order.component,
+      bloodGroup: order.bloodGroup,
+      expiresAt: { gt: now },
+    },
+    orderBy: [{ expiresAt: "asc" }, { id: "asc" }],
+    take: units,
+    select: { id: true },
+  });
+  if (candidates.length < units) throw new Error("INSUFFICIENT_UNITS");
+
+  const ids = candidates.map((unit) => unit.id);
+  const { count } = await tx.bloodUnit.updateMany({
+    where: { id: { in: ids }, status: "AVAILABLE" },
+    data: { status: "RESERVED", reservedAt: now, reservedForId: null },
+  });
+  if (count !== ids.length) throw new Error("CONCURRENT_MODIFICATION");
+
+  await tx.transferOrderItem.createMany({
+    data: ids.map((bloodUnitId) => ({
+      transferOrderId: order.id,
+      bloodUnitId,
+    })),
+  });
+}
+
+/**
+ * Apply a lifecycle action to a transfer order.
+ *
+ * Runs SERIALIZABLE so two pickers cannot reserve the same unit; the loser
+ * fails with P2034 and may retry. Every status change is conditional on the
+ * status read at the start.
+ *
+ * @throws Error("TRANSFER_ORDER_NOT_FOUND") if the order is not visible
+ * @throws Error("TRANSFER_ACCESS_DENIED") if the caller acts for the wrong
+ * side of the order
+ * @throws Error("INVALID_STATUS_TRANSITION") if the action is not allowed
+ * from the current status
+ * @throws Error("UNITS_EXCEED_REQUESTED") / Error("INSUFFICIENT_UNITS") when
+ * picking
+ * @throws Error("CONCURRENT_MODIFICATION") if the order changed meanwhile
+ */
+export async function transitionTransferOrder(
+  id: number,
+  input: TransferOrderTransitionInput,
+  organizationIds: number[] | null,
+  actorId: number
+) {
+  return prisma.$transaction(
+    async (tx: Tx) => {
+      const current = await tx.transferOrder.findFirst({
+        where: { id, ...transferOrderScope(organizationIds) },
+        include: {
+          items: {
+            select: {
+              bloodUnitId: true,
+              bloodUnit: { select: { donationNumber: true } },
+            },
+          },
+        },
+      });
+      if (!current) throw new Error("TRANSFER_ORDER_NOT_FOUND");
+
+      const sides = sidesOf(current, organizationIds);
+      if (!ACTION_SIDES[input.action].some((side) => sides.includes(side))) {
+        throw new Error("TRANSFER_ACCESS_DENIED");
+      }
+
+      const now = new Date();
+      const unitIds = current.items.map((item) => item.bloodUnitId);
+      const withinRange =
+        input.action === "dispatch" || input.action === "receive"
+          ? isWithinTransportRange(current.component, input.temperatureC)
+          : true;
+      const coldChainBreached = current.coldChainBreached || !withinRange;
+      let next: TransferOrderStatus;
+      let data: Prisma.TransferOrderUncheckedUpdateManyInput;
+
+      switch (input.action) {
+        case "pick":
+          next = "PICKED";
+          data = { pickedAt: now };
+          break;
+        case "dispatch":
+          next = "DISPATCHED";
+          data = { dispatchedAt: now, courier: input.courier };
+          break;
+        case "receive":
+          next = "RECEIVED";
+          data = { receivedAt: now };
+          break;
+        case "cancel":
+          next = "CANCELLED";
+          data = { cancelledAt: now, cancellationReason: input.reason };
+          break;
+      }
+
+      if (!canTransitionTransfer(current.status, next)) {
+        throw new Error("INVALID_STATUS_TRANSITION");
+      }
+
+      const { count } = await tx.transferOrder.updateMany({
+        where: { id, status: current.status },
+        data: { ...data, status: next, coldChainBreached },
+      });
+      if (count === 0) throw new Error("CONCURRENT_MODIFICATION");
+
+      if (input.action === "pick") {
+        await pickUnits(
+          tx,
+          current,
+          input.units ?? current.unitsRequested,
+          now
+        );
+      }
+
+      if (input.action === "dispatch" || input.action === "receive") {
+        await tx.transferCheckpoint.create({
+          data: {
+            stage: input.action === "dispatch" ? "DISPATCH" : "RECEIPT",
+            temperatureC: input.temperatureC,
+            withinRange,
+            location: input.action === "dispatch" ? input.location : undefined,
+            transferOrderId: id,
+            recordedById: actorId,
+          },
+        });
+      }
+
+      // Units of a donation under look-back come off the order in
+      // QUARANTINE whichever way it ends
+      const underLookback =
+        input.action === "receive" || input.action === "cancel"
+          ? await donationsUnderLookback(
+              current.items.map((item) => item.bloodUnit.donationNumber),
+              tx
+            )
+          : new Set<string>();
+      const heldUnitIds = current.items
+        .filter((item) => underLookback.has(item.bloodUnit.donationNumber))
+        .map((item) => item.bloodUnitId);
+      const clearUnitIds = unitIds.filter((u) => !heldUnitIds.includes(u));
+
+      if (input.action === "receive") {
+        // Units discarded on the way (e.g. expired in transit) stay with
+        // the supplier
+        for (const [ids, status] of [
+          [clearUnitIds, coldChainBreached ? "QUARANTINE" : "AVAILABLE"],
+          [heldUnitIds, "QUARANTINE"],
+        ] as const) {
+          if (ids.length === 0) continue;
+          await tx.bloodUnit.updateMany({
+            where: {
+              id: { in: ids },
+              status: "RESERVED",
+              organizationId: current.supplyingOrganizationId,
+            },
+            data: {
+              organizationId: current.requestingOrganizationId,
+              status,
+              storageLocation: input.storageLocation,
+              // The supplier's equipment; assigned anew on arrival
+              storageEquipmentId: null,
+              reservedAt: null,
+            },
+          });
+        }
+      }
+
+      if (input.action === "cancel") {
+        for (const [ids, status] of [
+          [clearUnitIds, "AVAILABLE"],
+          [heldUnitIds, "QUARANTINE"],
+        ] as const) {
+          if (ids.length === 0) continue;
+          await tx.bloodUnit.updateMany({
+            where: { id: { in: ids }, status: "RESERVED" },
+            data: { status, reservedAt: null },
+          });
+        }
+      }
+
+      return tx.transferOrder.findUniqueOrThrow({
+        where: { id },
+        include: TRANSFER_ORDER_INCLUDE,
+      });
+    },
+    { isolationLevel: Prisma.TransactionIsolationLevel.Serializable }
+  );
+}
+
+/**
+ * Log a cold-chain reading for an order on the road. The first reading
+ * after dispatch moves the order to IN_TRANSIT.
+ *
+ * @throws Error("TRANSFER_ORDER_NOT_FOUND") if the order is not visible
+ * @throws Error("INVALID_STATUS_TRANSITION") if the order is not on the road
+ * @throws Error("CONCURRENT_MODIFICATION") if the order changed meanwhile
+ */
+export async function recordTransferCheckpoint(
+  id: number,
+  input: TransferCheckpointInput,
+  organizationIds: number[] | null,
+  actorId: number
+) {
+  return prisma.$transaction(async (tx: Tx) => {
+    const current = await tx.transferOrder.findFirst({
+      where: { id, ...transferOrderScope(organizationIds) },
+      select: { status: true, component: true, coldChainBreached: true },
+    });
+    if (!current) throw new Error("TRANSFER_ORDER_NOT_FOUND");
+    if (current.status !== "DISPATCHED" && current.status !== "IN_TRANSIT") {
+      throw new Error("INVALID_STATUS_TRANSITION");
+    }
+
+    const withinRange = isWithinTransportRange(
+      current.component,
+      input.temperatureC
+    );
+    const { count } = await tx.transferOrder.updateMany({
+      where: { id, status: current.status },
+      data: {
+        status: "IN_TRANSIT",
+        coldChainBreached: current.coldChainBreached || !withinRange,
+      },
+    });
+    if (count === 0) throw new Error("CONCURRENT_MODIFICATION");
+
+    return tx.transferCheckpoint.create({
+      data: {
+        stage: "IN_TRANSIT",
+        temperatureC: input.temperatureC,
+        withinRange,
+        location: input.location,
+        notes: input.notes,
+        transferOrderId: id,
+        recordedById: actorId,
+      },
+    });
+  });
+}
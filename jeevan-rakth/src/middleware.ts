@@ -21,7 +21,14 @@ export function middleware(req: NextRequest) {
   }
 
   // Protected frontend routes
-  if (pathname.startsWith("/dashboard") || pathname.startsWith("/users")) {
+  if (
+    pathname.startsWith("/dashboard") ||
+    pathname.startsWith("/users") ||
+    pathname.startsWith("/blood-requests") ||
+    pathname.startsWith("/camps") ||
+    pathname.startsWith("/verifications") ||
+    pathname.startsWith("/reports")
+  ) {
     const token = req.cookies.get("accessToken")?.value;
 
     if (!token) {
@@ -105,5 +112,13 @@ export function middleware(req: NextRequest) {
  * Ensures middleware runs for API routes and protected frontend routes
  */
 export const config = {
-  matcher: ["/api/:path*", "/dashboard/:path*", "/users/:path*"],
+  matcher: [
+    "/api/:path*",
+    "/dashboard/:path*",
+    "/users/:path*",
+    "/blood-requests/:path*",
+    "/camps/:path*",
+    "/verifications/:path*",
+    "/reports/:path*",
+  ],
 };
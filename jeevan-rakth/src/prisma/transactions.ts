@@ -1,5 +1,7 @@
 import { prisma } from "@/lib/prisma";
 import { Prisma } from "@prisma/client";
+import { isClosedStatus } from "@/lib/bloodRequests/lifecycle";
+import { compatibleDonorGroups } from "@/lib/matching/compatibility";
 
 interface PlaceOrderInput {
   userId: number;
@@ -10,6 +12,11 @@ interface PlaceOrderInput {
   simulateFailure?: boolean;
 }
 
+/**
+ * Place a product order and capture its payment atomically. Blood units are
+ * never sold through orders; they move between organizations through
+ * transfer orders (see lib/transfers/orders).
+ */
 export async function placeOrderTransaction({
   userId,
   productId,
@@ -62,3 +69,90 @@ export async function placeOrderTransaction({
     return { order, payment };
   });
 }
+
+interface AllocateBloodUnitsInput {
+  requestId: number;
+  /** Defaults to the units still outstanding on the request */
+  units?: number;
+  scope?: Prisma.BloodRequestWhereInput;
+}
+
+/**
+ * Reserve compatible AVAILABLE units held by the request's organization for
+ * that request, first-expired first-out. Runs SERIALIZABLE so two
+ * coordinators allocating at the same time cannot reserve the same unit;
+ * the loser fails with P2034 and may retry.
+ */
+export async function allocateBloodUnitsTransaction({
+  requestId,
+  units,
+  scope = {},
+}: AllocateBloodUnitsInput) {
+  return prisma.$transaction(
+    async (tx: Prisma.TransactionClient) => {
+      const request = await tx.bloodRequest.findFirst({
+        where: { id: requestId, ...scope },
+        select: {
+          id: true,
+          status: true,
+          bloodGroup: true,
+          component: true,
+          organizationId: true,
+          unitsNeeded: true,
+          unitsFulfilled: true,
+          _count: {
+            select: { reservedUnits: { where: { status: "RESERVED" } } },
+          },
+        },
+      });
+
+      if (!request) throw new Error("BLOOD_REQUEST_NOT_FOUND");
+      if (isClosedStatus(request.status)) {
+        throw new Error("INVALID_STATUS_TRANSITION");
+      }
+
+      const outstanding =
+        request.unitsNeeded -
+        request.unitsFulfilled -
+        request._count.reservedUnits;
+      const quantity = units ?? outstanding;
+      if (quantity < 1 || quantity > outstanding) {
+        throw new Error("UNITS_EXCEED_NEEDED");
+      }
+
+      const now = new Date();
+      const candidates = await tx.bloodUnit.findMany({
+        where: {
+          status: "AVAILABLE",
+          organizationId: request.organizationId,
+          component: request.component,
+          bloodGroup: {
+            in: compatibleDonorGroups(request.bloodGroup, request.component),
+          },
+          expiresAt: { gt: now },
+        },
+        orderBy: [{ expiresAt: "asc" }, { id: "asc" }],
+        take: quantity,
+        select: { id: true },
+      });
+
+      if (candidates.length < quantity) throw new Error("INSUFFICIENT_UNITS");
+
+      const ids = candidates.map((unit) => unit.id);
+      await tx.bloodUnit.updateMany({
+        where: { id: { in: ids } },
+        data: {
+          status: "RESERVED",
+          reservedForId: request.id,
+          reservedAt: now,
+        },
+      });
+
+      return tx.bloodUnit.findMany({
+        where: { id: { in: ids } },
+        orderBy: { expiresAt: "asc" },
+      });
+    },
+    { isolationLevel: Prisma.TransactionIsolationLevel.Serializable }
+  );
+}